@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { ApiClient } from './api';
+import { ApiClient, isReauthRequired } from './api';
 
 describe('ApiClient', () => {
   let client: ApiClient;
@@ -86,6 +86,107 @@ describe('ApiClient', () => {
     });
   });
 
+  describe('refreshTokens', () => {
+    it('should send the refresh token and return the rotated pair', async () => {
+      const tokens = { accessToken: 'access-2', refreshToken: 'refresh-2' };
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ tokens }),
+      });
+
+      const result = await client.refreshTokens('refresh-1');
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://api.example.com/api/auth/refresh',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ refreshToken: 'refresh-1' }),
+        })
+      );
+      expect(result).toEqual(tokens);
+    });
+
+    it('should return null when the refresh token is rejected', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: () => Promise.resolve({ error: {} }),
+      });
+
+      expect(await client.refreshTokens('reused')).toBeNull();
+    });
+  });
+
+  describe('reauthenticate', () => {
+    it('should submit the credentials and return the new timestamp', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({ authenticatedAt: '2026-01-01T00:00:00.000Z' }),
+      });
+
+      const result = await client.reauthenticate({
+        method: 'password',
+        password: 'secret',
+      });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://api.example.com/api/auth/reauthenticate',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ method: 'password', password: 'secret' }),
+        })
+      );
+      expect(result).toEqual({
+        success: true,
+        authenticatedAt: '2026-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should return the server error message on failure', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: () =>
+          Promise.resolve({
+            error: { type: 'AUTHENTICATION_ERROR', message: 'Invalid code' },
+          }),
+      });
+
+      const result = await client.reauthenticate({
+        method: 'totp',
+        code: '000000',
+      });
+
+      expect(result).toEqual({ success: false, error: 'Invalid code' });
+    });
+  });
+
+  describe('isReauthRequired', () => {
+    function jsonResponse(status: number, body: unknown): Response {
+      return new Response(JSON.stringify(body), { status });
+    }
+
+    it('should detect a re-authentication error', async () => {
+      const response = jsonResponse(403, {
+        error: { type: 'REAUTHENTICATION_REQUIRED', message: 'Confirm' },
+      });
+
+      expect(await isReauthRequired(response)).toBe(true);
+      // The body is still readable by the caller
+      expect(await response.json()).toHaveProperty('error');
+    });
+
+    it('should ignore other errors', async () => {
+      expect(
+        await isReauthRequired(
+          jsonResponse(403, { error: { type: 'AUTHORIZATION_ERROR' } })
+        )
+      ).toBe(false);
+      expect(await isReauthRequired(jsonResponse(401, {}))).toBe(false);
+    });
+  });
+
   describe('getMe', () => {
     it('should fetch current user', async () => {
       fetchMock.mockResolvedValueOnce({
@@ -100,7 +201,11 @@ describe('ApiClient', () => {
     });
 
     it('should return null when not authenticated', async () => {
-      fetchMock.mockResolvedValueOnce({ ok: false, status: 401, json: () => Promise.resolve({}) });
+      fetchMock.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: () => Promise.resolve({}),
+      });
 
       const user = await client.getMe();
 
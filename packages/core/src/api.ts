@@ -1,4 +1,5 @@
 import type {
+  AuthTokens,
   User,
   Organization,
   LoginResult,
@@ -9,8 +10,35 @@ import type {
   InviteStatus,
   InviteResult,
   AcceptInviteResult,
+  ReauthMethod,
+  ReauthCredentials,
+  ReauthResult,
 } from './types';
 
+/**
+ * Error type returned (HTTP 403) by operations that need a recent sign-in
+ */
+export const REAUTH_REQUIRED_ERROR = 'REAUTHENTICATION_REQUIRED';
+
+/**
+ * Whether a response asks the user to re-authenticate before retrying.
+ * Reads a clone, so the response body stays available to the caller.
+ */
+export async function isReauthRequired(response: Response): Promise<boolean> {
+  if (response.status !== 403) {
+    return false;
+  }
+
+  try {
+    const data = (await response.clone().json()) as {
+      error?: { type?: string };
+    };
+    return data.error?.type === REAUTH_REQUIRED_ERROR;
+  } catch {
+    return false;
+  }
+}
+
 export class ApiClient {
   private baseUrl: string;
   private credentials: RequestCredentials;
@@ -57,6 +85,7 @@ export class ApiClient {
   async login(email: string, password: string): Promise<LoginResult> {
     const { ok, status, data } = await this.request<{
       user?: User;
+      tokens?: AuthTokens;
       error?: string;
       requires2FA?: boolean;
       tempToken?: string;
@@ -66,7 +95,7 @@ export class ApiClient {
     });
 
     if (ok && data.user) {
-      return { success: true, user: data.user };
+      return { success: true, user: data.user, tokens: data.tokens };
     }
 
     if (status === 403 && data.requires2FA && data.tempToken) {
@@ -92,8 +121,12 @@ export class ApiClient {
     return { success: false, error: data.error ?? 'Registration failed' };
   }
 
-  async logout(): Promise<void> {
-    await this.request('/api/auth/logout', { method: 'POST' });
+  async logout(refreshToken?: string | null): Promise<void> {
+    await this.request('/api/auth/logout', {
+      method: 'POST',
+      // Lets the server revoke the refresh token along with the session
+      body: refreshToken ? JSON.stringify({ refreshToken }) : undefined,
+    });
   }
 
   async getMe(): Promise<User | null> {
@@ -107,36 +140,82 @@ export class ApiClient {
   }
 
   async verify2FA(code: string, tempToken: string): Promise<LoginResult> {
-    const { ok, data } = await this.request<{ user?: User; error?: string }>(
-      '/api/auth/2fa/verify',
-      {
-        method: 'POST',
-        body: JSON.stringify({ code, tempToken }),
-      }
-    );
+    const { ok, data } = await this.request<{
+      user?: User;
+      tokens?: AuthTokens;
+      error?: string;
+    }>('/api/auth/2fa/verify', {
+      method: 'POST',
+      body: JSON.stringify({ code, tempToken }),
+    });
 
     if (ok && data.user) {
-      return { success: true, user: data.user };
+      return { success: true, user: data.user, tokens: data.tokens };
     }
 
     return { success: false, error: data.error ?? '2FA verification failed' };
   }
 
-  async refreshSession(): Promise<User | null> {
-    const { ok, data } = await this.request<{ user?: User }>(
+  /**
+   * Exchange a refresh token for a new token pair. The submitted refresh
+   * token is consumed: reusing it revokes the whole session.
+   */
+  async refreshTokens(refreshToken: string): Promise<AuthTokens | null> {
+    const { ok, data } = await this.request<{ tokens?: AuthTokens }>(
       '/api/auth/refresh',
       {
         method: 'POST',
+        body: JSON.stringify({ refreshToken }),
       }
     );
 
-    if (ok && data.user) {
-      return data.user;
+    if (ok && data.tokens) {
+      return data.tokens;
     }
 
     return null;
   }
 
+  async getReauthMethods(): Promise<ReauthMethod[]> {
+    const { ok, data } = await this.request<{ methods?: ReauthMethod[] }>(
+      '/api/auth/reauthenticate'
+    );
+
+    return ok && data.methods ? data.methods : [];
+  }
+
+  /**
+   * WebAuthn request options for a passkey re-authentication, to pass to
+   * `navigator.credentials.get()` (or a helper library).
+   */
+  async getPasskeyReauthOptions(): Promise<Record<string, unknown> | null> {
+    const { ok, data } = await this.request<Record<string, unknown>>(
+      '/api/auth/reauthenticate/options',
+      { method: 'POST' }
+    );
+
+    return ok ? data : null;
+  }
+
+  async reauthenticate(credentials: ReauthCredentials): Promise<ReauthResult> {
+    const { ok, data } = await this.request<{
+      authenticatedAt?: string;
+      error?: { message?: string };
+    }>('/api/auth/reauthenticate', {
+      method: 'POST',
+      body: JSON.stringify(credentials),
+    });
+
+    if (ok && data.authenticatedAt) {
+      return { success: true, authenticatedAt: data.authenticatedAt };
+    }
+
+    return {
+      success: false,
+      error: data.error?.message ?? 'Re-authentication failed',
+    };
+  }
+
   async getOrganizations(): Promise<Organization[]> {
     const { ok, data } = await this.request<{ organizations?: Organization[] }>(
       '/api/organizations'
@@ -173,6 +173,112 @@ describe('SocleClient', () => {
     });
   });
 
+  describe('refreshSession', () => {
+    const user = { id: '1', email: 'test@example.com' };
+
+    async function loginWithTokens() {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            user,
+            tokens: { accessToken: 'access-1', refreshToken: 'refresh-1' },
+          }),
+      });
+      await client.login('test@example.com', 'password');
+    }
+
+    function refreshBody(callIndex: number) {
+      return JSON.parse(fetchMock.mock.calls[callIndex][1].body);
+    }
+
+    it('should store the rotated refresh token for the next refresh', async () => {
+      await loginWithTokens();
+      fetchMock
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              tokens: { accessToken: 'access-2', refreshToken: 'refresh-2' },
+            }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ user }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              tokens: { accessToken: 'access-3', refreshToken: 'refresh-3' },
+            }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ user }),
+        });
+
+      await client.refreshSession();
+      await client.refreshSession();
+
+      expect(refreshBody(1)).toEqual({ refreshToken: 'refresh-1' });
+      expect(fetchMock.mock.calls[2][1].headers.Authorization).toBe(
+        'Bearer access-2'
+      );
+      expect(refreshBody(3)).toEqual({ refreshToken: 'refresh-2' });
+      expect(client.getState().status).toBe('authenticated');
+    });
+
+    it('should share one request between concurrent refreshes', async () => {
+      await loginWithTokens();
+      fetchMock
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              tokens: { accessToken: 'access-2', refreshToken: 'refresh-2' },
+            }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ user }),
+        });
+
+      await Promise.all([client.refreshSession(), client.refreshSession()]);
+
+      // login + one refresh + one getMe
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should end the session when the refresh token is rejected', async () => {
+      await loginWithTokens();
+      fetchMock.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: () => Promise.resolve({}),
+      });
+
+      await client.refreshSession();
+
+      expect(client.getState().status).toBe('unauthenticated');
+      // No refresh token left to retry with
+      await client.refreshSession();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send the refresh token on logout so it is revoked', async () => {
+      await loginWithTokens();
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({}),
+      });
+
+      await client.logout();
+
+      expect(refreshBody(1)).toEqual({ refreshToken: 'refresh-1' });
+    });
+  });
+
   describe('rawApi', () => {
     it('should expose the API client', () => {
       expect(client.rawApi).toBeDefined();
@@ -1,7 +1,11 @@
 import type {
   AuthState,
+  AuthTokens,
   Organization,
   LoginResult,
+  ReauthMethod,
+  ReauthCredentials,
+  ReauthResult,
   RegisterData,
   RegisterResult,
   SocleClientOptions,
@@ -17,6 +21,7 @@ export class SocleClient {
   private state: AuthState = { status: 'loading' };
   private listeners: Set<(state: AuthState) => void> = new Set();
   private currentOrganization: Organization | null = null;
+  private pendingRefresh: Promise<void> | null = null;
 
   constructor(options: SocleClientOptions) {
     this.api = new ApiClient(options);
@@ -51,6 +56,17 @@ export class SocleClient {
     this.listeners.forEach((listener) => listener(newState));
   }
 
+  private storeTokens(tokens: AuthTokens): void {
+    this.storage.setAccessToken(tokens.accessToken);
+    this.storage.setRefreshToken(tokens.refreshToken);
+    this.api.setAccessToken(tokens.accessToken);
+  }
+
+  private clearTokens(): void {
+    this.storage.clear();
+    this.api.setAccessToken(null);
+  }
+
   /**
    * Initialize client - check for existing session
    */
@@ -73,7 +89,8 @@ export class SocleClient {
       this.storage.clear();
       this.setState({
         status: 'error',
-        error: error instanceof Error ? error : new Error('Initialization failed'),
+        error:
+          error instanceof Error ? error : new Error('Initialization failed'),
       });
     }
   }
@@ -85,6 +102,7 @@ export class SocleClient {
     const result = await this.api.login(email, password);
 
     if (result.success) {
+      if (result.tokens) this.storeTokens(result.tokens);
       this.setState({
         status: 'authenticated',
         user: result.user,
@@ -120,6 +138,7 @@ export class SocleClient {
     const result = await this.api.verify2FA(code, tempToken);
 
     if (result.success) {
+      if (result.tokens) this.storeTokens(result.tokens);
       this.setState({
         status: 'authenticated',
         user: result.user,
@@ -134,18 +153,37 @@ export class SocleClient {
    * Logout current user
    */
   async logout(): Promise<void> {
-    await this.api.logout();
-    this.storage.clear();
-    this.api.setAccessToken(null);
+    await this.api.logout(this.storage.getRefreshToken());
+    this.clearTokens();
     this.currentOrganization = null;
     this.setState({ status: 'unauthenticated' });
   }
 
   /**
-   * Refresh session
+   * Refresh session using the stored refresh token. The server rotates the
+   * refresh token on every call; the new one replaces the stored token.
+   * Concurrent calls share one request, since sending the same refresh token
+   * twice is treated as token theft and ends the session.
    */
-  async refreshSession(): Promise<void> {
-    const user = await this.api.refreshSession();
+  refreshSession(): Promise<void> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.performRefresh().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async performRefresh(): Promise<void> {
+    const refreshToken = this.storage.getRefreshToken();
+    const tokens = refreshToken
+      ? await this.api.refreshTokens(refreshToken)
+      : null;
+    if (tokens) {
+      this.storeTokens(tokens);
+    }
+
+    const user = tokens ? await this.api.getMe() : null;
     if (user) {
       this.setState({
         status: 'authenticated',
@@ -153,11 +191,32 @@ export class SocleClient {
         organization: this.currentOrganization ?? undefined,
       });
     } else {
-      this.storage.clear();
+      this.clearTokens();
       this.setState({ status: 'unauthenticated' });
     }
   }
 
+  /**
+   * Methods the current user can re-authenticate with
+   */
+  getReauthMethods(): Promise<ReauthMethod[]> {
+    return this.api.getReauthMethods();
+  }
+
+  /**
+   * Start a passkey re-authentication (returns WebAuthn request options)
+   */
+  getPasskeyReauthOptions(): Promise<Record<string, unknown> | null> {
+    return this.api.getPasskeyReauthOptions();
+  }
+
+  /**
+   * Confirm the user's identity so sensitive operations are allowed again
+   */
+  reauthenticate(credentials: ReauthCredentials): Promise<ReauthResult> {
+    return this.api.reauthenticate(credentials);
+  }
+
   /**
    * Get current organization
    */
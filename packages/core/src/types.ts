@@ -33,11 +33,20 @@ export type AuthState =
   | { status: 'authenticated'; user: User; organization?: Organization }
   | { status: 'error'; error: Error };
 
+/**
+ * Token pair issued on login and on every refresh. Refresh tokens are
+ * single-use: each refresh returns a new one that replaces the old.
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
 /**
  * Login result from API
  */
 export type LoginResult =
-  | { success: true; user: User }
+  | { success: true; user: User; tokens?: AuthTokens }
   | { success: false; error: string }
   | { success: false; requires2FA: true; tempToken: string };
 
@@ -141,3 +150,26 @@ export interface AcceptInviteResult {
   organization?: Organization;
   error?: string;
 }
+
+/**
+ * Ways a signed-in user can confirm their identity before a sensitive
+ * operation (step-up authentication)
+ */
+export type ReauthMethod = 'password' | 'totp' | 'passkey';
+
+/**
+ * Credentials for re-authentication. For passkeys, `response` is the
+ * serialized WebAuthn assertion for the options from
+ * `getPasskeyReauthOptions()`.
+ */
+export type ReauthCredentials =
+  | { method: 'password'; password: string }
+  | { method: 'totp'; code: string }
+  | { method: 'passkey'; response: unknown };
+
+/**
+ * Result from re-authenticating
+ */
+export type ReauthResult =
+  | { success: true; authenticatedAt: string }
+  | { success: false; error: string };
@@ -0,0 +1,278 @@
+import { useState, type CSSProperties, type FormEvent } from 'react';
+import type {
+  ReauthMethod,
+  ReauthCredentials,
+  ReauthResult,
+} from '@soclestack/core';
+
+export interface ReauthModalProps {
+  /** Methods the user can confirm their identity with */
+  methods: ReauthMethod[];
+  /** Submit credentials; resolves with the server result */
+  onSubmit: (credentials: ReauthCredentials) => Promise<ReauthResult>;
+  /** Run the passkey ceremony; the passkey option is hidden without it */
+  onPasskey?: () => Promise<ReauthResult>;
+  /** Called when the user dismisses the modal */
+  onCancel: () => void;
+  /** Modal title */
+  title?: string;
+  /** Modal message */
+  message?: string;
+  /** Additional class name */
+  className?: string;
+}
+
+const METHOD_LABELS: Record<ReauthMethod, string> = {
+  password: 'Password',
+  totp: 'Authenticator code',
+  passkey: 'Passkey',
+};
+
+/**
+ * Modal asking the user to confirm their identity with a password,
+ * authenticator code or passkey. Usually rendered by ReauthProvider.
+ */
+export function ReauthModal({
+  methods,
+  onSubmit,
+  onPasskey,
+  onCancel,
+  title = 'Confirm your identity',
+  message = 'For your security, please confirm your identity to continue.',
+  className,
+}: ReauthModalProps) {
+  const available = methods.filter((m) => m !== 'passkey' || onPasskey);
+  const [selected, setSelected] = useState<ReauthMethod | null>(null);
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Methods may load after the modal opens; default to the first one
+  const method = selected ?? available[0];
+
+  const selectMethod = (next: ReauthMethod) => {
+    setSelected(next);
+    setValue('');
+    setError(null);
+  };
+
+  const handleResult = (result: ReauthResult) => {
+    if (!result.success) {
+      setError(result.error);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      if (method === 'passkey' && onPasskey) {
+        handleResult(await onPasskey());
+      } else if (method === 'totp') {
+        handleResult(await onSubmit({ method: 'totp', code: value }));
+      } else {
+        handleResult(await onSubmit({ method: 'password', password: value }));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className={className}
+      style={overlayStyles}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="socle-reauth-title"
+    >
+      <form
+        onSubmit={handleSubmit}
+        style={modalStyles}
+        data-socle="reauth-form"
+      >
+        <h2 id="socle-reauth-title" style={titleStyles}>
+          {title}
+        </h2>
+        <p style={messageStyles}>{message}</p>
+
+        {available.length > 1 && (
+          <div style={methodListStyles} role="group" aria-label="Method">
+            {available.map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => selectMethod(m)}
+                aria-pressed={m === method}
+                style={m === method ? activeMethodStyles : methodStyles}
+              >
+                {METHOD_LABELS[m]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {method === 'password' && (
+          <div data-socle="field">
+            <label htmlFor="socle-reauth-password" data-socle="label">
+              Password
+            </label>
+            <input
+              id="socle-reauth-password"
+              type="password"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              required
+              autoFocus
+              autoComplete="current-password"
+              data-socle="input"
+            />
+          </div>
+        )}
+
+        {method === 'totp' && (
+          <div data-socle="field">
+            <label htmlFor="socle-reauth-code" data-socle="label">
+              Authenticator code
+            </label>
+            <input
+              id="socle-reauth-code"
+              type="text"
+              inputMode="numeric"
+              pattern="\d{6}"
+              maxLength={6}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              required
+              autoFocus
+              autoComplete="one-time-code"
+              data-socle="input"
+            />
+          </div>
+        )}
+
+        {error && (
+          <div data-socle="error" role="alert">
+            {error}
+          </div>
+        )}
+
+        <div style={buttonContainerStyles}>
+          <button
+            type="submit"
+            disabled={!method || isSubmitting}
+            data-socle="submit"
+            style={{
+              ...primaryButtonStyles,
+              opacity: !method || isSubmitting ? 0.7 : 1,
+            }}
+          >
+            {isSubmitting
+              ? 'Verifying...'
+              : method === 'passkey'
+                ? 'Use passkey'
+                : 'Confirm'}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            style={secondaryButtonStyles}
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+// Styles
+
+const overlayStyles: CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  zIndex: 9999,
+};
+
+const modalStyles: CSSProperties = {
+  backgroundColor: 'white',
+  borderRadius: 12,
+  padding: 32,
+  maxWidth: 400,
+  width: '90%',
+  boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+};
+
+const titleStyles: CSSProperties = {
+  margin: '0 0 8px',
+  fontSize: 20,
+  fontWeight: 600,
+  color: '#111827',
+};
+
+const messageStyles: CSSProperties = {
+  margin: '0 0 16px',
+  fontSize: 14,
+  color: '#6b7280',
+};
+
+const methodListStyles: CSSProperties = {
+  display: 'flex',
+  gap: 8,
+  marginBottom: 16,
+};
+
+const methodStyles: CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: 'transparent',
+  color: '#6b7280',
+  // Longhand, so the active style can override the color alone
+  borderWidth: 1,
+  borderStyle: 'solid',
+  borderColor: '#e5e7eb',
+  borderRadius: 6,
+  fontSize: 13,
+  cursor: 'pointer',
+};
+
+const activeMethodStyles: CSSProperties = {
+  ...methodStyles,
+  color: '#6366f1',
+  borderColor: '#6366f1',
+};
+
+const buttonContainerStyles: CSSProperties = {
+  display: 'flex',
+  gap: 12,
+  justifyContent: 'flex-end',
+  marginTop: 24,
+};
+
+const primaryButtonStyles: CSSProperties = {
+  padding: '10px 20px',
+  backgroundColor: '#6366f1',
+  color: 'white',
+  border: 'none',
+  borderRadius: 6,
+  fontSize: 14,
+  fontWeight: 500,
+  cursor: 'pointer',
+};
+
+const secondaryButtonStyles: CSSProperties = {
+  padding: '10px 20px',
+  backgroundColor: 'transparent',
+  color: '#6b7280',
+  border: '1px solid #e5e7eb',
+  borderRadius: 6,
+  fontSize: 14,
+  cursor: 'pointer',
+};
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import {
+  render,
+  screen,
+  fireEvent,
+  waitFor,
+  cleanup,
+  act,
+} from '@testing-library/react';
+import { ReauthProvider, useReauth } from './ReauthProvider';
+import { SocleProvider } from '../provider';
+import type { SocleClient } from '@soclestack/core';
+
+function createMockClient() {
+  return {
+    getState: vi.fn().mockReturnValue({ status: 'authenticated', user: {} }),
+    subscribe: vi.fn().mockReturnValue(() => {}),
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getReauthMethods: vi.fn().mockResolvedValue(['password', 'totp']),
+    getPasskeyReauthOptions: vi.fn(),
+    reauthenticate: vi.fn(),
+  } as unknown as SocleClient;
+}
+
+function reauthRequired(): Response {
+  return new Response(
+    JSON.stringify({
+      error: { type: 'REAUTHENTICATION_REQUIRED', message: 'Confirm' },
+    }),
+    { status: 403 }
+  );
+}
+
+function renderWithReauth(
+  client: SocleClient,
+  request: () => Promise<Response>
+) {
+  const results: Response[] = [];
+
+  function Trigger() {
+    const { withReauth } = useReauth();
+    return (
+      <button
+        onClick={async () => {
+          results.push(await withReauth(request));
+        }}
+      >
+        Delete account
+      </button>
+    );
+  }
+
+  render(
+    <SocleProvider client={client}>
+      <ReauthProvider>
+        <Trigger />
+      </ReauthProvider>
+    </SocleProvider>
+  );
+
+  return results;
+}
+
+/** Click and let the promises it starts settle, so state updates run in act */
+async function click(element: HTMLElement) {
+  await act(async () => {
+    fireEvent.click(element);
+  });
+}
+
+describe('ReauthProvider', () => {
+  beforeEach(() => {
+    cleanup();
+  });
+
+  it('should pass through responses that do not need re-authentication', async () => {
+    const client = createMockClient();
+    const request = vi.fn().mockResolvedValue(new Response('{}'));
+    const results = renderWithReauth(client, request);
+
+    await click(screen.getByText('Delete account'));
+
+    await waitFor(() => expect(results).toHaveLength(1));
+    expect(results[0].status).toBe(200);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+
+  it('should retry the request after the user confirms their identity', async () => {
+    const client = createMockClient();
+    client.reauthenticate = vi.fn().mockResolvedValue({
+      success: true,
+      authenticatedAt: '2026-01-01T00:00:00.000Z',
+    });
+    const request = vi
+      .fn()
+      .mockResolvedValueOnce(reauthRequired())
+      .mockResolvedValueOnce(new Response('{}'));
+    const results = renderWithReauth(client, request);
+
+    await click(screen.getByText('Delete account'));
+
+    const input = await screen.findByLabelText('Password');
+    fireEvent.change(input, { target: { value: 'secret' } });
+    await click(screen.getByRole('button', { name: 'Confirm' }));
+
+    await waitFor(() => expect(results).toHaveLength(1));
+    expect(client.reauthenticate).toHaveBeenCalledWith({
+      method: 'password',
+      password: 'secret',
+    });
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(results[0].status).toBe(200);
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+
+  it('should show the error and stay open when verification fails', async () => {
+    const client = createMockClient();
+    client.reauthenticate = vi
+      .fn()
+      .mockResolvedValue({ success: false, error: 'Invalid code' });
+    const request = vi.fn().mockResolvedValue(reauthRequired());
+    renderWithReauth(client, request);
+
+    await click(screen.getByText('Delete account'));
+
+    await click(
+      await screen.findByRole('button', { name: 'Authenticator code' })
+    );
+    fireEvent.change(screen.getByLabelText('Authenticator code'), {
+      target: { value: '123456' },
+    });
+    await click(screen.getByRole('button', { name: 'Confirm' }));
+
+    expect((await screen.findByRole('alert')).textContent).toBe('Invalid code');
+    expect(client.reauthenticate).toHaveBeenCalledWith({
+      method: 'totp',
+      code: '123456',
+    });
+    expect(screen.getByRole('dialog')).toBeDefined();
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the original response when the user cancels', async () => {
+    const client = createMockClient();
+    const request = vi.fn().mockResolvedValue(reauthRequired());
+    const results = renderWithReauth(client, request);
+
+    await click(screen.getByText('Delete account'));
+    await click(await screen.findByRole('button', { name: 'Cancel' }));
+
+    await waitFor(() => expect(results).toHaveLength(1));
+    expect(results[0].status).toBe(403);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(client.reauthenticate).not.toHaveBeenCalled();
+  });
+
+  it('should hide the passkey option without a passkey handler', async () => {
+    const client = createMockClient();
+    client.getReauthMethods = vi
+      .fn()
+      .mockResolvedValue(['password', 'passkey']);
+    renderWithReauth(client, vi.fn().mockResolvedValue(reauthRequired()));
+
+    await click(screen.getByText('Delete account'));
+
+    await screen.findByLabelText('Password');
+    expect(screen.queryByRole('button', { name: 'Passkey' })).toBeNull();
+  });
+});
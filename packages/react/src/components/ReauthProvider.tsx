@@ -0,0 +1,163 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import {
+  isReauthRequired,
+  type ReauthCredentials,
+  type ReauthMethod,
+  type ReauthResult,
+} from '@soclestack/core';
+import { useSocleContext } from '../provider';
+import { ReauthModal } from './ReauthModal';
+
+interface ReauthContextValue {
+  /**
+   * Run a request; if the server answers that a recent sign-in is required,
+   * ask the user to confirm their identity and run it again. Resolves with
+   * the original response if the user cancels.
+   */
+  withReauth: <T extends Response>(request: () => Promise<T>) => Promise<T>;
+  /** Ask the user to confirm their identity; resolves false if cancelled */
+  requestReauth: () => Promise<boolean>;
+}
+
+const ReauthContext = createContext<ReauthContextValue | null>(null);
+
+export interface ReauthProviderProps {
+  children: ReactNode;
+  /**
+   * Perform the WebAuthn ceremony for the given request options and return
+   * the serialized assertion (e.g. `startAuthentication` from
+   * `@simplewebauthn/browser`). The passkey option is hidden without it.
+   */
+  getPasskeyAssertion?: (options: Record<string, unknown>) => Promise<unknown>;
+  /** Modal title */
+  title?: string;
+  /** Modal message */
+  message?: string;
+}
+
+/**
+ * Step-up authentication for sensitive operations. Must be rendered inside
+ * SocleProvider.
+ *
+ * @example
+ * ```tsx
+ * <ReauthProvider getPasskeyAssertion={(o) => startAuthentication({ optionsJSON: o })}>
+ *   <App />
+ * </ReauthProvider>
+ *
+ * // In a component
+ * const { withReauth } = useReauth();
+ * const response = await withReauth(() =>
+ *   fetch('/api/auth/2fa/disable', { method: 'POST', body })
+ * );
+ * ```
+ */
+export function ReauthProvider({
+  children,
+  getPasskeyAssertion,
+  title,
+  message,
+}: ReauthProviderProps) {
+  const { client } = useSocleContext();
+  const [methods, setMethods] = useState<ReauthMethod[] | null>(null);
+  const pendingRef = useRef<{
+    promise: Promise<boolean>;
+    resolve: (confirmed: boolean) => void;
+  } | null>(null);
+
+  const finish = useCallback((confirmed: boolean) => {
+    pendingRef.current?.resolve(confirmed);
+    pendingRef.current = null;
+    setMethods(null);
+  }, []);
+
+  const requestReauth = useCallback((): Promise<boolean> => {
+    // Concurrent requests share one prompt
+    if (pendingRef.current) {
+      return pendingRef.current.promise;
+    }
+
+    let resolve!: (confirmed: boolean) => void;
+    const promise = new Promise<boolean>((r) => {
+      resolve = r;
+    });
+    pendingRef.current = { promise, resolve };
+
+    setMethods([]);
+    client
+      .getReauthMethods()
+      .then((available) => {
+        if (pendingRef.current?.promise === promise) {
+          setMethods(available);
+        }
+      })
+      .catch(() => {});
+
+    return promise;
+  }, [client]);
+
+  const withReauth = useCallback(
+    async <T extends Response>(request: () => Promise<T>): Promise<T> => {
+      const response = await request();
+      if (!(await isReauthRequired(response))) {
+        return response;
+      }
+      return (await requestReauth()) ? request() : response;
+    },
+    [requestReauth]
+  );
+
+  const handleSubmit = useCallback(
+    async (credentials: ReauthCredentials): Promise<ReauthResult> => {
+      const result = await client.reauthenticate(credentials);
+      if (result.success) {
+        finish(true);
+      }
+      return result;
+    },
+    [client, finish]
+  );
+
+  const handlePasskey = useCallback(async (): Promise<ReauthResult> => {
+    const options = await client.getPasskeyReauthOptions();
+    if (!options || !getPasskeyAssertion) {
+      return { success: false, error: 'Passkey verification is unavailable' };
+    }
+    const response = await getPasskeyAssertion(options);
+    return handleSubmit({ method: 'passkey', response });
+  }, [client, getPasskeyAssertion, handleSubmit]);
+
+  return (
+    <ReauthContext.Provider value={{ withReauth, requestReauth }}>
+      {children}
+      {methods && (
+        <ReauthModal
+          methods={methods}
+          onSubmit={handleSubmit}
+          onPasskey={getPasskeyAssertion ? handlePasskey : undefined}
+          onCancel={() => finish(false)}
+          title={title}
+          message={message}
+        />
+      )}
+    </ReauthContext.Provider>
+  );
+}
+
+/**
+ * Step-up authentication helpers from the nearest ReauthProvider
+ */
+export function useReauth(): ReauthContextValue {
+  const context = useContext(ReauthContext);
+  if (!context) {
+    throw new Error('useReauth must be used within a ReauthProvider');
+  }
+  return context;
+}
@@ -24,3 +24,9 @@ export type { InviteAcceptProps } from './InviteAccept';
 
 export { SessionTimeoutWarning } from './SessionTimeoutWarning';
 export type { SessionTimeoutWarningProps } from './SessionTimeoutWarning';
+
+export { ReauthModal } from './ReauthModal';
+export type { ReauthModalProps } from './ReauthModal';
+
+export { ReauthProvider, useReauth } from './ReauthProvider';
+export type { ReauthProviderProps } from './ReauthProvider';
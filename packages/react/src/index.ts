@@ -6,6 +6,9 @@ export type {
   LoginResult,
   RegisterData,
   RegisterResult,
+  ReauthMethod,
+  ReauthCredentials,
+  ReauthResult,
   SocleClient,
 } from '@soclestack/core';
 
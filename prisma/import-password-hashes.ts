@@ -0,0 +1,61 @@
+/**
+ * Import password hashes from a legacy system, so migrated users can sign
+ * in with their existing password. Hashes are upgraded to the configured
+ * algorithm at each user's first sign-in.
+ *
+ * Usage: npx tsx prisma/import-password-hashes.ts <file.json>
+ *
+ * The file holds an array of { "email": "...", "passwordHash": "..." }.
+ * Supported formats: argon2, scrypt, bcrypt, Django PBKDF2
+ * (pbkdf2_sha256$...) and LDAP salted SHA ({SSHA}, {SSHA256}, {SSHA512}).
+ */
+import { readFileSync } from 'fs';
+import { PrismaClient } from '@prisma/client';
+import { isSupportedPasswordHash } from '../src/lib/auth/password-hashing';
+
+const prisma = new PrismaClient();
+
+interface PasswordHashRecord {
+  email: string;
+  passwordHash: string;
+}
+
+async function importPasswordHashes(path: string) {
+  const records: PasswordHashRecord[] = JSON.parse(readFileSync(path, 'utf8'));
+  console.log(`🔄 Importing ${records.length} password hashes...\n`);
+
+  let imported = 0;
+  for (const { email, passwordHash } of records) {
+    if (!isSupportedPasswordHash(passwordHash)) {
+      console.log(`⚠️  Skipped ${email}: unsupported hash format`);
+      continue;
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { email },
+      data: { password: passwordHash },
+    });
+    if (count === 0) {
+      console.log(`⚠️  Skipped ${email}: no such user`);
+      continue;
+    }
+    imported++;
+  }
+
+  console.log(`\n🎉 Imported ${imported} of ${records.length} password hashes`);
+}
+
+const [path] = process.argv.slice(2);
+if (!path) {
+  console.error('Usage: npx tsx prisma/import-password-hashes.ts <file.json>');
+  process.exit(1);
+}
+
+importPasswordHashes(path)
+  .catch((e) => {
+    console.error('Import failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
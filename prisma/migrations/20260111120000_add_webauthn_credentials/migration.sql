@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."webauthn_credentials" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "credential_id" TEXT NOT NULL,
+    "public_key" TEXT NOT NULL,
+    "counter" INTEGER NOT NULL DEFAULT 0,
+    "transports" TEXT,
+    "device_type" TEXT NOT NULL,
+    "backed_up" BOOLEAN NOT NULL DEFAULT false,
+    "last_used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webauthn_credentials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webauthn_credentials_credential_id_key" ON "public"."webauthn_credentials"("credential_id");
+
+-- CreateIndex
+CREATE INDEX "webauthn_credentials_user_id_idx" ON "public"."webauthn_credentials"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."webauthn_credentials" ADD CONSTRAINT "webauthn_credentials_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable: Single-use magic link sign-in token (SHA-256 hash)
+ALTER TABLE "public"."users" ADD COLUMN "magic_link_token" TEXT,
+ADD COLUMN "magic_link_expires" TIMESTAMP(3);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."saml_connections" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "idp_entity_id" TEXT NOT NULL,
+    "idp_sso_url" TEXT NOT NULL,
+    "idp_certificate" TEXT NOT NULL,
+    "email_attribute" TEXT,
+    "first_name_attribute" TEXT,
+    "last_name_attribute" TEXT,
+    "default_role_id" TEXT NOT NULL,
+    "is_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saml_connections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "saml_connections_organization_id_key" ON "public"."saml_connections"("organization_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."saml_connections" ADD CONSTRAINT "saml_connections_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "public"."organizations" ADD COLUMN     "sso_enforced" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "domain_verification_token" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."organization_domains" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "verified_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_domains_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "organization_domains_domain_idx" ON "public"."organization_domains"("domain");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_domains_organization_id_domain_key" ON "public"."organization_domains"("organization_id", "domain");
+
+-- AddForeignKey
+ALTER TABLE "public"."organization_domains" ADD CONSTRAINT "organization_domains_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "public"."scim_tokens" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "token_prefix" TEXT NOT NULL,
+    "last_used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revoked_at" TIMESTAMP(3),
+
+    CONSTRAINT "scim_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."scim_identities" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "external_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scim_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scim_tokens_organization_id_idx" ON "public"."scim_tokens"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "scim_tokens_token_hash_idx" ON "public"."scim_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "scim_identities_user_id_idx" ON "public"."scim_identities"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scim_identities_organization_id_user_id_key" ON "public"."scim_identities"("organization_id", "user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scim_identities_organization_id_external_id_key" ON "public"."scim_identities"("organization_id", "external_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."scim_tokens" ADD CONSTRAINT "scim_tokens_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."scim_identities" ADD CONSTRAINT "scim_identities_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."scim_identities" ADD CONSTRAINT "scim_identities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
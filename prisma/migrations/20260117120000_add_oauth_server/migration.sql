@@ -0,0 +1,113 @@
+-- CreateTable
+CREATE TABLE "public"."oauth_clients" (
+    "id" TEXT NOT NULL,
+    "client_id" TEXT NOT NULL,
+    "client_secret_hash" TEXT,
+    "name" TEXT NOT NULL,
+    "redirect_uris" TEXT[],
+    "scopes" TEXT[],
+    "grant_types" TEXT[],
+    "skip_consent" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+
+    CONSTRAINT "oauth_clients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."oauth_authorization_codes" (
+    "id" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "oauth_client_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "redirect_uri" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "code_challenge" TEXT NOT NULL,
+    "nonce" TEXT,
+    "auth_time" TIMESTAMP(3) NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "oauth_authorization_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."oauth_refresh_tokens" (
+    "id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "family_id" TEXT NOT NULL,
+    "oauth_client_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "auth_time" TIMESTAMP(3) NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revoked_at" TIMESTAMP(3),
+
+    CONSTRAINT "oauth_refresh_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."oauth_consents" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "oauth_client_id" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "oauth_consents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_clients_client_id_key" ON "public"."oauth_clients"("client_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_authorization_codes_code_hash_key" ON "public"."oauth_authorization_codes"("code_hash");
+
+-- CreateIndex
+CREATE INDEX "oauth_authorization_codes_oauth_client_id_idx" ON "public"."oauth_authorization_codes"("oauth_client_id");
+
+-- CreateIndex
+CREATE INDEX "oauth_authorization_codes_user_id_idx" ON "public"."oauth_authorization_codes"("user_id");
+
+-- CreateIndex
+CREATE INDEX "oauth_authorization_codes_expires_at_idx" ON "public"."oauth_authorization_codes"("expires_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_refresh_tokens_token_hash_key" ON "public"."oauth_refresh_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "oauth_refresh_tokens_family_id_idx" ON "public"."oauth_refresh_tokens"("family_id");
+
+-- CreateIndex
+CREATE INDEX "oauth_refresh_tokens_user_id_oauth_client_id_idx" ON "public"."oauth_refresh_tokens"("user_id", "oauth_client_id");
+
+-- CreateIndex
+CREATE INDEX "oauth_refresh_tokens_expires_at_idx" ON "public"."oauth_refresh_tokens"("expires_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_consents_user_id_oauth_client_id_key" ON "public"."oauth_consents"("user_id", "oauth_client_id");
+
+-- CreateIndex
+CREATE INDEX "oauth_consents_oauth_client_id_idx" ON "public"."oauth_consents"("oauth_client_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."oauth_authorization_codes" ADD CONSTRAINT "oauth_authorization_codes_oauth_client_id_fkey" FOREIGN KEY ("oauth_client_id") REFERENCES "public"."oauth_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."oauth_authorization_codes" ADD CONSTRAINT "oauth_authorization_codes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."oauth_refresh_tokens" ADD CONSTRAINT "oauth_refresh_tokens_oauth_client_id_fkey" FOREIGN KEY ("oauth_client_id") REFERENCES "public"."oauth_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."oauth_refresh_tokens" ADD CONSTRAINT "oauth_refresh_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."oauth_consents" ADD CONSTRAINT "oauth_consents_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."oauth_consents" ADD CONSTRAINT "oauth_consents_oauth_client_id_fkey" FOREIGN KEY ("oauth_client_id") REFERENCES "public"."oauth_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."signing_keys" (
+    "id" TEXT NOT NULL,
+    "kid" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "public_key" JSONB NOT NULL,
+    "private_key" TEXT NOT NULL,
+    "activates_at" TIMESTAMP(3) NOT NULL,
+    "retires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "signing_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signing_keys_kid_key" ON "public"."signing_keys"("kid");
+
+-- CreateIndex
+CREATE INDEX "signing_keys_retires_at_idx" ON "public"."signing_keys"("retires_at");
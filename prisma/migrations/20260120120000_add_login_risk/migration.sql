@@ -0,0 +1,7 @@
+-- AlterTable: Emailed one-time code (HMAC-SHA256) for login challenges
+ALTER TABLE "public"."users" ADD COLUMN "email_otp_hash" TEXT,
+ADD COLUMN "email_otp_expires" TIMESTAMP(3),
+ADD COLUMN "email_otp_attempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex: Per-user login history lookups for risk scoring
+CREATE INDEX "audit_logs_user_id_action_created_at_idx" ON "public"."audit_logs"("user_id", "action", "created_at");
@@ -0,0 +1,2 @@
+-- AlterTable: Second factor used at login (authenticator app or emailed code)
+ALTER TABLE "public"."users" ADD COLUMN "two_factor_method" TEXT NOT NULL DEFAULT 'totp';
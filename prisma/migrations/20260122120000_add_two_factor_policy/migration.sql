@@ -0,0 +1,5 @@
+-- AlterTable: Organizations can require two-factor authentication for members
+ALTER TABLE "public"."organizations" ADD COLUMN "require_2fa" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable: Deadline for users covered by a 2FA policy to enroll
+ALTER TABLE "public"."users" ADD COLUMN "two_factor_grace_until" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable: Organization overrides of the platform password policy
+ALTER TABLE "public"."organizations" ADD COLUMN "password_policy" JSONB;
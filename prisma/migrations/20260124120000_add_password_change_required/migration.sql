@@ -0,0 +1,2 @@
+-- AlterTable: Admins can require users to change their password at next login
+ALTER TABLE "public"."users" ADD COLUMN "password_change_required" BOOLEAN NOT NULL DEFAULT false;
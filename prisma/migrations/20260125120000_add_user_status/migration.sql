@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."user_status" AS ENUM ('INVITED', 'ACTIVE', 'SUSPENDED', 'PENDING_DELETION', 'DELETED');
+
+-- AlterTable: Explicit lifecycle status; is_active mirrors status = ACTIVE
+ALTER TABLE "public"."users" ADD COLUMN "status" "public"."user_status" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN "status_reason" TEXT,
+ADD COLUMN "status_expires_at" TIMESTAMP(3);
+
+-- Deactivated users become indefinitely suspended
+UPDATE "public"."users" SET "status" = 'SUSPENDED' WHERE "is_active" = false;
+
+-- CreateTable
+CREATE TABLE "public"."user_status_transitions" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "from_status" "public"."user_status" NOT NULL,
+    "to_status" "public"."user_status" NOT NULL,
+    "reason" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "changed_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_status_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_status_transitions_user_id_created_at_idx" ON "public"."user_status_transitions"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_status_transitions" ADD CONSTRAINT "user_status_transitions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
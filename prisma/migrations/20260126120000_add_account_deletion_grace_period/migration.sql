@@ -0,0 +1,5 @@
+-- AlterTable: Hashed token of the emailed link that cancels a pending deletion
+ALTER TABLE "public"."users" ADD COLUMN "deletion_cancel_token" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_deletion_cancel_token_key" ON "public"."users"("deletion_cancel_token");
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."data_export_status" AS ENUM ('PENDING', 'PROCESSING', 'READY', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."data_exports" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" "public"."data_export_status" NOT NULL DEFAULT 'PENDING',
+    "archive" BYTEA,
+    "size" INTEGER,
+    "error" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "data_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "data_exports_user_id_created_at_idx" ON "public"."data_exports"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "data_exports_status_idx" ON "public"."data_exports"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."data_exports" ADD CONSTRAINT "data_exports_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "public"."role_permissions" (
+    "id" TEXT NOT NULL,
+    "role_id" TEXT NOT NULL,
+    "permission" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "role_permissions_role_id_permission_key" ON "public"."role_permissions"("role_id", "permission");
+
+-- CreateIndex
+CREATE INDEX "role_permissions_permission_idx" ON "public"."role_permissions"("permission");
+
+-- AddForeignKey
+ALTER TABLE "public"."role_permissions" ADD CONSTRAINT "role_permissions_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "public"."roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the grants the voters used to hard-code
+INSERT INTO "public"."role_permissions" ("id", "role_id", "permission")
+SELECT gen_random_uuid()::text, r."id", g."permission"
+FROM (VALUES
+    ('ROLE_USER', 'organization.view'),
+    ('ROLE_ADMIN', 'organization.edit'),
+    ('ROLE_ADMIN', 'organization.manage'),
+    ('ROLE_OWNER', 'organization.delete'),
+    ('ROLE_USER', 'organization.members.view'),
+    ('ROLE_ADMIN', 'organization.members.manage'),
+    ('ROLE_ADMIN', 'organization.invites.manage'),
+    ('ROLE_MODERATOR', 'user.view'),
+    ('ROLE_MODERATOR', 'user.edit'),
+    ('ROLE_ADMIN', 'user.delete'),
+    ('ROLE_ADMIN', 'user.roles.manage')
+) AS g("role_name", "permission")
+JOIN "public"."roles" r ON r."name" = g."role_name";
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "public"."access_policy_effect" AS ENUM ('GRANT', 'DENY');
+
+-- CreateTable
+CREATE TABLE "public"."access_policies" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "effect" "public"."access_policy_effect" NOT NULL,
+    "permissions" TEXT[],
+    "condition" JSONB NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "access_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "access_policies_name_key" ON "public"."access_policies"("name");
+
+-- CreateIndex
+CREATE INDEX "access_policies_enabled_idx" ON "public"."access_policies"("enabled");
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "public"."user_roles" ADD COLUMN "expires_at" TIMESTAMP(3),
+ADD COLUMN "starts_at" TIMESTAMP(3);
+
+-- CreateEnum
+CREATE TYPE "public"."role_request_status" AS ENUM ('PENDING', 'APPROVED', 'DENIED', 'CANCELLED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."role_requests" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "role_id" TEXT NOT NULL,
+    "organization_id" TEXT,
+    "justification" TEXT NOT NULL,
+    "duration_minutes" INTEGER NOT NULL,
+    "status" "public"."role_request_status" NOT NULL DEFAULT 'PENDING',
+    "reviewed_by_id" TEXT,
+    "review_note" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "expires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_roles_expires_at_idx" ON "public"."user_roles"("expires_at");
+
+-- CreateIndex
+CREATE INDEX "role_requests_user_id_created_at_idx" ON "public"."role_requests"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "role_requests_status_idx" ON "public"."role_requests"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."role_requests" ADD CONSTRAINT "role_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."role_requests" ADD CONSTRAINT "role_requests_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."role_requests" ADD CONSTRAINT "role_requests_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "public"."roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."role_requests" ADD CONSTRAINT "role_requests_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."refresh_tokens" ADD COLUMN "family_expires_at" TIMESTAMP(3);
+
+-- Existing families end when their current token does
+UPDATE "public"."refresh_tokens" SET "family_expires_at" = "expires_at";
+
+ALTER TABLE "public"."refresh_tokens" ALTER COLUMN "family_expires_at" SET NOT NULL;
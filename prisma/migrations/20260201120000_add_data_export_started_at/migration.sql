@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."data_exports" ADD COLUMN "started_at" TIMESTAMP(3);
+
+-- Exports already building are treated as started when requested
+UPDATE "public"."data_exports" SET "started_at" = "created_at" WHERE "status" = 'PROCESSING';
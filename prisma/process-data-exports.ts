@@ -0,0 +1,34 @@
+/**
+ * Fail data exports interrupted while building, build those left pending
+ * (e.g. by a restart) and delete expired export archives. Run it on a schedule, e.g. hourly from cron.
+ *
+ * Usage: npx tsx prisma/process-data-exports.ts
+ */
+import { prisma } from '../src/lib/db';
+import {
+  expireDataExports,
+  failStaleDataExports,
+  processPendingDataExports,
+} from '../src/lib/data-export';
+
+async function processDataExports() {
+  console.log('🔄 Processing data exports...\n');
+
+  const failed = await failStaleDataExports();
+  console.log(`⚠️  Failed ${failed} interrupted exports`);
+
+  const processed = await processPendingDataExports();
+  console.log(`✅ Built ${processed} pending exports`);
+
+  const expired = await expireDataExports();
+  console.log(`🗑️  Deleted ${expired} expired archives`);
+}
+
+processDataExports()
+  .catch((e) => {
+    console.error('Processing failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,30 @@
+/**
+ * Delete the accounts whose deletion grace period has ended. Run it on a
+ * schedule, e.g. daily from cron.
+ *
+ * Usage: npx tsx prisma/purge-deleted-accounts.ts
+ */
+import { prisma } from '../src/lib/db';
+import { purgeDueAccountDeletions } from '../src/lib/account-deletion';
+
+async function purgeDeletedAccounts() {
+  console.log('🔄 Purging accounts whose grace period ended...\n');
+
+  const { purged, blocked } = await purgeDueAccountDeletions();
+
+  if (blocked > 0) {
+    console.log(
+      `⚠️  Kept ${blocked} accounts: they are the last administrator of an organization`
+    );
+  }
+  console.log(`🎉 Deleted ${purged} accounts`);
+}
+
+purgeDeletedAccounts()
+  .catch((e) => {
+    console.error('Purge failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
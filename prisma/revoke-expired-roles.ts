@@ -0,0 +1,26 @@
+/**
+ * Revoke the time-bound role assignments whose time ran out. Run it on a
+ * schedule, e.g. every 5 minutes from cron; expired assignments stop
+ * counting for authorization as soon as they expire either way.
+ *
+ * Usage: npx tsx prisma/revoke-expired-roles.ts
+ */
+import { prisma } from '../src/lib/db';
+import { revokeExpiredRoleAssignments } from '../src/lib/role-requests';
+
+async function revokeExpiredRoles() {
+  console.log('🔄 Revoking expired role assignments...\n');
+
+  const { revoked } = await revokeExpiredRoleAssignments();
+
+  console.log(`🎉 Revoked ${revoked} role assignments`);
+}
+
+revokeExpiredRoles()
+  .catch((e) => {
+    console.error('Revocation failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
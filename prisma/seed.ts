@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { ROLE_NAMES as ROLES } from '../src/lib/constants/roles';
+import { DEFAULT_PERMISSION_GRANTS } from '../src/lib/security/permissions';
 import bcrypt from 'bcryptjs';
 
 const prisma = new PrismaClient();
@@ -86,6 +87,22 @@ async function seedRoles() {
   return { roleUser, roleModerator, roleAdmin, roleOwner, roleEditor };
 }
 
+async function seedRolePermissions() {
+  console.log('\n🔑 Seeding role permissions...');
+
+  for (const [permission, roleNames] of Object.entries(DEFAULT_PERMISSION_GRANTS)) {
+    for (const roleName of roleNames) {
+      const role = await prisma.role.findUniqueOrThrow({ where: { name: roleName } });
+      await prisma.rolePermission.upsert({
+        where: { roleId_permission: { roleId: role.id, permission } },
+        update: {},
+        create: { roleId: role.id, permission },
+      });
+    }
+    console.log(`✅ Granted ${permission} to ${roleNames.join(', ')}`);
+  }
+}
+
 async function seedOrganizationsAndUsers(roles: {
   roleUser: { id: string };
   roleModerator: { id: string };
@@ -266,6 +283,7 @@ async function main() {
 
   try {
     const roles = await seedRoles();
+    await seedRolePermissions();
     await seedOrganizationsAndUsers(roles);
     console.log('\n🎉 Seed completed successfully!');
   } catch (error) {
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getPublicJwks } from '@/lib/signing-keys';
+
+export const runtime = 'nodejs';
+
+// GET /.well-known/jwks.json - Public keys for verifying tokens we sign
+export async function GET() {
+  try {
+    return NextResponse.json(await getPublicJwks(), {
+      headers: { 'Cache-Control': 'public, max-age=3600' },
+    });
+  } catch (error) {
+    console.error('JWKS error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Signing keys unavailable' },
+      { status: 500 }
+    );
+  }
+}
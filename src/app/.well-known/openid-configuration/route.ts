@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getDiscoveryDocument } from '@/lib/oauth-server';
+
+export const runtime = 'nodejs';
+
+// GET /.well-known/openid-configuration - OpenID Provider metadata
+export async function GET() {
+  return NextResponse.json(getDiscoveryDocument(), {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
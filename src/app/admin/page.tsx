@@ -20,6 +20,11 @@ import {
   LogIn,
   Building2,
   Mail,
+  Upload,
+  UserX,
+  SearchCheck,
+  ScrollText,
+  KeyRound,
 } from 'lucide-react';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
@@ -57,6 +62,7 @@ export default async function AdminPage() {
     failedLogins24h,
     newUsers7d,
     totalOrganizations,
+    pendingRoleRequests,
   ] = await Promise.all([
     prisma.user.count(),
     prisma.user.count({ where: { isActive: true } }),
@@ -73,6 +79,7 @@ export default async function AdminPage() {
     }),
     prisma.user.count({ where: { createdAt: { gte: last7d } } }),
     prisma.organization.count(),
+    prisma.roleRequest.count({ where: { status: 'PENDING' } }),
   ]);
 
   const twoFactorPercent =
@@ -253,6 +260,93 @@ export default async function AdminPage() {
                   </CardContent>
                 </Card>
               </Link>
+              <Link href="/admin/users/import">
+                <Card className="cursor-pointer transition-shadow hover:shadow-md">
+                  <CardContent className="p-6">
+                    <div className="flex items-center">
+                      <Upload className="h-8 w-8 text-green-600" />
+                      <div className="ml-4">
+                        <div className="font-medium text-gray-900">
+                          Import Users
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          Create accounts from a file
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+              <Link href="/admin/users/deletions">
+                <Card className="cursor-pointer transition-shadow hover:shadow-md">
+                  <CardContent className="p-6">
+                    <div className="flex items-center">
+                      <UserX className="h-8 w-8 text-red-600" />
+                      <div className="ml-4">
+                        <div className="font-medium text-gray-900">
+                          Pending Deletions
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          Accounts scheduled for deletion
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+              <Link href="/admin/role-requests">
+                <Card className="cursor-pointer transition-shadow hover:shadow-md">
+                  <CardContent className="p-6">
+                    <div className="flex items-center">
+                      <KeyRound className="h-8 w-8 text-amber-600" />
+                      <div className="ml-4">
+                        <div className="font-medium text-gray-900">
+                          Access Requests
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {pendingRoleRequests > 0
+                            ? `${pendingRoleRequests} waiting for approval`
+                            : 'Time-bound role requests'}
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+              <Link href="/admin/policies">
+                <Card className="cursor-pointer transition-shadow hover:shadow-md">
+                  <CardContent className="p-6">
+                    <div className="flex items-center">
+                      <ScrollText className="h-8 w-8 text-teal-600" />
+                      <div className="ml-4">
+                        <div className="font-medium text-gray-900">
+                          Access Policies
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          Attribute-based permission rules
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+              <Link href="/admin/access-trace">
+                <Card className="cursor-pointer transition-shadow hover:shadow-md">
+                  <CardContent className="p-6">
+                    <div className="flex items-center">
+                      <SearchCheck className="h-8 w-8 text-purple-600" />
+                      <div className="ml-4">
+                        <div className="font-medium text-gray-900">
+                          Access Trace
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          Explain permission decisions
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
             </div>
           </div>
         )}
@@ -0,0 +1,50 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { AccessPolicies } from '@/components/admin/access-policies';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { isGranted, ROLES } from '@/lib/security/index';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminAccessPoliciesPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login?returnUrl=/admin/policies');
+  }
+
+  // Only ADMIN can manage access policies
+  if (!(await isGranted(user, ROLES.ADMIN))) {
+    redirect('/dashboard');
+  }
+
+  return (
+    <main className="mx-auto max-w-7xl py-6 sm:px-6 lg:px-8">
+      <div className="px-4 py-6 sm:px-0">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/admin"
+            className="mb-4 inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Access Policies</h1>
+          <p className="mt-2 text-gray-600">
+            Grant or deny permissions based on user, subject and request
+            attributes. Test a policy against sample checks before saving it.
+          </p>
+        </div>
+
+        <AccessPolicies />
+      </div>
+    </main>
+  );
+}
+
+export const metadata = {
+  title: 'Access Policies - SocleStack Admin',
+  description: 'Manage attribute-based access policies',
+};
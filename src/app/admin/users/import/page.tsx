@@ -0,0 +1,50 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { UserImport } from '@/components/admin/user-import';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { isGranted, ROLES } from '@/lib/security/index';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminUserImportPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login?returnUrl=/admin/users/import');
+  }
+
+  // Only ADMIN can import users
+  if (!(await isGranted(user, ROLES.ADMIN))) {
+    redirect('/dashboard');
+  }
+
+  return (
+    <main className="mx-auto max-w-7xl py-6 sm:px-6 lg:px-8">
+      <div className="px-4 py-6 sm:px-0">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/admin"
+            className="mb-4 inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Import Users</h1>
+          <p className="mt-2 text-gray-600">
+            Create accounts in bulk from a CSV or JSON file. Run a dry run first
+            to check every row.
+          </p>
+        </div>
+
+        <UserImport />
+      </div>
+    </main>
+  );
+}
+
+export const metadata = {
+  title: 'Import Users - SocleStack Admin',
+  description: 'Bulk import user accounts',
+};
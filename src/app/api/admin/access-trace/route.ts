@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { handleServiceError, requireAdmin } from '@/lib/api-utils';
+import { accessTraceSchema } from '@/lib/validations';
+import { traceIsGranted, userWithRolesInclude } from '@/lib/security/index';
+import { NotFoundError } from '@/services/auth.errors';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/admin/access-trace - Explain an authorization decision (ADMIN)
+ *
+ * Runs isGranted() in trace mode for the given user, attribute and subject
+ * and returns every voter consulted, whether it supported the attribute,
+ * its vote, the roles resolved by each hasRole() check and the outcome.
+ * Nothing is changed or audited.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const body = await req.json().catch(() => ({}));
+    const validationResult = accessTraceSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: validationResult.error.flatten().fieldErrors,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { attribute, subject } = validationResult.data;
+
+    const user = await prisma.user.findFirst({
+      where: {
+        OR: [
+          { id: validationResult.data.user },
+          { email: validationResult.data.user.toLowerCase() },
+        ],
+      },
+      include: userWithRolesInclude,
+    });
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    let traceSubject: { id: string; slug?: string } | undefined;
+    let organizationId: string | null = null;
+    let subjectLabel: string | null = null;
+
+    if (subject?.type === 'organization') {
+      const organization = await prisma.organization.findFirst({
+        where: { OR: [{ id: subject.id }, { slug: subject.id }] },
+        select: { id: true, slug: true, name: true },
+      });
+      if (!organization) {
+        throw new NotFoundError('Organization not found');
+      }
+      traceSubject = { id: organization.id, slug: organization.slug };
+      organizationId = organization.id;
+      subjectLabel = organization.name;
+    } else if (subject?.type === 'user') {
+      const target = await prisma.user.findFirst({
+        where: {
+          OR: [{ id: subject.id }, { email: subject.id.toLowerCase() }],
+        },
+        select: { id: true, email: true },
+      });
+      if (!target) {
+        throw new NotFoundError('Subject user not found');
+      }
+      traceSubject = { id: target.id };
+      subjectLabel = target.email;
+    }
+
+    const trace = await traceIsGranted(user, attribute, {
+      organizationId,
+      subject: traceSubject,
+    });
+
+    return NextResponse.json({
+      user: { id: user.id, email: user.email },
+      subject:
+        subject && traceSubject
+          ? { type: subject.type, id: traceSubject.id, label: subjectLabel }
+          : null,
+      trace,
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { getSession, getClientIP, getCurrentUser } from '@/lib/auth';
+import {
+  getSession,
+  getClientIP,
+  getCurrentUser,
+  assertRecentAuth,
+} from '@/lib/auth';
 import { prisma } from '@/lib/db';
 import { logAuditEvent } from '@/lib/audit';
 import { isImpersonating } from '@/lib/auth/impersonation';
+import { ReauthenticationRequiredError } from '@/services/auth.errors';
+import { handleServiceError } from '@/lib/api-utils';
 import {
   getHighestRole,
   userWithRolesInclude,
@@ -70,6 +77,16 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Acting as another user requires a recent sign-in
+    try {
+      assertRecentAuth(session, 'impersonate');
+    } catch (error) {
+      if (error instanceof ReauthenticationRequiredError) {
+        return handleServiceError(error);
+      }
+      throw error;
+    }
+
     // Parse and validate request body
     const body = await req.json();
     const result = impersonateSchema.safeParse(body);
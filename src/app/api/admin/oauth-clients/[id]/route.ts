@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logAuditEvent } from '@/lib/audit';
+import { requireAdmin } from '@/lib/api-utils';
+import {
+  oauthClientInputSchema,
+  oauthClientSelect,
+  getClientConfigError,
+  toOAuthClientResponse,
+  isPublicClient,
+} from '@/lib/oauth-server';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Validation schema for updating a client
+ */
+const updateClientSchema = oauthClientInputSchema.partial();
+
+function findClient(id: string) {
+  return prisma.oAuthClient.findFirst({
+    where: { id, revokedAt: null },
+    select: { ...oauthClientSelect, createdAt: true },
+  });
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: { type: 'NOT_FOUND', message: 'OAuth client not found' } },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET /api/admin/oauth-clients/[id]
+ *
+ * Get a registered OAuth client.
+ * Requires ROLE_ADMIN access.
+ */
+export async function GET(_req: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const client = await findClient(id);
+    if (!client) return notFound();
+
+    return NextResponse.json({ client: toOAuthClientResponse(client) });
+  } catch (error) {
+    console.error('Admin OAuth client get error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'Failed to fetch OAuth client',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/oauth-clients/[id]
+ *
+ * Update a client's name, redirect URIs, scopes, grant types or consent
+ * setting. Whether a client is public cannot change.
+ * Requires ROLE_ADMIN access.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+    const user = auth.user;
+
+    const { id } = await params;
+    const body = await req.json();
+    const parseResult = updateClientSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: parseResult.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await findClient(id);
+    if (!existing) return notFound();
+
+    const updates = parseResult.data;
+    const configError = getClientConfigError({
+      isPublic: isPublicClient(existing),
+      redirectUris: updates.redirectUris ?? existing.redirectUris,
+      grantTypes: updates.grantTypes ?? existing.grantTypes,
+    });
+    if (configError) {
+      return NextResponse.json(
+        { error: { type: 'VALIDATION_ERROR', message: configError } },
+        { status: 400 }
+      );
+    }
+
+    const client = await prisma.oAuthClient.update({
+      where: { id: existing.id },
+      data: updates,
+      select: { ...oauthClientSelect, createdAt: true },
+    });
+
+    await logAuditEvent({
+      action: 'ADMIN_OAUTH_CLIENT_UPDATED',
+      category: 'admin',
+      userId: user.id,
+      metadata: {
+        clientId: client.clientId,
+        changes: Object.keys(updates),
+      },
+    });
+
+    return NextResponse.json({ client: toOAuthClientResponse(client) });
+  } catch (error) {
+    console.error('Admin OAuth client update error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'Failed to update OAuth client',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/oauth-clients/[id]
+ *
+ * Revoke a client and every refresh token issued to it.
+ * Requires ROLE_ADMIN access.
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+    const user = auth.user;
+
+    const { id } = await params;
+    const client = await findClient(id);
+    if (!client) return notFound();
+
+    const now = new Date();
+    await prisma.$transaction([
+      // Soft delete
+      prisma.oAuthClient.update({
+        where: { id: client.id },
+        data: { revokedAt: now },
+      }),
+      prisma.oAuthRefreshToken.updateMany({
+        where: { oauthClientId: client.id, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+    ]);
+
+    await logAuditEvent({
+      action: 'ADMIN_OAUTH_CLIENT_REVOKED',
+      category: 'admin',
+      userId: user.id,
+      metadata: { clientId: client.clientId, clientName: client.name },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin OAuth client revoke error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'Failed to revoke OAuth client',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logAuditEvent } from '@/lib/audit';
+import { requireAdmin } from '@/lib/api-utils';
+import { generateClientSecret } from '@/lib/oauth-server';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/admin/oauth-clients/[id]/secret
+ *
+ * Replace a confidential client's secret. The old secret stops working
+ * immediately; the new one is returned once.
+ * Requires ROLE_ADMIN access.
+ */
+export async function POST(_req: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+    const user = auth.user;
+
+    const { id } = await params;
+    const client = await prisma.oAuthClient.findFirst({
+      where: { id, revokedAt: null },
+      select: { id: true, clientId: true, clientSecretHash: true },
+    });
+
+    if (!client) {
+      return NextResponse.json(
+        { error: { type: 'NOT_FOUND', message: 'OAuth client not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (client.clientSecretHash === null) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Public clients do not have a secret',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { secret, secretHash } = generateClientSecret();
+    await prisma.oAuthClient.update({
+      where: { id: client.id },
+      data: { clientSecretHash: secretHash },
+    });
+
+    await logAuditEvent({
+      action: 'ADMIN_OAUTH_CLIENT_SECRET_ROTATED',
+      category: 'admin',
+      userId: user.id,
+      metadata: { clientId: client.clientId },
+    });
+
+    return NextResponse.json({ clientSecret: secret });
+  } catch (error) {
+    console.error('Admin OAuth client secret rotation error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'Failed to rotate client secret',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isRateLimited } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { logAuditEvent } from '@/lib/audit';
+import { requireAdmin } from '@/lib/api-utils';
+import {
+  oauthClientInputSchema,
+  oauthClientSelect,
+  getClientConfigError,
+  toOAuthClientResponse,
+  generateClientId,
+  generateClientSecret,
+} from '@/lib/oauth-server';
+
+export const runtime = 'nodejs';
+
+/** Rate limit: 20 client registrations per hour */
+const CLIENT_CREATE_LIMIT = 20;
+/** Rate limit window in milliseconds (1 hour) */
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Validation schema for registering a client
+ */
+const createClientSchema = oauthClientInputSchema.extend({
+  isPublic: z.boolean().default(false),
+});
+
+/**
+ * GET /api/admin/oauth-clients
+ *
+ * List registered OAuth clients.
+ * Requires ROLE_ADMIN access.
+ */
+export async function GET() {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const clients = await prisma.oAuthClient.findMany({
+      where: { revokedAt: null },
+      select: { ...oauthClientSelect, createdAt: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      clients: clients.map(toOAuthClientResponse),
+    });
+  } catch (error) {
+    console.error('Admin OAuth clients list error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'Failed to fetch OAuth clients',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/oauth-clients
+ *
+ * Register an OAuth client. Confidential clients get a secret, returned once.
+ * Requires ROLE_ADMIN access.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+    const user = auth.user;
+
+    const rateLimitKey = `admin-oauth-client-create:${user.id}`;
+    if (
+      isRateLimited(rateLimitKey, CLIENT_CREATE_LIMIT, RATE_LIMIT_WINDOW_MS)
+    ) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'RATE_LIMIT_ERROR',
+            message: 'Too many client registrations. Please try again later.',
+          },
+        },
+        { status: 429, headers: { 'Retry-After': '3600' } }
+      );
+    }
+
+    const body = await req.json();
+    const parseResult = createClientSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: parseResult.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { isPublic, ...input } = parseResult.data;
+    const configError = getClientConfigError({ isPublic, ...input });
+    if (configError) {
+      return NextResponse.json(
+        { error: { type: 'VALIDATION_ERROR', message: configError } },
+        { status: 400 }
+      );
+    }
+
+    const secret = isPublic ? null : generateClientSecret();
+
+    const client = await prisma.oAuthClient.create({
+      data: {
+        ...input,
+        clientId: generateClientId(),
+        clientSecretHash: secret?.secretHash ?? null,
+      },
+      select: { ...oauthClientSelect, createdAt: true },
+    });
+
+    await logAuditEvent({
+      action: 'ADMIN_OAUTH_CLIENT_CREATED',
+      category: 'admin',
+      userId: user.id,
+      metadata: {
+        clientId: client.clientId,
+        clientName: client.name,
+        isPublic,
+        scopes: client.scopes,
+        grantTypes: client.grantTypes,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        client: toOAuthClientResponse(client),
+        clientSecret: secret?.secret ?? null, // Only returned on creation!
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Admin OAuth client create error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'Failed to create OAuth client',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
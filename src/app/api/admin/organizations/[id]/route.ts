@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { isRateLimited, getCurrentUser } from '@/lib/auth';
+import { isRateLimited, getCurrentUser, getClientIP } from '@/lib/auth';
 import { prisma } from '@/lib/db';
 import { logAuditEvent } from '@/lib/audit';
 import { headers } from 'next/headers';
@@ -64,6 +64,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
                 firstName: true,
                 lastName: true,
                 username: true,
+                twoFactorEnabled: true,
               },
             },
             role: {
@@ -100,6 +101,13 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
         name: organization.name,
         slug: organization.slug,
         createdAt: organization.createdAt.toISOString(),
+        twoFactor: {
+          required: organization.require2FA,
+          members: organization.userRoles.length,
+          enrolled: organization.userRoles.filter(
+            (userRole) => userRole.user.twoFactorEnabled
+          ).length,
+        },
         members: sortedMembers.map((userRole) => ({
           userId: userRole.user.id,
           role: userRole.role.name,
@@ -110,6 +118,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
             firstName: userRole.user.firstName,
             lastName: userRole.user.lastName,
             username: userRole.user.username,
+            twoFactorEnabled: userRole.user.twoFactorEnabled,
           },
         })),
       },
@@ -175,10 +184,13 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Check if user is admin of this organization (or platform admin)
+    // Check if user is admin of this organization (or platform admin);
+    // the IP and time feed access policy conditions
     const canManage = await isGranted(user, PERMISSIONS.ORGANIZATION.MANAGE, {
       organizationId: id,
       subject: { id: organization.id, slug: organization.slug },
+      ip: getClientIP(req),
+      time: new Date(),
     });
 
     if (!canManage) {
@@ -341,6 +353,8 @@ export async function DELETE(req: NextRequest, { params }: RouteParams) {
     const canDelete = await isGranted(user, PERMISSIONS.ORGANIZATION.DELETE, {
       organizationId: id,
       subject: { id: organization.id, slug: organization.slug },
+      ip: getClientIP(req),
+      time: new Date(),
     });
 
     if (!canDelete) {
@@ -88,6 +88,19 @@ export async function GET(req: NextRequest) {
       prisma.organization.count({ where }),
     ]);
 
+    // 2FA compliance: members of each listed organization who enrolled
+    const enrolledCounts = await prisma.userRole.groupBy({
+      by: ['organizationId'],
+      where: {
+        organizationId: { in: organizations.map((org) => org.id) },
+        user: { twoFactorEnabled: true },
+      },
+      _count: { _all: true },
+    });
+    const enrolledByOrganization = new Map(
+      enrolledCounts.map((group) => [group.organizationId, group._count._all])
+    );
+
     return NextResponse.json({
       organizations: organizations.map((org) => ({
         id: org.id,
@@ -96,6 +109,11 @@ export async function GET(req: NextRequest) {
         createdAt: org.createdAt.toISOString(),
         memberCount: org._count.userRoles,
         owner: org.userRoles[0]?.user || null,
+        twoFactor: {
+          required: org.require2FA,
+          members: org._count.userRoles,
+          enrolled: enrolledByOrganization.get(org.id) ?? 0,
+        },
       })),
       pagination: {
         page,
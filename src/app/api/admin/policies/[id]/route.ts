@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleServiceError, requireAdmin } from '@/lib/api-utils';
+import {
+  deleteAccessPolicy,
+  getAccessPolicy,
+  updateAccessPolicy,
+} from '@/lib/access-policies';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/admin/policies/[id] - Get an access policy (ADMIN)
+export async function GET(_req: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const policy = await getAccessPolicy(id);
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+// PATCH /api/admin/policies/[id] - Update an access policy (ADMIN)
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const policy = await updateAccessPolicy(id, body, auth.user.id);
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+// DELETE /api/admin/policies/[id] - Delete an access policy (ADMIN)
+export async function DELETE(_req: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    await deleteAccessPolicy(id, auth.user.id);
+
+    return NextResponse.json({ message: 'Access policy deleted' });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
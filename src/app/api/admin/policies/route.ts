@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleServiceError, requireAdmin } from '@/lib/api-utils';
+import { createAccessPolicy, listAccessPolicies } from '@/lib/access-policies';
+
+export const runtime = 'nodejs';
+
+// GET /api/admin/policies - List access policies (ADMIN)
+export async function GET() {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const policies = await listAccessPolicies();
+
+    return NextResponse.json({ policies });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+// POST /api/admin/policies - Create an access policy (ADMIN)
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const body = await req.json().catch(() => ({}));
+    const policy = await createAccessPolicy(body, auth.user.id);
+
+    return NextResponse.json({ policy }, { status: 201 });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleServiceError, requireAdmin } from '@/lib/api-utils';
+import { testAccessPolicy } from '@/lib/access-policies';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/admin/policies/test - Validate a policy and run it against
+ * sample checks without saving it (ADMIN)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const body = await req.json().catch(() => ({}));
+
+    return NextResponse.json(testAccessPolicy(body));
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getRequestContext,
+  handleServiceError,
+  requireAdmin,
+} from '@/lib/api-utils';
+import { reviewRoleRequest } from '@/lib/role-requests';
+import { reviewRoleRequestSchema } from '@/lib/validations';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/admin/role-requests/[id] - Approve or deny a pending request (ADMIN)
+ *
+ * Approving assigns the role until the requested duration has passed,
+ * counted from now.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const body = await req.json().catch(() => ({}));
+    const validationResult = reviewRoleRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: validationResult.error.flatten().fieldErrors,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const { clientIP, userAgent } = getRequestContext(req);
+    const request = await reviewRoleRequest(
+      id,
+      auth.user.id,
+      validationResult.data,
+      { ipAddress: clientIP, userAgent }
+    );
+
+    return NextResponse.json({ request });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RoleRequestStatus } from '@prisma/client';
+import { z } from 'zod';
+import { handleServiceError, requireAdmin } from '@/lib/api-utils';
+import {
+  listRoleRequests,
+  revokeExpiredRoleAssignments,
+} from '@/lib/role-requests';
+import { ValidationError } from '@/services/auth.errors';
+
+export const runtime = 'nodejs';
+
+const statusSchema = z.enum(RoleRequestStatus).optional();
+
+// GET /api/admin/role-requests?status=PENDING - Role requests, all by default (ADMIN)
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const status = statusSchema.safeParse(
+      req.nextUrl.searchParams.get('status') || undefined
+    );
+    if (!status.success) {
+      throw new ValidationError('Invalid status');
+    }
+
+    const requests = await listRoleRequests(status.data);
+
+    return NextResponse.json({ requests });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+// POST /api/admin/role-requests - Revoke role assignments whose time ran out (ADMIN)
+export async function POST() {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const result = await revokeExpiredRoleAssignments();
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -5,6 +5,7 @@ import { prisma } from '@/lib/db';
 import { clearRoleHierarchyCache } from '@/lib/security/index';
 import { logAuditEvent } from '@/lib/audit';
 import { requireAdmin } from '@/lib/api-utils';
+import { ALL_PERMISSIONS } from '@/lib/security/permissions';
 
 export const runtime = 'nodejs';
 
@@ -24,10 +25,13 @@ interface RouteParams {
 
 /**
  * Validation schema for updating a role
+ *
+ * `permissions` replaces the role's granted permissions when present.
  */
 const updateRoleSchema = z.object({
   description: z.string().nullable().optional(),
   parentId: z.string().nullable().optional(),
+  permissions: z.array(z.enum(ALL_PERMISSIONS)).optional(),
 });
 
 /**
@@ -61,7 +65,7 @@ async function isDescendant(
 /**
  * GET /api/admin/roles/[id]
  *
- * Get role details with assigned users and child roles.
+ * Get role details with granted permissions, assigned users and child roles.
  * Requires ROLE_ADMIN access.
  *
  * Query params:
@@ -125,6 +129,11 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
             name: true,
           },
         },
+        permissions: {
+          select: {
+            permission: true,
+          },
+        },
         userRoles: {
           skip: usersOffset,
           take: usersLimit,
@@ -170,6 +179,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
         parentId: role.parentId,
         parentName: role.parent?.name ?? null,
         isSystem: role.isSystem,
+        permissions: role.permissions.map((grant) => grant.permission),
         users: role.userRoles.map((ur) => ({
           id: ur.user.id,
           email: ur.user.email,
@@ -204,7 +214,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
 /**
  * PATCH /api/admin/roles/[id]
  *
- * Update role description and/or parent.
+ * Update role description, parent and/or granted permissions.
  * Requires ROLE_ADMIN access.
  */
 export async function PATCH(req: NextRequest, { params }: RouteParams) {
@@ -231,6 +241,13 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
 
     const existingRole = await prisma.role.findUnique({
       where: { id },
+      include: {
+        permissions: {
+          select: {
+            permission: true,
+          },
+        },
+      },
     });
 
     if (!existingRole) {
@@ -261,7 +278,7 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const { description, parentId } = parseResult.data;
+    const { description, parentId, permissions } = parseResult.data;
 
     // Validate parent if provided
     if (parentId !== undefined && parentId !== null) {
@@ -324,6 +341,27 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       updateData.parentId = parentId;
     }
 
+    // Replace granted permissions, keeping the grants that did not change
+    let permissionChanges: { added: string[]; removed: string[] } | undefined;
+    if (permissions !== undefined) {
+      const current = existingRole.permissions.map((grant) => grant.permission);
+      const requested = new Set<string>(permissions);
+      const added = [...requested].filter((p) => !current.includes(p));
+      const removed = current.filter((p) => !requested.has(p));
+
+      if (added.length > 0 || removed.length > 0) {
+        await prisma.$transaction([
+          prisma.rolePermission.deleteMany({
+            where: { roleId: id, permission: { in: removed } },
+          }),
+          prisma.rolePermission.createMany({
+            data: added.map((permission) => ({ roleId: id, permission })),
+          }),
+        ]);
+        permissionChanges = { added, removed };
+      }
+    }
+
     const role = await prisma.role.update({
       where: { id },
       data: updateData,
@@ -334,6 +372,11 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
             name: true,
           },
         },
+        permissions: {
+          select: {
+            permission: true,
+          },
+        },
         _count: {
           select: {
             userRoles: true,
@@ -342,8 +385,9 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       },
     });
 
-    // Clear role hierarchy cache since we may have changed parent
-    if (parentId !== undefined) {
+    // Clear role hierarchy and permission caches since we may have changed
+    // the parent or the grants
+    if (parentId !== undefined || permissionChanges) {
       clearRoleHierarchyCache();
     }
 
@@ -355,7 +399,10 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       metadata: {
         roleId: role.id,
         roleName: role.name,
-        changes: updateData,
+        changes: {
+          ...updateData,
+          ...(permissionChanges && { permissions: permissionChanges }),
+        },
       },
     });
 
@@ -367,6 +414,7 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
         parentId: role.parentId,
         parentName: role.parent?.name ?? null,
         isSystem: role.isSystem,
+        permissions: role.permissions.map((grant) => grant.permission),
         userCount: role._count.userRoles,
         createdAt: role.createdAt.toISOString(),
         updatedAt: role.updatedAt.toISOString(),
@@ -5,6 +5,7 @@ import { prisma } from '@/lib/db';
 import { clearRoleHierarchyCache, isPlatformRole } from '@/lib/security/index';
 import { logAuditEvent } from '@/lib/audit';
 import { requireAdmin } from '@/lib/api-utils';
+import { ALL_PERMISSIONS } from '@/lib/security/permissions';
 
 export const runtime = 'nodejs';
 
@@ -23,12 +24,13 @@ const createRoleSchema = z.object({
   }),
   description: z.string().optional(),
   parentId: z.string().optional(),
+  permissions: z.array(z.enum(ALL_PERMISSIONS)).optional(),
 });
 
 /**
  * GET /api/admin/roles
  *
- * List all roles with hierarchy info and user counts.
+ * List all roles with hierarchy info, granted permissions and user counts.
  * Requires ROLE_ADMIN access.
  */
 export async function GET() {
@@ -44,6 +46,11 @@ export async function GET() {
             name: true,
           },
         },
+        permissions: {
+          select: {
+            permission: true,
+          },
+        },
         _count: {
           select: {
             userRoles: true,
@@ -64,6 +71,7 @@ export async function GET() {
         parentId: role.parentId,
         parentName: role.parent?.name ?? null,
         isSystem: role.isSystem,
+        permissions: role.permissions.map((grant) => grant.permission),
         userCount: role._count.userRoles,
         childCount: role._count.children,
         createdAt: role.createdAt.toISOString(),
@@ -127,6 +135,7 @@ export async function POST(req: NextRequest) {
     }
 
     const { name, description, parentId } = parseResult.data;
+    const permissions = [...new Set(parseResult.data.permissions ?? [])];
 
     // Check for duplicate name
     const existingRole = await prisma.role.findUnique({
@@ -171,6 +180,11 @@ export async function POST(req: NextRequest) {
         description: description ?? null,
         parentId: parentId ?? null,
         isSystem: false,
+        ...(permissions.length > 0 && {
+          permissions: {
+            create: permissions.map((permission) => ({ permission })),
+          },
+        }),
       },
       include: {
         parent: {
@@ -182,7 +196,7 @@ export async function POST(req: NextRequest) {
       },
     });
 
-    // Clear role hierarchy cache since we added a new role
+    // Clear role hierarchy and permission caches since we added a new role
     clearRoleHierarchyCache();
 
     // Audit log
@@ -194,6 +208,7 @@ export async function POST(req: NextRequest) {
         roleId: role.id,
         roleName: role.name,
         parentId: role.parentId,
+        ...(permissions.length > 0 && { permissions }),
       },
     });
 
@@ -206,6 +221,7 @@ export async function POST(req: NextRequest) {
           parentId: role.parentId,
           parentName: role.parent?.name ?? null,
           isSystem: role.isSystem,
+          permissions,
           userCount: 0,
           childCount: 0,
           createdAt: role.createdAt.toISOString(),
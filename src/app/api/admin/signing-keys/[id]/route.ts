@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/auth';
+import { logAuditEvent } from '@/lib/audit';
+import { requireAdmin } from '@/lib/api-utils';
+import { retireSigningKey } from '@/lib/signing-keys';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/admin/signing-keys/[id]
+ *
+ * Retire a signing key immediately, e.g. after a leak. Every token it signed
+ * stops verifying; if it was the signing key, a new one replaces it.
+ * Requires ROLE_ADMIN access.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+    const user = auth.user;
+
+    const { id } = await params;
+    const retired = await retireSigningKey(id);
+
+    if (!retired) {
+      return NextResponse.json(
+        { error: { type: 'NOT_FOUND', message: 'Signing key not found' } },
+        { status: 404 }
+      );
+    }
+
+    await logAuditEvent({
+      action: 'ADMIN_SIGNING_KEY_RETIRED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: { signingKeyId: id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin signing key retire error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'Failed to retire signing key',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
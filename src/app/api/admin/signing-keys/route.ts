@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIP, isRateLimited } from '@/lib/auth';
+import { logAuditEvent } from '@/lib/audit';
+import { requireAdmin } from '@/lib/api-utils';
+import { listSigningKeys, rotateSigningKey } from '@/lib/signing-keys';
+
+export const runtime = 'nodejs';
+
+/** Rate limit: 10 manual rotations per hour */
+const ROTATE_LIMIT = 10;
+/** Rate limit window in milliseconds (1 hour) */
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * GET /api/admin/signing-keys
+ *
+ * List token signing keys, including retired ones. Private keys are never
+ * returned.
+ * Requires ROLE_ADMIN access.
+ */
+export async function GET() {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    return NextResponse.json({ keys: await listSigningKeys() });
+  } catch (error) {
+    console.error('Admin signing keys list error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'Failed to fetch signing keys',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/signing-keys
+ *
+ * Rotate now: a new key starts signing immediately and the previous key
+ * keeps verifying for the overlap window.
+ * Requires ROLE_ADMIN access.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+    const user = auth.user;
+
+    const rateLimitKey = `admin-signing-key-rotate:${user.id}`;
+    if (isRateLimited(rateLimitKey, ROTATE_LIMIT, RATE_LIMIT_WINDOW_MS)) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'RATE_LIMIT_ERROR',
+            message: 'Too many key rotations. Please try again later.',
+          },
+        },
+        { status: 429, headers: { 'Retry-After': '3600' } }
+      );
+    }
+
+    const key = await rotateSigningKey();
+
+    await logAuditEvent({
+      action: 'ADMIN_SIGNING_KEY_ROTATED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: { kid: key.kid, algorithm: key.algorithm },
+    });
+
+    return NextResponse.json({ key }, { status: 201 });
+  } catch (error) {
+    console.error('Admin signing key rotation error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'Failed to rotate signing key',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
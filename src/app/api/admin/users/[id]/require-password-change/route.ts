@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/auth';
+import { requirePasswordChange } from '@/lib/auth/password-expiry';
+import { logAuditEvent } from '@/lib/audit';
+import { prisma } from '@/lib/db';
+import { requireAdmin } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+// POST /api/admin/users/[id]/require-password-change - Require a password change at next login (ADMIN)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const clientIP = getClientIP(req);
+  const userAgent = req.headers.get('user-agent') || undefined;
+
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+    const currentUser = auth.user;
+
+    const { id: targetUserId } = await params;
+
+    if (targetUserId === currentUser.id) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'BAD_REQUEST',
+            message: 'Change your own password from your profile',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { id: true, email: true },
+    });
+
+    if (!targetUser) {
+      return NextResponse.json(
+        { error: { type: 'NOT_FOUND', message: 'User not found' } },
+        { status: 404 }
+      );
+    }
+
+    const flaggedIds = await requirePasswordChange([targetUserId]);
+    if (flaggedIds.length === 0) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'BAD_REQUEST',
+            message: 'This user signs in without a password',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await logAuditEvent({
+      action: 'ADMIN_PASSWORD_CHANGE_REQUIRED',
+      category: 'admin',
+      userId: targetUserId,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { requiredBy: currentUser.id, targetEmail: targetUser.email },
+    });
+
+    return NextResponse.json({
+      message: 'The user must change their password at next login',
+    });
+  } catch (error) {
+    console.error('Admin require password change error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'Failed to require a password change',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -57,6 +57,7 @@ export async function POST(
         twoFactorSecret: null,
         twoFactorEnabled: false,
         twoFactorVerified: false,
+        twoFactorMethod: 'totp',
       },
     });
 
@@ -32,10 +32,22 @@ const setUserRolesSchema = z.object({
 /**
  * Validation schema for assigning a single role with organization context
  */
-const assignRoleSchema = z.object({
-  roleName: z.string().regex(/^ROLE_[A-Z][A-Z0-9_]+$/),
-  organizationId: z.string().nullable().optional(),
-});
+const assignRoleSchema = z
+  .object({
+    roleName: z.string().regex(/^ROLE_[A-Z][A-Z0-9_]+$/),
+    organizationId: z.string().nullable().optional(),
+    // Optional time window; the role only counts from startsAt until expiresAt
+    startsAt: z.coerce.date().optional(),
+    expiresAt: z.coerce
+      .date()
+      .refine((date) => date > new Date(), 'Expiry must be in the future')
+      .optional(),
+  })
+  .refine(
+    ({ startsAt, expiresAt }) =>
+      !startsAt || !expiresAt || startsAt < expiresAt,
+    { message: 'Expiry must be after the start', path: ['expiresAt'] }
+  );
 
 /**
  * Get all roles a user inherits from a given set of direct roles
@@ -411,7 +423,8 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
 /**
  * POST /api/admin/users/[id]/roles
  *
- * Assign a single role to a user with optional organization context.
+ * Assign a single role to a user with optional organization context and
+ * time window (startsAt, expiresAt).
  * - Platform admins can assign platform-wide roles (organizationId: null)
  * - Org admins can assign org-scoped roles in their organization only
  */
@@ -449,7 +462,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const { roleName, organizationId } = parseResult.data;
+    const { roleName, organizationId, startsAt, expiresAt } = parseResult.data;
 
     // Authorization: Only platform admin can assign platform-wide roles
     if (organizationId === null || organizationId === undefined) {
@@ -504,6 +517,8 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         userId: targetUserId,
         roleId: role.id,
         organizationId: organizationId ?? null,
+        startsAt,
+        expiresAt,
       },
       include: {
         role: true,
@@ -524,6 +539,8 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         roleName,
         organizationId: assignment.organizationId,
         organizationName: assignment.organization?.name ?? null,
+        startsAt: assignment.startsAt?.toISOString() ?? null,
+        expiresAt: assignment.expiresAt?.toISOString() ?? null,
         sessionsInvalidated,
       },
     });
@@ -536,6 +553,8 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
           roleName: assignment.role.name,
           organizationId: assignment.organizationId,
           organizationName: assignment.organization?.name ?? null,
+          startsAt: assignment.startsAt?.toISOString() ?? null,
+          expiresAt: assignment.expiresAt?.toISOString() ?? null,
           createdAt: assignment.createdAt.toISOString(),
         },
       },
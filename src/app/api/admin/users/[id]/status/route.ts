@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/auth';
+import { changeUserStatus } from '@/lib/auth/user-status';
+import { logAuditEvent } from '@/lib/audit';
+import { prisma } from '@/lib/db';
+import { handleServiceError, requireAdmin } from '@/lib/api-utils';
+import { changeUserStatusSchema } from '@/lib/validations';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/admin/users/[id]/status - Current status and status history (ADMIN)
+export async function GET(_req: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        statusReason: true,
+        statusExpiresAt: true,
+        statusTransitions: {
+          orderBy: { createdAt: 'desc' },
+          take: 50,
+          select: {
+            id: true,
+            fromStatus: true,
+            toStatus: true,
+            reason: true,
+            expiresAt: true,
+            changedById: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: { type: 'NOT_FOUND', message: 'User not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { statusTransitions, ...status } = user;
+    return NextResponse.json({ ...status, history: statusTransitions });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+// POST /api/admin/users/[id]/status - Suspend or reactivate a user (ADMIN)
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const clientIP = getClientIP(req);
+  const userAgent = req.headers.get('user-agent') || undefined;
+
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+    const currentUser = auth.user;
+
+    const { id: targetUserId } = await params;
+
+    if (targetUserId === currentUser.id) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'BAD_REQUEST',
+            message: 'You cannot change the status of your own account',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const validationResult = changeUserStatusSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: validationResult.error.flatten().fieldErrors,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { id: true, email: true, status: true },
+    });
+
+    if (!targetUser) {
+      return NextResponse.json(
+        { error: { type: 'NOT_FOUND', message: 'User not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { status, reason, until } = validationResult.data;
+    const updated = await changeUserStatus(targetUserId, status, {
+      reason,
+      expiresAt: until,
+      changedById: currentUser.id,
+    });
+
+    await logAuditEvent({
+      action: 'ADMIN_USER_STATUS_CHANGED',
+      category: 'admin',
+      userId: targetUserId,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: {
+        changedBy: currentUser.id,
+        targetEmail: targetUser.email,
+        from: targetUser.status,
+        to: status,
+        reason: reason ?? null,
+        expiresAt: until?.toISOString() ?? null,
+      },
+    });
+
+    return NextResponse.json({
+      message: 'User status updated',
+      user: updated,
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
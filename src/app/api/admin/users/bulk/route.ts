@@ -6,14 +6,28 @@ import { AuthError } from '@/types/auth';
 import { z } from 'zod';
 import { userWithRolesInclude, isGranted, ROLES } from '@/lib/security/index';
 import { requireAdmin } from '@/lib/api-utils';
+import { requirePasswordChange } from '@/lib/auth/password-expiry';
+import { changeUsersStatus } from '@/lib/auth/user-status';
 
 export const runtime = 'nodejs';
 
 const bulkActionSchema = z.object({
   userIds: z.array(z.string()).min(1).max(100),
-  action: z.enum(['activate', 'deactivate', 'delete']),
+  action: z.enum([
+    'activate',
+    'deactivate',
+    'delete',
+    'require_password_change',
+  ]),
 });
 
+const ACTION_MESSAGES = {
+  activate: 'activated',
+  deactivate: 'deactivated',
+  delete: 'deleted',
+  require_password_change: 'required a password change for',
+} as const;
+
 export async function POST(req: NextRequest) {
   try {
     const auth = await requireAdmin();
@@ -100,11 +114,10 @@ export async function POST(req: NextRequest) {
 
     switch (action) {
       case 'activate':
-        const activateResult = await prisma.user.updateMany({
-          where: { id: { in: validUserIds } },
-          data: { isActive: true },
+        const activatedIds = await changeUsersStatus(validUserIds, 'ACTIVE', {
+          changedById: currentUser.id,
         });
-        affectedCount = activateResult.count;
+        affectedCount = activatedIds.length;
 
         await logAuditEvent({
           action: 'ADMIN_BULK_ACTIVATE',
@@ -112,16 +125,18 @@ export async function POST(req: NextRequest) {
           userId: currentUser.id,
           ipAddress: clientIP,
           userAgent,
-          metadata: { targetUserIds: validUserIds, count: affectedCount },
+          metadata: { targetUserIds: activatedIds, count: affectedCount },
         });
         break;
 
       case 'deactivate':
-        const deactivateResult = await prisma.user.updateMany({
-          where: { id: { in: validUserIds } },
-          data: { isActive: false },
-        });
-        affectedCount = deactivateResult.count;
+        // Suspends the users, which also ends their sessions
+        const suspendedIds = await changeUsersStatus(
+          validUserIds,
+          'SUSPENDED',
+          { changedById: currentUser.id }
+        );
+        affectedCount = suspendedIds.length;
 
         await logAuditEvent({
           action: 'ADMIN_BULK_DEACTIVATE',
@@ -129,7 +144,7 @@ export async function POST(req: NextRequest) {
           userId: currentUser.id,
           ipAddress: clientIP,
           userAgent,
-          metadata: { targetUserIds: validUserIds, count: affectedCount },
+          metadata: { targetUserIds: suspendedIds, count: affectedCount },
         });
         break;
 
@@ -155,10 +170,25 @@ export async function POST(req: NextRequest) {
           },
         });
         break;
+
+      case 'require_password_change':
+        // Users without a password (OAuth or SSO only) are skipped
+        const flaggedIds = await requirePasswordChange(validUserIds);
+        affectedCount = flaggedIds.length;
+
+        await logAuditEvent({
+          action: 'ADMIN_BULK_REQUIRE_PASSWORD_CHANGE',
+          category: 'admin',
+          userId: currentUser.id,
+          ipAddress: clientIP,
+          userAgent,
+          metadata: { targetUserIds: flaggedIds, count: affectedCount },
+        });
+        break;
     }
 
     return NextResponse.json({
-      message: `Successfully ${action}d ${affectedCount} user(s)`,
+      message: `Successfully ${ACTION_MESSAGES[action]} ${affectedCount} user(s)`,
       affectedCount,
     });
   } catch (error) {
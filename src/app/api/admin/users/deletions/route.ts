@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { handleServiceError, requireAdmin } from '@/lib/api-utils';
+import {
+  getDeletionGracePeriodDays,
+  purgeDueAccountDeletions,
+} from '@/lib/account-deletion';
+
+export const runtime = 'nodejs';
+
+// GET /api/admin/users/deletions - Accounts pending deletion (ADMIN)
+export async function GET() {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const users = await prisma.user.findMany({
+      where: { status: 'PENDING_DELETION' },
+      orderBy: { statusExpiresAt: 'asc' },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        firstName: true,
+        lastName: true,
+        statusReason: true,
+        statusExpiresAt: true,
+      },
+    });
+
+    return NextResponse.json({
+      gracePeriodDays: getDeletionGracePeriodDays(),
+      users,
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+// POST /api/admin/users/deletions - Purge accounts whose grace period ended (ADMIN)
+export async function POST() {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+
+    const result = await purgeDueAccountDeletions();
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
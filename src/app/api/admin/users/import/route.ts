@@ -0,0 +1,92 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/auth';
+import { handleServiceError, requireAdmin } from '@/lib/api-utils';
+import { userImportSchema } from '@/lib/validations';
+import {
+  importUserBatch,
+  parseUserImportFile,
+  validateUserImport,
+  type UserImportRowResult,
+} from '@/lib/user-import';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+function summarize(rows: UserImportRowResult[]) {
+  const count = (status: UserImportRowResult['status']) =>
+    rows.filter((row) => row.status === status).length;
+  return {
+    valid: count('valid'),
+    created: count('created'),
+    invalid: count('invalid'),
+    failed: count('failed'),
+  };
+}
+
+/**
+ * POST /api/admin/users/import - Import users from a CSV or JSON file (ADMIN)
+ *
+ * With dryRun (the default) every row is validated and nothing is created.
+ * Otherwise the batch starting at `offset` is imported and `nextOffset`
+ * tells where the next batch starts, or is null after the last one. Pass
+ * the returned `batchId` back with each following batch.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.ok) return auth.response;
+    const currentUser = auth.user;
+
+    const body = await req.json().catch(() => ({}));
+    const validationResult = userImportSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: validationResult.error.flatten().fieldErrors,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format, content, dryRun, offset, batchId, ...options } =
+      validationResult.data;
+    const records = parseUserImportFile(content, format);
+
+    if (dryRun) {
+      const rows = await validateUserImport(records, options);
+      return NextResponse.json({
+        dryRun: true,
+        total: records.length,
+        rows,
+        summary: summarize(rows),
+      });
+    }
+
+    const importBatchId = batchId ?? randomUUID();
+    const rows = await importUserBatch(records, offset, options, {
+      batchId: importBatchId,
+      importedBy: currentUser.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+    });
+    const nextOffset = offset + rows.length;
+
+    return NextResponse.json({
+      dryRun: false,
+      batchId: importBatchId,
+      total: records.length,
+      offset,
+      nextOffset: nextOffset < records.length ? nextOffset : null,
+      rows,
+      summary: summarize(rows),
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSession } from '@/lib/auth';
+import { getSession, assertRecentAuth } from '@/lib/auth';
 import { disable2FA } from '@/services/auth.service';
 import { getRequestContext, handleServiceError } from '@/lib/api-utils';
 import { isImpersonating } from '@/lib/auth/impersonation';
@@ -25,6 +25,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    assertRecentAuth(session, 'disable2FA');
+
     const body = await req.json();
     const validationResult = disableSchema.safeParse(body);
 
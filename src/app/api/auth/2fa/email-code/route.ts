@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { sendTwoFactorSettingsCode } from '@/services/auth.service';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { isImpersonating } from '@/lib/auth/impersonation';
+
+export const runtime = 'nodejs';
+
+/**
+ * Email a code to finish setting up, or to disable, email 2FA.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json(
+        {
+          error: { type: 'AUTHENTICATION_ERROR', message: 'Not authenticated' },
+        },
+        { status: 401 }
+      );
+    }
+
+    const context = {
+      ...getRequestContext(req),
+      isImpersonating: isImpersonating(session),
+    };
+    await sendTwoFactorSettingsCode(session.userId, context);
+
+    return NextResponse.json({ message: 'Code sent' });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendPending2FAEmailCode } from '@/services/auth.service';
+import { handleServiceError } from '@/lib/api-utils';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const emailCodeSchema = z.object({
+  pendingToken: z.string().min(1),
+});
+
+/**
+ * Email a sign-in code for a pending 2FA login.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const validationResult = emailCodeSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: { type: 'VALIDATION_ERROR', message: 'Invalid request' } },
+        { status: 400 }
+      );
+    }
+
+    await sendPending2FAEmailCode(validationResult.data.pendingToken);
+
+    return NextResponse.json({ message: 'Code sent' });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
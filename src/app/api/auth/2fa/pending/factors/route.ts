@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPending2FAFactors } from '@/services/auth.service';
+import { handleServiceError } from '@/lib/api-utils';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const factorsSchema = z.object({
+  pendingToken: z.string().min(1),
+});
+
+/**
+ * List the factors that can complete a pending 2FA login.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const validationResult = factorsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: { type: 'VALIDATION_ERROR', message: 'Invalid request' } },
+        { status: 400 }
+      );
+    }
+
+    const result = await getPending2FAFactors(
+      validationResult.data.pendingToken
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
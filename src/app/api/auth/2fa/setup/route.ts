@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import { setup2FA } from '@/services/auth.service';
+import { setup2FA, setupEmail2FA } from '@/services/auth.service';
 import { getRequestContext, handleServiceError } from '@/lib/api-utils';
 import { isImpersonating } from '@/lib/auth/impersonation';
+import { z } from 'zod';
 
 export const runtime = 'nodejs';
 
+const setupSchema = z.object({
+  method: z.enum(['totp', 'email']).default('totp'),
+});
+
 export async function POST(req: NextRequest) {
   try {
     const session = await getSession();
@@ -19,13 +24,27 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const body = await req.json().catch(() => ({}));
+    const validationResult = setupSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: { type: 'VALIDATION_ERROR', message: 'Invalid 2FA method' } },
+        { status: 400 }
+      );
+    }
+
     const context = {
       ...getRequestContext(req),
       isImpersonating: isImpersonating(session),
     };
-    const result = await setup2FA(session.userId, context);
+    const { method } = validationResult.data;
+    const result =
+      method === 'email'
+        ? await setupEmail2FA(session.userId, context)
+        : await setup2FA(session.userId, context);
 
-    return NextResponse.json(result);
+    return NextResponse.json({ method, ...result });
   } catch (error) {
     return handleServiceError(error);
   }
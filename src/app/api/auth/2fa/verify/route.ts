@@ -41,6 +41,12 @@ export async function POST(req: NextRequest) {
     };
     await verify2FASetup(session.userId, validationResult.data.code, context);
 
+    // Lift the enrollment restriction of a mandatory 2FA policy
+    if (session.twoFactorGraceUntil !== undefined) {
+      delete session.twoFactorGraceUntil;
+      await session.save();
+    }
+
     // Rotate CSRF token after sensitive action
     const response = NextResponse.json({ message: '2FA enabled successfully' });
     rotateCsrfToken(response);
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { changeRequiredPassword } from '@/services/auth.service';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { rotateCsrfToken } from '@/lib/csrf';
+
+export const runtime = 'nodejs';
+
+// POST /api/auth/change-password - Change an expired or admin-reset password
+export async function POST(req: NextRequest) {
+  // Get session before any async work (Next.js 15 cookies context)
+  const session = await getSession();
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    await changeRequiredPassword(body, getRequestContext(req), session);
+
+    const response = NextResponse.json({
+      message: 'Password changed successfully',
+    });
+    rotateCsrfToken(response);
+    return response;
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
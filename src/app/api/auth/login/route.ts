@@ -37,11 +37,12 @@ export async function POST(req: NextRequest) {
       LOGIN_WINDOW_MS
     );
 
-    // Handle 2FA required response
+    // Handle 2FA (or risk challenge) required response
     if ('requiresTwoFactor' in result) {
       const response = NextResponse.json({
         requiresTwoFactor: result.requiresTwoFactor,
         pendingToken: result.pendingToken,
+        challenge: result.challenge,
       });
       setRateLimitHeaders(response.headers, rateLimitInfo);
       return response;
@@ -5,6 +5,7 @@ import {
   revokeRememberMeToken,
   REMEMBER_ME_COOKIE_NAME,
 } from '@/lib/auth/remember-me';
+import { revokeRefreshToken } from '@/lib/auth/refresh-tokens';
 import { logAuditEvent } from '@/lib/audit';
 import { CSRF_CONFIG } from '@/lib/csrf';
 
@@ -39,6 +40,12 @@ export async function POST(req: NextRequest) {
       cookieStore.delete(REMEMBER_ME_COOKIE_NAME);
     }
 
+    // Revoke the refresh token family if the client sent its token
+    const body = await req.json().catch(() => null);
+    if (typeof body?.refreshToken === 'string') {
+      await revokeRefreshToken(body.refreshToken);
+    }
+
     // Clear CSRF token cookie
     cookieStore.delete(CSRF_CONFIG.cookieName);
 
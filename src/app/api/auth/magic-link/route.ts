@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIP, getRateLimitInfo } from '@/lib/auth';
+import { requestMagicLink } from '@/services/auth.service';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { setRateLimitHeaders } from '@/lib/rate-limit-headers';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+
+export const runtime = 'nodejs';
+
+const { limit: MAGIC_LINK_LIMIT, windowMs: MAGIC_LINK_WINDOW_MS } =
+  SECURITY_CONFIG.rateLimits.magicLink;
+
+export async function POST(req: NextRequest) {
+  // Get rate limit key upfront for use in both success and error paths
+  const clientIP = getClientIP(req);
+  const rateLimitKey = `magic-link:${clientIP}`;
+
+  try {
+    const context = getRequestContext(req);
+    const body = await req.json();
+
+    const result = await requestMagicLink(body, context);
+
+    // Get rate limit info AFTER service call to reflect accurate remaining count
+    const rateLimitInfo = getRateLimitInfo(
+      rateLimitKey,
+      MAGIC_LINK_LIMIT,
+      MAGIC_LINK_WINDOW_MS
+    );
+
+    const response = NextResponse.json({ message: result.message });
+    setRateLimitHeaders(response.headers, rateLimitInfo);
+    return response;
+  } catch (error) {
+    // Add rate limit headers to error responses so clients know remaining attempts
+    const response = handleServiceError(error);
+    const rateLimitInfo = getRateLimitInfo(
+      rateLimitKey,
+      MAGIC_LINK_LIMIT,
+      MAGIC_LINK_WINDOW_MS
+    );
+    setRateLimitHeaders(response.headers, rateLimitInfo);
+    return response;
+  }
+}
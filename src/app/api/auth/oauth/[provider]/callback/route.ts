@@ -12,6 +12,7 @@ import {
   createPendingOAuthToken,
   type OAuthProvider,
 } from '@/lib/auth/oauth';
+import { getEnforcedSsoOrganization } from '@/lib/auth/sso';
 import { generateCsrfToken, CSRF_CONFIG } from '@/lib/csrf';
 import { userWithRolesInclude } from '@/lib/security/index';
 
@@ -66,9 +67,10 @@ export async function GET(
   // Exchange code for tokens
   const redirectUri = `${appUrl}/api/auth/oauth/${provider}/callback`;
   const tokens = await exchangeCodeForTokens(
-    provider as OAuthProvider,
+    provider,
     code,
-    redirectUri
+    redirectUri,
+    statePayload.nonce
   );
 
   if (!tokens) {
@@ -76,10 +78,7 @@ export async function GET(
   }
 
   // Fetch user profile
-  const profile = await fetchUserProfile(
-    provider as OAuthProvider,
-    tokens.access_token
-  );
+  const profile = await fetchUserProfile(provider, tokens);
 
   if (!profile || !profile.email) {
     return NextResponse.redirect(`${appUrl}/login?error=profile_fetch_failed`);
@@ -118,7 +117,7 @@ export async function GET(
   // Case 1: Linking OAuth to existing account from profile
   if (statePayload.linkToUserId) {
     return await handleLinkToExistingAccount(
-      provider as OAuthProvider,
+      provider,
       profile,
       tokens,
       statePayload.linkToUserId,
@@ -133,7 +132,7 @@ export async function GET(
   if (existingOAuthAccount) {
     return await handleExistingOAuthLogin(
       existingOAuthAccount.user,
-      provider as OAuthProvider,
+      provider,
       ipAddress,
       userAgent,
       statePayload.returnTo || '/dashboard',
@@ -149,7 +148,7 @@ export async function GET(
   if (existingUser) {
     // User exists but OAuth not linked - need password verification
     const pendingToken = await createPendingOAuthToken({
-      provider: provider as OAuthProvider,
+      provider: provider,
       providerAccountId: profile.id,
       profile,
       accessToken: tokens.access_token,
@@ -168,7 +167,7 @@ export async function GET(
 
   // Case 4: New user - needs to complete registration (create org or use invite)
   const pendingToken = await createPendingOAuthToken({
-    provider: provider as OAuthProvider,
+    provider: provider,
     providerAccountId: profile.id,
     profile,
     accessToken: tokens.access_token,
@@ -286,6 +285,24 @@ async function handleExistingOAuthLogin(
     return NextResponse.redirect(`${appUrl}/login?error=account_inactive`);
   }
 
+  // Members of organizations that enforce SSO must use their IdP
+  const enforcedSso = await getEnforcedSsoOrganization(user.id);
+  if (enforcedSso) {
+    await logAuditEvent({
+      action: 'AUTH_OAUTH_LOGIN_FAILURE',
+      category: 'authentication',
+      userId: user.id,
+      ipAddress,
+      userAgent,
+      metadata: {
+        provider,
+        reason: 'sso_required',
+        organizationSlug: enforcedSso.slug,
+      },
+    });
+    return NextResponse.redirect(`${appUrl}/login?error=sso_required`);
+  }
+
   // Check if 2FA is required
   if (user.twoFactorEnabled) {
     // Create pending 2FA token (reuse existing 2FA flow)
@@ -26,7 +26,7 @@ export async function GET(
   }
 
   // Check if provider is configured
-  const config = getProviderConfig(provider);
+  const config = await getProviderConfig(provider);
   if (!config) {
     return NextResponse.json(
       {
@@ -64,7 +64,7 @@ export async function GET(
   }
 
   // Generate state token
-  const state = await generateOAuthState({
+  const { state, nonce } = await generateOAuthState({
     provider,
     returnTo,
     linkToUserId,
@@ -74,7 +74,12 @@ export async function GET(
   // Build redirect URL
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
   const redirectUri = `${appUrl}/api/auth/oauth/${provider}/callback`;
-  const authUrl = buildAuthorizationUrl(provider, state, redirectUri);
+  const authUrl = await buildAuthorizationUrl(
+    provider,
+    state,
+    redirectUri,
+    nonce
+  );
 
   if (!authUrl) {
     return NextResponse.json(
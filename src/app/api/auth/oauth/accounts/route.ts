@@ -34,7 +34,7 @@ export async function GET() {
     });
 
     const hasPassword = !!user?.password;
-    const enabledProviders = getEnabledProviders();
+    const enabledProviders = await getEnabledProviders();
 
     return NextResponse.json({
       accounts,
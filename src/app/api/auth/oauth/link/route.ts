@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import bcrypt from 'bcryptjs';
 import { prisma } from '@/lib/db';
 import { createUserSession, getClientIP, isRateLimited } from '@/lib/auth';
 import { logAuditEvent } from '@/lib/audit';
+import { verifyPassword } from '@/lib/security';
 import { verifyPendingOAuthToken } from '@/lib/auth/oauth';
+import { getSamlConnection, ensureSamlMembership } from '@/lib/auth/saml';
 import { z } from 'zod';
 import { SECURITY_CONFIG } from '@/lib/config/security';
 import { generateCsrfToken, CSRF_CONFIG } from '@/lib/csrf';
@@ -92,7 +93,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Verify password
-    const isValidPassword = await bcrypt.compare(password, user.password);
+    const isValidPassword = await verifyPassword(password, user.password);
     if (!isValidPassword) {
       await logAuditEvent({
         action: 'AUTH_OAUTH_LOGIN_FAILURE',
@@ -146,6 +147,14 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    // Linking an organization SSO identity also grants org membership
+    if (oauthData.provider.startsWith('saml:')) {
+      const sso = await getSamlConnection(oauthData.provider.slice(5));
+      if (sso) {
+        await ensureSamlMembership(user.id, sso.connection);
+      }
+    }
+
     // Update last login time
     await prisma.user.update({
       where: { id: user.id },
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { startPasskeyReauthentication } from '@/services/auth.service';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { isImpersonating } from '@/lib/auth/impersonation';
+
+export const runtime = 'nodejs';
+
+// POST /api/auth/reauthenticate/options - Passkey challenge for re-authentication
+export async function POST(req: NextRequest) {
+  // Get session before any async work (Next.js 15 cookies context)
+  const session = await getSession();
+
+  try {
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json(
+        {
+          error: { type: 'AUTHENTICATION_ERROR', message: 'Not authenticated' },
+        },
+        { status: 401 }
+      );
+    }
+
+    const context = {
+      ...getRequestContext(req),
+      isImpersonating: isImpersonating(session),
+    };
+    const options = await startPasskeyReauthentication(
+      session.userId,
+      context,
+      session
+    );
+
+    return NextResponse.json(options);
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
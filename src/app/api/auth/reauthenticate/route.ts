@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import {
+  getReauthMethods,
+  reauthenticate,
+  type ReauthenticateInput,
+} from '@/services/auth.service';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { isImpersonating } from '@/lib/auth/impersonation';
+import { reauthenticateSchema } from '@/lib/validations';
+
+export const runtime = 'nodejs';
+
+function notAuthenticated() {
+  return NextResponse.json(
+    {
+      error: { type: 'AUTHENTICATION_ERROR', message: 'Not authenticated' },
+    },
+    { status: 401 }
+  );
+}
+
+// GET /api/auth/reauthenticate - Methods available to confirm the user's identity
+export async function GET() {
+  try {
+    const session = await getSession();
+
+    if (!session.isLoggedIn || !session.userId) {
+      return notAuthenticated();
+    }
+
+    const methods = await getReauthMethods(session.userId);
+
+    return NextResponse.json({
+      methods,
+      authenticatedAt: session.authenticatedAt
+        ? new Date(session.authenticatedAt).toISOString()
+        : null,
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+// POST /api/auth/reauthenticate - Confirm identity before a sensitive operation
+export async function POST(req: NextRequest) {
+  // Get session before any async work (Next.js 15 cookies context)
+  const session = await getSession();
+
+  try {
+    if (!session.isLoggedIn || !session.userId) {
+      return notAuthenticated();
+    }
+
+    const body = await req.json();
+    const validationResult = reauthenticateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: validationResult.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const context = {
+      ...getRequestContext(req),
+      isImpersonating: isImpersonating(session),
+    };
+    const { authenticatedAt } = await reauthenticate(
+      session.userId,
+      // Passkey responses are checked by the WebAuthn library
+      validationResult.data as unknown as ReauthenticateInput,
+      context,
+      session
+    );
+
+    return NextResponse.json({
+      message: 'Identity confirmed',
+      authenticatedAt: new Date(authenticatedAt).toISOString(),
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
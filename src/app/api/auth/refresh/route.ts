@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { refreshAccessToken } from '@/lib/auth';
+import { refreshAccessToken, getClientIP } from '@/lib/auth';
 import { AuthError } from '@/types/auth';
 
 export const runtime = 'nodejs';
@@ -21,8 +21,12 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Refresh tokens
-    const tokens = await refreshAccessToken(refreshToken);
+    // Rotate tokens; the submitted refresh token cannot be used again
+    const tokens = await refreshAccessToken(
+      refreshToken,
+      getClientIP(req),
+      req.headers.get('user-agent') || undefined
+    );
 
     if (!tokens) {
       return NextResponse.json(
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIP, isRateLimited } from '@/lib/auth';
+import { cancelAccountDeletion } from '@/lib/account-deletion';
+import { handleServiceError } from '@/lib/api-utils';
+import { AuthError } from '@/types/auth';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const restoreAccountSchema = z.object({
+  token: z.string().min(1),
+});
+
+// POST /api/auth/restore-account - Cancel a pending account deletion
+export async function POST(req: NextRequest) {
+  const clientIP = getClientIP(req);
+  const userAgent = req.headers.get('user-agent') || undefined;
+
+  try {
+    if (isRateLimited(`restore-account:${clientIP}`, 10, 60 * 60 * 1000)) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'RATE_LIMIT_ERROR',
+            message: 'Too many requests. Please try again later.',
+          } as AuthError,
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const validationResult = restoreAccountSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid token',
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    await cancelAccountDeletion(validationResult.data.token, {
+      ipAddress: clientIP,
+      userAgent,
+    });
+
+    return NextResponse.json({
+      message: 'Your account will not be deleted. You can sign in again.',
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
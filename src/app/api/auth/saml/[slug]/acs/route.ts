@@ -0,0 +1,265 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { prisma } from '@/lib/db';
+import { createUserSession, getClientIP, getSession } from '@/lib/auth';
+import { logAuditEvent } from '@/lib/audit';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { createPendingOAuthToken } from '@/lib/auth/oauth';
+import { checkAccountLocked } from '@/lib/auth/lockout';
+import { isEmailOnVerifiedDomain } from '@/lib/auth/sso';
+import {
+  assertAccountAvailable,
+  refreshUserStatus,
+} from '@/lib/auth/user-status';
+import {
+  getSamlConnection,
+  getSamlProviderId,
+  verifySamlState,
+  validateSamlResponse,
+  mapSamlProfile,
+  ensureSamlMembership,
+  provisionSamlUser,
+} from '@/lib/auth/saml';
+import { generateCsrfToken, CSRF_CONFIG } from '@/lib/csrf';
+import { userWithRolesInclude } from '@/lib/security/index';
+import { AccountUnavailableError } from '@/services/auth.errors';
+
+export const runtime = 'nodejs';
+
+// POST /api/auth/saml/[slug]/acs - Assertion Consumer Service (HTTP-POST binding)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  // Get session before any database work (see magic-link/verify)
+  const session = await getSession();
+
+  const { slug } = await params;
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const provider = getSamlProviderId(slug);
+
+  // POST -> GET redirects must use 303
+  const redirect = (path: string) =>
+    NextResponse.redirect(`${appUrl}${path}`, 303);
+
+  // Failures the login page explains; others show a generic SSO error
+  const explainedFailures = [
+    'account_inactive',
+    'account_locked',
+    'sso_domain_not_verified',
+  ];
+
+  const fail = async (reason: string, userId?: string) => {
+    await logAuditEvent({
+      action: 'AUTH_SAML_LOGIN_FAILURE',
+      category: 'authentication',
+      userId,
+      ipAddress,
+      userAgent,
+      metadata: { provider, reason },
+    });
+    return redirect(
+      `/login?error=${explainedFailures.includes(reason) ? reason : 'saml_failed'}`
+    );
+  };
+
+  const form = await request.formData();
+  const samlResponse = form.get('SAMLResponse');
+  const relayState = form.get('RelayState');
+
+  if (typeof samlResponse !== 'string' || typeof relayState !== 'string') {
+    return redirect('/login?error=missing_params');
+  }
+
+  // Bind the response to the request this browser started
+  const cookieStore = await cookies();
+  const storedState = cookieStore.get(
+    SECURITY_CONFIG.saml.stateCookieName
+  )?.value;
+  cookieStore.delete(SECURITY_CONFIG.saml.stateCookieName);
+
+  const statePayload = storedState ? await verifySamlState(storedState) : null;
+  if (
+    !statePayload ||
+    statePayload.organizationSlug !== slug ||
+    statePayload.requestId !== relayState
+  ) {
+    return redirect('/login?error=invalid_state');
+  }
+
+  const sso = await getSamlConnection(slug);
+  if (!sso) {
+    return redirect('/login?error=sso_not_configured');
+  }
+  const { connection } = sso;
+
+  const assertion = await validateSamlResponse(
+    connection,
+    slug,
+    samlResponse,
+    statePayload.requestId
+  );
+  if (!assertion) {
+    return fail('invalid_response');
+  }
+
+  const mappedProfile = mapSamlProfile(assertion, connection);
+  if (!mappedProfile) {
+    return fail('missing_email');
+  }
+
+  // The IdP is only authoritative for addresses on the organization's
+  // verified domains; other addresses cannot be provisioned or linked
+  const profile = {
+    ...mappedProfile,
+    emailVerified: await isEmailOnVerifiedDomain(
+      mappedProfile.email,
+      connection.organizationId
+    ),
+  };
+
+  const returnTo = statePayload.returnTo || '/dashboard';
+
+  // Case 1: SAML identity already linked - log them in
+  const existingAccount = await prisma.oAuthAccount.findUnique({
+    where: {
+      provider_providerAccountId: { provider, providerAccountId: profile.id },
+    },
+    select: { userId: true },
+  });
+
+  let userId = existingAccount?.userId;
+
+  if (!userId) {
+    const existingUser = await prisma.user.findUnique({
+      where: { email: profile.email },
+      select: {
+        id: true,
+        scimIdentities: {
+          where: { organizationId: connection.organizationId },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (
+      (!existingUser || existingUser.scimIdentities.length > 0) &&
+      !profile.emailVerified
+    ) {
+      return fail('sso_domain_not_verified', existingUser?.id);
+    }
+
+    if (existingUser && existingUser.scimIdentities.length > 0) {
+      // Case 2: Account provisioned by this organization's SCIM client -
+      // the organization manages it, so link without a password
+      await prisma.oAuthAccount.create({
+        data: {
+          userId: existingUser.id,
+          provider,
+          providerAccountId: profile.id,
+          email: profile.email,
+        },
+      });
+      userId = existingUser.id;
+
+      await logAuditEvent({
+        action: 'AUTH_OAUTH_ACCOUNT_LINKED',
+        category: 'authentication',
+        userId,
+        ipAddress,
+        userAgent,
+        metadata: { provider, reason: 'scim_provisioned' },
+      });
+    } else if (existingUser) {
+      // Case 3: Email belongs to an existing account - verify password to link
+      const pendingToken = await createPendingOAuthToken({
+        provider,
+        providerAccountId: profile.id,
+        profile,
+        existingUserId: existingUser.id,
+      });
+      return redirect(
+        `/auth/oauth/link?token=${encodeURIComponent(pendingToken)}`
+      );
+    } else {
+      // Case 4: New user - provision just in time
+      userId = await provisionSamlUser(profile, slug, connection);
+
+      await logAuditEvent({
+        action: 'AUTH_SAML_USER_PROVISIONED',
+        category: 'authentication',
+        userId,
+        ipAddress,
+        userAgent,
+        metadata: { provider, organizationId: connection.organizationId },
+      });
+    }
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      isActive: true,
+      status: true,
+      statusReason: true,
+      statusExpiresAt: true,
+      twoFactorEnabled: true,
+    },
+  });
+
+  if (!user) {
+    return fail('account_inactive', userId);
+  }
+
+  try {
+    assertAccountAvailable(await refreshUserStatus(user));
+  } catch (error) {
+    if (error instanceof AccountUnavailableError) {
+      return fail('account_inactive', userId);
+    }
+    throw error;
+  }
+
+  if ((await checkAccountLocked(userId)).isLocked) {
+    return fail('account_locked', userId);
+  }
+
+  await ensureSamlMembership(userId, connection);
+
+  if (user.twoFactorEnabled) {
+    const { createPending2FAToken } = await import('@/lib/auth/pending-2fa');
+    const pending2FAToken = await createPending2FAToken(userId);
+    return redirect(
+      `/auth/two-factor?token=${encodeURIComponent(pending2FAToken)}&returnTo=${encodeURIComponent(returnTo)}`
+    );
+  }
+
+  // Roles may have changed above, so load them after provisioning
+  const sessionUser = await prisma.user.update({
+    where: { id: userId },
+    data: { lastLoginAt: new Date() },
+    include: userWithRolesInclude,
+  });
+
+  await createUserSession(sessionUser, ipAddress, userAgent, session);
+
+  await logAuditEvent({
+    action: 'AUTH_SAML_LOGIN_SUCCESS',
+    category: 'authentication',
+    userId,
+    ipAddress,
+    userAgent,
+    metadata: { provider },
+  });
+
+  const response = redirect(returnTo);
+  response.cookies.set(
+    CSRF_CONFIG.cookieName,
+    generateCsrfToken(),
+    CSRF_CONFIG.cookieOptions
+  );
+  return response;
+}
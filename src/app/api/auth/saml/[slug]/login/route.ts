@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getSamlConnection, createSamlLoginRequest } from '@/lib/auth/saml';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+
+export const runtime = 'nodejs';
+
+// GET /api/auth/saml/[slug]/login - Start SP-initiated SSO
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+
+  const sso = await getSamlConnection(slug);
+  if (!sso) {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'SSO_NOT_CONFIGURED',
+          message: 'Single sign-on is not configured for this organization',
+        },
+      },
+      { status: 404 }
+    );
+  }
+
+  // Only allow same-origin paths as the post-login destination
+  const { searchParams } = new URL(request.url);
+  const requested = searchParams.get('returnTo');
+  const returnTo =
+    requested?.startsWith('/') && !requested.startsWith('//')
+      ? requested
+      : '/dashboard';
+
+  const { url, state } = await createSamlLoginRequest(
+    sso.connection,
+    slug,
+    returnTo
+  );
+
+  // The IdP posts back cross-site, so the state cookie must be SameSite=None
+  const cookieStore = await cookies();
+  cookieStore.set(SECURITY_CONFIG.saml.stateCookieName, state, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'none',
+    maxAge: SECURITY_CONFIG.saml.requestExpiryMinutes * 60,
+    path: '/api/auth/saml',
+  });
+
+  return NextResponse.redirect(url);
+}
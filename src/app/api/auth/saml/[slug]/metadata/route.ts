@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { generateSpMetadata } from '@/lib/auth/saml';
+
+export const runtime = 'nodejs';
+
+// GET /api/auth/saml/[slug]/metadata - SP metadata for the organization's IdP
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+
+  const organization = await prisma.organization.findUnique({
+    where: { slug },
+    select: { id: true },
+  });
+
+  if (!organization) {
+    return NextResponse.json(
+      { error: { code: 'NOT_FOUND', message: 'Organization not found' } },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(generateSpMetadata(slug), {
+    headers: { 'Content-Type': 'application/samlmetadata+xml' },
+  });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getClientIP, isRateLimited } from '@/lib/auth';
+import { findSsoForEmail } from '@/lib/auth/sso';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+const discoverSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+  returnTo: z.string().optional(),
+});
+
+// POST /api/auth/sso/discover - Find the organization IdP for an email domain
+export async function POST(req: NextRequest) {
+  try {
+    const { limit, windowMs } = SECURITY_CONFIG.rateLimits.ssoDiscover;
+    if (isRateLimited(`sso-discover:${getClientIP(req)}`, limit, windowMs)) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'RATE_LIMIT_ERROR',
+            message: 'Too many requests. Please try again later.',
+          } as AuthError,
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const validationResult = discoverSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: validationResult.error.flatten().fieldErrors,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { email, returnTo } = validationResult.data;
+    const route = await findSsoForEmail(email, returnTo);
+
+    return NextResponse.json({
+      sso: route && {
+        organizationName: route.organizationName,
+        ssoUrl: route.ssoUrl,
+      },
+    });
+  } catch (error) {
+    console.error('SSO discovery error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'An internal server error occurred',
+        } as AuthError,
+      },
+      { status: 500 }
+    );
+  }
+}
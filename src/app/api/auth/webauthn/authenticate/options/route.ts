@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { startPasskeyAuthentication } from '@/services/auth.service';
+import { handleServiceError } from '@/lib/api-utils';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const optionsSchema = z.object({
+  pendingToken: z.string().optional(),
+});
+
+export async function POST(req: NextRequest) {
+  // Get session before any async work (Next.js 15 cookies context)
+  const session = await getSession();
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const validationResult = optionsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: { type: 'VALIDATION_ERROR', message: 'Invalid request' } },
+        { status: 400 }
+      );
+    }
+
+    const options = await startPasskeyAuthentication(
+      validationResult.data,
+      session
+    );
+
+    return NextResponse.json(options);
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+import { loginWithPasskey } from '@/services/auth.service';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { CSRF_CONFIG } from '@/lib/csrf';
+import { getSession } from '@/lib/auth';
+import { passkeyAuthenticationSchema } from '@/lib/validations';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  // IMPORTANT: Get session at the very start of the route handler.
+  // In Next.js 15, the async context for cookies() can be lost after
+  // certain async operations. By obtaining the session early, we ensure
+  // the cookies context is captured before any database queries.
+  const session = await getSession();
+
+  try {
+    const context = getRequestContext(req);
+    const body = await req.json();
+    const validationResult = passkeyAuthenticationSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid passkey response',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await loginWithPasskey(
+      {
+        response: validationResult.data
+          .response as unknown as AuthenticationResponseJSON,
+      },
+      context,
+      session
+    );
+
+    // Set CSRF token cookie
+    const cookieStore = await cookies();
+    cookieStore.set(
+      CSRF_CONFIG.cookieName,
+      result.csrfToken,
+      CSRF_CONFIG.cookieOptions
+    );
+
+    return NextResponse.json({
+      message: 'Login successful',
+      user: result.user,
+      tokens: result.tokens,
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
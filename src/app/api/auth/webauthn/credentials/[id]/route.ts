@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { removePasskey } from '@/services/auth.service';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { isImpersonating } from '@/lib/auth/impersonation';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/auth/webauthn/credentials/[id] - Remove a passkey
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json(
+        {
+          error: { type: 'AUTHENTICATION_ERROR', message: 'Not authenticated' },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const context = {
+      ...getRequestContext(req),
+      isImpersonating: isImpersonating(session),
+    };
+    await removePasskey(session.userId, id, context);
+
+    return NextResponse.json({ message: 'Passkey removed' });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { listPasskeys } from '@/lib/auth/webauthn';
+import { handleServiceError } from '@/lib/api-utils';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+
+export const runtime = 'nodejs';
+
+// GET /api/auth/webauthn/credentials - List current user's passkeys
+export async function GET() {
+  try {
+    const session = await getSession();
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json(
+        {
+          error: { type: 'AUTHENTICATION_ERROR', message: 'Not authenticated' },
+        },
+        { status: 401 }
+      );
+    }
+
+    const passkeys = await listPasskeys(session.userId);
+
+    return NextResponse.json({
+      passkeys,
+      limit: SECURITY_CONFIG.webauthn.maxCredentialsPerUser,
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
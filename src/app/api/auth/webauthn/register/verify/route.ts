@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { RegistrationResponseJSON } from '@simplewebauthn/server';
+import { getSession } from '@/lib/auth';
+import { finishPasskeyRegistration } from '@/services/auth.service';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { isImpersonating } from '@/lib/auth/impersonation';
+import { passkeyRegistrationSchema } from '@/lib/validations';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json(
+        {
+          error: { type: 'AUTHENTICATION_ERROR', message: 'Not authenticated' },
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validationResult = passkeyRegistrationSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid passkey registration data',
+            details: validationResult.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const context = {
+      ...getRequestContext(req),
+      isImpersonating: isImpersonating(session),
+    };
+    const passkey = await finishPasskeyRegistration(
+      session.userId,
+      {
+        name: validationResult.data.name,
+        response: validationResult.data
+          .response as unknown as RegistrationResponseJSON,
+      },
+      context,
+      session
+    );
+
+    return NextResponse.json({ passkey }, { status: 201 });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
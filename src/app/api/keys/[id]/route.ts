@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth, getClientIP, isRateLimited } from '@/lib/auth';
+import {
+  requireAuth,
+  getSession,
+  getClientIP,
+  isRateLimited,
+  assertRecentAuth,
+} from '@/lib/auth';
 import { prisma } from '@/lib/db';
 import { updateApiKeySchema } from '@/lib/validations';
 import { logAuditEvent } from '@/lib/audit';
 import { AuthError } from '@/types/auth';
 import { SECURITY_CONFIG } from '@/lib/config/security';
+import { ServiceError } from '@/services/auth.errors';
+import { handleServiceError } from '@/lib/api-utils';
 
 export const runtime = 'nodejs';
 
@@ -132,6 +140,24 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
 
     const { name, permission, expiresAt } = validationResult.data;
 
+    // Upgrading to read-write is guarded like creating a read-write key
+    if (
+      permission === 'READ_WRITE' &&
+      existingKey.permission !== 'READ_WRITE'
+    ) {
+      try {
+        assertRecentAuth(
+          auth.context.type === 'session' ? await getSession() : null,
+          'createReadWriteApiKey'
+        );
+      } catch (error) {
+        if (error instanceof ServiceError) {
+          return handleServiceError(error);
+        }
+        throw error;
+      }
+    }
+
     const updateData: Record<string, unknown> = {};
     if (name !== undefined) updateData.name = name;
     if (permission !== undefined) updateData.permission = permission;
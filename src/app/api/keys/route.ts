@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth, getClientIP, isRateLimited } from '@/lib/auth';
+import {
+  requireAuth,
+  getSession,
+  getClientIP,
+  isRateLimited,
+  assertRecentAuth,
+} from '@/lib/auth';
 import { prisma } from '@/lib/db';
 import { createApiKeySchema } from '@/lib/validations';
 import {
@@ -11,6 +17,8 @@ import {
 import { logAuditEvent } from '@/lib/audit';
 import { AuthError } from '@/types/auth';
 import { SECURITY_CONFIG } from '@/lib/config/security';
+import { ServiceError } from '@/services/auth.errors';
+import { handleServiceError } from '@/lib/api-utils';
 
 export const runtime = 'nodejs';
 
@@ -130,6 +138,22 @@ export async function POST(req: NextRequest) {
     }
 
     const { name, permission, expiresAt } = validationResult.data;
+
+    // Read-write keys act with the user's full access: creating one needs a
+    // recent sign-in, so API keys cannot mint them
+    if (permission === 'READ_WRITE') {
+      try {
+        assertRecentAuth(
+          auth.context.type === 'session' ? await getSession() : null,
+          'createReadWriteApiKey'
+        );
+      } catch (error) {
+        if (error instanceof ServiceError) {
+          return handleServiceError(error);
+        }
+        throw error;
+      }
+    }
     const { key, keyHash, keyPrefix } = generateApiKey();
 
     const apiKey = await prisma.apiKey.create({
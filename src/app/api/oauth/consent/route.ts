@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { getSession, getClientIP } from '@/lib/auth';
+import { logAuditEvent } from '@/lib/audit';
+import {
+  validateAuthorizationRequest,
+  grantConsent,
+  createAuthorizationCode,
+  buildClientRedirectUrl,
+  describeScopes,
+  OAuthServerError,
+  type AuthorizationRequest,
+} from '@/lib/oauth-server';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+const consentDecisionSchema = z.object({
+  request: z.string().min(1), // Query string of the authorization request
+  approved: z.boolean(),
+});
+
+type ConsentContext =
+  | {
+      ok: true;
+      request: AuthorizationRequest;
+      user: { id: string; email: string };
+      authTime: Date;
+    }
+  | { ok: false; response: NextResponse };
+
+function errorResponse(
+  type: AuthError['type'],
+  message: string,
+  status: number
+): NextResponse {
+  return NextResponse.json(
+    { error: { type, message } as AuthError },
+    { status }
+  );
+}
+
+/**
+ * Load the signed-in user and re-validate the authorization request, which
+ * arrives from the browser and cannot be trusted.
+ */
+async function loadConsentContext(query: string): Promise<ConsentContext> {
+  const session = await getSession();
+  const user =
+    session.isLoggedIn && session.userId
+      ? await prisma.user.findFirst({
+          where: { id: session.userId, isActive: true },
+          select: { id: true, email: true },
+        })
+      : null;
+
+  if (!user) {
+    return {
+      ok: false,
+      response: errorResponse('AUTHENTICATION_ERROR', 'Not authenticated', 401),
+    };
+  }
+
+  if (session.impersonating) {
+    return {
+      ok: false,
+      response: errorResponse(
+        'AUTHORIZATION_ERROR',
+        'Applications cannot be authorized while impersonating a user',
+        403
+      ),
+    };
+  }
+
+  try {
+    const request = await validateAuthorizationRequest(
+      new URLSearchParams(query)
+    );
+    return {
+      ok: true,
+      request,
+      user,
+      authTime: new Date(
+        session.authenticatedAt ?? session.sessionCreatedAt ?? Date.now()
+      ),
+    };
+  } catch (error) {
+    if (error instanceof OAuthServerError) {
+      return {
+        ok: false,
+        response: errorResponse('VALIDATION_ERROR', error.message, 400),
+      };
+    }
+    throw error;
+  }
+}
+
+// GET /api/oauth/consent - Describe an authorization request for the consent screen
+export async function GET(req: NextRequest) {
+  try {
+    const context = await loadConsentContext(req.nextUrl.search);
+    if (!context.ok) return context.response;
+    const { request, user } = context;
+
+    return NextResponse.json({
+      client: { name: request.client.name },
+      scopes: describeScopes(request.scopes),
+      user: { email: user.email },
+    });
+  } catch (error) {
+    console.error('OAuth consent lookup error:', error);
+    return errorResponse(
+      'SERVER_ERROR',
+      'An internal server error occurred',
+      500
+    );
+  }
+}
+
+// POST /api/oauth/consent - Approve or deny an authorization request
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const validationResult = consentDecisionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse('VALIDATION_ERROR', 'Invalid input data', 400);
+    }
+
+    const context = await loadConsentContext(validationResult.data.request);
+    if (!context.ok) return context.response;
+    const { request, user, authTime } = context;
+
+    if (!validationResult.data.approved) {
+      return NextResponse.json({
+        redirectTo: buildClientRedirectUrl(request.redirectUri, {
+          error: 'access_denied',
+          error_description: 'The user denied the request',
+          state: request.state,
+        }),
+      });
+    }
+
+    await grantConsent(user.id, request.client, request.scopes);
+
+    await logAuditEvent({
+      action: 'OAUTH_SERVER_CONSENT_GRANTED',
+      category: 'authentication',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: {
+        clientId: request.client.clientId,
+        clientName: request.client.name,
+        scopes: request.scopes,
+      },
+    });
+
+    const code = await createAuthorizationCode(request, user.id, authTime);
+
+    return NextResponse.json({
+      redirectTo: buildClientRedirectUrl(request.redirectUri, {
+        code,
+        state: request.state,
+      }),
+    });
+  } catch (error) {
+    console.error('OAuth consent error:', error);
+    return errorResponse(
+      'SERVER_ERROR',
+      'An internal server error occurred',
+      500
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getClientIP } from '@/lib/auth';
+import { requireOrgAdmin } from '@/lib/api-utils';
+import { logAuditEvent } from '@/lib/audit';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+// DELETE /api/organizations/current/domains/[domainId] - Release a domain (ADMIN+)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ domainId: string }> }
+) {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { user, organization } = auth;
+    const { domainId } = await params;
+
+    const claimed = await prisma.organizationDomain.findFirst({
+      where: { id: domainId, organizationId: organization.id },
+      select: { id: true, domain: true },
+    });
+
+    if (!claimed) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'NOT_FOUND',
+            message: 'Domain not found',
+          } as AuthError,
+        },
+        { status: 404 }
+      );
+    }
+
+    await prisma.organizationDomain.delete({ where: { id: claimed.id } });
+
+    await logAuditEvent({
+      action: 'ADMIN_ORG_DOMAIN_REMOVED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: { organizationId: organization.id, domain: claimed.domain },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove domain error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'An internal server error occurred',
+        } as AuthError,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getClientIP } from '@/lib/auth';
+import { requireOrgAdmin } from '@/lib/api-utils';
+import { logAuditEvent } from '@/lib/audit';
+import {
+  getDomainVerificationToken,
+  getDomainVerificationRecord,
+  verifyDomainOwnership,
+} from '@/lib/auth/sso';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+// POST /api/organizations/current/domains/[domainId]/verify - Check the DNS TXT record (ADMIN+)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ domainId: string }> }
+) {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { user, organization } = auth;
+    const { domainId } = await params;
+
+    const claimed = await prisma.organizationDomain.findFirst({
+      where: { id: domainId, organizationId: organization.id },
+      select: { id: true, domain: true, verifiedAt: true },
+    });
+
+    if (!claimed) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'NOT_FOUND',
+            message: 'Domain not found',
+          } as AuthError,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (claimed.verifiedAt) {
+      return NextResponse.json({ domain: claimed });
+    }
+
+    // A domain can only route to one organization
+    const verifiedElsewhere = await prisma.organizationDomain.findFirst({
+      where: { domain: claimed.domain, verifiedAt: { not: null } },
+      select: { id: true },
+    });
+
+    if (verifiedElsewhere) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'This domain is verified by another organization',
+          } as AuthError,
+        },
+        { status: 409 }
+      );
+    }
+
+    const token = await getDomainVerificationToken(organization.id);
+    if (!(await verifyDomainOwnership(claimed.domain, token))) {
+      const record = getDomainVerificationRecord(claimed.domain, token);
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: `TXT record ${record.name} with value ${record.value} was not found. DNS changes can take a while to propagate.`,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const domain = await prisma.organizationDomain.update({
+      where: { id: claimed.id },
+      data: { verifiedAt: new Date() },
+      select: { id: true, domain: true, verifiedAt: true },
+    });
+
+    await logAuditEvent({
+      action: 'ADMIN_ORG_DOMAIN_VERIFIED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: { organizationId: organization.id, domain: domain.domain },
+    });
+
+    return NextResponse.json({ domain });
+  } catch (error) {
+    console.error('Verify domain error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'An internal server error occurred',
+        } as AuthError,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { getClientIP } from '@/lib/auth';
+import { requireOrgAdmin } from '@/lib/api-utils';
+import { logAuditEvent } from '@/lib/audit';
+import {
+  normalizeDomain,
+  getDomainVerificationToken,
+  getDomainVerificationRecord,
+} from '@/lib/auth/sso';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+const claimDomainSchema = z.object({
+  domain: z.string().min(1, 'Domain is required'),
+});
+
+// GET /api/organizations/current/domains - List claimed domains (ADMIN+)
+export async function GET() {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { organization } = auth;
+
+    const [domains, token] = await Promise.all([
+      prisma.organizationDomain.findMany({
+        where: { organizationId: organization.id },
+        select: { id: true, domain: true, verifiedAt: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      getDomainVerificationToken(organization.id),
+    ]);
+
+    return NextResponse.json({
+      domains: domains.map((d) => ({
+        ...d,
+        verificationRecord: getDomainVerificationRecord(d.domain, token),
+      })),
+    });
+  } catch (error) {
+    console.error('Get domains error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'An internal server error occurred',
+        } as AuthError,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/organizations/current/domains - Claim an email domain (ADMIN+)
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { user, organization } = auth;
+
+    const body = await req.json();
+    const validationResult = claimDomainSchema.safeParse(body);
+    const domain = validationResult.success
+      ? normalizeDomain(validationResult.data.domain)
+      : null;
+
+    if (!domain) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Please enter a valid domain, e.g. example.com',
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.organizationDomain.findFirst({
+      where: {
+        domain,
+        OR: [
+          { organizationId: organization.id },
+          { verifiedAt: { not: null } },
+        ],
+      },
+      select: { organizationId: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message:
+              existing.organizationId === organization.id
+                ? 'This domain has already been claimed'
+                : 'This domain is verified by another organization',
+          } as AuthError,
+        },
+        { status: 409 }
+      );
+    }
+
+    const token = await getDomainVerificationToken(organization.id);
+    const claimed = await prisma.organizationDomain.create({
+      data: { organizationId: organization.id, domain },
+      select: { id: true, domain: true, verifiedAt: true, createdAt: true },
+    });
+
+    await logAuditEvent({
+      action: 'ADMIN_ORG_DOMAIN_CLAIMED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: { organizationId: organization.id, domain },
+    });
+
+    return NextResponse.json(
+      {
+        domain: {
+          ...claimed,
+          verificationRecord: getDomainVerificationRecord(domain, token),
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Claim domain error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'An internal server error occurred',
+        } as AuthError,
+      },
+      { status: 500 }
+    );
+  }
+}
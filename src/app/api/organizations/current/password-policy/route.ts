@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getClientIP } from '@/lib/auth';
+import { requireOrgAdmin } from '@/lib/api-utils';
+import { logAuditEvent } from '@/lib/audit';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  mergePasswordPolicies,
+  parsePasswordPolicyOverrides,
+  passwordPolicyOverridesSchema,
+  type PasswordPolicyOverrides,
+} from '@/lib/auth/password-policy';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+function serverError(message: string, error: unknown) {
+  console.error(message, error);
+  return NextResponse.json(
+    {
+      error: {
+        type: 'SERVER_ERROR',
+        message: 'An internal server error occurred',
+      } as AuthError,
+    },
+    { status: 500 }
+  );
+}
+
+function policyResponse(overrides: PasswordPolicyOverrides) {
+  return NextResponse.json({
+    platform: DEFAULT_PASSWORD_POLICY,
+    overrides,
+    effective: mergePasswordPolicies(DEFAULT_PASSWORD_POLICY, [overrides]),
+  });
+}
+
+// GET /api/organizations/current/password-policy - Get the organization's password policy (ADMIN+)
+export async function GET() {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { organization } = auth;
+
+    const { passwordPolicy } = await prisma.organization.findUniqueOrThrow({
+      where: { id: organization.id },
+      select: { passwordPolicy: true },
+    });
+
+    return policyResponse(parsePasswordPolicyOverrides(passwordPolicy));
+  } catch (error) {
+    return serverError('Get password policy error:', error);
+  }
+}
+
+// PUT /api/organizations/current/password-policy - Replace the organization's stricter overrides (ADMIN+)
+export async function PUT(req: NextRequest) {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { user, organization } = auth;
+
+    const body = await req.json().catch(() => ({}));
+    const validationResult = passwordPolicyOverridesSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: validationResult.error.flatten().fieldErrors,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const overrides = validationResult.data;
+
+    await prisma.organization.update({
+      where: { id: organization.id },
+      data: {
+        passwordPolicy:
+          Object.keys(overrides).length > 0
+            ? (overrides as Prisma.InputJsonObject)
+            : Prisma.DbNull,
+      },
+    });
+
+    await logAuditEvent({
+      action: 'ADMIN_ORG_PASSWORD_POLICY_UPDATED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: { organizationId: organization.id, overrides },
+    });
+
+    return policyResponse(overrides);
+  } catch (error) {
+    return serverError('Update password policy error:', error);
+  }
+}
@@ -0,0 +1,274 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { getClientIP } from '@/lib/auth';
+import { requireOrgAdmin } from '@/lib/api-utils';
+import { logAuditEvent } from '@/lib/audit';
+import { parseIdpMetadata, getServiceProviderUrls } from '@/lib/auth/saml';
+import { AuthError } from '@/types/auth';
+import { ROLES } from '@/lib/security/index';
+
+export const runtime = 'nodejs';
+
+const PEM_PATTERN = /^-----BEGIN [A-Z ]+-----[\s\S]+-----END [A-Z ]+-----$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const samlConfigSchema = z
+  .object({
+    idpMetadataXml: z.string().min(1).optional(),
+    idpEntityId: z.string().min(1).optional(),
+    idpSsoUrl: z.string().url('IdP SSO URL must be a valid URL').optional(),
+    idpCertificate: z.string().min(1).optional(),
+    emailAttribute: z.string().min(1).nullable().optional(),
+    firstNameAttribute: z.string().min(1).nullable().optional(),
+    lastNameAttribute: z.string().min(1).nullable().optional(),
+    defaultRoleName: z.string().startsWith('ROLE_').default(ROLES.USER),
+    isEnabled: z.boolean().default(true),
+    // Omit to keep the current setting
+    ssoEnforced: z.boolean().optional(),
+  })
+  .refine(
+    (data) =>
+      data.idpMetadataXml ||
+      (data.idpEntityId && data.idpSsoUrl && data.idpCertificate),
+    {
+      message:
+        'Provide either IdP metadata XML or entity ID, SSO URL and certificate',
+      path: ['idpMetadataXml'],
+    }
+  );
+
+function serviceProviderInfo(slug: string) {
+  const { entityId, acsUrl } = getServiceProviderUrls(slug);
+  // The entity ID doubles as the metadata URL
+  return { entityId, acsUrl, metadataUrl: entityId };
+}
+
+function validationError(message: string) {
+  return NextResponse.json(
+    { error: { type: 'VALIDATION_ERROR', message } as AuthError },
+    { status: 400 }
+  );
+}
+
+function serverError(message: string, error: unknown) {
+  console.error(message, error);
+  return NextResponse.json(
+    {
+      error: {
+        type: 'SERVER_ERROR',
+        message: 'An internal server error occurred',
+      } as AuthError,
+    },
+    { status: 500 }
+  );
+}
+
+// GET /api/organizations/current/saml - Get SAML configuration (ADMIN+)
+export async function GET() {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { organization } = auth;
+
+    const connection = await prisma.samlConnection.findUnique({
+      where: { organizationId: organization.id },
+      include: { organization: { select: { ssoEnforced: true } } },
+    });
+
+    const defaultRole = connection
+      ? await prisma.role.findUnique({
+          where: { id: connection.defaultRoleId },
+          select: { name: true },
+        })
+      : null;
+
+    return NextResponse.json({
+      serviceProvider: serviceProviderInfo(organization.slug),
+      connection: connection && {
+        idpEntityId: connection.idpEntityId,
+        idpSsoUrl: connection.idpSsoUrl,
+        idpCertificate: connection.idpCertificate,
+        emailAttribute: connection.emailAttribute,
+        firstNameAttribute: connection.firstNameAttribute,
+        lastNameAttribute: connection.lastNameAttribute,
+        defaultRoleName: defaultRole?.name ?? ROLES.USER,
+        isEnabled: connection.isEnabled,
+        ssoEnforced: connection.organization.ssoEnforced,
+        updatedAt: connection.updatedAt,
+      },
+    });
+  } catch (error) {
+    return serverError('Get SAML configuration error:', error);
+  }
+}
+
+// PUT /api/organizations/current/saml - Create or update SAML configuration (ADMIN+)
+export async function PUT(req: NextRequest) {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { user, organization } = auth;
+
+    const body = await req.json();
+    const validationResult = samlConfigSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: validationResult.error.flatten().fieldErrors,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { idpMetadataXml, defaultRoleName, isEnabled, ssoEnforced, ...data } =
+      validationResult.data;
+
+    // Metadata XML, when given, is the source of truth for the IdP settings
+    const idp = idpMetadataXml
+      ? parseIdpMetadata(idpMetadataXml)
+      : {
+          entityId: data.idpEntityId!,
+          ssoUrl: data.idpSsoUrl!,
+          certificate: data.idpCertificate!.trim(),
+        };
+
+    if (!idp) {
+      return validationError(
+        'IdP metadata must include an entity ID, an HTTP-Redirect SSO endpoint and a signing certificate'
+      );
+    }
+
+    const certificate = PEM_PATTERN.test(idp.certificate)
+      ? idp.certificate
+      : idp.certificate.replace(/\s+/g, '');
+    if (!PEM_PATTERN.test(certificate) && !BASE64_PATTERN.test(certificate)) {
+      return validationError('IdP certificate must be PEM or base64 encoded');
+    }
+
+    // SSO users must not be provisioned with organization administration
+    if (defaultRoleName === ROLES.ADMIN || defaultRoleName === ROLES.OWNER) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'AUTHORIZATION_ERROR',
+            message: 'Cannot provision SSO users with ADMIN or OWNER role',
+          } as AuthError,
+        },
+        { status: 403 }
+      );
+    }
+
+    const role = await prisma.role.findUnique({
+      where: { name: defaultRoleName },
+      select: { id: true },
+    });
+
+    if (!role) {
+      return validationError('Invalid role specified');
+    }
+
+    const values = {
+      idpEntityId: idp.entityId,
+      idpSsoUrl: idp.ssoUrl,
+      idpCertificate: certificate,
+      emailAttribute: data.emailAttribute ?? null,
+      firstNameAttribute: data.firstNameAttribute ?? null,
+      lastNameAttribute: data.lastNameAttribute ?? null,
+      isEnabled,
+    };
+
+    const [, updatedOrganization] = await prisma.$transaction([
+      prisma.samlConnection.upsert({
+        where: { organizationId: organization.id },
+        create: {
+          organizationId: organization.id,
+          defaultRoleId: role.id,
+          ...values,
+        },
+        update: { defaultRoleId: role.id, ...values },
+      }),
+      prisma.organization.update({
+        where: { id: organization.id },
+        data: ssoEnforced === undefined ? {} : { ssoEnforced },
+        select: { ssoEnforced: true },
+      }),
+    ]);
+
+    await logAuditEvent({
+      action: 'ADMIN_ORG_SAML_CONFIGURED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: {
+        organizationId: organization.id,
+        idpEntityId: idp.entityId,
+        defaultRole: defaultRoleName,
+        isEnabled,
+        ssoEnforced: updatedOrganization.ssoEnforced,
+      },
+    });
+
+    return NextResponse.json({
+      serviceProvider: serviceProviderInfo(organization.slug),
+      connection: {
+        ...values,
+        defaultRoleName,
+        ssoEnforced: updatedOrganization.ssoEnforced,
+      },
+    });
+  } catch (error) {
+    return serverError('Update SAML configuration error:', error);
+  }
+}
+
+// DELETE /api/organizations/current/saml - Remove SAML configuration (ADMIN+)
+export async function DELETE(req: NextRequest) {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { user, organization } = auth;
+
+    const [{ count }] = await prisma.$transaction([
+      prisma.samlConnection.deleteMany({
+        where: { organizationId: organization.id },
+      }),
+      // Enforcement without an IdP would have nothing to route to
+      prisma.organization.update({
+        where: { id: organization.id },
+        data: { ssoEnforced: false },
+      }),
+    ]);
+
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'NOT_FOUND',
+            message: 'Single sign-on is not configured',
+          } as AuthError,
+        },
+        { status: 404 }
+      );
+    }
+
+    await logAuditEvent({
+      action: 'ADMIN_ORG_SAML_REMOVED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: { organizationId: organization.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return serverError('Delete SAML configuration error:', error);
+  }
+}
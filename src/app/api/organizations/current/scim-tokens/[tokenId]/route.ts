@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getClientIP } from '@/lib/auth';
+import { requireOrgAdmin } from '@/lib/api-utils';
+import { logAuditEvent } from '@/lib/audit';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+// DELETE /api/organizations/current/scim-tokens/[tokenId] - Revoke a SCIM token (ADMIN+)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { user, organization } = auth;
+    const { tokenId } = await params;
+
+    const scimToken = await prisma.scimToken.findFirst({
+      where: { id: tokenId, organizationId: organization.id, revokedAt: null },
+      select: { id: true, name: true, tokenPrefix: true },
+    });
+
+    if (!scimToken) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'NOT_FOUND',
+            message: 'SCIM token not found',
+          } as AuthError,
+        },
+        { status: 404 }
+      );
+    }
+
+    // Soft delete
+    await prisma.scimToken.update({
+      where: { id: scimToken.id },
+      data: { revokedAt: new Date() },
+    });
+
+    await logAuditEvent({
+      action: 'ADMIN_ORG_SCIM_TOKEN_REVOKED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: {
+        organizationId: organization.id,
+        tokenId: scimToken.id,
+        tokenName: scimToken.name,
+        tokenPrefix: scimToken.tokenPrefix,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Revoke SCIM token error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'An internal server error occurred',
+        } as AuthError,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { getClientIP, isRateLimited } from '@/lib/auth';
+import { requireOrgAdmin } from '@/lib/api-utils';
+import { logAuditEvent } from '@/lib/audit';
+import { generateScimToken } from '@/lib/scim';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { env } from '@/lib/env';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+const createScimTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+});
+
+const scimTokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+// GET /api/organizations/current/scim-tokens - List SCIM tokens (ADMIN+)
+export async function GET() {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { organization } = auth;
+
+    const tokens = await prisma.scimToken.findMany({
+      where: { organizationId: organization.id, revokedAt: null },
+      select: scimTokenSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      scimBaseUrl: `${env.NEXT_PUBLIC_APP_URL}/scim/v2`,
+      tokens,
+      limit: SECURITY_CONFIG.scim.maxTokensPerOrganization,
+    });
+  } catch (error) {
+    console.error('List SCIM tokens error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'An internal server error occurred',
+        } as AuthError,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/organizations/current/scim-tokens - Create a SCIM token (ADMIN+)
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const clientIP = getClientIP(req);
+    const { limit, windowMs } = SECURITY_CONFIG.rateLimits.scimTokenCreate;
+    if (isRateLimited(`scim-token-create:${clientIP}`, limit, windowMs)) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'AUTHORIZATION_ERROR',
+            message: 'Too many requests. Please try again later.',
+          } as AuthError,
+        },
+        { status: 429 }
+      );
+    }
+
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { user, organization } = auth;
+
+    const body = await req.json();
+    const validationResult = createScimTokenSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: validationResult.error.flatten().fieldErrors,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { maxTokensPerOrganization } = SECURITY_CONFIG.scim;
+    const activeCount = await prisma.scimToken.count({
+      where: { organizationId: organization.id, revokedAt: null },
+    });
+
+    if (activeCount >= maxTokensPerOrganization) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: `Your organization has reached the maximum of ${maxTokensPerOrganization} SCIM tokens`,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name } = validationResult.data;
+    const { token, tokenHash, tokenPrefix } = generateScimToken();
+
+    const scimToken = await prisma.scimToken.create({
+      data: { organizationId: organization.id, name, tokenHash, tokenPrefix },
+      select: scimTokenSelect,
+    });
+
+    await logAuditEvent({
+      action: 'ADMIN_ORG_SCIM_TOKEN_CREATED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: clientIP,
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: {
+        organizationId: organization.id,
+        tokenId: scimToken.id,
+        tokenName: name,
+        tokenPrefix,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        token, // Only returned on creation!
+        ...scimToken,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create SCIM token error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'SERVER_ERROR',
+          message: 'An internal server error occurred',
+        } as AuthError,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { getClientIP } from '@/lib/auth';
+import { requireOrgAdmin } from '@/lib/api-utils';
+import { logAuditEvent } from '@/lib/audit';
+import { getTwoFactorCompliance } from '@/lib/auth/two-factor-policy';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+const policySchema = z.object({
+  required: z.boolean(),
+});
+
+function serverError(message: string, error: unknown) {
+  console.error(message, error);
+  return NextResponse.json(
+    {
+      error: {
+        type: 'SERVER_ERROR',
+        message: 'An internal server error occurred',
+      } as AuthError,
+    },
+    { status: 500 }
+  );
+}
+
+// GET /api/organizations/current/two-factor-policy - Get the 2FA policy and member compliance (ADMIN+)
+export async function GET() {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { organization } = auth;
+
+    const [{ require2FA }, compliance] = await Promise.all([
+      prisma.organization.findUniqueOrThrow({
+        where: { id: organization.id },
+        select: { require2FA: true },
+      }),
+      getTwoFactorCompliance(organization.id),
+    ]);
+
+    return NextResponse.json({
+      required: require2FA,
+      gracePeriodDays: SECURITY_CONFIG.twoFactorPolicy.gracePeriodDays,
+      compliance,
+    });
+  } catch (error) {
+    return serverError('Get 2FA policy error:', error);
+  }
+}
+
+// PUT /api/organizations/current/two-factor-policy - Require or stop requiring 2FA for members (ADMIN+)
+export async function PUT(req: NextRequest) {
+  try {
+    const auth = await requireOrgAdmin();
+    if (!auth.ok) return auth.response;
+    const { user, organization } = auth;
+
+    const body = await req.json().catch(() => ({}));
+    const validationResult = policySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: validationResult.error.flatten().fieldErrors,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { required } = validationResult.data;
+
+    await prisma.organization.update({
+      where: { id: organization.id },
+      data: { require2FA: required },
+    });
+
+    await logAuditEvent({
+      action: 'ADMIN_ORG_2FA_POLICY_UPDATED',
+      category: 'admin',
+      userId: user.id,
+      ipAddress: getClientIP(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+      metadata: { organizationId: organization.id, required },
+    });
+
+    return NextResponse.json({
+      required,
+      gracePeriodDays: SECURITY_CONFIG.twoFactorPolicy.gracePeriodDays,
+      compliance: await getTwoFactorCompliance(organization.id),
+    });
+  } catch (error) {
+    return serverError('Update 2FA policy error:', error);
+  }
+}
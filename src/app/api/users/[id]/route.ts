@@ -6,6 +6,8 @@ import {
 } from '@/lib/validations';
 import { prisma } from '@/lib/db';
 import { AuthError } from '@/types/auth';
+import { changeUserStatus } from '@/lib/auth/user-status';
+import { ValidationError } from '@/services/auth.errors';
 import {
   getHighestRole,
   userWithRolesInclude,
@@ -408,9 +410,30 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
         );
       }
 
-      const updatedUser = await prisma.user.update({
+      // Deactivating suspends the user, which also ends their sessions
+      try {
+        await changeUserStatus(
+          id,
+          validationResult.data.isActive ? 'ACTIVE' : 'SUSPENDED',
+          { changedById: auth.user.id }
+        );
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return NextResponse.json(
+            {
+              error: {
+                type: 'VALIDATION_ERROR',
+                message: error.message,
+              } as AuthError,
+            },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+
+      const updatedUser = await prisma.user.findUniqueOrThrow({
         where: { id },
-        data: { isActive: validationResult.data.isActive },
         select: {
           id: true,
           email: true,
@@ -418,6 +441,7 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
           firstName: true,
           lastName: true,
           isActive: true,
+          status: true,
           emailVerified: true,
           lastLoginAt: true,
           createdAt: true,
@@ -426,13 +450,6 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
         },
       });
 
-      // If deactivating user, logout from all devices
-      if (!validationResult.data.isActive) {
-        await prisma.userSession.deleteMany({
-          where: { userId: id },
-        });
-      }
-
       return NextResponse.json({
         message: 'User status updated successfully',
         user: { ...updatedUser, role: getHighestRole(updatedUser) },
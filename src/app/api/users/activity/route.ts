@@ -10,15 +10,25 @@ const USER_VISIBLE_ACTIONS = [
   // Authentication
   'AUTH_LOGIN_SUCCESS',
   'AUTH_LOGIN_FAILURE',
+  'AUTH_LOGIN_CHALLENGED',
+  'AUTH_LOGIN_BLOCKED',
   'AUTH_LOGOUT',
   'AUTH_REMEMBER_ME_CREATED',
   'AUTH_REMEMBER_ME_USED',
   'AUTH_REMEMBER_ME_THEFT_DETECTED',
+  'AUTH_REFRESH_TOKEN_REUSE',
   // Security
   'SECURITY_ACCOUNT_LOCKED',
   'SECURITY_ACCOUNT_UNLOCKED',
   'SECURITY_PASSWORD_CHANGED',
   'SECURITY_ALL_SESSIONS_REVOKED',
+  'ACCOUNT_DELETION_SCHEDULED',
+  'ACCOUNT_DELETION_CANCELLED',
+  'DATA_EXPORT_REQUESTED',
+  'DATA_EXPORT_DOWNLOADED',
+  'ROLE_REQUEST_CREATED',
+  'ROLE_REQUEST_CANCELLED',
+  'ROLE_ASSIGNMENT_EXPIRED',
   // Two-factor authentication
   'AUTH_2FA_ENABLED',
   'AUTH_2FA_DISABLED',
@@ -26,12 +36,36 @@ const USER_VISIBLE_ACTIONS = [
   'AUTH_2FA_FAILURE',
   'AUTH_2FA_BACKUP_USED',
   'ADMIN_2FA_RESET',
+  'ADMIN_PASSWORD_CHANGE_REQUIRED',
+  'ADMIN_USER_IMPORTED',
+  'ADMIN_USER_STATUS_CHANGED',
+  // WebAuthn / passkeys
+  'AUTH_WEBAUTHN_REGISTERED',
+  'AUTH_WEBAUTHN_REMOVED',
+  'AUTH_WEBAUTHN_LOGIN_SUCCESS',
+  'AUTH_WEBAUTHN_LOGIN_FAILURE',
+  // Step-up re-authentication
+  'AUTH_REAUTH_SUCCESS',
+  'AUTH_REAUTH_FAILURE',
   // OAuth
   'AUTH_OAUTH_LOGIN_SUCCESS',
   'AUTH_OAUTH_LOGIN_FAILURE',
   'AUTH_OAUTH_REGISTRATION',
   'AUTH_OAUTH_ACCOUNT_LINKED',
   'AUTH_OAUTH_ACCOUNT_UNLINKED',
+  // SAML SSO
+  'AUTH_SAML_LOGIN_SUCCESS',
+  'AUTH_SAML_LOGIN_FAILURE',
+  'AUTH_SAML_USER_PROVISIONED',
+  // SCIM provisioning
+  'SCIM_USER_PROVISIONED',
+  'SCIM_USER_UPDATED',
+  'SCIM_USER_REACTIVATED',
+  // OAuth authorization server
+  'OAUTH_SERVER_CONSENT_GRANTED',
+  'OAUTH_SERVER_CONSENT_REVOKED',
+  'OAUTH_SERVER_CODE_REUSE',
+  'OAUTH_SERVER_REFRESH_TOKEN_REUSE',
   // API Keys
   'API_KEY_CREATED',
   'API_KEY_UPDATED',
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser, getClientIP } from '@/lib/auth';
+import { logAuditEvent } from '@/lib/audit';
+
+export const runtime = 'nodejs';
+
+// DELETE /api/users/authorized-apps/[id] - Revoke an app's access
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: { type: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const client = await prisma.oAuthClient.findUnique({
+      where: { id },
+      select: { id: true, clientId: true, name: true },
+    });
+
+    if (!client) {
+      return NextResponse.json(
+        { error: { type: 'NOT_FOUND', message: 'App not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Issued access tokens stay valid until they expire (minutes)
+    await prisma.$transaction([
+      prisma.oAuthConsent.deleteMany({
+        where: { userId: user.id, oauthClientId: client.id },
+      }),
+      prisma.oAuthRefreshToken.updateMany({
+        where: { userId: user.id, oauthClientId: client.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+
+    await logAuditEvent({
+      userId: user.id,
+      action: 'OAUTH_SERVER_CONSENT_REVOKED',
+      category: 'security',
+      ipAddress: getClientIP(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+      metadata: { clientId: client.clientId, clientName: client.name },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'App access revoked successfully',
+    });
+  } catch (error) {
+    console.error('Failed to revoke app access:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'INTERNAL_ERROR',
+          message: 'Failed to revoke app access',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { describeScopes } from '@/lib/oauth-server';
+
+export const runtime = 'nodejs';
+
+// GET /api/users/authorized-apps - Apps the user has authorized through OAuth
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: { type: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    // Trusted apps skip consent, so also list those holding refresh tokens
+    const clients = await prisma.oAuthClient.findMany({
+      where: {
+        revokedAt: null,
+        OR: [
+          { consents: { some: { userId: user.id } } },
+          {
+            refreshTokens: {
+              some: {
+                userId: user.id,
+                revokedAt: null,
+                expiresAt: { gt: new Date() },
+              },
+            },
+          },
+        ],
+      },
+      select: {
+        id: true,
+        name: true,
+        consents: {
+          where: { userId: user.id },
+          select: { scopes: true, createdAt: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      apps: clients.map((client) => ({
+        id: client.id,
+        name: client.name,
+        scopes: describeScopes(client.consents[0]?.scopes ?? []),
+        authorizedAt: client.consents[0]?.createdAt.toISOString() ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to list authorized apps:', error);
+    return NextResponse.json(
+      {
+        error: {
+          type: 'INTERNAL_ERROR',
+          message: 'Failed to list authorized apps',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import bcrypt from 'bcryptjs';
-import { getSession, getClientIP, isRateLimited, logoutUser } from '@/lib/auth';
+import {
+  getSession,
+  getClientIP,
+  isRateLimited,
+  logoutUser,
+  assertRecentAuth,
+} from '@/lib/auth';
 import { logAuditEvent } from '@/lib/audit';
+import { verifyPassword } from '@/lib/security';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import {
@@ -9,6 +15,12 @@ import {
   ImpersonationBlockedError,
 } from '@/lib/auth/impersonation';
 import { userWithRolesInclude, isGranted, ROLES } from '@/lib/security/index';
+import {
+  AuthorizationError,
+  ReauthenticationRequiredError,
+} from '@/services/auth.errors';
+import { handleServiceError } from '@/lib/api-utils';
+import { scheduleAccountDeletion } from '@/lib/account-deletion';
 
 export const runtime = 'nodejs';
 
@@ -46,9 +58,10 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Block during impersonation
+    // Block during impersonation, and require a recent sign-in
     try {
       assertNotImpersonating(session);
+      assertRecentAuth(session, 'deleteAccount');
     } catch (error) {
       if (error instanceof ImpersonationBlockedError) {
         return NextResponse.json(
@@ -56,6 +69,9 @@ export async function POST(req: NextRequest) {
           { status: 403 }
         );
       }
+      if (error instanceof ReauthenticationRequiredError) {
+        return handleServiceError(error);
+      }
       throw error;
     }
 
@@ -82,6 +98,7 @@ export async function POST(req: NextRequest) {
       select: {
         id: true,
         email: true,
+        firstName: true,
         password: true,
         ...userWithRolesInclude,
       },
@@ -108,24 +125,6 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Organization owners must transfer ownership first
-    const hasOwnerRole = user.userRoles.some(
-      (ur) => ur.organizationId !== null && ur.role.name === ROLES.OWNER
-    );
-
-    if (hasOwnerRole) {
-      return NextResponse.json(
-        {
-          error: {
-            type: 'FORBIDDEN',
-            message:
-              'You must transfer organization ownership before deleting your account.',
-          },
-        },
-        { status: 403 }
-      );
-    }
-
     // OAuth-only users cannot verify with password
     if (!user.password) {
       return NextResponse.json(
@@ -141,7 +140,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Verify password
-    const isValidPassword = await bcrypt.compare(password, user.password);
+    const isValidPassword = await verifyPassword(password, user.password);
     if (!isValidPassword) {
       await logAuditEvent({
         action: 'ACCOUNT_DELETE_FAILED',
@@ -160,28 +159,26 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Log the deletion before deleting (so we have the userId)
-    await logAuditEvent({
-      action: 'ACCOUNT_DELETED',
-      category: 'security',
-      userId: user.id,
+    // Locks the account; organizations are handed over when it is purged
+    const deletesAt = await scheduleAccountDeletion(user, {
       ipAddress: clientIP,
       userAgent,
-      metadata: { email: user.email },
-    });
-
-    // Delete user - cascades to sessions, tokens, backup codes, OAuth accounts, API keys
-    await prisma.user.delete({
-      where: { id: user.id },
     });
 
     // Destroy current session
     await logoutUser();
 
     return NextResponse.json({
-      message: 'Your account has been permanently deleted.',
+      message: deletesAt
+        ? `Your account will be deleted on ${deletesAt.toUTCString()}. Use the link we emailed you to keep it.`
+        : 'Your account has been permanently deleted.',
+      deletesAt,
     });
   } catch (error) {
+    // Last administrator of an organization
+    if (error instanceof AuthorizationError) {
+      return handleServiceError(error);
+    }
     console.error('Delete account error:', error);
     return NextResponse.json(
       { error: { type: 'SERVER_ERROR', message: 'Failed to delete account' } },
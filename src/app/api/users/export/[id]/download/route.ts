@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, getSession } from '@/lib/auth';
+import { assertNotImpersonating } from '@/lib/auth/impersonation';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { getDataExportArchive } from '@/lib/data-export';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/users/export/[id]/download - Download a ready data export
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'AUTHENTICATION_ERROR',
+            message: 'Not authenticated',
+          } as AuthError,
+        },
+        { status: 401 }
+      );
+    }
+
+    assertNotImpersonating(await getSession());
+
+    const { id } = await params;
+    const { clientIP, userAgent } = getRequestContext(req);
+    const { archive, createdAt } = await getDataExportArchive(id, user.id, {
+      ipAddress: clientIP,
+      userAgent,
+    });
+
+    return new NextResponse(archive, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="soclestack-data-export-${createdAt.toISOString().split('T')[0]}.zip"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -4,6 +4,8 @@ import {
   getClientIP,
   isRateLimited,
   getCurrentUser,
+  getSession,
+  assertRecentAuth,
 } from '@/lib/auth';
 import { updateProfileSchema, changePasswordSchema } from '@/lib/validations';
 import {
@@ -16,6 +18,11 @@ import { prisma } from '@/lib/db';
 import { AuthError } from '@/types/auth';
 import { SECURITY_CONFIG } from '@/lib/config/security';
 import { rotateCsrfToken } from '@/lib/csrf';
+import { revokeAllUserRefreshTokens } from '@/lib/auth/refresh-tokens';
+import {
+  assertPasswordAllowed,
+  getPasswordPolicy,
+} from '@/lib/auth/password-policy';
 import { getHighestRole, userWithRolesInclude } from '@/lib/security/index';
 import {
   sendVerificationEmail,
@@ -23,6 +30,8 @@ import {
 } from '@/lib/email';
 import { logAuditEvent } from '@/lib/audit';
 import log from '@/lib/logger';
+import { ServiceError } from '@/services/auth.errors';
+import { handleServiceError } from '@/lib/api-utils';
 
 export const runtime = 'nodejs';
 
@@ -137,46 +146,24 @@ export async function PATCH(req: NextRequest) {
         );
       }
 
-      // Check if new password is different from current
-      const isSamePassword = await verifyPassword(
-        newPassword,
-        currentUser.password
-      );
-      if (isSamePassword) {
-        return NextResponse.json(
+      // Check the new password against the user's password policy,
+      // including reuse of the current and recent passwords
+      try {
+        await assertPasswordAllowed(
+          newPassword,
           {
-            error: {
-              type: 'VALIDATION_ERROR',
-              message: 'New password must be different from current password',
-            } as AuthError,
+            policy: await getPasswordPolicy(currentUser.id),
+            personalInfo: currentUser,
+            userId: currentUser.id,
+            currentPasswordHash: currentUser.password,
           },
-          { status: 400 }
-        );
-      }
-
-      // Check password history (prevent reusing last 3 passwords)
-      const passwordHistory = await prisma.passwordHistory.findMany({
-        where: { userId: currentUser.id },
-        orderBy: { createdAt: 'desc' },
-        take: 3,
-      });
-
-      for (const oldPassword of passwordHistory) {
-        const isOldPassword = await verifyPassword(
-          newPassword,
-          oldPassword.password
+          'newPassword'
         );
-        if (isOldPassword) {
-          return NextResponse.json(
-            {
-              error: {
-                type: 'VALIDATION_ERROR',
-                message: 'Cannot reuse any of your last 3 passwords',
-              } as AuthError,
-            },
-            { status: 400 }
-          );
+      } catch (error) {
+        if (error instanceof ServiceError) {
+          return handleServiceError(error);
         }
+        throw error;
       }
 
       // Hash new password
@@ -193,7 +180,11 @@ export async function PATCH(req: NextRequest) {
       // Update password
       const updatedUser = await prisma.user.update({
         where: { id: currentUser.id },
-        data: { password: hashedPassword, passwordChangedAt: new Date() },
+        data: {
+          password: hashedPassword,
+          passwordChangedAt: new Date(),
+          passwordChangeRequired: false,
+        },
         select: {
           id: true,
           email: true,
@@ -219,6 +210,7 @@ export async function PATCH(req: NextRequest) {
           // Keep current session active - you'd need to implement session tracking for this
         },
       });
+      await revokeAllUserRefreshTokens(currentUser.id);
 
       // Rotate CSRF token after password change
       const response = NextResponse.json({
@@ -282,6 +274,21 @@ export async function PATCH(req: NextRequest) {
         profileUser = dbUser;
       }
 
+      // Changing the sign-in email needs a recent sign-in
+      if (updateData.email && updateData.email !== profileUser.email) {
+        try {
+          assertRecentAuth(
+            auth.context.type === 'session' ? await getSession() : null,
+            'changeEmail'
+          );
+        } catch (error) {
+          if (error instanceof ServiceError) {
+            return handleServiceError(error);
+          }
+          throw error;
+        }
+      }
+
       // Check if email is being changed and if it's already taken
       if (updateData.email && updateData.email !== profileUser.email) {
         const existingUser = await prisma.user.findUnique({
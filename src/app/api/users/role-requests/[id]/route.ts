@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, getSession } from '@/lib/auth';
+import { assertNotImpersonating } from '@/lib/auth/impersonation';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { cancelRoleRequest } from '@/lib/role-requests';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/users/role-requests/[id] - Cancel one of the current user's pending requests
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'AUTHENTICATION_ERROR',
+            message: 'Not authenticated',
+          } as AuthError,
+        },
+        { status: 401 }
+      );
+    }
+
+    assertNotImpersonating(await getSession());
+
+    const { id } = await params;
+    const { clientIP, userAgent } = getRequestContext(req);
+    await cancelRoleRequest(id, user.id, { ipAddress: clientIP, userAgent });
+
+    return NextResponse.json({ message: 'Role request cancelled' });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
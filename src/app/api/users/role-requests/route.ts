@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, getSession } from '@/lib/auth';
+import { assertNotImpersonating } from '@/lib/auth/impersonation';
+import { getRequestContext, handleServiceError } from '@/lib/api-utils';
+import { prisma } from '@/lib/db';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { listUserRoleRequests, requestRole } from '@/lib/role-requests';
+import { createRoleRequestSchema } from '@/lib/validations';
+import { AuthError } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+function notAuthenticated() {
+  return NextResponse.json(
+    {
+      error: {
+        type: 'AUTHENTICATION_ERROR',
+        message: 'Not authenticated',
+      } as AuthError,
+    },
+    { status: 401 }
+  );
+}
+
+// GET /api/users/role-requests - The current user's role requests and what they can request
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) return notAuthenticated();
+
+    const organizationIds = user.userRoles
+      .map((ur) => ur.organizationId)
+      .filter((id): id is string => id !== null);
+
+    const [requests, roles, organizations] = await Promise.all([
+      listUserRoleRequests(user.id),
+      prisma.role.findMany({
+        where: {
+          name: { in: [...SECURITY_CONFIG.roleRequests.requestableRoles] },
+        },
+        orderBy: { name: 'asc' },
+        select: { name: true, description: true },
+      }),
+      prisma.organization.findMany({
+        where: { id: { in: organizationIds } },
+        orderBy: { name: 'asc' },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      requests,
+      roles,
+      organizations,
+      limits: SECURITY_CONFIG.roleRequests,
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+// POST /api/users/role-requests - Request a role for a limited time
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) return notAuthenticated();
+
+    // Requests are made by the user themselves, not by an impersonating admin
+    assertNotImpersonating(await getSession());
+
+    const body = await req.json().catch(() => ({}));
+    const validationResult = createRoleRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: validationResult.error.flatten().fieldErrors,
+          } as AuthError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { clientIP, userAgent } = getRequestContext(req);
+    const request = await requestRole(user.id, validationResult.data, {
+      ipAddress: clientIP,
+      userAgent,
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Your request was sent to the administrators for approval.',
+        request,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
+import { reactivateExpiredSuspensions } from '@/lib/auth/user-status';
 import { userListParamsSchema } from '@/lib/validations';
 import { prisma } from '@/lib/db';
 import { AuthError } from '@/types/auth';
@@ -145,6 +146,9 @@ export async function GET(req: NextRequest) {
       ...(locked && { lockedUntil: { gt: new Date() } }),
     };
 
+    // End expired suspensions so the list shows current statuses
+    await reactivateExpiredSuspensions();
+
     // Get total count
     const totalUsers = await prisma.user.count({ where });
 
@@ -158,6 +162,9 @@ export async function GET(req: NextRequest) {
         firstName: true,
         lastName: true,
         isActive: true,
+        status: true,
+        statusReason: true,
+        statusExpiresAt: true,
         emailVerified: true,
         lastLoginAt: true,
         createdAt: true,
@@ -0,0 +1,25 @@
+import { redirect } from 'next/navigation';
+import { getSession } from '@/lib/auth';
+import { RequiredPasswordChange } from '@/components/auth/required-password-change';
+
+export const dynamic = 'force-dynamic';
+
+export default async function ChangePasswordPage() {
+  const session = await getSession();
+
+  if (!session.isLoggedIn || !session.userId) {
+    redirect('/login');
+  }
+
+  if (!session.passwordChangeRequired) {
+    redirect('/profile');
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-6">
+        <RequiredPasswordChange reason={session.passwordChangeRequired} />
+      </div>
+    </div>
+  );
+}
@@ -91,6 +91,7 @@ function OAuthLinkContent() {
   };
 
   const formatProvider = (p: string) => {
+    if (p.startsWith('saml:')) return `${p.slice(5)} SSO`;
     return p.charAt(0).toUpperCase() + p.slice(1);
   };
 
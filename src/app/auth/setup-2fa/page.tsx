@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation';
+import { getSession } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { isTwoFactorEnrollmentRequired } from '@/lib/auth/two-factor-policy';
+import { RequiredTwoFactorSetup } from '@/components/auth/required-two-factor-setup';
+
+export const dynamic = 'force-dynamic';
+
+export default async function SetupTwoFactorPage() {
+  const session = await getSession();
+
+  if (!session.isLoggedIn || !session.userId) {
+    redirect('/login');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.userId },
+    select: { twoFactorEnabled: true },
+  });
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  if (user.twoFactorEnabled) {
+    redirect('/dashboard');
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-6">
+        <RequiredTwoFactorSetup
+          enrollmentRequired={isTwoFactorEnrollmentRequired(session)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { Suspense, useState } from 'react';
+import { Suspense, useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import {
   Card,
@@ -11,6 +11,13 @@ import {
 } from '@/components/ui/card';
 import { TwoFactorInput } from '@/components/auth/two-factor-input';
 import { Loader2 } from 'lucide-react';
+import { requestPasskeyAssertion } from '@/lib/webauthn-client';
+import {
+  fetchTwoFactorFactors,
+  requestTwoFactorEmailCode,
+  type PendingTwoFactor,
+} from '@/lib/two-factor-client';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/browser';
 
 function TwoFactorContent() {
   const router = useRouter();
@@ -20,8 +27,50 @@ function TwoFactorContent() {
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [pending, setPending] = useState<PendingTwoFactor | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    fetchTwoFactorFactors(token)
+      .then(setPending)
+      .catch((err) => {
+        // Fall back to the authenticator; validation reports the real error
+        setError(err instanceof Error ? err.message : 'Session expired');
+        setPending({ factors: ['totp', 'backup_code'] });
+      });
+  }, [token]);
+
+  const handleSendEmailCode = async () => {
+    setError('');
+    try {
+      await requestTwoFactorEmailCode(token ?? '');
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send code');
+      return false;
+    }
+  };
+
+  const handle2FASubmit = (code: string, isBackupCode: boolean) =>
+    submit2FA({ code, isBackupCode });
+
+  const handlePasskey = async () => {
+    setError('');
+    try {
+      const assertion = await requestPasskeyAssertion(token ?? undefined);
+      await submit2FA({ webauthnResponse: assertion });
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Passkey verification failed'
+      );
+    }
+  };
 
-  const handle2FASubmit = async (code: string, isBackupCode: boolean) => {
+  const submit2FA = async (
+    factor:
+      | { code: string; isBackupCode: boolean }
+      | { webauthnResponse: AuthenticationResponseJSON }
+  ) => {
     if (!token) {
       router.push('/login?error=missing_token');
       return;
@@ -36,8 +85,7 @@ function TwoFactorContent() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           pendingToken: token,
-          code,
-          isBackupCode,
+          ...factor,
         }),
       });
 
@@ -83,16 +131,28 @@ function TwoFactorContent() {
       <CardHeader>
         <CardTitle>Two-Factor Authentication</CardTitle>
         <CardDescription>
-          Verify your identity to complete sign in
+          {pending?.challenge
+            ? 'This sign in looks different from usual'
+            : 'Verify your identity to complete sign in'}
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <TwoFactorInput
-          onSubmit={handle2FASubmit}
-          onCancel={handleCancel}
-          isLoading={isLoading}
-          error={error}
-        />
+        {pending ? (
+          <TwoFactorInput
+            onSubmit={handle2FASubmit}
+            onCancel={handleCancel}
+            onPasskey={handlePasskey}
+            onSendEmailCode={handleSendEmailCode}
+            factors={pending.factors}
+            emailCodeSent={!!pending.challenge}
+            isLoading={isLoading}
+            error={error}
+          />
+        ) : (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
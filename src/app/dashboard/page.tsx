@@ -1,6 +1,7 @@
 import { getCurrentUser } from '@/lib/auth';
 import { isGranted, ROLES } from '@/lib/security/index';
 import { checkPasswordAge } from '@/lib/auth/password-age';
+import { getPasswordPolicy } from '@/lib/auth/password-policy';
 import {
   Card,
   CardContent,
@@ -36,9 +37,21 @@ export default async function DashboardPage({
 
   // Check password age (only for users with passwords, not OAuth-only)
   const passwordStatus = user.password
-    ? checkPasswordAge(user.passwordChangedAt)
+    ? checkPasswordAge(user.passwordChangedAt, await getPasswordPolicy(user.id))
     : null;
 
+  // Deadline to enroll in 2FA when a mandatory 2FA policy covers the user
+  const twoFactorDaysLeft =
+    !user.twoFactorEnabled && user.twoFactorGraceUntil
+      ? Math.max(
+          0,
+          Math.ceil(
+            (user.twoFactorGraceUntil.getTime() - Date.now()) /
+              (24 * 60 * 60 * 1000)
+          )
+        )
+      : null;
+
   const getWelcomeMessage = () => {
     const name = user.firstName || user.username || 'there';
     return `Welcome back, ${name}!`;
@@ -118,6 +131,30 @@ export default async function DashboardPage({
           </Alert>
         )}
 
+        {/* Mandatory 2FA Grace Period Warning */}
+        {twoFactorDaysLeft !== null && (
+          <Alert variant="warning" className="mb-6">
+            <div className="flex items-start gap-3">
+              <Shield className="mt-0.5 h-5 w-5 flex-shrink-0" />
+              <div>
+                <p className="font-medium">
+                  Two-factor authentication required
+                </p>
+                <p className="mt-1 text-sm">
+                  Set up two-factor authentication within {twoFactorDaysLeft}{' '}
+                  days to keep full access to your account.
+                </p>
+                <Link
+                  href="/auth/setup-2fa"
+                  className="mt-2 inline-block text-sm underline"
+                >
+                  Set up two-factor authentication
+                </Link>
+              </div>
+            </div>
+          </Alert>
+        )}
+
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900">
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Alert } from '@/components/ui/alert';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { MagicLinkForm } from '@/components/auth/magic-link-form';
+import { Loader2 } from 'lucide-react';
+
+function MagicLinkContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [error, setError] = useState<string>('');
+  // Links are single-use, so guard against double invocation in dev mode
+  const consumed = useRef(false);
+
+  useEffect(() => {
+    if (!token || consumed.current) {
+      return;
+    }
+    consumed.current = true;
+
+    const signIn = async () => {
+      try {
+        const response = await fetch('/api/auth/magic-link/verify', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ token }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error?.message || 'Sign-in link is invalid');
+          return;
+        }
+
+        if (data.requiresTwoFactor) {
+          router.push(
+            `/auth/two-factor?token=${encodeURIComponent(data.pendingToken)}`
+          );
+          return;
+        }
+
+        if (data.tokens) {
+          localStorage.setItem('accessToken', data.tokens.accessToken);
+          localStorage.setItem('refreshToken', data.tokens.refreshToken);
+        }
+
+        router.push('/dashboard');
+        router.refresh();
+      } catch {
+        setError('An unexpected error occurred. Please try again.');
+      }
+    };
+
+    signIn();
+  }, [token, router]);
+
+  if (!token) {
+    return <MagicLinkForm />;
+  }
+
+  return (
+    <Card data-testid="magic-link-verify">
+      <CardHeader>
+        <CardTitle>{error ? 'Sign-In Failed' : 'Signing you in...'}</CardTitle>
+        <CardDescription>
+          {error
+            ? 'This sign-in link could not be used.'
+            : 'Please wait while we verify your sign-in link.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="space-y-4">
+            <Alert variant="error" data-testid="magic-link-error">
+              {error}
+            </Alert>
+            <Link href="/magic-link">
+              <Button className="w-full">Request a new link</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MagicLinkPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md">
+        <Suspense
+          fallback={
+            <Card>
+              <CardContent className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+              </CardContent>
+            </Card>
+          }
+        >
+          <MagicLinkContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
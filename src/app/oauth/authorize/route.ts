@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSession } from '@/lib/auth';
+import {
+  validateAuthorizationRequest,
+  pickAuthorizationParams,
+  hasConsent,
+  createAuthorizationCode,
+  buildClientRedirectUrl,
+  authorizationErrorResponse,
+  OAuthRedirectError,
+} from '@/lib/oauth-server';
+
+export const runtime = 'nodejs';
+
+// GET /oauth/authorize - Authorization endpoint (authorization code + PKCE)
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const request = await validateAuthorizationRequest(params);
+    const session = await getSession();
+
+    const deny = (
+      code: OAuthRedirectError['code'],
+      message: string
+    ): NextResponse =>
+      authorizationErrorResponse(
+        new OAuthRedirectError(
+          code,
+          message,
+          request.redirectUri,
+          request.state
+        )
+      );
+
+    const user =
+      session.isLoggedIn && session.userId
+        ? await prisma.user.findFirst({
+            where: { id: session.userId, isActive: true },
+            select: { id: true },
+          })
+        : null;
+
+    if (!user) {
+      if (request.prompt.includes('none')) {
+        return deny('login_required', 'The user is not signed in');
+      }
+      const loginUrl = new URL('/login', req.url);
+      loginUrl.searchParams.set(
+        'returnUrl',
+        `/oauth/authorize?${pickAuthorizationParams(params)}`
+      );
+      return NextResponse.redirect(loginUrl);
+    }
+
+    // Tokens minted during impersonation would outlive it
+    if (session.impersonating) {
+      return deny(
+        'access_denied',
+        'Applications cannot be authorized while impersonating a user'
+      );
+    }
+
+    const consented =
+      !request.prompt.includes('consent') &&
+      (await hasConsent(user.id, request.client, request.scopes));
+
+    if (!consented) {
+      if (request.prompt.includes('none')) {
+        return deny('consent_required', 'The user has not approved this app');
+      }
+      const consentUrl = new URL('/oauth/consent', req.url);
+      consentUrl.search = pickAuthorizationParams(params).toString();
+      return NextResponse.redirect(consentUrl);
+    }
+
+    const code = await createAuthorizationCode(
+      request,
+      user.id,
+      new Date(
+        session.authenticatedAt ?? session.sessionCreatedAt ?? Date.now()
+      )
+    );
+
+    return NextResponse.redirect(
+      buildClientRedirectUrl(request.redirectUri, {
+        code,
+        state: request.state,
+      })
+    );
+  } catch (error) {
+    return authorizationErrorResponse(error);
+  }
+}
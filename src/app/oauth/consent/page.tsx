@@ -0,0 +1,181 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert } from '@/components/ui/alert';
+import { Loader2, AppWindow, Check } from 'lucide-react';
+import { apiGet, apiPost } from '@/lib/api-client';
+
+interface ConsentDetails {
+  client: { name: string };
+  scopes: { scope: string; description: string }[];
+  user: { email: string };
+}
+
+function ConsentContent() {
+  const searchParams = useSearchParams();
+  const request = searchParams.toString();
+
+  const [details, setDetails] = useState<ConsentDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadDetails = async () => {
+      try {
+        const response = await apiGet(`/api/oauth/consent?${request}`);
+        const data = await response.json();
+
+        if (response.status === 401) {
+          // Session ended; sign in and start the authorization over
+          window.location.href = `/login?returnUrl=${encodeURIComponent(`/oauth/authorize?${request}`)}`;
+          return;
+        }
+        if (!response.ok) {
+          setError(data.error?.message || 'Invalid authorization request');
+          return;
+        }
+
+        setDetails(data);
+      } catch {
+        setError('An unexpected error occurred');
+      }
+    };
+
+    loadDetails();
+  }, [request]);
+
+  const handleDecision = async (approved: boolean) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiPost('/api/oauth/consent', {
+        request,
+        approved,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error?.message || 'Failed to complete authorization');
+        setIsLoading(false);
+        return;
+      }
+
+      window.location.href = data.redirectTo;
+    } catch {
+      setError('An unexpected error occurred');
+      setIsLoading(false);
+    }
+  };
+
+  if (error && !details) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <Alert variant="error">{error}</Alert>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!details) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AppWindow className="h-5 w-5" />
+          {details.client.name}
+        </CardTitle>
+        <CardDescription>
+          wants to access your account <strong>{details.user.email}</strong>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="error">{error}</Alert>}
+
+        <div>
+          <p className="mb-2 text-sm font-medium">This will allow it to:</p>
+          <ul className="space-y-2">
+            {details.scopes.map(({ scope, description }) => (
+              <li
+                key={scope}
+                className="flex items-start gap-2 text-sm text-gray-700"
+              >
+                <Check className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-600" />
+                {description}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          You can revoke this access at any time from your profile.
+        </p>
+
+        <div className="flex gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1"
+            disabled={isLoading}
+            onClick={() => handleDecision(false)}
+          >
+            Deny
+          </Button>
+          <Button
+            type="button"
+            className="flex-1"
+            disabled={isLoading}
+            onClick={() => handleDecision(true)}
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Allow'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function OAuthConsentPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <h2 className="text-3xl font-extrabold text-gray-900">
+            Authorize Application
+          </h2>
+        </div>
+
+        <Suspense
+          fallback={
+            <Card>
+              <CardContent className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+              </CardContent>
+            </Card>
+          }
+        >
+          <ConsentContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateClient,
+  revokeToken,
+  oauthErrorResponse,
+  readOAuthForm,
+} from '@/lib/oauth-server';
+
+export const runtime = 'nodejs';
+
+// POST /oauth/revoke - Token revocation (RFC 7009)
+export async function POST(req: NextRequest) {
+  try {
+    const params = await readOAuthForm(req);
+    const client = await authenticateClient(
+      params,
+      req.headers.get('authorization')
+    );
+
+    await revokeToken(params, client);
+
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    return oauthErrorResponse(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { getClientIP, isRateLimited } from '@/lib/auth';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import {
+  authenticateClient,
+  handleTokenRequest,
+  oauthJson,
+  oauthErrorResponse,
+  readOAuthForm,
+  OAuthServerError,
+} from '@/lib/oauth-server';
+
+export const runtime = 'nodejs';
+
+// POST /oauth/token - Token endpoint
+export async function POST(req: NextRequest) {
+  try {
+    const clientIP = getClientIP(req);
+    const { limit, windowMs } = SECURITY_CONFIG.rateLimits.oauthToken;
+    if (isRateLimited(`oauth-token:${clientIP}`, limit, windowMs)) {
+      throw new OAuthServerError(
+        'invalid_request',
+        'Too many requests. Please try again later.',
+        429
+      );
+    }
+
+    const params = await readOAuthForm(req);
+    const client = await authenticateClient(
+      params,
+      req.headers.get('authorization')
+    );
+
+    const tokens = await handleTokenRequest(params, client, {
+      ipAddress: clientIP,
+      userAgent: req.headers.get('user-agent') || undefined,
+    });
+
+    return oauthJson(tokens);
+  } catch (error) {
+    return oauthErrorResponse(error);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { getUserInfo, oauthJson, oauthErrorResponse } from '@/lib/oauth-server';
+
+export const runtime = 'nodejs';
+
+async function handleUserInfo(req: NextRequest) {
+  try {
+    return oauthJson(await getUserInfo(req.headers.get('authorization')));
+  } catch (error) {
+    return oauthErrorResponse(error);
+  }
+}
+
+// GET|POST /oauth/userinfo - Claims about the signed-in user
+export const GET = handleUserInfo;
+export const POST = handleUserInfo;
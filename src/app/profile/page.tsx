@@ -3,7 +3,9 @@ import { isGranted, ROLES } from '@/lib/security/index';
 import { ProfileForm } from '@/components/profile/profile-form';
 import { PasswordChangeForm } from '@/components/profile/password-change-form';
 import { ExportData } from '@/components/profile/export-data';
+import { RoleRequests } from '@/components/profile/role-requests';
 import { DeleteAccount } from '@/components/profile/delete-account';
+import { getDeletionGracePeriodDays } from '@/lib/account-deletion';
 import {
   Card,
   CardContent,
@@ -223,14 +225,17 @@ export default async function ProfilePage() {
             </CardContent>
           </Card>
 
+          {/* Just-in-time role requests */}
+          <RoleRequests />
+
           {/* Export Data */}
           <ExportData />
 
           {/* Delete Account */}
           <DeleteAccount
             isAdmin={isAdmin}
-            isOrgOwner={await isGranted(user, ROLES.OWNER)}
             hasPassword={!!user.password}
+            gracePeriodDays={getDeletionGracePeriodDays()}
           />
         </div>
       </div>
@@ -7,8 +7,11 @@ import {
   userWithRolesInclude,
   ROLES,
 } from '@/lib/security/index';
+import { isTwoFactorRequired } from '@/lib/auth/two-factor-policy';
 import { SecuritySettings } from '@/components/profile/security-settings';
+import { Passkeys } from '@/components/profile/passkeys';
 import { OAuthAccounts } from '@/components/profile/oauth-accounts';
+import { AuthorizedApps } from '@/components/profile/authorized-apps';
 import { ApiKeys } from '@/components/profile/api-keys';
 import { NotificationPreferences } from '@/components/profile/notification-preferences';
 import { Loader2 } from 'lucide-react';
@@ -26,6 +29,7 @@ export default async function SecurityPage() {
       id: true,
       email: true,
       twoFactorEnabled: true,
+      twoFactorMethod: true,
       ...userWithRolesInclude,
       _count: {
         select: {
@@ -42,6 +46,7 @@ export default async function SecurityPage() {
   }
 
   const userRole = getHighestRole(user);
+  const twoFactorRequired = await isTwoFactorRequired(user.id);
 
   return (
     <div className="mx-auto max-w-2xl space-y-6 p-6">
@@ -49,10 +54,14 @@ export default async function SecurityPage() {
 
       <SecuritySettings
         twoFactorEnabled={user.twoFactorEnabled}
+        twoFactorMethod={user.twoFactorMethod === 'email' ? 'email' : 'totp'}
         isAdmin={userRole === ROLES.ADMIN}
+        twoFactorRequired={twoFactorRequired}
         remainingBackupCodes={user._count.backupCodes}
       />
 
+      <Passkeys />
+
       <Suspense
         fallback={
           <div className="flex justify-center py-8">
@@ -63,6 +72,8 @@ export default async function SecurityPage() {
         <OAuthAccounts />
       </Suspense>
 
+      <AuthorizedApps />
+
       <ApiKeys />
 
       <NotificationPreferences />
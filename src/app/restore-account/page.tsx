@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Alert } from '@/components/ui/alert';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { UserX, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+
+function RestoreAccountContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [status, setStatus] = useState<
+    'loading' | 'success' | 'error' | 'no-token'
+  >('loading');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('no-token');
+      return;
+    }
+
+    restoreAccount();
+  }, [token]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const restoreAccount = async () => {
+    try {
+      const response = await fetch('/api/auth/restore-account', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setStatus('error');
+        setMessage(data.error?.message || 'Failed to restore account');
+        return;
+      }
+
+      setStatus('success');
+      setMessage(data.message);
+    } catch {
+      setStatus('error');
+      setMessage('An unexpected error occurred');
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div
+        className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12 sm:px-6 lg:px-8"
+        data-testid="restore-loading"
+      >
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <div className="flex flex-col items-center justify-center py-8">
+              <Loader2 className="mb-4 h-8 w-8 animate-spin text-blue-600" />
+              <p className="text-gray-600">Restoring your account...</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (status === 'no-token') {
+    return (
+      <div
+        className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12 sm:px-6 lg:px-8"
+        data-testid="restore-no-token"
+      >
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-yellow-100">
+              <UserX className="h-6 w-6 text-yellow-600" />
+            </div>
+            <CardTitle
+              className="mt-4 text-center"
+              data-testid="no-token-title"
+            >
+              Invalid Link
+            </CardTitle>
+            <CardDescription className="text-center">
+              This link appears to be invalid or incomplete.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/login">
+              <Button className="w-full" data-testid="back-to-login-button">
+                Back to Login
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (status === 'error') {
+    return (
+      <div
+        className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12 sm:px-6 lg:px-8"
+        data-testid="restore-error"
+      >
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-red-100">
+              <XCircle className="h-6 w-6 text-red-600" />
+            </div>
+            <CardTitle className="mt-4 text-center" data-testid="error-title">
+              Restore Failed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Alert variant="error" className="mb-4" data-testid="error-message">
+              {message}
+            </Alert>
+            <Link href="/login">
+              <Button className="w-full" data-testid="back-to-login-button">
+                Back to Login
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12 sm:px-6 lg:px-8"
+      data-testid="restore-success"
+    >
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-green-100">
+            <CheckCircle className="h-6 w-6 text-green-600" />
+          </div>
+          <CardTitle className="mt-4 text-center" data-testid="success-title">
+            Account Restored!
+          </CardTitle>
+          <CardDescription
+            className="text-center"
+            data-testid="success-message"
+          >
+            {message}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/login">
+            <Button className="w-full" data-testid="sign-in-button">
+              Sign In Now
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function LoadingFallback() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50">
+      <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+    </div>
+  );
+}
+
+export default function RestoreAccountPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <RestoreAccountContent />
+    </Suspense>
+  );
+}
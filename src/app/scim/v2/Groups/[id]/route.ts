@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateScimRequest,
+  getScimGroup,
+  replaceScimGroup,
+  patchScimGroup,
+  deleteScimGroup,
+  readScimBody,
+  scimJson,
+  scimErrorResponse,
+} from '@/lib/scim';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /scim/v2/Groups/[id] - Get a role group with its members
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const { id } = await params;
+
+    return scimJson(await getScimGroup(context, id));
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
+
+// PUT /scim/v2/Groups/[id] - Replace the group's members
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const { id } = await params;
+
+    return scimJson(
+      await replaceScimGroup(context, id, await readScimBody(req))
+    );
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
+
+// PATCH /scim/v2/Groups/[id] - Add or remove members
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const { id } = await params;
+
+    return scimJson(await patchScimGroup(context, id, await readScimBody(req)));
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
+
+// DELETE /scim/v2/Groups/[id] - Remove all members (the role is kept)
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const { id } = await params;
+
+    await deleteScimGroup(context, id);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
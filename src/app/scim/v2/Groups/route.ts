@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import {
+  authenticateScimRequest,
+  listScimGroups,
+  createScimGroup,
+  parseListParams,
+  readScimBody,
+  toListResponse,
+  scimJson,
+  scimErrorResponse,
+} from '@/lib/scim';
+
+export const runtime = 'nodejs';
+
+// GET /scim/v2/Groups - List role groups (filter, startIndex, count)
+export async function GET(req: NextRequest) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const { searchParams } = req.nextUrl;
+    const params = parseListParams(searchParams);
+
+    // Clients syncing many groups ask to leave the member lists out
+    const excluded = (searchParams.get('excludedAttributes') ?? '')
+      .toLowerCase()
+      .split(',')
+      .map((attribute) => attribute.trim());
+
+    const { resources, totalResults } = await listScimGroups(
+      context,
+      params,
+      !excluded.includes('members')
+    );
+
+    return scimJson(toListResponse(resources, totalResults, params.startIndex));
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
+
+// POST /scim/v2/Groups - Bind a group to the role with the same name
+export async function POST(req: NextRequest) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const group = await createScimGroup(context, await readScimBody(req));
+
+    return scimJson(group, 201, { Location: group.meta.location });
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
@@ -0,0 +1,8 @@
+import { getServiceProviderConfig, scimJson } from '@/lib/scim';
+
+export const runtime = 'nodejs';
+
+// GET /scim/v2/ServiceProviderConfig - Supported SCIM features
+export async function GET() {
+  return scimJson(getServiceProviderConfig());
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateScimRequest,
+  getScimUser,
+  replaceScimUser,
+  patchScimUser,
+  deleteScimUser,
+  readScimBody,
+  scimJson,
+  scimErrorResponse,
+} from '@/lib/scim';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /scim/v2/Users/[id] - Get an organization member
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const { id } = await params;
+
+    return scimJson(await getScimUser(context, id));
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
+
+// PUT /scim/v2/Users/[id] - Replace a member's attributes
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const { id } = await params;
+
+    return scimJson(
+      await replaceScimUser(context, id, await readScimBody(req))
+    );
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
+
+// PATCH /scim/v2/Users/[id] - Update a member, e.g. { active: false } to deactivate
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const { id } = await params;
+
+    return scimJson(await patchScimUser(context, id, await readScimBody(req)));
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
+
+// DELETE /scim/v2/Users/[id] - Remove a member from the organization
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const { id } = await params;
+
+    await deleteScimUser(context, id);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import {
+  authenticateScimRequest,
+  listScimUsers,
+  createScimUser,
+  parseListParams,
+  readScimBody,
+  toListResponse,
+  scimJson,
+  scimErrorResponse,
+} from '@/lib/scim';
+
+export const runtime = 'nodejs';
+
+// GET /scim/v2/Users - List organization members (filter, startIndex, count)
+export async function GET(req: NextRequest) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const params = parseListParams(req.nextUrl.searchParams);
+
+    const { resources, totalResults } = await listScimUsers(context, params);
+
+    return scimJson(toListResponse(resources, totalResults, params.startIndex));
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
+
+// POST /scim/v2/Users - Provision a user into the organization
+export async function POST(req: NextRequest) {
+  try {
+    const context = await authenticateScimRequest(req);
+    const user = await createScimUser(context, await readScimBody(req));
+
+    return scimJson(user, 201, { Location: user.meta.location });
+  } catch (error) {
+    return scimErrorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { SsoForm } from '@/components/auth/sso-form';
+import { Loader2 } from 'lucide-react';
+
+function SsoContent() {
+  const searchParams = useSearchParams();
+  return <SsoForm returnTo={searchParams.get('returnTo') || undefined} />;
+}
+
+export default function SsoPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md">
+        <Suspense
+          fallback={
+            <Card>
+              <CardContent className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+              </CardContent>
+            </Card>
+          }
+        >
+          <SsoContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
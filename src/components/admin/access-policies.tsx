@@ -0,0 +1,509 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  CheckCircle2,
+  FlaskConical,
+  Loader2,
+  Pencil,
+  Plus,
+  Save,
+  Trash2,
+  XCircle,
+} from 'lucide-react';
+import { apiDelete, apiPatch, apiPost } from '@/lib/api-client';
+import type { ConditionTrace, PolicyEffect } from '@/lib/security/policy';
+
+interface AccessPolicy {
+  id: string;
+  name: string;
+  description: string | null;
+  effect: PolicyEffect;
+  permissions: string[];
+  condition: unknown;
+  enabled: boolean;
+  updatedAt: string;
+}
+
+interface PolicyTestResult {
+  name: string;
+  permission: string;
+  applies: boolean;
+  vote: string;
+  expected: string;
+  passed: boolean;
+  condition: ConditionTrace | null;
+}
+
+const NEW_POLICY = 'new';
+
+const EXAMPLE_CONDITION = {
+  attribute: 'subject.createdById',
+  operator: 'eq',
+  value: { ref: 'user.id' },
+};
+
+const EXAMPLE_CASES = [
+  {
+    name: 'Creator',
+    permission: 'document.edit',
+    user: { id: 'user-1', roles: ['ROLE_USER'] },
+    subject: { createdById: 'user-1' },
+    expect: 'granted',
+  },
+  {
+    name: 'Someone else',
+    permission: 'document.edit',
+    user: { id: 'user-2', roles: ['ROLE_USER'] },
+    subject: { createdById: 'user-1' },
+    expect: 'abstain',
+  },
+];
+
+const TEXTAREA_CLASS =
+  'w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-xs focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none';
+
+const toJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+// Read an API error, listing the validation issues of nested conditions
+async function readError(response: Response, fallback: string) {
+  const data = await response.json().catch(() => ({}));
+  const issues: { path: string; message: string }[] = data.error?.issues ?? [];
+  return [
+    data.error?.message || fallback,
+    ...issues.map((i) => `${i.path || 'policy'}: ${i.message}`),
+  ].join('\n');
+}
+
+function ConditionTree({ trace }: { trace: ConditionTrace }) {
+  return (
+    <li>
+      <span className={trace.result ? 'text-green-700' : 'text-red-700'}>
+        {trace.result ? '✓' : '✗'}
+      </span>{' '}
+      {trace.description}
+      {!trace.children && (
+        <span className="text-gray-400">
+          {' '}
+          (actual: {JSON.stringify(trace.actual) ?? 'undefined'})
+        </span>
+      )}
+      {trace.children && (
+        <ul className="ml-4">
+          {trace.children.map((child, index) => (
+            <ConditionTree key={index} trace={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function AccessPolicies() {
+  const [policies, setPolicies] = useState<AccessPolicy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [effect, setEffect] = useState<PolicyEffect>('GRANT');
+  const [permissions, setPermissions] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [condition, setCondition] = useState('');
+  const [cases, setCases] = useState(toJson(EXAMPLE_CASES));
+  const [testResults, setTestResults] = useState<PolicyTestResult[] | null>(
+    null
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/policies');
+      if (!response.ok) {
+        setError(await readError(response, 'Failed to load policies'));
+        return;
+      }
+      const data = await response.json();
+      setPolicies(data.policies);
+    } catch {
+      setError('Failed to load policies');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const openEditor = (policy?: AccessPolicy) => {
+    setEditing(policy?.id ?? NEW_POLICY);
+    setName(policy?.name ?? '');
+    setDescription(policy?.description ?? '');
+    setEffect(policy?.effect ?? 'GRANT');
+    setPermissions(policy?.permissions.join(', ') ?? '');
+    setEnabled(policy?.enabled ?? true);
+    setCondition(toJson(policy?.condition ?? EXAMPLE_CONDITION));
+    setTestResults(null);
+    setError('');
+    setSuccess('');
+  };
+
+  // Policy fields shared by saving and testing; null if the JSON is invalid
+  const readPolicy = () => {
+    try {
+      return {
+        effect,
+        permissions: permissions
+          .split(',')
+          .map((p) => p.trim())
+          .filter(Boolean),
+        condition: JSON.parse(condition),
+      };
+    } catch {
+      setError('The condition is not valid JSON');
+      return null;
+    }
+  };
+
+  const handleSave = async () => {
+    setError('');
+    setSuccess('');
+    const policy = readPolicy();
+    if (!policy) return;
+
+    setIsSaving(true);
+    try {
+      const body = {
+        ...policy,
+        name,
+        description: description || null,
+        enabled,
+      };
+      const response =
+        editing === NEW_POLICY
+          ? await apiPost('/api/admin/policies', body)
+          : await apiPatch(`/api/admin/policies/${editing}`, body);
+
+      if (!response.ok) {
+        setError(await readError(response, 'Failed to save policy'));
+        return;
+      }
+
+      setSuccess(`Policy ${name} saved`);
+      setEditing(null);
+      fetchPolicies();
+    } catch {
+      setError('Failed to save policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setError('');
+    setTestResults(null);
+    const policy = readPolicy();
+    if (!policy) return;
+
+    let testCases: unknown;
+    try {
+      testCases = JSON.parse(cases);
+    } catch {
+      setError('The test cases are not valid JSON');
+      return;
+    }
+
+    setIsTesting(true);
+    try {
+      const response = await apiPost('/api/admin/policies/test', {
+        policy,
+        cases: testCases,
+      });
+
+      if (!response.ok) {
+        setError(await readError(response, 'Failed to test policy'));
+        return;
+      }
+
+      const data = await response.json();
+      setTestResults(data.results);
+    } catch {
+      setError('Failed to test policy');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleDelete = async (policy: AccessPolicy) => {
+    if (!confirm(`Delete the policy ${policy.name}?`)) return;
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await apiDelete(`/api/admin/policies/${policy.id}`);
+      if (!response.ok) {
+        setError(await readError(response, 'Failed to delete policy'));
+        return;
+      }
+      setSuccess(`Policy ${policy.name} deleted`);
+      if (editing === policy.id) setEditing(null);
+      fetchPolicies();
+    } catch {
+      setError('Failed to delete policy');
+    }
+  };
+
+  return (
+    <div className="space-y-6" data-testid="access-policies">
+      {error && (
+        <Alert variant="error">
+          <span className="whitespace-pre-line">{error}</span>
+        </Alert>
+      )}
+      {success && <Alert variant="success">{success}</Alert>}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Policies</CardTitle>
+            <CardDescription>
+              A matching DENY policy denies; otherwise a matching GRANT policy
+              grants. Policies that do not match leave the decision to the other
+              voters.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openEditor()} data-testid="policy-new">
+            <Plus className="mr-2 h-4 w-4" />
+            New Policy
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          ) : policies.length === 0 ? (
+            <p className="text-sm text-gray-500">No access policies yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 rounded-md border border-gray-200 text-sm">
+              {policies.map((policy) => (
+                <li
+                  key={policy.id}
+                  className="flex items-center justify-between gap-3 px-3 py-2"
+                >
+                  <div>
+                    <div className="flex items-center gap-2 font-medium text-gray-900">
+                      {policy.name}
+                      <Badge
+                        variant={
+                          policy.effect === 'DENY' ? 'destructive' : 'default'
+                        }
+                      >
+                        {policy.effect}
+                      </Badge>
+                      {!policy.enabled && (
+                        <Badge variant="secondary">Disabled</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {policy.permissions.join(', ')}
+                      {policy.description && ` · ${policy.description}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openEditor(policy)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDelete(policy)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <Card data-testid="policy-editor">
+          <CardHeader>
+            <CardTitle>
+              {editing === NEW_POLICY ? 'New Policy' : `Edit ${name}`}
+            </CardTitle>
+            <CardDescription>
+              Conditions compare <code>user.*</code> (including{' '}
+              <code>roles</code> and <code>organizationIds</code>),{' '}
+              <code>subject.*</code> and <code>context.*</code> (<code>ip</code>
+              , <code>time</code>, <code>hour</code>, <code>weekday</code>, in
+              UTC) attributes, and combine with <code>all</code>,{' '}
+              <code>any</code> and <code>not</code>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="members-edit-own-documents"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Effect
+                </label>
+                <select
+                  value={effect}
+                  onChange={(e) => setEffect(e.target.value as PolicyEffect)}
+                  className="h-9 w-full rounded-md border border-gray-200 bg-white px-3 text-sm"
+                >
+                  <option value="GRANT">Grant</option>
+                  <option value="DENY">Deny</option>
+                </select>
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Permissions
+                </label>
+                <Input
+                  value={permissions}
+                  onChange={(e) => setPermissions(e.target.value)}
+                  placeholder="document.edit, organization.*"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Description
+                </label>
+                <Input
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+              />
+              Enabled
+            </label>
+
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Condition
+              </label>
+              <textarea
+                value={condition}
+                onChange={(e) => setCondition(e.target.value)}
+                rows={10}
+                className={TEXTAREA_CLASS}
+                data-testid="policy-condition"
+              />
+            </div>
+
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Test cases
+              </label>
+              <textarea
+                value={cases}
+                onChange={(e) => setCases(e.target.value)}
+                rows={10}
+                className={TEXTAREA_CLASS}
+                data-testid="policy-test-cases"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Each case gives a permission, user, subject and context
+                attributes, and the expected vote: granted, denied or abstain.
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={handleTest}
+                disabled={isTesting}
+                data-testid="policy-test"
+              >
+                <FlaskConical className="mr-2 h-4 w-4" />
+                Run Tests
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={isSaving}
+                data-testid="policy-save"
+              >
+                <Save className="mr-2 h-4 w-4" />
+                Save
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+            </div>
+
+            {testResults && (
+              <ul
+                className="divide-y divide-gray-100 rounded-md border border-gray-200 text-sm"
+                data-testid="policy-test-results"
+              >
+                {testResults.map((result, index) => (
+                  <li key={index} className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      {result.passed ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4 text-red-600" />
+                      )}
+                      <span className="font-medium text-gray-900">
+                        {result.name}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {result.permission}:{' '}
+                        {result.applies
+                          ? result.vote
+                          : 'abstain (policy does not apply)'}
+                        , expected {result.expected}
+                      </span>
+                    </div>
+                    {result.condition && (
+                      <ul className="mt-1 ml-6 font-mono text-xs text-gray-600">
+                        <ConditionTree trace={result.condition} />
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { CheckCircle2, Loader2, Search, XCircle } from 'lucide-react';
+import { apiPost } from '@/lib/api-client';
+import { ROLE_NAMES } from '@/lib/constants/roles';
+import { ALL_PERMISSIONS } from '@/lib/security/permissions';
+import type { IsGrantedTrace, RoleCheck } from '@/lib/security/index';
+
+type SubjectType = 'none' | 'organization' | 'user';
+
+const SUBJECT_PLACEHOLDERS: Record<SubjectType, string> = {
+  none: '',
+  organization: 'Organization ID or slug',
+  user: 'User ID or email',
+};
+
+const VOTE_VARIANTS = {
+  granted: 'default',
+  denied: 'destructive',
+  abstain: 'secondary',
+} as const;
+
+interface AccessTraceResult {
+  user: { id: string; email: string };
+  subject: { type: SubjectType; id: string; label: string | null } | null;
+  trace: IsGrantedTrace;
+}
+
+function RoleChecks({ checks }: { checks: RoleCheck[] }) {
+  if (checks.length === 0) return null;
+
+  return (
+    <ul className="mt-2 space-y-1 text-xs text-gray-600">
+      {checks.map((check, index) => (
+        <li key={index} className="font-mono">
+          hasRole({check.role}, {check.organizationId ?? 'platform'}):{' '}
+          <span className={check.granted ? 'text-green-700' : 'text-red-700'}>
+            {String(check.granted)}
+          </span>
+          <span className="text-gray-400">
+            {' '}
+            assigned [{check.assignedRoles.join(', ')}] resolved [
+            {check.resolvedRoles.join(', ')}]
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function AccessTrace() {
+  const [user, setUser] = useState('');
+  const [attribute, setAttribute] = useState('');
+  const [subjectType, setSubjectType] = useState<SubjectType>('none');
+  const [subjectId, setSubjectId] = useState('');
+  const [result, setResult] = useState<AccessTraceResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRunning(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const response = await apiPost('/api/admin/access-trace', {
+        user,
+        attribute,
+        subject:
+          subjectType === 'none'
+            ? undefined
+            : { type: subjectType, id: subjectId },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error?.message || 'Failed to trace access');
+        return;
+      }
+
+      setResult(data);
+    } catch {
+      setError('Failed to trace access');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const trace = result?.trace;
+
+  return (
+    <div className="space-y-6" data-testid="access-trace">
+      {error && <Alert variant="error">{error}</Alert>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Check</CardTitle>
+          <CardDescription>
+            Runs the same check as the application, without changing anything
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  User
+                </label>
+                <Input
+                  value={user}
+                  onChange={(e) => setUser(e.target.value)}
+                  placeholder="User ID or email"
+                  required
+                  data-testid="access-trace-user"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Permission or role
+                </label>
+                <Input
+                  value={attribute}
+                  onChange={(e) => setAttribute(e.target.value)}
+                  placeholder="organization.edit"
+                  list="access-trace-attributes"
+                  required
+                  data-testid="access-trace-attribute"
+                />
+                <datalist id="access-trace-attributes">
+                  {[...ALL_PERMISSIONS, ...Object.values(ROLE_NAMES)].map(
+                    (value) => (
+                      <option key={value} value={value} />
+                    )
+                  )}
+                </datalist>
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Subject
+                </label>
+                <select
+                  value={subjectType}
+                  onChange={(e) =>
+                    setSubjectType(e.target.value as SubjectType)
+                  }
+                  className="h-9 w-full rounded-md border border-gray-200 bg-white px-3 text-sm"
+                >
+                  <option value="none">None</option>
+                  <option value="organization">Organization</option>
+                  <option value="user">User</option>
+                </select>
+              </div>
+              {subjectType !== 'none' && (
+                <div>
+                  <label className="mb-1 block text-sm font-medium text-gray-700">
+                    {subjectType === 'organization' ? 'Organization' : 'User'}
+                  </label>
+                  <Input
+                    value={subjectId}
+                    onChange={(e) => setSubjectId(e.target.value)}
+                    placeholder={SUBJECT_PLACEHOLDERS[subjectType]}
+                    required
+                    data-testid="access-trace-subject"
+                  />
+                </div>
+              )}
+            </div>
+
+            <Button
+              type="submit"
+              disabled={isRunning}
+              data-testid="access-trace-submit"
+            >
+              {isRunning ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Search className="mr-2 h-4 w-4" />
+              )}
+              Explain
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {result && trace && (
+        <Card data-testid="access-trace-result">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {trace.granted ? (
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+              ) : (
+                <XCircle className="h-5 w-5 text-red-600" />
+              )}
+              {trace.granted ? 'Granted' : 'Denied'}
+            </CardTitle>
+            <CardDescription>
+              <code>{trace.attribute}</code> for {result.user.email}
+              {result.subject &&
+                ` on ${result.subject.type} ${result.subject.label ?? result.subject.id}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {trace.decision ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  Strategy <strong>{trace.decision.strategy}</strong>; when
+                  every voter abstains access is{' '}
+                  {trace.decision.allowIfAllAbstain ? 'granted' : 'denied'}.
+                  {trace.decision.vetoedBy &&
+                    ` ${trace.decision.vetoedBy} vetoed the decision.`}
+                </p>
+                <ul className="divide-y divide-gray-100 rounded-md border border-gray-200 text-sm">
+                  {trace.decision.voters.map((voter) => (
+                    <li key={voter.voter} className="px-3 py-2">
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="font-medium text-gray-900">
+                          {voter.voter}
+                        </span>
+                        {voter.vote ? (
+                          <Badge variant={VOTE_VARIANTS[voter.vote]}>
+                            {voter.vote}
+                          </Badge>
+                        ) : (
+                          <span className="text-xs text-gray-500">
+                            Does not support this check
+                          </span>
+                        )}
+                      </div>
+                      <RoleChecks checks={voter.roleChecks} />
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <div className="text-sm text-gray-600">
+                Role checks are answered by the role hierarchy; no voters are
+                consulted.
+                <RoleChecks checks={trace.roleChecks} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
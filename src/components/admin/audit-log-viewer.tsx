@@ -11,6 +11,8 @@ import { Download, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
 const ACTION_LABELS: Record<string, string> = {
   AUTH_LOGIN_SUCCESS: 'Login Success',
   AUTH_LOGIN_FAILURE: 'Login Failure',
+  AUTH_LOGIN_CHALLENGED: 'Login Challenged',
+  AUTH_LOGIN_BLOCKED: 'Login Blocked',
   AUTH_LOGOUT: 'Logout',
   AUTH_REMEMBER_ME_CREATED: 'Remember Me Created',
   AUTH_REMEMBER_ME_USED: 'Remember Me Used',
@@ -20,12 +22,25 @@ const ACTION_LABELS: Record<string, string> = {
   SECURITY_ACCOUNT_UNLOCKED: 'Account Unlocked',
   SECURITY_PASSWORD_CHANGED: 'Password Changed',
   SECURITY_ALL_SESSIONS_REVOKED: 'All Sessions Revoked',
+  ACCOUNT_DELETION_SCHEDULED: 'Account Deletion Scheduled',
+  ACCOUNT_DELETION_CANCELLED: 'Account Deletion Cancelled',
+  ACCOUNT_DELETED: 'Account Deleted',
+  DATA_EXPORT_REQUESTED: 'Data Export Requested',
+  DATA_EXPORT_DOWNLOADED: 'Data Export Downloaded',
+  ROLE_REQUEST_CREATED: 'Role Requested',
+  ROLE_REQUEST_CANCELLED: 'Role Request Cancelled',
+  ROLE_REQUEST_APPROVED: 'Role Request Approved',
+  ROLE_REQUEST_DENIED: 'Role Request Denied',
+  ROLE_ASSIGNMENT_EXPIRED: 'Time-Bound Role Expired',
   AUTH_2FA_ENABLED: '2FA Enabled',
   AUTH_2FA_DISABLED: '2FA Disabled',
   AUTH_2FA_SUCCESS: '2FA Success',
   AUTH_2FA_FAILURE: '2FA Failure',
   AUTH_2FA_BACKUP_USED: '2FA Backup Used',
   ADMIN_2FA_RESET: '2FA Reset by Admin',
+  ADMIN_PASSWORD_CHANGE_REQUIRED: 'Password Change Required by Admin',
+  ADMIN_USER_IMPORTED: 'User Imported',
+  ADMIN_USER_STATUS_CHANGED: 'User Status Changed',
   ADMIN_IMPERSONATION_START: 'Impersonation Started',
   ADMIN_IMPERSONATION_END: 'Impersonation Ended',
   ADMIN_IMPERSONATION_EXPIRED: 'Impersonation Expired',
@@ -40,15 +55,23 @@ const ACTION_COLORS: Record<string, string> = {
   // Red - failure/security concern
   AUTH_LOGIN_FAILURE: 'bg-red-100 text-red-800',
   AUTH_2FA_FAILURE: 'bg-red-100 text-red-800',
+  AUTH_LOGIN_BLOCKED: 'bg-red-100 text-red-800',
   SECURITY_ACCOUNT_LOCKED: 'bg-red-100 text-red-800',
   AUTH_REMEMBER_ME_THEFT_DETECTED: 'bg-red-100 text-red-800',
+  ACCOUNT_DELETED: 'bg-red-100 text-red-800',
   // Amber - warning/notable
+  AUTH_LOGIN_CHALLENGED: 'bg-amber-100 text-amber-800',
   SECURITY_ACCOUNT_UNLOCKED: 'bg-amber-100 text-amber-800',
+  ACCOUNT_DELETION_SCHEDULED: 'bg-amber-100 text-amber-800',
+  ACCOUNT_DELETION_CANCELLED: 'bg-amber-100 text-amber-800',
   AUTH_2FA_DISABLED: 'bg-amber-100 text-amber-800',
   ADMIN_IMPERSONATION_START: 'bg-amber-100 text-amber-800',
   ADMIN_IMPERSONATION_END: 'bg-amber-100 text-amber-800',
   ADMIN_IMPERSONATION_EXPIRED: 'bg-amber-100 text-amber-800',
   ADMIN_2FA_RESET: 'bg-amber-100 text-amber-800',
+  ADMIN_PASSWORD_CHANGE_REQUIRED: 'bg-amber-100 text-amber-800',
+  ROLE_REQUEST_CREATED: 'bg-amber-100 text-amber-800',
+  ROLE_REQUEST_APPROVED: 'bg-amber-100 text-amber-800',
   // Blue - info
   AUTH_LOGOUT: 'bg-blue-100 text-blue-800',
   AUTH_REMEMBER_ME_CREATED: 'bg-blue-100 text-blue-800',
@@ -56,7 +79,14 @@ const ACTION_COLORS: Record<string, string> = {
   AUTH_REMEMBER_ME_REVOKED: 'bg-blue-100 text-blue-800',
   SECURITY_PASSWORD_CHANGED: 'bg-blue-100 text-blue-800',
   SECURITY_ALL_SESSIONS_REVOKED: 'bg-blue-100 text-blue-800',
+  DATA_EXPORT_REQUESTED: 'bg-blue-100 text-blue-800',
+  DATA_EXPORT_DOWNLOADED: 'bg-blue-100 text-blue-800',
+  ROLE_REQUEST_CANCELLED: 'bg-blue-100 text-blue-800',
+  ROLE_REQUEST_DENIED: 'bg-blue-100 text-blue-800',
+  ROLE_ASSIGNMENT_EXPIRED: 'bg-blue-100 text-blue-800',
   AUTH_2FA_BACKUP_USED: 'bg-blue-100 text-blue-800',
+  ADMIN_USER_IMPORTED: 'bg-blue-100 text-blue-800',
+  ADMIN_USER_STATUS_CHANGED: 'bg-amber-100 text-amber-800',
 };
 
 // Actions grouped by category for dropdown
@@ -76,19 +106,119 @@ const ACTIONS_BY_CATEGORY = {
     'AUTH_2FA_BACKUP_USED',
   ],
   security: [
+    'AUTH_LOGIN_CHALLENGED',
+    'AUTH_LOGIN_BLOCKED',
     'SECURITY_ACCOUNT_LOCKED',
     'SECURITY_ACCOUNT_UNLOCKED',
     'SECURITY_PASSWORD_CHANGED',
     'SECURITY_ALL_SESSIONS_REVOKED',
+    'ACCOUNT_DELETION_SCHEDULED',
+    'ACCOUNT_DELETION_CANCELLED',
+    'ACCOUNT_DELETED',
+    'DATA_EXPORT_REQUESTED',
+    'DATA_EXPORT_DOWNLOADED',
+    'ROLE_REQUEST_CREATED',
+    'ROLE_REQUEST_CANCELLED',
+    'ROLE_ASSIGNMENT_EXPIRED',
   ],
   admin: [
     'ADMIN_2FA_RESET',
+    'ADMIN_PASSWORD_CHANGE_REQUIRED',
+    'ADMIN_USER_IMPORTED',
+    'ADMIN_USER_STATUS_CHANGED',
     'ADMIN_IMPERSONATION_START',
     'ADMIN_IMPERSONATION_END',
     'ADMIN_IMPERSONATION_EXPIRED',
+    'ROLE_REQUEST_APPROVED',
+    'ROLE_REQUEST_DENIED',
   ],
 };
 
+// Login risk decision colors
+const RISK_DECISION_COLORS: Record<string, string> = {
+  allow: 'bg-gray-100 text-gray-700',
+  challenge: 'bg-amber-100 text-amber-800',
+  block: 'bg-red-100 text-red-800',
+};
+
+interface LoginRisk {
+  score: number;
+  decision: string;
+  signals: { name: string; score: number; detail?: Record<string, unknown> }[];
+}
+
+// Login events carry the risk assessment in metadata.risk
+function getLoginRisk(
+  metadata: Record<string, unknown> | null
+): LoginRisk | null {
+  const risk = metadata?.risk as LoginRisk | undefined;
+  return risk && typeof risk.score === 'number' ? risk : null;
+}
+
+function formatSignalName(name: string): string {
+  return name.replace(/_/g, ' ');
+}
+
+function formatSignalDetail(detail?: Record<string, unknown>): string {
+  if (!detail) return '';
+  return Object.entries(detail)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ');
+}
+
+function LoginRiskBadge({
+  metadata,
+}: {
+  metadata: Record<string, unknown> | null;
+}) {
+  const risk = getLoginRisk(metadata);
+  if (!risk) return null;
+
+  return (
+    <span
+      className={`ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
+        RISK_DECISION_COLORS[risk.decision] || 'bg-gray-100 text-gray-700'
+      }`}
+      data-testid="audit-log-risk"
+    >
+      Risk {risk.score}
+    </span>
+  );
+}
+
+function LoginRiskSignals({
+  metadata,
+}: {
+  metadata: Record<string, unknown> | null;
+}) {
+  const risk = getLoginRisk(metadata);
+  if (!risk) return null;
+
+  return (
+    <div className="mb-3 text-xs" data-testid="audit-log-risk-signals">
+      <p className="mb-1 font-medium text-gray-700">
+        Risk score {risk.score} ({risk.decision})
+      </p>
+      {risk.signals.length === 0 ? (
+        <p className="text-gray-500">No risk signals</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {risk.signals.map((signal) => (
+            <li key={signal.name} className="text-gray-600">
+              <span className="font-medium capitalize">
+                {formatSignalName(signal.name)}
+              </span>{' '}
+              +{signal.score}
+              {signal.detail && ` — ${formatSignalDetail(signal.detail)}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 interface AuditLog {
   id: string;
   userId: string | null;
@@ -524,6 +654,7 @@ export function AuditLogViewer() {
                         >
                           {ACTION_LABELS[log.action] || log.action}
                         </span>
+                        <LoginRiskBadge metadata={log.metadata} />
                       </td>
                       <td
                         className="px-4 py-3 capitalize"
@@ -559,6 +690,7 @@ export function AuditLogViewer() {
                         data-testid="audit-log-metadata-row"
                       >
                         <td colSpan={6} className="px-4 py-3">
+                          <LoginRiskSignals metadata={log.metadata} />
                           <pre
                             className="overflow-x-auto rounded bg-gray-100 p-3 text-xs"
                             data-testid="audit-log-metadata-content"
@@ -47,6 +47,10 @@ const TYPE_LABELS: Record<string, string> = {
   email_changed: 'Email Changed',
   '2fa_enabled': '2FA Enabled',
   '2fa_disabled': '2FA Disabled',
+  login_code: 'Sign-In Code',
+  account_deletion: 'Account Deletion',
+  data_export: 'Data Export',
+  role_request: 'Access Request',
 };
 
 interface EmailLog {
@@ -485,6 +489,10 @@ export function EmailLogViewer() {
                 <option value="email_changed">Email Changed</option>
                 <option value="2fa_enabled">2FA Enabled</option>
                 <option value="2fa_disabled">2FA Disabled</option>
+                <option value="login_code">Sign-In Code</option>
+                <option value="account_deletion">Account Deletion</option>
+                <option value="data_export">Data Export</option>
+                <option value="role_request">Access Request</option>
               </select>
             </div>
 
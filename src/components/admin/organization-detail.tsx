@@ -37,6 +37,7 @@ interface Member {
     firstName?: string;
     lastName?: string;
     username?: string;
+    twoFactorEnabled: boolean;
   };
 }
 
@@ -45,6 +46,11 @@ interface Organization {
   name: string;
   slug: string;
   createdAt: string;
+  twoFactor: {
+    required: boolean;
+    members: number;
+    enrolled: number;
+  };
   members: Member[];
 }
 
@@ -279,7 +285,7 @@ export function OrganizationDetail({
           <CardDescription>Organization details and management</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
             <div>
               <div className="text-sm font-medium text-gray-500">Slug</div>
               <div className="text-gray-900">{organization.slug}</div>
@@ -303,6 +309,18 @@ export function OrganizationDetail({
                 {currentOwner ? getMemberName(currentOwner) : 'None'}
               </div>
             </div>
+            <div data-testid="organization-detail-2fa">
+              <div className="text-sm font-medium text-gray-500">
+                2FA enrolled
+              </div>
+              <div className="text-gray-900">
+                {organization.twoFactor.enrolled} of{' '}
+                {organization.twoFactor.members}
+                {organization.twoFactor.required && (
+                  <span className="ml-2 text-xs text-green-700">Required</span>
+                )}
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -352,6 +370,9 @@ export function OrganizationDetail({
                         <div className="text-sm text-gray-500">
                           {member.user.email}
                         </div>
+                        {!member.user.twoFactorEnabled && (
+                          <div className="text-xs text-amber-600">No 2FA</div>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -12,6 +12,7 @@ import {
   Building2,
   Users,
   ArrowUpDown,
+  ShieldCheck,
 } from 'lucide-react';
 
 interface Organization {
@@ -26,6 +27,11 @@ interface Organization {
     firstName?: string;
     lastName?: string;
   } | null;
+  twoFactor: {
+    required: boolean;
+    members: number;
+    enrolled: number;
+  };
 }
 
 interface Pagination {
@@ -189,6 +195,9 @@ export function OrganizationList() {
                     <ArrowUpDown size={14} />
                   </div>
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium tracking-wider text-gray-500 uppercase">
+                  2FA
+                </th>
                 <th
                   className="cursor-pointer px-6 py-3 text-left text-xs font-medium tracking-wider text-gray-500 uppercase hover:bg-gray-100"
                   onClick={() => handleSort('createdAt')}
@@ -220,12 +229,15 @@ export function OrganizationList() {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="h-4 animate-pulse rounded bg-gray-200" />
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="h-4 animate-pulse rounded bg-gray-200" />
+                    </td>
                   </tr>
                 ))
               ) : organizations.length === 0 ? (
                 <tr data-testid="organization-list-empty-state">
                   <td
-                    colSpan={5}
+                    colSpan={6}
                     className="px-6 py-12 text-center text-gray-500"
                   >
                     <Building2 className="mx-auto mb-2 h-8 w-8 text-gray-400" />
@@ -262,6 +274,22 @@ export function OrganizationList() {
                         {org.memberCount}
                       </div>
                     </td>
+                    <td
+                      className="px-6 py-4 whitespace-nowrap"
+                      data-testid="organization-list-2fa"
+                    >
+                      <div className="flex items-center text-sm text-gray-500">
+                        <ShieldCheck
+                          className={`mr-1 h-4 w-4 ${org.twoFactor.required ? 'text-green-600' : ''}`}
+                        />
+                        {org.twoFactor.enrolled}/{org.twoFactor.members}
+                        {org.twoFactor.required && (
+                          <span className="ml-2 text-xs text-green-700">
+                            Required
+                          </span>
+                        )}
+                      </div>
+                    </td>
                     <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-500">
                       {formatDate(org.createdAt)}
                     </td>
@@ -0,0 +1,194 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { apiPost } from '@/lib/api-client';
+
+interface PendingDeletion {
+  id: string;
+  email: string;
+  username: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  statusReason: string | null;
+  statusExpiresAt: string | null;
+}
+
+interface PendingDeletionsResponse {
+  gracePeriodDays: number;
+  users: PendingDeletion[];
+}
+
+export function PendingDeletions() {
+  const [data, setData] = useState<PendingDeletionsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPurging, setIsPurging] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchDeletions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/users/deletions');
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Failed to fetch deletions');
+      }
+      setData(body);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to fetch deletions'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDeletions();
+  }, [fetchDeletions]);
+
+  const handleRestore = async (user: PendingDeletion) => {
+    if (!confirm(`Restore ${user.email} and cancel the deletion?`)) return;
+    setError('');
+    setSuccess('');
+
+    const response = await apiPost(`/api/admin/users/${user.id}/status`, {
+      status: 'ACTIVE',
+      reason: 'Deletion cancelled by an administrator',
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      setError(body.error?.message || 'Failed to restore account');
+      return;
+    }
+    setSuccess(`${user.email} has been restored`);
+    fetchDeletions();
+  };
+
+  const handlePurge = async () => {
+    if (!confirm('Permanently delete every account whose grace period ended?'))
+      return;
+    setError('');
+    setSuccess('');
+    setIsPurging(true);
+
+    try {
+      const response = await apiPost('/api/admin/users/deletions');
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Purge failed');
+      }
+
+      const { purged, blocked } = body.result;
+      setSuccess(
+        blocked > 0
+          ? `Deleted ${purged} accounts. ${blocked} are waiting for their organizations to get another administrator.`
+          : `Deleted ${purged} accounts`
+      );
+      fetchDeletions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Purge failed');
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-6" data-testid="pending-deletions">
+      {error && <Alert variant="error">{error}</Alert>}
+      {success && <Alert variant="success">{success}</Alert>}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>
+            Pending Deletions{' '}
+            {data && (
+              <span className="text-sm font-normal text-gray-500">
+                ({data.gracePeriodDays}-day grace period)
+              </span>
+            )}
+          </CardTitle>
+          <Button
+            variant="destructive"
+            onClick={handlePurge}
+            disabled={isPurging}
+            data-testid="purge-due-deletions"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Purge Due Accounts
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading && !data ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : !data || data.users.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No accounts are scheduled for deletion.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="px-3 py-2 font-medium">User</th>
+                    <th className="px-3 py-2 font-medium">Reason</th>
+                    <th className="px-3 py-2 font-medium">Deletes On</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {data.users.map((user) => {
+                    const deletesAt = user.statusExpiresAt
+                      ? new Date(user.statusExpiresAt)
+                      : null;
+                    return (
+                      <tr key={user.id} data-testid="pending-deletion-row">
+                        <td className="px-3 py-2">
+                          <div className="font-medium text-gray-900">
+                            {[user.firstName, user.lastName]
+                              .filter(Boolean)
+                              .join(' ') ||
+                              user.username ||
+                              user.email}
+                          </div>
+                          <div className="text-gray-500">{user.email}</div>
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {user.statusReason ?? '—'}
+                        </td>
+                        <td className="px-3 py-2">
+                          {deletesAt ? deletesAt.toLocaleString() : '—'}{' '}
+                          {deletesAt && deletesAt <= now && (
+                            <Badge variant="destructive">Due</Badge>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRestore(user)}
+                          >
+                            <RotateCcw className="mr-1 h-4 w-4" />
+                            Restore
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
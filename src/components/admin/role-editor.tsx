@@ -20,8 +20,14 @@ import {
   AlertTriangle,
   CheckCircle2,
   XCircle,
+  Check,
 } from 'lucide-react';
 import { isPlatformRole } from '@/lib/security';
+import {
+  ALL_PERMISSIONS,
+  ORGANIZATION_PERMISSIONS,
+  USER_PERMISSIONS,
+} from '@/lib/security/permissions';
 
 /**
  * Validation styling constants for form inputs
@@ -35,6 +41,14 @@ const VALIDATION_CLASSES = {
   invalidText: 'text-red-500',
 } as const;
 
+/**
+ * Rows of the permission matrix
+ */
+const PERMISSION_GROUPS = [
+  { label: 'Organization', permissions: ORGANIZATION_PERMISSIONS },
+  { label: 'Users', permissions: USER_PERMISSIONS },
+] as const;
+
 interface Role {
   id: string;
   name: string;
@@ -42,6 +56,7 @@ interface Role {
   parentId: string | null;
   parentName: string | null;
   isSystem: boolean;
+  permissions?: string[];
   userCount?: number;
   childRoles?: { id: string; name: string }[];
 }
@@ -77,6 +92,32 @@ export function isDescendantOf(
   return false;
 }
 
+/**
+ * Get the ancestors of a role starting at its parent, nearest first
+ *
+ * A role holds every permission granted to its ancestors.
+ */
+export function getAncestorRoles(
+  parentId: string | null,
+  roles: Role[]
+): Role[] {
+  const roleMap = new Map(roles.map((r) => [r.id, r]));
+  const ancestors: Role[] = [];
+  const visited = new Set<string>();
+  let currentId = parentId;
+
+  while (currentId && !visited.has(currentId)) {
+    const role = roleMap.get(currentId);
+    if (!role) break;
+
+    ancestors.push(role);
+    visited.add(currentId);
+    currentId = role.parentId;
+  }
+
+  return ancestors;
+}
+
 /**
  * Validate role name format using the runtime type guard
  * Pattern: ROLE_[A-Z][A-Z0-9_]+ (minimum 2 characters after ROLE_ prefix)
@@ -103,6 +144,7 @@ export function RoleEditor({ roleId }: RoleEditorProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [parentId, setParentId] = useState<string>('');
+  const [permissions, setPermissions] = useState<string[]>([]);
 
   // UI state
   const [isLoading, setIsLoading] = useState(true);
@@ -123,13 +165,15 @@ export function RoleEditor({ roleId }: RoleEditorProps) {
   const [initialValues, setInitialValues] = useState({
     description: '',
     parentId: '',
+    permissions: [] as string[],
   });
 
-  // Check if form has unsaved changes
+  // Check if form has unsaved changes (permissions are kept in registry order)
   const isDirty =
     (!isEditMode && name.trim() !== '') ||
     description !== initialValues.description ||
-    parentId !== initialValues.parentId;
+    parentId !== initialValues.parentId ||
+    permissions.join() !== initialValues.permissions.join();
 
   // Navigate back with unsaved changes confirmation
   const handleNavigateBack = useCallback(() => {
@@ -168,9 +212,14 @@ export function RoleEditor({ roleId }: RoleEditorProps) {
         setName(roleData.role.name);
         setDescription(roleData.role.description || '');
         setParentId(roleData.role.parentId || '');
+        const granted = ALL_PERMISSIONS.filter((p) =>
+          roleData.role.permissions.includes(p)
+        );
+        setPermissions(granted);
         setInitialValues({
           description: roleData.role.description || '',
           parentId: roleData.role.parentId || '',
+          permissions: granted,
         });
       }
     } catch {
@@ -214,6 +263,17 @@ export function RoleEditor({ roleId }: RoleEditorProps) {
     return true;
   });
 
+  // Roles this role inherits permissions from (follows the selected parent)
+  const ancestors = getAncestorRoles(parentId || null, allRoles);
+
+  const togglePermission = (permission: string) => {
+    setPermissions((prev) =>
+      ALL_PERMISSIONS.filter((p) =>
+        p === permission ? !prev.includes(p) : prev.includes(p)
+      )
+    );
+  };
+
   // Validate form
   const validateForm = (): boolean => {
     const errors: Record<string, string> = {};
@@ -249,6 +309,7 @@ export function RoleEditor({ roleId }: RoleEditorProps) {
       const body: Record<string, unknown> = {
         description: description || null,
         parentId: parentId || null,
+        permissions,
       };
 
       if (!isEditMode) {
@@ -409,7 +470,7 @@ export function RoleEditor({ roleId }: RoleEditorProps) {
           <CardDescription data-testid="role-editor-card-description">
             {isSystem
               ? 'System roles have limited editing capabilities'
-              : 'Configure the role name, description, and hierarchy'}
+              : 'Configure the role name, description, hierarchy, and permissions'}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -579,6 +640,80 @@ export function RoleEditor({ roleId }: RoleEditorProps) {
             )}
           </div>
 
+          {/* Permission matrix */}
+          <div data-testid="role-editor-permissions">
+            <h3 className="mb-1 text-sm font-medium text-gray-700">
+              Permissions
+            </h3>
+            <p className="mb-3 text-xs text-gray-500">
+              Users holding this role, or a role that inherits from it, get the
+              checked permissions.
+              {isSystem &&
+                ' Changing the grants of a system role affects every user holding it.'}
+            </p>
+            <div className="overflow-x-auto rounded-md border">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">
+                      Permission
+                    </th>
+                    <th className="px-3 py-2 text-center font-medium text-gray-700">
+                      {isEditMode ? role?.name : name || 'New role'}
+                    </th>
+                    {ancestors.map((ancestor) => (
+                      <th
+                        key={ancestor.id}
+                        className="px-3 py-2 text-center font-normal text-gray-500"
+                        title="Inherited"
+                      >
+                        {ancestor.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                {PERMISSION_GROUPS.map((group) => (
+                  <tbody key={group.label} className="divide-y divide-gray-100">
+                    <tr className="bg-gray-50">
+                      <th
+                        colSpan={ancestors.length + 2}
+                        className="px-3 py-1 text-left text-xs font-semibold tracking-wide text-gray-500 uppercase"
+                      >
+                        {group.label}
+                      </th>
+                    </tr>
+                    {group.permissions.map((permission) => (
+                      <tr key={permission}>
+                        <td className="px-3 py-2 font-mono text-xs text-gray-700">
+                          {permission}
+                        </td>
+                        <td className="px-3 py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={permissions.includes(permission)}
+                            onChange={() => togglePermission(permission)}
+                            aria-label={`Grant ${permission}`}
+                            className="h-4 w-4 rounded border-gray-300"
+                          />
+                        </td>
+                        {ancestors.map((ancestor) => (
+                          <td key={ancestor.id} className="px-3 py-2">
+                            {ancestor.permissions?.includes(permission) && (
+                              <Check
+                                className="mx-auto h-4 w-4 text-gray-400"
+                                aria-label={`Inherited from ${ancestor.name}`}
+                              />
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                ))}
+              </table>
+            </div>
+          </div>
+
           {/* Actions */}
           <div
             className="flex items-center justify-between border-t pt-6"
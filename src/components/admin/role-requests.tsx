@@ -0,0 +1,275 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Check, Clock, X } from 'lucide-react';
+import { apiPatch, apiPost } from '@/lib/api-client';
+
+type RoleRequestStatus =
+  | 'PENDING'
+  | 'APPROVED'
+  | 'DENIED'
+  | 'CANCELLED'
+  | 'EXPIRED';
+
+interface RoleRequest {
+  id: string;
+  justification: string;
+  durationMinutes: number;
+  status: RoleRequestStatus;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  role: { name: string };
+  organization: { name: string } | null;
+  user: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+  };
+  reviewedBy: { email: string } | null;
+}
+
+const STATUS_FILTERS: { value: RoleRequestStatus | ''; label: string }[] = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'DENIED', label: 'Denied' },
+  { value: 'EXPIRED', label: 'Expired' },
+  { value: '', label: 'All' },
+];
+
+const STATUS_BADGES: Record<
+  RoleRequestStatus,
+  { label: string; variant: 'default' | 'secondary' | 'destructive' }
+> = {
+  PENDING: { label: 'Pending', variant: 'secondary' },
+  APPROVED: { label: 'Approved', variant: 'default' },
+  DENIED: { label: 'Denied', variant: 'destructive' },
+  CANCELLED: { label: 'Cancelled', variant: 'secondary' },
+  EXPIRED: { label: 'Expired', variant: 'secondary' },
+};
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round((minutes / 60) * 10) / 10;
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+interface RoleRequestsProps {
+  /** Admins cannot review their own requests */
+  currentUserId: string;
+}
+
+export function RoleRequests({ currentUserId }: RoleRequestsProps) {
+  const [status, setStatus] = useState<RoleRequestStatus | ''>('PENDING');
+  const [requests, setRequests] = useState<RoleRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchRequests = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const query = status ? `?status=${status}` : '';
+      const response = await fetch(`/api/admin/role-requests${query}`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Failed to fetch requests');
+      }
+      setRequests(body.requests);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch requests');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleReview = async (
+    request: RoleRequest,
+    decision: 'approve' | 'deny'
+  ) => {
+    const note = prompt(
+      decision === 'approve'
+        ? `Approve ${request.role.name} for ${request.user.email}? Add a note (optional):`
+        : `Deny ${request.role.name} for ${request.user.email}? Add a reason (optional):`
+    );
+    if (note === null) return;
+    setError('');
+    setSuccess('');
+
+    const response = await apiPatch(`/api/admin/role-requests/${request.id}`, {
+      decision,
+      note: note || undefined,
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      setError(body.error?.message || 'Failed to review the request');
+      return;
+    }
+    setSuccess(
+      decision === 'approve'
+        ? `${request.user.email} has ${request.role.name} until ${new Date(body.request.expiresAt).toLocaleString()}`
+        : `Request from ${request.user.email} denied`
+    );
+    fetchRequests();
+  };
+
+  const handleRevokeExpired = async () => {
+    setError('');
+    setSuccess('');
+    setIsRevoking(true);
+
+    try {
+      const response = await apiPost('/api/admin/role-requests');
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Revocation failed');
+      }
+      setSuccess(`Revoked ${body.result.revoked} expired role assignments`);
+      fetchRequests();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Revocation failed');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6" data-testid="role-requests">
+      {error && <Alert variant="error">{error}</Alert>}
+      {success && <Alert variant="success">{success}</Alert>}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Role Requests</CardTitle>
+          <div className="flex items-center gap-2">
+            <select
+              value={status}
+              onChange={(e) =>
+                setStatus(e.target.value as RoleRequestStatus | '')
+              }
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+              aria-label="Status"
+            >
+              {STATUS_FILTERS.map((filter) => (
+                <option key={filter.label} value={filter.value}>
+                  {filter.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              onClick={handleRevokeExpired}
+              disabled={isRevoking}
+            >
+              <Clock className="mr-2 h-4 w-4" />
+              Revoke Expired Roles
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading && requests.length === 0 ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : requests.length === 0 ? (
+            <p className="text-sm text-gray-500">No requests.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="px-3 py-2 font-medium">User</th>
+                    <th className="px-3 py-2 font-medium">Role</th>
+                    <th className="px-3 py-2 font-medium">Justification</th>
+                    <th className="px-3 py-2 font-medium">Requested</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {requests.map((request) => (
+                    <tr key={request.id} data-testid="role-request-row">
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">
+                          {[request.user.firstName, request.user.lastName]
+                            .filter(Boolean)
+                            .join(' ') || request.user.email}
+                        </div>
+                        <div className="text-gray-500">
+                          {request.user.email}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="font-mono text-gray-900">
+                          {request.role.name}
+                        </div>
+                        <div className="text-gray-500">
+                          {request.organization?.name ?? 'Platform-wide'},{' '}
+                          {formatDuration(request.durationMinutes)}
+                        </div>
+                      </td>
+                      <td className="max-w-md px-3 py-2 whitespace-pre-wrap text-gray-600">
+                        {request.justification}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {new Date(request.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Badge variant={STATUS_BADGES[request.status].variant}>
+                          {STATUS_BADGES[request.status].label}
+                        </Badge>
+                        {request.reviewedBy && (
+                          <div className="mt-1 text-xs text-gray-500">
+                            by {request.reviewedBy.email}
+                            {request.reviewNote && `: ${request.reviewNote}`}
+                          </div>
+                        )}
+                        {request.status === 'APPROVED' && request.expiresAt && (
+                          <div className="text-xs text-gray-500">
+                            until {new Date(request.expiresAt).toLocaleString()}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {request.status === 'PENDING' &&
+                          request.user.id !== currentUserId && (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                size="sm"
+                                onClick={() => handleReview(request, 'approve')}
+                              >
+                                <Check className="mr-1 h-4 w-4" />
+                                Approve
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleReview(request, 'deny')}
+                              >
+                                <X className="mr-1 h-4 w-4" />
+                                Deny
+                              </Button>
+                            </div>
+                          )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
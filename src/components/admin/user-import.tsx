@@ -0,0 +1,329 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FileCheck, Upload } from 'lucide-react';
+import { apiPost } from '@/lib/api-client';
+
+type RowStatus = 'valid' | 'created' | 'invalid' | 'failed';
+
+interface RowResult {
+  row: number;
+  email: string | null;
+  status: RowStatus;
+  errors: string[];
+}
+
+interface ImportResponse {
+  total: number;
+  batchId?: string;
+  nextOffset?: number | null;
+  rows: RowResult[];
+}
+
+type WelcomeEmail = 'invite' | 'verification' | 'none';
+
+const STATUS_BADGES: Record<
+  RowStatus,
+  { label: string; variant: 'default' | 'secondary' | 'destructive' }
+> = {
+  valid: { label: 'Valid', variant: 'default' },
+  created: { label: 'Created', variant: 'secondary' },
+  invalid: { label: 'Invalid', variant: 'destructive' },
+  failed: { label: 'Failed', variant: 'destructive' },
+};
+
+const WELCOME_EMAIL_LABELS: Record<WelcomeEmail, string> = {
+  invite: 'Invite to set a password',
+  verification: 'Email verification link',
+  none: 'No email',
+};
+
+export function UserImport() {
+  const [file, setFile] = useState<File | null>(null);
+  const [organization, setOrganization] = useState('');
+  const [role, setRole] = useState('');
+  const [welcomeEmail, setWelcomeEmail] = useState<WelcomeEmail>('invite');
+  const [emailVerified, setEmailVerified] = useState(false);
+
+  const [rows, setRows] = useState<RowResult[]>([]);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const readRequest = async (selected: File) => ({
+    format: selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv',
+    content: await selected.text(),
+    organization: organization.trim() || undefined,
+    role: role.trim() || undefined,
+    welcomeEmail,
+    emailVerified,
+  });
+
+  const postBatch = async (body: object): Promise<ImportResponse> => {
+    const response = await apiPost('/api/admin/users/import', body);
+    const data = await response.json();
+
+    if (!response.ok) {
+      const details = data.error?.details as
+        | Record<string, string[]>
+        | undefined;
+      const detail = details && Object.values(details).flat()[0];
+      throw new Error(
+        [data.error?.message || 'Import failed', detail]
+          .filter(Boolean)
+          .join(': ')
+      );
+    }
+    return data;
+  };
+
+  const reset = () => {
+    setRows([]);
+    setProgress(null);
+    setBatchId(null);
+    setError('');
+    setSuccess('');
+  };
+
+  const handleDryRun = async () => {
+    if (!file) return;
+    reset();
+    setIsRunning(true);
+
+    try {
+      const data = await postBatch({
+        ...(await readRequest(file)),
+        dryRun: true,
+      });
+      setRows(data.rows);
+
+      const invalid = data.rows.filter((r) => r.status === 'invalid').length;
+      setSuccess(
+        `${data.total - invalid} of ${data.total} users can be imported`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Validation failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    if (!confirm(`Import the users in ${file.name}?`)) return;
+    reset();
+    setIsRunning(true);
+
+    const request = await readRequest(file);
+    const results: RowResult[] = [];
+    let offset: number | null = 0;
+    let currentBatchId: string | undefined;
+
+    try {
+      // Each request creates one batch; keep going until the file is done
+      while (offset !== null) {
+        const data: ImportResponse = await postBatch({
+          ...request,
+          dryRun: false,
+          offset,
+          batchId: currentBatchId,
+        });
+        currentBatchId = data.batchId;
+        setBatchId(data.batchId ?? null);
+
+        results.push(...data.rows);
+        setRows([...results]);
+        setProgress({ done: results.length, total: data.total });
+        offset = data.nextOffset ?? null;
+      }
+
+      const created = results.filter((r) => r.status === 'created').length;
+      setSuccess(`Imported ${created} of ${results.length} users`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const problemRows = rows.filter((r) => r.errors.length > 0);
+
+  return (
+    <div className="space-y-6" data-testid="user-import">
+      {error && <Alert variant="error">{error}</Alert>}
+      {success && <Alert variant="success">{success}</Alert>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import File</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            CSV files need a header row. Columns: <code>email</code> (required),{' '}
+            <code>username</code>, <code>firstName</code>, <code>lastName</code>
+            , <code>passwordHash</code>, <code>organization</code> (slug) and{' '}
+            <code>role</code>. JSON files hold an array of objects with the same
+            fields.
+          </p>
+
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              reset();
+            }}
+            className="block text-sm"
+            data-testid="user-import-file"
+          />
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Default organization
+              </label>
+              <Input
+                value={organization}
+                onChange={(e) => setOrganization(e.target.value)}
+                placeholder="Organization slug"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Default role
+              </label>
+              <Input
+                value={role}
+                onChange={(e) => setRole(e.target.value)}
+                placeholder="ROLE_USER"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Welcome email
+              </label>
+              <select
+                value={welcomeEmail}
+                onChange={(e) => {
+                  const value = e.target.value as WelcomeEmail;
+                  setWelcomeEmail(value);
+                  if (value === 'verification') setEmailVerified(false);
+                }}
+                className="h-9 w-full rounded-md border border-gray-200 bg-white px-3 text-sm"
+              >
+                {Object.entries(WELCOME_EMAIL_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 self-end text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={emailVerified}
+                disabled={welcomeEmail === 'verification'}
+                onChange={(e) => setEmailVerified(e.target.checked)}
+              />
+              Mark email addresses as verified
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={handleDryRun}
+              disabled={!file || isRunning}
+              data-testid="user-import-dry-run"
+            >
+              <FileCheck className="mr-2 h-4 w-4" />
+              Dry Run
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={!file || isRunning}
+              data-testid="user-import-submit"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          </div>
+
+          {progress && (
+            <div>
+              <div className="mb-1 flex justify-between text-sm text-gray-600">
+                <span>
+                  {progress.done} of {progress.total} rows processed
+                </span>
+                {batchId && <span className="font-mono">{batchId}</span>}
+              </div>
+              <div className="h-2 rounded-full bg-gray-200">
+                <div
+                  className="h-2 rounded-full bg-blue-600 transition-all"
+                  style={{
+                    width: `${Math.round((progress.done / progress.total) * 100)}%`,
+                  }}
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {rows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Report{' '}
+              {problemRows.length > 0 && (
+                <span className="text-sm font-normal text-gray-500">
+                  ({problemRows.length} rows with problems)
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="px-3 py-2 font-medium">Row</th>
+                    <th className="px-3 py-2 font-medium">Email</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                    <th className="px-3 py-2 font-medium">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.map((row) => (
+                    <tr key={row.row} data-testid="user-import-row">
+                      <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                      <td className="px-3 py-2">{row.email ?? '—'}</td>
+                      <td className="px-3 py-2">
+                        <Badge variant={STATUS_BADGES[row.status].variant}>
+                          {STATUS_BADGES[row.status].label}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-2 text-red-700">
+                        {row.errors.join('; ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
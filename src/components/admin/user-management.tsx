@@ -18,10 +18,12 @@ import {
   CheckSquare,
   Loader2,
   Shield,
+  KeyRound,
 } from 'lucide-react';
 import { UserRoleSelect } from './user-role-select';
-import { apiPatch, apiDelete, apiPost } from '@/lib/api-client';
+import { apiDelete, apiPost } from '@/lib/api-client';
 import { hasMinimumRole, displayRole, ROLES } from '@/lib/security/client';
+import type { UserStatus } from '@prisma/client';
 
 interface User {
   id: string;
@@ -31,6 +33,9 @@ interface User {
   lastName?: string;
   role: string;
   isActive: boolean;
+  status: UserStatus;
+  statusReason?: string | null;
+  statusExpiresAt?: string | null;
   emailVerified: boolean;
   lastLoginAt?: string;
   createdAt: string;
@@ -55,6 +60,20 @@ interface UserListResponse {
   };
 }
 
+const STATUS_BADGES: Record<
+  UserStatus,
+  {
+    label: string;
+    variant: 'default' | 'secondary' | 'destructive' | 'outline';
+  }
+> = {
+  INVITED: { label: 'Invited', variant: 'secondary' },
+  ACTIVE: { label: 'Active', variant: 'default' },
+  SUSPENDED: { label: 'Suspended', variant: 'destructive' },
+  PENDING_DELETION: { label: 'Pending Deletion', variant: 'destructive' },
+  DELETED: { label: 'Deleted', variant: 'outline' },
+};
+
 export function UserManagement({ currentUser }: UserManagementProps) {
   const [users, setUsers] = useState<User[]>([]);
   const [pagination, setPagination] = useState({
@@ -75,6 +94,9 @@ export function UserManagement({ currentUser }: UserManagementProps) {
   const [isBulkActionLoading, setIsBulkActionLoading] = useState(false);
   const [togglingStatusId, setTogglingStatusId] = useState<string | null>(null);
   const [deletingUserId, setDeletingUserId] = useState<string | null>(null);
+  const [passwordResetUserId, setPasswordResetUserId] = useState<string | null>(
+    null
+  );
   const [roleSelectUser, setRoleSelectUser] = useState<{
     id: string;
     email: string;
@@ -130,27 +152,60 @@ export function UserManagement({ currentUser }: UserManagementProps) {
 
   const hasActiveFilters = search || roleFilter || statusFilter;
 
-  const handleStatusToggle = async (userId: string, isActive: boolean) => {
-    if (userId === currentUser.id && !isActive) {
-      setError('You cannot deactivate your own account');
+  const handleStatusChange = async (user: User) => {
+    const suspend = user.status === 'ACTIVE';
+    let body: { status: UserStatus; reason?: string; until?: string } = {
+      status: 'ACTIVE',
+    };
+
+    if (suspend) {
+      const reason = prompt(
+        `Suspend ${user.email}? The reason is shown to them when they sign in.`
+      );
+      if (reason === null) return;
+      const days = prompt(
+        'Suspend for how many days? Leave empty to suspend until reactivated.'
+      );
+      if (days === null) return;
+      if (days.trim() && !(Number(days) > 0)) {
+        setError('Enter a positive number of days');
+        return;
+      }
+
+      body = {
+        status: 'SUSPENDED',
+        reason: reason.trim() || undefined,
+        until: days.trim()
+          ? new Date(
+              Date.now() + Number(days) * 24 * 60 * 60 * 1000
+            ).toISOString()
+          : undefined,
+      };
+    } else if (!confirm(`Reactivate ${user.email}?`)) {
       return;
     }
 
-    setTogglingStatusId(userId);
+    setTogglingStatusId(user.id);
     setError('');
+    setSuccess('');
 
     try {
-      const response = await apiPatch(`/api/users/${userId}`, { isActive });
+      const response = await apiPost(
+        `/api/admin/users/${user.id}/status`,
+        body
+      );
 
       if (!response.ok) {
         const data = await response.json();
         throw new Error(data.error?.message || 'Failed to update status');
       }
 
-      setSuccess(`User ${isActive ? 'activated' : 'deactivated'} successfully`);
+      setSuccess(`User ${suspend ? 'suspended' : 'reactivated'} successfully`);
       fetchUsers();
-    } catch {
-      setError('Failed to update user status');
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to update user status'
+      );
     } finally {
       setTogglingStatusId(null);
     }
@@ -190,6 +245,43 @@ export function UserManagement({ currentUser }: UserManagementProps) {
     }
   };
 
+  const handleRequirePasswordChange = async (user: User) => {
+    if (
+      !confirm(`Require ${user.email} to change their password at next login?`)
+    ) {
+      return;
+    }
+
+    setPasswordResetUserId(user.id);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await apiPost(
+        `/api/admin/users/${user.id}/require-password-change`,
+        {}
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.error?.message || 'Failed to require a password change'
+        );
+      }
+
+      setSuccess(data.message);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Failed to require a password change'
+      );
+    } finally {
+      setPasswordResetUserId(null);
+    }
+  };
+
   // Bulk selection handlers
   const selectableUsers = users.filter(
     (u) => u.id !== currentUser.id && u.role !== ROLES.ADMIN
@@ -214,7 +306,7 @@ export function UserManagement({ currentUser }: UserManagementProps) {
   };
 
   const handleBulkAction = async (
-    action: 'activate' | 'deactivate' | 'delete'
+    action: 'activate' | 'deactivate' | 'delete' | 'require_password_change'
   ) => {
     if (selectedUsers.size === 0) return;
 
@@ -222,6 +314,7 @@ export function UserManagement({ currentUser }: UserManagementProps) {
       activate: 'activate',
       deactivate: 'deactivate',
       delete: 'permanently delete',
+      require_password_change: 'require a password change at next login for',
     };
 
     if (
@@ -398,6 +491,16 @@ export function UserManagement({ currentUser }: UserManagementProps) {
                 <UserX size={14} className="mr-1" />
                 Deactivate
               </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleBulkAction('require_password_change')}
+                disabled={isBulkActionLoading}
+                data-testid="user-management-bulk-require-password-change"
+              >
+                <KeyRound size={14} className="mr-1" />
+                Require Password Change
+              </Button>
               <Button
                 size="sm"
                 variant="destructive"
@@ -577,9 +680,18 @@ export function UserManagement({ currentUser }: UserManagementProps) {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex flex-col space-y-1">
                           <Badge
-                            variant={user.isActive ? 'default' : 'destructive'}
+                            variant={STATUS_BADGES[user.status].variant}
+                            title={
+                              [
+                                user.statusReason,
+                                user.statusExpiresAt &&
+                                  `Until ${formatDate(user.statusExpiresAt)}`,
+                              ]
+                                .filter(Boolean)
+                                .join(' · ') || undefined
+                            }
                           >
-                            {user.isActive ? 'Active' : 'Inactive'}
+                            {STATUS_BADGES[user.status].label}
                           </Badge>
                           <Badge
                             variant={
@@ -602,20 +714,43 @@ export function UserManagement({ currentUser }: UserManagementProps) {
                         {hasMinimumRole(currentUser.role, ROLES.ADMIN) &&
                           user.id !== currentUser.id && (
                             <>
+                              {(user.status === 'ACTIVE' ||
+                                user.status === 'SUSPENDED') && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => handleStatusChange(user)}
+                                  disabled={togglingStatusId === user.id}
+                                  title={
+                                    user.status === 'ACTIVE'
+                                      ? 'Suspend'
+                                      : 'Reactivate'
+                                  }
+                                  aria-label={`${user.status === 'ACTIVE' ? 'Suspend' : 'Reactivate'} ${user.email}`}
+                                >
+                                  {togglingStatusId === user.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : user.status === 'ACTIVE' ? (
+                                    <UserX size={16} />
+                                  ) : (
+                                    <UserCheck size={16} />
+                                  )}
+                                </Button>
+                              )}
                               <Button
                                 size="sm"
                                 variant="ghost"
                                 onClick={() =>
-                                  handleStatusToggle(user.id, !user.isActive)
+                                  handleRequirePasswordChange(user)
                                 }
-                                disabled={togglingStatusId === user.id}
+                                disabled={passwordResetUserId === user.id}
+                                title="Require password change"
+                                aria-label={`Require ${user.email} to change their password`}
                               >
-                                {togglingStatusId === user.id ? (
+                                {passwordResetUserId === user.id ? (
                                   <Loader2 className="h-4 w-4 animate-spin" />
-                                ) : user.isActive ? (
-                                  <UserX size={16} />
                                 ) : (
-                                  <UserCheck size={16} />
+                                  <KeyRound size={16} />
                                 )}
                               </Button>
                               <Button
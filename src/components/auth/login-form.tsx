@@ -18,7 +18,15 @@ import { TwoFactorInput } from './two-factor-input';
 import { OAuthButtons, OAuthDivider } from './oauth-buttons';
 import { LoginInput } from '@/lib/validations';
 import { AuthError } from '@/types/auth';
-import type { OAuthProvider } from '@/lib/auth/oauth/providers';
+import type { EnabledOAuthProvider } from '@/lib/auth/oauth/providers';
+import { requestPasskeyAssertion } from '@/lib/webauthn-client';
+import {
+  fetchTwoFactorFactors,
+  requestTwoFactorEmailCode,
+  type PendingTwoFactor,
+} from '@/lib/two-factor-client';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/browser';
+import { Fingerprint } from 'lucide-react';
 
 export function LoginForm() {
   const router = useRouter();
@@ -36,8 +44,11 @@ export function LoginForm() {
   const [isLocked, setIsLocked] = useState(false);
   const [requires2FA, setRequires2FA] = useState(false);
   const [pendingToken, setPendingToken] = useState<string | null>(null);
+  const [twoFactor, setTwoFactor] = useState<PendingTwoFactor | null>(null);
   const [twoFactorError, setTwoFactorError] = useState('');
-  const [enabledProviders, setEnabledProviders] = useState<OAuthProvider[]>([]);
+  const [enabledProviders, setEnabledProviders] = useState<
+    EnabledOAuthProvider[]
+  >([]);
 
   useEffect(() => {
     // Fetch enabled OAuth providers
@@ -57,11 +68,55 @@ export function LoginForm() {
         token_exchange_failed: 'Failed to complete OAuth authentication',
         profile_fetch_failed: 'Failed to fetch profile from OAuth provider',
         account_inactive: 'Your account is inactive. Please contact support.',
+        account_locked:
+          'Your account is temporarily locked. Please try again later.',
+        sso_domain_not_verified:
+          'Your organization has not verified your email domain for single sign-on',
+        saml_failed: 'Single sign-on failed. Please try again.',
+        sso_not_configured:
+          'Single sign-on is not configured for this organization',
+        sso_required:
+          'Your organization requires you to sign in with single sign-on',
       };
       setError(errorMessages[oauthError] || 'OAuth authentication failed');
     }
   }, [searchParams]);
 
+  // Full navigation: the SSO endpoint redirects to the identity provider
+  const redirectToSso = (ssoUrl: string) => {
+    window.location.href = ssoUrl;
+  };
+
+  const redirectAfterLogin = () => {
+    // Authorization requests from OAuth client apps end on another site,
+    // so they need a full page load rather than client-side navigation
+    if (returnUrl.startsWith('/oauth/')) {
+      window.location.href = returnUrl;
+      return;
+    }
+    router.push(returnUrl);
+    router.refresh();
+  };
+
+  // Addresses on a domain claimed by an organization sign in through its IdP
+  const discoverSso = async (email: string): Promise<string | null> => {
+    try {
+      const response = await fetch('/api/auth/sso/discover', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, returnTo: returnUrl }),
+      });
+      if (!response.ok) return null;
+      const data = await response.json();
+      return data.sso?.ssoUrl ?? null;
+    } catch {
+      // Discovery is best effort; fall back to password login
+      return null;
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -69,6 +124,12 @@ export function LoginForm() {
     setErrors({});
 
     try {
+      const ssoUrl = await discoverSso(formData.email);
+      if (ssoUrl) {
+        redirectToSso(ssoUrl);
+        return;
+      }
+
       const response = await fetch('/api/auth/login', {
         method: 'POST',
         headers: {
@@ -86,6 +147,9 @@ export function LoginForm() {
         } else if (authError.type === 'ACCOUNT_LOCKED') {
           setError(authError.message);
           setIsLocked(true);
+        } else if (authError.type === 'SSO_REQUIRED' && authError.ssoUrl) {
+          setError(authError.message);
+          redirectToSso(authError.ssoUrl);
         } else {
           setError(authError.message);
         }
@@ -94,8 +158,15 @@ export function LoginForm() {
 
       // Check if 2FA is required
       if (data.requiresTwoFactor) {
-        setRequires2FA(true);
         setPendingToken(data.pendingToken);
+        setTwoFactor(
+          data.challenge === 'email_code'
+            ? { factors: ['email'], challenge: data.challenge }
+            : await fetchTwoFactorFactors(data.pendingToken).catch(
+                (): PendingTwoFactor => ({ factors: ['totp', 'backup_code'] })
+              )
+        );
+        setRequires2FA(true);
         return;
       }
 
@@ -106,8 +177,7 @@ export function LoginForm() {
       }
 
       // Redirect to return URL or dashboard
-      router.push(returnUrl);
-      router.refresh();
+      redirectAfterLogin();
     } catch {
       setError('An unexpected error occurred. Please try again.');
     } finally {
@@ -124,7 +194,82 @@ export function LoginForm() {
     }
   };
 
-  const handle2FASubmit = async (code: string, isBackupCode: boolean) => {
+  const handlePasskeyLogin = async () => {
+    setIsLoading(true);
+    setError('');
+    setErrors({});
+
+    try {
+      const assertion = await requestPasskeyAssertion();
+
+      const response = await fetch('/api/auth/webauthn/authenticate/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ response: assertion }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const authError = data.error as AuthError;
+        setError(authError.message);
+        setIsLocked(authError.type === 'ACCOUNT_LOCKED');
+        if (authError.type === 'SSO_REQUIRED' && authError.ssoUrl) {
+          redirectToSso(authError.ssoUrl);
+        }
+        return;
+      }
+
+      if (data.tokens) {
+        localStorage.setItem('accessToken', data.tokens.accessToken);
+        localStorage.setItem('refreshToken', data.tokens.refreshToken);
+      }
+
+      redirectAfterLogin();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Passkey sign in failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handle2FASubmit = (code: string, isBackupCode: boolean) =>
+    submit2FA({ code, isBackupCode });
+
+  const handle2FAPasskey = async () => {
+    setTwoFactorError('');
+    try {
+      const assertion = await requestPasskeyAssertion(
+        pendingToken ?? undefined
+      );
+      await submit2FA({ webauthnResponse: assertion });
+    } catch (err) {
+      setTwoFactorError(
+        err instanceof Error ? err.message : 'Passkey verification failed'
+      );
+    }
+  };
+
+  const handle2FASendEmailCode = async () => {
+    setTwoFactorError('');
+    try {
+      await requestTwoFactorEmailCode(pendingToken ?? '');
+      return true;
+    } catch (err) {
+      setTwoFactorError(
+        err instanceof Error ? err.message : 'Failed to send code'
+      );
+      return false;
+    }
+  };
+
+  const submit2FA = async (
+    factor:
+      | { code: string; isBackupCode: boolean }
+      | { webauthnResponse: AuthenticationResponseJSON }
+  ) => {
     setIsLoading(true);
     setTwoFactorError('');
 
@@ -136,8 +281,7 @@ export function LoginForm() {
         },
         body: JSON.stringify({
           pendingToken,
-          code,
-          isBackupCode,
+          ...factor,
         }),
       });
 
@@ -162,8 +306,7 @@ export function LoginForm() {
       }
 
       // Redirect
-      router.push(returnUrl);
-      router.refresh();
+      redirectAfterLogin();
     } catch {
       setTwoFactorError('An unexpected error occurred');
     } finally {
@@ -174,6 +317,7 @@ export function LoginForm() {
   const handleCancel2FA = () => {
     setRequires2FA(false);
     setPendingToken(null);
+    setTwoFactor(null);
     setTwoFactorError('');
     setFormData({ email: '', password: '', rememberMe: false });
   };
@@ -184,13 +328,19 @@ export function LoginForm() {
         <CardHeader>
           <CardTitle>Two-Factor Authentication</CardTitle>
           <CardDescription>
-            Verify your identity to complete sign in
+            {twoFactor?.challenge
+              ? 'This sign in looks different from usual'
+              : 'Verify your identity to complete sign in'}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <TwoFactorInput
             onSubmit={handle2FASubmit}
             onCancel={handleCancel2FA}
+            onPasskey={handle2FAPasskey}
+            onSendEmailCode={handle2FASendEmailCode}
+            factors={twoFactor?.factors}
+            emailCodeSent={!!twoFactor?.challenge}
             isLoading={isLoading}
             error={twoFactorError}
           />
@@ -314,6 +464,18 @@ export function LoginForm() {
             {isLoading ? 'Signing in...' : 'Sign In'}
           </Button>
 
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={handlePasskeyLogin}
+            disabled={isLoading}
+            data-testid="passkey-login"
+          >
+            <Fingerprint className="mr-2 h-4 w-4" />
+            Sign in with a passkey
+          </Button>
+
           <div className="space-y-2 text-center">
             <Link
               href="/forgot-password"
@@ -322,6 +484,24 @@ export function LoginForm() {
             >
               Forgot your password?
             </Link>
+            <div>
+              <Link
+                href="/magic-link"
+                className="text-sm text-blue-600 hover:text-blue-500"
+                data-testid="magic-link-link"
+              >
+                Email me a sign-in link
+              </Link>
+            </div>
+            <div>
+              <Link
+                href="/sso"
+                className="text-sm text-blue-600 hover:text-blue-500"
+                data-testid="sso-link"
+              >
+                Sign in with SSO
+              </Link>
+            </div>
             <div className="text-sm text-gray-600">
               Don&apos;t have an account?{' '}
               <Link
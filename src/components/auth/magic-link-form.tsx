@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert } from '@/components/ui/alert';
+import { FieldError } from '@/components/ui/field-error';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { RequestMagicLinkInput } from '@/lib/validations';
+import { AuthError } from '@/types/auth';
+
+export function MagicLinkForm() {
+  const [formData, setFormData] = useState<RequestMagicLinkInput>({
+    email: '',
+  });
+  const [errors, setErrors] = useState<Record<string, string[]>>({});
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+    setErrors({});
+
+    try {
+      const response = await fetch('/api/auth/magic-link', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const authError = data.error as AuthError;
+        if (authError.type === 'VALIDATION_ERROR' && authError.details) {
+          setErrors(authError.details);
+        } else {
+          setError(authError.message);
+        }
+        return;
+      }
+
+      setSuccess(data.message);
+    } catch {
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    // Clear field error when user starts typing
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: [] }));
+    }
+  };
+
+  return (
+    <Card className="mx-auto w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Sign In with Email</CardTitle>
+        <CardDescription>
+          Enter your email address and we&apos;ll send you a link to sign in
+          without a password
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4"
+          data-testid="magic-link-form"
+        >
+          {error && <Alert variant="error">{error}</Alert>}
+
+          {success && <Alert variant="success">{success}</Alert>}
+
+          <div className="space-y-2">
+            <label htmlFor="email" className="text-sm font-medium">
+              Email
+            </label>
+            <Input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              required
+              value={formData.email}
+              onChange={handleChange}
+              error={!!errors.email}
+              aria-describedby={errors.email ? 'email-error' : undefined}
+              disabled={isLoading}
+              data-testid="magic-link-email-input"
+            />
+            <FieldError id="email-error" error={errors.email} />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading}
+            data-testid="magic-link-submit"
+          >
+            {isLoading ? 'Sending...' : 'Send Sign-In Link'}
+          </Button>
+
+          <div className="text-center">
+            <Link
+              href="/login"
+              className="text-sm text-blue-600 hover:text-blue-500"
+            >
+              Sign in with a password instead
+            </Link>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,15 @@
 'use client';
 
+import { KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import type { OAuthProvider } from '@/lib/auth/oauth/providers';
+import type {
+  EnabledOAuthProvider,
+  OAuthProvider,
+  OAuthProviderType,
+} from '@/lib/auth/oauth/providers';
 
 interface OAuthButtonsProps {
-  enabledProviders: OAuthProvider[];
+  enabledProviders: EnabledOAuthProvider[];
   returnTo?: string;
   inviteToken?: string;
   isLoading?: boolean;
@@ -12,11 +17,10 @@ interface OAuthButtonsProps {
 }
 
 const providerConfig: Record<
-  OAuthProvider,
-  { name: string; icon: React.ReactNode; bgClass: string }
+  OAuthProviderType,
+  { icon: React.ReactNode; bgClass: string }
 > = {
   google: {
-    name: 'Google',
     icon: (
       <svg className="h-5 w-5" viewBox="0 0 24 24">
         <path
@@ -40,7 +44,6 @@ const providerConfig: Record<
     bgClass: 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50',
   },
   github: {
-    name: 'GitHub',
     icon: (
       <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 24 24">
         <path
@@ -52,6 +55,10 @@ const providerConfig: Record<
     ),
     bgClass: 'bg-gray-900 text-white hover:bg-gray-800',
   },
+  oidc: {
+    icon: <KeyRound className="h-5 w-5" />,
+    bgClass: 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50',
+  },
 };
 
 export function OAuthButtons({
@@ -75,8 +82,7 @@ export function OAuthButtons({
     window.location.href = `/api/auth/oauth/${provider}${queryString ? `?${queryString}` : ''}`;
   };
 
-  const getButtonText = (provider: OAuthProvider) => {
-    const name = providerConfig[provider].name;
+  const getButtonText = (name: string) => {
     switch (mode) {
       case 'register':
         return `Sign up with ${name}`;
@@ -90,18 +96,18 @@ export function OAuthButtons({
   return (
     <div className="space-y-3">
       {enabledProviders.map((provider) => {
-        const config = providerConfig[provider];
+        const config = providerConfig[provider.type];
         return (
           <Button
-            key={provider}
+            key={provider.id}
             type="button"
             variant="ghost"
             className={`w-full ${config.bgClass}`}
-            onClick={() => handleOAuthClick(provider)}
+            onClick={() => handleOAuthClick(provider.id)}
             disabled={isLoading}
           >
             <span className="mr-2">{config.icon}</span>
-            {getButtonText(provider)}
+            {getButtonText(provider.name)}
           </Button>
         );
       })}
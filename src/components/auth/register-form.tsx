@@ -18,7 +18,7 @@ import { PasswordStrengthMeter } from '@/components/ui/password-strength-meter';
 import { OAuthButtons, OAuthDivider } from './oauth-buttons';
 import { RegisterInput } from '@/lib/validations';
 import { AuthError } from '@/types/auth';
-import type { OAuthProvider } from '@/lib/auth/oauth/providers';
+import type { EnabledOAuthProvider } from '@/lib/auth/oauth/providers';
 
 export function RegisterForm() {
   const router = useRouter();
@@ -37,7 +37,9 @@ export function RegisterForm() {
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
-  const [enabledProviders, setEnabledProviders] = useState<OAuthProvider[]>([]);
+  const [enabledProviders, setEnabledProviders] = useState<
+    EnabledOAuthProvider[]
+  >([]);
 
   useEffect(() => {
     // Fetch enabled OAuth providers
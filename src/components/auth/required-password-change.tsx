@@ -0,0 +1,60 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Alert } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { PasswordChangeForm } from '@/components/profile/password-change-form';
+import { apiPost } from '@/lib/api-client';
+import type { PasswordChangeReason } from '@/types/auth';
+
+interface RequiredPasswordChangeProps {
+  reason: PasswordChangeReason;
+}
+
+export function RequiredPasswordChange({
+  reason,
+}: RequiredPasswordChangeProps) {
+  const router = useRouter();
+
+  const handleSuccess = () => {
+    router.push('/dashboard');
+    router.refresh();
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await apiPost('/api/auth/logout', {
+        refreshToken: localStorage.getItem('refreshToken') ?? undefined,
+      });
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+      router.push('/login');
+      router.refresh();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+  };
+
+  return (
+    <>
+      <Alert variant="warning" data-testid="password-change-required-notice">
+        <p className="font-medium">Password change required</p>
+        <p className="mt-1 text-sm">
+          {reason === 'expired'
+            ? 'Your password has expired. Choose a new one to continue.'
+            : 'An administrator requires you to change your password before continuing.'}
+        </p>
+      </Alert>
+
+      <div className="rounded-lg border bg-white p-6">
+        <PasswordChangeForm required onSuccess={handleSuccess} />
+      </div>
+
+      <div className="text-center">
+        <Button variant="ghost" size="sm" onClick={handleSignOut}>
+          Sign out
+        </Button>
+      </div>
+    </>
+  );
+}
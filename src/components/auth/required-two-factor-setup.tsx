@@ -0,0 +1,59 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Alert } from '@/components/ui/alert';
+import { TwoFactorSetup } from '@/components/profile/two-factor-setup';
+import { apiPost } from '@/lib/api-client';
+
+interface RequiredTwoFactorSetupProps {
+  /** The grace period is over: the user can only enroll or sign out */
+  enrollmentRequired: boolean;
+}
+
+export function RequiredTwoFactorSetup({
+  enrollmentRequired,
+}: RequiredTwoFactorSetupProps) {
+  const router = useRouter();
+
+  const handleComplete = () => {
+    router.push('/dashboard');
+    router.refresh();
+  };
+
+  const handleCancel = async () => {
+    if (!enrollmentRequired) {
+      router.push('/dashboard');
+      return;
+    }
+
+    try {
+      await apiPost('/api/auth/logout', {
+        refreshToken: localStorage.getItem('refreshToken') ?? undefined,
+      });
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+      router.push('/login');
+      router.refresh();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+  };
+
+  return (
+    <>
+      <Alert
+        variant={enrollmentRequired ? 'error' : 'warning'}
+        data-testid="2fa-required-notice"
+      >
+        <p className="font-medium">Two-factor authentication required</p>
+        <p className="mt-1 text-sm">
+          {enrollmentRequired
+            ? 'Your account requires two-factor authentication. Set it up to continue, or cancel to sign out.'
+            : 'Your account requires two-factor authentication. Set it up now to keep full access once the grace period ends.'}
+        </p>
+      </Alert>
+
+      <TwoFactorSetup onComplete={handleComplete} onCancel={handleCancel} />
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+interface SsoFormProps {
+  returnTo?: string;
+}
+
+export function SsoForm({ returnTo }: SsoFormProps) {
+  const [slug, setSlug] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const params = returnTo ? `?returnTo=${encodeURIComponent(returnTo)}` : '';
+    // Full navigation: the login endpoint redirects to the identity provider
+    window.location.href = `/api/auth/saml/${encodeURIComponent(slug.trim().toLowerCase())}/login${params}`;
+  };
+
+  return (
+    <Card className="mx-auto w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Sign In with SSO</CardTitle>
+        <CardDescription>
+          Enter your organization&apos;s identifier to continue with your
+          company&apos;s identity provider
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4"
+          data-testid="sso-form"
+        >
+          <div className="space-y-2">
+            <label htmlFor="organization" className="text-sm font-medium">
+              Organization
+            </label>
+            <Input
+              id="organization"
+              name="organization"
+              type="text"
+              autoComplete="organization"
+              placeholder="acme-corp"
+              required
+              value={slug}
+              onChange={(e) => setSlug(e.target.value)}
+              disabled={isLoading}
+              data-testid="sso-organization-input"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || !slug.trim()}
+            data-testid="sso-submit"
+          >
+            {isLoading ? 'Redirecting...' : 'Continue'}
+          </Button>
+
+          <div className="text-center">
+            <Link
+              href="/login"
+              className="text-sm text-blue-600 hover:text-blue-500"
+            >
+              Sign in with a password instead
+            </Link>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
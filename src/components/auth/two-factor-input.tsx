@@ -4,10 +4,41 @@ import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Alert } from '@/components/ui/alert';
+import type { TwoFactorFactor } from '@/types/auth';
+
+type CodeFactor = Exclude<TwoFactorFactor, 'passkey'>;
+
+const FACTOR_TEXT: Record<
+  CodeFactor,
+  { title: string; description: string; switchLabel: string }
+> = {
+  totp: {
+    title: 'Two-Factor Authentication',
+    description: 'Enter the 6-digit code from your authenticator app',
+    switchLabel: 'Use authenticator app instead',
+  },
+  email: {
+    title: 'Check Your Email',
+    description: 'Enter the 6-digit code we sent to your email address',
+    switchLabel: 'Email me a code instead',
+  },
+  backup_code: {
+    title: 'Enter Backup Code',
+    description: 'Enter one of your backup codes',
+    switchLabel: 'Use backup code',
+  },
+};
 
 interface TwoFactorInputProps {
   onSubmit: (code: string, isBackupCode: boolean) => Promise<void>;
   onCancel: () => void;
+  onPasskey?: () => Promise<void>;
+  /** Emails a code to the user; resolves to false if it could not be sent */
+  onSendEmailCode?: () => Promise<boolean>;
+  /** Factors the user can choose from, the first one preselected */
+  factors?: TwoFactorFactor[];
+  /** An email code was already sent, e.g. by a risk challenge */
+  emailCodeSent?: boolean;
   isLoading: boolean;
   error?: string;
 }
@@ -15,37 +46,60 @@ interface TwoFactorInputProps {
 export function TwoFactorInput({
   onSubmit,
   onCancel,
+  onPasskey,
+  onSendEmailCode,
+  factors = ['totp', 'backup_code', 'passkey'],
+  emailCodeSent: initialEmailCodeSent = false,
   isLoading,
   error,
 }: TwoFactorInputProps) {
+  const codeFactors = factors.filter(
+    (factor): factor is CodeFactor => factor !== 'passkey'
+  );
+  const [factor, setFactor] = useState<CodeFactor>(codeFactors[0] ?? 'totp');
   const [code, setCode] = useState('');
-  const [isBackupMode, setIsBackupMode] = useState(false);
+  const [emailCodeSent, setEmailCodeSent] = useState(initialEmailCodeSent);
+  const [isSending, setIsSending] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const isBackupMode = factor === 'backup_code';
+  const awaitingEmailCode = factor === 'email' && !emailCodeSent;
+
   useEffect(() => {
     inputRef.current?.focus();
-  }, [isBackupMode]);
+  }, [factor, emailCodeSent]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     await onSubmit(code, isBackupMode);
   };
 
-  const toggleBackupMode = () => {
-    setIsBackupMode(!isBackupMode);
+  const selectFactor = (next: CodeFactor) => {
+    setFactor(next);
     setCode('');
   };
 
+  const sendEmailCode = async () => {
+    if (!onSendEmailCode) return;
+    setIsSending(true);
+    try {
+      if (await onSendEmailCode()) {
+        setEmailCodeSent(true);
+        setCode('');
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
   return (
     <div className="space-y-4">
       <div className="text-center">
-        <h2 className="text-lg font-semibold">
-          {isBackupMode ? 'Enter Backup Code' : 'Two-Factor Authentication'}
-        </h2>
+        <h2 className="text-lg font-semibold">{FACTOR_TEXT[factor].title}</h2>
         <p className="mt-1 text-sm text-gray-600">
-          {isBackupMode
-            ? 'Enter one of your backup codes'
-            : 'Enter the 6-digit code from your authenticator app'}
+          {awaitingEmailCode
+            ? 'We will email you a 6-digit code to finish signing in'
+            : FACTOR_TEXT[factor].description}
         </p>
       </div>
 
@@ -55,58 +109,115 @@ export function TwoFactorInput({
         </Alert>
       )}
 
-      <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <Input
-            ref={inputRef}
-            type="text"
-            inputMode={isBackupMode ? 'text' : 'numeric'}
-            pattern={isBackupMode ? '[A-Za-z0-9]{8}' : '[0-9]{6}'}
-            maxLength={isBackupMode ? 8 : 6}
-            placeholder={isBackupMode ? 'XXXXXXXX' : '000000'}
-            value={code}
-            onChange={(e) => setCode(e.target.value.toUpperCase())}
-            disabled={isLoading}
-            className="text-center text-2xl tracking-widest"
-            autoComplete="one-time-code"
-            data-testid={isBackupMode ? 'backup-code-input' : '2fa-code-input'}
-          />
-        </div>
-
+      {awaitingEmailCode ? (
         <div className="flex gap-2">
           <Button
             type="button"
             variant="secondary"
             onClick={onCancel}
-            disabled={isLoading}
+            disabled={isSending}
             className="flex-1"
           >
             Cancel
           </Button>
           <Button
-            type="submit"
-            disabled={
-              isLoading ||
-              (isBackupMode ? code.length !== 8 : code.length !== 6)
-            }
+            type="button"
+            onClick={sendEmailCode}
+            disabled={isSending}
             className="flex-1"
-            data-testid="2fa-submit"
+            data-testid="2fa-send-email-code"
           >
-            {isLoading ? 'Verifying...' : 'Verify'}
+            {isSending ? 'Sending...' : 'Email me a code'}
           </Button>
         </div>
-      </form>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Input
+              ref={inputRef}
+              type="text"
+              inputMode={isBackupMode ? 'text' : 'numeric'}
+              pattern={isBackupMode ? '[A-Za-z0-9]{8}' : '[0-9]{6}'}
+              maxLength={isBackupMode ? 8 : 6}
+              placeholder={isBackupMode ? 'XXXXXXXX' : '000000'}
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              disabled={isLoading}
+              className="text-center text-2xl tracking-widest"
+              autoComplete="one-time-code"
+              data-testid={
+                isBackupMode ? 'backup-code-input' : '2fa-code-input'
+              }
+            />
+          </div>
 
-      <div className="text-center">
-        <button
-          type="button"
-          onClick={toggleBackupMode}
-          className="text-sm text-blue-600 hover:text-blue-500"
-          disabled={isLoading}
-        >
-          {isBackupMode ? 'Use authenticator app instead' : 'Use backup code'}
-        </button>
-      </div>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={onCancel}
+              disabled={isLoading}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={
+                isLoading ||
+                (isBackupMode ? code.length !== 8 : code.length !== 6)
+              }
+              className="flex-1"
+              data-testid="2fa-submit"
+            >
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {factor === 'email' && emailCodeSent && onSendEmailCode && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={sendEmailCode}
+            className="text-sm text-blue-600 hover:text-blue-500"
+            disabled={isLoading || isSending}
+            data-testid="2fa-resend-email-code"
+          >
+            {isSending ? 'Sending...' : 'Send a new code'}
+          </button>
+        </div>
+      )}
+
+      {codeFactors
+        .filter((other) => other !== factor)
+        .map((other) => (
+          <div key={other} className="text-center">
+            <button
+              type="button"
+              onClick={() => selectFactor(other)}
+              className="text-sm text-blue-600 hover:text-blue-500"
+              disabled={isLoading}
+            >
+              {FACTOR_TEXT[other].switchLabel}
+            </button>
+          </div>
+        ))}
+
+      {onPasskey && factors.includes('passkey') && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={onPasskey}
+            className="text-sm text-blue-600 hover:text-blue-500"
+            disabled={isLoading}
+            data-testid="2fa-passkey"
+          >
+            Use a passkey instead
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -61,7 +61,9 @@ export function NavSidebar({ children }: NavSidebarProps) {
 
   const handleLogout = async () => {
     try {
-      await apiPost('/api/auth/logout');
+      await apiPost('/api/auth/logout', {
+        refreshToken: localStorage.getItem('refreshToken') ?? undefined,
+      });
       localStorage.removeItem('accessToken');
       localStorage.removeItem('refreshToken');
       router.push('/login');
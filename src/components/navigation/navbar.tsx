@@ -89,7 +89,9 @@ export function Navbar() {
 
   const handleLogout = async () => {
     try {
-      await apiPost('/api/auth/logout');
+      await apiPost('/api/auth/logout', {
+        refreshToken: localStorage.getItem('refreshToken') ?? undefined,
+      });
       localStorage.removeItem('accessToken');
       localStorage.removeItem('refreshToken');
       router.push('/login');
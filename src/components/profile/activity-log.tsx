@@ -26,6 +26,10 @@ import {
   ChevronRight,
   Monitor,
   Globe,
+  Building2,
+  AppWindow,
+  Download,
+  KeyRound,
 } from 'lucide-react';
 import { parseUserAgent } from '@/lib/utils/user-agent';
 
@@ -69,6 +73,16 @@ const ACTION_CONFIG: Record<
     icon: <LogIn className="h-4 w-4" />,
     variant: 'error',
   },
+  AUTH_LOGIN_CHALLENGED: {
+    label: 'Sign in required an email code',
+    icon: <ShieldAlert className="h-4 w-4" />,
+    variant: 'warning',
+  },
+  AUTH_LOGIN_BLOCKED: {
+    label: 'Suspicious sign in blocked',
+    icon: <ShieldAlert className="h-4 w-4" />,
+    variant: 'error',
+  },
   AUTH_LOGOUT: {
     label: 'Signed out',
     icon: <LogOut className="h-4 w-4" />,
@@ -89,6 +103,11 @@ const ACTION_CONFIG: Record<
     icon: <AlertTriangle className="h-4 w-4" />,
     variant: 'error',
   },
+  AUTH_REFRESH_TOKEN_REUSE: {
+    label: 'Reused sign-in token detected',
+    icon: <AlertTriangle className="h-4 w-4" />,
+    variant: 'error',
+  },
   // Security
   SECURITY_ACCOUNT_LOCKED: {
     label: 'Account locked',
@@ -100,6 +119,41 @@ const ACTION_CONFIG: Record<
     icon: <ShieldCheck className="h-4 w-4" />,
     variant: 'success',
   },
+  ACCOUNT_DELETION_SCHEDULED: {
+    label: 'Account deletion requested',
+    icon: <ShieldAlert className="h-4 w-4" />,
+    variant: 'warning',
+  },
+  ACCOUNT_DELETION_CANCELLED: {
+    label: 'Account deletion cancelled',
+    icon: <ShieldCheck className="h-4 w-4" />,
+    variant: 'success',
+  },
+  DATA_EXPORT_REQUESTED: {
+    label: 'Data export requested',
+    icon: <Download className="h-4 w-4" />,
+    variant: 'info',
+  },
+  DATA_EXPORT_DOWNLOADED: {
+    label: 'Data export downloaded',
+    icon: <Download className="h-4 w-4" />,
+    variant: 'info',
+  },
+  ROLE_REQUEST_CREATED: {
+    label: 'Elevated access requested',
+    icon: <KeyRound className="h-4 w-4" />,
+    variant: 'warning',
+  },
+  ROLE_REQUEST_CANCELLED: {
+    label: 'Elevated access request cancelled',
+    icon: <KeyRound className="h-4 w-4" />,
+    variant: 'info',
+  },
+  ROLE_ASSIGNMENT_EXPIRED: {
+    label: 'Temporary role expired',
+    icon: <KeyRound className="h-4 w-4" />,
+    variant: 'info',
+  },
   SECURITY_PASSWORD_CHANGED: {
     label: 'Password changed',
     icon: <Key className="h-4 w-4" />,
@@ -141,6 +195,32 @@ const ACTION_CONFIG: Record<
     icon: <Shield className="h-4 w-4" />,
     variant: 'warning',
   },
+  ADMIN_PASSWORD_CHANGE_REQUIRED: {
+    label: 'Password change required by admin',
+    icon: <Key className="h-4 w-4" />,
+    variant: 'warning',
+  },
+  ADMIN_USER_IMPORTED: {
+    label: 'Account imported by admin',
+    icon: <Shield className="h-4 w-4" />,
+    variant: 'info',
+  },
+  ADMIN_USER_STATUS_CHANGED: {
+    label: 'Account status changed by admin',
+    icon: <Shield className="h-4 w-4" />,
+    variant: 'warning',
+  },
+  // Step-up re-authentication
+  AUTH_REAUTH_SUCCESS: {
+    label: 'Identity confirmed',
+    icon: <ShieldCheck className="h-4 w-4" />,
+    variant: 'success',
+  },
+  AUTH_REAUTH_FAILURE: {
+    label: 'Identity confirmation failed',
+    icon: <ShieldAlert className="h-4 w-4" />,
+    variant: 'error',
+  },
   // OAuth
   AUTH_OAUTH_LOGIN_SUCCESS: {
     label: 'Signed in with OAuth',
@@ -167,6 +247,59 @@ const ACTION_CONFIG: Record<
     icon: <Globe className="h-4 w-4" />,
     variant: 'info',
   },
+  // SAML SSO
+  AUTH_SAML_LOGIN_SUCCESS: {
+    label: 'Signed in with organization SSO',
+    icon: <Building2 className="h-4 w-4" />,
+    variant: 'success',
+  },
+  AUTH_SAML_LOGIN_FAILURE: {
+    label: 'Organization SSO sign in failed',
+    icon: <Building2 className="h-4 w-4" />,
+    variant: 'error',
+  },
+  AUTH_SAML_USER_PROVISIONED: {
+    label: 'Account created through organization SSO',
+    icon: <Building2 className="h-4 w-4" />,
+    variant: 'success',
+  },
+  // SCIM provisioning
+  SCIM_USER_PROVISIONED: {
+    label: 'Account provisioned by your organization',
+    icon: <Building2 className="h-4 w-4" />,
+    variant: 'info',
+  },
+  SCIM_USER_UPDATED: {
+    label: 'Profile updated by your organization',
+    icon: <Building2 className="h-4 w-4" />,
+    variant: 'info',
+  },
+  SCIM_USER_REACTIVATED: {
+    label: 'Account reactivated by your organization',
+    icon: <Building2 className="h-4 w-4" />,
+    variant: 'success',
+  },
+  // OAuth authorization server
+  OAUTH_SERVER_CONSENT_GRANTED: {
+    label: 'App authorized',
+    icon: <AppWindow className="h-4 w-4" />,
+    variant: 'info',
+  },
+  OAUTH_SERVER_CONSENT_REVOKED: {
+    label: 'App access revoked',
+    icon: <AppWindow className="h-4 w-4" />,
+    variant: 'info',
+  },
+  OAUTH_SERVER_CODE_REUSE: {
+    label: 'Suspicious app sign-in detected',
+    icon: <AlertTriangle className="h-4 w-4" />,
+    variant: 'error',
+  },
+  OAUTH_SERVER_REFRESH_TOKEN_REUSE: {
+    label: 'Suspicious app session activity detected',
+    icon: <AlertTriangle className="h-4 w-4" />,
+    variant: 'error',
+  },
   // API Keys
   API_KEY_CREATED: {
     label: 'API key created',
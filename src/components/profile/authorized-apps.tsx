@@ -0,0 +1,146 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Loader2, AppWindow } from 'lucide-react';
+import { apiDelete } from '@/lib/api-client';
+
+interface AuthorizedApp {
+  id: string;
+  name: string;
+  scopes: { scope: string; description: string }[];
+  authorizedAt: string | null;
+}
+
+export function AuthorizedApps() {
+  const [apps, setApps] = useState<AuthorizedApp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    fetchApps();
+  }, []);
+
+  const fetchApps = async () => {
+    try {
+      const res = await fetch('/api/users/authorized-apps');
+      if (!res.ok) throw new Error('Failed to fetch apps');
+      const data = await res.json();
+      setApps(data.apps);
+    } catch {
+      setError('Failed to load authorized apps');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (app: AuthorizedApp) => {
+    if (!confirm(`Revoke access for ${app.name}?`)) {
+      return;
+    }
+
+    setRevoking(app.id);
+    setError('');
+    setSuccess('');
+
+    try {
+      const res = await apiDelete(`/api/users/authorized-apps/${app.id}`);
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error?.message || 'Failed to revoke access');
+      }
+
+      setApps((prev) => prev.filter((a) => a.id !== app.id));
+      setSuccess(`Access revoked for ${app.name}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke access');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AppWindow className="h-5 w-5" />
+          Authorized Apps
+        </CardTitle>
+        <CardDescription>
+          Apps you have allowed to sign you in and access your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="error">{error}</Alert>}
+        {success && <Alert variant="success">{success}</Alert>}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : apps.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            You have not authorized any apps.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {apps.map((app) => (
+              <div
+                key={app.id}
+                className="flex items-start justify-between rounded-lg border p-4"
+              >
+                <div>
+                  <div className="font-medium">{app.name}</div>
+                  {app.authorizedAt && (
+                    <div className="text-sm text-gray-500">
+                      Authorized {formatDate(app.authorizedAt)}
+                    </div>
+                  )}
+                  {app.scopes.length > 0 && (
+                    <ul className="mt-2 list-inside list-disc text-sm text-gray-600">
+                      {app.scopes.map(({ scope, description }) => (
+                        <li key={scope}>{description}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(app)}
+                  disabled={revoking === app.id}
+                  className="text-red-600 hover:bg-red-50 hover:text-red-700"
+                >
+                  {revoking === app.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    'Revoke'
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
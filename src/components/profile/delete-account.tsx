@@ -17,14 +17,15 @@ import { apiPost } from '@/lib/api-client';
 
 interface DeleteAccountProps {
   isAdmin: boolean;
-  isOrgOwner: boolean;
   hasPassword: boolean;
+  /** Days before the account is purged; 0 deletes it right away */
+  gracePeriodDays: number;
 }
 
 export function DeleteAccount({
   isAdmin,
-  isOrgOwner,
   hasPassword,
+  gracePeriodDays,
 }: DeleteAccountProps) {
   const router = useRouter();
   const [showConfirmation, setShowConfirmation] = useState(false);
@@ -33,7 +34,7 @@ export function DeleteAccount({
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
-  const canDelete = !isAdmin && !isOrgOwner && hasPassword;
+  const canDelete = !isAdmin && hasPassword;
 
   const handleDelete = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -53,7 +54,7 @@ export function DeleteAccount({
         return;
       }
 
-      // Redirect to home page after successful deletion
+      // Redirect to home page once the deletion is scheduled
       router.push('/?deleted=true');
     } catch {
       setError('An unexpected error occurred. Please try again.');
@@ -80,7 +81,10 @@ export function DeleteAccount({
           Delete Account
         </CardTitle>
         <CardDescription data-testid="delete-account-description">
-          Permanently delete your account and all associated data.
+          Permanently delete your account and all associated data
+          {gracePeriodDays > 0 &&
+            ` after a ${gracePeriodDays}-day grace period`}
+          .
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -92,8 +96,6 @@ export function DeleteAccount({
           >
             {isAdmin &&
               'System administrators cannot delete their own account. Contact another admin.'}
-            {isOrgOwner &&
-              'You must transfer organization ownership before deleting your account.'}
             {!hasPassword &&
               'OAuth-only accounts cannot be deleted this way. Please contact support.'}
           </Alert>
@@ -104,7 +106,9 @@ export function DeleteAccount({
                 <AlertTriangle className="mt-0.5 h-5 w-5 flex-shrink-0 text-red-600" />
                 <div className="text-sm text-red-700">
                   <p className="mb-1 font-medium">
-                    This action is permanent and cannot be undone.
+                    {gracePeriodDays > 0
+                      ? `Your account is locked right away and deleted in ${gracePeriodDays} days. Use the link we email you to keep it.`
+                      : 'This action is permanent and cannot be undone.'}
                   </p>
                   <p>All your data will be permanently deleted, including:</p>
                   <ul
@@ -115,6 +119,7 @@ export function DeleteAccount({
                     <li>All active sessions and devices</li>
                     <li>API keys and OAuth connections</li>
                     <li>Two-factor authentication settings</li>
+                    <li>Organizations you are the only member of</li>
                   </ul>
                 </div>
               </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import {
   Card,
   CardContent,
@@ -10,43 +10,97 @@ import {
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert } from '@/components/ui/alert';
-import { Download, FileJson } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Download, FileArchive, Loader2 } from 'lucide-react';
+import { apiPost } from '@/lib/api-client';
+
+type DataExportStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'READY'
+  | 'FAILED'
+  | 'EXPIRED';
+
+interface DataExport {
+  id: string;
+  status: DataExportStatus;
+  size: number | null;
+  error: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+const STATUS_BADGES: Record<
+  DataExportStatus,
+  { label: string; variant: 'default' | 'secondary' | 'destructive' }
+> = {
+  PENDING: { label: 'Preparing', variant: 'secondary' },
+  PROCESSING: { label: 'Preparing', variant: 'secondary' },
+  READY: { label: 'Ready', variant: 'default' },
+  FAILED: { label: 'Failed', variant: 'destructive' },
+  EXPIRED: { label: 'Expired', variant: 'secondary' },
+};
+
+// How often to check on an export that is being prepared
+const POLL_INTERVAL_MS = 5000;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
 export function ExportData() {
-  const [isExporting, setIsExporting] = useState(false);
+  const [exports, setExports] = useState<DataExport[]>([]);
+  const [isRequesting, setIsRequesting] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
 
+  const fetchExports = useCallback(async () => {
+    try {
+      const response = await fetch('/api/users/export');
+      if (response.ok) {
+        const data = await response.json();
+        setExports(data.exports);
+      }
+    } catch {
+      // The list refreshes on the next poll
+    }
+  }, []);
+
+  const isPreparing = exports.some(
+    (e) => e.status === 'PENDING' || e.status === 'PROCESSING'
+  );
+
+  useEffect(() => {
+    fetchExports();
+  }, [fetchExports]);
+
+  useEffect(() => {
+    if (!isPreparing) return;
+    const interval = setInterval(fetchExports, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPreparing, fetchExports]);
+
   const handleExport = async () => {
-    setIsExporting(true);
+    setIsRequesting(true);
     setError('');
     setSuccess('');
 
     try {
-      const response = await fetch('/api/users/export');
+      const response = await apiPost('/api/users/export');
+      const data = await response.json();
 
       if (!response.ok) {
-        const data = await response.json();
-        setError(data.error?.message || 'Failed to export data');
+        setError(data.error?.message || 'Failed to request export');
         return;
       }
 
-      // Get the blob and trigger download
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `soclestack-data-export-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-
-      setSuccess('Your data has been exported successfully');
+      setSuccess(data.message);
+      fetchExports();
     } catch {
-      setError('Failed to export data');
+      setError('Failed to request export');
     } finally {
-      setIsExporting(false);
+      setIsRequesting(false);
     }
   };
 
@@ -57,7 +111,7 @@ export function ExportData() {
           className="flex items-center gap-2"
           data-testid="export-data-title"
         >
-          <FileJson className="h-5 w-5" />
+          <FileArchive className="h-5 w-5" />
           Export Your Data
         </CardTitle>
         <CardDescription data-testid="export-data-description">
@@ -80,11 +134,12 @@ export function ExportData() {
           <p>Your export will include:</p>
           <ul className="ml-2 list-inside list-disc space-y-1">
             <li>Profile information (name, email, settings)</li>
+            <li>Roles and organizations</li>
             <li>Connected OAuth accounts</li>
             <li>API keys (names and metadata only)</li>
             <li>Active sessions and devices</li>
-            <li>Activity logs (last 90 days)</li>
-            <li>Notification preferences</li>
+            <li>Activity logs</li>
+            <li>Emails we sent you (without their content)</li>
           </ul>
           <p className="mt-3 text-gray-500">
             Sensitive data like passwords and 2FA secrets are not included for
@@ -94,16 +149,59 @@ export function ExportData() {
 
         <Button
           onClick={handleExport}
-          disabled={isExporting}
+          disabled={isRequesting || isPreparing}
           className="w-full sm:w-auto"
           data-testid="export-data-button"
         >
           <Download className="mr-2 h-4 w-4" />
-          {isExporting ? 'Exporting...' : 'Download My Data'}
+          {isRequesting ? 'Requesting...' : 'Download My Data'}
         </Button>
 
+        {exports.length > 0 && (
+          <ul
+            className="divide-y divide-gray-100 rounded-md border border-gray-200 text-sm"
+            data-testid="export-status"
+          >
+            {exports.map((dataExport) => (
+              <li
+                key={dataExport.id}
+                className="flex items-center justify-between gap-3 px-3 py-2"
+              >
+                <div>
+                  <div className="text-gray-900">
+                    {new Date(dataExport.createdAt).toLocaleString()}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {dataExport.status === 'READY' && dataExport.expiresAt
+                      ? `${formatSize(dataExport.size ?? 0)}, available until ${new Date(dataExport.expiresAt).toLocaleString()}`
+                      : dataExport.error}
+                  </div>
+                </div>
+                {dataExport.status === 'READY' ? (
+                  <a href={`/api/users/export/${dataExport.id}/download`}>
+                    <Button size="sm" variant="outline">
+                      <Download className="mr-1 h-4 w-4" />
+                      Download
+                    </Button>
+                  </a>
+                ) : (
+                  <Badge variant={STATUS_BADGES[dataExport.status].variant}>
+                    {(dataExport.status === 'PENDING' ||
+                      dataExport.status === 'PROCESSING') && (
+                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    )}
+                    {STATUS_BADGES[dataExport.status].label}
+                  </Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
         <p className="text-xs text-gray-500">
-          Limited to 3 exports per day. The export is in JSON format.
+          Limited to 3 exports per day. The export is a ZIP archive with your
+          data in JSON format and as CSV spreadsheets; we email you when it is
+          ready.
         </p>
       </CardContent>
     </Card>
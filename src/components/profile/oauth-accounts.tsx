@@ -11,8 +11,17 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Alert } from '@/components/ui/alert';
-import { Loader2, Link as LinkIcon, Unlink, AlertCircle } from 'lucide-react';
-import type { OAuthProvider } from '@/lib/auth/oauth/providers';
+import {
+  Loader2,
+  Link as LinkIcon,
+  Unlink,
+  AlertCircle,
+  KeyRound,
+} from 'lucide-react';
+import type {
+  EnabledOAuthProvider,
+  OAuthProvider,
+} from '@/lib/auth/oauth/providers';
 import { apiDelete } from '@/lib/api-client';
 
 interface OAuthAccount {
@@ -57,7 +66,9 @@ const providerIcons: Record<string, React.ReactNode> = {
 export function OAuthAccounts() {
   const searchParams = useSearchParams();
   const [accounts, setAccounts] = useState<OAuthAccount[]>([]);
-  const [enabledProviders, setEnabledProviders] = useState<OAuthProvider[]>([]);
+  const [enabledProviders, setEnabledProviders] = useState<
+    EnabledOAuthProvider[]
+  >([]);
   const [hasPassword, setHasPassword] = useState(true);
   const [loading, setLoading] = useState(true);
   const [unlinking, setUnlinking] = useState<string | null>(null);
@@ -131,6 +142,9 @@ export function OAuthAccounts() {
   };
 
   const formatProvider = (provider: string) => {
+    const enabled = enabledProviders.find((p) => p.id === provider);
+    if (enabled) return enabled.name;
+    if (provider.startsWith('saml:')) return `${provider.slice(5)} SSO`;
     return provider.charAt(0).toUpperCase() + provider.slice(1);
   };
 
@@ -144,7 +158,7 @@ export function OAuthAccounts() {
 
   const linkedProviders = accounts.map((a) => a.provider);
   const availableProviders = enabledProviders.filter(
-    (p) => !linkedProviders.includes(p)
+    (p) => !linkedProviders.includes(p.id)
   );
   const canUnlink = hasPassword || accounts.length > 1;
 
@@ -190,7 +204,7 @@ export function OAuthAccounts() {
                 <div className="flex items-center gap-3">
                   <div className="text-gray-700">
                     {providerIcons[account.provider] || (
-                      <LinkIcon className="h-5 w-5" />
+                      <KeyRound className="h-5 w-5" />
                     )}
                   </div>
                   <div>
@@ -243,12 +257,14 @@ export function OAuthAccounts() {
             <div className="flex gap-3">
               {availableProviders.map((provider) => (
                 <Button
-                  key={provider}
+                  key={provider.id}
                   variant="outline"
-                  onClick={() => handleLink(provider)}
+                  onClick={() => handleLink(provider.id)}
                 >
-                  {providerIcons[provider]}
-                  <span className="ml-2">{formatProvider(provider)}</span>
+                  {providerIcons[provider.id] || (
+                    <KeyRound className="h-5 w-5" />
+                  )}
+                  <span className="ml-2">{provider.name}</span>
                 </Button>
               ))}
             </div>
@@ -0,0 +1,250 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  startRegistration,
+  browserSupportsWebAuthn,
+} from '@simplewebauthn/browser';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Fingerprint, Loader2, Plus, Trash2 } from 'lucide-react';
+import { apiPost, apiDelete } from '@/lib/api-client';
+
+interface Passkey {
+  id: string;
+  name: string;
+  deviceType: string;
+  backedUp: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export function Passkeys() {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [limit, setLimit] = useState(0);
+  const [supported, setSupported] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [registering, setRegistering] = useState(false);
+  const [removing, setRemoving] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    setSupported(browserSupportsWebAuthn());
+    fetchPasskeys();
+  }, []);
+
+  const fetchPasskeys = async () => {
+    try {
+      const res = await fetch('/api/auth/webauthn/credentials');
+      if (!res.ok) throw new Error('Failed to fetch passkeys');
+      const data = await res.json();
+      setPasskeys(data.passkeys);
+      setLimit(data.limit);
+    } catch {
+      setError('Failed to load passkeys');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegister = async () => {
+    setRegistering(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const optionsRes = await apiPost('/api/auth/webauthn/register/options');
+      const optionsJSON = await optionsRes.json();
+      if (!optionsRes.ok) {
+        throw new Error(
+          optionsJSON.error?.message || 'Failed to start registration'
+        );
+      }
+
+      const response = await startRegistration({ optionsJSON });
+
+      const verifyRes = await apiPost('/api/auth/webauthn/register/verify', {
+        name: name.trim() || 'Passkey',
+        response,
+      });
+      const data = await verifyRes.json();
+      if (!verifyRes.ok) {
+        throw new Error(data.error?.message || 'Failed to register passkey');
+      }
+
+      setPasskeys((prev) => [data.passkey, ...prev]);
+      setName('');
+      setSuccess('Passkey added successfully');
+    } catch (err) {
+      // The browser throws NotAllowedError when the user cancels the prompt
+      if (err instanceof Error && err.name === 'NotAllowedError') {
+        setError('Passkey registration was cancelled');
+      } else {
+        setError(
+          err instanceof Error ? err.message : 'Failed to register passkey'
+        );
+      }
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    if (!confirm(`Are you sure you want to remove "${passkey.name}"?`)) {
+      return;
+    }
+
+    setRemoving(passkey.id);
+    setError('');
+    setSuccess('');
+
+    try {
+      const res = await apiDelete(
+        `/api/auth/webauthn/credentials/${passkey.id}`
+      );
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error?.message || 'Failed to remove passkey');
+      }
+
+      setPasskeys((prev) => prev.filter((p) => p.id !== passkey.id));
+      setSuccess('Passkey removed');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove passkey');
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Fingerprint className="h-5 w-5" />
+            Passkeys
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card data-testid="passkeys">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fingerprint className="h-5 w-5" />
+          Passkeys
+        </CardTitle>
+        <CardDescription>
+          Sign in with your device&apos;s fingerprint, face, screen lock or a
+          security key
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="error">{error}</Alert>}
+        {success && <Alert variant="success">{success}</Alert>}
+
+        {!supported && (
+          <Alert variant="warning">
+            This browser does not support passkeys.
+          </Alert>
+        )}
+
+        {passkeys.length > 0 && (
+          <div className="space-y-3">
+            {passkeys.map((passkey) => (
+              <div
+                key={passkey.id}
+                className="flex items-center justify-between rounded-lg border p-4"
+                data-testid="passkey-item"
+              >
+                <div>
+                  <div className="font-medium">{passkey.name}</div>
+                  <div className="text-sm text-gray-500">
+                    {passkey.backedUp ? 'Synced' : 'This device only'} &middot;
+                    Added {formatDate(passkey.createdAt)}
+                    {passkey.lastUsedAt &&
+                      ` · Last used ${formatDate(passkey.lastUsedAt)}`}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRemove(passkey)}
+                  disabled={removing === passkey.id}
+                  className="text-red-600 hover:bg-red-50 hover:text-red-700"
+                  data-testid="passkey-remove"
+                >
+                  {removing === passkey.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <>
+                      <Trash2 className="mr-1 h-4 w-4" />
+                      Remove
+                    </>
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {passkeys.length === 0 && (
+          <p className="text-sm text-gray-500">
+            You haven&apos;t added any passkeys yet.
+          </p>
+        )}
+
+        {supported && passkeys.length < limit && (
+          <div className="flex gap-3 border-t pt-4">
+            <Input
+              placeholder="Passkey name (e.g. MacBook Touch ID)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={50}
+              disabled={registering}
+              data-testid="passkey-name-input"
+            />
+            <Button
+              onClick={handleRegister}
+              disabled={registering}
+              data-testid="passkey-add"
+            >
+              {registering ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <>
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add passkey
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,9 +8,18 @@ import { FieldError } from '@/components/ui/field-error';
 import { PasswordStrengthMeter } from '@/components/ui/password-strength-meter';
 import { ChangePasswordInput } from '@/lib/validations';
 import { AuthError } from '@/types/auth';
-import { apiPatch } from '@/lib/api-client';
+import { apiPatch, apiPost } from '@/lib/api-client';
 
-export function PasswordChangeForm() {
+interface PasswordChangeFormProps {
+  /** The session is limited to this change (expired or admin-reset password) */
+  required?: boolean;
+  onSuccess?: () => void;
+}
+
+export function PasswordChangeForm({
+  required = false,
+  onSuccess,
+}: PasswordChangeFormProps = {}) {
   const [formData, setFormData] = useState<ChangePasswordInput>({
     currentPassword: '',
     newPassword: '',
@@ -29,7 +38,9 @@ export function PasswordChangeForm() {
     setErrors({});
 
     try {
-      const response = await apiPatch('/api/users/profile', formData);
+      const response = required
+        ? await apiPost('/api/auth/change-password', formData)
+        : await apiPatch('/api/users/profile', formData);
 
       const data = await response.json();
 
@@ -51,6 +62,7 @@ export function PasswordChangeForm() {
         newPassword: '',
         confirmPassword: '',
       });
+      onSuccess?.();
     } catch {
       setError('An unexpected error occurred. Please try again.');
     } finally {
@@ -0,0 +1,296 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, X } from 'lucide-react';
+import { apiDelete, apiPost } from '@/lib/api-client';
+
+type RoleRequestStatus =
+  | 'PENDING'
+  | 'APPROVED'
+  | 'DENIED'
+  | 'CANCELLED'
+  | 'EXPIRED';
+
+interface RoleRequest {
+  id: string;
+  justification: string;
+  durationMinutes: number;
+  status: RoleRequestStatus;
+  reviewNote: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  role: { name: string };
+  organization: { name: string } | null;
+}
+
+interface RoleRequestOptions {
+  requests: RoleRequest[];
+  roles: { name: string; description: string | null }[];
+  organizations: { id: string; name: string }[];
+  limits: { minDurationMinutes: number; maxDurationHours: number };
+}
+
+const STATUS_BADGES: Record<
+  RoleRequestStatus,
+  { label: string; variant: 'default' | 'secondary' | 'destructive' }
+> = {
+  PENDING: { label: 'Pending', variant: 'secondary' },
+  APPROVED: { label: 'Approved', variant: 'default' },
+  DENIED: { label: 'Denied', variant: 'destructive' },
+  CANCELLED: { label: 'Cancelled', variant: 'secondary' },
+  EXPIRED: { label: 'Expired', variant: 'secondary' },
+};
+
+const DURATIONS_MINUTES = [15, 30, 60, 120, 240, 480, 1440];
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+export function RoleRequests() {
+  const [options, setOptions] = useState<RoleRequestOptions | null>(null);
+  const [role, setRole] = useState('');
+  const [organizationId, setOrganizationId] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [justification, setJustification] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const response = await fetch('/api/users/role-requests');
+      if (response.ok) {
+        setOptions(await response.json());
+      }
+    } catch {
+      // The form stays unavailable until the options load
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const durations = options
+    ? DURATIONS_MINUTES.filter(
+        (minutes) =>
+          minutes >= options.limits.minDurationMinutes &&
+          minutes <= options.limits.maxDurationHours * 60
+      )
+    : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await apiPost('/api/users/role-requests', {
+        role,
+        organizationId: organizationId || null,
+        durationMinutes,
+        justification,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error?.message || 'Failed to request the role');
+        return;
+      }
+
+      setSuccess(data.message);
+      setJustification('');
+      fetchRequests();
+    } catch {
+      setError('Failed to request the role');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (request: RoleRequest) => {
+    setError('');
+    setSuccess('');
+
+    const response = await apiDelete(`/api/users/role-requests/${request.id}`);
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error?.message || 'Failed to cancel the request');
+      return;
+    }
+    fetchRequests();
+  };
+
+  return (
+    <Card data-testid="role-requests-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Request Elevated Access
+        </CardTitle>
+        <CardDescription>
+          Ask an administrator for a role for a limited time. The role is
+          removed automatically when the time is up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="error">{error}</Alert>}
+        {success && <Alert variant="success">{success}</Alert>}
+
+        {options && (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+              <div>
+                <label
+                  htmlFor="role-request-role"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Role
+                </label>
+                <select
+                  id="role-request-role"
+                  value={role}
+                  onChange={(e) => setRole(e.target.value)}
+                  required
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                >
+                  <option value="">Select a role</option>
+                  {options.roles.map((r) => (
+                    <option key={r.name} value={r.name}>
+                      {r.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor="role-request-scope"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Scope
+                </label>
+                <select
+                  id="role-request-scope"
+                  value={organizationId}
+                  onChange={(e) => setOrganizationId(e.target.value)}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                >
+                  <option value="">Platform-wide</option>
+                  {options.organizations.map((org) => (
+                    <option key={org.id} value={org.id}>
+                      {org.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor="role-request-duration"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  For
+                </label>
+                <select
+                  id="role-request-duration"
+                  value={durationMinutes}
+                  onChange={(e) => setDurationMinutes(Number(e.target.value))}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                >
+                  {durations.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {formatDuration(minutes)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label
+                htmlFor="role-request-justification"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Justification
+              </label>
+              <textarea
+                id="role-request-justification"
+                value={justification}
+                onChange={(e) => setJustification(e.target.value)}
+                required
+                minLength={10}
+                maxLength={1000}
+                rows={3}
+                placeholder="What do you need the role for? Include a ticket number if there is one."
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </div>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Sending...' : 'Request Access'}
+            </Button>
+          </form>
+        )}
+
+        {options && options.requests.length > 0 && (
+          <ul
+            className="divide-y divide-gray-100 rounded-md border border-gray-200 text-sm"
+            data-testid="role-request-list"
+          >
+            {options.requests.map((request) => (
+              <li
+                key={request.id}
+                className="flex items-center justify-between gap-3 px-3 py-2"
+              >
+                <div>
+                  <div className="text-gray-900">
+                    {request.role.name}{' '}
+                    <span className="text-gray-500">
+                      {request.organization
+                        ? `in ${request.organization.name}`
+                        : 'platform-wide'}
+                      , {formatDuration(request.durationMinutes)}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Requested {new Date(request.createdAt).toLocaleString()}
+                    {request.status === 'APPROVED' &&
+                      request.expiresAt &&
+                      ` · until ${new Date(request.expiresAt).toLocaleString()}`}
+                    {request.reviewNote && ` · ${request.reviewNote}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={STATUS_BADGES[request.status].variant}>
+                    {STATUS_BADGES[request.status].label}
+                  </Badge>
+                  {request.status === 'PENDING' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCancel(request)}
+                    >
+                      <X className="mr-1 h-4 w-4" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
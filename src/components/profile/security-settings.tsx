@@ -13,24 +13,32 @@ import {
 import { Alert } from '@/components/ui/alert';
 import { TwoFactorSetup } from './two-factor-setup';
 import { apiPost } from '@/lib/api-client';
+import type { TwoFactorMethod } from '@/types/auth';
 
 interface SecuritySettingsProps {
   twoFactorEnabled: boolean;
+  twoFactorMethod: TwoFactorMethod;
   isAdmin: boolean;
+  /** A mandatory 2FA policy (organization or platform role) covers the user */
+  twoFactorRequired: boolean;
   remainingBackupCodes: number;
 }
 
 export function SecuritySettings({
   twoFactorEnabled,
+  twoFactorMethod,
   isAdmin,
+  twoFactorRequired,
   remainingBackupCodes,
 }: SecuritySettingsProps) {
   const router = useRouter();
+  const canDisable = !isAdmin && !twoFactorRequired;
   const [showSetup, setShowSetup] = useState(false);
   const [showDisable, setShowDisable] = useState(false);
   const [disableCode, setDisableCode] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
 
   const handleSetupComplete = () => {
     setShowSetup(false);
@@ -63,6 +71,27 @@ export function SecuritySettings({
     }
   };
 
+  const handleSendCode = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiPost('/api/auth/2fa/email-code');
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error?.message || 'Failed to send code');
+        return;
+      }
+
+      setCodeSent(true);
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   if (showSetup) {
     return (
       <TwoFactorSetup
@@ -81,10 +110,12 @@ export function SecuritySettings({
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        {isAdmin && !twoFactorEnabled && (
-          <Alert variant="warning">
-            Two-factor authentication is required for admin accounts. Please
-            enable it now.
+        {!canDisable && !twoFactorEnabled && (
+          <Alert variant="warning" data-testid="2fa-required-alert">
+            {isAdmin
+              ? 'Two-factor authentication is required for admin accounts.'
+              : 'Two-factor authentication is required for your account.'}{' '}
+            Please enable it now.
           </Alert>
         )}
 
@@ -94,6 +125,10 @@ export function SecuritySettings({
               <div>
                 <p className="font-medium text-green-800">2FA is enabled</p>
                 <p className="text-sm text-green-600">
+                  {twoFactorMethod === 'email'
+                    ? 'Sign-in codes are sent to your email'
+                    : 'Using an authenticator app'}
+                  {' · '}
                   {remainingBackupCodes} backup codes remaining
                 </p>
               </div>
@@ -110,8 +145,21 @@ export function SecuritySettings({
             {showDisable ? (
               <div className="space-y-3 rounded-lg border p-4">
                 <p className="text-sm">
-                  Enter your current 2FA code to disable:
+                  {twoFactorMethod === 'email'
+                    ? 'Enter the code we emailed you to disable:'
+                    : 'Enter your current 2FA code to disable:'}
                 </p>
+                {twoFactorMethod === 'email' && (
+                  <button
+                    type="button"
+                    onClick={handleSendCode}
+                    className="text-sm text-blue-600 hover:text-blue-500"
+                    disabled={isLoading}
+                    data-testid="send-disable-code-button"
+                  >
+                    {codeSent ? 'Send a new code' : 'Email me a code'}
+                  </button>
+                )}
                 {error && (
                   <Alert variant="error" data-testid="error-message">
                     {error}
@@ -134,6 +182,7 @@ export function SecuritySettings({
                     onClick={() => {
                       setShowDisable(false);
                       setDisableCode('');
+                      setCodeSent(false);
                       setError('');
                     }}
                     disabled={isLoading}
@@ -151,7 +200,7 @@ export function SecuritySettings({
                 </div>
               </div>
             ) : (
-              !isAdmin && (
+              canDisable && (
                 <Button
                   variant="secondary"
                   onClick={() => setShowDisable(true)}
@@ -162,9 +211,11 @@ export function SecuritySettings({
               )
             )}
 
-            {isAdmin && (
+            {!canDisable && (
               <p className="text-sm text-gray-500">
-                As an admin, you cannot disable two-factor authentication.
+                {isAdmin
+                  ? 'As an admin, you cannot disable two-factor authentication.'
+                  : 'Two-factor authentication is required for your account and cannot be disabled.'}
               </p>
             )}
           </>
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert } from '@/components/ui/alert';
 import { apiPost } from '@/lib/api-client';
+import type { TwoFactorMethod } from '@/types/auth';
 
 interface TwoFactorSetupProps {
   onComplete: () => void;
@@ -13,11 +14,14 @@ interface TwoFactorSetupProps {
 
 type Step = 'loading' | 'display' | 'verify';
 
-interface SetupData {
-  qrCodeDataUrl: string;
-  manualEntryKey: string;
-  backupCodes: string[];
-}
+type SetupData =
+  | {
+      method: 'totp';
+      qrCodeDataUrl: string;
+      manualEntryKey: string;
+      backupCodes: string[];
+    }
+  | { method: 'email'; backupCodes: string[] };
 
 export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
   const [step, setStep] = useState<Step>('loading');
@@ -26,13 +30,14 @@ export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [copiedCodes, setCopiedCodes] = useState(false);
+  const [codeResent, setCodeResent] = useState(false);
 
-  const startSetup = async () => {
+  const startSetup = async (method: TwoFactorMethod = 'totp') => {
     setIsLoading(true);
     setError('');
 
     try {
-      const response = await apiPost('/api/auth/2fa/setup');
+      const response = await apiPost('/api/auth/2fa/setup', { method });
 
       const data = await response.json();
 
@@ -42,6 +47,8 @@ export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
       }
 
       setSetupData(data);
+      setCopiedCodes(false);
+      setVerifyCode('');
       setStep('display');
     } catch {
       setError('An unexpected error occurred');
@@ -50,6 +57,27 @@ export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
     }
   };
 
+  const resendEmailCode = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiPost('/api/auth/2fa/email-code');
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error?.message || 'Failed to send code');
+        return;
+      }
+
+      setCodeResent(true);
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const verifySetup = async () => {
     setIsLoading(true);
     setError('');
@@ -115,7 +143,7 @@ export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
                 <Button variant="secondary" onClick={onCancel}>
                   Cancel
                 </Button>
-                <Button onClick={startSetup} disabled={isLoading}>
+                <Button onClick={() => startSetup()} disabled={isLoading}>
                   {isLoading ? 'Retrying...' : 'Try Again'}
                 </Button>
               </div>
@@ -141,29 +169,57 @@ export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
             </Alert>
           )}
 
-          <div className="space-y-4">
-            <h3 className="font-medium">1. Scan QR Code</h3>
-            <p className="text-sm text-gray-600">
-              Scan this QR code with your authenticator app (Google
-              Authenticator, Authy, etc.)
-            </p>
-            <div className="flex justify-center">
-              {/* eslint-disable-next-line @next/next/no-img-element */}
-              <img
-                src={setupData.qrCodeDataUrl}
-                alt="2FA QR Code"
-                className="rounded-lg border"
-              />
+          {setupData.method === 'totp' ? (
+            <div className="space-y-4">
+              <h3 className="font-medium">1. Scan QR Code</h3>
+              <p className="text-sm text-gray-600">
+                Scan this QR code with your authenticator app (Google
+                Authenticator, Authy, etc.)
+              </p>
+              <div className="flex justify-center">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={setupData.qrCodeDataUrl}
+                  alt="2FA QR Code"
+                  className="rounded-lg border"
+                />
+              </div>
+              <details className="text-sm">
+                <summary className="cursor-pointer text-blue-600">
+                  Can&apos;t scan? Enter manually
+                </summary>
+                <code className="mt-2 block rounded bg-gray-100 p-2 break-all">
+                  {setupData.manualEntryKey}
+                </code>
+              </details>
+              <button
+                type="button"
+                onClick={() => startSetup('email')}
+                className="text-sm text-blue-600 hover:text-blue-500"
+                disabled={isLoading}
+                data-testid="2fa-method-email"
+              >
+                No authenticator app? Use codes sent by email instead
+              </button>
             </div>
-            <details className="text-sm">
-              <summary className="cursor-pointer text-blue-600">
-                Can&apos;t scan? Enter manually
-              </summary>
-              <code className="mt-2 block rounded bg-gray-100 p-2 break-all">
-                {setupData.manualEntryKey}
-              </code>
-            </details>
-          </div>
+          ) : (
+            <div className="space-y-4">
+              <h3 className="font-medium">1. Check Your Email</h3>
+              <p className="text-sm text-gray-600">
+                We sent a 6-digit code to your email address. From now on,
+                you&apos;ll get a new code by email each time you sign in.
+              </p>
+              <button
+                type="button"
+                onClick={() => startSetup('totp')}
+                className="text-sm text-blue-600 hover:text-blue-500"
+                disabled={isLoading}
+                data-testid="2fa-method-totp"
+              >
+                Use an authenticator app instead
+              </button>
+            </div>
+          )}
 
           <div className="space-y-4 border-t pt-4">
             <h3 className="font-medium">2. Save Backup Codes</h3>
@@ -218,7 +274,9 @@ export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
           )}
 
           <p className="text-sm text-gray-600">
-            Enter a code from your authenticator app to complete setup.
+            {setupData?.method === 'email'
+              ? 'Enter the code we emailed you to complete setup.'
+              : 'Enter a code from your authenticator app to complete setup.'}
           </p>
 
           <input
@@ -233,6 +291,17 @@ export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
             autoFocus
           />
 
+          {setupData?.method === 'email' && (
+            <button
+              type="button"
+              onClick={resendEmailCode}
+              className="text-sm text-blue-600 hover:text-blue-500"
+              disabled={isLoading}
+            >
+              {codeResent ? 'Code sent - send another' : 'Send a new code'}
+            </button>
+          )}
+
           <div className="flex gap-2">
             <Button variant="secondary" onClick={() => setStep('display')}>
               Back
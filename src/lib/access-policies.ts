@@ -0,0 +1,188 @@
+/**
+ * Admin management of access policies.
+ *
+ * Policies are validated with the condition schema before they are saved and
+ * the PolicyVoter's cache is cleared after every change. See
+ * src/lib/security/policy.ts for the condition language.
+ */
+import type { AccessPolicy, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { logAuditEvent } from '@/lib/audit';
+import {
+  accessPolicySchema,
+  policyTestCaseSchema,
+  runPolicyTests,
+  type AccessPolicyInput,
+} from '@/lib/security/policy';
+import { clearAccessPolicyCache } from '@/lib/security/voters';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@/services/auth.errors';
+
+const updateAccessPolicySchema = accessPolicySchema
+  .extend({ enabled: z.boolean() })
+  .partial();
+
+const testAccessPolicySchema = z.object({
+  policy: accessPolicySchema.pick({
+    effect: true,
+    permissions: true,
+    condition: true,
+  }),
+  cases: z.array(policyTestCaseSchema).min(1, 'Add at least one test case'),
+});
+
+type Issue = z.core.$ZodIssue;
+
+/**
+ * Replace union failures with the issues of the branch the input was meant
+ * for: the one whose keys matched, i.e. with the fewest top-level issues
+ */
+function flattenIssues(
+  issues: Issue[],
+  prefix: PropertyKey[] = []
+): { path: string; message: string }[] {
+  return issues.flatMap((issue) => {
+    const path = [...prefix, ...issue.path];
+    if (issue.code !== 'invalid_union' || issue.errors.length === 0) {
+      return [{ path: path.map(String).join('.'), message: issue.message }];
+    }
+
+    const rootIssues = (branch: Issue[]) =>
+      branch.filter((i) => i.path.length === 0 && i.code !== 'invalid_union')
+        .length;
+    const closest = issue.errors.reduce((best, branch) =>
+      rootIssues(branch) < rootIssues(best) ? branch : best
+    );
+    return flattenIssues(closest, path);
+  });
+}
+
+/**
+ * Parse input with a schema, reporting every issue with its path (conditions
+ * nest, so field names alone do not say where the problem is)
+ */
+function parseInput<T>(schema: z.ZodType<T>, input: unknown): T {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new ValidationError('Invalid policy', {
+      issues: flattenIssues(result.error.issues),
+    });
+  }
+  return result.data;
+}
+
+async function assertNameAvailable(name: string, exceptId?: string) {
+  const existing = await prisma.accessPolicy.findUnique({
+    where: { name },
+    select: { id: true },
+  });
+  if (existing && existing.id !== exceptId) {
+    throw new ConflictError('An access policy with this name already exists');
+  }
+}
+
+export function listAccessPolicies(): Promise<AccessPolicy[]> {
+  return prisma.accessPolicy.findMany({ orderBy: { name: 'asc' } });
+}
+
+export async function getAccessPolicy(id: string): Promise<AccessPolicy> {
+  const policy = await prisma.accessPolicy.findUnique({ where: { id } });
+  if (!policy) {
+    throw new NotFoundError('Access policy not found');
+  }
+  return policy;
+}
+
+export async function createAccessPolicy(
+  input: unknown,
+  adminId: string
+): Promise<AccessPolicy> {
+  const data: AccessPolicyInput = parseInput(accessPolicySchema, input);
+  await assertNameAvailable(data.name);
+
+  const policy = await prisma.accessPolicy.create({
+    data: {
+      ...data,
+      description: data.description ?? null,
+      condition: data.condition as Prisma.InputJsonValue,
+    },
+  });
+  clearAccessPolicyCache();
+
+  await logAuditEvent({
+    action: 'ADMIN_POLICY_CREATED',
+    category: 'admin',
+    userId: adminId,
+    metadata: {
+      policyId: policy.id,
+      name: policy.name,
+      effect: policy.effect,
+      permissions: policy.permissions,
+    },
+  });
+
+  return policy;
+}
+
+export async function updateAccessPolicy(
+  id: string,
+  input: unknown,
+  adminId: string
+): Promise<AccessPolicy> {
+  const data = parseInput(updateAccessPolicySchema, input);
+  const existing = await getAccessPolicy(id);
+  if (data.name && data.name !== existing.name) {
+    await assertNameAvailable(data.name, id);
+  }
+
+  const policy = await prisma.accessPolicy.update({
+    where: { id },
+    data: {
+      ...data,
+      condition: data.condition as Prisma.InputJsonValue | undefined,
+    },
+  });
+  clearAccessPolicyCache();
+
+  await logAuditEvent({
+    action: 'ADMIN_POLICY_UPDATED',
+    category: 'admin',
+    userId: adminId,
+    metadata: {
+      policyId: policy.id,
+      name: policy.name,
+      changes: Object.keys(data),
+    },
+  });
+
+  return policy;
+}
+
+export async function deleteAccessPolicy(
+  id: string,
+  adminId: string
+): Promise<void> {
+  const policy = await getAccessPolicy(id);
+
+  await prisma.accessPolicy.delete({ where: { id } });
+  clearAccessPolicyCache();
+
+  await logAuditEvent({
+    action: 'ADMIN_POLICY_DELETED',
+    category: 'admin',
+    userId: adminId,
+    metadata: { policyId: policy.id, name: policy.name },
+  });
+}
+
+/**
+ * Validate a policy and run it against sample checks without saving it
+ */
+export function testAccessPolicy(input: unknown) {
+  const { policy, cases } = parseInput(testAccessPolicySchema, input);
+  return runPolicyTests(policy, cases);
+}
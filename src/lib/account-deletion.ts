@@ -0,0 +1,374 @@
+/**
+ * Account deletion with a grace period.
+ *
+ * A deletion request locks the account as PENDING_DELETION and emails a link
+ * that cancels it. Once the grace period ends, `purgeDueAccountDeletions`
+ * (run on a schedule) deletes the account. Audit and email logs outlive the
+ * account: they are anonymized under a pseudonym instead of keeping the
+ * user's email address, IP addresses and email bodies.
+ *
+ * Organizations are never left without an administrator: the last
+ * administrator of an organization with other members cannot delete their
+ * account, organizations the user owns are handed to another administrator,
+ * and organizations without other members are deleted with the account.
+ */
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/db';
+import { env } from '@/lib/env';
+import log from '@/lib/logger';
+import { logAuditEvent } from '@/lib/audit';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { ROLES } from '@/lib/security/index';
+import { checkLastOrgAdmin } from '@/lib/security/role-safeguards';
+import { generateResetToken, hashResetToken } from '@/lib/security';
+import { sendAccountDeletionScheduledEmail } from '@/lib/email';
+import { changeUserStatus } from '@/lib/auth/user-status';
+import { AuthorizationError, TokenInvalidError } from '@/services/auth.errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ADMIN_ROLES: string[] = [ROLES.ADMIN, ROLES.OWNER];
+
+export interface AccountDeletionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface OrganizationHandoff {
+  /**
+   * Organizations whose last administrator the user is, or that the user owns
+   * without a permanent administrator to take over
+   */
+  blockedBy: { id: string; name: string }[];
+  /** Organizations without other members, deleted with the account */
+  deletes: { id: string; name: string }[];
+  /** Organizations the user owns and another administrator takes over */
+  transfers: {
+    id: string;
+    name: string;
+    ownerRoleId: string;
+    successor: { id: string; userId: string };
+  }[];
+}
+
+export function getDeletionGracePeriodDays(): number {
+  return (
+    env.ACCOUNT_DELETION_GRACE_DAYS ??
+    SECURITY_CONFIG.accountDeletion.gracePeriodDays
+  );
+}
+
+/**
+ * Work out what happens to the user's organizations when their account is
+ * deleted.
+ */
+async function planOrganizationHandoff(
+  userId: string
+): Promise<OrganizationHandoff> {
+  const memberships = await prisma.userRole.findMany({
+    where: { userId, organizationId: { not: null } },
+    select: {
+      organizationId: true,
+      role: { select: { id: true, name: true } },
+      organization: { select: { name: true } },
+    },
+  });
+
+  const handoff: OrganizationHandoff = {
+    blockedBy: [],
+    deletes: [],
+    transfers: [],
+  };
+
+  for (const { organizationId, role, organization } of memberships) {
+    if (!organizationId || !organization) continue;
+    const org = { id: organizationId, name: organization.name };
+
+    const otherMembers = await prisma.userRole.count({
+      where: { organizationId, userId: { not: userId } },
+    });
+    if (otherMembers === 0) {
+      handoff.deletes.push(org);
+      continue;
+    }
+    if (!ADMIN_ROLES.includes(role.name)) continue;
+
+    const safeguard = await checkLastOrgAdmin(
+      userId,
+      organizationId,
+      role.name,
+      userId
+    );
+    if (!safeguard.allowed) {
+      handoff.blockedBy.push(org);
+      continue;
+    }
+    if (role.name !== ROLES.OWNER) continue;
+
+    // The new owner keeps the membership's time window, so only a permanent
+    // admin assignment in effect can take over
+    const now = new Date();
+    const successor = await prisma.userRole.findFirst({
+      where: {
+        organizationId,
+        userId: { not: userId },
+        role: { name: ROLES.ADMIN },
+        expiresAt: null,
+        OR: [{ startsAt: null }, { startsAt: { lte: now } }],
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, userId: true },
+    });
+    if (successor) {
+      handoff.transfers.push({ ...org, ownerRoleId: role.id, successor });
+    } else {
+      handoff.blockedBy.push(org);
+    }
+  }
+
+  return handoff;
+}
+
+function lastAdministratorError(organizations: { name: string }[]) {
+  const names = organizations.map((org) => `"${org.name}"`).join(', ');
+  return new AuthorizationError(
+    `You are the last administrator of ${names}. Make another member an administrator before deleting your account.`
+  );
+}
+
+/**
+ * Lock the account and schedule its deletion at the end of the grace
+ * period. The user is emailed a link that cancels the deletion. Without a
+ * grace period the account is deleted right away.
+ *
+ * @throws AuthorizationError when the user is the last administrator of an
+ *   organization with other members
+ * @returns When the account will be deleted, or null when it already was
+ */
+export async function scheduleAccountDeletion(
+  user: { id: string; email: string; firstName?: string | null },
+  context: AccountDeletionContext
+): Promise<Date | null> {
+  const handoff = await planOrganizationHandoff(user.id);
+  if (handoff.blockedBy.length > 0) {
+    throw lastAdministratorError(handoff.blockedBy);
+  }
+
+  const gracePeriodDays = getDeletionGracePeriodDays();
+  if (gracePeriodDays === 0) {
+    await purgeAccount(user.id, context);
+    return null;
+  }
+
+  const deletesAt = new Date(Date.now() + gracePeriodDays * DAY_MS);
+  const token = await generateResetToken();
+
+  await changeUserStatus(user.id, 'PENDING_DELETION', {
+    reason: 'Deletion requested by the user',
+    expiresAt: deletesAt,
+  });
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { deletionCancelToken: await hashResetToken(token) },
+  });
+
+  await logAuditEvent({
+    action: 'ACCOUNT_DELETION_SCHEDULED',
+    category: 'security',
+    userId: user.id,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: {
+      deletesAt: deletesAt.toISOString(),
+      organizationsToDelete: handoff.deletes.map((org) => org.id),
+    },
+  });
+
+  sendAccountDeletionScheduledEmail(
+    user.email,
+    token,
+    deletesAt,
+    user.firstName ?? undefined,
+    user.id
+  ).catch((err) => log.email.failed('account_deletion', user.email, err));
+
+  return deletesAt;
+}
+
+/**
+ * Cancel a pending deletion with the emailed link and reactivate the account.
+ *
+ * @throws TokenInvalidError when the link is unknown or the account is no
+ *   longer pending deletion
+ */
+export async function cancelAccountDeletion(
+  token: string,
+  context: AccountDeletionContext
+): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { deletionCancelToken: await hashResetToken(token) },
+    select: { id: true, status: true },
+  });
+
+  if (!user || user.status !== 'PENDING_DELETION') {
+    throw new TokenInvalidError('Invalid or already used cancellation link');
+  }
+
+  await changeUserStatus(user.id, 'ACTIVE', {
+    reason: 'Deletion cancelled by the user',
+  });
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { deletionCancelToken: null },
+  });
+
+  await logAuditEvent({
+    action: 'ACCOUNT_DELETION_CANCELLED',
+    category: 'security',
+    userId: user.id,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: { method: 'email_link' },
+  });
+}
+
+/**
+ * Delete the account for good. Its audit and email logs are kept under a
+ * pseudonym. Organizations are handed over or deleted as planned; when an
+ * organization has lost its other administrators since the deletion was
+ * requested, the account stays pending until one is appointed.
+ *
+ * @returns Whether the account was deleted
+ */
+export async function purgeAccount(
+  userId: string,
+  context: AccountDeletionContext = {}
+): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true },
+  });
+  if (!user) return false;
+
+  const handoff = await planOrganizationHandoff(userId);
+  if (handoff.blockedBy.length > 0) {
+    await logAuditEvent({
+      action: 'ACCOUNT_DELETION_BLOCKED',
+      category: 'security',
+      userId,
+      metadata: {
+        reason: 'last_org_admin',
+        organizationIds: handoff.blockedBy.map((org) => org.id),
+      },
+    });
+    return false;
+  }
+
+  // Stands in for the user in the logs that outlive the account
+  const pseudonym = `deleted-user-${randomUUID()}`;
+  const anonymizedEmail = `${pseudonym}@deleted.invalid`;
+
+  // Other users' events can name the user, e.g. as the target of an admin
+  const mentions = await prisma.auditLog.findMany({
+    where: { userId: { not: userId }, metadata: { contains: user.email } },
+    select: { id: true, metadata: true },
+  });
+
+  await prisma.$transaction(async (tx) => {
+    for (const { successor, ...organization } of handoff.transfers) {
+      await tx.userRole.update({
+        where: { id: successor.id },
+        data: { roleId: organization.ownerRoleId },
+      });
+      await tx.auditLog.create({
+        data: {
+          action: 'ADMIN_ORG_OWNERSHIP_TRANSFER',
+          category: 'admin',
+          metadata: JSON.stringify({
+            organizationId: organization.id,
+            organizationName: organization.name,
+            previousOwnerId: pseudonym,
+            newOwnerId: successor.userId,
+            reason: 'account_deleted',
+          }),
+        },
+      });
+    }
+
+    // Cascades to the organization's memberships and invites
+    for (const organization of handoff.deletes) {
+      await tx.organization.delete({ where: { id: organization.id } });
+    }
+    // Invites the user sent to organizations that stay
+    await tx.organizationInvite.deleteMany({ where: { invitedById: userId } });
+
+    await tx.auditLog.updateMany({
+      where: { userId },
+      data: {
+        userId: null,
+        ipAddress: null,
+        userAgent: null,
+        metadata: JSON.stringify({ anonymizedUserId: pseudonym }),
+      },
+    });
+    for (const mention of mentions) {
+      await tx.auditLog.update({
+        where: { id: mention.id },
+        data: {
+          metadata: mention.metadata?.split(user.email).join(anonymizedEmail),
+        },
+      });
+    }
+
+    await tx.emailLog.updateMany({
+      where: { OR: [{ userId }, { to: user.email }] },
+      data: {
+        userId: null,
+        to: anonymizedEmail,
+        htmlBody: '[PURGED]',
+        deletedAt: new Date(),
+      },
+    });
+
+    // Cascades to sessions, tokens, roles, OAuth accounts and API keys
+    await tx.user.delete({ where: { id: userId } });
+  });
+
+  await logAuditEvent({
+    action: 'ACCOUNT_DELETED',
+    category: 'security',
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: {
+      anonymizedUserId: pseudonym,
+      organizationsDeleted: handoff.deletes.map((org) => org.id),
+      organizationsTransferred: handoff.transfers.map((org) => org.id),
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Purge every account whose grace period has ended. Meant to run on a
+ * schedule, e.g. daily.
+ */
+export async function purgeDueAccountDeletions(): Promise<{
+  purged: number;
+  blocked: number;
+}> {
+  const due = await prisma.user.findMany({
+    where: { status: 'PENDING_DELETION', statusExpiresAt: { lte: new Date() } },
+    select: { id: true },
+  });
+
+  let purged = 0;
+  for (const { id } of due) {
+    try {
+      if (await purgeAccount(id)) purged++;
+    } catch (error) {
+      log.error('Account purge failed', { userId: id, error: String(error) });
+    }
+  }
+  return { purged, blocked: due.length - purged };
+}
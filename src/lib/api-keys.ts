@@ -2,6 +2,7 @@ import { randomBytes, createHash } from 'crypto';
 import { prisma } from './db';
 import { ApiKeyPermission } from '@prisma/client';
 import { getHighestRole, userWithRolesInclude } from './security/index';
+import { formatUserStatus, refreshUserStatus } from './auth/user-status';
 
 const API_KEY_PREFIX = 'lsk_';
 const API_KEY_BYTES = 32;
@@ -110,6 +111,9 @@ export async function validateApiKey(key: string): Promise<{
           id: true,
           email: true,
           isActive: true,
+          status: true,
+          statusReason: true,
+          statusExpiresAt: true,
           ...userWithRolesInclude,
         },
       },
@@ -125,9 +129,13 @@ export async function validateApiKey(key: string): Promise<{
     return { valid: false, error: 'API key has expired' };
   }
 
-  // Check if user is active
-  if (!apiKey.user.isActive) {
-    return { valid: false, error: 'User account is deactivated' };
+  // Check if user is active, reactivating expired suspensions
+  const user = await refreshUserStatus(apiKey.user);
+  if (!user.isActive) {
+    return {
+      valid: false,
+      error: `User account is ${formatUserStatus(user.status)}`,
+    };
   }
 
   // Update last used timestamp (fire and forget)
@@ -146,10 +154,10 @@ export async function validateApiKey(key: string): Promise<{
       id: apiKey.id,
       permission: apiKey.permission,
       user: {
-        id: apiKey.user.id,
-        email: apiKey.user.email,
-        role: getHighestRole(apiKey.user),
-        isActive: apiKey.user.isActive,
+        id: user.id,
+        email: user.email,
+        role: getHighestRole(user),
+        isActive: user.isActive,
       },
     },
   };
@@ -8,6 +8,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ServiceError, RateLimitError } from '@/services/auth.errors';
 import { getClientIP, getCurrentUser } from './auth';
+import { prisma } from './db';
+import { getCurrentOrganizationId } from './organization';
 import {
   isGranted,
   hasRole,
@@ -152,6 +154,82 @@ export async function requireAdmin(
   return hasRole(user, ROLES.ADMIN, organizationId);
 }
 
+/**
+ * Organization admin result - the admin and their current organization,
+ * or a failure response
+ */
+export type OrgAdminResult =
+  | {
+      ok: true;
+      user: UserWithComputedRole;
+      organization: { id: string; name: string; slug: string };
+    }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Require ADMIN+ in the current user's organization.
+ * Route handler auth check for /api/organizations/current/* settings.
+ */
+export async function requireOrgAdmin(): Promise<OrgAdminResult> {
+  const currentUser = await getCurrentUser();
+
+  if (!currentUser) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        {
+          error: {
+            type: 'AUTHENTICATION_ERROR',
+            message: 'Not authenticated',
+          },
+        },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const organizationId = await getCurrentOrganizationId(currentUser.id);
+  const organization = organizationId
+    ? await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { id: true, name: true, slug: true },
+      })
+    : null;
+
+  if (!organization) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        {
+          error: {
+            type: 'NOT_FOUND',
+            message:
+              'You do not belong to an organization or belong to multiple organizations',
+          },
+        },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (!(await hasRole(currentUser, ROLES.ADMIN, organization.id))) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        {
+          error: {
+            type: 'AUTHORIZATION_ERROR',
+            message: 'Organization admin access required',
+          },
+        },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true, user: currentUser, organization };
+}
+
 /**
  * Check if user has ROLE_MODERATOR in the given organization context
  *
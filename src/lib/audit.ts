@@ -4,11 +4,14 @@ export type AuditAction =
   // Authentication
   | 'AUTH_LOGIN_SUCCESS'
   | 'AUTH_LOGIN_FAILURE'
+  | 'AUTH_LOGIN_CHALLENGED'
+  | 'AUTH_LOGIN_BLOCKED'
   | 'AUTH_LOGOUT'
   | 'AUTH_REMEMBER_ME_CREATED'
   | 'AUTH_REMEMBER_ME_USED'
   | 'AUTH_REMEMBER_ME_REVOKED'
   | 'AUTH_REMEMBER_ME_THEFT_DETECTED'
+  | 'AUTH_REFRESH_TOKEN_REUSE'
   // Security
   | 'SECURITY_ACCOUNT_LOCKED'
   | 'SECURITY_ACCOUNT_UNLOCKED'
@@ -23,6 +26,18 @@ export type AuditAction =
   | 'AUTH_2FA_FAILURE'
   | 'AUTH_2FA_BACKUP_USED'
   | 'ADMIN_2FA_RESET'
+  // Password expiry
+  | 'ADMIN_PASSWORD_CHANGE_REQUIRED'
+  // Magic link
+  | 'AUTH_MAGIC_LINK_REQUESTED'
+  // WebAuthn / passkeys
+  | 'AUTH_WEBAUTHN_REGISTERED'
+  | 'AUTH_WEBAUTHN_REMOVED'
+  | 'AUTH_WEBAUTHN_LOGIN_SUCCESS'
+  | 'AUTH_WEBAUTHN_LOGIN_FAILURE'
+  // Step-up re-authentication
+  | 'AUTH_REAUTH_SUCCESS'
+  | 'AUTH_REAUTH_FAILURE'
   // Impersonation
   | 'ADMIN_IMPERSONATION_START'
   | 'ADMIN_IMPERSONATION_END'
@@ -33,17 +48,42 @@ export type AuditAction =
   | 'AUTH_OAUTH_REGISTRATION'
   | 'AUTH_OAUTH_ACCOUNT_LINKED'
   | 'AUTH_OAUTH_ACCOUNT_UNLINKED'
+  // SAML SSO
+  | 'AUTH_SAML_LOGIN_SUCCESS'
+  | 'AUTH_SAML_LOGIN_FAILURE'
+  | 'AUTH_SAML_USER_PROVISIONED'
+  // SCIM provisioning
+  | 'SCIM_USER_PROVISIONED'
+  | 'SCIM_USER_UPDATED'
+  | 'SCIM_USER_DEACTIVATED'
+  | 'SCIM_USER_REACTIVATED'
+  | 'SCIM_USER_DEPROVISIONED'
+  | 'SCIM_GROUP_MEMBERS_UPDATED'
+  // OAuth authorization server
+  | 'OAUTH_SERVER_CONSENT_GRANTED'
+  | 'OAUTH_SERVER_CONSENT_REVOKED'
+  | 'OAUTH_SERVER_CODE_REUSE'
+  | 'OAUTH_SERVER_REFRESH_TOKEN_REUSE'
   // API Keys
   | 'API_KEY_CREATED'
   | 'API_KEY_UPDATED'
   | 'API_KEY_REVOKED'
   // Account Deletion
   | 'ACCOUNT_DELETE_FAILED'
+  | 'ACCOUNT_DELETION_SCHEDULED'
+  | 'ACCOUNT_DELETION_CANCELLED'
   | 'ACCOUNT_DELETED'
+  | 'ACCOUNT_DELETION_BLOCKED'
+  // Personal data export
+  | 'DATA_EXPORT_REQUESTED'
+  | 'DATA_EXPORT_DOWNLOADED'
   // Admin Bulk Actions
   | 'ADMIN_BULK_ACTIVATE'
   | 'ADMIN_BULK_DEACTIVATE'
   | 'ADMIN_BULK_DELETE'
+  | 'ADMIN_BULK_REQUIRE_PASSWORD_CHANGE'
+  | 'ADMIN_USER_IMPORTED'
+  | 'ADMIN_USER_STATUS_CHANGED'
   // Admin Role Management
   | 'ADMIN_USER_ROLE_ASSIGNED'
   | 'ADMIN_USER_ROLE_REMOVED'
@@ -53,11 +93,38 @@ export type AuditAction =
   | 'ADMIN_ORG_OWNERSHIP_TRANSFER'
   | 'ADMIN_ORG_MEMBER_REMOVED'
   | 'ADMIN_ORG_DELETED'
+  | 'ADMIN_ORG_SAML_CONFIGURED'
+  | 'ADMIN_ORG_SAML_REMOVED'
+  | 'ADMIN_ORG_DOMAIN_CLAIMED'
+  | 'ADMIN_ORG_DOMAIN_VERIFIED'
+  | 'ADMIN_ORG_DOMAIN_REMOVED'
+  | 'ADMIN_ORG_SCIM_TOKEN_CREATED'
+  | 'ADMIN_ORG_SCIM_TOKEN_REVOKED'
+  | 'ADMIN_ORG_2FA_POLICY_UPDATED'
+  | 'ADMIN_ORG_PASSWORD_POLICY_UPDATED'
   // Admin Role Management
   | 'ADMIN_ROLE_CREATED'
   | 'ADMIN_ROLE_UPDATED'
   | 'ADMIN_ROLE_DELETED'
   | 'ADMIN_USER_ROLES_UPDATED'
+  // Just-in-time role requests
+  | 'ROLE_REQUEST_CREATED'
+  | 'ROLE_REQUEST_CANCELLED'
+  | 'ROLE_REQUEST_APPROVED'
+  | 'ROLE_REQUEST_DENIED'
+  | 'ROLE_ASSIGNMENT_EXPIRED'
+  // Admin Access Policy Management
+  | 'ADMIN_POLICY_CREATED'
+  | 'ADMIN_POLICY_UPDATED'
+  | 'ADMIN_POLICY_DELETED'
+  // Admin OAuth Client Management
+  | 'ADMIN_OAUTH_CLIENT_CREATED'
+  | 'ADMIN_OAUTH_CLIENT_UPDATED'
+  | 'ADMIN_OAUTH_CLIENT_SECRET_ROTATED'
+  | 'ADMIN_OAUTH_CLIENT_REVOKED'
+  // Admin Signing Key Management
+  | 'ADMIN_SIGNING_KEY_ROTATED'
+  | 'ADMIN_SIGNING_KEY_RETIRED'
   // Admin Email Management
   | 'ADMIN_EMAIL_RESEND'
   | 'ADMIN_EMAIL_CLEANUP'
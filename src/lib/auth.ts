@@ -5,16 +5,21 @@ import { prisma } from './db';
 import { SessionData } from '@/types/auth';
 import {
   generateAccessToken,
-  generateRefreshToken,
   verifyAccessToken,
   verifyRefreshToken,
   generateSessionToken,
   hashSessionToken,
 } from './security';
+import {
+  issueRefreshToken,
+  rotateRefreshToken,
+  revokeAllUserRefreshTokens,
+} from './auth/refresh-tokens';
 import { User, ApiKeyPermission } from '@prisma/client';
 import {
   userWithRolesInclude,
   getHighestRole,
+  isRoleAssignmentActive,
   ROLES,
   type UserWithRoles,
   type UserWithComputedRole,
@@ -23,6 +28,16 @@ import {
 // pulling Node.js crypto into Edge Runtime (middleware)
 import { log } from './logger';
 import { SECURITY_CONFIG } from './config/security';
+import {
+  SsoRequiredError,
+  AccountUnavailableError,
+  AuthorizationError,
+  ReauthenticationRequiredError,
+} from '@/services/auth.errors';
+import { ImpersonationBlockedError } from './auth/impersonation';
+import { getTwoFactorEnforcement } from './auth/two-factor-policy';
+import { getPasswordChangeReason } from './auth/password-expiry';
+import { assertAccountAvailable, refreshUserStatus } from './auth/user-status';
 
 // ============================================================================
 // Session Configuration
@@ -146,6 +161,22 @@ export async function getSessionFromRequest(
   }
 }
 
+/**
+ * Drop time-bound role assignments that are not in effect, so checks on
+ * userRoles agree with hasRole(), and add the computed role for backward
+ * compatibility
+ */
+function withActiveRoles(
+  user: Omit<UserWithComputedRole, 'role'>
+): UserWithComputedRole {
+  const userRoles = user.userRoles.filter((ur) => isRoleAssignmentActive(ur));
+  return {
+    ...user,
+    userRoles,
+    role: getHighestRole({ ...user, userRoles }),
+  };
+}
+
 // Get current user from session (with roles for RBAC)
 export async function getCurrentUser(): Promise<UserWithComputedRole | null> {
   try {
@@ -155,13 +186,11 @@ export async function getCurrentUser(): Promise<UserWithComputedRole | null> {
       return null;
     }
 
-    const user = await prisma.user.findUnique({
-      where: {
-        id: session.userId,
-        isActive: true,
-      },
+    const found = await prisma.user.findUnique({
+      where: { id: session.userId },
       include: userWithRolesInclude,
     });
+    const user = found && (await refreshUserStatus(found));
 
     // If session claims logged in but user doesn't exist (e.g., DB was reset),
     // log a warning. The navbar will detect the 401 and redirect to login.
@@ -174,11 +203,12 @@ export async function getCurrentUser(): Promise<UserWithComputedRole | null> {
       return null;
     }
 
-    // Add computed role for backward compatibility
-    return {
-      ...user,
-      role: getHighestRole(user),
-    };
+    // Suspended, invited and deleted users lose access to their sessions
+    if (!user.isActive) {
+      return null;
+    }
+
+    return withActiveRoles(user);
   } catch (error) {
     console.error('Error getting current user:', error);
     return null;
@@ -195,22 +225,17 @@ export async function getUserByIdWithRoles(
   userId: string
 ): Promise<UserWithComputedRole | null> {
   try {
-    const user = await prisma.user.findUnique({
-      where: {
-        id: userId,
-        isActive: true,
-      },
+    const found = await prisma.user.findUnique({
+      where: { id: userId },
       include: userWithRolesInclude,
     });
+    const user = found && (await refreshUserStatus(found));
 
-    if (!user) {
+    if (!user || !user.isActive) {
       return null;
     }
 
-    return {
-      ...user,
-      role: getHighestRole(user),
-    };
+    return withActiveRoles(user);
   } catch (error) {
     console.error('Error getting user by ID:', error);
     return null;
@@ -286,13 +311,16 @@ export async function authenticateUser(
 ): Promise<UserWithComputedRole | null> {
   try {
     const { verifyPassword } = await import('./security');
+    const { hashPassword, needsPasswordRehash } =
+      await import('./auth/password-hashing');
+    const { assertSsoNotRequired } = await import('./auth/sso');
 
     const user = await prisma.user.findUnique({
       where: { email },
       include: userWithRolesInclude,
     });
 
-    if (!user || !user.isActive) {
+    if (!user) {
       return null;
     }
 
@@ -306,10 +334,22 @@ export async function authenticateUser(
       return null;
     }
 
-    // Update last login time
+    // Only tell users who proved their password why they cannot sign in
+    assertAccountAvailable(await refreshUserStatus(user));
+
+    // Members of organizations that enforce SSO cannot use their password
+    await assertSsoNotRequired(user.id);
+
+    // Update last login time, upgrading hashes with outdated parameters
+    // while the plain password is at hand
     await prisma.user.update({
       where: { id: user.id },
-      data: { lastLoginAt: new Date() },
+      data: {
+        lastLoginAt: new Date(),
+        ...(needsPasswordRehash(user.password) && {
+          password: await hashPassword(password),
+        }),
+      },
     });
 
     // Return user with computed role for backward compatibility
@@ -318,6 +358,12 @@ export async function authenticateUser(
       role: getHighestRole(user),
     };
   } catch (error) {
+    if (
+      error instanceof SsoRequiredError ||
+      error instanceof AccountUnavailableError
+    ) {
+      throw error;
+    }
     console.error('Authentication error:', error);
     return null;
   }
@@ -352,8 +398,9 @@ export async function createUserSession(
     role,
   });
 
-  const refreshToken = await generateRefreshToken({
-    userId: user.id,
+  const refreshToken = await issueRefreshToken(user.id, {
+    ipAddress,
+    userAgent,
   });
 
   const sessionToken = await generateSessionToken();
@@ -370,21 +417,32 @@ export async function createUserSession(
     },
   });
 
+  // Covered users without 2FA carry their enrollment deadline, after which
+  // middleware limits the session to 2FA setup
+  const twoFactor = await getTwoFactorEnforcement(user.id);
+  // Expired or admin-reset passwords limit the session to changing it
+  const passwordChangeReason = await getPasswordChangeReason(user.id);
+
   // Store session data in iron-session (session was obtained early)
   session.userId = user.id;
   session.email = user.email;
   session.role = role;
   session.isLoggedIn = true;
   session.sessionCreatedAt = Date.now();
+  session.authenticatedAt = Date.now();
+  session.twoFactorGraceUntil = twoFactor.graceUntil?.getTime();
+  session.passwordChangeRequired = passwordChangeReason ?? undefined;
   // Include userRoles for frontend authorization checks
-  session.userRoles = user.userRoles?.map((ur) => ({
-    role: {
-      id: ur.role.id,
-      name: ur.role.name,
-      parentId: ur.role.parentId,
-    },
-    organizationId: ur.organizationId,
-  }));
+  session.userRoles = user.userRoles
+    ?.filter((ur) => isRoleAssignmentActive(ur))
+    .map((ur) => ({
+      role: {
+        id: ur.role.id,
+        name: ur.role.name,
+        parentId: ur.role.parentId,
+      },
+      organizationId: ur.organizationId,
+    }));
   await session.save();
 
   return {
@@ -395,7 +453,13 @@ export async function createUserSession(
 }
 
 // Refresh access token
-export async function refreshAccessToken(refreshToken: string): Promise<{
+// The refresh token is single-use: it is rotated, and replaying an old one
+// revokes every token issued since the same login.
+export async function refreshAccessToken(
+  refreshToken: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<{
   accessToken: string;
   refreshToken: string;
 } | null> {
@@ -414,23 +478,27 @@ export async function refreshAccessToken(refreshToken: string): Promise<{
       return null;
     }
 
+    const rotation = await rotateRefreshToken(refreshToken, {
+      ipAddress,
+      userAgent,
+    });
+
+    if (!rotation.valid || !rotation.refreshToken) {
+      return null;
+    }
+
     // Compute legacy role from userRoles
     const role = getHighestRole(user);
 
-    // Generate new tokens
     const newAccessToken = await generateAccessToken({
       userId: user.id,
       email: user.email,
       role,
     });
 
-    const newRefreshToken = await generateRefreshToken({
-      userId: user.id,
-    });
-
     return {
       accessToken: newAccessToken,
-      refreshToken: newRefreshToken,
+      refreshToken: rotation.refreshToken,
     };
   } catch (error) {
     console.error('Token refresh error:', error);
@@ -483,7 +551,8 @@ export async function logoutUser(sessionToken?: string): Promise<void> {
  * Invalidate all sessions for a specific user.
  *
  * Use this when a user's roles or permissions change to force re-authentication.
- * This deletes ALL sessions for the target user, requiring them to log in again.
+ * This deletes ALL sessions and revokes all refresh tokens for the target user,
+ * requiring them to log in again.
  *
  * @param userId - The user whose sessions should be invalidated
  * @returns Number of sessions invalidated
@@ -493,6 +562,7 @@ export async function invalidateUserSessions(userId: string): Promise<number> {
     const result = await prisma.userSession.deleteMany({
       where: { userId },
     });
+    await revokeAllUserRefreshTokens(userId);
     return result.count;
   } catch (error) {
     console.error('Invalidate user sessions error:', error);
@@ -844,3 +914,65 @@ export async function requireAuth(
     user: getUserFromContext(result.context),
   };
 }
+
+// ============================================================================
+// Step-up Authentication
+// ============================================================================
+
+/**
+ * Operations that need a recent sign-in, mapped to their freshness window in
+ * SECURITY_CONFIG.reauth.maxAgeMinutes.
+ */
+export type SensitiveOperation =
+  keyof typeof SECURITY_CONFIG.reauth.maxAgeMinutes;
+
+/**
+ * Whether the session signed in or re-authenticated within the last
+ * `maxAgeMinutes`.
+ */
+export function isRecentlyAuthenticated(
+  session: Pick<SessionData, 'authenticatedAt'>,
+  maxAgeMinutes: number
+): boolean {
+  if (!session.authenticatedAt) {
+    return false;
+  }
+  return Date.now() - session.authenticatedAt <= maxAgeMinutes * 60 * 1000;
+}
+
+/**
+ * Step-up guard for sensitive operations, used after requireAuth. The route
+ * names its operation and the freshness window comes from
+ * SECURITY_CONFIG.reauth; clients answer the error by re-authenticating at
+ * /api/auth/reauthenticate and retrying.
+ *
+ * API key requests (no session) cannot re-authenticate and are refused, as are
+ * impersonation sessions: the admin never authenticated as the target user.
+ *
+ * @example
+ * ```ts
+ * const session = await getSession();
+ * assertRecentAuth(session, 'deleteAccount');
+ * ```
+ *
+ * @throws {AuthorizationError} Request is not session-authenticated
+ * @throws {ImpersonationBlockedError} Session is impersonating a user
+ * @throws {ReauthenticationRequiredError} No sign-in within the window
+ */
+export function assertRecentAuth(
+  session: SessionData | null,
+  operation: SensitiveOperation
+): void {
+  if (!session?.isLoggedIn) {
+    throw new AuthorizationError('This operation requires a signed-in session');
+  }
+
+  if (session.impersonating) {
+    throw new ImpersonationBlockedError();
+  }
+
+  const maxAgeMinutes = SECURITY_CONFIG.reauth.maxAgeMinutes[operation];
+  if (!isRecentlyAuthenticated(session, maxAgeMinutes)) {
+    throw new ReauthenticationRequiredError(operation, maxAgeMinutes);
+  }
+}
@@ -0,0 +1,88 @@
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { prisma } from '../db';
+import { env } from '../env';
+import { SECURITY_CONFIG } from '../config/security';
+
+const { expiryMinutes, maxAttempts } = SECURITY_CONFIG.emailOtp;
+
+const CLEARED = {
+  emailOtpHash: null,
+  emailOtpExpires: null,
+  emailOtpAttempts: 0,
+};
+
+// Keyed so a leaked database row cannot be brute-forced offline
+function hashCode(userId: string, code: string): string {
+  return createHmac('sha256', env.JWT_SECRET as string)
+    .update(`${userId}:${code}`)
+    .digest('hex');
+}
+
+/**
+ * Create a 6-digit code for the user, replacing any previous one.
+ * Only a keyed hash is stored; the code itself must be emailed by the caller.
+ */
+export async function issueEmailOtp(
+  userId: string
+): Promise<{ code: string; expiresAt: Date }> {
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const expiresAt = new Date(Date.now() + expiryMinutes * 60 * 1000);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      emailOtpHash: hashCode(userId, code),
+      emailOtpExpires: expiresAt,
+      emailOtpAttempts: 0,
+    },
+  });
+
+  return { code, expiresAt };
+}
+
+/**
+ * Check an emailed code. A valid code is consumed; the code is also
+ * discarded once it expires or after too many wrong guesses.
+ */
+export async function verifyEmailOtp(
+  userId: string,
+  code: string
+): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      emailOtpHash: true,
+      emailOtpExpires: true,
+      emailOtpAttempts: true,
+    },
+  });
+
+  if (!user?.emailOtpHash || !user.emailOtpExpires) {
+    return false;
+  }
+
+  if (user.emailOtpExpires < new Date()) {
+    await prisma.user.update({ where: { id: userId }, data: CLEARED });
+    return false;
+  }
+
+  const expected = Buffer.from(user.emailOtpHash, 'hex');
+  const actual = Buffer.from(hashCode(userId, code), 'hex');
+  if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+    // Consume atomically so a code cannot be used twice
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, emailOtpHash: user.emailOtpHash },
+      data: CLEARED,
+    });
+    return count === 1;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data:
+      user.emailOtpAttempts + 1 >= maxAttempts
+        ? CLEARED
+        : { emailOtpAttempts: { increment: 1 } },
+  });
+  return false;
+}
@@ -2,7 +2,14 @@ import {
   getProviderConfig,
   type OAuthProvider,
   type OAuthUserProfile,
+  type OidcProviderConfig,
 } from './providers';
+import {
+  deriveCodeChallenge,
+  deriveCodeVerifier,
+  verifyIdToken,
+  type OidcIdTokenClaims,
+} from './oidc';
 
 interface TokenResponse {
   access_token: string;
@@ -10,14 +17,25 @@ interface TokenResponse {
   expires_in?: number;
   refresh_token?: string;
   scope?: string;
+  id_token?: string;
+}
+
+export interface OAuthTokens extends TokenResponse {
+  /** Verified ID token claims (OIDC providers only) */
+  idTokenClaims?: OidcIdTokenClaims;
 }
 
-export function buildAuthorizationUrl(
+/**
+ * @param nonce - State nonce; OIDC providers also receive it as the
+ *   ID token nonce and as the seed of the PKCE challenge
+ */
+export async function buildAuthorizationUrl(
   provider: OAuthProvider,
   state: string,
-  redirectUri: string
-): string | null {
-  const config = getProviderConfig(provider);
+  redirectUri: string,
+  nonce: string
+): Promise<string | null> {
+  const config = await getProviderConfig(provider);
   if (!config) return null;
 
   const params = new URLSearchParams({
@@ -29,20 +47,34 @@ export function buildAuthorizationUrl(
   });
 
   // Google-specific params
-  if (provider === 'google') {
+  if (config.type === 'google') {
     params.set('access_type', 'offline');
     params.set('prompt', 'consent');
   }
 
+  if (config.type === 'oidc') {
+    params.set('nonce', nonce);
+    params.set(
+      'code_challenge',
+      deriveCodeChallenge(deriveCodeVerifier(nonce))
+    );
+    params.set('code_challenge_method', 'S256');
+  }
+
   return `${config.authUrl}?${params.toString()}`;
 }
 
+/**
+ * Exchange the authorization code. For OIDC providers the PKCE verifier is
+ * sent and the returned ID token must pass signature and nonce validation.
+ */
 export async function exchangeCodeForTokens(
   provider: OAuthProvider,
   code: string,
-  redirectUri: string
-): Promise<TokenResponse | null> {
-  const config = getProviderConfig(provider);
+  redirectUri: string,
+  nonce: string
+): Promise<OAuthTokens | null> {
+  const config = await getProviderConfig(provider);
   if (!config) return null;
 
   const params = new URLSearchParams({
@@ -53,12 +85,16 @@ export async function exchangeCodeForTokens(
     grant_type: 'authorization_code',
   });
 
+  if (config.type === 'oidc') {
+    params.set('code_verifier', deriveCodeVerifier(nonce));
+  }
+
   const headers: Record<string, string> = {
     'Content-Type': 'application/x-www-form-urlencoded',
   };
 
   // GitHub requires Accept header for JSON response
-  if (provider === 'github') {
+  if (config.type === 'github') {
     headers['Accept'] = 'application/json';
   }
 
@@ -76,23 +112,50 @@ export async function exchangeCodeForTokens(
     return null;
   }
 
-  return response.json();
+  const tokens: TokenResponse = await response.json();
+
+  if (config.type !== 'oidc') {
+    return tokens;
+  }
+
+  if (!tokens.id_token) {
+    console.error(`OIDC provider ${provider} returned no ID token`);
+    return null;
+  }
+
+  const idTokenClaims = await verifyIdToken(tokens.id_token, {
+    issuer: config.issuer,
+    clientId: config.clientId,
+    jwksUri: config.jwksUri,
+    nonce,
+  });
+  if (!idTokenClaims) return null;
+
+  return { ...tokens, idTokenClaims };
 }
 
 export async function fetchUserProfile(
   provider: OAuthProvider,
-  accessToken: string
+  tokens: OAuthTokens
 ): Promise<OAuthUserProfile | null> {
-  const config = getProviderConfig(provider);
+  const config = await getProviderConfig(provider);
   if (!config) return null;
 
   try {
-    if (provider === 'google') {
-      return await fetchGoogleProfile(accessToken, config.userInfoUrl);
-    } else if (provider === 'github') {
-      return await fetchGitHubProfile(accessToken, config.userInfoUrl);
+    switch (config.type) {
+      case 'google':
+        return await fetchGoogleProfile(
+          tokens.access_token,
+          config.userInfoUrl
+        );
+      case 'github':
+        return await fetchGitHubProfile(
+          tokens.access_token,
+          config.userInfoUrl
+        );
+      case 'oidc':
+        return await fetchOidcProfile(tokens, config);
     }
-    return null;
   } catch (error) {
     console.error(`Failed to fetch ${provider} user profile:`, error);
     return null;
@@ -194,3 +257,48 @@ async function fetchGitHubProfile(
     avatarUrl: userData.avatar_url || null,
   };
 }
+
+async function fetchOidcProfile(
+  tokens: OAuthTokens,
+  config: OidcProviderConfig
+): Promise<OAuthUserProfile | null> {
+  const idClaims = tokens.idTokenClaims;
+  if (!idClaims) return null;
+
+  let claims: Partial<OidcIdTokenClaims> = idClaims;
+
+  // Many IdPs keep the ID token lean; fill in from the userinfo endpoint
+  if (config.userInfoUrl) {
+    const response = await fetch(config.userInfoUrl, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+
+    if (response.ok) {
+      const userInfo = await response.json();
+      // UserInfo must describe the same subject as the ID token
+      if (userInfo.sub !== idClaims.sub) return null;
+      claims = { ...idClaims, ...userInfo };
+    }
+  }
+
+  if (!claims.email) return null;
+
+  let firstName = claims.given_name || null;
+  let lastName = claims.family_name || null;
+  if (!firstName && !lastName && claims.name) {
+    const parts = claims.name.split(' ');
+    firstName = parts[0] || null;
+    lastName = parts.slice(1).join(' ') || null;
+  }
+
+  return {
+    id: idClaims.sub,
+    email: claims.email,
+    // Some IdPs serialize the boolean as a string
+    emailVerified:
+      claims.email_verified === true || claims.email_verified === 'true',
+    firstName,
+    lastName,
+    avatarUrl: claims.picture || null,
+  };
+}
@@ -5,7 +5,10 @@ export {
 } from './providers';
 export type {
   OAuthProvider,
+  OAuthProviderType,
   OAuthProviderConfig,
+  OidcProviderConfig,
+  EnabledOAuthProvider,
   OAuthUserProfile,
 } from './providers';
 
@@ -17,6 +20,15 @@ export {
   exchangeCodeForTokens,
   fetchUserProfile,
 } from './client';
+export type { OAuthTokens } from './client';
+
+export {
+  discoverOidcConfiguration,
+  verifyIdToken,
+  deriveCodeVerifier,
+  deriveCodeChallenge,
+} from './oidc';
+export type { OidcDiscoveryDocument, OidcIdTokenClaims } from './oidc';
 
 export {
   createPendingOAuthToken,
@@ -0,0 +1,166 @@
+/**
+ * Generic OpenID Connect support: discovery, ID token validation and PKCE.
+ * Provider-agnostic; provider registration lives in ./providers.
+ */
+import { createHash, createHmac } from 'crypto';
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { getJwtSecret } from './secrets';
+
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+  code_challenge_methods_supported?: string[];
+}
+
+export interface OidcIdTokenClaims extends JWTPayload {
+  sub: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  picture?: string;
+}
+
+const discoveryCache = new Map<
+  string,
+  { document: OidcDiscoveryDocument; expiresAt: number }
+>();
+
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+/**
+ * Fetch and cache the issuer's .well-known/openid-configuration.
+ * Returns null if the document is unreachable, incomplete, or was
+ * published for a different issuer.
+ */
+export async function discoverOidcConfiguration(
+  issuer: string
+): Promise<OidcDiscoveryDocument | null> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.document;
+  }
+
+  const url = `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok) {
+      console.error(`OIDC discovery failed for ${issuer}: ${response.status}`);
+      return null;
+    }
+
+    const document = (await response.json()) as OidcDiscoveryDocument;
+
+    if (
+      document.issuer !== issuer ||
+      !document.authorization_endpoint ||
+      !document.token_endpoint ||
+      !document.jwks_uri
+    ) {
+      console.error(`OIDC discovery document for ${issuer} is invalid`);
+      return null;
+    }
+
+    discoveryCache.set(issuer, {
+      document,
+      expiresAt:
+        Date.now() + SECURITY_CONFIG.oauth.discoveryCacheMinutes * 60 * 1000,
+    });
+
+    return document;
+  } catch (error) {
+    console.error(`OIDC discovery failed for ${issuer}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Drop cached discovery documents (e.g. after a provider is reconfigured).
+ * @internal Also used by tests
+ */
+export function clearOidcDiscoveryCache(): void {
+  discoveryCache.clear();
+  jwksCache.clear();
+}
+
+// ============================================================================
+// ID token validation
+// ============================================================================
+
+function getRemoteJwks(jwksUri: string) {
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    // jose caches keys and refetches on an unknown kid, which covers rotation
+    jwks = createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+}
+
+/**
+ * Verify an ID token's signature against the issuer's JWKS, plus its
+ * issuer, audience, expiry and nonce.
+ *
+ * @returns The token claims, or null if any check fails
+ */
+export async function verifyIdToken(
+  idToken: string,
+  expected: {
+    issuer: string;
+    clientId: string;
+    jwksUri: string;
+    nonce: string;
+  }
+): Promise<OidcIdTokenClaims | null> {
+  try {
+    const { payload } = await jwtVerify(
+      idToken,
+      getRemoteJwks(expected.jwksUri),
+      {
+        issuer: expected.issuer,
+        audience: expected.clientId,
+      }
+    );
+
+    if (!payload.sub || payload.nonce !== expected.nonce) {
+      return null;
+    }
+
+    return payload as OidcIdTokenClaims;
+  } catch (error) {
+    console.error(`ID token validation failed for ${expected.issuer}:`, error);
+    return null;
+  }
+}
+
+// ============================================================================
+// PKCE (RFC 7636)
+// ============================================================================
+
+/**
+ * Derive the PKCE code verifier from the state nonce.
+ * Keyed with the server secret, so the verifier never has to be stored
+ * and cannot be computed from the state that travels through the browser.
+ */
+export function deriveCodeVerifier(stateNonce: string): string {
+  return createHmac('sha256', getJwtSecret())
+    .update(`pkce:${stateNonce}`)
+    .digest('base64url');
+}
+
+export function deriveCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
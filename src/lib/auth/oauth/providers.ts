@@ -1,16 +1,46 @@
 import { env } from '@/lib/env';
+import { prisma } from '@/lib/db';
+import { discoverOidcConfiguration } from './oidc';
 
-export type OAuthProvider = 'google' | 'github';
+/**
+ * Provider identifier used in routes and stored on OAuthAccount.provider:
+ * "google", "github", or the slug of a registered OIDC provider.
+ */
+export type OAuthProvider = string;
 
-export interface OAuthProviderConfig {
+export type OAuthProviderType = 'google' | 'github' | 'oidc';
+
+interface BaseProviderConfig {
+  id: OAuthProvider;
+  name: string;
   clientId: string;
   clientSecret: string;
   authUrl: string;
   tokenUrl: string;
-  userInfoUrl: string;
   scopes: string[];
 }
 
+export interface BuiltInProviderConfig extends BaseProviderConfig {
+  type: 'google' | 'github';
+  userInfoUrl: string;
+}
+
+export interface OidcProviderConfig extends BaseProviderConfig {
+  type: 'oidc';
+  issuer: string;
+  jwksUri: string;
+  userInfoUrl: string | null;
+}
+
+export type OAuthProviderConfig = BuiltInProviderConfig | OidcProviderConfig;
+
+/** Public description of an enabled provider, safe to send to the browser */
+export interface EnabledOAuthProvider {
+  id: OAuthProvider;
+  name: string;
+  type: OAuthProviderType;
+}
+
 export interface OAuthUserProfile {
   id: string;
   email: string;
@@ -20,17 +50,30 @@ export interface OAuthUserProfile {
   avatarUrl: string | null;
 }
 
+interface OidcProviderRegistration {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+}
+
 const providers: Record<
-  OAuthProvider,
-  Omit<OAuthProviderConfig, 'clientId' | 'clientSecret'>
+  'google' | 'github',
+  Omit<BuiltInProviderConfig, 'id' | 'clientId' | 'clientSecret'>
 > = {
   google: {
+    type: 'google',
+    name: 'Google',
     authUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
     tokenUrl: 'https://oauth2.googleapis.com/token',
     userInfoUrl: 'https://www.googleapis.com/oauth2/v3/userinfo',
     scopes: ['openid', 'email', 'profile'],
   },
   github: {
+    type: 'github',
+    name: 'GitHub',
     authUrl: 'https://github.com/login/oauth/authorize',
     tokenUrl: 'https://github.com/login/oauth/access_token',
     userInfoUrl: 'https://api.github.com/user',
@@ -38,47 +81,174 @@ const providers: Record<
   },
 };
 
-export function getProviderConfig(
-  provider: OAuthProvider
-): OAuthProviderConfig | null {
-  const baseConfig = providers[provider];
-  if (!baseConfig) return null;
-
-  let clientId: string | undefined;
-  let clientSecret: string | undefined;
-
-  if (provider === 'google') {
-    clientId = env.GOOGLE_CLIENT_ID;
-    clientSecret = env.GOOGLE_CLIENT_SECRET;
-  } else if (provider === 'github') {
-    clientId = env.GITHUB_CLIENT_ID;
-    clientSecret = env.GITHUB_CLIENT_SECRET;
-  }
+const DEFAULT_OIDC_SCOPES = ['openid', 'email', 'profile'];
+
+// Slugs that collide with built-in providers or static /api/auth/oauth/* routes
+const RESERVED_PROVIDER_IDS = [
+  'google',
+  'github',
+  'accounts',
+  'complete',
+  'link',
+];
+
+const PROVIDER_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+function isBuiltInProvider(provider: string): provider is 'google' | 'github' {
+  return provider === 'google' || provider === 'github';
+}
+
+function getBuiltInCredentials(
+  provider: 'google' | 'github'
+): { clientId: string; clientSecret: string } | null {
+  const clientId =
+    provider === 'google' ? env.GOOGLE_CLIENT_ID : env.GITHUB_CLIENT_ID;
+  const clientSecret =
+    provider === 'google' ? env.GOOGLE_CLIENT_SECRET : env.GITHUB_CLIENT_SECRET;
 
   if (!clientId || !clientSecret) {
     return null;
   }
 
+  return { clientId, clientSecret };
+}
+
+// ============================================================================
+// OIDC registry (env + database)
+// ============================================================================
+
+function getEnvOidcProviders(): OidcProviderRegistration[] {
+  return (env.OIDC_PROVIDERS ?? [])
+    .filter((p) => !RESERVED_PROVIDER_IDS.includes(p.id))
+    .map((p) => ({ ...p, scopes: p.scopes ?? DEFAULT_OIDC_SCOPES }));
+}
+
+function toRegistration(row: {
+  slug: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+}): OidcProviderRegistration {
   return {
-    ...baseConfig,
-    clientId,
-    clientSecret,
+    id: row.slug,
+    name: row.name,
+    issuer: row.issuer,
+    clientId: row.clientId,
+    clientSecret: row.clientSecret,
+    scopes: row.scopes.split(' ').filter(Boolean),
   };
 }
 
+/**
+ * Look up a named OIDC provider. Env registrations take precedence
+ * over database rows with the same slug.
+ */
+async function findOidcProvider(
+  id: string
+): Promise<OidcProviderRegistration | null> {
+  const fromEnv = getEnvOidcProviders().find((p) => p.id === id);
+  if (fromEnv) return fromEnv;
+
+  const row = await prisma.oidcProvider.findUnique({ where: { slug: id } });
+  if (!row || !row.isEnabled) return null;
+
+  return toRegistration(row);
+}
+
+async function listOidcProviders(): Promise<OidcProviderRegistration[]> {
+  const fromEnv = getEnvOidcProviders();
+  const envIds = new Set(fromEnv.map((p) => p.id));
+
+  const rows = await prisma.oidcProvider.findMany({
+    where: { isEnabled: true },
+    orderBy: { name: 'asc' },
+  });
+
+  return [
+    ...fromEnv,
+    ...rows
+      .filter(
+        (row) =>
+          !envIds.has(row.slug) && !RESERVED_PROVIDER_IDS.includes(row.slug)
+      )
+      .map(toRegistration),
+  ];
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Resolve a provider's full configuration.
+ * OIDC endpoints come from the issuer's discovery document (cached).
+ *
+ * @returns null if the provider is unknown, not configured, or discovery fails
+ */
+export async function getProviderConfig(
+  provider: OAuthProvider
+): Promise<OAuthProviderConfig | null> {
+  if (isBuiltInProvider(provider)) {
+    const credentials = getBuiltInCredentials(provider);
+    if (!credentials) return null;
+
+    return {
+      ...providers[provider],
+      ...credentials,
+      id: provider,
+    };
+  }
+
+  const registration = await findOidcProvider(provider);
+  if (!registration) return null;
+
+  const discovery = await discoverOidcConfiguration(registration.issuer);
+  if (!discovery) return null;
+
+  return {
+    type: 'oidc',
+    id: registration.id,
+    name: registration.name,
+    clientId: registration.clientId,
+    clientSecret: registration.clientSecret,
+    issuer: discovery.issuer,
+    authUrl: discovery.authorization_endpoint,
+    tokenUrl: discovery.token_endpoint,
+    userInfoUrl: discovery.userinfo_endpoint ?? null,
+    jwksUri: discovery.jwks_uri,
+    scopes: registration.scopes,
+  };
+}
+
+/**
+ * Whether a route segment can name a provider.
+ * Only checks the format; use getProviderConfig to check it is configured.
+ */
 export function isValidProvider(provider: string): provider is OAuthProvider {
-  return provider === 'google' || provider === 'github';
+  if (isBuiltInProvider(provider)) return true;
+  return (
+    PROVIDER_ID_PATTERN.test(provider) &&
+    !RESERVED_PROVIDER_IDS.includes(provider)
+  );
 }
 
-export function getEnabledProviders(): OAuthProvider[] {
-  const enabled: OAuthProvider[] = [];
+export async function getEnabledProviders(): Promise<EnabledOAuthProvider[]> {
+  const enabled: EnabledOAuthProvider[] = [];
 
-  if (env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET) {
-    enabled.push('google');
+  for (const provider of ['google', 'github'] as const) {
+    if (getBuiltInCredentials(provider)) {
+      enabled.push({
+        id: provider,
+        name: providers[provider].name,
+        type: provider,
+      });
+    }
   }
 
-  if (env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET) {
-    enabled.push('github');
+  for (const provider of await listOidcProviders()) {
+    enabled.push({ id: provider.id, name: provider.name, type: 'oidc' });
   }
 
   return enabled;
@@ -6,27 +6,32 @@ import { getJwtSecret } from './secrets';
 
 export interface OAuthStatePayload {
   provider: OAuthProvider;
-  nonce: string;
+  nonce: string; // Also the OIDC nonce and the PKCE verifier seed
   returnTo?: string;
   linkToUserId?: string; // Set when linking OAuth to existing account from profile
   inviteToken?: string; // Set when registering via invite
 }
 
+/**
+ * Sign a state token for the authorization request.
+ * The nonce is returned alongside so the caller can bind it to the
+ * OIDC nonce and PKCE challenge.
+ */
 export async function generateOAuthState(
   payload: Omit<OAuthStatePayload, 'nonce'>
-): Promise<string> {
+): Promise<{ state: string; nonce: string }> {
   const nonce = randomBytes(16).toString('hex');
   const expiresAt = new Date(
     Date.now() + SECURITY_CONFIG.oauth.stateTokenExpiryMinutes * 60 * 1000
   );
 
-  const token = await new SignJWT({ ...payload, nonce })
+  const state = await new SignJWT({ ...payload, nonce })
     .setProtectedHeader({ alg: 'HS256' })
     .setExpirationTime(expiresAt)
     .setIssuedAt()
     .sign(getJwtSecret());
 
-  return token;
+  return { state, nonce };
 }
 
 export async function verifyOAuthState(
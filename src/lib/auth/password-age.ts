@@ -1,4 +1,7 @@
-import { SECURITY_CONFIG } from '@/lib/config/security';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  type PasswordPolicy,
+} from '@/lib/auth/password-policy/rules';
 
 export interface PasswordAgeStatus {
   isExpired: boolean;
@@ -10,12 +13,17 @@ export interface PasswordAgeStatus {
 /**
  * Check the age of a user's password and determine if it needs to be changed
  * @param passwordChangedAt - When the password was last changed
+ * @param policy - Password policy that applies to the user
  * @returns Status object with expiry information
  */
 export function checkPasswordAge(
-  passwordChangedAt: Date | null
+  passwordChangedAt: Date | null,
+  policy: Pick<
+    PasswordPolicy,
+    'maxAgeDays' | 'warningDays'
+  > = DEFAULT_PASSWORD_POLICY
 ): PasswordAgeStatus {
-  const { maxAgeDays, warningDays } = SECURITY_CONFIG.passwordPolicy;
+  const { maxAgeDays, warningDays } = policy;
 
   // If no password change date, treat as very old (needs change)
   if (!passwordChangedAt) {
@@ -0,0 +1,68 @@
+/**
+ * Forced password changes.
+ *
+ * A user must change their password before doing anything else when an
+ * admin has required it, or when their password is older than the maximum
+ * age of a policy with `enforceMaxAge`. Their session is then limited to
+ * the change-password page until the change is made.
+ */
+import { prisma } from '@/lib/db';
+import { checkPasswordAge } from '@/lib/auth/password-age';
+import { getPasswordPolicy } from '@/lib/auth/password-policy';
+import type { PasswordChangeReason } from '@/types/auth';
+
+/** Page a session is limited to while a password change is required */
+export const PASSWORD_CHANGE_PATH = '/auth/change-password';
+
+/**
+ * Why the user must change their password at sign-in, or null when they
+ * need not. Users without a password (OAuth or SSO only) are never forced.
+ */
+export async function getPasswordChangeReason(
+  userId: string
+): Promise<PasswordChangeReason | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      password: true,
+      passwordChangedAt: true,
+      passwordChangeRequired: true,
+    },
+  });
+  if (!user?.password) return null;
+
+  if (user.passwordChangeRequired) return 'admin_required';
+
+  const policy = await getPasswordPolicy(userId);
+  if (
+    policy.enforceMaxAge &&
+    checkPasswordAge(user.passwordChangedAt, policy).isExpired
+  ) {
+    return 'expired';
+  }
+  return null;
+}
+
+/**
+ * Require the given users to change their password at their next sign-in.
+ * Users without a password are skipped.
+ *
+ * @returns The IDs of the users that were flagged
+ */
+export async function requirePasswordChange(
+  userIds: string[]
+): Promise<string[]> {
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds }, password: { not: null } },
+    select: { id: true },
+  });
+  const flaggedIds = users.map((user) => user.id);
+
+  if (flaggedIds.length > 0) {
+    await prisma.user.updateMany({
+      where: { id: { in: flaggedIds } },
+      data: { passwordChangeRequired: true },
+    });
+  }
+  return flaggedIds;
+}
@@ -0,0 +1,48 @@
+import { hash as argon2Hash, verify as argon2Verify } from '@node-rs/argon2';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import type { PasswordHasher } from './types';
+
+export interface Argon2Options {
+  /** Memory in KiB */
+  memoryCost: number;
+  timeCost: number;
+  parallelism: number;
+}
+
+// PHC string: $argon2id$v=19$m=19456,t=2,p=1$<salt>$<hash>
+const ARGON2_PATTERN =
+  /^\$(argon2id|argon2i|argon2d)\$v=\d+\$m=(\d+),t=(\d+),p=(\d+)\$/;
+
+export function createArgon2idHasher(
+  options: Argon2Options = SECURITY_CONFIG.passwordHashing.argon2id
+): PasswordHasher {
+  return {
+    id: 'argon2id',
+    // Imported argon2i and argon2d hashes verify too and are upgraded
+    identifies: (hash) => ARGON2_PATTERN.test(hash),
+    // The library defaults to the argon2id variant
+    hash: (password) =>
+      argon2Hash(password, {
+        memoryCost: options.memoryCost,
+        timeCost: options.timeCost,
+        parallelism: options.parallelism,
+      }),
+    async verify(password, hash) {
+      try {
+        return await argon2Verify(hash, password);
+      } catch {
+        return false;
+      }
+    },
+    needsRehash(hash) {
+      const match = ARGON2_PATTERN.exec(hash);
+      if (!match) return true;
+      const [, variant, memoryCost, timeCost] = match;
+      return (
+        variant !== 'argon2id' ||
+        Number(memoryCost) < options.memoryCost ||
+        Number(timeCost) < options.timeCost
+      );
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import bcrypt from 'bcryptjs';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import type { PasswordHasher } from './types';
+
+// $2a$12$<salt and hash>; also the $2b$, $2x$ and $2y$ variants
+const BCRYPT_PATTERN = /^\$2[abxy]?\$(\d{2})\$/;
+
+export function createBcryptHasher(
+  options: { cost: number } = SECURITY_CONFIG.passwordHashing.bcrypt
+): PasswordHasher {
+  return {
+    id: 'bcrypt',
+    identifies: (hash) => BCRYPT_PATTERN.test(hash),
+    hash: (password) => bcrypt.hash(password, options.cost),
+    verify: (password, hash) => bcrypt.compare(password, hash),
+    needsRehash(hash) {
+      const cost = Number(BCRYPT_PATTERN.exec(hash)?.[1]);
+      return !(cost >= options.cost);
+    },
+  };
+}
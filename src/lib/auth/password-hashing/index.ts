@@ -0,0 +1,79 @@
+/**
+ * Password hashing.
+ *
+ * Stored hashes are self-describing: each records its algorithm and
+ * parameters, so hashes of every registered algorithm keep verifying while
+ * new ones use the configured algorithm. `needsPasswordRehash` tells when a
+ * stored hash should be replaced after a successful sign-in.
+ */
+import { env } from '@/lib/env';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { createArgon2idHasher } from './argon2';
+import { createBcryptHasher } from './bcrypt';
+import { createPbkdf2Hasher, createSaltedShaHasher } from './legacy';
+import { createScryptHasher } from './scrypt';
+import type { PasswordHasher } from './types';
+
+export type { PasswordHasher } from './types';
+
+const hashers = new Map<string, PasswordHasher>();
+
+/** Register a hasher, replacing any hasher with the same id */
+export function registerPasswordHasher(hasher: PasswordHasher): void {
+  hashers.set(hasher.id, hasher);
+}
+
+registerPasswordHasher(createArgon2idHasher());
+registerPasswordHasher(createScryptHasher());
+registerPasswordHasher(createBcryptHasher());
+registerPasswordHasher(createPbkdf2Hasher());
+registerPasswordHasher(createSaltedShaHasher());
+
+/** Algorithm new passwords are hashed with */
+export function getPasswordHashAlgorithm(): string {
+  return (
+    env.PASSWORD_HASH_ALGORITHM ?? SECURITY_CONFIG.passwordHashing.algorithm
+  );
+}
+
+function findHasher(hash: string): PasswordHasher | undefined {
+  for (const hasher of hashers.values()) {
+    if (hasher.identifies(hash)) return hasher;
+  }
+  return undefined;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const algorithm = getPasswordHashAlgorithm();
+  const hasher = hashers.get(algorithm);
+  if (!hasher?.hash) {
+    throw new Error(
+      `Password hash algorithm "${algorithm}" cannot hash passwords`
+    );
+  }
+  return hasher.hash(password);
+}
+
+/** Verify a password against a hash of any registered algorithm */
+export async function verifyPassword(
+  password: string,
+  hash: string
+): Promise<boolean> {
+  const hasher = findHasher(hash);
+  return hasher ? hasher.verify(password, hash) : false;
+}
+
+/**
+ * Whether a stored hash should be replaced: it was made with another
+ * algorithm than the configured one, or with weaker parameters.
+ */
+export function needsPasswordRehash(hash: string): boolean {
+  const hasher = findHasher(hash);
+  if (!hasher) return false;
+  return hasher.id !== getPasswordHashAlgorithm() || hasher.needsRehash(hash);
+}
+
+/** Whether a hash from another system can be imported as is */
+export function isSupportedPasswordHash(hash: string): boolean {
+  return findHasher(hash) !== undefined;
+}
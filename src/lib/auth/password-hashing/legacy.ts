@@ -0,0 +1,74 @@
+/**
+ * Hashes imported from legacy systems. They are never produced here: users
+ * can sign in with them once, and they are replaced by a hash of the
+ * configured algorithm at that sign-in.
+ */
+import { createHash, pbkdf2, timingSafeEqual } from 'crypto';
+import type { PasswordHasher } from './types';
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Django: pbkdf2_sha256$<iterations>$<salt>$<base64 hash>
+const PBKDF2_PATTERN =
+  /^pbkdf2_(sha1|sha256|sha512)\$(\d+)\$([^$]+)\$([A-Za-z0-9+/=]+)$/;
+
+export function createPbkdf2Hasher(): PasswordHasher {
+  return {
+    id: 'pbkdf2',
+    identifies: (hash) => PBKDF2_PATTERN.test(hash),
+    async verify(password, hash) {
+      const match = PBKDF2_PATTERN.exec(hash);
+      if (!match) return false;
+      const [, digest, iterations, salt, expected] = match;
+      const expectedKey = Buffer.from(expected, 'base64');
+
+      const key = await new Promise<Buffer>((resolve, reject) =>
+        pbkdf2(
+          password,
+          salt,
+          Number(iterations),
+          expectedKey.length,
+          digest,
+          (error, derived) => (error ? reject(error) : resolve(derived))
+        )
+      );
+      return safeEqual(key, expectedKey);
+    },
+    needsRehash: () => true,
+  };
+}
+
+const SALTED_SHA_DIGESTS = {
+  SSHA: { algorithm: 'sha1', length: 20 },
+  SSHA256: { algorithm: 'sha256', length: 32 },
+  SSHA512: { algorithm: 'sha512', length: 64 },
+} as const;
+
+// LDAP: {SSHA}<base64 of digest followed by salt>
+const SALTED_SHA_PATTERN = /^\{(SSHA|SSHA256|SSHA512)\}([A-Za-z0-9+/=]+)$/;
+
+export function createSaltedShaHasher(): PasswordHasher {
+  return {
+    id: 'salted-sha',
+    identifies: (hash) => SALTED_SHA_PATTERN.test(hash),
+    async verify(password, hash) {
+      const match = SALTED_SHA_PATTERN.exec(hash);
+      if (!match) return false;
+      const { algorithm, length } =
+        SALTED_SHA_DIGESTS[match[1] as keyof typeof SALTED_SHA_DIGESTS];
+      const decoded = Buffer.from(match[2], 'base64');
+      if (decoded.length <= length) return false;
+
+      const expected = decoded.subarray(0, length);
+      const salt = decoded.subarray(length);
+      const digest = createHash(algorithm)
+        .update(password)
+        .update(salt)
+        .digest();
+      return safeEqual(digest, expected);
+    },
+    needsRehash: () => true,
+  };
+}
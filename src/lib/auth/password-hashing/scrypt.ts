@@ -0,0 +1,87 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import type { PasswordHasher } from './types';
+
+export interface ScryptOptions {
+  /** CPU/memory cost N, a power of two */
+  cost: number;
+  blockSize: number;
+  parallelization: number;
+}
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+// $scrypt$ln=17,r=8,p=1$<base64 salt>$<base64 hash>, where ln is log2(N)
+const SCRYPT_PATTERN =
+  /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/;
+
+function derive(
+  password: string,
+  salt: Buffer,
+  options: ScryptOptions,
+  keyLength: number
+): Promise<Buffer> {
+  const { cost: N, blockSize: r, parallelization: p } = options;
+  return new Promise((resolve, reject) => {
+    // The default 32 MiB limit is below what recommended parameters need
+    scrypt(
+      password,
+      salt,
+      keyLength,
+      { N, r, p, maxmem: 256 * N * r },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+function toBase64(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/=+$/, '');
+}
+
+export function createScryptHasher(
+  options: ScryptOptions = SECURITY_CONFIG.passwordHashing.scrypt
+): PasswordHasher {
+  return {
+    id: 'scrypt',
+    identifies: (hash) => SCRYPT_PATTERN.test(hash),
+    async hash(password) {
+      const salt = randomBytes(SALT_BYTES);
+      const key = await derive(password, salt, options, KEY_BYTES);
+      const logCost = Math.log2(options.cost);
+      return `$scrypt$ln=${logCost},r=${options.blockSize},p=${options.parallelization}$${toBase64(salt)}$${toBase64(key)}`;
+    },
+    async verify(password, hash) {
+      const match = SCRYPT_PATTERN.exec(hash);
+      if (!match) return false;
+      const [, logCost, blockSize, parallelization, salt, expected] = match;
+      const expectedKey = Buffer.from(expected, 'base64');
+
+      try {
+        const key = await derive(
+          password,
+          Buffer.from(salt, 'base64'),
+          {
+            cost: 2 ** Number(logCost),
+            blockSize: Number(blockSize),
+            parallelization: Number(parallelization),
+          },
+          expectedKey.length
+        );
+        return timingSafeEqual(key, expectedKey);
+      } catch {
+        return false;
+      }
+    },
+    needsRehash(hash) {
+      const match = SCRYPT_PATTERN.exec(hash);
+      if (!match) return true;
+      const [, logCost, blockSize, parallelization] = match;
+      return (
+        2 ** Number(logCost) < options.cost ||
+        Number(blockSize) < options.blockSize ||
+        Number(parallelization) < options.parallelization
+      );
+    },
+  };
+}
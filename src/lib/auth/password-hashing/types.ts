@@ -0,0 +1,15 @@
+/**
+ * A password hashing algorithm. Stored hashes carry the algorithm and its
+ * parameters, so each hasher recognizes the hashes it produced.
+ */
+export interface PasswordHasher {
+  /** Algorithm name, as used in PASSWORD_HASH_ALGORITHM */
+  readonly id: string;
+  /** Whether the stored hash belongs to this algorithm */
+  identifies(hash: string): boolean;
+  verify(password: string, hash: string): Promise<boolean>;
+  /** Absent for legacy formats that are only accepted on import */
+  hash?(password: string): Promise<string>;
+  /** Whether the hash was made with weaker parameters than configured */
+  needsRehash(hash: string): boolean;
+}
@@ -0,0 +1,71 @@
+/**
+ * Offline breached-password check.
+ *
+ * Uses a local copy of a breached-password corpus in the Have I Been Pwned
+ * range format: one file per 5-character SHA-1 prefix, named `<PREFIX>.txt`,
+ * each line `<35-character suffix>:<count>`. Only the prefix file of the
+ * password's hash is read (k-anonymity), and nothing leaves the server.
+ */
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { env } from '@/lib/env';
+import { log } from '@/lib/logger';
+
+const PREFIX_LENGTH = 5;
+
+/**
+ * Split a password's SHA-1 hash into the range prefix and the suffix
+ * looked up in it.
+ */
+export function getBreachRangeKey(password: string): {
+  prefix: string;
+  suffix: string;
+} {
+  const hash = createHash('sha1').update(password).digest('hex').toUpperCase();
+  return {
+    prefix: hash.slice(0, PREFIX_LENGTH),
+    suffix: hash.slice(PREFIX_LENGTH),
+  };
+}
+
+/**
+ * Whether a range file lists the suffix with a non-zero count. Padding
+ * entries with a zero count are ignored.
+ */
+export function rangeContainsSuffix(range: string, suffix: string): boolean {
+  for (const line of range.split('\n')) {
+    const [lineSuffix, count] = line.trim().split(':');
+    if (lineSuffix?.toUpperCase() === suffix) {
+      return Number(count) > 0;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether the password appears in the local breach dataset.
+ * Always false when PASSWORD_BREACH_DATA_PATH is not set.
+ */
+export async function isPasswordBreached(password: string): Promise<boolean> {
+  const directory = env.PASSWORD_BREACH_DATA_PATH;
+  if (!directory) return false;
+
+  const { prefix, suffix } = getBreachRangeKey(password);
+
+  let range: string;
+  try {
+    range = await readFile(join(directory, `${prefix}.txt`), 'utf8');
+  } catch (error) {
+    // A missing range file means no breached password has this prefix
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.error('Failed to read breached password range', {
+        prefix,
+        error: String(error),
+      });
+    }
+    return false;
+  }
+
+  return rangeContainsSuffix(range, suffix);
+}
@@ -0,0 +1,201 @@
+/**
+ * Password policy engine.
+ *
+ * One policy object covers length, character classes, reuse, maximum age
+ * and dictionary, personal-information and breach checks. The platform
+ * policy lives in `SECURITY_CONFIG.passwordPolicy`; organizations can make
+ * it stricter for their members with overrides stored on the organization.
+ */
+import { prisma } from '@/lib/db';
+import { log } from '@/lib/logger';
+import { verifyPassword } from '@/lib/security';
+import { ValidationError } from '@/services/auth.errors';
+import { isPasswordBreached } from './breach';
+import {
+  checkPasswordRules,
+  DEFAULT_PASSWORD_POLICY,
+  mergePasswordPolicies,
+  passwordPolicyOverridesSchema,
+  type PasswordPersonalInfo,
+  type PasswordPolicy,
+  type PasswordPolicyOverrides,
+  type PasswordViolation,
+} from './rules';
+
+export type {
+  PasswordPersonalInfo,
+  PasswordPolicy,
+  PasswordPolicyOverrides,
+  PasswordViolation,
+  PasswordViolationCode,
+} from './rules';
+export {
+  checkPasswordRules,
+  containsPersonalInfo,
+  DEFAULT_PASSWORD_POLICY,
+  getPasswordRequirements,
+  isCommonPassword,
+  mergePasswordPolicies,
+  passwordPolicyOverridesSchema,
+} from './rules';
+export { isPasswordBreached } from './breach';
+
+/**
+ * Read stored organization overrides, ignoring anything invalid.
+ */
+export function parsePasswordPolicyOverrides(
+  value: unknown
+): PasswordPolicyOverrides {
+  if (value === null || value === undefined) return {};
+
+  const result = passwordPolicyOverridesSchema.safeParse(value);
+  if (!result.success) {
+    log.warn('Ignoring invalid organization password policy', {
+      issues: result.error.issues.length,
+    });
+    return {};
+  }
+  return result.data;
+}
+
+/**
+ * The policy for members of the given organizations: the platform policy
+ * made stricter by each organization's overrides.
+ */
+export async function getPasswordPolicyForOrganizations(
+  organizationIds: string[]
+): Promise<PasswordPolicy> {
+  if (organizationIds.length === 0) return DEFAULT_PASSWORD_POLICY;
+
+  const organizations = await prisma.organization.findMany({
+    where: { id: { in: organizationIds } },
+    select: { passwordPolicy: true },
+  });
+
+  return mergePasswordPolicies(
+    DEFAULT_PASSWORD_POLICY,
+    organizations.map((organization) =>
+      parsePasswordPolicyOverrides(organization.passwordPolicy)
+    )
+  );
+}
+
+/**
+ * The policy that applies to a user, from all organizations they belong to.
+ */
+export async function getPasswordPolicy(
+  userId: string
+): Promise<PasswordPolicy> {
+  const memberships = await prisma.userRole.findMany({
+    where: { userId, organizationId: { not: null } },
+    select: { organizationId: true },
+    distinct: ['organizationId'],
+  });
+
+  return getPasswordPolicyForOrganizations(
+    memberships.map((membership) => membership.organizationId as string)
+  );
+}
+
+/**
+ * Whether the password matches the current one or one of the last
+ * `historyDepth` passwords.
+ */
+export async function isPasswordReused(
+  userId: string,
+  password: string,
+  historyDepth: number,
+  currentPasswordHash?: string | null
+): Promise<boolean> {
+  if (
+    currentPasswordHash &&
+    (await verifyPassword(password, currentPasswordHash))
+  ) {
+    return true;
+  }
+  if (historyDepth <= 0) return false;
+
+  const history = await prisma.passwordHistory.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: historyDepth,
+    select: { password: true },
+  });
+
+  for (const entry of history) {
+    if (await verifyPassword(password, entry.password)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export interface PasswordCheckOptions {
+  policy: PasswordPolicy;
+  personalInfo?: PasswordPersonalInfo;
+  /** Enables the reuse check for password changes */
+  userId?: string;
+  currentPasswordHash?: string | null;
+}
+
+/**
+ * Check a new password against a policy. Reuse and breach lookups only run
+ * once the password passes the simple rules.
+ */
+export async function checkPassword(
+  password: string,
+  options: PasswordCheckOptions
+): Promise<PasswordViolation[]> {
+  const { policy, personalInfo, userId, currentPasswordHash } = options;
+
+  const violations = checkPasswordRules(password, policy, personalInfo);
+  if (violations.length > 0) return violations;
+
+  if (
+    userId &&
+    (await isPasswordReused(
+      userId,
+      password,
+      policy.historyDepth,
+      currentPasswordHash
+    ))
+  ) {
+    violations.push({
+      code: 'reused',
+      message:
+        policy.historyDepth > 0
+          ? `Cannot reuse your current password or any of your last ${policy.historyDepth} passwords`
+          : 'New password must be different from current password',
+    });
+  }
+
+  if (policy.rejectBreached && (await isPasswordBreached(password))) {
+    violations.push({
+      code: 'breached',
+      message:
+        'This password has appeared in a data breach. Please choose a different one.',
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Reject a new password that breaks the policy.
+ *
+ * @param field - Input field the errors are reported under
+ * @throws {ValidationError} With one message per violated rule
+ */
+export async function assertPasswordAllowed(
+  password: string,
+  options: PasswordCheckOptions,
+  field = 'password'
+): Promise<void> {
+  const violations = await checkPassword(password, options);
+  if (violations.length > 0) {
+    throw new ValidationError(violations[0].message, {
+      details: { [field]: violations.map((violation) => violation.message) },
+      violations: violations.map((violation) => violation.code),
+    });
+  }
+}
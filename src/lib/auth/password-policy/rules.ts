@@ -0,0 +1,330 @@
+/**
+ * Password policy rules that need no server access.
+ *
+ * Shared by the server-side checks and the password strength meter, so
+ * this module must stay free of database and Node.js imports.
+ */
+import { z } from 'zod';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  /** Previous passwords that cannot be reused */
+  historyDepth: number;
+  maxAgeDays: number;
+  warningDays: number;
+  /** Limit sessions to a password change once older than maxAgeDays */
+  enforceMaxAge: boolean;
+  rejectCommon: boolean;
+  rejectPersonalInfo: boolean;
+  rejectBreached: boolean;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy =
+  SECURITY_CONFIG.passwordPolicy;
+
+/**
+ * Organization overrides of the platform policy, as stored in
+ * `organizations.password_policy`.
+ */
+export const passwordPolicyOverridesSchema = z
+  .object({
+    minLength: z.number().int().min(1).max(128),
+    requireUppercase: z.boolean(),
+    requireLowercase: z.boolean(),
+    requireNumber: z.boolean(),
+    requireSymbol: z.boolean(),
+    historyDepth: z.number().int().min(0).max(24),
+    maxAgeDays: z.number().int().min(1).max(3650),
+    enforceMaxAge: z.boolean(),
+    rejectCommon: z.boolean(),
+    rejectPersonalInfo: z.boolean(),
+    rejectBreached: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+export type PasswordPolicyOverrides = z.infer<
+  typeof passwordPolicyOverridesSchema
+>;
+
+/**
+ * Apply organization overrides to a base policy. Overrides can only make
+ * the policy stricter; when a user belongs to several organizations the
+ * strictest value of each setting wins.
+ */
+export function mergePasswordPolicies(
+  base: PasswordPolicy,
+  overrides: PasswordPolicyOverrides[]
+): PasswordPolicy {
+  return overrides.reduce<PasswordPolicy>(
+    (policy, override) => ({
+      ...policy,
+      minLength: Math.min(
+        Math.max(policy.minLength, override.minLength ?? 0),
+        policy.maxLength
+      ),
+      requireUppercase: policy.requireUppercase || !!override.requireUppercase,
+      requireLowercase: policy.requireLowercase || !!override.requireLowercase,
+      requireNumber: policy.requireNumber || !!override.requireNumber,
+      requireSymbol: policy.requireSymbol || !!override.requireSymbol,
+      historyDepth: Math.max(policy.historyDepth, override.historyDepth ?? 0),
+      maxAgeDays: Math.min(
+        policy.maxAgeDays,
+        override.maxAgeDays ?? policy.maxAgeDays
+      ),
+      enforceMaxAge: policy.enforceMaxAge || !!override.enforceMaxAge,
+      rejectCommon: policy.rejectCommon || !!override.rejectCommon,
+      rejectPersonalInfo:
+        policy.rejectPersonalInfo || !!override.rejectPersonalInfo,
+      rejectBreached: policy.rejectBreached || !!override.rejectBreached,
+    }),
+    base
+  );
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export type PasswordViolationCode =
+  | 'too_short'
+  | 'too_long'
+  | 'missing_uppercase'
+  | 'missing_lowercase'
+  | 'missing_number'
+  | 'missing_symbol'
+  | 'common'
+  | 'personal_info'
+  | 'reused'
+  | 'breached';
+
+export interface PasswordViolation {
+  code: PasswordViolationCode;
+  message: string;
+}
+
+/** What the password must not contain */
+export interface PasswordPersonalInfo {
+  email?: string | null;
+  username?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+}
+
+export const COMMON_PASSWORDS = [
+  'password',
+  '123456',
+  '12345678',
+  'qwerty',
+  'abc123',
+  'monkey',
+  'letmein',
+  'dragon',
+  '111111',
+  'baseball',
+  'iloveyou',
+  'trustno1',
+  'sunshine',
+  'master',
+  'welcome',
+  'shadow',
+  'ashley',
+  'football',
+  'jesus',
+  'michael',
+  'ninja',
+  'password1',
+  'password123',
+  'admin',
+  'admin123',
+  'root',
+  'toor',
+  'pass',
+];
+
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  $: 's',
+  '!': 'i',
+};
+
+// Shorter names and email parts match too many unrelated passwords
+const MIN_PERSONAL_TOKEN_LENGTH = 3;
+
+/**
+ * Whether the password is a common password or a decorated variant of one,
+ * e.g. "P@ssw0rd2024!".
+ */
+export function isCommonPassword(password: string): boolean {
+  const lower = password.toLowerCase();
+  if (COMMON_PASSWORDS.includes(lower)) return true;
+
+  const core = lower
+    .replace(/^[^a-z]+/, '')
+    .replace(/[^a-z]+$/, '')
+    .replace(/[^a-z]/g, (char) => LEET_SUBSTITUTIONS[char] ?? char);
+  return core.length > 0 && COMMON_PASSWORDS.includes(core);
+}
+
+function personalTokens(info: PasswordPersonalInfo): string[] {
+  const localPart = info.email?.split('@')[0] ?? '';
+  return [
+    localPart,
+    ...localPart.split(/[^a-z0-9]+/i),
+    info.username ?? '',
+    info.firstName ?? '',
+    info.lastName ?? '',
+  ]
+    .map((token) => token.toLowerCase())
+    .filter((token) => token.length >= MIN_PERSONAL_TOKEN_LENGTH);
+}
+
+/**
+ * Whether the password contains the user's email address or name.
+ */
+export function containsPersonalInfo(
+  password: string,
+  info: PasswordPersonalInfo
+): boolean {
+  const lower = password.toLowerCase();
+  return personalTokens(info).some((token) => lower.includes(token));
+}
+
+export const PASSWORD_RULE_PATTERNS = {
+  uppercase: /[A-Z]/,
+  lowercase: /[a-z]/,
+  number: /[0-9]/,
+  symbol: /[^A-Za-z0-9]/,
+};
+
+/**
+ * Character rules of a policy with whether the password meets them, for
+ * checklists shown while typing.
+ */
+export function getPasswordRequirements(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): { label: string; met: boolean }[] {
+  return [
+    {
+      label: `At least ${policy.minLength} characters`,
+      met: password.length >= policy.minLength,
+    },
+    ...(policy.requireUppercase
+      ? [
+          {
+            label: 'Contains uppercase letter',
+            met: PASSWORD_RULE_PATTERNS.uppercase.test(password),
+          },
+        ]
+      : []),
+    ...(policy.requireLowercase
+      ? [
+          {
+            label: 'Contains lowercase letter',
+            met: PASSWORD_RULE_PATTERNS.lowercase.test(password),
+          },
+        ]
+      : []),
+    ...(policy.requireNumber
+      ? [
+          {
+            label: 'Contains number',
+            met: PASSWORD_RULE_PATTERNS.number.test(password),
+          },
+        ]
+      : []),
+    ...(policy.requireSymbol
+      ? [
+          {
+            label: 'Contains special character',
+            met: PASSWORD_RULE_PATTERNS.symbol.test(password),
+          },
+        ]
+      : []),
+  ];
+}
+
+/**
+ * Check a password against the rules of a policy that need no lookups:
+ * length, character classes, common passwords and personal information.
+ */
+export function checkPasswordRules(
+  password: string,
+  policy: PasswordPolicy,
+  personalInfo: PasswordPersonalInfo = {}
+): PasswordViolation[] {
+  const violations: PasswordViolation[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push({
+      code: 'too_short',
+      message: `Password must be at least ${policy.minLength} characters`,
+    });
+  }
+  if (password.length > policy.maxLength) {
+    violations.push({
+      code: 'too_long',
+      message: `Password must be at most ${policy.maxLength} characters`,
+    });
+  }
+  if (
+    policy.requireUppercase &&
+    !PASSWORD_RULE_PATTERNS.uppercase.test(password)
+  ) {
+    violations.push({
+      code: 'missing_uppercase',
+      message: 'Password must contain an uppercase letter',
+    });
+  }
+  if (
+    policy.requireLowercase &&
+    !PASSWORD_RULE_PATTERNS.lowercase.test(password)
+  ) {
+    violations.push({
+      code: 'missing_lowercase',
+      message: 'Password must contain a lowercase letter',
+    });
+  }
+  if (policy.requireNumber && !PASSWORD_RULE_PATTERNS.number.test(password)) {
+    violations.push({
+      code: 'missing_number',
+      message: 'Password must contain a number',
+    });
+  }
+  if (policy.requireSymbol && !PASSWORD_RULE_PATTERNS.symbol.test(password)) {
+    violations.push({
+      code: 'missing_symbol',
+      message: 'Password must contain a special character',
+    });
+  }
+  if (policy.rejectCommon && isCommonPassword(password)) {
+    violations.push({
+      code: 'common',
+      message: 'This password is too common. Please choose something unique.',
+    });
+  }
+  if (
+    policy.rejectPersonalInfo &&
+    containsPersonalInfo(password, personalInfo)
+  ) {
+    violations.push({
+      code: 'personal_info',
+      message: 'Password must not contain your email address or name',
+    });
+  }
+
+  return violations;
+}
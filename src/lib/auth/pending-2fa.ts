@@ -18,14 +18,31 @@ function getJwtSecret(): Uint8Array {
   return cachedSecret;
 }
 
+/**
+ * Second factor demanded by login risk scoring from a user without 2FA:
+ * a one-time code sent to their email address
+ */
+export type LoginChallenge = 'email_code';
+
 function isValidPending2FAPayload(
   payload: JWTPayload
-): payload is JWTPayload & { userId: string; type: 'pending_2fa' } {
-  return typeof payload.userId === 'string' && payload.type === 'pending_2fa';
+): payload is JWTPayload & {
+  userId: string;
+  type: 'pending_2fa';
+  challenge?: LoginChallenge;
+} {
+  return (
+    typeof payload.userId === 'string' &&
+    payload.type === 'pending_2fa' &&
+    (payload.challenge === undefined || payload.challenge === 'email_code')
+  );
 }
 
-export async function createPending2FAToken(userId: string): Promise<string> {
-  return new SignJWT({ userId, type: 'pending_2fa' })
+export async function createPending2FAToken(
+  userId: string,
+  challenge?: LoginChallenge
+): Promise<string> {
+  return new SignJWT({ userId, type: 'pending_2fa', challenge })
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuedAt()
     .setExpirationTime(`${pendingTokenExpiryMinutes}m`)
@@ -34,7 +51,7 @@ export async function createPending2FAToken(userId: string): Promise<string> {
 
 export async function verifyPending2FAToken(
   token: string
-): Promise<{ userId: string } | null> {
+): Promise<{ userId: string; challenge?: LoginChallenge } | null> {
   try {
     const { payload } = await jwtVerify(token, getJwtSecret());
 
@@ -42,7 +59,7 @@ export async function verifyPending2FAToken(
       return null;
     }
 
-    return { userId: payload.userId };
+    return { userId: payload.userId, challenge: payload.challenge };
   } catch {
     return null;
   }
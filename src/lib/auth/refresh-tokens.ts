@@ -0,0 +1,175 @@
+import { prisma } from '../db';
+import { logAuditEvent } from '../audit';
+import { SECURITY_CONFIG } from '../config/security';
+import {
+  generateRefreshToken,
+  verifyRefreshToken,
+  hashSessionToken,
+} from '../security';
+
+const { lifetimeDays, absoluteLifetimeDays } = SECURITY_CONFIG.refreshToken;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RefreshTokenRotationResult {
+  valid: boolean;
+  userId?: string;
+  refreshToken?: string;
+  reuseDetected?: boolean;
+}
+
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface RefreshTokenFamily {
+  id: string;
+  expiresAt: Date;
+}
+
+/**
+ * Issue a refresh token. Without a family, the token starts a new one (one
+ * per login) that ends absoluteLifetimeDays from now; no token in the family
+ * outlives it, however often it is rotated.
+ */
+export async function issueRefreshToken(
+  userId: string,
+  context: RequestContext & { family?: RefreshTokenFamily } = {}
+): Promise<string> {
+  const token = await generateRefreshToken({ userId });
+  const now = Date.now();
+  const family = context.family ?? {
+    id: crypto.randomUUID(),
+    expiresAt: new Date(now + absoluteLifetimeDays * DAY_MS),
+  };
+  const expiresAt = new Date(
+    Math.min(now + lifetimeDays * DAY_MS, family.expiresAt.getTime())
+  );
+
+  await prisma.refreshToken.create({
+    data: {
+      userId,
+      familyId: family.id,
+      familyExpiresAt: family.expiresAt,
+      tokenHash: await hashSessionToken(token),
+      expiresAt,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Exchange a refresh token for its successor. Each token can be used once:
+ * presenting one that was already rotated means it was copied, so the whole
+ * family is revoked and the reuse is logged.
+ */
+export async function rotateRefreshToken(
+  token: string,
+  context: RequestContext = {}
+): Promise<RefreshTokenRotationResult> {
+  try {
+    await verifyRefreshToken(token);
+  } catch {
+    return { valid: false };
+  }
+
+  const storedToken = await prisma.refreshToken.findUnique({
+    where: { tokenHash: await hashSessionToken(token) },
+  });
+
+  if (!storedToken) {
+    return { valid: false };
+  }
+
+  if (storedToken.rotatedAt) {
+    await handleReuse(storedToken, context);
+    return { valid: false, reuseDetected: true };
+  }
+
+  if (storedToken.revokedAt || storedToken.expiresAt < new Date()) {
+    return { valid: false };
+  }
+
+  // Claim the token atomically; a concurrent request with the same token
+  // loses and is treated as reuse
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: storedToken.id, rotatedAt: null, revokedAt: null },
+    data: { rotatedAt: new Date() },
+  });
+
+  if (count === 0) {
+    await handleReuse(storedToken, context);
+    return { valid: false, reuseDetected: true };
+  }
+
+  const refreshToken = await issueRefreshToken(storedToken.userId, {
+    ...context,
+    family: {
+      id: storedToken.familyId,
+      expiresAt: storedToken.familyExpiresAt,
+    },
+  });
+
+  return { valid: true, userId: storedToken.userId, refreshToken };
+}
+
+async function handleReuse(
+  storedToken: { userId: string; familyId: string },
+  context: RequestContext
+): Promise<void> {
+  await revokeRefreshTokenFamily(storedToken.familyId);
+
+  await logAuditEvent({
+    action: 'AUTH_REFRESH_TOKEN_REUSE',
+    category: 'security',
+    userId: storedToken.userId,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: { familyId: storedToken.familyId },
+  });
+}
+
+export async function revokeRefreshTokenFamily(
+  familyId: string
+): Promise<void> {
+  await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke the family a refresh token belongs to (e.g. on logout). Unknown
+ * tokens are ignored.
+ */
+export async function revokeRefreshToken(token: string): Promise<void> {
+  const storedToken = await prisma.refreshToken.findUnique({
+    where: { tokenHash: await hashSessionToken(token) },
+    select: { familyId: true },
+  });
+
+  if (storedToken) {
+    await revokeRefreshTokenFamily(storedToken.familyId);
+  }
+}
+
+export async function revokeAllUserRefreshTokens(
+  userId: string
+): Promise<void> {
+  await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+export async function cleanupExpiredRefreshTokens(): Promise<number> {
+  const result = await prisma.refreshToken.deleteMany({
+    where: {
+      expiresAt: { lt: new Date() },
+    },
+  });
+  return result.count;
+}
@@ -0,0 +1,133 @@
+/**
+ * Risk-based adaptive authentication.
+ *
+ * Each login is scored by a list of signals. The summed score decides
+ * whether the login is allowed, challenged for a second factor or blocked.
+ * Add signals by pushing to `riskSignals`.
+ */
+
+import { prisma } from '@/lib/db';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { log } from '@/lib/logger';
+import { lookupIp } from './ip-database';
+import {
+  newDeviceSignal,
+  newNetworkSignal,
+  impossibleTravelSignal,
+  failedAttemptsSignal,
+  unusualHourSignal,
+} from './signals';
+import type {
+  RiskAssessment,
+  RiskDecision,
+  RiskSignal,
+  RiskSignalScore,
+} from './types';
+
+export type {
+  PreviousLogin,
+  RiskAssessment,
+  RiskContext,
+  RiskDecision,
+  RiskSignal,
+  RiskSignalResult,
+  RiskSignalScore,
+} from './types';
+export type { IpInfo } from './ip-database';
+export { lookupIp } from './ip-database';
+export {
+  newDeviceSignal,
+  newNetworkSignal,
+  impossibleTravelSignal,
+  failedAttemptsSignal,
+  unusualHourSignal,
+} from './signals';
+
+const MAX_SCORE = 100;
+
+/**
+ * Registry of login risk signals
+ *
+ * Every signal is evaluated for each login and the scores are summed.
+ */
+export const riskSignals: RiskSignal[] = [
+  newDeviceSignal,
+  newNetworkSignal,
+  impossibleTravelSignal,
+  failedAttemptsSignal,
+  unusualHourSignal,
+];
+
+export interface LoginRiskInput {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  knownDevice: boolean;
+}
+
+/**
+ * Map a risk score to a decision using the configured thresholds
+ */
+export function getRiskDecision(score: number): RiskDecision {
+  const { challenge, block } = SECURITY_CONFIG.risk.thresholds;
+  if (score >= block) return 'block';
+  if (score >= challenge) return 'challenge';
+  return 'allow';
+}
+
+/**
+ * Score a login attempt whose password has already been verified.
+ *
+ * Call before the login is written to the audit log, so the history only
+ * holds previous logins. A signal that throws is skipped rather than
+ * failing the login.
+ */
+export async function assessLoginRisk(
+  input: LoginRiskInput,
+  signals: RiskSignal[] = riskSignals
+): Promise<RiskAssessment> {
+  const now = new Date();
+  const { maxLogins, lookbackDays } = SECURITY_CONFIG.risk.history;
+
+  const history = await prisma.auditLog.findMany({
+    where: {
+      userId: input.userId,
+      action: 'AUTH_LOGIN_SUCCESS',
+      createdAt: {
+        gte: new Date(now.getTime() - lookbackDays * 24 * 60 * 60 * 1000),
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: maxLogins,
+    select: { createdAt: true, ipAddress: true, userAgent: true },
+  });
+
+  const context = {
+    ...input,
+    now,
+    history,
+    ipInfo: lookupIp(input.ipAddress),
+  };
+
+  const fired: RiskSignalScore[] = [];
+  for (const signal of signals) {
+    try {
+      const result = await signal.evaluate(context);
+      if (result && result.score > 0) {
+        fired.push({ name: signal.name, ...result });
+      }
+    } catch (error) {
+      log.error('Risk signal failed', {
+        signal: signal.name,
+        error: String(error),
+      });
+    }
+  }
+
+  const score = Math.min(
+    fired.reduce((sum, signal) => sum + signal.score, 0),
+    MAX_SCORE
+  );
+
+  return { score, decision: getRiskDecision(score), signals: fired };
+}
@@ -0,0 +1,137 @@
+import { readFileSync } from 'fs';
+import { env } from '@/lib/env';
+import { log } from '@/lib/logger';
+import { parseAddress, parseNetwork } from '@/lib/utils/ip-network';
+
+/**
+ * Local IP database lookups for login risk signals.
+ *
+ * The database is a CSV file (RISK_IP_DATABASE_PATH) with a header row and
+ * one non-overlapping network per line:
+ *
+ *   network,asn,organization,country,latitude,longitude
+ *   203.0.113.0/24,64500,Example ISP,FR,48.8566,2.3522
+ *
+ * Empty columns are allowed. It is loaded once and searched in memory.
+ */
+
+export interface IpInfo {
+  asn: number | null;
+  organization: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+interface IpRange extends IpInfo {
+  start: bigint;
+  end: bigint;
+}
+
+interface IpDatabase {
+  v4: IpRange[];
+  v6: IpRange[];
+}
+
+let cachedDatabase: IpDatabase | null = null;
+let cachedPath: string | null = null;
+
+function parseNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Parse the CSV contents of an IP database. Malformed lines are skipped.
+ */
+export function parseIpDatabase(contents: string): IpDatabase {
+  const database: IpDatabase = { v4: [], v6: [] };
+
+  for (const line of contents.split(/\r?\n/).slice(1)) {
+    if (!line.trim()) continue;
+
+    const [network, asn, organization, country, latitude, longitude] = line
+      .split(',')
+      .map((column) => column.trim());
+    const range = parseNetwork(network);
+    if (!range) continue;
+
+    (range.v6 ? database.v6 : database.v4).push({
+      start: range.start,
+      end: range.end,
+      asn: parseNumber(asn),
+      organization: organization || null,
+      country: country || null,
+      latitude: parseNumber(latitude),
+      longitude: parseNumber(longitude),
+    });
+  }
+
+  const byStart = (a: IpRange, b: IpRange) =>
+    a.start < b.start ? -1 : a.start > b.start ? 1 : 0;
+  database.v4.sort(byStart);
+  database.v6.sort(byStart);
+
+  return database;
+}
+
+function getIpDatabase(): IpDatabase | null {
+  const path = env.RISK_IP_DATABASE_PATH;
+  if (!path) return null;
+
+  if (cachedDatabase && cachedPath === path) {
+    return cachedDatabase;
+  }
+
+  try {
+    cachedDatabase = parseIpDatabase(readFileSync(path, 'utf8'));
+    cachedPath = path;
+    return cachedDatabase;
+  } catch (error) {
+    log.error('Failed to load IP database', { path, error: String(error) });
+    return null;
+  }
+}
+
+/**
+ * Find the network containing an address in a parsed database.
+ */
+export function findIpInfo(
+  database: IpDatabase,
+  address: string
+): IpInfo | null {
+  const parsed = parseAddress(address);
+  if (!parsed) return null;
+
+  const ranges = parsed.v6 ? database.v6 : database.v4;
+
+  // Last range starting at or before the address
+  let low = 0;
+  let high = ranges.length - 1;
+  let match: IpRange | null = null;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (ranges[mid].start <= parsed.value) {
+      match = ranges[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  if (!match || match.end < parsed.value) return null;
+
+  const { asn, organization, country, latitude, longitude } = match;
+  return { asn, organization, country, latitude, longitude };
+}
+
+/**
+ * Look up an address in the configured IP database.
+ * Returns null when no database is configured or the address is not listed.
+ */
+export function lookupIp(address: string | undefined): IpInfo | null {
+  if (!address) return null;
+  const database = getIpDatabase();
+  return database ? findIpInfo(database, address) : null;
+}
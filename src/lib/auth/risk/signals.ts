@@ -0,0 +1,159 @@
+import { prisma } from '@/lib/db';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { lookupIp } from './ip-database';
+import type { RiskSignal } from './types';
+
+const config = SECURITY_CONFIG.risk;
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two coordinates, in kilometres
+ */
+export function distanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * The IP address and user agent pair has not signed in before
+ */
+export const newDeviceSignal: RiskSignal = {
+  name: 'new_device',
+  evaluate({ knownDevice }) {
+    return knownDevice ? null : { score: config.newDevice.score };
+  },
+};
+
+/**
+ * The IP address (or, with an IP database, its ASN) has not signed in before.
+ * A new ASN is a different network provider and scores higher.
+ */
+export const newNetworkSignal: RiskSignal = {
+  name: 'new_network',
+  evaluate({ ipAddress, ipInfo, history }) {
+    if (!ipAddress || history.length === 0) return null;
+    if (history.some((login) => login.ipAddress === ipAddress)) return null;
+
+    if (ipInfo?.asn != null) {
+      const knownAsns = new Set(
+        [...new Set(history.map((login) => login.ipAddress))].map(
+          (address) => lookupIp(address ?? undefined)?.asn
+        )
+      );
+      if (!knownAsns.has(ipInfo.asn)) {
+        return {
+          score: config.newNetwork.newAsnScore,
+          detail: { asn: ipInfo.asn, organization: ipInfo.organization },
+        };
+      }
+      return {
+        score: config.newNetwork.newIpScore,
+        detail: { asn: ipInfo.asn },
+      };
+    }
+
+    return { score: config.newNetwork.newIpScore };
+  },
+};
+
+/**
+ * The distance from the previous login's location could not have been
+ * travelled in the time since
+ */
+export const impossibleTravelSignal: RiskSignal = {
+  name: 'impossible_travel',
+  evaluate({ ipInfo, history, now }) {
+    const previous = history[0];
+    if (!previous || ipInfo?.latitude == null || ipInfo.longitude == null) {
+      return null;
+    }
+
+    const previousInfo = lookupIp(previous.ipAddress ?? undefined);
+    if (previousInfo?.latitude == null || previousInfo.longitude == null) {
+      return null;
+    }
+
+    const distance = distanceKm(
+      { latitude: previousInfo.latitude, longitude: previousInfo.longitude },
+      { latitude: ipInfo.latitude, longitude: ipInfo.longitude }
+    );
+    if (distance < config.impossibleTravel.minDistanceKm) return null;
+
+    // At least a minute, so back-to-back logins do not divide by zero
+    const hours = Math.max(
+      (now.getTime() - previous.createdAt.getTime()) / (60 * 60 * 1000),
+      1 / 60
+    );
+    const speedKmh = distance / hours;
+    if (speedKmh <= config.impossibleTravel.maxSpeedKmh) return null;
+
+    return {
+      score: config.impossibleTravel.score,
+      detail: {
+        distanceKm: Math.round(distance),
+        hoursSincePrevious: Math.round(hours * 10) / 10,
+        from: previousInfo.country,
+        to: ipInfo.country,
+      },
+    };
+  },
+};
+
+/**
+ * Several wrong passwords were entered for the account recently
+ */
+export const failedAttemptsSignal: RiskSignal = {
+  name: 'failed_attempts',
+  async evaluate({ userId, now }) {
+    const { windowMinutes, minAttempts, scorePerAttempt, maxScore } =
+      config.failedAttempts;
+
+    const attempts = await prisma.auditLog.count({
+      where: {
+        userId,
+        action: 'AUTH_LOGIN_FAILURE',
+        createdAt: { gte: new Date(now.getTime() - windowMinutes * 60 * 1000) },
+      },
+    });
+    if (attempts < minAttempts) return null;
+
+    return {
+      score: Math.min(attempts * scorePerAttempt, maxScore),
+      detail: { attempts, windowMinutes },
+    };
+  },
+};
+
+/**
+ * The user has not signed in around this hour (UTC) before
+ */
+export const unusualHourSignal: RiskSignal = {
+  name: 'unusual_hour',
+  evaluate({ history, now }) {
+    const { minHistory, toleranceHours, score } = config.unusualHour;
+    if (history.length < minHistory) return null;
+
+    const hour = now.getUTCHours();
+    const isUsual = history.some((login) => {
+      const diff = Math.abs(login.createdAt.getUTCHours() - hour);
+      return Math.min(diff, 24 - diff) <= toleranceHours;
+    });
+    if (isUsual) return null;
+
+    return { score, detail: { hourUtc: hour } };
+  },
+};
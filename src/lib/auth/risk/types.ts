@@ -0,0 +1,80 @@
+import type { IpInfo } from './ip-database';
+
+/**
+ * What to do with a login after scoring it
+ * - allow: sign in (2FA still applies if enabled)
+ * - challenge: require a second factor (2FA, or an emailed code)
+ * - block: refuse the login
+ */
+export type RiskDecision = 'allow' | 'challenge' | 'block';
+
+/**
+ * A previous successful login, from the audit log
+ */
+export interface PreviousLogin {
+  createdAt: Date;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Everything known about a login attempt when it is scored
+ */
+export interface RiskContext {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  now: Date;
+  /** Whether the IP + user agent pair has signed in before */
+  knownDevice: boolean;
+  /** Previous successful logins, most recent first */
+  history: PreviousLogin[];
+  /** IP database entry for the current address, if any */
+  ipInfo: IpInfo | null;
+}
+
+export interface RiskSignalResult {
+  score: number;
+  /** Why the signal fired; recorded in the audit log */
+  detail?: Record<string, unknown>;
+}
+
+/**
+ * A risk signal contributes points to a login's risk score.
+ *
+ * @example
+ * ```typescript
+ * const torExitSignal: RiskSignal = {
+ *   name: 'tor_exit_node',
+ *   async evaluate({ ipAddress }) {
+ *     return (await isTorExitNode(ipAddress)) ? { score: 50 } : null;
+ *   },
+ * };
+ * riskSignals.push(torExitSignal);
+ * ```
+ */
+export interface RiskSignal {
+  /** Identifier recorded in audit metadata */
+  name: string;
+
+  /**
+   * Score the login attempt.
+   *
+   * @returns Points to add to the risk score, or null if the signal does not apply
+   */
+  evaluate(
+    context: RiskContext
+  ): RiskSignalResult | null | Promise<RiskSignalResult | null>;
+}
+
+export interface RiskSignalScore extends RiskSignalResult {
+  name: string;
+}
+
+export interface RiskAssessment {
+  /** Sum of signal scores, capped at 100 */
+  score: number;
+  decision: RiskDecision;
+  /** Signals that fired */
+  signals: RiskSignalScore[];
+}
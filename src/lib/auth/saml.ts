@@ -0,0 +1,430 @@
+/**
+ * SAML 2.0 service provider for organization SSO.
+ *
+ * Each organization can configure one IdP (SamlConnection). We act as SP:
+ * SP-initiated login with HTTP-Redirect, assertions received on the
+ * HTTP-POST ACS endpoint and validated with @node-saml/node-saml.
+ */
+import { randomBytes } from 'crypto';
+import {
+  SAML,
+  ValidateInResponseTo,
+  generateServiceProviderMetadata,
+  type CacheProvider,
+  type Profile,
+} from '@node-saml/node-saml';
+import { DOMParser } from '@xmldom/xmldom';
+import { SignJWT, jwtVerify } from 'jose';
+import type { SamlConnection } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { env } from '@/lib/env';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { getJwtSecret } from './oauth/secrets';
+import type { OAuthUserProfile } from './oauth/providers';
+
+const { requestExpiryMinutes, clockSkewMs } = SECURITY_CONFIG.saml;
+
+const NAME_ID_FORMAT = 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified';
+const METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const HTTP_REDIRECT_BINDING =
+  'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+
+// Attribute names tried, in order, when the connection has no explicit mapping
+const DEFAULT_ATTRIBUTES = {
+  email: [
+    'email',
+    'mail',
+    'urn:oid:0.9.2342.19200300.100.1.3',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+  ],
+  firstName: [
+    'firstName',
+    'givenName',
+    'urn:oid:2.5.4.42',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname',
+  ],
+  lastName: [
+    'lastName',
+    'sn',
+    'surname',
+    'urn:oid:2.5.4.4',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname',
+  ],
+};
+
+export type SamlConnectionConfig = Pick<
+  SamlConnection,
+  | 'idpEntityId'
+  | 'idpSsoUrl'
+  | 'idpCertificate'
+  | 'emailAttribute'
+  | 'firstNameAttribute'
+  | 'lastNameAttribute'
+>;
+
+export interface SamlStatePayload {
+  organizationSlug: string;
+  requestId: string;
+  returnTo?: string;
+}
+
+export interface IdpMetadata {
+  entityId: string;
+  ssoUrl: string;
+  certificate: string;
+}
+
+/**
+ * Provider name used for OAuthAccount rows created through SAML,
+ * so SAML identities reuse the OAuth linking and unlinking flows.
+ */
+export function getSamlProviderId(organizationSlug: string): string {
+  return `saml:${organizationSlug}`;
+}
+
+export function getServiceProviderUrls(organizationSlug: string): {
+  entityId: string;
+  acsUrl: string;
+} {
+  const base = `${env.NEXT_PUBLIC_APP_URL}/api/auth/saml/${organizationSlug}`;
+  return { entityId: `${base}/metadata`, acsUrl: `${base}/acs` };
+}
+
+/**
+ * Cache provider that only knows the request ID bound to this browser.
+ * Lets node-saml enforce InResponseTo without server-side request storage;
+ * the request's age is already bounded by the state token's expiry.
+ */
+function pendingRequestCache(requestId?: string): CacheProvider {
+  let pending = requestId ?? null;
+  return {
+    saveAsync: async (key, value) => ({ value, createdAt: Date.now() }),
+    getAsync: async (key) =>
+      key === pending ? new Date().toISOString() : null,
+    removeAsync: async (key) => {
+      if (key !== pending) return null;
+      pending = null;
+      return key;
+    },
+  };
+}
+
+function createSaml(
+  connection: SamlConnectionConfig,
+  organizationSlug: string,
+  requestId?: string
+): SAML {
+  const { entityId, acsUrl } = getServiceProviderUrls(organizationSlug);
+
+  return new SAML({
+    issuer: entityId,
+    audience: entityId,
+    callbackUrl: acsUrl,
+    entryPoint: connection.idpSsoUrl,
+    idpIssuer: connection.idpEntityId,
+    idpCert: connection.idpCertificate,
+    identifierFormat: NAME_ID_FORMAT,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    // Leave the authentication method (MFA, passwordless, ...) to the IdP
+    disableRequestedAuthnContext: true,
+    acceptedClockSkewMs: clockSkewMs,
+    validateInResponseTo: ValidateInResponseTo.always,
+    cacheProvider: pendingRequestCache(requestId),
+    ...(requestId && { generateUniqueId: () => requestId }),
+  });
+}
+
+// ============================================================================
+// Metadata
+// ============================================================================
+
+export function generateSpMetadata(organizationSlug: string): string {
+  const { entityId, acsUrl } = getServiceProviderUrls(organizationSlug);
+
+  return generateServiceProviderMetadata({
+    issuer: entityId,
+    callbackUrl: acsUrl,
+    identifierFormat: NAME_ID_FORMAT,
+    wantAssertionsSigned: true,
+  });
+}
+
+/**
+ * Extract entity ID, HTTP-Redirect SSO URL and signing certificate
+ * from IdP metadata XML.
+ *
+ * @returns null if the document is not usable IdP metadata
+ */
+export function parseIdpMetadata(xml: string): IdpMetadata | null {
+  let doc: Document;
+  try {
+    doc = new DOMParser({
+      errorHandler: {
+        error: (msg: string) => {
+          throw new Error(msg);
+        },
+        fatalError: (msg: string) => {
+          throw new Error(msg);
+        },
+      },
+    }).parseFromString(xml, 'text/xml') as unknown as Document;
+  } catch {
+    return null;
+  }
+
+  const entity = doc.getElementsByTagNameNS(METADATA_NS, 'EntityDescriptor')[0];
+  const idp = doc.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor')[0];
+  if (!entity || !idp) return null;
+
+  const ssoService = Array.from(
+    idp.getElementsByTagNameNS(METADATA_NS, 'SingleSignOnService')
+  ).find((el) => el.getAttribute('Binding') === HTTP_REDIRECT_BINDING);
+
+  const signingKey = Array.from(
+    idp.getElementsByTagNameNS(METADATA_NS, 'KeyDescriptor')
+  ).find((el) => {
+    const use = el.getAttribute('use');
+    return !use || use === 'signing';
+  });
+  const certificate = signingKey
+    ?.getElementsByTagNameNS(DSIG_NS, 'X509Certificate')[0]
+    ?.textContent?.replace(/\s+/g, '');
+
+  const entityId = entity.getAttribute('entityID');
+  const ssoUrl = ssoService?.getAttribute('Location');
+
+  if (!entityId || !ssoUrl || !certificate) return null;
+
+  return { entityId, ssoUrl, certificate };
+}
+
+// ============================================================================
+// Login request / response
+// ============================================================================
+
+/**
+ * Build the redirect to the IdP.
+ * The returned state must be stored in a cookie and the RelayState
+ * (the request ID) checked against it on the ACS endpoint.
+ */
+export async function createSamlLoginRequest(
+  connection: SamlConnectionConfig,
+  organizationSlug: string,
+  returnTo?: string
+): Promise<{ url: string; state: string }> {
+  const requestId = `_${randomBytes(20).toString('hex')}`;
+
+  const state = await new SignJWT({
+    organizationSlug,
+    requestId,
+    returnTo,
+  } satisfies SamlStatePayload)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setExpirationTime(new Date(Date.now() + requestExpiryMinutes * 60 * 1000))
+    .setIssuedAt()
+    .sign(getJwtSecret());
+
+  // RelayState is limited to 80 bytes, so only the request ID travels
+  const url = await createSaml(
+    connection,
+    organizationSlug,
+    requestId
+  ).getAuthorizeUrlAsync(requestId, undefined, {});
+
+  return { url, state };
+}
+
+export async function verifySamlState(
+  token: string
+): Promise<SamlStatePayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, getJwtSecret());
+    return payload as unknown as SamlStatePayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a POSTed SAMLResponse: signature against the IdP certificate,
+ * issuer, audience, validity window and InResponseTo.
+ *
+ * @returns The assertion profile, or null if validation fails
+ */
+export async function validateSamlResponse(
+  connection: SamlConnectionConfig,
+  organizationSlug: string,
+  samlResponse: string,
+  requestId: string
+): Promise<Profile | null> {
+  try {
+    const { profile } = await createSaml(
+      connection,
+      organizationSlug,
+      requestId
+    ).validatePostResponseAsync({ SAMLResponse: samlResponse });
+
+    // node-saml does not reliably enforce idpIssuer, so check it here
+    if (!profile || profile.issuer !== connection.idpEntityId) {
+      console.error(
+        `SAML response for ${organizationSlug} has unexpected issuer: ${profile?.issuer}`
+      );
+      return null;
+    }
+
+    return profile;
+  } catch (error) {
+    console.error(
+      `SAML response validation failed for ${organizationSlug}:`,
+      error
+    );
+    return null;
+  }
+}
+
+function readAttribute(
+  profile: Profile,
+  mapped: string | null,
+  defaults: string[]
+): string | null {
+  for (const name of mapped ? [mapped] : defaults) {
+    const value = profile[name];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'string' && first.trim()) {
+      return first.trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Map assertion attributes to a user profile using the connection's
+ * attribute mapping. Falls back to an email-shaped NameID.
+ */
+export function mapSamlProfile(
+  profile: Profile,
+  connection: SamlConnectionConfig
+): OAuthUserProfile | null {
+  if (!profile.nameID) return null;
+
+  const email =
+    readAttribute(
+      profile,
+      connection.emailAttribute,
+      DEFAULT_ATTRIBUTES.email
+    ) ?? (profile.nameID.includes('@') ? profile.nameID : null);
+  if (!email) return null;
+
+  return {
+    id: profile.nameID,
+    email: email.toLowerCase(),
+    // Trusted only on the organization's verified domains, which the ACS
+    // route checks with isEmailOnVerifiedDomain()
+    emailVerified: false,
+    firstName: readAttribute(
+      profile,
+      connection.firstNameAttribute,
+      DEFAULT_ATTRIBUTES.firstName
+    ),
+    lastName: readAttribute(
+      profile,
+      connection.lastNameAttribute,
+      DEFAULT_ATTRIBUTES.lastName
+    ),
+    avatarUrl: null,
+  };
+}
+
+// ============================================================================
+// Connections and provisioning
+// ============================================================================
+
+/**
+ * Load an organization's enabled SAML connection by organization slug.
+ */
+export async function getSamlConnection(
+  organizationSlug: string
+): Promise<{ organizationId: string; connection: SamlConnection } | null> {
+  const organization = await prisma.organization.findUnique({
+    where: { slug: organizationSlug },
+    select: { id: true, samlConnection: true },
+  });
+
+  const connection = organization?.samlConnection;
+  if (!connection || !connection.isEnabled) return null;
+
+  return { organizationId: organization.id, connection };
+}
+
+/**
+ * Give an SSO user the connection's default role in the organization,
+ * unless they already hold a role there.
+ *
+ * @returns true if a membership was created
+ */
+export async function ensureSamlMembership(
+  userId: string,
+  connection: Pick<SamlConnection, 'organizationId' | 'defaultRoleId'>
+): Promise<boolean> {
+  const existing = await prisma.userRole.findFirst({
+    where: { userId, organizationId: connection.organizationId },
+    select: { id: true },
+  });
+  if (existing) return false;
+
+  await prisma.userRole.create({
+    data: {
+      userId,
+      roleId: connection.defaultRoleId,
+      organizationId: connection.organizationId,
+    },
+  });
+  return true;
+}
+
+/**
+ * Just-in-time provisioning: create a passwordless user linked to the
+ * SAML identity, with the connection's default role in the organization.
+ * Only for addresses on the organization's verified domains.
+ *
+ * @returns The new user's ID
+ */
+export async function provisionSamlUser(
+  profile: OAuthUserProfile,
+  organizationSlug: string,
+  connection: Pick<SamlConnection, 'organizationId' | 'defaultRoleId'>
+): Promise<string> {
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.create({
+      data: {
+        email: profile.email,
+        firstName: profile.firstName,
+        lastName: profile.lastName,
+        emailVerified: profile.emailVerified,
+        emailVerifiedAt: profile.emailVerified ? new Date() : null,
+        lastLoginAt: new Date(),
+      },
+    });
+
+    await tx.userRole.create({
+      data: {
+        userId: user.id,
+        roleId: connection.defaultRoleId,
+        organizationId: connection.organizationId,
+      },
+    });
+
+    await tx.oAuthAccount.create({
+      data: {
+        userId: user.id,
+        provider: getSamlProviderId(organizationSlug),
+        providerAccountId: profile.id,
+        email: profile.email,
+      },
+    });
+
+    return user.id;
+  });
+}
@@ -0,0 +1,205 @@
+/**
+ * Organization SSO policy: claimed email domains and enforced SSO.
+ *
+ * A verified domain routes logins for its addresses to the owning
+ * organization's IdP. When an organization enforces SSO, its members
+ * cannot use the other login methods.
+ */
+import { randomBytes } from 'crypto';
+import { resolveTxt } from 'dns/promises';
+import { prisma } from '@/lib/db';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { ROLES } from '@/lib/security/index';
+import { SsoRequiredError } from '@/services/auth.errors';
+
+const { domainVerificationRecord, domainVerificationValuePrefix } =
+  SECURITY_CONFIG.sso;
+
+const DOMAIN_PATTERN =
+  /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export interface SsoRoute {
+  organizationSlug: string;
+  organizationName: string;
+  ssoUrl: string;
+}
+
+/**
+ * Lowercase and validate a domain name.
+ *
+ * @returns null if the input is not a valid domain
+ */
+export function normalizeDomain(input: string): string | null {
+  const domain = input.trim().toLowerCase().replace(/\.$/, '');
+  return DOMAIN_PATTERN.test(domain) ? domain : null;
+}
+
+export function getEmailDomain(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  return at === -1 ? null : normalizeDomain(email.slice(at + 1));
+}
+
+export function getSsoLoginUrl(
+  organizationSlug: string,
+  returnTo?: string
+): string {
+  const url = `/api/auth/saml/${organizationSlug}/login`;
+  return returnTo ? `${url}?returnTo=${encodeURIComponent(returnTo)}` : url;
+}
+
+// ============================================================================
+// Domain routing
+// ============================================================================
+
+/**
+ * Find the organization IdP that handles an email address, if its domain
+ * is verified by an organization with an enabled SAML connection.
+ */
+export async function findSsoForEmail(
+  email: string,
+  returnTo?: string
+): Promise<SsoRoute | null> {
+  const domain = getEmailDomain(email);
+  if (!domain) return null;
+
+  const claim = await prisma.organizationDomain.findFirst({
+    where: {
+      domain,
+      verifiedAt: { not: null },
+      organization: { samlConnection: { is: { isEnabled: true } } },
+    },
+    orderBy: { verifiedAt: 'asc' },
+    select: { organization: { select: { slug: true, name: true } } },
+  });
+  if (!claim) return null;
+
+  return {
+    organizationSlug: claim.organization.slug,
+    organizationName: claim.organization.name,
+    ssoUrl: getSsoLoginUrl(claim.organization.slug, returnTo),
+  };
+}
+
+/**
+ * Whether the address is on a domain verified by the organization, which
+ * makes the organization authoritative for accounts using it.
+ */
+export async function isEmailOnVerifiedDomain(
+  email: string,
+  organizationId: string
+): Promise<boolean> {
+  const domain = getEmailDomain(email);
+  if (!domain) return false;
+
+  const claim = await prisma.organizationDomain.findFirst({
+    where: { organizationId, domain, verifiedAt: { not: null } },
+    select: { id: true },
+  });
+  return claim !== null;
+}
+
+// ============================================================================
+// Enforcement
+// ============================================================================
+
+/**
+ * Find an organization that requires this user to sign in through SSO.
+ * Owners are exempt so a broken IdP cannot lock everyone out.
+ */
+export async function getEnforcedSsoOrganization(
+  userId: string
+): Promise<{ slug: string } | null> {
+  const membership = await prisma.userRole.findFirst({
+    where: {
+      userId,
+      role: { name: { not: ROLES.OWNER } },
+      organization: {
+        ssoEnforced: true,
+        samlConnection: { is: { isEnabled: true } },
+      },
+    },
+    select: { organization: { select: { slug: true } } },
+  });
+
+  return membership?.organization ?? null;
+}
+
+/**
+ * Reject non-SSO logins for members of organizations that enforce SSO.
+ *
+ * @throws SsoRequiredError
+ */
+export async function assertSsoNotRequired(userId: string): Promise<void> {
+  const organization = await getEnforcedSsoOrganization(userId);
+  if (organization) {
+    throw new SsoRequiredError(
+      organization.slug,
+      getSsoLoginUrl(organization.slug)
+    );
+  }
+}
+
+// ============================================================================
+// Domain verification
+// ============================================================================
+
+/**
+ * The organization's domain verification token, created on first use.
+ * One token per organization covers all of its claimed domains.
+ */
+export async function getDomainVerificationToken(
+  organizationId: string
+): Promise<string> {
+  const organization = await prisma.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { domainVerificationToken: true },
+  });
+  if (organization.domainVerificationToken) {
+    return organization.domainVerificationToken;
+  }
+
+  const token = randomBytes(16).toString('hex');
+  // Conditional update so concurrent first claims agree on one token
+  await prisma.organization.updateMany({
+    where: { id: organizationId, domainVerificationToken: null },
+    data: { domainVerificationToken: token },
+  });
+
+  const updated = await prisma.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { domainVerificationToken: true },
+  });
+  return updated.domainVerificationToken!;
+}
+
+/**
+ * DNS TXT record an organization must publish to prove it owns a domain.
+ */
+export function getDomainVerificationRecord(
+  domain: string,
+  token: string
+): { name: string; value: string } {
+  return {
+    name: `${domainVerificationRecord}.${domain}`,
+    value: `${domainVerificationValuePrefix}${token}`,
+  };
+}
+
+/**
+ * Check the domain's TXT records for the organization's verification value.
+ */
+export async function verifyDomainOwnership(
+  domain: string,
+  token: string
+): Promise<boolean> {
+  const { name, value } = getDomainVerificationRecord(domain, token);
+
+  try {
+    const records = await resolveTxt(name);
+    // Long TXT records are split into chunks
+    return records.some((chunks) => chunks.join('') === value);
+  } catch (error) {
+    console.error(`Domain verification lookup failed for ${name}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Mandatory two-factor authentication policy.
+ *
+ * 2FA is required for members of organizations with `require2FA` set and for
+ * holders of the platform roles listed in TWO_FACTOR_REQUIRED_ROLES. Covered
+ * users without 2FA get a grace period from their first covered sign-in;
+ * after it their session is limited to enrollment.
+ */
+import { prisma } from '@/lib/db';
+import { env } from '@/lib/env';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import type { SessionData } from '@/types/auth';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Page a session is limited to once its enrollment deadline has passed */
+export const TWO_FACTOR_SETUP_PATH = '/auth/setup-2fa';
+
+export type TwoFactorEnforcementStatus =
+  | 'not_required'
+  | 'enrolled'
+  | 'grace'
+  | 'enrollment_required';
+
+export interface TwoFactorEnforcement {
+  status: TwoFactorEnforcementStatus;
+  /** Enrollment deadline, set while a covered user has not enrolled */
+  graceUntil: Date | null;
+}
+
+export interface TwoFactorCompliance {
+  members: number;
+  enrolled: number;
+}
+
+/**
+ * Platform roles whose holders must use 2FA.
+ */
+export function getTwoFactorRequiredRoles(): string[] {
+  return (env.TWO_FACTOR_REQUIRED_ROLES ?? '')
+    .split(',')
+    .map((role) => role.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether a platform role or an organization membership requires this user
+ * to use 2FA.
+ */
+export async function isTwoFactorRequired(userId: string): Promise<boolean> {
+  const requiredRoles = getTwoFactorRequiredRoles();
+
+  const covering = await prisma.userRole.findFirst({
+    where: {
+      userId,
+      OR: [
+        { organization: { require2FA: true } },
+        ...(requiredRoles.length > 0
+          ? [{ organizationId: null, role: { name: { in: requiredRoles } } }]
+          : []),
+      ],
+    },
+    select: { id: true },
+  });
+
+  return covering !== null;
+}
+
+/**
+ * Where the user stands against the 2FA policy at sign-in.
+ *
+ * The grace period starts the first time a covered user without 2FA signs
+ * in, and is cleared once they are no longer covered so a later policy
+ * starts a fresh one.
+ */
+export async function getTwoFactorEnforcement(
+  userId: string,
+  now: Date = new Date()
+): Promise<TwoFactorEnforcement> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorGraceUntil: true },
+  });
+  if (!user) {
+    return { status: 'not_required', graceUntil: null };
+  }
+  if (user.twoFactorEnabled) {
+    return { status: 'enrolled', graceUntil: null };
+  }
+
+  if (!(await isTwoFactorRequired(userId))) {
+    if (user.twoFactorGraceUntil) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorGraceUntil: null },
+      });
+    }
+    return { status: 'not_required', graceUntil: null };
+  }
+
+  let graceUntil = user.twoFactorGraceUntil;
+  if (!graceUntil) {
+    graceUntil = new Date(
+      now.getTime() + SECURITY_CONFIG.twoFactorPolicy.gracePeriodDays * DAY_MS
+    );
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorGraceUntil: graceUntil },
+    });
+  }
+
+  return {
+    status: graceUntil > now ? 'grace' : 'enrollment_required',
+    graceUntil,
+  };
+}
+
+/**
+ * Whether the session's 2FA grace period is over, limiting it to enrollment.
+ */
+export function isTwoFactorEnrollmentRequired(
+  session: Pick<SessionData, 'twoFactorGraceUntil'>,
+  now: number = Date.now()
+): boolean {
+  return (
+    session.twoFactorGraceUntil !== undefined &&
+    now >= session.twoFactorGraceUntil
+  );
+}
+
+/**
+ * How many members of an organization have enrolled in 2FA.
+ */
+export async function getTwoFactorCompliance(
+  organizationId: string
+): Promise<TwoFactorCompliance> {
+  const [members, enrolled] = await Promise.all([
+    prisma.userRole.count({ where: { organizationId } }),
+    prisma.userRole.count({
+      where: { organizationId, user: { twoFactorEnabled: true } },
+    }),
+  ]);
+
+  return { members, enrolled };
+}
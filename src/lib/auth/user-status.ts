@@ -0,0 +1,240 @@
+/**
+ * User lifecycle status.
+ *
+ * The status decides whether a user can sign in and use their sessions and
+ * API keys. `isActive` mirrors `status === ACTIVE` so existing queries that
+ * filter on it stay correct: change a status only with `changeUserStatus`,
+ * which keeps both in sync and records the transition.
+ */
+import { Prisma, UserStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import {
+  AccountUnavailableError,
+  ValidationError,
+} from '@/services/auth.errors';
+
+export { UserStatus };
+
+/** Statuses each status can change to */
+export const USER_STATUS_TRANSITIONS: Record<UserStatus, UserStatus[]> = {
+  INVITED: ['ACTIVE', 'SUSPENDED', 'PENDING_DELETION', 'DELETED'],
+  ACTIVE: ['SUSPENDED', 'PENDING_DELETION', 'DELETED'],
+  // Suspending again replaces the reason and expiry
+  SUSPENDED: ['ACTIVE', 'SUSPENDED', 'PENDING_DELETION', 'DELETED'],
+  PENDING_DELETION: ['ACTIVE', 'DELETED'],
+  DELETED: [],
+};
+
+export interface UserStatusChange {
+  reason?: string | null;
+  /**
+   * End of a suspension, after which the user is reactivated, or of the
+   * deletion grace period, after which the account is purged
+   */
+  expiresAt?: Date | null;
+  /** Admin making the change; omitted for automatic changes */
+  changedById?: string | null;
+}
+
+export interface UserStatusFields {
+  id: string;
+  isActive: boolean;
+  status?: UserStatus;
+  statusReason?: string | null;
+  statusExpiresAt?: Date | null;
+}
+
+/**
+ * Change a user's status and record the transition. Blocking statuses end
+ * the user's sessions and revoke their refresh tokens. Pass `tx` to make
+ * the change part of a larger transaction.
+ *
+ * @throws ValidationError when the transition is not allowed
+ */
+export async function changeUserStatus(
+  userId: string,
+  status: UserStatus,
+  change: UserStatusChange = {},
+  tx?: Prisma.TransactionClient
+): Promise<UserStatusFields> {
+  if (!tx) {
+    return prisma.$transaction((client) =>
+      changeUserStatus(userId, status, change, client)
+    );
+  }
+
+  const user = await tx.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { status: true },
+  });
+
+  if (!canChangeUserStatus(user.status, status)) {
+    throw new ValidationError(
+      `A ${formatUserStatus(user.status)} account cannot become ${formatUserStatus(status)}`
+    );
+  }
+
+  const reason = change.reason?.trim() || null;
+  const expiresAt =
+    status === 'SUSPENDED' || status === 'PENDING_DELETION'
+      ? (change.expiresAt ?? null)
+      : null;
+
+  const updated = await tx.user.update({
+    where: { id: userId },
+    data: {
+      status,
+      isActive: status === 'ACTIVE',
+      statusReason: status === 'ACTIVE' ? null : reason,
+      statusExpiresAt: expiresAt,
+    },
+    select: {
+      id: true,
+      isActive: true,
+      status: true,
+      statusReason: true,
+      statusExpiresAt: true,
+    },
+  });
+
+  await tx.userStatusTransition.create({
+    data: {
+      userId,
+      fromStatus: user.status,
+      toStatus: status,
+      reason,
+      expiresAt,
+      changedById: change.changedById ?? null,
+    },
+  });
+
+  if (status !== 'ACTIVE') {
+    await tx.userSession.deleteMany({ where: { userId } });
+    await tx.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  return updated;
+}
+
+/** Whether a user in `from` status can be changed to `to` */
+export function canChangeUserStatus(from: UserStatus, to: UserStatus): boolean {
+  return USER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Change the status of several users, skipping those already in the status
+ * or whose status cannot change to it.
+ *
+ * @returns IDs of the users whose status changed
+ */
+export async function changeUsersStatus(
+  userIds: string[],
+  status: UserStatus,
+  change: UserStatusChange = {}
+): Promise<string[]> {
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, status: true },
+  });
+
+  const changedIds: string[] = [];
+  for (const user of users) {
+    if (user.status === status || !canChangeUserStatus(user.status, status)) {
+      continue;
+    }
+    await changeUserStatus(user.id, status, change);
+    changedIds.push(user.id);
+  }
+  return changedIds;
+}
+
+/**
+ * Reactivate the user when their suspension has expired.
+ *
+ * @returns The user with their current status
+ */
+export async function refreshUserStatus<T extends UserStatusFields>(
+  user: T
+): Promise<T> {
+  if (
+    user.status !== 'SUSPENDED' ||
+    !user.statusExpiresAt ||
+    user.statusExpiresAt > new Date()
+  ) {
+    return user;
+  }
+
+  await changeUserStatus(user.id, 'ACTIVE', { reason: 'Suspension expired' });
+  return {
+    ...user,
+    status: 'ACTIVE',
+    isActive: true,
+    statusReason: null,
+    statusExpiresAt: null,
+  };
+}
+
+/**
+ * Reactivate every user whose suspension has expired.
+ *
+ * @returns The number of users reactivated
+ */
+export async function reactivateExpiredSuspensions(): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: { status: 'SUSPENDED', statusExpiresAt: { lte: new Date() } },
+    select: { id: true },
+  });
+
+  for (const { id } of users) {
+    await changeUserStatus(id, 'ACTIVE', { reason: 'Suspension expired' });
+  }
+  return users.length;
+}
+
+export function formatUserStatus(status: UserStatus): string {
+  return status.toLowerCase().replace('_', ' ');
+}
+
+/**
+ * Explain to the user why their account cannot be used. Admins give the
+ * reason when they change the status.
+ */
+export function getUnavailableAccountMessage(user: UserStatusFields): string {
+  const reason = user.statusReason ? ` Reason: ${user.statusReason}` : '';
+
+  switch (user.status) {
+    case 'INVITED':
+      return 'Your account is not activated yet. Use the link in your invitation email to set a password.';
+    case 'SUSPENDED':
+      return user.statusExpiresAt
+        ? `Your account is suspended until ${user.statusExpiresAt.toUTCString()}.${reason}`
+        : `Your account is suspended.${reason}`;
+    case 'PENDING_DELETION':
+      return user.statusExpiresAt
+        ? `Your account will be deleted on ${user.statusExpiresAt.toUTCString()}. Use the link in the email we sent you to keep it.`
+        : `Your account is scheduled for deletion.${reason}`;
+    case 'DELETED':
+      return 'This account has been closed.';
+    default:
+      return 'Your account is deactivated.';
+  }
+}
+
+/**
+ * Refuse users whose status does not allow using the account.
+ *
+ * @throws AccountUnavailableError
+ */
+export function assertAccountAvailable(user: UserStatusFields): void {
+  if (user.isActive) return;
+
+  throw new AccountUnavailableError(
+    getUnavailableAccountMessage(user),
+    user.status ?? 'SUSPENDED',
+    user.statusReason ?? null,
+    user.statusExpiresAt ?? null
+  );
+}
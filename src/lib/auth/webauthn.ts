@@ -0,0 +1,292 @@
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import type { IronSession } from 'iron-session';
+import { prisma } from '../db';
+import { env } from '../env';
+import { SECURITY_CONFIG } from '../config/security';
+import type { SessionData, WebAuthnChallengeData } from '@/types/auth';
+
+const { rpName, challengeExpiryMinutes } = SECURITY_CONFIG.webauthn;
+
+export interface PasskeyData {
+  id: string;
+  name: string;
+  deviceType: string;
+  backedUp: boolean;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+const passkeySelect = {
+  id: true,
+  name: true,
+  deviceType: true,
+  backedUp: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Relying party derived from the public app URL.
+ * The RP ID must be the registrable domain the browser sees.
+ */
+export function getRelyingParty(): { rpID: string; origin: string } {
+  const url = new URL(env.NEXT_PUBLIC_APP_URL);
+  return { rpID: url.hostname, origin: url.origin };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(Buffer.from(value, 'base64url'));
+}
+
+function parseTransports(
+  transports: string | null
+): AuthenticatorTransportFuture[] | undefined {
+  if (!transports) return undefined;
+  return transports.split(',') as AuthenticatorTransportFuture[];
+}
+
+// ============================================================================
+// Challenge storage (iron-session, single use)
+// ============================================================================
+
+export function storeWebAuthnChallenge(
+  session: IronSession<SessionData>,
+  data: Omit<WebAuthnChallengeData, 'expiresAt'>
+): void {
+  session.webauthnChallenge = {
+    ...data,
+    expiresAt: Date.now() + challengeExpiryMinutes * 60 * 1000,
+  };
+}
+
+/**
+ * Take the pending challenge out of the session.
+ * Returns null if missing, expired, or issued for a different purpose/user.
+ * The challenge is cleared either way so it can never be replayed.
+ */
+export function consumeWebAuthnChallenge(
+  session: IronSession<SessionData>,
+  purpose: WebAuthnChallengeData['purpose'],
+  userId?: string
+): string | null {
+  const pending = session.webauthnChallenge;
+  delete session.webauthnChallenge;
+
+  if (!pending || pending.purpose !== purpose) return null;
+  if (pending.expiresAt < Date.now()) return null;
+  if (pending.userId !== userId) return null;
+
+  return pending.challenge;
+}
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+export async function generatePasskeyRegistrationOptions(user: {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  const { rpID } = getRelyingParty();
+
+  const existing = await prisma.webAuthnCredential.findMany({
+    where: { userId: user.id },
+    select: { credentialId: true, transports: true },
+  });
+
+  const displayName = [user.firstName, user.lastName].filter(Boolean).join(' ');
+
+  return generateRegistrationOptions({
+    rpName,
+    rpID,
+    userName: user.email,
+    userID: new TextEncoder().encode(user.id),
+    userDisplayName: displayName || user.email,
+    attestationType: 'none',
+    excludeCredentials: existing.map((c) => ({
+      id: c.credentialId,
+      transports: parseTransports(c.transports),
+    })),
+    authenticatorSelection: {
+      residentKey: 'preferred',
+      userVerification: 'preferred',
+    },
+  });
+}
+
+export async function verifyPasskeyRegistration(
+  userId: string,
+  response: RegistrationResponseJSON,
+  expectedChallenge: string,
+  name: string
+): Promise<PasskeyData | null> {
+  const { rpID, origin } = getRelyingParty();
+
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: false,
+    });
+  } catch {
+    return null;
+  }
+
+  if (!verification.verified) {
+    return null;
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } =
+    verification.registrationInfo;
+
+  return prisma.webAuthnCredential.create({
+    data: {
+      userId,
+      name,
+      credentialId: credential.id,
+      publicKey: toBase64Url(credential.publicKey),
+      counter: credential.counter,
+      transports: credential.transports?.join(',') || null,
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+    },
+    select: passkeySelect,
+  });
+}
+
+// ============================================================================
+// Authentication
+// ============================================================================
+
+/**
+ * Generate assertion options.
+ * With a userId the user's credentials are listed (second factor);
+ * without one the browser offers discoverable credentials (passwordless),
+ * and the authenticator must verify the user with a PIN or biometric.
+ */
+export async function generatePasskeyAuthenticationOptions(
+  userId?: string
+): Promise<PublicKeyCredentialRequestOptionsJSON> {
+  const { rpID } = getRelyingParty();
+
+  const allowCredentials = userId
+    ? (
+        await prisma.webAuthnCredential.findMany({
+          where: { userId },
+          select: { credentialId: true, transports: true },
+        })
+      ).map((c) => ({
+        id: c.credentialId,
+        transports: parseTransports(c.transports),
+      }))
+    : undefined;
+
+  return generateAuthenticationOptions({
+    rpID,
+    allowCredentials,
+    userVerification: userId ? 'preferred' : 'required',
+  });
+}
+
+/**
+ * Verify an assertion and bump the stored signature counter.
+ *
+ * Without an expected user the passkey is the only factor (passwordless), so
+ * the assertion must show the authenticator verified the user.
+ *
+ * @param expectedUserId - When set, the credential must belong to this user
+ * @returns The owning user ID, or null if the assertion is invalid
+ */
+export async function verifyPasskeyAuthentication(
+  response: AuthenticationResponseJSON,
+  expectedChallenge: string,
+  expectedUserId?: string
+): Promise<{ userId: string; credentialId: string } | null> {
+  const { rpID, origin } = getRelyingParty();
+
+  const stored = await prisma.webAuthnCredential.findUnique({
+    where: { credentialId: response.id },
+  });
+
+  if (!stored) return null;
+  if (expectedUserId && stored.userId !== expectedUserId) return null;
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      credential: {
+        id: stored.credentialId,
+        publicKey: fromBase64Url(stored.publicKey),
+        counter: stored.counter,
+        transports: parseTransports(stored.transports),
+      },
+      requireUserVerification: !expectedUserId,
+    });
+  } catch {
+    return null;
+  }
+
+  if (!verification.verified) {
+    return null;
+  }
+
+  await prisma.webAuthnCredential.update({
+    where: { id: stored.id },
+    data: {
+      counter: verification.authenticationInfo.newCounter,
+      backedUp: verification.authenticationInfo.credentialBackedUp,
+      lastUsedAt: new Date(),
+    },
+  });
+
+  return { userId: stored.userId, credentialId: stored.id };
+}
+
+// ============================================================================
+// Management
+// ============================================================================
+
+export async function listPasskeys(userId: string): Promise<PasskeyData[]> {
+  return prisma.webAuthnCredential.findMany({
+    where: { userId },
+    select: passkeySelect,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function getPasskeyCount(userId: string): Promise<number> {
+  return prisma.webAuthnCredential.count({ where: { userId } });
+}
+
+export async function deletePasskey(
+  userId: string,
+  id: string
+): Promise<boolean> {
+  const result = await prisma.webAuthnCredential.deleteMany({
+    where: { id, userId },
+  });
+  return result.count > 0;
+}
@@ -4,10 +4,23 @@
  */
 
 export const SECURITY_CONFIG = {
+  passwordHashing: {
+    // New hashes use this algorithm; PASSWORD_HASH_ALGORITHM overrides it.
+    // Hashes made with another algorithm or weaker parameters are replaced
+    // at the next successful sign-in.
+    algorithm: 'argon2id' as 'argon2id' | 'scrypt' | 'bcrypt',
+    bcrypt: { cost: 12 },
+    argon2id: { memoryCost: 19456, timeCost: 2, parallelism: 1 }, // 19 MiB
+    scrypt: { cost: 131072, blockSize: 8, parallelization: 1 }, // N = 2^17
+  },
   lockout: {
     maxFailedAttempts: 5,
     durationMinutes: 15,
   },
+  refreshToken: {
+    lifetimeDays: 7,
+    absoluteLifetimeDays: 30, // Sign in again after this, even if rotated
+  },
   rememberMe: {
     tokenLifetimeDays: 30,
     cookieName: 'remember_me',
@@ -17,31 +30,162 @@ export const SECURITY_CONFIG = {
     backupCodeCount: 10,
     pendingTokenExpiryMinutes: 5,
   },
+  twoFactorPolicy: {
+    // Users newly covered by a mandatory 2FA policy can keep signing in
+    // normally for this long before they are limited to enrollment
+    gracePeriodDays: 7,
+  },
+  webauthn: {
+    rpName: 'SocleStack',
+    challengeExpiryMinutes: 5,
+    maxCredentialsPerUser: 10,
+  },
+  magicLink: {
+    expiryMinutes: 15,
+  },
+  emailOtp: {
+    expiryMinutes: 10,
+    maxAttempts: 5, // Wrong guesses before the code is discarded
+  },
+  risk: {
+    // Login risk scores at or above these thresholds require a second factor
+    // (2FA, or an emailed code for users without it) or refuse the login
+    thresholds: {
+      challenge: 40,
+      block: 90,
+    },
+    history: {
+      maxLogins: 50, // Previous successful logins compared against
+      lookbackDays: 90,
+    },
+    newDevice: { score: 20 },
+    newNetwork: { newIpScore: 10, newAsnScore: 25 },
+    impossibleTravel: {
+      score: 60,
+      maxSpeedKmh: 1000, // Faster than a commercial flight
+      minDistanceKm: 500, // Ignore IP geolocation inaccuracy
+    },
+    failedAttempts: {
+      windowMinutes: 60,
+      minAttempts: 3,
+      scorePerAttempt: 10,
+      maxScore: 40,
+    },
+    unusualHour: {
+      score: 10,
+      minHistory: 10, // Logins needed before hours are considered usual
+      toleranceHours: 2,
+    },
+  },
   impersonation: {
     timeoutMinutes: 60,
   },
+  reauth: {
+    // Sensitive operations require a sign-in or re-authentication within
+    // this many minutes
+    maxAgeMinutes: {
+      changeEmail: 15,
+      disable2FA: 5,
+      createReadWriteApiKey: 15,
+      deleteAccount: 5,
+      impersonate: 15,
+    },
+  },
   oauth: {
     stateTokenExpiryMinutes: 10,
     pendingLinkExpiryMinutes: 5,
     stateCookieName: 'oauth_state',
+    discoveryCacheMinutes: 60,
+  },
+  saml: {
+    requestExpiryMinutes: 10,
+    stateCookieName: 'saml_state',
+    clockSkewMs: 60 * 1000, // Tolerated IdP clock drift
+  },
+  sso: {
+    // Claimed domains prove ownership with a TXT record on <prefix>.<domain>
+    domainVerificationRecord: '_soclestack-challenge',
+    domainVerificationValuePrefix: 'soclestack-domain-verification=',
+  },
+  accountDeletion: {
+    // Accounts stay pending deletion this long before they are purged;
+    // ACCOUNT_DELETION_GRACE_DAYS overrides it. 0 deletes immediately.
+    gracePeriodDays: 30,
+  },
+  dataExport: {
+    maxPerDay: 3, // Export requests per user per 24 hours
+    downloadExpiryHours: 72, // Archives are deleted after this
+    processingTimeoutMinutes: 30, // Exports still building after this failed
+  },
+  roleRequests: {
+    // Just-in-time role requests ask for a role for this long at most
+    minDurationMinutes: 15,
+    maxDurationHours: 24,
+    // Only these roles can be requested; reviewers must hold the role too
+    requestableRoles: ['ROLE_MODERATOR', 'ROLE_ADMIN'] as readonly string[],
+  },
+  userImport: {
+    maxRows: 5000,
+    batchSize: 50, // Rows created per request, so progress can be reported
+    inviteExpiryDays: 7, // Lifetime of the set-password link in invites
+  },
+  scim: {
+    defaultPageSize: 100,
+    maxPageSize: 200,
+    maxTokensPerOrganization: 5,
+  },
+  signingKeys: {
+    rotationIntervalDays: 90,
+    // New keys are published this long before they start signing, so
+    // verifiers that cache the JWKS already know them
+    publishAheadHours: 24,
+    // Replaced keys keep verifying for this long after the new key activates;
+    // must exceed the longest token lifetime signed with them
+    overlapHours: 24,
+    cacheTtlSeconds: 5 * 60,
+  },
+  oauthServer: {
+    authorizationCodeExpirySeconds: 60,
+    accessTokenExpirySeconds: 15 * 60,
+    idTokenExpirySeconds: 60 * 60,
+    refreshTokenExpiryDays: 30,
   },
   rateLimits: {
     cleanupIntervalMs: 60 * 1000, // Cleanup expired entries every 60 seconds
     login: { limit: 30, windowMs: 15 * 60 * 1000 }, // 30 per 15 minutes
     register: { limit: 3, windowMs: 60 * 60 * 1000 }, // 3 per hour
     forgotPassword: { limit: 3, windowMs: 60 * 60 * 1000 }, // 3 per hour
+    magicLink: { limit: 5, windowMs: 60 * 60 * 1000 }, // 5 per hour
+    emailOtpSend: { limit: 5, windowMs: 60 * 60 * 1000 }, // 5 per hour
     apiKeyCreate: { limit: 10, windowMs: 60 * 60 * 1000 }, // 10 per hour
     apiKeyRevoke: { limit: 10, windowMs: 60 * 60 * 1000 }, // 10 per hour
     passwordChange: { limit: 5, windowMs: 60 * 60 * 1000 }, // 5 per hour
     twoFactorSetup: { limit: 20, windowMs: 60 * 60 * 1000 }, // 20 per hour
     twoFactorValidate: { limit: 30, windowMs: 15 * 60 * 1000 }, // 30 per 15 minutes
     twoFactorDisable: { limit: 5, windowMs: 60 * 60 * 1000 }, // 5 per hour
+    webauthnAuthenticate: { limit: 30, windowMs: 15 * 60 * 1000 }, // 30 per 15 minutes
+    reauthenticate: { limit: 10, windowMs: 15 * 60 * 1000 }, // 10 per 15 minutes
     oauthLink: { limit: 5, windowMs: 60 * 60 * 1000 }, // 5 per hour
+    ssoDiscover: { limit: 30, windowMs: 15 * 60 * 1000 }, // 30 per 15 minutes
+    scimTokenCreate: { limit: 10, windowMs: 60 * 60 * 1000 }, // 10 per hour
+    oauthToken: { limit: 60, windowMs: 60 * 1000 }, // 60 per minute
     csrfFailure: { limit: 10, windowMs: 5 * 60 * 1000 }, // 10 failures per 5 minutes
   },
+  // Platform password policy; organizations can only make it stricter
   passwordPolicy: {
+    minLength: 8,
+    maxLength: 128,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireNumber: true,
+    requireSymbol: true,
+    historyDepth: 3, // Previous passwords that cannot be reused
     maxAgeDays: 90, // Warn after 90 days
     warningDays: 14, // Show warning 14 days before expiration
+    enforceMaxAge: false, // Limit sessions to a password change once expired
+    rejectCommon: true, // Common passwords and their variants
+    rejectPersonalInfo: true, // Passwords containing the email or name
+    rejectBreached: true, // Needs PASSWORD_BREACH_DATA_PATH
   },
   emailRetention: {
     softDeleteRetentionDays: 30, // Hard-delete soft-deleted records after 30 days
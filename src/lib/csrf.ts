@@ -177,8 +177,14 @@ export const CSRF_EXCLUDED_ROUTES = [
   '/api/auth/verify-email',
   '/api/auth/verify-unlock',
   '/api/auth/request-unlock',
+  '/api/auth/restore-account',
   '/api/auth/resend-verification',
+  '/api/auth/magic-link',
+  '/api/auth/2fa/pending/', // Bound to the pending 2FA token
   '/api/auth/oauth/',
+  '/api/auth/webauthn/authenticate/',
+  '/api/auth/sso/',
+  '/api/auth/saml/', // IdP posts assertions cross-site; bound to the SAML state cookie
   '/api/invites/',
   '/api/webhooks/', // Webhooks use signature verification instead of CSRF
   '/api/test/', // Test endpoints (only available in dev/test environments)
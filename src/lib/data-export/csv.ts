@@ -0,0 +1,29 @@
+function formatCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format records as RFC 4180 CSV with a header row. Columns are the keys of
+ * all records; nested values are written as JSON.
+ */
+export function formatCsv(records: Record<string, unknown>[]): string {
+  const columns = [
+    ...new Set(records.flatMap((record) => Object.keys(record))),
+  ];
+  const lines = [
+    columns.map(formatCsvField).join(','),
+    ...records.map((record) =>
+      columns.map((column) => formatCsvField(record[column])).join(',')
+    ),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,424 @@
+/**
+ * Personal data export (GDPR).
+ *
+ * A request creates a PENDING export that is built after the response is
+ * sent, so large accounts do not hold up the request. The result is a ZIP
+ * archive with all the user's data as JSON plus one CSV per table, kept in
+ * the database for `SECURITY_CONFIG.dataExport.downloadExpiryHours`. The
+ * user is emailed a download link once it is ready. An export still building
+ * after `processingTimeoutMinutes` was interrupted (e.g. by a redeploy) and
+ * is marked failed by the scheduled job.
+ */
+import { DataExportStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import log from '@/lib/logger';
+import { logAuditEvent } from '@/lib/audit';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { sendDataExportReadyEmail } from '@/lib/email';
+import { NotFoundError, RateLimitError } from '@/services/auth.errors';
+import { formatCsv } from './csv';
+import { createZip, ZipEntry } from './zip';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const FAILED_MESSAGE =
+  'The export could not be created. Please request a new one.';
+
+export interface DataExportContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface DataExportSummary {
+  id: string;
+  status: DataExportStatus;
+  size: number | null;
+  error: string | null;
+  expiresAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+const summarySelect = {
+  id: true,
+  status: true,
+  size: true,
+  error: true,
+  expiresAt: true,
+  completedAt: true,
+  createdAt: true,
+} as const;
+
+/** Exports that started building before this are considered interrupted */
+function staleProcessingCutoff(): Date {
+  return new Date(
+    Date.now() - SECURITY_CONFIG.dataExport.processingTimeoutMinutes * MINUTE_MS
+  );
+}
+
+/**
+ * Request an export of the user's data. A request already in progress is
+ * returned instead of starting another one; interrupted ones are ignored.
+ *
+ * @throws RateLimitError when the user reached the daily export limit
+ */
+export async function requestDataExport(
+  userId: string,
+  context: DataExportContext
+): Promise<DataExportSummary> {
+  const inProgress = await prisma.dataExport.findFirst({
+    where: {
+      userId,
+      OR: [
+        { status: 'PENDING' },
+        { status: 'PROCESSING', startedAt: { gt: staleProcessingCutoff() } },
+      ],
+    },
+    select: summarySelect,
+  });
+  if (inProgress) return inProgress;
+
+  const { maxPerDay } = SECURITY_CONFIG.dataExport;
+  const recent = await prisma.dataExport.count({
+    where: { userId, createdAt: { gte: new Date(Date.now() - 24 * HOUR_MS) } },
+  });
+  if (recent >= maxPerDay) {
+    throw new RateLimitError(
+      `You can request ${maxPerDay} exports per day. Please try again tomorrow.`
+    );
+  }
+
+  const dataExport = await prisma.dataExport.create({
+    data: { userId },
+    select: summarySelect,
+  });
+
+  await logAuditEvent({
+    action: 'DATA_EXPORT_REQUESTED',
+    category: 'security',
+    userId,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: { exportId: dataExport.id },
+  });
+
+  return dataExport;
+}
+
+/** The user's exports, newest first */
+export async function listDataExports(
+  userId: string
+): Promise<DataExportSummary[]> {
+  return prisma.dataExport.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: 10,
+    select: summarySelect,
+  });
+}
+
+/**
+ * Build a pending export and email the user a download link. Does nothing
+ * when another worker already picked the export up.
+ */
+export async function processDataExport(exportId: string): Promise<void> {
+  const { count } = await prisma.dataExport.updateMany({
+    where: { id: exportId, status: 'PENDING' },
+    data: { status: 'PROCESSING', startedAt: new Date() },
+  });
+  if (count === 0) return;
+
+  const { userId } = await prisma.dataExport.findUniqueOrThrow({
+    where: { id: exportId },
+    select: { userId: true },
+  });
+
+  try {
+    const { user, entries } = await collectUserData(userId);
+    const archive = await createZip(entries);
+    const expiresAt = new Date(
+      Date.now() + SECURITY_CONFIG.dataExport.downloadExpiryHours * HOUR_MS
+    );
+
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'READY',
+        archive: new Uint8Array(archive),
+        size: archive.length,
+        expiresAt,
+        completedAt: new Date(),
+      },
+    });
+
+    sendDataExportReadyEmail(
+      user.email,
+      exportId,
+      expiresAt,
+      user.firstName ?? undefined,
+      userId
+    ).catch((err) => log.email.failed('data_export', user.email, err));
+  } catch (error) {
+    log.error('Data export failed', { exportId, error: String(error) });
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'FAILED',
+        error: FAILED_MESSAGE,
+        completedAt: new Date(),
+      },
+    });
+  }
+}
+
+/**
+ * Build every export still pending, e.g. after a restart interrupted them.
+ *
+ * @returns The number of exports processed
+ */
+export async function processPendingDataExports(): Promise<number> {
+  const pending = await prisma.dataExport.findMany({
+    where: { status: 'PENDING' },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+
+  for (const { id } of pending) {
+    await processDataExport(id);
+  }
+  return pending.length;
+}
+
+/**
+ * Mark exports that have been building for longer than
+ * `processingTimeoutMinutes` failed. Their worker died, e.g. in a redeploy,
+ * so nothing else would ever finish them.
+ *
+ * @returns The number of exports marked failed
+ */
+export async function failStaleDataExports(): Promise<number> {
+  const { count } = await prisma.dataExport.updateMany({
+    where: {
+      status: 'PROCESSING',
+      startedAt: { lte: staleProcessingCutoff() },
+    },
+    data: { status: 'FAILED', error: FAILED_MESSAGE, completedAt: new Date() },
+  });
+  if (count > 0) {
+    log.warn('Failed interrupted data exports', { count });
+  }
+  return count;
+}
+
+/**
+ * Get a ready export's archive for its owner.
+ *
+ * @throws NotFoundError when the export does not exist, belongs to someone
+ *   else, or is not ready or has expired
+ */
+export async function getDataExportArchive(
+  exportId: string,
+  userId: string,
+  context: DataExportContext
+): Promise<{ archive: Uint8Array<ArrayBuffer>; createdAt: Date }> {
+  const dataExport = await prisma.dataExport.findFirst({
+    where: {
+      id: exportId,
+      userId,
+      status: 'READY',
+      expiresAt: { gt: new Date() },
+    },
+    select: { archive: true, createdAt: true },
+  });
+
+  if (!dataExport?.archive) {
+    throw new NotFoundError('Export not found or expired');
+  }
+
+  await logAuditEvent({
+    action: 'DATA_EXPORT_DOWNLOADED',
+    category: 'security',
+    userId,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: { exportId },
+  });
+
+  return { archive: dataExport.archive, createdAt: dataExport.createdAt };
+}
+
+/**
+ * Delete the archives of expired exports. The export rows are kept as a
+ * record of the request.
+ *
+ * @returns The number of archives deleted
+ */
+export async function expireDataExports(): Promise<number> {
+  const { count } = await prisma.dataExport.updateMany({
+    where: { status: 'READY', expiresAt: { lte: new Date() } },
+    data: { status: 'EXPIRED', archive: null },
+  });
+  return count;
+}
+
+/**
+ * Gather the user's data. Secrets (password, 2FA secret, tokens, key
+ * hashes) and email bodies are left out.
+ */
+async function collectUserData(userId: string) {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      username: true,
+      firstName: true,
+      lastName: true,
+      status: true,
+      emailVerified: true,
+      emailVerifiedAt: true,
+      lastLoginAt: true,
+      passwordChangedAt: true,
+      twoFactorEnabled: true,
+      twoFactorMethod: true,
+      notifyNewDevice: true,
+      notifyPasswordChange: true,
+      notifyLoginAlert: true,
+      notify2FAChange: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  const [
+    userRoles,
+    sessions,
+    rememberMeTokens,
+    passkeys,
+    oauthAccounts,
+    apiKeys,
+    auditLogs,
+    emailLogs,
+  ] = await Promise.all([
+    prisma.userRole.findMany({
+      where: { userId },
+      select: {
+        role: { select: { name: true } },
+        organization: { select: { name: true, slug: true } },
+        createdAt: true,
+      },
+    }),
+    prisma.userSession.findMany({
+      where: { userId },
+      select: {
+        ipAddress: true,
+        userAgent: true,
+        isActive: true,
+        createdAt: true,
+        expiresAt: true,
+      },
+    }),
+    prisma.rememberMeToken.findMany({
+      where: { userId },
+      select: {
+        ipAddress: true,
+        userAgent: true,
+        lastUsedAt: true,
+        createdAt: true,
+        expiresAt: true,
+      },
+    }),
+    prisma.webAuthnCredential.findMany({
+      where: { userId },
+      select: {
+        name: true,
+        deviceType: true,
+        backedUp: true,
+        lastUsedAt: true,
+        createdAt: true,
+      },
+    }),
+    prisma.oAuthAccount.findMany({
+      where: { userId },
+      select: { provider: true, providerAccountId: true, createdAt: true },
+    }),
+    prisma.apiKey.findMany({
+      where: { userId },
+      select: {
+        name: true,
+        keyPrefix: true,
+        permission: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+        createdAt: true,
+      },
+    }),
+    prisma.auditLog.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        action: true,
+        category: true,
+        ipAddress: true,
+        userAgent: true,
+        metadata: true,
+        createdAt: true,
+      },
+    }),
+    prisma.emailLog.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        to: true,
+        type: true,
+        subject: true,
+        status: true,
+        sentAt: true,
+        createdAt: true,
+      },
+    }),
+  ]);
+
+  const roles = userRoles.map((userRole) => ({
+    role: userRole.role.name,
+    organization: userRole.organization?.name ?? null,
+    organizationSlug: userRole.organization?.slug ?? null,
+    createdAt: userRole.createdAt,
+  }));
+  const devices = [
+    ...rememberMeTokens.map((token) => ({ type: 'remembered', ...token })),
+    ...passkeys.map((passkey) => ({ type: 'passkey', ...passkey })),
+  ];
+  const activity = auditLogs.map((auditLog) => ({
+    ...auditLog,
+    metadata: auditLog.metadata ? JSON.parse(auditLog.metadata) : null,
+  }));
+
+  const data = {
+    exportedAt: new Date().toISOString(),
+    profile: user,
+    roles,
+    sessions,
+    devices,
+    oauthAccounts,
+    apiKeys,
+    auditLogs: activity,
+    emails: emailLogs,
+  };
+
+  const entries: ZipEntry[] = [
+    { name: 'data.json', content: JSON.stringify(data, null, 2) },
+    { name: 'profile.csv', content: formatCsv([user]) },
+    { name: 'roles.csv', content: formatCsv(roles) },
+    { name: 'sessions.csv', content: formatCsv(sessions) },
+    { name: 'devices.csv', content: formatCsv(devices) },
+    { name: 'oauth-accounts.csv', content: formatCsv(oauthAccounts) },
+    { name: 'api-keys.csv', content: formatCsv(apiKeys) },
+    { name: 'audit-log.csv', content: formatCsv(activity) },
+    { name: 'emails.csv', content: formatCsv(emailLogs) },
+  ];
+
+  return { user, entries };
+}
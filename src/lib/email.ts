@@ -3,6 +3,7 @@ import { DeviceInfo } from '@/lib/utils/user-agent';
 import { prisma } from '@/lib/db';
 import { env } from '@/lib/env';
 import log from '@/lib/logger';
+import { SECURITY_CONFIG } from '@/lib/config/security';
 import { getEmailCircuitBreaker } from '@/lib/email/circuit-breaker';
 import {
   newDeviceAlertTemplate,
@@ -12,8 +13,16 @@ import {
   twoFactorEnabledTemplate,
   twoFactorDisabledTemplate,
   emailVerificationTemplate,
+  accountInviteTemplate,
+  accountDeletionScheduledTemplate,
+  dataExportReadyTemplate,
+  roleRequestTemplate,
   accountUnlockTemplate,
   passwordResetTemplate,
+  magicLinkTemplate,
+  loginCodeTemplate,
+  type LoginCodeData,
+  type RoleRequestData,
 } from '@/lib/email/templates';
 
 export { organizationInviteTemplate } from '@/lib/email/templates';
@@ -44,7 +53,7 @@ const BACKOFF_MS = [1000, 2000, 4000]; // Exponential backoff
  * Valid email types for the system.
  * - verification: Email address verification after registration
  * - password_reset: Password reset request
- * - invite: Organization membership invitation
+ * - invite: Organization membership or imported account invitation
  * - new_device_alert: Login from unrecognized device
  * - account_locked: Account locked due to failed attempts
  * - password_changed: Password change confirmation
@@ -52,10 +61,15 @@ const BACKOFF_MS = [1000, 2000, 4000]; // Exponential backoff
  * - 2fa_enabled: Two-factor authentication enabled
  * - 2fa_disabled: Two-factor authentication disabled
  * - account_unlock: Account unlock link
+ * - login_code: One-time code for a challenged login
+ * - account_deletion: Link to cancel a scheduled account deletion
+ * - data_export: Link to download a personal data export
+ * - role_request: Access request waiting for an approver
  */
 export const EMAIL_TYPES = [
   'verification',
   'password_reset',
+  'magic_link',
   'invite',
   'new_device_alert',
   'account_locked',
@@ -64,6 +78,10 @@ export const EMAIL_TYPES = [
   '2fa_enabled',
   '2fa_disabled',
   'account_unlock',
+  'login_code',
+  'account_deletion',
+  'data_export',
+  'role_request',
 ] as const;
 
 export type EmailType = (typeof EMAIL_TYPES)[number];
@@ -407,9 +425,10 @@ export async function sendEmailChangedNotification(
 
 export async function sendTwoFactorEnabledNotification(
   to: string,
-  userId?: string
+  userId?: string,
+  method?: 'totp' | 'email'
 ): Promise<boolean> {
-  const { subject, html } = twoFactorEnabledTemplate();
+  const { subject, html } = twoFactorEnabledTemplate(method);
   const result = await sendEmail({
     to,
     subject,
@@ -457,6 +476,102 @@ export async function sendVerificationEmail(
   return result.success;
 }
 
+export async function sendAccountInviteEmail(
+  to: string,
+  token: string,
+  expiresAt: Date,
+  name?: string,
+  userId?: string
+): Promise<boolean> {
+  const baseUrl = env.NEXT_PUBLIC_APP_URL;
+  // Setting the first password uses the password reset flow
+  const setPasswordUrl = `${baseUrl}/reset-password?token=${token}`;
+  const { subject, html } = accountInviteTemplate({
+    setPasswordUrl,
+    expiresAt,
+    name,
+  });
+  const result = await sendEmail({
+    to,
+    subject,
+    html,
+    type: 'invite',
+    userId,
+  });
+  return result.success;
+}
+
+export async function sendAccountDeletionScheduledEmail(
+  to: string,
+  token: string,
+  deletesAt: Date,
+  name?: string,
+  userId?: string
+): Promise<boolean> {
+  const baseUrl = env.NEXT_PUBLIC_APP_URL;
+  const cancelUrl = `${baseUrl}/restore-account?token=${token}`;
+  const { subject, html } = accountDeletionScheduledTemplate({
+    cancelUrl,
+    deletesAt,
+    name,
+  });
+  const result = await sendEmail({
+    to,
+    subject,
+    html,
+    type: 'account_deletion',
+    userId,
+  });
+  return result.success;
+}
+
+export async function sendDataExportReadyEmail(
+  to: string,
+  exportId: string,
+  expiresAt: Date,
+  name?: string,
+  userId?: string
+): Promise<boolean> {
+  const baseUrl = env.NEXT_PUBLIC_APP_URL;
+  const downloadUrl = `${baseUrl}/api/users/export/${exportId}/download`;
+  const { subject, html } = dataExportReadyTemplate({
+    downloadUrl,
+    expiresAt,
+    name,
+  });
+  const result = await sendEmail({
+    to,
+    subject,
+    html,
+    type: 'data_export',
+    userId,
+  });
+  return result.success;
+}
+
+export async function sendRoleRequestEmail(
+  to: string,
+  request: Omit<RoleRequestData, 'reviewUrl' | 'name'>,
+  name?: string,
+  userId?: string
+): Promise<boolean> {
+  const baseUrl = env.NEXT_PUBLIC_APP_URL;
+  const reviewUrl = `${baseUrl}/admin/role-requests`;
+  const { subject, html } = roleRequestTemplate({
+    ...request,
+    reviewUrl,
+    name,
+  });
+  const result = await sendEmail({
+    to,
+    subject,
+    html,
+    type: 'role_request',
+    userId,
+  });
+  return result.success;
+}
+
 export async function sendPasswordResetEmail(
   to: string,
   token: string,
@@ -479,6 +594,52 @@ export async function sendPasswordResetEmail(
   return result.success;
 }
 
+export async function sendMagicLinkEmail(
+  to: string,
+  token: string,
+  name?: string,
+  userId?: string
+): Promise<boolean> {
+  const baseUrl = env.NEXT_PUBLIC_APP_URL;
+  const loginUrl = `${baseUrl}/magic-link?token=${token}`;
+  const { subject, html } = magicLinkTemplate({
+    loginUrl,
+    expiresInMinutes: SECURITY_CONFIG.magicLink.expiryMinutes,
+    name,
+  });
+  const result = await sendEmail({
+    to,
+    subject,
+    html,
+    type: 'magic_link',
+    userId,
+  });
+  return result.success;
+}
+
+export async function sendLoginCodeEmail(
+  to: string,
+  code: string,
+  name?: string,
+  userId?: string,
+  purpose?: LoginCodeData['purpose']
+): Promise<boolean> {
+  const { subject, html } = loginCodeTemplate({
+    code,
+    expiresInMinutes: SECURITY_CONFIG.emailOtp.expiryMinutes,
+    name,
+    purpose,
+  });
+  const result = await sendEmail({
+    to,
+    subject,
+    html,
+    type: 'login_code',
+    userId,
+  });
+  return result.success;
+}
+
 export async function sendUnlockEmail(
   to: string,
   token: string,
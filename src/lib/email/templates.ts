@@ -26,6 +26,26 @@ function wrapTemplate(title: string, content: string): string {
   `.trim();
 }
 
+// Escape text users typed themselves before it goes into HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const parts = [
+    hours > 0 ? `${hours} hour${hours === 1 ? '' : 's'}` : '',
+    rest > 0 ? `${rest} minute${rest === 1 ? '' : 's'}` : '',
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
 function formatDateTime(date: Date): string {
   return date.toLocaleString('en-US', {
     weekday: 'long',
@@ -155,7 +175,14 @@ export function emailChangedTemplate(data: EmailChangedData): {
   };
 }
 
-export function twoFactorEnabledTemplate(): { subject: string; html: string } {
+export function twoFactorEnabledTemplate(method: 'totp' | 'email' = 'totp'): {
+  subject: string;
+  html: string;
+} {
+  const source =
+    method === 'email'
+      ? 'sent to this email address'
+      : 'from your authenticator app';
   const content = `
     <h2 style="color: #16a34a; font-size: 20px; margin: 0 0 15px 0;">Two-Factor Authentication Enabled</h2>
     <p style="margin: 0 0 15px 0;">
@@ -163,11 +190,11 @@ export function twoFactorEnabledTemplate(): { subject: string; html: string } {
     </p>
     <div style="background-color: #fff; padding: 15px; border-radius: 6px; border-left: 4px solid #16a34a; margin: 0 0 20px 0;">
       <p style="margin: 0;">
-        Your account is now more secure. You'll need to enter a verification code from your authenticator app each time you log in.
+        Your account is now more secure. You'll need to enter a verification code ${source} each time you log in.
       </p>
     </div>
     <p style="margin: 0 0 15px 0;">
-      Make sure to keep your backup codes in a safe place in case you lose access to your authenticator app.
+      Make sure to keep your backup codes in a safe place in case you lose access to your ${method === 'email' ? 'email' : 'authenticator app'}.
     </p>
   `;
 
@@ -206,6 +233,36 @@ export interface OrganizationInviteData {
   expiresAt: Date;
 }
 
+export interface AccountInviteData {
+  setPasswordUrl: string;
+  expiresAt: Date;
+  name?: string;
+}
+
+export interface AccountDeletionScheduledData {
+  cancelUrl: string;
+  deletesAt: Date;
+  name?: string;
+}
+
+export interface DataExportReadyData {
+  downloadUrl: string;
+  expiresAt: Date;
+  name?: string;
+}
+
+export interface RoleRequestData {
+  requesterName: string;
+  requesterEmail: string;
+  roleName: string;
+  /** Null for platform-wide roles */
+  organizationName: string | null;
+  durationMinutes: number;
+  justification: string;
+  reviewUrl: string;
+  name?: string;
+}
+
 export interface EmailVerificationData {
   verificationUrl: string;
   name?: string;
@@ -216,6 +273,20 @@ export interface PasswordResetData {
   name?: string;
 }
 
+export interface MagicLinkData {
+  loginUrl: string;
+  expiresInMinutes: number;
+  name?: string;
+}
+
+export interface LoginCodeData {
+  code: string;
+  expiresInMinutes: number;
+  name?: string;
+  /** Defaults to sign_in; two_factor_settings confirms enabling or disabling email 2FA */
+  purpose?: 'sign_in' | 'two_factor_settings';
+}
+
 export interface AccountUnlockData {
   unlockUrl: string;
   lockedUntil: Date;
@@ -330,6 +401,80 @@ export function passwordResetTemplate(data: PasswordResetData): {
   };
 }
 
+export function magicLinkTemplate(data: MagicLinkData): {
+  subject: string;
+  html: string;
+} {
+  const greeting = data.name ? `Hi ${data.name},` : 'Hello,';
+  const content = `
+    <h2 style="color: #2563eb; font-size: 20px; margin: 0 0 15px 0;">Sign In to ${APP_NAME}</h2>
+    <p style="margin: 0 0 15px 0;">
+      ${greeting}
+    </p>
+    <p style="margin: 0 0 15px 0;">
+      We received a request to sign in to your ${APP_NAME} account without a password.
+    </p>
+    <div style="background-color: #fff; padding: 15px; border-radius: 6px; border-left: 4px solid #2563eb; margin: 0 0 20px 0;">
+      <p style="margin: 0 0 15px 0;">Click the button below to sign in:</p>
+      <a href="${data.loginUrl}" style="display: inline-block; background-color: #2563eb; color: #fff; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500;">
+        Sign In
+      </a>
+    </div>
+    <p style="margin: 0 0 10px 0; color: #666; font-size: 14px;">
+      Or copy and paste this link into your browser:
+    </p>
+    <p style="margin: 0 0 15px 0; word-break: break-all; font-size: 14px;">
+      <a href="${data.loginUrl}" style="color: #2563eb;">${data.loginUrl}</a>
+    </p>
+    <p style="margin: 0 0 15px 0; color: #dc2626; font-weight: 500;">
+      This link expires in ${data.expiresInMinutes} minutes and can only be used once. If you didn't request it, you can safely ignore this email.
+    </p>
+  `;
+
+  return {
+    subject: `Your ${APP_NAME} sign-in link`,
+    html: wrapTemplate('Sign-In Link', content),
+  };
+}
+
+export function loginCodeTemplate(data: LoginCodeData): {
+  subject: string;
+  html: string;
+} {
+  const greeting = data.name ? `Hi ${data.name},` : 'Hello,';
+  const settings = data.purpose === 'two_factor_settings';
+  const title = settings ? 'Your Verification Code' : 'Your Sign-In Code';
+  const content = `
+    <h2 style="color: #2563eb; font-size: 20px; margin: 0 0 15px 0;">${title}</h2>
+    <p style="margin: 0 0 15px 0;">
+      ${greeting}
+    </p>
+    <p style="margin: 0 0 15px 0;">
+      ${
+        settings
+          ? `Enter this code to confirm the change to two-factor authentication on your ${APP_NAME} account:`
+          : `We need to confirm it's you signing in to your ${APP_NAME} account. Enter this code to continue:`
+      }
+    </p>
+    <div style="background-color: #fff; padding: 15px; border-radius: 6px; border-left: 4px solid #2563eb; margin: 0 0 20px 0;">
+      <p style="margin: 0; font-size: 28px; font-weight: 600; letter-spacing: 6px; font-family: monospace;">${data.code}</p>
+    </div>
+    <p style="margin: 0 0 15px 0; color: #dc2626; font-weight: 500;">
+      This code expires in ${data.expiresInMinutes} minutes. If you didn't just ${settings ? 'change your security settings' : 'try to sign in'}, change your password immediately.
+    </p>
+  `;
+
+  return {
+    subject: settings
+      ? `Your ${APP_NAME} verification code`
+      : `Your ${APP_NAME} sign-in code`,
+    html: wrapTemplate(
+      settings ? 'Verification Code' : 'Sign-In Code',
+      content
+    ),
+  };
+}
+
 export function organizationInviteTemplate(data: OrganizationInviteData): {
   subject: string;
   html: string;
@@ -361,3 +506,151 @@ export function organizationInviteTemplate(data: OrganizationInviteData): {
     html: wrapTemplate('Organization Invitation', content),
   };
 }
+
+export function accountInviteTemplate(data: AccountInviteData): {
+  subject: string;
+  html: string;
+} {
+  const greeting = data.name ? `Hi ${data.name},` : 'Hello,';
+  const content = `
+    <h2 style="color: #2563eb; font-size: 20px; margin: 0 0 15px 0;">Your Account Is Ready</h2>
+    <p style="margin: 0 0 15px 0;">
+      ${greeting}
+    </p>
+    <p style="margin: 0 0 15px 0;">
+      An administrator has created a ${APP_NAME} account for you. Choose a password to start using it.
+    </p>
+    <div style="background-color: #fff; padding: 15px; border-radius: 6px; border-left: 4px solid #2563eb; margin: 0 0 20px 0;">
+      <p style="margin: 0 0 15px 0;">Click the button below to set your password:</p>
+      <a href="${data.setPasswordUrl}" style="display: inline-block; background-color: #2563eb; color: #fff; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500;">
+        Set Password
+      </a>
+    </div>
+    <p style="margin: 0 0 10px 0; color: #666; font-size: 14px;">
+      Or copy and paste this link into your browser:
+    </p>
+    <p style="margin: 0 0 15px 0; word-break: break-all; font-size: 14px;">
+      <a href="${data.setPasswordUrl}" style="color: #2563eb;">${data.setPasswordUrl}</a>
+    </p>
+    <p style="margin: 0; color: #666; font-size: 14px;">
+      This link expires on ${formatDateTime(data.expiresAt)}.
+    </p>
+  `;
+
+  return {
+    subject: `Your ${APP_NAME} account is ready`,
+    html: wrapTemplate('Account Invitation', content),
+  };
+}
+
+export function accountDeletionScheduledTemplate(
+  data: AccountDeletionScheduledData
+): {
+  subject: string;
+  html: string;
+} {
+  const greeting = data.name ? `Hi ${data.name},` : 'Hello,';
+  const content = `
+    <h2 style="color: #dc2626; font-size: 20px; margin: 0 0 15px 0;">Your Account Will Be Deleted</h2>
+    <p style="margin: 0 0 15px 0;">
+      ${greeting}
+    </p>
+    <p style="margin: 0 0 15px 0;">
+      We received a request to delete your ${APP_NAME} account. Your account is locked and will be permanently deleted on ${formatDateTime(data.deletesAt)}.
+    </p>
+    <div style="background-color: #fff; padding: 15px; border-radius: 6px; border-left: 4px solid #dc2626; margin: 0 0 20px 0;">
+      <p style="margin: 0 0 15px 0;">Changed your mind? Click the button below to keep your account:</p>
+      <a href="${data.cancelUrl}" style="display: inline-block; background-color: #2563eb; color: #fff; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500;">
+        Keep My Account
+      </a>
+    </div>
+    <p style="margin: 0 0 10px 0; color: #666; font-size: 14px;">
+      Or copy and paste this link into your browser:
+    </p>
+    <p style="margin: 0 0 15px 0; word-break: break-all; font-size: 14px;">
+      <a href="${data.cancelUrl}" style="color: #2563eb;">${data.cancelUrl}</a>
+    </p>
+    <p style="margin: 0 0 15px 0; color: #dc2626; font-weight: 500;">
+      If you did not ask to delete your account, use the link above and change your password.
+    </p>
+  `;
+
+  return {
+    subject: `Your ${APP_NAME} account will be deleted`,
+    html: wrapTemplate('Account Deletion', content),
+  };
+}
+
+export function dataExportReadyTemplate(data: DataExportReadyData): {
+  subject: string;
+  html: string;
+} {
+  const greeting = data.name ? `Hi ${data.name},` : 'Hello,';
+  const content = `
+    <h2 style="color: #333; font-size: 20px; margin: 0 0 15px 0;">Your Data Export Is Ready</h2>
+    <p style="margin: 0 0 15px 0;">
+      ${greeting}
+    </p>
+    <p style="margin: 0 0 20px 0;">
+      The copy of your ${APP_NAME} data you requested is ready. It is a ZIP archive with your data in JSON format and as spreadsheets (CSV).
+    </p>
+    <div style="text-align: center; margin: 0 0 20px 0;">
+      <a href="${data.downloadUrl}" style="display: inline-block; background-color: #2563eb; color: #fff; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500;">
+        Download My Data
+      </a>
+    </div>
+    <p style="margin: 0 0 10px 0; color: #666; font-size: 14px;">
+      Or copy and paste this link into your browser:
+    </p>
+    <p style="margin: 0 0 15px 0; word-break: break-all; font-size: 14px;">
+      <a href="${data.downloadUrl}" style="color: #2563eb;">${data.downloadUrl}</a>
+    </p>
+    <p style="margin: 0 0 15px 0; color: #666; font-size: 14px;">
+      You will be asked to sign in. The link expires on ${formatDateTime(data.expiresAt)}.
+    </p>
+    <p style="margin: 0 0 15px 0; color: #dc2626; font-weight: 500;">
+      If you did not request this export, change your password.
+    </p>
+  `;
+
+  return {
+    subject: `Your ${APP_NAME} data export is ready`,
+    html: wrapTemplate('Data Export', content),
+  };
+}
+
+export function roleRequestTemplate(data: RoleRequestData): {
+  subject: string;
+  html: string;
+} {
+  const greeting = data.name ? `Hi ${data.name},` : 'Hello,';
+  const scope = data.organizationName
+    ? `in <strong>${escapeHtml(data.organizationName)}</strong>`
+    : 'platform-wide';
+  const content = `
+    <h2 style="color: #333; font-size: 20px; margin: 0 0 15px 0;">Access Request Waiting for Approval</h2>
+    <p style="margin: 0 0 15px 0;">
+      ${greeting}
+    </p>
+    <p style="margin: 0 0 15px 0;">
+      ${escapeHtml(data.requesterName)} (${escapeHtml(data.requesterEmail)}) requests <strong>${data.roleName}</strong> ${scope} for ${formatDuration(data.durationMinutes)}.
+    </p>
+    <div style="background-color: #fff; padding: 15px; border-radius: 6px; border-left: 4px solid #d97706; margin: 0 0 20px 0;">
+      <p style="margin: 0 0 5px 0; font-weight: 500;">Justification</p>
+      <p style="margin: 0; white-space: pre-wrap;">${escapeHtml(data.justification)}</p>
+    </div>
+    <div style="text-align: center; margin: 0 0 20px 0;">
+      <a href="${data.reviewUrl}" style="display: inline-block; background-color: #2563eb; color: #fff; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500;">
+        Review Request
+      </a>
+    </div>
+    <p style="margin: 0 0 15px 0; color: #666; font-size: 14px;">
+      The role is revoked automatically when the approved time ends.
+    </p>
+  `;
+
+  return {
+    subject: `Access request: ${data.roleName} for ${data.requesterEmail}`,
+    html: wrapTemplate('Access Request', content),
+  };
+}
@@ -8,6 +8,44 @@
  */
 import { z } from 'zod';
 
+/**
+ * Generic OpenID Connect providers, as a JSON array in OIDC_PROVIDERS.
+ * Endpoints and signing keys are discovered from each issuer.
+ *
+ * Example:
+ *   OIDC_PROVIDERS='[{"id":"keycloak","name":"Keycloak","issuer":"https://sso.example.com/realms/main","clientId":"app","clientSecret":"secret"}]'
+ */
+const oidcProvidersSchema = z
+  .string()
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'OIDC_PROVIDERS must be a JSON array',
+      });
+      return z.NEVER;
+    }
+  })
+  .pipe(
+    z.array(
+      z.object({
+        id: z
+          .string()
+          .regex(
+            /^[a-z0-9][a-z0-9-]{0,31}$/,
+            'id must be lowercase letters, digits and dashes'
+          ),
+        name: z.string().min(1),
+        issuer: z.string().url(),
+        clientId: z.string().min(1),
+        clientSecret: z.string().min(1),
+        scopes: z.array(z.string()).optional(),
+      })
+    )
+  );
+
 /**
  * Base server environment schema (without refinements).
  * Refinements are applied separately to allow .partial() for dev mode.
@@ -40,6 +78,30 @@ const serverEnvBaseSchema = z.object({
   GOOGLE_CLIENT_SECRET: z.string().optional(),
   GITHUB_CLIENT_ID: z.string().optional(),
   GITHUB_CLIENT_SECRET: z.string().optional(),
+  OIDC_PROVIDERS: oidcProvidersSchema.optional(),
+
+  // === Optional: Token Signing ===
+  // Algorithm for newly generated signing keys (default: RS256)
+  JWT_SIGNING_ALGORITHM: z.enum(['RS256', 'EdDSA']).optional(),
+
+  // === Optional: Login Risk ===
+  // Local IP database (CSV) used for new-network and impossible-travel signals
+  RISK_IP_DATABASE_PATH: z.string().optional(),
+
+  // === Optional: Password Policy ===
+  // Directory of breached password hash ranges (<PREFIX>.txt files)
+  PASSWORD_BREACH_DATA_PATH: z.string().optional(),
+  // Algorithm for new password hashes (default: argon2id)
+  PASSWORD_HASH_ALGORITHM: z.enum(['argon2id', 'scrypt', 'bcrypt']).optional(),
+
+  // === Optional: Account Deletion ===
+  // Days a deleted account can be restored before it is purged (default: 30)
+  ACCOUNT_DELETION_GRACE_DAYS: z.coerce.number().int().min(0).optional(),
+
+  // === Optional: Mandatory 2FA ===
+  // Comma-separated platform roles that must enroll in 2FA, e.g.
+  // "ROLE_ADMIN,ROLE_MODERATOR" (default: none)
+  TWO_FACTOR_REQUIRED_ROLES: z.string().optional(),
 
   // === Optional: Validation Control ===
   VALIDATE_ENV_VARS: z.string().optional(),
@@ -0,0 +1,218 @@
+/**
+ * Authorization endpoint logic: request validation, consent and
+ * authorization codes. PKCE (S256) is required for every client, as
+ * OAuth 2.1 asks.
+ */
+import { randomBytes, createHash } from 'crypto';
+import { prisma } from '@/lib/db';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { OAuthServerError, OAuthRedirectError } from './errors';
+import {
+  allowsGrantType,
+  findActiveClient,
+  type OAuthClientRecord,
+} from './clients';
+import { OIDC_SCOPES, parseScopeParam } from './scopes';
+
+export interface AuthorizationRequest {
+  client: OAuthClientRecord;
+  redirectUri: string;
+  scopes: string[];
+  state?: string;
+  nonce?: string;
+  codeChallenge: string;
+  prompt: string[];
+}
+
+/**
+ * Query parameters of an authorization request, kept when the user is sent
+ * to log in or to the consent screen and back.
+ */
+export const AUTHORIZATION_PARAMS = [
+  'response_type',
+  'client_id',
+  'redirect_uri',
+  'scope',
+  'state',
+  'nonce',
+  'code_challenge',
+  'code_challenge_method',
+  'prompt',
+] as const;
+
+// RFC 7636 Section 4.2: base64url SHA-256 digest
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export function pickAuthorizationParams(
+  params: URLSearchParams
+): URLSearchParams {
+  const picked = new URLSearchParams();
+  for (const name of AUTHORIZATION_PARAMS) {
+    const value = params.get(name);
+    if (value !== null) picked.set(name, value);
+  }
+  return picked;
+}
+
+/**
+ * Validate an authorization request.
+ *
+ * Client and redirect URI problems throw OAuthServerError, to be shown to the
+ * user. Once the redirect URI is trusted, errors throw OAuthRedirectError so
+ * they are reported back to the client.
+ */
+export async function validateAuthorizationRequest(
+  params: URLSearchParams
+): Promise<AuthorizationRequest> {
+  const clientId = params.get('client_id');
+  if (!clientId) {
+    throw new OAuthServerError('invalid_request', 'client_id is required');
+  }
+
+  const client = await findActiveClient(clientId);
+  if (!client) {
+    throw new OAuthServerError('invalid_client', 'Unknown client');
+  }
+
+  const redirectUri = params.get('redirect_uri');
+  if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+    throw new OAuthServerError(
+      'invalid_request',
+      'redirect_uri is missing or not registered for this client'
+    );
+  }
+
+  const state = params.get('state') ?? undefined;
+  const fail = (code: OAuthServerError['code'], message: string) =>
+    new OAuthRedirectError(code, message, redirectUri, state);
+
+  if (params.get('response_type') !== 'code') {
+    throw fail('unsupported_response_type', 'response_type must be "code"');
+  }
+  if (!allowsGrantType(client, 'authorization_code')) {
+    throw fail(
+      'unauthorized_client',
+      'Client may not use the authorization code grant'
+    );
+  }
+
+  const codeChallenge = params.get('code_challenge');
+  if (!codeChallenge || !CODE_CHALLENGE_PATTERN.test(codeChallenge)) {
+    throw fail('invalid_request', 'A valid code_challenge is required');
+  }
+  if (params.get('code_challenge_method') !== 'S256') {
+    throw fail('invalid_request', 'code_challenge_method must be "S256"');
+  }
+
+  let scopes: string[];
+  try {
+    scopes = parseScopeParam(params.get('scope'));
+  } catch (error) {
+    if (error instanceof OAuthServerError) {
+      throw fail(error.code, error.message);
+    }
+    throw error;
+  }
+  if (scopes.length === 0) {
+    throw fail('invalid_scope', 'scope is required');
+  }
+  const notAllowed = scopes.filter((scope) => !client.scopes.includes(scope));
+  if (notAllowed.length > 0) {
+    throw fail(
+      'invalid_scope',
+      `Client may not request: ${notAllowed.join(' ')}`
+    );
+  }
+  // Without the refresh token grant, offline access cannot be honored
+  if (!allowsGrantType(client, 'refresh_token')) {
+    scopes = scopes.filter((scope) => scope !== OIDC_SCOPES.OFFLINE_ACCESS);
+  }
+
+  const prompt = (params.get('prompt') ?? '').split(' ').filter(Boolean);
+  if (prompt.includes('none') && prompt.length > 1) {
+    throw fail('invalid_request', 'prompt=none cannot be combined');
+  }
+
+  return {
+    client,
+    redirectUri,
+    scopes,
+    state,
+    nonce: params.get('nonce') ?? undefined,
+    codeChallenge,
+    prompt,
+  };
+}
+
+/**
+ * Whether the user has already approved these scopes for the client.
+ * Trusted first-party clients never ask.
+ */
+export async function hasConsent(
+  userId: string,
+  client: OAuthClientRecord,
+  scopes: string[]
+): Promise<boolean> {
+  if (client.skipConsent) return true;
+
+  const consent = await prisma.oAuthConsent.findUnique({
+    where: { userId_oauthClientId: { userId, oauthClientId: client.id } },
+    select: { scopes: true },
+  });
+  return !!consent && scopes.every((scope) => consent.scopes.includes(scope));
+}
+
+/**
+ * Record approval of scopes, adding to any the user approved before
+ */
+export async function grantConsent(
+  userId: string,
+  client: OAuthClientRecord,
+  scopes: string[]
+): Promise<void> {
+  const existing = await prisma.oAuthConsent.findUnique({
+    where: { userId_oauthClientId: { userId, oauthClientId: client.id } },
+    select: { scopes: true },
+  });
+  const merged = [...new Set([...(existing?.scopes ?? []), ...scopes])];
+
+  await prisma.oAuthConsent.upsert({
+    where: { userId_oauthClientId: { userId, oauthClientId: client.id } },
+    create: { userId, oauthClientId: client.id, scopes: merged },
+    update: { scopes: merged },
+  });
+}
+
+export function hashAuthorizationCode(code: string): string {
+  return createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * Issue a single-use authorization code for an approved request
+ */
+export async function createAuthorizationCode(
+  request: AuthorizationRequest,
+  userId: string,
+  authTime: Date
+): Promise<string> {
+  const code = randomBytes(32).toString('base64url');
+
+  await prisma.oAuthAuthorizationCode.create({
+    data: {
+      codeHash: hashAuthorizationCode(code),
+      oauthClientId: request.client.id,
+      userId,
+      redirectUri: request.redirectUri,
+      scopes: request.scopes,
+      codeChallenge: request.codeChallenge,
+      nonce: request.nonce,
+      authTime,
+      expiresAt: new Date(
+        Date.now() +
+          SECURITY_CONFIG.oauthServer.authorizationCodeExpirySeconds * 1000
+      ),
+    },
+  });
+
+  return code;
+}
@@ -0,0 +1,225 @@
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { OAuthServerError } from './errors';
+import { isSupportedScope } from './scopes';
+
+export const OAUTH_GRANT_TYPES = [
+  'authorization_code',
+  'refresh_token',
+  'client_credentials',
+] as const;
+
+export type OAuthGrantType = (typeof OAUTH_GRANT_TYPES)[number];
+
+const CLIENT_SECRET_PREFIX = 'ocs_';
+const CLIENT_SECRET_BYTES = 32;
+
+export const oauthClientSelect = {
+  id: true,
+  clientId: true,
+  clientSecretHash: true,
+  name: true,
+  redirectUris: true,
+  scopes: true,
+  grantTypes: true,
+  skipConsent: true,
+} satisfies Prisma.OAuthClientSelect;
+
+export type OAuthClientRecord = Prisma.OAuthClientGetPayload<{
+  select: typeof oauthClientSelect;
+}>;
+
+export function generateClientId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Generate a client secret (shown once) and its hash for storage
+ */
+export function generateClientSecret(): {
+  secret: string;
+  secretHash: string;
+} {
+  const secret = `${CLIENT_SECRET_PREFIX}${randomBytes(CLIENT_SECRET_BYTES).toString('base64url')}`;
+  return { secret, secretHash: hashClientSecret(secret) };
+}
+
+/**
+ * Hash a client secret using SHA-256
+ */
+export function hashClientSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export function isPublicClient(client: OAuthClientRecord): boolean {
+  return client.clientSecretHash === null;
+}
+
+export function allowsGrantType(
+  client: OAuthClientRecord,
+  grantType: OAuthGrantType
+): boolean {
+  return client.grantTypes.includes(grantType);
+}
+
+/**
+ * Redirect URIs must be absolute HTTPS URLs without a fragment. Plain HTTP is
+ * accepted for loopback addresses only, for local development.
+ */
+export function isValidRedirectUri(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (url.hash || url.username || url.password) return false;
+  if (url.protocol === 'https:') return true;
+  return (
+    url.protocol === 'http:' &&
+    ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)
+  );
+}
+
+/**
+ * Admin input for registering or updating a client
+ */
+export const oauthClientInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  redirectUris: z
+    .array(
+      z
+        .string()
+        .refine(
+          isValidRedirectUri,
+          'Redirect URIs must use HTTPS (HTTP on localhost) and have no fragment'
+        )
+    )
+    .max(10),
+  scopes: z
+    .array(z.string().refine(isSupportedScope, 'Unsupported scope'))
+    .min(1, 'At least one scope is required'),
+  grantTypes: z
+    .array(z.enum(OAUTH_GRANT_TYPES))
+    .min(1, 'At least one grant type is required'),
+  skipConsent: z.boolean().optional(),
+});
+
+/**
+ * Checks that span several client settings
+ */
+export function getClientConfigError(config: {
+  isPublic: boolean;
+  redirectUris: string[];
+  grantTypes: string[];
+}): string | null {
+  if (
+    config.grantTypes.includes('authorization_code') &&
+    config.redirectUris.length === 0
+  ) {
+    return 'The authorization code grant requires at least one redirect URI';
+  }
+  if (config.isPublic && config.grantTypes.includes('client_credentials')) {
+    return 'Public clients cannot use the client credentials grant';
+  }
+  return null;
+}
+
+export function toOAuthClientResponse(
+  client: OAuthClientRecord & { createdAt: Date }
+) {
+  return {
+    id: client.id,
+    clientId: client.clientId,
+    name: client.name,
+    isPublic: isPublicClient(client),
+    redirectUris: client.redirectUris,
+    scopes: client.scopes,
+    grantTypes: client.grantTypes,
+    skipConsent: client.skipConsent,
+    createdAt: client.createdAt.toISOString(),
+  };
+}
+
+export async function findActiveClient(
+  clientId: string
+): Promise<OAuthClientRecord | null> {
+  return prisma.oAuthClient.findFirst({
+    where: { clientId, revokedAt: null },
+    select: oauthClientSelect,
+  });
+}
+
+/**
+ * Read client credentials from HTTP Basic auth (client_secret_basic) or the
+ * request body (client_secret_post). Public clients send client_id only.
+ */
+function readClientCredentials(
+  params: URLSearchParams,
+  authorization: string | null
+): { clientId: string; clientSecret?: string } {
+  if (authorization?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.slice(6), 'base64').toString();
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      throw new OAuthServerError(
+        'invalid_client',
+        'Malformed client credentials',
+        401
+      );
+    }
+    // Both parts are form-urlencoded (RFC 6749 Section 2.3.1)
+    return {
+      clientId: decodeURIComponent(decoded.slice(0, separator)),
+      clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+    };
+  }
+
+  const clientId = params.get('client_id');
+  if (!clientId) {
+    throw new OAuthServerError(
+      'invalid_client',
+      'Client authentication is required',
+      401
+    );
+  }
+  return { clientId, clientSecret: params.get('client_secret') ?? undefined };
+}
+
+/**
+ * Authenticate the client calling the token or revocation endpoint.
+ *
+ * @throws OAuthServerError invalid_client (401) on unknown clients or bad secrets
+ */
+export async function authenticateClient(
+  params: URLSearchParams,
+  authorization: string | null
+): Promise<OAuthClientRecord> {
+  const { clientId, clientSecret } = readClientCredentials(
+    params,
+    authorization
+  );
+  const client = await findActiveClient(clientId);
+
+  const authenticated =
+    client &&
+    (client.clientSecretHash === null
+      ? !clientSecret
+      : !!clientSecret &&
+        timingSafeEqual(
+          Buffer.from(hashClientSecret(clientSecret), 'hex'),
+          Buffer.from(client.clientSecretHash, 'hex')
+        ));
+
+  if (!client || !authenticated) {
+    throw new OAuthServerError(
+      'invalid_client',
+      'Client authentication failed',
+      401
+    );
+  }
+  return client;
+}
@@ -0,0 +1,63 @@
+import { getOAuthIssuer } from '@/lib/security';
+import { SIGNING_ALGORITHMS } from '@/lib/signing-keys';
+import { OAUTH_GRANT_TYPES } from './clients';
+import { SUPPORTED_SCOPES } from './scopes';
+
+export function getOAuthEndpoints() {
+  const issuer = getOAuthIssuer();
+  return {
+    authorization: `${issuer}/oauth/authorize`,
+    token: `${issuer}/oauth/token`,
+    userinfo: `${issuer}/oauth/userinfo`,
+    revocation: `${issuer}/oauth/revoke`,
+    jwks: `${issuer}/.well-known/jwks.json`,
+  };
+}
+
+/**
+ * OpenID Provider metadata (OpenID Connect Discovery 1.0, RFC 8414)
+ */
+export function getDiscoveryDocument() {
+  const endpoints = getOAuthEndpoints();
+  const clientAuthMethods = [
+    'client_secret_basic',
+    'client_secret_post',
+    'none',
+  ];
+
+  return {
+    issuer: getOAuthIssuer(),
+    authorization_endpoint: endpoints.authorization,
+    token_endpoint: endpoints.token,
+    userinfo_endpoint: endpoints.userinfo,
+    revocation_endpoint: endpoints.revocation,
+    jwks_uri: endpoints.jwks,
+    scopes_supported: SUPPORTED_SCOPES,
+    response_types_supported: ['code'],
+    response_modes_supported: ['query'],
+    grant_types_supported: OAUTH_GRANT_TYPES,
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: SIGNING_ALGORITHMS,
+    token_endpoint_auth_methods_supported: clientAuthMethods,
+    revocation_endpoint_auth_methods_supported: clientAuthMethods,
+    code_challenge_methods_supported: ['S256'],
+    prompt_values_supported: ['none', 'consent'],
+    authorization_response_iss_parameter_supported: true,
+    claims_supported: [
+      'sub',
+      'iss',
+      'aud',
+      'exp',
+      'iat',
+      'auth_time',
+      'nonce',
+      'name',
+      'given_name',
+      'family_name',
+      'preferred_username',
+      'updated_at',
+      'email',
+      'email_verified',
+    ],
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * OAuth 2.1 / OpenID Connect error responses (RFC 6749 Section 5.2,
+ * OpenID Connect Core Section 3.1.2.6).
+ *
+ * Route handlers catch these and render them with oauthErrorResponse().
+ */
+
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type'
+  | 'unsupported_response_type'
+  | 'invalid_scope'
+  | 'access_denied'
+  | 'login_required'
+  | 'consent_required'
+  | 'invalid_token'
+  | 'insufficient_scope'
+  | 'server_error';
+
+export class OAuthServerError extends Error {
+  constructor(
+    public readonly code: OAuthErrorCode,
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'OAuthServerError';
+  }
+}
+
+/**
+ * An authorization request error reported to the client by redirecting back
+ * to its (already validated) redirect URI.
+ */
+export class OAuthRedirectError extends OAuthServerError {
+  constructor(
+    code: OAuthErrorCode,
+    message: string,
+    public readonly redirectUri: string,
+    public readonly state?: string
+  ) {
+    super(code, message);
+    this.name = 'OAuthRedirectError';
+  }
+}
@@ -0,0 +1,57 @@
+export { OAuthServerError, OAuthRedirectError } from './errors';
+export type { OAuthErrorCode } from './errors';
+
+export {
+  oauthJson,
+  oauthErrorResponse,
+  readOAuthForm,
+  buildClientRedirectUrl,
+  authorizationErrorResponse,
+} from './response';
+
+export {
+  OIDC_SCOPES,
+  SUPPORTED_SCOPES,
+  SCOPE_DESCRIPTIONS,
+  isSupportedScope,
+  isOidcScope,
+  parseScopeParam,
+  isPermissionInScope,
+  describeScopes,
+} from './scopes';
+export type { OidcScope, OAuthScope } from './scopes';
+
+export {
+  OAUTH_GRANT_TYPES,
+  oauthClientSelect,
+  generateClientId,
+  generateClientSecret,
+  hashClientSecret,
+  isPublicClient,
+  allowsGrantType,
+  isValidRedirectUri,
+  oauthClientInputSchema,
+  getClientConfigError,
+  toOAuthClientResponse,
+  findActiveClient,
+  authenticateClient,
+} from './clients';
+export type { OAuthGrantType, OAuthClientRecord } from './clients';
+
+export {
+  AUTHORIZATION_PARAMS,
+  pickAuthorizationParams,
+  validateAuthorizationRequest,
+  hasConsent,
+  grantConsent,
+  createAuthorizationCode,
+} from './authorize';
+export type { AuthorizationRequest } from './authorize';
+
+export { handleTokenRequest, revokeToken } from './tokens';
+export type { TokenResponse, OAuthRequestContext } from './tokens';
+
+export { getUserClaims, getUserInfo, oauthUserSelect } from './userinfo';
+export type { OAuthUserRecord } from './userinfo';
+
+export { getOAuthEndpoints, getDiscoveryDocument } from './discovery';
@@ -0,0 +1,108 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getOAuthIssuer } from '@/lib/security';
+import { OAuthServerError, OAuthRedirectError } from './errors';
+
+const NO_STORE = { 'Cache-Control': 'no-store', Pragma: 'no-cache' };
+
+/**
+ * JSON response for token-bearing endpoints, which must not be cached.
+ */
+export function oauthJson(
+  body: unknown,
+  status = 200,
+  headers?: Record<string, string>
+): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: { ...NO_STORE, ...headers },
+  });
+}
+
+/**
+ * Read an application/x-www-form-urlencoded request body, the format of the
+ * token and revocation endpoints (RFC 6749 Section 3.2).
+ *
+ * @throws OAuthServerError invalid_request for other content types
+ */
+export async function readOAuthForm(
+  req: NextRequest
+): Promise<URLSearchParams> {
+  const contentType = req.headers.get('content-type') ?? '';
+  if (!contentType.startsWith('application/x-www-form-urlencoded')) {
+    throw new OAuthServerError(
+      'invalid_request',
+      'Content-Type must be application/x-www-form-urlencoded'
+    );
+  }
+  return new URLSearchParams(await req.text());
+}
+
+/**
+ * Render an error in the OAuth JSON format. Client authentication failures
+ * and bad bearer tokens carry the matching WWW-Authenticate challenge.
+ * Unexpected errors are logged and reported as server_error.
+ */
+export function oauthErrorResponse(error: unknown): NextResponse {
+  if (error instanceof OAuthServerError) {
+    const headers: Record<string, string> = {};
+    if (error.code === 'invalid_client' && error.status === 401) {
+      headers['WWW-Authenticate'] = 'Basic realm="oauth"';
+    } else if (
+      error.code === 'invalid_token' ||
+      error.code === 'insufficient_scope'
+    ) {
+      headers['WWW-Authenticate'] =
+        `Bearer error="${error.code}", error_description="${error.message}"`;
+    }
+
+    return oauthJson(
+      { error: error.code, error_description: error.message },
+      error.status,
+      headers
+    );
+  }
+
+  console.error('OAuth server error:', error);
+  return oauthJson(
+    {
+      error: 'server_error',
+      error_description: 'An internal server error occurred',
+    },
+    500
+  );
+}
+
+/**
+ * Build the URL that sends the user agent back to the client with the given
+ * response parameters, plus the issuer (RFC 9207) so clients can detect
+ * mix-up attacks.
+ */
+export function buildClientRedirectUrl(
+  redirectUri: string,
+  params: Record<string, string | undefined>
+): string {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(key, value);
+  }
+  url.searchParams.set('iss', getOAuthIssuer());
+  return url.toString();
+}
+
+/**
+ * Render an authorization endpoint error. Once the redirect URI has been
+ * validated errors go back to the client; before that they are shown to the
+ * user, since redirecting to an unverified URI would be an open redirect.
+ */
+export function authorizationErrorResponse(error: unknown): NextResponse {
+  if (error instanceof OAuthRedirectError) {
+    return NextResponse.redirect(
+      buildClientRedirectUrl(error.redirectUri, {
+        error: error.code,
+        error_description: error.message,
+        state: error.state,
+      })
+    );
+  }
+  return oauthErrorResponse(error);
+}
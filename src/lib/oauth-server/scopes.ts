@@ -0,0 +1,103 @@
+/**
+ * Scopes a client may request.
+ *
+ * Besides the OpenID Connect scopes, every permission in the PERMISSIONS
+ * registry is a scope. A permission scope limits what the client may do on
+ * the user's behalf; it never grants more than the user holds, so resource
+ * servers still check the user with isGranted() before acting.
+ */
+import {
+  ALL_PERMISSIONS,
+  PERMISSIONS,
+  isPermission,
+  type Permission,
+} from '@/lib/security/permissions';
+import { OAuthServerError } from './errors';
+
+export const OIDC_SCOPES = {
+  OPENID: 'openid',
+  PROFILE: 'profile',
+  EMAIL: 'email',
+  OFFLINE_ACCESS: 'offline_access',
+} as const;
+
+export type OidcScope = (typeof OIDC_SCOPES)[keyof typeof OIDC_SCOPES];
+export type OAuthScope = OidcScope | Permission;
+
+const OIDC_SCOPE_LIST: readonly string[] = Object.values(OIDC_SCOPES);
+
+export const SUPPORTED_SCOPES: readonly OAuthScope[] = [
+  ...Object.values(OIDC_SCOPES),
+  ...ALL_PERMISSIONS,
+];
+
+/**
+ * Consent screen wording for each scope
+ */
+export const SCOPE_DESCRIPTIONS: Record<OAuthScope, string> = {
+  [OIDC_SCOPES.OPENID]: 'Sign you in with your account',
+  [OIDC_SCOPES.PROFILE]: 'See your name and username',
+  [OIDC_SCOPES.EMAIL]: 'See your email address',
+  [OIDC_SCOPES.OFFLINE_ACCESS]: 'Stay signed in when you are not using it',
+  [PERMISSIONS.ORGANIZATION.VIEW]: 'View your organization',
+  [PERMISSIONS.ORGANIZATION.EDIT]: 'Edit your organization',
+  [PERMISSIONS.ORGANIZATION.MANAGE]: 'Manage your organization settings',
+  [PERMISSIONS.ORGANIZATION.DELETE]: 'Delete your organization',
+  [PERMISSIONS.ORGANIZATION.MEMBERS.VIEW]: 'View organization members',
+  [PERMISSIONS.ORGANIZATION.MEMBERS.MANAGE]: 'Manage organization members',
+  [PERMISSIONS.ORGANIZATION.INVITES.MANAGE]:
+    'Invite people to your organization',
+  [PERMISSIONS.USER.VIEW]: 'View user accounts',
+  [PERMISSIONS.USER.EDIT]: 'Edit user accounts',
+  [PERMISSIONS.USER.DELETE]: 'Delete user accounts',
+  [PERMISSIONS.USER.ROLES.MANAGE]: 'Manage user roles',
+};
+
+export function isSupportedScope(scope: string): scope is OAuthScope {
+  return OIDC_SCOPE_LIST.includes(scope) || isPermission(scope);
+}
+
+/**
+ * Scopes that only make sense with a signed-in user
+ */
+export function isOidcScope(scope: string): scope is OidcScope {
+  return OIDC_SCOPE_LIST.includes(scope);
+}
+
+/**
+ * Split a space-delimited scope parameter into unique scopes.
+ *
+ * @throws OAuthServerError invalid_scope for unknown scopes
+ */
+export function parseScopeParam(value: string | null | undefined): string[] {
+  const scopes = [...new Set((value ?? '').split(' ').filter(Boolean))];
+  const unknown = scopes.filter((scope) => !isSupportedScope(scope));
+
+  if (unknown.length > 0) {
+    throw new OAuthServerError(
+      'invalid_scope',
+      `Unsupported scope: ${unknown.join(' ')}`
+    );
+  }
+  return scopes;
+}
+
+/**
+ * Whether an access token's scope covers a permission
+ */
+export function isPermissionInScope(
+  scope: string | string[],
+  permission: Permission
+): boolean {
+  const scopes = Array.isArray(scope) ? scope : scope.split(' ');
+  return scopes.includes(permission);
+}
+
+export function describeScopes(
+  scopes: string[]
+): { scope: string; description: string }[] {
+  return scopes.filter(isSupportedScope).map((scope) => ({
+    scope,
+    description: SCOPE_DESCRIPTIONS[scope],
+  }));
+}
@@ -0,0 +1,379 @@
+/**
+ * Token endpoint grants and token revocation (RFC 6749, RFC 7009).
+ */
+import { randomBytes, randomUUID, createHash } from 'crypto';
+import { prisma } from '@/lib/db';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { generateOAuthAccessToken, generateIdToken } from '@/lib/security';
+import { deriveCodeChallenge } from '@/lib/auth/oauth';
+import { logAuditEvent } from '@/lib/audit';
+import { OAuthServerError } from './errors';
+import {
+  allowsGrantType,
+  isPublicClient,
+  type OAuthClientRecord,
+} from './clients';
+import { hashAuthorizationCode } from './authorize';
+import { OIDC_SCOPES, isOidcScope, parseScopeParam } from './scopes';
+import {
+  getUserClaims,
+  oauthUserSelect,
+  type OAuthUserRecord,
+} from './userinfo';
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+export interface OAuthRequestContext {
+  ipAddress: string;
+  userAgent?: string;
+}
+
+// RFC 7636 Section 4.1
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9._~-]{43,128}$/;
+
+export function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function requireParam(params: URLSearchParams, name: string): string {
+  const value = params.get(name);
+  if (!value) {
+    throw new OAuthServerError('invalid_request', `${name} is required`);
+  }
+  return value;
+}
+
+function invalidGrant(message: string): OAuthServerError {
+  return new OAuthServerError('invalid_grant', message);
+}
+
+async function findActiveUser(userId: string): Promise<OAuthUserRecord> {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isActive: true },
+    select: oauthUserSelect,
+  });
+  if (!user) throw invalidGrant('User is no longer active');
+  return user;
+}
+
+async function revokeRefreshTokenFamily(familyId: string): Promise<void> {
+  await prisma.oAuthRefreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Issue the tokens for a user grant. A refresh token is only issued when the
+ * client asked for offline_access and may use the refresh token grant.
+ */
+async function issueUserTokens(options: {
+  client: OAuthClientRecord;
+  user: OAuthUserRecord;
+  scopes: string[];
+  authTime: Date;
+  nonce?: string;
+  familyId?: string;
+  refreshScopes?: string[];
+}): Promise<TokenResponse> {
+  const { client, user, scopes, authTime } = options;
+
+  const response: TokenResponse = {
+    access_token: await generateOAuthAccessToken({
+      subject: user.id,
+      clientId: client.clientId,
+      scopes,
+    }),
+    token_type: 'Bearer',
+    expires_in: SECURITY_CONFIG.oauthServer.accessTokenExpirySeconds,
+    scope: scopes.join(' '),
+  };
+
+  if (scopes.includes(OIDC_SCOPES.OPENID)) {
+    response.id_token = await generateIdToken({
+      userId: user.id,
+      clientId: client.clientId,
+      authTime,
+      nonce: options.nonce,
+      claims: getUserClaims(user, scopes),
+    });
+  }
+
+  const refreshScopes = options.refreshScopes ?? scopes;
+  if (
+    refreshScopes.includes(OIDC_SCOPES.OFFLINE_ACCESS) &&
+    allowsGrantType(client, 'refresh_token')
+  ) {
+    const refreshToken = randomBytes(32).toString('base64url');
+    await prisma.oAuthRefreshToken.create({
+      data: {
+        tokenHash: hashRefreshToken(refreshToken),
+        familyId: options.familyId ?? randomUUID(),
+        oauthClientId: client.id,
+        userId: user.id,
+        scopes: refreshScopes,
+        authTime,
+        expiresAt: new Date(
+          Date.now() +
+            SECURITY_CONFIG.oauthServer.refreshTokenExpiryDays *
+              24 *
+              60 *
+              60 *
+              1000
+        ),
+      },
+    });
+    response.refresh_token = refreshToken;
+  }
+
+  return response;
+}
+
+/**
+ * authorization_code grant with PKCE verification
+ */
+async function exchangeAuthorizationCode(
+  params: URLSearchParams,
+  client: OAuthClientRecord,
+  context: OAuthRequestContext
+): Promise<TokenResponse> {
+  const code = requireParam(params, 'code');
+  const redirectUri = requireParam(params, 'redirect_uri');
+  const codeVerifier = requireParam(params, 'code_verifier');
+
+  if (!CODE_VERIFIER_PATTERN.test(codeVerifier)) {
+    throw new OAuthServerError('invalid_request', 'Malformed code_verifier');
+  }
+
+  const authorizationCode = await prisma.oAuthAuthorizationCode.findUnique({
+    where: { codeHash: hashAuthorizationCode(code) },
+  });
+
+  if (!authorizationCode || authorizationCode.oauthClientId !== client.id) {
+    throw invalidGrant('Invalid authorization code');
+  }
+
+  if (authorizationCode.usedAt) {
+    // A replayed code may have been stolen: revoke what it was exchanged for
+    // (RFC 6749 Section 4.1.2)
+    await prisma.oAuthRefreshToken.updateMany({
+      where: {
+        userId: authorizationCode.userId,
+        oauthClientId: client.id,
+        createdAt: { gte: authorizationCode.createdAt },
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    });
+    await logAuditEvent({
+      action: 'OAUTH_SERVER_CODE_REUSE',
+      category: 'security',
+      userId: authorizationCode.userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: { clientId: client.clientId },
+    });
+    throw invalidGrant('Authorization code has already been used');
+  }
+
+  if (authorizationCode.expiresAt < new Date()) {
+    throw invalidGrant('Authorization code has expired');
+  }
+  if (authorizationCode.redirectUri !== redirectUri) {
+    throw invalidGrant('redirect_uri does not match the authorization request');
+  }
+  if (deriveCodeChallenge(codeVerifier) !== authorizationCode.codeChallenge) {
+    throw invalidGrant('code_verifier does not match the code challenge');
+  }
+
+  // Claim the code atomically so concurrent exchanges cannot both succeed
+  const claimed = await prisma.oAuthAuthorizationCode.updateMany({
+    where: { id: authorizationCode.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw invalidGrant('Authorization code has already been used');
+  }
+
+  const user = await findActiveUser(authorizationCode.userId);
+
+  return issueUserTokens({
+    client,
+    user,
+    scopes: authorizationCode.scopes,
+    authTime: authorizationCode.authTime,
+    nonce: authorizationCode.nonce ?? undefined,
+  });
+}
+
+/**
+ * refresh_token grant. Refresh tokens are single use: each exchange rotates
+ * the token, and presenting a rotated token revokes its whole family.
+ */
+async function exchangeRefreshToken(
+  params: URLSearchParams,
+  client: OAuthClientRecord,
+  context: OAuthRequestContext
+): Promise<TokenResponse> {
+  const token = requireParam(params, 'refresh_token');
+
+  const refreshToken = await prisma.oAuthRefreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(token) },
+  });
+
+  if (!refreshToken || refreshToken.oauthClientId !== client.id) {
+    throw invalidGrant('Invalid refresh token');
+  }
+
+  if (refreshToken.revokedAt) {
+    await revokeRefreshTokenFamily(refreshToken.familyId);
+    await logAuditEvent({
+      action: 'OAUTH_SERVER_REFRESH_TOKEN_REUSE',
+      category: 'security',
+      userId: refreshToken.userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: { clientId: client.clientId, familyId: refreshToken.familyId },
+    });
+    throw invalidGrant('Refresh token has been revoked');
+  }
+
+  if (refreshToken.expiresAt < new Date()) {
+    throw invalidGrant('Refresh token has expired');
+  }
+
+  // The client may narrow, but not widen, the original scopes
+  let scopes = refreshToken.scopes;
+  if (params.has('scope')) {
+    const requested = parseScopeParam(params.get('scope'));
+    if (requested.some((scope) => !refreshToken.scopes.includes(scope))) {
+      throw new OAuthServerError(
+        'invalid_scope',
+        'Requested scope exceeds the original grant'
+      );
+    }
+    scopes = requested;
+  }
+
+  const rotated = await prisma.oAuthRefreshToken.updateMany({
+    where: { id: refreshToken.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (rotated.count === 0) {
+    throw invalidGrant('Refresh token has been revoked');
+  }
+
+  const user = await findActiveUser(refreshToken.userId);
+
+  return issueUserTokens({
+    client,
+    user,
+    scopes,
+    authTime: refreshToken.authTime,
+    familyId: refreshToken.familyId,
+    refreshScopes: refreshToken.scopes,
+  });
+}
+
+/**
+ * client_credentials grant for service-to-service calls. Only permission
+ * scopes apply, since there is no user.
+ */
+async function issueClientCredentialsToken(
+  params: URLSearchParams,
+  client: OAuthClientRecord
+): Promise<TokenResponse> {
+  if (isPublicClient(client)) {
+    throw new OAuthServerError(
+      'unauthorized_client',
+      'Public clients cannot use the client credentials grant'
+    );
+  }
+
+  const allowed = client.scopes.filter((scope) => !isOidcScope(scope));
+  const requested = parseScopeParam(params.get('scope'));
+  if (requested.some((scope) => !allowed.includes(scope))) {
+    throw new OAuthServerError(
+      'invalid_scope',
+      'Requested scope is not available to this client'
+    );
+  }
+  const scopes = requested.length > 0 ? requested : allowed;
+
+  return {
+    access_token: await generateOAuthAccessToken({
+      subject: client.clientId,
+      clientId: client.clientId,
+      scopes,
+    }),
+    token_type: 'Bearer',
+    expires_in: SECURITY_CONFIG.oauthServer.accessTokenExpirySeconds,
+    scope: scopes.join(' '),
+  };
+}
+
+/**
+ * Handle a token endpoint request from an authenticated client
+ */
+export async function handleTokenRequest(
+  params: URLSearchParams,
+  client: OAuthClientRecord,
+  context: OAuthRequestContext
+): Promise<TokenResponse> {
+  const grantType = requireParam(params, 'grant_type');
+
+  if (
+    grantType !== 'authorization_code' &&
+    grantType !== 'refresh_token' &&
+    grantType !== 'client_credentials'
+  ) {
+    throw new OAuthServerError(
+      'unsupported_grant_type',
+      `Unsupported grant_type: ${grantType}`
+    );
+  }
+
+  if (!allowsGrantType(client, grantType)) {
+    throw new OAuthServerError(
+      'unauthorized_client',
+      `Client may not use the ${grantType} grant`
+    );
+  }
+
+  switch (grantType) {
+    case 'authorization_code':
+      return exchangeAuthorizationCode(params, client, context);
+    case 'refresh_token':
+      return exchangeRefreshToken(params, client, context);
+    case 'client_credentials':
+      return issueClientCredentialsToken(params, client);
+  }
+}
+
+/**
+ * Revoke a refresh token and the rest of its family (RFC 7009). Access tokens
+ * are self-contained JWTs and expire on their own. Unknown tokens are
+ * ignored, as the RFC asks.
+ */
+export async function revokeToken(
+  params: URLSearchParams,
+  client: OAuthClientRecord
+): Promise<void> {
+  const token = requireParam(params, 'token');
+
+  const refreshToken = await prisma.oAuthRefreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(token) },
+    select: { familyId: true, oauthClientId: true },
+  });
+
+  if (refreshToken && refreshToken.oauthClientId === client.id) {
+    await revokeRefreshTokenFamily(refreshToken.familyId);
+  }
+}
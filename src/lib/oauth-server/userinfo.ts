@@ -0,0 +1,96 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { verifyOAuthAccessToken } from '@/lib/security';
+import { OAuthServerError } from './errors';
+import { OIDC_SCOPES } from './scopes';
+
+export const oauthUserSelect = {
+  id: true,
+  email: true,
+  emailVerified: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  isActive: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+export type OAuthUserRecord = Prisma.UserGetPayload<{
+  select: typeof oauthUserSelect;
+}>;
+
+/**
+ * Standard claims released for the granted scopes (OpenID Connect Core
+ * Section 5.4). The subject is added by the caller.
+ */
+export function getUserClaims(
+  user: OAuthUserRecord,
+  scopes: string[]
+): Record<string, unknown> {
+  const claims: Record<string, unknown> = {};
+
+  if (scopes.includes(OIDC_SCOPES.PROFILE)) {
+    const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+    if (name) claims.name = name;
+    if (user.firstName) claims.given_name = user.firstName;
+    if (user.lastName) claims.family_name = user.lastName;
+    if (user.username) claims.preferred_username = user.username;
+    claims.updated_at = Math.floor(user.updatedAt.getTime() / 1000);
+  }
+
+  if (scopes.includes(OIDC_SCOPES.EMAIL)) {
+    claims.email = user.email;
+    claims.email_verified = user.emailVerified;
+  }
+
+  return claims;
+}
+
+/**
+ * Resolve the UserInfo response for a bearer access token
+ * (OpenID Connect Core Section 5.3).
+ *
+ * @throws OAuthServerError invalid_token (401) or insufficient_scope (403)
+ */
+export async function getUserInfo(
+  authorization: string | null
+): Promise<Record<string, unknown>> {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    throw new OAuthServerError('invalid_token', 'Bearer token required', 401);
+  }
+
+  let payload;
+  try {
+    payload = await verifyOAuthAccessToken(match[1]);
+  } catch {
+    throw new OAuthServerError(
+      'invalid_token',
+      'Access token is invalid or expired',
+      401
+    );
+  }
+
+  const scopes = payload.scope.split(' ');
+  if (!scopes.includes(OIDC_SCOPES.OPENID)) {
+    throw new OAuthServerError(
+      'insufficient_scope',
+      'The openid scope is required',
+      403
+    );
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { id: payload.sub, isActive: true },
+    select: oauthUserSelect,
+  });
+  if (!user) {
+    throw new OAuthServerError(
+      'invalid_token',
+      'User is no longer active',
+      401
+    );
+  }
+
+  return { sub: user.id, ...getUserClaims(user, scopes) };
+}
@@ -0,0 +1,457 @@
+/**
+ * Just-in-time role requests and time-bound role assignments.
+ *
+ * A user requests a role for a limited time with a justification, and every
+ * platform administrator is emailed. An approval assigns the role until
+ * `expiresAt`; hasRole() ignores it from then on, and
+ * `revokeExpiredRoleAssignments` (run on a schedule) deletes expired
+ * assignments with an audit event and signs their users out.
+ *
+ * Only the roles in `SECURITY_CONFIG.roleRequests.requestableRoles` can be
+ * requested, and reviewers can only approve roles they hold themselves in the
+ * requested scope. Users cannot review their own requests.
+ */
+import type { Prisma, RoleRequestStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import log from '@/lib/logger';
+import { logAuditEvent } from '@/lib/audit';
+import { invalidateUserSessions } from '@/lib/auth';
+import { sendRoleRequestEmail } from '@/lib/email';
+import { hasRole, ROLES, userWithRolesInclude } from '@/lib/security/index';
+import type {
+  CreateRoleRequestInput,
+  ReviewRoleRequestInput,
+} from '@/lib/validations';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+} from '@/services/auth.errors';
+
+const MINUTE_MS = 60 * 1000;
+
+function isRequestableRole(roleName: string): boolean {
+  return SECURITY_CONFIG.roleRequests.requestableRoles.includes(roleName);
+}
+
+export interface RoleRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const roleRequestSelect = {
+  id: true,
+  justification: true,
+  durationMinutes: true,
+  status: true,
+  reviewNote: true,
+  reviewedAt: true,
+  expiresAt: true,
+  createdAt: true,
+  role: { select: { id: true, name: true } },
+  organization: { select: { id: true, name: true } },
+  user: {
+    select: { id: true, email: true, firstName: true, lastName: true },
+  },
+  reviewedBy: { select: { id: true, email: true } },
+} satisfies Prisma.RoleRequestSelect;
+
+export type RoleRequestSummary = Prisma.RoleRequestGetPayload<{
+  select: typeof roleRequestSelect;
+}>;
+
+function displayName(user: {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}): string {
+  return (
+    [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email
+  );
+}
+
+/**
+ * Active users with a platform-wide ROLE_ADMIN assignment in effect
+ */
+async function getApprovers(excludeUserId: string) {
+  const now = new Date();
+  return prisma.user.findMany({
+    where: {
+      id: { not: excludeUserId },
+      isActive: true,
+      userRoles: {
+        some: {
+          organizationId: null,
+          role: { name: ROLES.ADMIN },
+          AND: [
+            { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+            { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+          ],
+        },
+      },
+    },
+    select: { id: true, email: true, firstName: true },
+  });
+}
+
+/**
+ * Request a role for a limited time and email the approvers
+ *
+ * @throws NotFoundError when the role does not exist
+ * @throws AuthorizationError when the role cannot be requested or the user is
+ *   not a member of the organization
+ * @throws ConflictError when the user has the role or already asked for it
+ */
+export async function requestRole(
+  userId: string,
+  input: CreateRoleRequestInput,
+  context: RoleRequestContext
+): Promise<RoleRequestSummary> {
+  const organizationId = input.organizationId ?? null;
+
+  const [user, role] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      include: userWithRolesInclude,
+    }),
+    prisma.role.findUnique({ where: { name: input.role } }),
+  ]);
+  if (!role) {
+    throw new NotFoundError('Role not found');
+  }
+  if (!isRequestableRole(role.name)) {
+    throw new AuthorizationError('This role cannot be requested');
+  }
+
+  if (
+    organizationId &&
+    !user.userRoles.some((ur) => ur.organizationId === organizationId)
+  ) {
+    throw new AuthorizationError(
+      'You can only request roles in organizations you belong to'
+    );
+  }
+
+  if (await hasRole(user, role.name, organizationId)) {
+    throw new ConflictError('You already have this role');
+  }
+
+  const pending = await prisma.roleRequest.findFirst({
+    where: { userId, roleId: role.id, organizationId, status: 'PENDING' },
+    select: { id: true },
+  });
+  if (pending) {
+    throw new ConflictError('You already have a pending request for this role');
+  }
+
+  const request = await prisma.roleRequest.create({
+    data: {
+      userId,
+      roleId: role.id,
+      organizationId,
+      justification: input.justification,
+      durationMinutes: input.durationMinutes,
+    },
+    select: roleRequestSelect,
+  });
+
+  await logAuditEvent({
+    action: 'ROLE_REQUEST_CREATED',
+    category: 'security',
+    userId,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: {
+      requestId: request.id,
+      roleName: role.name,
+      organizationId,
+      durationMinutes: request.durationMinutes,
+    },
+  });
+
+  const approvers = await getApprovers(userId);
+  if (approvers.length === 0) {
+    log.warn('Role request has no approver to notify', {
+      requestId: request.id,
+    });
+  }
+  for (const approver of approvers) {
+    sendRoleRequestEmail(
+      approver.email,
+      {
+        requesterName: displayName(user),
+        requesterEmail: user.email,
+        roleName: role.name,
+        organizationName: request.organization?.name ?? null,
+        durationMinutes: request.durationMinutes,
+        justification: request.justification,
+      },
+      approver.firstName ?? undefined,
+      approver.id
+    ).catch((err) => log.email.failed('role_request', approver.email, err));
+  }
+
+  return request;
+}
+
+/** The user's role requests, newest first */
+export async function listUserRoleRequests(
+  userId: string
+): Promise<RoleRequestSummary[]> {
+  return prisma.roleRequest.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+    select: roleRequestSelect,
+  });
+}
+
+/** Role requests for review: pending ones oldest first, others newest first */
+export async function listRoleRequests(
+  status?: RoleRequestStatus
+): Promise<RoleRequestSummary[]> {
+  return prisma.roleRequest.findMany({
+    where: status ? { status } : undefined,
+    orderBy: { createdAt: status === 'PENDING' ? 'asc' : 'desc' },
+    take: 100,
+    select: roleRequestSelect,
+  });
+}
+
+/**
+ * Withdraw one of the user's pending requests
+ *
+ * @throws NotFoundError when the user has no such request
+ * @throws ConflictError when the request was already reviewed
+ */
+export async function cancelRoleRequest(
+  requestId: string,
+  userId: string,
+  context: RoleRequestContext
+): Promise<void> {
+  const { count } = await prisma.roleRequest.updateMany({
+    where: { id: requestId, userId, status: 'PENDING' },
+    data: { status: 'CANCELLED' },
+  });
+
+  if (count === 0) {
+    const exists = await prisma.roleRequest.findFirst({
+      where: { id: requestId, userId },
+      select: { id: true },
+    });
+    if (!exists) throw new NotFoundError('Role request not found');
+    throw new ConflictError('Only pending requests can be cancelled');
+  }
+
+  await logAuditEvent({
+    action: 'ROLE_REQUEST_CANCELLED',
+    category: 'security',
+    userId,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: { requestId },
+  });
+}
+
+/**
+ * Grant the role for the requested time, extending a time-bound assignment
+ * of the same role. Returns when the assignment expires.
+ */
+async function grantTimeBoundRole(
+  tx: Prisma.TransactionClient,
+  request: { userId: string; roleId: string; organizationId: string | null },
+  expiresAt: Date
+): Promise<Date> {
+  const existing = await tx.userRole.findFirst({
+    where: {
+      userId: request.userId,
+      roleId: request.roleId,
+      organizationId: request.organizationId,
+    },
+    select: { id: true, expiresAt: true },
+  });
+
+  if (!existing) {
+    await tx.userRole.create({ data: { ...request, expiresAt } });
+    return expiresAt;
+  }
+  if (!existing.expiresAt) {
+    throw new ConflictError('The user already has this role');
+  }
+
+  // Starts now and ends with whichever grant ends last
+  const endsAt =
+    existing.expiresAt > expiresAt ? existing.expiresAt : expiresAt;
+  await tx.userRole.update({
+    where: { id: existing.id },
+    data: { startsAt: null, expiresAt: endsAt },
+  });
+  return endsAt;
+}
+
+/**
+ * Approve or deny a pending request
+ *
+ * @throws NotFoundError when the request does not exist
+ * @throws AuthorizationError when reviewing one's own request, or approving a
+ *   role that cannot be requested or that the reviewer does not hold in the
+ *   requested scope
+ * @throws ConflictError when the request was already reviewed
+ */
+export async function reviewRoleRequest(
+  requestId: string,
+  reviewerId: string,
+  { decision, note }: ReviewRoleRequestInput,
+  context: RoleRequestContext
+): Promise<RoleRequestSummary> {
+  const request = await prisma.roleRequest.findUnique({
+    where: { id: requestId },
+    select: {
+      userId: true,
+      roleId: true,
+      organizationId: true,
+      durationMinutes: true,
+      role: { select: { name: true } },
+    },
+  });
+  if (!request) {
+    throw new NotFoundError('Role request not found');
+  }
+  if (request.userId === reviewerId) {
+    throw new AuthorizationError('You cannot review your own request');
+  }
+
+  const reviewedAt = new Date();
+  const approved = decision === 'approve';
+
+  if (approved) {
+    if (!isRequestableRole(request.role.name)) {
+      throw new AuthorizationError('This role cannot be granted on request');
+    }
+    // Admins cannot hand out roles above their own
+    const reviewer = await prisma.user.findUniqueOrThrow({
+      where: { id: reviewerId },
+      include: userWithRolesInclude,
+    });
+    if (!(await hasRole(reviewer, request.role.name, request.organizationId))) {
+      throw new AuthorizationError(
+        'You can only approve roles you hold in the requested scope'
+      );
+    }
+  }
+
+  const expiresAt = await prisma.$transaction(async (tx) => {
+    // Only the first review of a pending request counts
+    const { count } = await tx.roleRequest.updateMany({
+      where: { id: requestId, status: 'PENDING' },
+      data: {
+        status: approved ? 'APPROVED' : 'DENIED',
+        reviewedById: reviewerId,
+        reviewNote: note || null,
+        reviewedAt,
+      },
+    });
+    if (count === 0) {
+      throw new ConflictError('This request was already reviewed');
+    }
+    if (!approved) return null;
+
+    const endsAt = await grantTimeBoundRole(
+      tx,
+      {
+        userId: request.userId,
+        roleId: request.roleId,
+        organizationId: request.organizationId,
+      },
+      new Date(reviewedAt.getTime() + request.durationMinutes * MINUTE_MS)
+    );
+    await tx.roleRequest.update({
+      where: { id: requestId },
+      data: { expiresAt: endsAt },
+    });
+    return endsAt;
+  });
+
+  await logAuditEvent({
+    action: approved ? 'ROLE_REQUEST_APPROVED' : 'ROLE_REQUEST_DENIED',
+    category: 'admin',
+    userId: reviewerId,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: {
+      requestId,
+      targetUserId: request.userId,
+      roleName: request.role.name,
+      organizationId: request.organizationId,
+      ...(expiresAt && { expiresAt: expiresAt.toISOString() }),
+      ...(note && { note }),
+    },
+  });
+
+  return prisma.roleRequest.findUniqueOrThrow({
+    where: { id: requestId },
+    select: roleRequestSelect,
+  });
+}
+
+/**
+ * Delete the role assignments whose time ran out and sign their users out,
+ * so sessions holding the role end with it.
+ *
+ * @returns The number of assignments revoked
+ */
+export async function revokeExpiredRoleAssignments(): Promise<{
+  revoked: number;
+}> {
+  const now = new Date();
+  const expired = await prisma.userRole.findMany({
+    where: { expiresAt: { lte: now } },
+    select: {
+      id: true,
+      userId: true,
+      organizationId: true,
+      expiresAt: true,
+      role: { select: { name: true } },
+    },
+  });
+
+  let revoked = 0;
+  for (const assignment of expired) {
+    try {
+      // Skip assignments extended since they were read
+      const { count } = await prisma.userRole.deleteMany({
+        where: { id: assignment.id, expiresAt: { lte: now } },
+      });
+      if (count === 0) continue;
+      revoked++;
+
+      const sessionsInvalidated = await invalidateUserSessions(
+        assignment.userId
+      );
+      await logAuditEvent({
+        action: 'ROLE_ASSIGNMENT_EXPIRED',
+        category: 'security',
+        userId: assignment.userId,
+        metadata: {
+          roleName: assignment.role.name,
+          organizationId: assignment.organizationId,
+          expiresAt: assignment.expiresAt?.toISOString(),
+          sessionsInvalidated,
+        },
+      });
+    } catch (error) {
+      log.error('Role assignment revocation failed', {
+        userRoleId: assignment.id,
+        error: String(error),
+      });
+    }
+  }
+
+  await prisma.roleRequest.updateMany({
+    where: { status: 'APPROVED', expiresAt: { lte: now } },
+    data: { status: 'EXPIRED' },
+  });
+
+  return { revoked };
+}
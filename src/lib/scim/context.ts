@@ -0,0 +1,82 @@
+import type { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getClientIP } from '@/lib/auth';
+import { logAuditEvent, type AuditAction } from '@/lib/audit';
+import { ScimError } from './errors';
+import { hashScimToken, isValidScimTokenFormat } from './tokens';
+
+/**
+ * Organization and request details for a SCIM call
+ */
+export interface ScimContext {
+  organizationId: string;
+  tokenId: string;
+  ipAddress: string;
+  userAgent?: string;
+}
+
+/**
+ * Resolve the organization from the request's bearer token.
+ *
+ * @throws ScimError 401 if the token is missing, unknown or revoked
+ */
+export async function authenticateScimRequest(
+  req: NextRequest
+): Promise<ScimContext> {
+  const token = req.headers
+    .get('authorization')
+    ?.match(/^Bearer\s+(\S+)$/i)?.[1];
+
+  if (!token || !isValidScimTokenFormat(token)) {
+    throw new ScimError(401, 'A valid SCIM bearer token is required');
+  }
+
+  const scimToken = await prisma.scimToken.findFirst({
+    where: { tokenHash: hashScimToken(token), revokedAt: null },
+    select: { id: true, organizationId: true },
+  });
+
+  if (!scimToken) {
+    throw new ScimError(401, 'A valid SCIM bearer token is required');
+  }
+
+  // Update last used timestamp (fire and forget)
+  prisma.scimToken
+    .update({
+      where: { id: scimToken.id },
+      data: { lastUsedAt: new Date() },
+    })
+    .catch(() => {
+      // Ignore errors from updating lastUsedAt
+    });
+
+  return {
+    organizationId: scimToken.organizationId,
+    tokenId: scimToken.id,
+    ipAddress: getClientIP(req),
+    userAgent: req.headers.get('user-agent') || undefined,
+  };
+}
+
+/**
+ * Audit a change made by an organization's SCIM client
+ */
+export async function logScimEvent(
+  context: ScimContext,
+  action: AuditAction,
+  userId: string | undefined,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  await logAuditEvent({
+    action,
+    category: 'admin',
+    userId,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: {
+      organizationId: context.organizationId,
+      scimTokenId: context.tokenId,
+      ...metadata,
+    },
+  });
+}
@@ -0,0 +1,33 @@
+/**
+ * SCIM protocol errors (RFC 7644 Section 3.12).
+ *
+ * Route handlers catch these and render them with scimErrorResponse().
+ */
+
+export type ScimErrorType =
+  | 'invalidFilter'
+  | 'tooMany'
+  | 'uniqueness'
+  | 'mutability'
+  | 'invalidSyntax'
+  | 'invalidPath'
+  | 'noTarget'
+  | 'invalidValue';
+
+export class ScimError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly scimType?: ScimErrorType
+  ) {
+    super(message);
+    this.name = 'ScimError';
+  }
+}
+
+export class ScimNotFoundError extends ScimError {
+  constructor(resourceType: 'User' | 'Group', id: string) {
+    super(404, `${resourceType} ${id} not found`);
+    this.name = 'ScimNotFoundError';
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * SCIM filter parsing (RFC 7644 Section 3.4.2.2) and translation to Prisma
+ * where clauses.
+ *
+ * Supports attribute comparisons, "pr", "and", "or", "not" and grouping.
+ * Value path filters such as emails[type eq "work"] are not supported.
+ */
+import { ScimError } from './errors';
+
+export type ScimCompareOperator =
+  | 'eq'
+  | 'ne'
+  | 'co'
+  | 'sw'
+  | 'ew'
+  | 'gt'
+  | 'ge'
+  | 'lt'
+  | 'le';
+
+export type ScimFilterValue = string | number | boolean | null;
+
+export interface ScimComparison {
+  op: ScimCompareOperator | 'pr';
+  /** Lowercase attribute path without the core schema URN, e.g. "name.givenname" */
+  attribute: string;
+  value?: ScimFilterValue;
+}
+
+export type ScimFilter =
+  | ScimComparison
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter };
+
+/**
+ * Translates one attribute comparison into a Prisma where clause
+ */
+export type ScimAttributeMapper = (
+  comparison: ScimComparison
+) => Record<string, unknown>;
+
+const COMPARE_OPERATORS = new Set<string>([
+  'eq',
+  'ne',
+  'co',
+  'sw',
+  'ew',
+  'gt',
+  'ge',
+  'lt',
+  'le',
+]);
+
+const RANGE_OPERATORS: Partial<Record<ScimCompareOperator, string>> = {
+  gt: 'gt',
+  ge: 'gte',
+  lt: 'lt',
+  le: 'lte',
+};
+
+const CORE_SCHEMA_PREFIX =
+  /^urn:ietf:params:scim:schemas:core:2\.0:(user|group):/;
+
+type Token =
+  | { type: 'lparen' | 'rparen' }
+  | { type: 'string'; value: string }
+  | { type: 'word'; value: string };
+
+/**
+ * Lowercase an attribute path and strip the core schema URN, e.g.
+ * "urn:ietf:params:scim:schemas:core:2.0:User:name.givenName" -> "name.givenname"
+ */
+export function normalizeScimAttribute(path: string): string {
+  return path.toLowerCase().replace(CORE_SCHEMA_PREFIX, '');
+}
+
+function invalidFilter(message: string): ScimError {
+  return new ScimError(400, message, 'invalidFilter');
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen' });
+      i++;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < input.length && input[end] !== '"') {
+        end += input[end] === '\\' ? 2 : 1;
+      }
+      if (end >= input.length) {
+        throw invalidFilter('Unterminated string in filter');
+      }
+      try {
+        tokens.push({
+          type: 'string',
+          value: JSON.parse(input.slice(i, end + 1)),
+        });
+      } catch {
+        throw invalidFilter('Invalid string in filter');
+      }
+      i = end + 1;
+    } else if (char === '[') {
+      throw invalidFilter('Value path filters are not supported');
+    } else {
+      let end = i;
+      while (end < input.length && !/[\s()"[]/.test(input[end])) end++;
+      tokens.push({ type: 'word', value: input.slice(i, end) });
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+class FilterParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ScimFilter {
+    const filter = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw invalidFilter('Unexpected input after filter expression');
+    }
+    return filter;
+  }
+
+  private peekKeyword(): string | undefined {
+    const token = this.tokens[this.position];
+    return token?.type === 'word' ? token.value.toLowerCase() : undefined;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) throw invalidFilter('Incomplete filter expression');
+    return token;
+  }
+
+  private expect(type: 'lparen' | 'rparen'): void {
+    if (this.next().type !== type) {
+      throw invalidFilter(`Expected "${type === 'lparen' ? '(' : ')'}"`);
+    }
+  }
+
+  private parseOr(): ScimFilter {
+    let left = this.parseAnd();
+    while (this.peekKeyword() === 'or') {
+      this.position++;
+      left = { op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ScimFilter {
+    let left = this.parseUnary();
+    while (this.peekKeyword() === 'and') {
+      this.position++;
+      left = { op: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ScimFilter {
+    if (
+      this.peekKeyword() === 'not' &&
+      this.tokens[this.position + 1]?.type === 'lparen'
+    ) {
+      this.position += 2;
+      const filter = this.parseOr();
+      this.expect('rparen');
+      return { op: 'not', filter };
+    }
+
+    if (this.tokens[this.position]?.type === 'lparen') {
+      this.position++;
+      const filter = this.parseOr();
+      this.expect('rparen');
+      return filter;
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ScimComparison {
+    const attributeToken = this.next();
+    if (attributeToken.type !== 'word') {
+      throw invalidFilter('Expected an attribute name');
+    }
+    const attribute = normalizeScimAttribute(attributeToken.value);
+
+    const operatorToken = this.next();
+    const op =
+      operatorToken.type === 'word' ? operatorToken.value.toLowerCase() : '';
+
+    if (op === 'pr') {
+      return { op, attribute };
+    }
+    if (!COMPARE_OPERATORS.has(op)) {
+      throw invalidFilter(`Unknown filter operator after "${attribute}"`);
+    }
+
+    return {
+      op: op as ScimCompareOperator,
+      attribute,
+      value: this.parseValue(),
+    };
+  }
+
+  private parseValue(): ScimFilterValue {
+    const token = this.next();
+    if (token.type === 'string') return token.value;
+    if (token.type !== 'word') throw invalidFilter('Expected a value');
+
+    const literal = token.value.toLowerCase();
+    if (literal === 'true') return true;
+    if (literal === 'false') return false;
+    if (literal === 'null') return null;
+
+    const number = Number(token.value);
+    if (Number.isFinite(number)) return number;
+
+    throw invalidFilter(`Invalid filter value "${token.value}"`);
+  }
+}
+
+/**
+ * Parse a SCIM filter expression.
+ *
+ * @throws ScimError 400 invalidFilter
+ */
+export function parseScimFilter(input: string): ScimFilter {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) throw invalidFilter('Filter is empty');
+  return new FilterParser(tokens).parse();
+}
+
+/**
+ * Translate a parsed filter into a Prisma where clause using per-attribute
+ * mappers keyed by lowercase attribute path.
+ *
+ * @throws ScimError 400 invalidFilter for attributes without a mapper
+ */
+export function compileScimFilter(
+  filter: ScimFilter,
+  attributes: Record<string, ScimAttributeMapper>
+): Record<string, unknown> {
+  switch (filter.op) {
+    case 'and':
+      return {
+        AND: [
+          compileScimFilter(filter.left, attributes),
+          compileScimFilter(filter.right, attributes),
+        ],
+      };
+    case 'or':
+      return {
+        OR: [
+          compileScimFilter(filter.left, attributes),
+          compileScimFilter(filter.right, attributes),
+        ],
+      };
+    case 'not':
+      return { NOT: compileScimFilter(filter.filter, attributes) };
+    default: {
+      const mapper = attributes[filter.attribute];
+      if (!mapper) {
+        throw invalidFilter(
+          `Filtering on "${filter.attribute}" is not supported`
+        );
+      }
+      return mapper(filter);
+    }
+  }
+}
+
+// ============================================================================
+// Attribute mappers
+// ============================================================================
+
+/**
+ * Prisma string condition for a comparison other than "ne"
+ */
+export function stringCondition(
+  comparison: ScimComparison,
+  caseExact = false
+): Record<string, unknown> {
+  if (comparison.op === 'pr') return { not: null };
+
+  if (typeof comparison.value !== 'string') {
+    throw invalidFilter(
+      `"${comparison.attribute}" must be compared to a string`
+    );
+  }
+
+  const value = comparison.value;
+  const mode = caseExact ? {} : { mode: 'insensitive' };
+
+  switch (comparison.op) {
+    case 'eq':
+    case 'ne':
+      return { equals: value, ...mode };
+    case 'co':
+      return { contains: value, ...mode };
+    case 'sw':
+      return { startsWith: value, ...mode };
+    case 'ew':
+      return { endsWith: value, ...mode };
+    default:
+      return { [RANGE_OPERATORS[comparison.op]!]: value };
+  }
+}
+
+export function stringAttribute(
+  field: string,
+  caseExact = false
+): ScimAttributeMapper {
+  return (comparison) =>
+    comparison.op === 'ne'
+      ? { NOT: { [field]: stringCondition(comparison, caseExact) } }
+      : { [field]: stringCondition(comparison, caseExact) };
+}
+
+export function booleanAttribute(field: string): ScimAttributeMapper {
+  return (comparison) => {
+    if (comparison.op === 'pr') return {};
+    if (typeof comparison.value !== 'boolean') {
+      throw invalidFilter(
+        `"${comparison.attribute}" must be compared to true or false`
+      );
+    }
+    if (comparison.op === 'eq') return { [field]: comparison.value };
+    if (comparison.op === 'ne') return { [field]: !comparison.value };
+    throw invalidFilter(
+      `"${comparison.attribute}" only supports the eq, ne and pr operators`
+    );
+  };
+}
+
+export function dateAttribute(field: string): ScimAttributeMapper {
+  return (comparison) => {
+    if (comparison.op === 'pr') return {};
+
+    const date =
+      typeof comparison.value === 'string' ? new Date(comparison.value) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      throw invalidFilter(
+        `"${comparison.attribute}" must be compared to a date-time string`
+      );
+    }
+
+    if (comparison.op === 'eq') return { [field]: date };
+    if (comparison.op === 'ne') return { NOT: { [field]: date } };
+
+    const range = RANGE_OPERATORS[comparison.op];
+    if (!range) {
+      throw invalidFilter(
+        `"${comparison.attribute}" does not support the ${comparison.op} operator`
+      );
+    }
+    return { [field]: { [range]: date } };
+  };
+}
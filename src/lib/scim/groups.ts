@@ -0,0 +1,433 @@
+/**
+ * SCIM Group resources, mapped onto roles from the Role table.
+ *
+ * Each assignable role is a group; its members are the users holding that
+ * role in the organization. Groups cannot be created or renamed through SCIM,
+ * only bound by display name. ADMIN and OWNER are never exposed, matching
+ * what organization admins may grant by hand.
+ */
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { invalidateUserSessions } from '@/lib/auth';
+import { ROLES } from '@/lib/security/index';
+import { logScimEvent, type ScimContext } from './context';
+import { ScimError, ScimNotFoundError } from './errors';
+import {
+  compileScimFilter,
+  parseScimFilter,
+  normalizeScimAttribute,
+  stringAttribute,
+  stringCondition,
+  dateAttribute,
+  type ScimAttributeMapper,
+} from './filter';
+import { parseScimInput, parsePatchOperations } from './patch';
+import type { ScimListParams } from './response';
+import { SCIM_SCHEMAS, getScimResourceUrl } from './schemas';
+
+const NON_GROUP_ROLES: string[] = [ROLES.OWNER, ROLES.ADMIN];
+
+export interface ScimGroup {
+  schemas: string[];
+  id: string;
+  displayName: string;
+  members?: { value: string; display: string; $ref: string }[];
+  meta: {
+    resourceType: 'Group';
+    created: string;
+    lastModified: string;
+    location: string;
+  };
+}
+
+const memberListSchema = z.array(
+  z.object({ value: z.string().min(1) }).passthrough()
+);
+
+const scimGroupSchema = z.object({
+  displayName: z.string().trim().min(1),
+  members: memberListSchema.optional(),
+});
+
+const groupWhere: Prisma.RoleWhereInput = { name: { notIn: NON_GROUP_ROLES } };
+
+const REMOVE_MEMBER_PATH = /^members\[value eq "([^"]+)"\]$/i;
+
+export function isScimGroupRole(roleName: string): boolean {
+  return !NON_GROUP_ROLES.includes(roleName);
+}
+
+function groupSelect(organizationId: string) {
+  return {
+    id: true,
+    name: true,
+    createdAt: true,
+    updatedAt: true,
+    userRoles: {
+      where: { organizationId },
+      select: { user: { select: { id: true, email: true } } },
+      orderBy: { createdAt: 'asc' },
+    },
+  } satisfies Prisma.RoleSelect;
+}
+
+type ScimGroupRecord = Prisma.RoleGetPayload<{
+  select: ReturnType<typeof groupSelect>;
+}>;
+
+function groupFilterAttributes(
+  organizationId: string
+): Record<string, ScimAttributeMapper> {
+  const member: ScimAttributeMapper = (comparison) => {
+    const where = {
+      userRoles: {
+        some: { organizationId, userId: stringCondition(comparison, true) },
+      },
+    };
+    return comparison.op === 'ne' ? { NOT: where } : where;
+  };
+
+  return {
+    id: stringAttribute('id', true),
+    displayname: stringAttribute('name'),
+    members: member,
+    'members.value': member,
+    'meta.created': dateAttribute('createdAt'),
+    'meta.lastmodified': dateAttribute('updatedAt'),
+  };
+}
+
+export function toScimGroup(
+  role: ScimGroupRecord,
+  includeMembers = true
+): ScimGroup {
+  return {
+    schemas: [SCIM_SCHEMAS.group],
+    id: role.id,
+    displayName: role.name,
+    ...(includeMembers && {
+      members: role.userRoles.map(({ user }) => ({
+        value: user.id,
+        display: user.email,
+        $ref: getScimResourceUrl('User', user.id),
+      })),
+    }),
+    meta: {
+      resourceType: 'Group',
+      created: role.createdAt.toISOString(),
+      lastModified: role.updatedAt.toISOString(),
+      location: getScimResourceUrl('Group', role.id),
+    },
+  };
+}
+
+async function findGroup(
+  organizationId: string,
+  groupId: string
+): Promise<ScimGroupRecord> {
+  const role = await prisma.role.findFirst({
+    where: { id: groupId, ...groupWhere },
+    select: groupSelect(organizationId),
+  });
+  if (!role) throw new ScimNotFoundError('Group', groupId);
+  return role;
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+export async function listScimGroups(
+  context: ScimContext,
+  params: ScimListParams,
+  includeMembers = true
+): Promise<{ resources: ScimGroup[]; totalResults: number }> {
+  const where: Prisma.RoleWhereInput = {
+    AND: [
+      groupWhere,
+      params.filter
+        ? compileScimFilter(
+            parseScimFilter(params.filter),
+            groupFilterAttributes(context.organizationId)
+          )
+        : {},
+    ],
+  };
+
+  const [totalResults, roles] = await Promise.all([
+    prisma.role.count({ where }),
+    prisma.role.findMany({
+      where,
+      select: groupSelect(context.organizationId),
+      orderBy: { name: 'asc' },
+      skip: params.startIndex - 1,
+      take: params.count,
+    }),
+  ]);
+
+  return {
+    resources: roles.map((role) => toScimGroup(role, includeMembers)),
+    totalResults,
+  };
+}
+
+export async function getScimGroup(
+  context: ScimContext,
+  groupId: string
+): Promise<ScimGroup> {
+  return toScimGroup(await findGroup(context.organizationId, groupId));
+}
+
+/**
+ * Bind a group to the existing role with the same name and add its members.
+ *
+ * @throws ScimError 400 invalidValue if no assignable role has that name
+ */
+export async function createScimGroup(
+  context: ScimContext,
+  body: unknown
+): Promise<ScimGroup> {
+  const input = parseScimInput(scimGroupSchema, body);
+
+  const role = await prisma.role.findFirst({
+    where: {
+      AND: [
+        groupWhere,
+        { name: { equals: input.displayName, mode: 'insensitive' } },
+      ],
+    },
+    select: groupSelect(context.organizationId),
+  });
+
+  if (!role) {
+    throw new ScimError(
+      400,
+      `Groups map onto existing roles; no assignable role is named "${input.displayName}"`,
+      'invalidValue'
+    );
+  }
+
+  const members = new Set(role.userRoles.map(({ user }) => user.id));
+  input.members?.forEach(({ value }) => members.add(value));
+
+  return setGroupMembers(context, role, members);
+}
+
+/**
+ * Replace a group's members (PUT). The display name cannot change.
+ */
+export async function replaceScimGroup(
+  context: ScimContext,
+  groupId: string,
+  body: unknown
+): Promise<ScimGroup> {
+  const input = parseScimInput(scimGroupSchema, body);
+  const role = await findGroup(context.organizationId, groupId);
+  assertDisplayName(role, input.displayName);
+
+  return setGroupMembers(
+    context,
+    role,
+    new Set(input.members?.map(({ value }) => value))
+  );
+}
+
+export async function patchScimGroup(
+  context: ScimContext,
+  groupId: string,
+  body: unknown
+): Promise<ScimGroup> {
+  const operations = parsePatchOperations(body);
+  const role = await findGroup(context.organizationId, groupId);
+  const members = new Set(role.userRoles.map(({ user }) => user.id));
+
+  for (const { op, path, value } of operations) {
+    const removeMatch = path?.match(REMOVE_MEMBER_PATH);
+
+    if (removeMatch && op === 'remove') {
+      members.delete(removeMatch[1]);
+      continue;
+    }
+
+    const attributes: Record<string, unknown> = path
+      ? { [path]: value }
+      : typeof value === 'object' && value !== null
+        ? (value as Record<string, unknown>)
+        : {};
+
+    if (!path && op === 'remove') {
+      throw new ScimError(400, 'remove requires a path', 'noTarget');
+    }
+
+    for (const [attribute, attributeValue] of Object.entries(attributes)) {
+      switch (normalizeScimAttribute(attribute)) {
+        case 'members': {
+          const ids =
+            attributeValue === undefined
+              ? []
+              : parseScimInput(memberListSchema, attributeValue).map(
+                  (member) => member.value
+                );
+          if (op === 'replace') members.clear();
+          if (op === 'remove') {
+            // Without a value, remove clears the whole list
+            if (attributeValue === undefined) members.clear();
+            ids.forEach((id) => members.delete(id));
+          } else {
+            ids.forEach((id) => members.add(id));
+          }
+          break;
+        }
+        case 'displayname':
+          if (op === 'remove' || typeof attributeValue !== 'string') {
+            throw new ScimError(
+              400,
+              'displayName cannot be removed',
+              'mutability'
+            );
+          }
+          assertDisplayName(role, attributeValue);
+          break;
+        case 'externalid':
+          // Not stored for groups
+          break;
+        default:
+          throw new ScimError(
+            400,
+            `Unsupported group attribute "${attribute}"`,
+            'invalidPath'
+          );
+      }
+    }
+  }
+
+  return setGroupMembers(context, role, members);
+}
+
+/**
+ * Remove every member from the group. The role itself is kept.
+ */
+export async function deleteScimGroup(
+  context: ScimContext,
+  groupId: string
+): Promise<void> {
+  const role = await findGroup(context.organizationId, groupId);
+  await setGroupMembers(context, role, new Set());
+}
+
+// ============================================================================
+// Membership
+// ============================================================================
+
+function assertDisplayName(role: ScimGroupRecord, displayName: string): void {
+  if (displayName.trim().toLowerCase() !== role.name.toLowerCase()) {
+    throw new ScimError(
+      400,
+      'Groups map onto roles and cannot be renamed',
+      'mutability'
+    );
+  }
+}
+
+/**
+ * Grant or revoke the role so exactly the given users hold it in the
+ * organization. Members losing their last role fall back to ROLE_USER so
+ * they stay in the organization; DELETE /Users removes them.
+ *
+ * @throws ScimError 400 invalidValue if a user is not an organization member
+ */
+async function setGroupMembers(
+  context: ScimContext,
+  role: ScimGroupRecord,
+  members: Set<string>
+): Promise<ScimGroup> {
+  const { organizationId } = context;
+  const current = new Set(role.userRoles.map(({ user }) => user.id));
+  const added = [...members].filter((id) => !current.has(id));
+  const removed = [...current].filter((id) => !members.has(id));
+
+  if (added.length === 0 && removed.length === 0) {
+    return toScimGroup(role);
+  }
+
+  if (added.length > 0) {
+    const known = await prisma.user.findMany({
+      where: { id: { in: added }, userRoles: { some: { organizationId } } },
+      select: { id: true },
+    });
+    const unknown = added.find((id) => !known.some((user) => user.id === id));
+    if (unknown) {
+      throw new ScimError(
+        400,
+        `User ${unknown} is not a member of this organization`,
+        'invalidValue'
+      );
+    }
+  }
+
+  // Members whose only role in the organization is this one
+  const remainingRoles = await prisma.userRole.findMany({
+    where: {
+      organizationId,
+      userId: { in: removed },
+      roleId: { not: role.id },
+    },
+    select: { userId: true },
+  });
+  const losingMembership = removed.filter(
+    (id) => !remainingRoles.some((userRole) => userRole.userId === id)
+  );
+
+  const fallbackRole =
+    losingMembership.length > 0
+      ? await prisma.role.findUnique({
+          where: { name: ROLES.USER },
+          select: { id: true },
+        })
+      : null;
+  // Removing ROLE_USER itself from someone with no other role is a no-op
+  const revoked =
+    fallbackRole?.id === role.id
+      ? removed.filter((id) => !losingMembership.includes(id))
+      : removed;
+
+  await prisma.$transaction([
+    prisma.userRole.createMany({
+      data: added.map((userId) => ({
+        userId,
+        roleId: role.id,
+        organizationId,
+      })),
+      skipDuplicates: true,
+    }),
+    prisma.userRole.deleteMany({
+      where: { organizationId, roleId: role.id, userId: { in: revoked } },
+    }),
+    ...(fallbackRole && fallbackRole.id !== role.id
+      ? [
+          prisma.userRole.createMany({
+            data: losingMembership.map((userId) => ({
+              userId,
+              roleId: fallbackRole.id,
+              organizationId,
+            })),
+            skipDuplicates: true,
+          }),
+        ]
+      : []),
+  ]);
+
+  // Roles changed, so force re-authentication
+  const changed = [...added, ...revoked];
+  await Promise.all(changed.map((userId) => invalidateUserSessions(userId)));
+
+  await logScimEvent(context, 'SCIM_GROUP_MEMBERS_UPDATED', undefined, {
+    groupId: role.id,
+    groupName: role.name,
+    added,
+    removed: revoked,
+  });
+
+  return toScimGroup(await findGroup(organizationId, role.id));
+}
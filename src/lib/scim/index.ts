@@ -0,0 +1,45 @@
+export {
+  SCIM_SCHEMAS,
+  SCIM_CONTENT_TYPE,
+  getServiceProviderConfig,
+} from './schemas';
+export { ScimError, ScimNotFoundError } from './errors';
+export type { ScimErrorType } from './errors';
+
+export { generateScimToken, hashScimToken } from './tokens';
+export type { GeneratedScimToken } from './tokens';
+
+export { authenticateScimRequest, logScimEvent } from './context';
+export type { ScimContext } from './context';
+
+export {
+  scimJson,
+  scimErrorResponse,
+  readScimBody,
+  parseListParams,
+  toListResponse,
+} from './response';
+export type { ScimListParams, ScimListResponse } from './response';
+
+export { parseScimFilter, compileScimFilter } from './filter';
+export type { ScimFilter, ScimComparison } from './filter';
+
+export {
+  listScimUsers,
+  getScimUser,
+  createScimUser,
+  replaceScimUser,
+  patchScimUser,
+  deleteScimUser,
+} from './users';
+export type { ScimUser } from './users';
+
+export {
+  listScimGroups,
+  getScimGroup,
+  createScimGroup,
+  replaceScimGroup,
+  patchScimGroup,
+  deleteScimGroup,
+} from './groups';
+export type { ScimGroup } from './groups';
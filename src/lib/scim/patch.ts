@@ -0,0 +1,86 @@
+/**
+ * SCIM request body parsing, including PATCH operations (RFC 7644 Section 3.5.2).
+ */
+import { z } from 'zod';
+import { ScimError } from './errors';
+import { SCIM_SCHEMAS } from './schemas';
+
+export type ScimPatchOperation = {
+  op: 'add' | 'replace' | 'remove';
+  path?: string;
+  value?: unknown;
+};
+
+const patchRequestSchema = z.object({
+  schemas: z.array(z.string()).optional(),
+  Operations: z
+    .array(
+      z.object({
+        // Some clients send "Replace" or "Add"
+        op: z
+          .string()
+          .transform((op) => op.toLowerCase())
+          .pipe(z.enum(['add', 'replace', 'remove'])),
+        path: z.string().min(1).optional(),
+        value: z.unknown().optional(),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Validate a request body, reporting the first problem as a SCIM error.
+ *
+ * @throws ScimError 400 invalidValue
+ */
+export function parseScimInput<T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown
+): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    throw new ScimError(
+      400,
+      path ? `${path}: ${issue.message}` : issue.message,
+      'invalidValue'
+    );
+  }
+  return result.data;
+}
+
+/**
+ * @throws ScimError 400 invalidSyntax for malformed PatchOp messages
+ */
+export function parsePatchOperations(body: unknown): ScimPatchOperation[] {
+  const result = patchRequestSchema.safeParse(body);
+  if (
+    !result.success ||
+    (result.data.schemas && !result.data.schemas.includes(SCIM_SCHEMAS.patchOp))
+  ) {
+    throw new ScimError(400, 'Invalid PatchOp request', 'invalidSyntax');
+  }
+  return result.data.Operations;
+}
+
+/**
+ * Booleans arrive as strings from some clients, e.g. "False"
+ */
+export function toScimBoolean(value: unknown, attribute: string): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const lower = value.toLowerCase();
+    if (lower === 'true') return true;
+    if (lower === 'false') return false;
+  }
+  throw new ScimError(400, `${attribute} must be a boolean`, 'invalidValue');
+}
+
+export const scimBooleanSchema = z.preprocess(
+  (value) =>
+    typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())
+      ? value.toLowerCase() === 'true'
+      : value,
+  z.boolean()
+);
@@ -0,0 +1,102 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { SCIM_CONTENT_TYPE, SCIM_SCHEMAS } from './schemas';
+import { ScimError } from './errors';
+
+export interface ScimListParams {
+  filter?: string;
+  /** 1-based index of the first result */
+  startIndex: number;
+  count: number;
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+export function scimJson(
+  body: unknown,
+  status = 200,
+  headers?: Record<string, string>
+): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: { 'Content-Type': SCIM_CONTENT_TYPE, ...headers },
+  });
+}
+
+/**
+ * Render an error as a SCIM error message. Unexpected errors are logged and
+ * reported as 500 without details.
+ */
+export function scimErrorResponse(error: unknown): NextResponse {
+  if (error instanceof ScimError) {
+    return scimJson(
+      {
+        schemas: [SCIM_SCHEMAS.error],
+        status: String(error.status),
+        ...(error.scimType && { scimType: error.scimType }),
+        detail: error.message,
+      },
+      error.status
+    );
+  }
+
+  console.error('SCIM error:', error);
+  return scimJson(
+    {
+      schemas: [SCIM_SCHEMAS.error],
+      status: '500',
+      detail: 'An internal server error occurred',
+    },
+    500
+  );
+}
+
+/**
+ * @throws ScimError 400 invalidSyntax if the body is not JSON
+ */
+export async function readScimBody(req: NextRequest): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    throw new ScimError(400, 'Request body must be JSON', 'invalidSyntax');
+  }
+}
+
+/**
+ * Read filter and pagination query parameters (RFC 7644 Section 3.4.2).
+ * Out-of-range values are clamped rather than rejected, as the RFC asks.
+ */
+export function parseListParams(searchParams: URLSearchParams): ScimListParams {
+  const { defaultPageSize, maxPageSize } = SECURITY_CONFIG.scim;
+
+  const startIndex = parseInt(searchParams.get('startIndex') ?? '', 10);
+  const count = parseInt(searchParams.get('count') ?? '', 10);
+
+  return {
+    filter: searchParams.get('filter') || undefined,
+    startIndex: Number.isNaN(startIndex) ? 1 : Math.max(startIndex, 1),
+    count: Number.isNaN(count)
+      ? defaultPageSize
+      : Math.min(Math.max(count, 0), maxPageSize),
+  };
+}
+
+export function toListResponse<T>(
+  resources: T[],
+  totalResults: number,
+  startIndex: number
+): ScimListResponse<T> {
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * SCIM 2.0 schema URNs and the service provider configuration (RFC 7643).
+ */
+import { env } from '@/lib/env';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  serviceProviderConfig:
+    'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+} as const;
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+export type ScimResourceType = 'User' | 'Group';
+
+export function getScimResourceUrl(
+  resourceType: ScimResourceType,
+  id: string
+): string {
+  return `${env.NEXT_PUBLIC_APP_URL}/scim/v2/${resourceType}s/${id}`;
+}
+
+export function getServiceProviderConfig() {
+  return {
+    schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: {
+      supported: true,
+      maxResults: SECURITY_CONFIG.scim.maxPageSize,
+    },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: 'oauthbearertoken',
+        name: 'Bearer Token',
+        description:
+          'Organization SCIM token created in the organization settings',
+        primary: true,
+      },
+    ],
+    meta: {
+      resourceType: 'ServiceProviderConfig',
+      location: `${env.NEXT_PUBLIC_APP_URL}/scim/v2/ServiceProviderConfig`,
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { randomBytes, createHash } from 'crypto';
+
+const SCIM_TOKEN_PREFIX = 'scim_';
+const SCIM_TOKEN_BYTES = 32;
+
+export interface GeneratedScimToken {
+  token: string; // Full token (shown once)
+  tokenHash: string; // SHA-256 hash for storage
+  tokenPrefix: string; // First 12 chars for identification
+}
+
+/**
+ * Generate a new organization SCIM token
+ */
+export function generateScimToken(): GeneratedScimToken {
+  const randomPart = randomBytes(SCIM_TOKEN_BYTES).toString('base64url');
+  const token = `${SCIM_TOKEN_PREFIX}${randomPart}`;
+
+  return {
+    token,
+    tokenHash: hashScimToken(token),
+    tokenPrefix: token.substring(0, 12),
+  };
+}
+
+/**
+ * Hash a SCIM token using SHA-256
+ */
+export function hashScimToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function isValidScimTokenFormat(token: string): boolean {
+  return token.startsWith(SCIM_TOKEN_PREFIX) && token.length >= 40;
+}
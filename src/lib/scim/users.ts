@@ -0,0 +1,618 @@
+/**
+ * SCIM User resources, mapped onto User and the organization's UserRoles.
+ *
+ * A user is in scope when they hold any role in the organization. userName
+ * is the account email. Accounts created through SCIM (or adopted because
+ * their email is on a domain the organization verified) get a ScimIdentity,
+ * which holds the client's externalId and allows email changes.
+ */
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { invalidateUserSessions } from '@/lib/auth';
+import { isEmailOnVerifiedDomain } from '@/lib/auth/sso';
+import { changeUserStatus } from '@/lib/auth/user-status';
+import { ROLES } from '@/lib/security/index';
+import { ValidationError } from '@/services/auth.errors';
+import { logScimEvent, type ScimContext } from './context';
+import { ScimError, ScimNotFoundError } from './errors';
+import {
+  compileScimFilter,
+  parseScimFilter,
+  normalizeScimAttribute,
+  stringAttribute,
+  stringCondition,
+  booleanAttribute,
+  dateAttribute,
+  type ScimAttributeMapper,
+} from './filter';
+import { isScimGroupRole } from './groups';
+import {
+  parseScimInput,
+  parsePatchOperations,
+  scimBooleanSchema,
+  toScimBoolean,
+} from './patch';
+import type { ScimListParams } from './response';
+import { SCIM_SCHEMAS, getScimResourceUrl } from './schemas';
+
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  userName: string;
+  name: { givenName?: string; familyName?: string; formatted?: string };
+  displayName?: string;
+  emails: { value: string; type: 'work'; primary: true }[];
+  active: boolean;
+  groups: { value: string; display: string; $ref: string }[];
+  meta: {
+    resourceType: 'User';
+    created: string;
+    lastModified: string;
+    location: string;
+  };
+}
+
+interface UserChanges {
+  email?: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  isActive?: boolean;
+  externalId?: string | null;
+}
+
+/** Shown to users the directory deactivated when they try to sign in */
+const SCIM_DEACTIVATION_REASON = 'Deactivated by your organization directory';
+
+const scimUserSchema = z.object({
+  userName: z.string().trim().email('userName must be an email address'),
+  externalId: z.string().min(1).nullish(),
+  name: z
+    .object({
+      givenName: z.string().nullish(),
+      familyName: z.string().nullish(),
+    })
+    .nullish(),
+  active: scimBooleanSchema.optional(),
+});
+
+function scimUserSelect(organizationId: string) {
+  return {
+    id: true,
+    email: true,
+    firstName: true,
+    lastName: true,
+    isActive: true,
+    createdAt: true,
+    updatedAt: true,
+    userRoles: {
+      where: { organizationId },
+      select: { role: { select: { id: true, name: true } } },
+    },
+    scimIdentities: {
+      where: { organizationId },
+      select: { externalId: true },
+    },
+  } satisfies Prisma.UserSelect;
+}
+
+type ScimUserRecord = Prisma.UserGetPayload<{
+  select: ReturnType<typeof scimUserSelect>;
+}>;
+
+function memberOf(organizationId: string): Prisma.UserWhereInput {
+  return { userRoles: { some: { organizationId } } };
+}
+
+function userFilterAttributes(
+  organizationId: string
+): Record<string, ScimAttributeMapper> {
+  const email = stringAttribute('email');
+  return {
+    id: stringAttribute('id', true),
+    username: email,
+    emails: email,
+    'emails.value': email,
+    'name.givenname': stringAttribute('firstName'),
+    'name.familyname': stringAttribute('lastName'),
+    active: booleanAttribute('isActive'),
+    externalid: (comparison) => {
+      const where = {
+        scimIdentities: {
+          some: {
+            organizationId,
+            externalId: stringCondition(comparison, true),
+          },
+        },
+      };
+      return comparison.op === 'ne' ? { NOT: where } : where;
+    },
+    'meta.created': dateAttribute('createdAt'),
+    'meta.lastmodified': dateAttribute('updatedAt'),
+  };
+}
+
+export function toScimUser(user: ScimUserRecord): ScimUser {
+  const externalId = user.scimIdentities[0]?.externalId;
+  const formatted = [user.firstName, user.lastName].filter(Boolean).join(' ');
+
+  return {
+    schemas: [SCIM_SCHEMAS.user],
+    id: user.id,
+    ...(externalId && { externalId }),
+    userName: user.email,
+    name: {
+      ...(user.firstName && { givenName: user.firstName }),
+      ...(user.lastName && { familyName: user.lastName }),
+      ...(formatted && { formatted }),
+    },
+    ...(formatted && { displayName: formatted }),
+    emails: [{ value: user.email, type: 'work', primary: true }],
+    active: user.isActive,
+    groups: user.userRoles
+      .filter(({ role }) => isScimGroupRole(role.name))
+      .map(({ role }) => ({
+        value: role.id,
+        display: role.name,
+        $ref: getScimResourceUrl('Group', role.id),
+      })),
+    meta: {
+      resourceType: 'User',
+      created: user.createdAt.toISOString(),
+      lastModified: user.updatedAt.toISOString(),
+      location: getScimResourceUrl('User', user.id),
+    },
+  };
+}
+
+async function findMember(
+  organizationId: string,
+  userId: string
+): Promise<ScimUserRecord> {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, ...memberOf(organizationId) },
+    select: scimUserSelect(organizationId),
+  });
+  if (!user) throw new ScimNotFoundError('User', userId);
+  return user;
+}
+
+/**
+ * Owners and platform administrators are managed by hand, so a SCIM client
+ * cannot lock them out.
+ */
+async function assertManageable(user: ScimUserRecord): Promise<void> {
+  const isOwner = user.userRoles.some(({ role }) => role.name === ROLES.OWNER);
+  const platformAdmin = isOwner
+    ? null
+    : await prisma.userRole.findFirst({
+        where: {
+          userId: user.id,
+          organizationId: null,
+          role: { name: ROLES.ADMIN },
+        },
+        select: { id: true },
+      });
+
+  if (isOwner || platformAdmin) {
+    throw new ScimError(
+      403,
+      'Organization owners and platform administrators cannot be managed through SCIM'
+    );
+  }
+}
+
+async function assertEmailAvailable(email: string, userId?: string) {
+  const existing = await prisma.user.findFirst({
+    where: {
+      email: { equals: email, mode: 'insensitive' },
+      ...(userId && { id: { not: userId } }),
+    },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ScimError(409, 'userName is already in use', 'uniqueness');
+  }
+}
+
+async function assertExternalIdAvailable(
+  organizationId: string,
+  externalId: string | null | undefined,
+  userId?: string
+) {
+  if (!externalId) return;
+
+  const existing = await prisma.scimIdentity.findFirst({
+    where: {
+      organizationId,
+      externalId,
+      ...(userId && { userId: { not: userId } }),
+    },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ScimError(409, 'externalId is already in use', 'uniqueness');
+  }
+}
+
+async function getMemberRoleId(): Promise<string> {
+  const role = await prisma.role.findUnique({
+    where: { name: ROLES.USER },
+    select: { id: true },
+  });
+  if (!role) throw new Error(`${ROLES.USER} role is missing`);
+  return role.id;
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+export async function listScimUsers(
+  context: ScimContext,
+  params: ScimListParams
+): Promise<{ resources: ScimUser[]; totalResults: number }> {
+  const where: Prisma.UserWhereInput = {
+    AND: [
+      memberOf(context.organizationId),
+      params.filter
+        ? compileScimFilter(
+            parseScimFilter(params.filter),
+            userFilterAttributes(context.organizationId)
+          )
+        : {},
+    ],
+  };
+
+  const [totalResults, users] = await Promise.all([
+    prisma.user.count({ where }),
+    prisma.user.findMany({
+      where,
+      select: scimUserSelect(context.organizationId),
+      orderBy: { createdAt: 'asc' },
+      skip: params.startIndex - 1,
+      take: params.count,
+    }),
+  ]);
+
+  return { resources: users.map(toScimUser), totalResults };
+}
+
+export async function getScimUser(
+  context: ScimContext,
+  userId: string
+): Promise<ScimUser> {
+  return toScimUser(await findMember(context.organizationId, userId));
+}
+
+/**
+ * Provision a user. An existing account can only be added when its email
+ * is on a domain the organization verified.
+ *
+ * @throws ScimError 409 uniqueness
+ */
+export async function createScimUser(
+  context: ScimContext,
+  body: unknown
+): Promise<ScimUser> {
+  const input = parseScimInput(scimUserSchema, body);
+  const { organizationId } = context;
+
+  const existing = await prisma.user.findFirst({
+    where: { email: { equals: input.userName, mode: 'insensitive' } },
+    select: scimUserSelect(organizationId),
+  });
+
+  if (existing && existing.userRoles.length > 0) {
+    throw new ScimError(
+      409,
+      'User already exists in this organization',
+      'uniqueness'
+    );
+  }
+  if (
+    existing &&
+    !(await isEmailOnVerifiedDomain(existing.email, organizationId))
+  ) {
+    throw new ScimError(409, 'userName is already in use', 'uniqueness');
+  }
+
+  await assertExternalIdAvailable(organizationId, input.externalId);
+  const roleId = await getMemberRoleId();
+
+  const user = existing
+    ? await prisma.user.update({
+        where: { id: existing.id },
+        data: {
+          userRoles: { create: { roleId, organizationId } },
+          scimIdentities: {
+            create: { organizationId, externalId: input.externalId },
+          },
+        },
+        select: scimUserSelect(organizationId),
+      })
+    : await prisma.user.create({
+        data: {
+          email: input.userName,
+          firstName: input.name?.givenName || null,
+          lastName: input.name?.familyName || null,
+          isActive: input.active ?? true,
+          ...(input.active === false && {
+            status: 'SUSPENDED',
+            statusReason: SCIM_DEACTIVATION_REASON,
+          }),
+          // The organization's directory vouches for the address
+          emailVerified: true,
+          emailVerifiedAt: new Date(),
+          userRoles: { create: { roleId, organizationId } },
+          scimIdentities: {
+            create: { organizationId, externalId: input.externalId },
+          },
+        },
+        select: scimUserSelect(organizationId),
+      });
+
+  await logScimEvent(context, 'SCIM_USER_PROVISIONED', user.id, {
+    existingAccount: Boolean(existing),
+  });
+
+  return toScimUser(user);
+}
+
+/**
+ * Replace a user's attributes (PUT). Omitting "active" keeps the status.
+ */
+export async function replaceScimUser(
+  context: ScimContext,
+  userId: string,
+  body: unknown
+): Promise<ScimUser> {
+  const input = parseScimInput(scimUserSchema, body);
+
+  return applyUserChanges(context, userId, {
+    email: input.userName,
+    firstName: input.name?.givenName || null,
+    lastName: input.name?.familyName || null,
+    isActive: input.active,
+    externalId: input.externalId ?? null,
+  });
+}
+
+/**
+ * Apply PATCH operations. Attributes this service does not store, such as
+ * title or enterprise extension fields, are ignored.
+ */
+export async function patchScimUser(
+  context: ScimContext,
+  userId: string,
+  body: unknown
+): Promise<ScimUser> {
+  const changes: UserChanges = {};
+
+  for (const operation of parsePatchOperations(body)) {
+    if (operation.op === 'remove') {
+      if (!operation.path) {
+        throw new ScimError(400, 'remove requires a path', 'noTarget');
+      }
+      setUserAttribute(changes, operation.path, null);
+    } else if (operation.path) {
+      setUserAttribute(changes, operation.path, operation.value);
+    } else if (isObject(operation.value)) {
+      for (const [path, value] of Object.entries(operation.value)) {
+        setUserAttribute(changes, path, value);
+      }
+    } else {
+      throw new ScimError(
+        400,
+        `${operation.op} without a path requires an object value`,
+        'invalidValue'
+      );
+    }
+  }
+
+  return applyUserChanges(context, userId, changes);
+}
+
+/**
+ * Remove the user from the organization and sign them out. Accounts the
+ * organization provisioned are also deactivated once they belong nowhere else.
+ */
+export async function deleteScimUser(
+  context: ScimContext,
+  userId: string
+): Promise<void> {
+  const { organizationId } = context;
+  const user = await findMember(organizationId, userId);
+  await assertManageable(user);
+
+  const provisioned = user.scimIdentities.length > 0;
+
+  const deactivated = await prisma.$transaction(async (tx) => {
+    await tx.userRole.deleteMany({ where: { userId, organizationId } });
+    await tx.scimIdentity.deleteMany({ where: { userId, organizationId } });
+
+    const otherMemberships = await tx.userRole.count({
+      where: { userId, organizationId: { not: null } },
+    });
+    if (!provisioned || otherMemberships > 0 || !user.isActive) return false;
+
+    await changeUserStatus(
+      userId,
+      'SUSPENDED',
+      { reason: SCIM_DEACTIVATION_REASON },
+      tx
+    );
+    return true;
+  });
+
+  const sessionsInvalidated = await invalidateUserSessions(userId);
+
+  await logScimEvent(context, 'SCIM_USER_DEPROVISIONED', userId, {
+    deactivated,
+    sessionsInvalidated,
+  });
+}
+
+// ============================================================================
+// Changes
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, attribute: string): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value !== 'string') {
+    throw new ScimError(400, `${attribute} must be a string`, 'invalidValue');
+  }
+  return value;
+}
+
+function setUserAttribute(
+  changes: UserChanges,
+  path: string,
+  value: unknown
+): void {
+  switch (normalizeScimAttribute(path)) {
+    case 'username': {
+      const email = optionalString(value, 'userName');
+      const parsed = z.string().trim().email().safeParse(email);
+      if (!parsed.success) {
+        throw new ScimError(
+          400,
+          'userName must be an email address',
+          email ? 'invalidValue' : 'mutability'
+        );
+      }
+      changes.email = parsed.data;
+      break;
+    }
+    case 'externalid':
+      changes.externalId = optionalString(value, 'externalId');
+      break;
+    case 'active':
+      if (value === null) {
+        throw new ScimError(400, 'active cannot be removed', 'mutability');
+      }
+      changes.isActive = toScimBoolean(value, 'active');
+      break;
+    case 'name':
+      if (value !== null && !isObject(value)) {
+        throw new ScimError(400, 'name must be an object', 'invalidValue');
+      }
+      changes.firstName = optionalString(value?.givenName, 'name.givenName');
+      changes.lastName = optionalString(value?.familyName, 'name.familyName');
+      break;
+    case 'name.givenname':
+      changes.firstName = optionalString(value, 'name.givenName');
+      break;
+    case 'name.familyname':
+      changes.lastName = optionalString(value, 'name.familyName');
+      break;
+    default:
+    // The primary email always mirrors userName; other attributes are not stored
+  }
+}
+
+async function applyUserChanges(
+  context: ScimContext,
+  userId: string,
+  changes: UserChanges
+): Promise<ScimUser> {
+  const { organizationId } = context;
+  const user = await findMember(organizationId, userId);
+  await assertManageable(user);
+
+  const identity = user.scimIdentities[0];
+  const data: Prisma.UserUpdateInput = {};
+
+  if (
+    changes.email !== undefined &&
+    changes.email.toLowerCase() !== user.email.toLowerCase()
+  ) {
+    // Changing the login email of someone else's account would hand it over
+    if (!identity) {
+      throw new ScimError(
+        400,
+        'userName can only be changed for users provisioned by this organization',
+        'mutability'
+      );
+    }
+    await assertEmailAvailable(changes.email, userId);
+    data.email = changes.email;
+  }
+  if (changes.firstName !== undefined && changes.firstName !== user.firstName) {
+    data.firstName = changes.firstName;
+  }
+  if (changes.lastName !== undefined && changes.lastName !== user.lastName) {
+    data.lastName = changes.lastName;
+  }
+  const activeChanged =
+    changes.isActive !== undefined && changes.isActive !== user.isActive;
+
+  // externalId is only stored for users the organization provisioned
+  const externalIdChanged =
+    identity !== undefined &&
+    changes.externalId !== undefined &&
+    changes.externalId !== identity.externalId;
+  if (externalIdChanged) {
+    await assertExternalIdAvailable(organizationId, changes.externalId, userId);
+    data.scimIdentities = {
+      update: {
+        where: { organizationId_userId: { organizationId, userId } },
+        data: { externalId: changes.externalId },
+      },
+    };
+  }
+
+  if (Object.keys(data).length === 0 && !activeChanged) {
+    return toScimUser(user);
+  }
+
+  let updated: ScimUserRecord;
+  try {
+    updated = await prisma.$transaction(async (tx) => {
+      if (activeChanged) {
+        await changeUserStatus(
+          userId,
+          changes.isActive ? 'ACTIVE' : 'SUSPENDED',
+          { reason: changes.isActive ? null : SCIM_DEACTIVATION_REASON },
+          tx
+        );
+      }
+      return tx.user.update({
+        where: { id: userId },
+        data,
+        select: scimUserSelect(organizationId),
+      });
+    });
+  } catch (error) {
+    // e.g. reactivating an account that is scheduled for deletion
+    if (error instanceof ValidationError) {
+      throw new ScimError(400, error.message, 'mutability');
+    }
+    throw error;
+  }
+
+  if (activeChanged && !changes.isActive) {
+    const sessionsInvalidated = await invalidateUserSessions(userId);
+    await logScimEvent(context, 'SCIM_USER_DEACTIVATED', userId, {
+      sessionsInvalidated,
+    });
+  } else if (activeChanged) {
+    await logScimEvent(context, 'SCIM_USER_REACTIVATED', userId);
+  }
+
+  const fields = Object.keys(data);
+  if (fields.length > 0) {
+    await logScimEvent(context, 'SCIM_USER_UPDATED', userId, {
+      fields: fields.map((field) =>
+        field === 'scimIdentities' ? 'externalId' : field
+      ),
+    });
+  }
+
+  return toScimUser(updated);
+}
@@ -1,7 +1,12 @@
-import bcrypt from 'bcryptjs';
 import { SignJWT, jwtVerify, JWTPayload as JoseJWTPayload } from 'jose';
-import { JWTPayload, RefreshTokenPayload, PlatformRole } from '@/types/auth';
+import {
+  JWTPayload,
+  RefreshTokenPayload,
+  PlatformRole,
+  OAuthAccessTokenPayload,
+} from '@/types/auth';
 import { env } from './env';
+import { SECURITY_CONFIG } from './config/security';
 
 /**
  * Pattern for valid role names in JWT tokens.
@@ -59,6 +64,22 @@ function isValidAccessTokenPayload(
   );
 }
 
+function isValidOAuthAccessTokenPayload(
+  payload: JoseJWTPayload
+): payload is JoseJWTPayload & {
+  sub: string;
+  client_id: string;
+  scope: string;
+  jti: string;
+} {
+  return (
+    typeof payload.sub === 'string' &&
+    typeof payload.client_id === 'string' &&
+    typeof payload.scope === 'string' &&
+    typeof payload.jti === 'string'
+  );
+}
+
 function isValidRefreshTokenPayload(
   payload: JoseJWTPayload
 ): payload is JoseJWTPayload & {
@@ -69,21 +90,9 @@ function isValidRefreshTokenPayload(
 }
 
 // Cache encoded secrets for jose
-let cachedJwtSecret: Uint8Array | null = null;
-let cachedJwtSecretValue: string | null = null;
 let cachedRefreshSecret: Uint8Array | null = null;
 let cachedRefreshSecretValue: string | null = null;
 
-function getJwtSecret(): Uint8Array {
-  const secret = env.JWT_SECRET as string;
-  if (cachedJwtSecret && cachedJwtSecretValue === secret) {
-    return cachedJwtSecret;
-  }
-  cachedJwtSecretValue = secret;
-  cachedJwtSecret = new TextEncoder().encode(secret);
-  return cachedJwtSecret;
-}
-
 function getRefreshSecret(): Uint8Array {
   const secret = env.JWT_REFRESH_SECRET as string;
   if (cachedRefreshSecret && cachedRefreshSecretValue === secret) {
@@ -94,6 +103,12 @@ function getRefreshSecret(): Uint8Array {
   return cachedRefreshSecret;
 }
 
+// Signing keys are stored in the database. Loaded lazily because this module
+// is also imported by client components.
+function getSigningKeys() {
+  return import('./signing-keys');
+}
+
 // Dynamic crypto import for Edge Runtime compatibility
 async function getCrypto() {
   if (typeof window !== 'undefined') {
@@ -127,28 +142,22 @@ async function getCrypto() {
   }
 }
 
-// Password hashing
-export async function hashPassword(password: string): Promise<string> {
-  const saltRounds = 12;
-  return bcrypt.hash(password, saltRounds);
-}
-
-export async function verifyPassword(
-  password: string,
-  hash: string
-): Promise<boolean> {
-  return bcrypt.compare(password, hash);
-}
+// Password hashing (algorithm and parameters are recorded in the hash)
+export { hashPassword, verifyPassword } from './auth/password-hashing';
 
 // JWT token utilities
-// Note: JWT_SECRET and JWT_REFRESH_SECRET are validated by env module.
-// In production they are required; in development permissive parsing is used.
+// Access tokens are signed with the current asymmetric signing key, so other
+// services can verify them against /.well-known/jwks.json. Refresh tokens are
+// only ever read by this app and use JWT_REFRESH_SECRET (validated by the env
+// module).
 export async function generateAccessToken(payload: {
   userId: string;
   email: string;
   role: PlatformRole;
 }): Promise<string> {
   const crypto = await getCrypto();
+  const { getSigningKey } = await getSigningKeys();
+  const key = await getSigningKey();
 
   return new SignJWT({
     sub: payload.userId,
@@ -156,12 +165,12 @@ export async function generateAccessToken(payload: {
     role: payload.role,
     jti: crypto.randomUUID(),
   })
-    .setProtectedHeader({ alg: 'HS256' })
+    .setProtectedHeader({ alg: key.algorithm, kid: key.kid })
     .setIssuedAt()
     .setExpirationTime('15m')
     .setIssuer('soclestack')
     .setAudience('soclestack-users')
-    .sign(getJwtSecret());
+    .sign(key.privateKey);
 }
 
 export async function generateRefreshToken(payload: {
@@ -175,7 +184,7 @@ export async function generateRefreshToken(payload: {
   })
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuedAt()
-    .setExpirationTime('7d')
+    .setExpirationTime(`${SECURITY_CONFIG.refreshToken.lifetimeDays}d`)
     .setIssuer('soclestack')
     .setAudience('soclestack-refresh')
     .sign(getRefreshSecret());
@@ -183,9 +192,11 @@ export async function generateRefreshToken(payload: {
 
 export async function verifyAccessToken(token: string): Promise<JWTPayload> {
   try {
-    const { payload } = await jwtVerify(token, getJwtSecret(), {
+    const { getVerificationKey, SIGNING_ALGORITHMS } = await getSigningKeys();
+    const { payload } = await jwtVerify(token, getVerificationKey, {
       issuer: 'soclestack',
       audience: 'soclestack-users',
+      algorithms: [...SIGNING_ALGORITHMS],
     });
 
     if (!isValidAccessTokenPayload(payload)) {
@@ -229,6 +240,104 @@ export async function verifyRefreshToken(
   }
 }
 
+// OAuth authorization server tokens
+// Signed with the same keys as access tokens; client apps verify them against
+// the JWKS advertised in the discovery document.
+
+/**
+ * Issuer identifier of the authorization server (the app's public URL).
+ */
+export function getOAuthIssuer(): string {
+  return env.NEXT_PUBLIC_APP_URL;
+}
+
+/**
+ * Issue an access token (RFC 9068 JWT profile) to an OAuth client.
+ * The subject is the user, or the client itself for client credentials.
+ */
+export async function generateOAuthAccessToken(payload: {
+  subject: string;
+  clientId: string;
+  scopes: string[];
+}): Promise<string> {
+  const crypto = await getCrypto();
+  const { getSigningKey } = await getSigningKeys();
+  const key = await getSigningKey();
+  const issuer = getOAuthIssuer();
+
+  return new SignJWT({
+    client_id: payload.clientId,
+    scope: payload.scopes.join(' '),
+    jti: crypto.randomUUID(),
+  })
+    .setProtectedHeader({ alg: key.algorithm, kid: key.kid, typ: 'at+jwt' })
+    .setSubject(payload.subject)
+    .setIssuedAt()
+    .setExpirationTime(
+      `${SECURITY_CONFIG.oauthServer.accessTokenExpirySeconds}s`
+    )
+    .setIssuer(issuer)
+    .setAudience(issuer)
+    .sign(key.privateKey);
+}
+
+export async function verifyOAuthAccessToken(
+  token: string
+): Promise<OAuthAccessTokenPayload> {
+  try {
+    const { getVerificationKey, SIGNING_ALGORITHMS } = await getSigningKeys();
+    const issuer = getOAuthIssuer();
+    const { payload } = await jwtVerify(token, getVerificationKey, {
+      issuer,
+      audience: issuer,
+      typ: 'at+jwt', // Rejects ID tokens presented as access tokens
+      algorithms: [...SIGNING_ALGORITHMS],
+    });
+
+    if (!isValidOAuthAccessTokenPayload(payload)) {
+      throw new Error('Invalid access token payload');
+    }
+
+    return {
+      sub: payload.sub,
+      client_id: payload.client_id,
+      scope: payload.scope,
+      jti: payload.jti,
+      iat: payload.iat!,
+      exp: payload.exp!,
+    };
+  } catch {
+    throw new Error('Invalid access token');
+  }
+}
+
+/**
+ * Issue an OpenID Connect ID token for a client.
+ */
+export async function generateIdToken(payload: {
+  userId: string;
+  clientId: string;
+  authTime: Date;
+  nonce?: string;
+  claims?: Record<string, unknown>;
+}): Promise<string> {
+  const { getSigningKey } = await getSigningKeys();
+  const key = await getSigningKey();
+
+  return new SignJWT({
+    ...payload.claims,
+    auth_time: Math.floor(payload.authTime.getTime() / 1000),
+    ...(payload.nonce && { nonce: payload.nonce }),
+  })
+    .setProtectedHeader({ alg: key.algorithm, kid: key.kid, typ: 'JWT' })
+    .setSubject(payload.userId)
+    .setIssuedAt()
+    .setExpirationTime(`${SECURITY_CONFIG.oauthServer.idTokenExpirySeconds}s`)
+    .setIssuer(getOAuthIssuer())
+    .setAudience(payload.clientId)
+    .sign(key.privateKey);
+}
+
 // Session token utilities
 export async function generateSessionToken(): Promise<string> {
   const crypto = await getCrypto();
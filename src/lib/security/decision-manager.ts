@@ -0,0 +1,272 @@
+/**
+ * Access Decision Manager - combines voter results into a decision
+ *
+ * Every registered voter that supports the attribute votes, then the voting
+ * strategy for the attribute decides:
+ * - AFFIRMATIVE: granted if any voter grants
+ * - CONSENSUS: granted if more voters grant than deny
+ * - UNANIMOUS: granted if at least one voter grants and none deny
+ *
+ * A DENIED vote from a voter with `vetoes` set (the PolicyVoter) denies
+ * access under every strategy.
+ *
+ * When every voter abstains (or none supports the attribute) the
+ * `allowIfAllAbstain` policy decides, which denies by default.
+ */
+
+import { log } from '@/lib/logger';
+import {
+  recordRoleChecks,
+  type RoleCheck,
+  type UserWithRoles,
+} from './role-checker';
+import { VoteResult, VotingStrategy, type VoteContext } from './voter';
+import { getRegisteredVoters } from './voter-registry';
+
+/**
+ * Access decision configuration
+ */
+export interface AccessDecisionConfig {
+  /** Strategy for attributes without a more specific one */
+  strategy: VotingStrategy;
+  /**
+   * Strategies by permission prefix, e.g. `{ 'organization.members': UNANIMOUS }`.
+   * A prefix matches the attribute itself and attributes below it
+   * (`organization.members.manage`); the longest matching prefix wins.
+   */
+  strategies: Record<string, VotingStrategy>;
+  /** Grant access when all voters abstain */
+  allowIfAllAbstain: boolean;
+  /** CONSENSUS only: grant access on a tie between grants and denials */
+  allowIfEqualGrantedDenied: boolean;
+}
+
+/**
+ * A single voter's vote, for logging and decision traces
+ */
+export interface VoterVote {
+  voter: string;
+  result: VoteResult;
+}
+
+/**
+ * Outcome of an access decision
+ */
+export interface AccessDecision {
+  granted: boolean;
+  strategy: VotingStrategy;
+  /** Votes of the voters that supported the attribute, in registry order */
+  votes: VoterVote[];
+  /** Voter whose DENIED vote vetoed the strategy, if any */
+  vetoedBy: string | null;
+}
+
+/**
+ * What a single voter did during a traced decision
+ */
+export interface VoterTrace {
+  voter: string;
+  supports: boolean;
+  /** null when the voter does not support the attribute */
+  vote: VoteResult | null;
+  /** hasRole() checks made while voting */
+  roleChecks: RoleCheck[];
+}
+
+/**
+ * Access decision with every registered voter's part in it
+ */
+export interface AccessTrace extends AccessDecision {
+  allowIfAllAbstain: boolean;
+  allowIfEqualGrantedDenied: boolean;
+  /** Every registered voter, in registry order */
+  voters: VoterTrace[];
+}
+
+const DEFAULT_CONFIG: AccessDecisionConfig = {
+  strategy: VotingStrategy.AFFIRMATIVE,
+  strategies: {},
+  allowIfAllAbstain: false,
+  allowIfEqualGrantedDenied: false,
+};
+
+let config: AccessDecisionConfig = { ...DEFAULT_CONFIG };
+
+/**
+ * Change how votes are combined. Omitted options keep their current value.
+ *
+ * @example
+ * ```typescript
+ * configureAccessDecisions({
+ *   strategies: { 'organization.delete': VotingStrategy.UNANIMOUS },
+ * });
+ * ```
+ */
+export function configureAccessDecisions(
+  options: Partial<AccessDecisionConfig>
+): void {
+  config = { ...config, ...options };
+}
+
+/**
+ * Restore the default configuration (affirmative, deny if all abstain)
+ */
+export function resetAccessDecisionConfig(): void {
+  config = { ...DEFAULT_CONFIG };
+}
+
+/**
+ * Current configuration (read-only snapshot)
+ */
+export function getAccessDecisionConfig(): Readonly<AccessDecisionConfig> {
+  return { ...config, strategies: { ...config.strategies } };
+}
+
+/**
+ * Get the voting strategy that applies to an attribute
+ */
+export function getStrategyFor(attribute: string): VotingStrategy {
+  let bestMatch: string | null = null;
+
+  for (const prefix of Object.keys(config.strategies)) {
+    const matches = attribute === prefix || attribute.startsWith(`${prefix}.`);
+    if (matches && (!bestMatch || prefix.length > bestMatch.length)) {
+      bestMatch = prefix;
+    }
+  }
+
+  return bestMatch ? config.strategies[bestMatch] : config.strategy;
+}
+
+/**
+ * Combine votes according to a strategy
+ */
+export function combineVotes(
+  results: VoteResult[],
+  strategy: VotingStrategy,
+  policy: Pick<
+    AccessDecisionConfig,
+    'allowIfAllAbstain' | 'allowIfEqualGrantedDenied'
+  > = config
+): boolean {
+  const granted = results.filter((r) => r === VoteResult.GRANTED).length;
+  const denied = results.filter((r) => r === VoteResult.DENIED).length;
+
+  if (granted === 0 && denied === 0) {
+    return policy.allowIfAllAbstain;
+  }
+
+  switch (strategy) {
+    case VotingStrategy.AFFIRMATIVE:
+      return granted > 0;
+    case VotingStrategy.CONSENSUS:
+      if (granted === denied) return policy.allowIfEqualGrantedDenied;
+      return granted > denied;
+    case VotingStrategy.UNANIMOUS:
+      return denied === 0;
+  }
+}
+
+/**
+ * Collect votes from every registered voter supporting the attribute and
+ * decide with the attribute's strategy
+ */
+export async function decideAccess(
+  user: UserWithRoles,
+  attribute: string,
+  subject?: unknown,
+  context?: VoteContext
+): Promise<AccessDecision> {
+  const { granted, strategy, votes, vetoedBy } = await consultVoters(
+    user,
+    attribute,
+    subject,
+    context,
+    false
+  );
+  return { granted, strategy, votes, vetoedBy };
+}
+
+/**
+ * Like decideAccess(), but also report every registered voter, whether it
+ * supported the attribute and the hasRole() checks behind its vote
+ */
+export async function traceAccess(
+  user: UserWithRoles,
+  attribute: string,
+  subject?: unknown,
+  context?: VoteContext
+): Promise<AccessTrace> {
+  return consultVoters(user, attribute, subject, context, true);
+}
+
+async function consultVoters(
+  user: UserWithRoles,
+  attribute: string,
+  subject: unknown,
+  context: VoteContext | undefined,
+  trace: boolean
+): Promise<AccessTrace> {
+  const votes: VoterVote[] = [];
+  const voters: VoterTrace[] = [];
+  let vetoedBy: string | null = null;
+
+  for (const { name, voter } of getRegisteredVoters()) {
+    if (!(await voter.supports(attribute, subject))) {
+      if (trace) {
+        voters.push({
+          voter: name,
+          supports: false,
+          vote: null,
+          roleChecks: [],
+        });
+      }
+      continue;
+    }
+
+    let result: VoteResult;
+    if (trace) {
+      const recorded = await recordRoleChecks(() =>
+        voter.vote(user, attribute, subject, context)
+      );
+      result = recorded.result;
+      voters.push({
+        voter: name,
+        supports: true,
+        vote: result,
+        roleChecks: recorded.roleChecks,
+      });
+    } else {
+      result = await voter.vote(user, attribute, subject, context);
+    }
+
+    log.debug('voter decision', {
+      voterName: name,
+      attribute,
+      result,
+      userId: user.id,
+    });
+    votes.push({ voter: name, result });
+    if (voter.vetoes && result === VoteResult.DENIED && !vetoedBy) {
+      vetoedBy = name;
+    }
+  }
+
+  const strategy = getStrategyFor(attribute);
+  const granted =
+    !vetoedBy &&
+    combineVotes(
+      votes.map((v) => v.result),
+      strategy
+    );
+
+  return {
+    granted,
+    strategy,
+    votes,
+    vetoedBy,
+    allowIfAllAbstain: config.allowIfAllAbstain,
+    allowIfEqualGrantedDenied: config.allowIfEqualGrantedDenied,
+    voters,
+  };
+}
@@ -6,25 +6,27 @@
  * ROLE_ADMIN inherits from ROLE_MODERATOR inherits from ROLE_USER.
  */
 
-import { log } from '@/lib/logger';
-
 import type { User, UserRole } from '@prisma/client';
 import type { PlatformRole } from '@/types/auth';
-import { VoteResult } from './voter';
-import { voters } from './voters';
 import { ROLE_NAMES } from '@/lib/constants/roles';
 import {
   hasRole,
   clearRoleHierarchyCache,
   getCacheMetrics,
   resetCacheMetrics,
+  recordRoleChecks,
+  isRoleAssignmentActive,
   type UserWithRoles,
   type CacheMetrics,
+  type RoleCheck,
 } from './role-checker';
 import type { Permission } from './permissions';
-
-// Voter class names for debug logging
-const VOTER_NAMES = ['OrganizationVoter', 'UserVoter'] as const;
+import type { VoteContext } from './voter';
+import {
+  decideAccess,
+  traceAccess,
+  type AccessTrace,
+} from './decision-manager';
 
 /**
  * Role name constants to avoid magic strings
@@ -34,9 +36,6 @@ export const ROLES = ROLE_NAMES;
 
 export type RoleName = (typeof ROLES)[keyof typeof ROLES];
 
-// Cache for voter lookup by attribute (maps attribute -> voter index or -1 if none)
-const voterCache = new Map<string, number>();
-
 // Re-export UserWithRoles type for backward compatibility
 export type { UserWithRoles };
 
@@ -53,23 +52,31 @@ export type UserWithComputedRole = User & {
   role: PlatformRole;
 };
 
+/**
+ * Context of an isGranted() check
+ */
+export interface IsGrantedContext extends VoteContext {
+  /** Object the permission is checked on, passed to voters */
+  subject?: unknown;
+}
+
 /**
  * Main authorization check - like Symfony's isGranted()
  *
- * Uses affirmative voting strategy: first voter to GRANT wins.
- * If no voter grants, returns false (denied by default).
+ * Permissions are decided by the access decision manager: every registered
+ * voter supporting the attribute votes, and the configured strategy
+ * (affirmative by default) combines the votes. If all voters abstain,
+ * access is denied unless `allowIfAllAbstain` is configured.
  *
  * @param user - User object (must include userRoles relation)
  * @param attribute - Role name (e.g., 'ROLE_ADMIN') or permission (e.g., 'organization.edit')
- * @param context - Optional context (organizationId, subject for voters)
+ * @param context - Optional context (organizationId, subject for voters,
+ *                  and the request's IP address and time for policies)
  */
 export async function isGranted(
   user: UserWithRoles | null,
   attribute: Permission | RoleName,
-  context?: {
-    organizationId?: string | null;
-    subject?: unknown;
-  }
+  context?: IsGrantedContext
 ): Promise<boolean> {
   if (!user) return false;
 
@@ -78,77 +85,121 @@ export async function isGranted(
     return hasRole(user, attribute, context?.organizationId);
   }
 
-  // Extract subject from context for backward compatibility
-  const subject = context?.subject;
+  const { subject, ...voteContext } = context ?? {};
 
-  // Check voter cache first
-  const cachedIndex = voterCache.get(attribute);
-  if (cachedIndex !== undefined) {
-    if (cachedIndex === -1) {
-      // Cached as "no voter supports this attribute"
-      return false;
-    }
-    const voter = voters[cachedIndex];
-    const voterName = VOTER_NAMES[cachedIndex];
-    // Still need to check supports() for subject validation
-    if (await voter.supports(attribute, subject)) {
-      const result = await voter.vote(user, attribute, subject);
-      log.debug('voter decision', {
-        voterName,
-        attribute,
-        result,
-        userId: user.id,
-      });
-      if (result === VoteResult.GRANTED) return true;
-      if (result === VoteResult.DENIED) return false;
-    }
-    // Voter didn't support this subject, fall through to full search
+  const decision = await decideAccess(user, attribute, subject, voteContext);
+  return decision.granted;
+}
+
+/**
+ * Trace of an isGranted() check, for explaining why access was granted or
+ * denied
+ */
+export interface IsGrantedTrace {
+  attribute: string;
+  userId: string | null;
+  granted: boolean;
+  /** hasRole() checks made directly for ROLE_* attributes */
+  roleChecks: RoleCheck[];
+  /** Voter decision for permissions; null for ROLE_* attributes */
+  decision: AccessTrace | null;
+}
+
+/**
+ * Run isGranted() in trace mode
+ *
+ * Returns the same outcome as isGranted() along with every registered voter
+ * consulted, whether it supported the attribute, its vote, the roles each
+ * hasRole() check resolved through the hierarchy and the strategy used.
+ * Accepts any attribute so custom voters can be traced too.
+ */
+export async function traceIsGranted(
+  user: UserWithRoles | null,
+  attribute: string,
+  context?: IsGrantedContext
+): Promise<IsGrantedTrace> {
+  const trace: IsGrantedTrace = {
+    attribute,
+    userId: user?.id ?? null,
+    granted: false,
+    roleChecks: [],
+    decision: null,
+  };
+  if (!user) return trace;
+
+  if (attribute.startsWith('ROLE_')) {
+    const { result, roleChecks } = await recordRoleChecks(() =>
+      hasRole(user, attribute, context?.organizationId)
+    );
+    return { ...trace, granted: result, roleChecks };
   }
 
-  // Voter-based checks for contextual permissions
-  for (let i = 0; i < voters.length; i++) {
-    const voter = voters[i];
-    const voterName = VOTER_NAMES[i];
-    const supports = await voter.supports(attribute, subject);
-    if (supports) {
-      // Cache this attribute -> voter mapping
-      voterCache.set(attribute, i);
-      const result = await voter.vote(user, attribute, subject);
-      log.debug('voter decision', {
-        voterName,
-        attribute,
-        result,
-        userId: user.id,
-      });
-      if (result === VoteResult.GRANTED) {
-        return true;
-      }
-      if (result === VoteResult.DENIED) {
-        return false;
-      }
-      // ABSTAIN continues to next voter
-    }
+  const { subject, ...voteContext } = context ?? {};
+  const decision = await traceAccess(user, attribute, subject, voteContext);
+  return { ...trace, granted: decision.granted, decision };
+}
+
+/**
+ * Describe a trace in plain text, one line per voter and role check
+ *
+ * @example
+ * ```
+ * organization.edit for user-1: DENIED
+ *   strategy: affirmative (allowIfAllAbstain: false)
+ *   OrganizationVoter: denied
+ *     hasRole(ROLE_ADMIN, org-1): false [resolved: ROLE_USER]
+ *   UserVoter: does not support
+ *   PolicyVoter: does not support
+ * ```
+ */
+export function formatIsGrantedTrace(trace: IsGrantedTrace): string {
+  const formatRoleCheck = (check: RoleCheck) =>
+    `hasRole(${check.role}, ${check.organizationId ?? 'platform'}): ${check.granted} [resolved: ${check.resolvedRoles.join(', ') || 'none'}]`;
+
+  const lines = [
+    `${trace.attribute} for ${trace.userId ?? 'anonymous'}: ${trace.granted ? 'GRANTED' : 'DENIED'}`,
+  ];
+
+  for (const check of trace.roleChecks) {
+    lines.push(`  ${formatRoleCheck(check)}`);
   }
 
-  // No voter supports this attribute - cache as -1
-  if (!voterCache.has(attribute)) {
-    voterCache.set(attribute, -1);
+  const { decision } = trace;
+  if (decision) {
+    lines.push(
+      `  strategy: ${decision.strategy} (allowIfAllAbstain: ${decision.allowIfAllAbstain})`
+    );
+    for (const voter of decision.voters) {
+      const veto = decision.vetoedBy === voter.voter ? ' (veto)' : '';
+      lines.push(
+        `  ${voter.voter}: ${voter.supports ? voter.vote : 'does not support'}${veto}`
+      );
+      for (const check of voter.roleChecks) {
+        lines.push(`    ${formatRoleCheck(check)}`);
+      }
+    }
   }
 
-  // No voter granted - deny by default
-  return false;
+  return lines.join('\n');
 }
 
 // Re-export hasRole, cache management, and metrics functions
-export { hasRole, clearRoleHierarchyCache, getCacheMetrics, resetCacheMetrics };
-export type { CacheMetrics };
+export {
+  hasRole,
+  isRoleAssignmentActive,
+  clearRoleHierarchyCache,
+  getCacheMetrics,
+  resetCacheMetrics,
+};
+export type { CacheMetrics, RoleCheck };
 
 /**
- * Clear voter lookup cache (call if voters are dynamically modified)
+ * Clear voter lookup cache
+ *
+ * @deprecated Voters are no longer cached per attribute; every registered
+ * voter is consulted on each check. Kept for backward compatibility.
  */
-export function clearVoterCache(): void {
-  voterCache.clear();
-}
+export function clearVoterCache(): void {}
 
 /**
  * Legacy compatibility - check if user has required role level (platform-wide)
@@ -188,7 +239,9 @@ export async function getUserRoleDisplay(
 export function getHighestRole(user: UserWithRoles | null): PlatformRole {
   if (!user?.userRoles?.length) return ROLES.USER;
 
-  const roleNames = user.userRoles.map((ur) => ur.role.name);
+  const roleNames = user.userRoles
+    .filter((ur) => isRoleAssignmentActive(ur))
+    .map((ur) => ur.role.name);
 
   // Check highest first (ADMIN > MODERATOR > USER)
   if (roleNames.includes(ROLES.ADMIN)) return ROLES.ADMIN;
@@ -207,6 +260,8 @@ export const userWithRolesInclude = {
       userId: true,
       roleId: true,
       organizationId: true,
+      startsAt: true,
+      expiresAt: true,
       role: {
         select: {
           id: true,
@@ -223,7 +278,49 @@ export { isPlatformRole } from '../security';
 
 // Re-export voter types
 export { VoteResult, VotingStrategy } from './voter';
-export type { Voter } from './voter';
+export type { Voter, VoteContext } from './voter';
+
+// Re-export voter registry and access decision configuration
+export {
+  registerVoter,
+  unregisterVoter,
+  getRegisteredVoters,
+} from './voter-registry';
+export type { RegisteredVoter } from './voter-registry';
+export {
+  configureAccessDecisions,
+  resetAccessDecisionConfig,
+  getAccessDecisionConfig,
+  decideAccess,
+  traceAccess,
+} from './decision-manager';
+export type {
+  AccessDecision,
+  AccessDecisionConfig,
+  AccessTrace,
+  VoterTrace,
+  VoterVote,
+} from './decision-manager';
+
+// Re-export access policy evaluation and cache management
+export {
+  POLICY_OPERATORS,
+  accessPolicySchema,
+  policyConditionSchema,
+  policyAppliesTo,
+  evaluateCondition,
+  evaluatePolicy,
+} from './policy';
+export type {
+  AccessPolicyDefinition,
+  ConditionTrace,
+  PolicyCondition,
+  PolicyEffect,
+  PolicyEvaluation,
+  PolicyInput,
+  PolicyOperator,
+} from './policy';
+export { buildPolicyInput, clearAccessPolicyCache } from './voters';
 
 // Re-export permission constants, type guards, and types
 export {
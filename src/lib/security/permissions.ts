@@ -7,6 +7,8 @@
  * - Type safety
  */
 
+import { ROLE_NAMES as ROLES } from '@/lib/constants/roles';
+
 export const PERMISSIONS = {
   ORGANIZATION: {
     VIEW: 'organization.view',
@@ -78,6 +80,28 @@ export const ALL_PERMISSIONS = [
   ...USER_PERMISSIONS,
 ] as const;
 
+/**
+ * Roles granted each permission out of the box
+ *
+ * Grants live in the role_permissions table and are edited from the role
+ * editor; these defaults only seed it (migration and prisma/seed.ts). Roles
+ * that inherit from a granted role get the permission too.
+ */
+export const DEFAULT_PERMISSION_GRANTS: Record<Permission, readonly string[]> =
+  {
+    [PERMISSIONS.ORGANIZATION.VIEW]: [ROLES.USER],
+    [PERMISSIONS.ORGANIZATION.EDIT]: [ROLES.ADMIN],
+    [PERMISSIONS.ORGANIZATION.MANAGE]: [ROLES.ADMIN],
+    [PERMISSIONS.ORGANIZATION.DELETE]: [ROLES.OWNER],
+    [PERMISSIONS.ORGANIZATION.MEMBERS.VIEW]: [ROLES.USER],
+    [PERMISSIONS.ORGANIZATION.MEMBERS.MANAGE]: [ROLES.ADMIN],
+    [PERMISSIONS.ORGANIZATION.INVITES.MANAGE]: [ROLES.ADMIN],
+    [PERMISSIONS.USER.VIEW]: [ROLES.MODERATOR],
+    [PERMISSIONS.USER.EDIT]: [ROLES.MODERATOR],
+    [PERMISSIONS.USER.DELETE]: [ROLES.ADMIN],
+    [PERMISSIONS.USER.ROLES.MANAGE]: [ROLES.ADMIN],
+  };
+
 export type OrganizationPermission = (typeof ORGANIZATION_PERMISSIONS)[number];
 export type UserPermission = (typeof USER_PERMISSIONS)[number];
 
@@ -0,0 +1,484 @@
+/**
+ * Access Policies - attribute-based conditions on top of the voters
+ *
+ * A policy grants or denies permissions when its condition holds. Conditions
+ * compare attributes of the user, the subject and the request context, and
+ * combine with `all`, `any` and `not`:
+ *
+ * ```json
+ * {
+ *   "name": "members-edit-own-documents",
+ *   "effect": "GRANT",
+ *   "permissions": ["document.edit"],
+ *   "condition": {
+ *     "attribute": "subject.createdById",
+ *     "operator": "eq",
+ *     "value": { "ref": "user.id" }
+ *   }
+ * }
+ * ```
+ *
+ * Policies are stored in the access_policies table and voted on by the
+ * PolicyVoter (see voters/policy-voter.ts). This module only validates and
+ * evaluates them, so it can be used on sample input to test a policy.
+ */
+
+import { z } from 'zod';
+import { isAddressInNetwork, parseNetwork } from '@/lib/utils/ip-network';
+import { VoteResult, type VoteContext } from './voter';
+
+export const POLICY_EFFECTS = ['GRANT', 'DENY'] as const;
+
+export type PolicyEffect = (typeof POLICY_EFFECTS)[number];
+
+/**
+ * Comparison operators
+ *
+ * - eq, neq: equal / not equal
+ * - in, notIn: the attribute is / is not one of the values
+ * - contains: the attribute (a list or text) contains the value
+ * - intersects: the attribute and the value (both lists) share an item
+ * - gt, gte, lt, lte: numbers, or text such as ISO dates
+ * - between: `[from, to]`, from included and to excluded; wraps around when
+ *   from > to, so `[22, 6]` on `context.hour` is the night
+ * - exists: the attribute is set (takes no value)
+ * - inNetwork: the attribute is an IP address in one of the networks (CIDR)
+ */
+export const POLICY_OPERATORS = [
+  'eq',
+  'neq',
+  'in',
+  'notIn',
+  'contains',
+  'intersects',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'between',
+  'exists',
+  'inNetwork',
+] as const;
+
+export type PolicyOperator = (typeof POLICY_OPERATORS)[number];
+
+/**
+ * Value compared against: a literal, or `{ ref }` to another attribute
+ */
+export type PolicyValue =
+  | string
+  | number
+  | boolean
+  | null
+  | Array<string | number>
+  | { ref: string };
+
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { attribute: string; operator: PolicyOperator; value?: PolicyValue };
+
+/**
+ * Attributes a condition can read, by root:
+ * - user: the user's fields, plus `roles` (resolved through the hierarchy in
+ *   the organization context) and `organizationIds`
+ * - subject: the fields of the subject passed to isGranted()
+ * - context: `ip`, `time` (ISO), `hour` and `weekday` (UTC, 0 = Sunday) and
+ *   `organizationId`
+ */
+export interface PolicyInput {
+  user: Record<string, unknown>;
+  subject: Record<string, unknown> | null;
+  context: Record<string, unknown>;
+}
+
+export interface AccessPolicyDefinition {
+  name: string;
+  effect: PolicyEffect;
+  /** Permissions it applies to: exact, a prefix such as `organization.*`, or `*` */
+  permissions: string[];
+  condition: PolicyCondition;
+}
+
+/**
+ * Evaluation of one condition, with its sub-conditions
+ */
+export interface ConditionTrace {
+  description: string;
+  result: boolean;
+  /** Attribute value a comparison read */
+  actual?: unknown;
+  children?: ConditionTrace[];
+}
+
+export interface PolicyEvaluation {
+  /** Whether the condition holds */
+  matches: boolean;
+  /** GRANTED or DENIED when it holds, ABSTAIN otherwise */
+  vote: VoteResult;
+  condition: ConditionTrace;
+}
+
+const attributePathSchema = z
+  .string()
+  .regex(
+    /^(user|subject|context)(\.[A-Za-z_][A-Za-z0-9_]*)+$/,
+    'Attributes start with user., subject. or context.'
+  );
+
+const policyValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+  z.array(z.union([z.string(), z.number()])),
+  z.object({ ref: attributePathSchema }).strict(),
+]);
+
+const comparisonSchema = z
+  .object({
+    attribute: attributePathSchema,
+    operator: z.enum(POLICY_OPERATORS),
+    value: policyValueSchema.optional(),
+  })
+  .strict()
+  .superRefine(({ operator, value }, ctx) => {
+    const isRef = typeof value === 'object' && value !== null && 'ref' in value;
+    const issue = (message: string) =>
+      ctx.addIssue({ code: 'custom', message, path: ['value'] });
+
+    if (operator === 'exists') {
+      if (value !== undefined) issue('exists takes no value');
+      return;
+    }
+    if (value === undefined) {
+      issue(`${operator} needs a value`);
+      return;
+    }
+    if (isRef) return;
+
+    if (
+      (operator === 'in' ||
+        operator === 'notIn' ||
+        operator === 'intersects') &&
+      !Array.isArray(value)
+    ) {
+      issue(`${operator} needs a list of values`);
+    }
+    if (
+      operator === 'between' &&
+      !(
+        Array.isArray(value) &&
+        value.length === 2 &&
+        value.every((v) => typeof v === 'number')
+      )
+    ) {
+      issue('between needs two numbers: [from, to]');
+    }
+    if (operator === 'inNetwork') {
+      const networks = Array.isArray(value) ? value : [value];
+      if (!networks.every((n) => typeof n === 'string' && parseNetwork(n))) {
+        issue('inNetwork needs networks in CIDR notation, e.g. 10.0.0.0/8');
+      }
+    }
+  });
+
+export const policyConditionSchema: z.ZodType<PolicyCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(policyConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(policyConditionSchema).min(1) }).strict(),
+    z.object({ not: policyConditionSchema }).strict(),
+    comparisonSchema,
+  ])
+);
+
+const permissionPatternSchema = z
+  .string()
+  .regex(
+    /^(\*|[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)*(\.\*)?)$/,
+    'Use a permission, a prefix such as organization.*, or *'
+  );
+
+/**
+ * Validation schema for a policy definition
+ */
+export const accessPolicySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).nullish(),
+  effect: z.enum(POLICY_EFFECTS),
+  permissions: z
+    .array(permissionPatternSchema)
+    .min(1, 'At least one permission is required'),
+  condition: policyConditionSchema,
+  enabled: z.boolean().default(true),
+});
+
+export type AccessPolicyInput = z.infer<typeof accessPolicySchema>;
+
+/**
+ * Check whether a policy applies to a permission
+ */
+export function policyAppliesTo(
+  policy: Pick<AccessPolicyDefinition, 'permissions'>,
+  attribute: string
+): boolean {
+  return policy.permissions.some(
+    (pattern) =>
+      pattern === '*' ||
+      pattern === attribute ||
+      (pattern.endsWith('.*') && attribute.startsWith(pattern.slice(0, -1)))
+  );
+}
+
+/**
+ * Context attributes of a request
+ */
+export function buildContextAttributes(
+  context: VoteContext = {}
+): Record<string, unknown> {
+  const time = context.time ?? new Date();
+  return {
+    organizationId: context.organizationId ?? null,
+    ip: context.ip,
+    time: time.toISOString(),
+    hour: time.getUTCHours(),
+    weekday: time.getUTCDay(),
+  };
+}
+
+function readAttribute(input: PolicyInput, path: string): unknown {
+  const [root, ...keys] = path.split('.');
+  let value: unknown = input[root as keyof PolicyInput];
+
+  for (const key of keys) {
+    // Own fields only, so conditions cannot reach prototype properties
+    if (
+      typeof value !== 'object' ||
+      value === null ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function isRef(value: PolicyValue | undefined): value is { ref: string } {
+  return typeof value === 'object' && value !== null && 'ref' in value;
+}
+
+function compare(
+  operator: PolicyOperator,
+  actual: unknown,
+  expected: unknown
+): boolean {
+  const isOrdered = (a: unknown, b: unknown) =>
+    (typeof a === 'number' && typeof b === 'number') ||
+    (typeof a === 'string' && typeof b === 'string');
+
+  switch (operator) {
+    case 'eq':
+      return actual !== undefined && actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'notIn':
+      return !(Array.isArray(expected) && expected.includes(actual));
+    case 'contains':
+      if (Array.isArray(actual)) return actual.includes(expected);
+      return (
+        typeof actual === 'string' &&
+        typeof expected === 'string' &&
+        actual.includes(expected)
+      );
+    case 'intersects':
+      return (
+        Array.isArray(actual) &&
+        Array.isArray(expected) &&
+        actual.some((item) => expected.includes(item))
+      );
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      if (!isOrdered(actual, expected)) return false;
+      // Both numbers or both strings, which compare the same way
+      const [a, b] = [actual, expected] as [number, number];
+      if (operator === 'gt') return a > b;
+      if (operator === 'gte') return a >= b;
+      if (operator === 'lt') return a < b;
+      return a <= b;
+    }
+    case 'between': {
+      if (typeof actual !== 'number' || !Array.isArray(expected)) return false;
+      const [from, to] = expected as number[];
+      return from <= to
+        ? actual >= from && actual < to
+        : actual >= from || actual < to;
+    }
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'inNetwork': {
+      if (typeof actual !== 'string') return false;
+      const networks = Array.isArray(expected) ? expected : [expected];
+      return networks.some(
+        (network) =>
+          typeof network === 'string' && isAddressInNetwork(actual, network)
+      );
+    }
+  }
+}
+
+/**
+ * Evaluate a condition, recording how each part evaluated
+ */
+export function evaluateCondition(
+  condition: PolicyCondition,
+  input: PolicyInput
+): ConditionTrace {
+  if ('all' in condition) {
+    const children = condition.all.map((c) => evaluateCondition(c, input));
+    return {
+      description: 'all',
+      result: children.every((c) => c.result),
+      children,
+    };
+  }
+  if ('any' in condition) {
+    const children = condition.any.map((c) => evaluateCondition(c, input));
+    return {
+      description: 'any',
+      result: children.some((c) => c.result),
+      children,
+    };
+  }
+  if ('not' in condition) {
+    const child = evaluateCondition(condition.not, input);
+    return { description: 'not', result: !child.result, children: [child] };
+  }
+
+  const { attribute, operator, value } = condition;
+  const actual = readAttribute(input, attribute);
+  const expected = isRef(value) ? readAttribute(input, value.ref) : value;
+  const shownValue = isRef(value) ? value.ref : JSON.stringify(value);
+
+  return {
+    description:
+      operator === 'exists'
+        ? `${attribute} exists`
+        : `${attribute} ${operator} ${shownValue}`,
+    result: compare(operator, actual, expected),
+    actual,
+  };
+}
+
+/**
+ * Evaluate a policy on an input, as the PolicyVoter does
+ */
+export function evaluatePolicy(
+  policy: Pick<AccessPolicyDefinition, 'effect' | 'condition'>,
+  input: PolicyInput
+): PolicyEvaluation {
+  const condition = evaluateCondition(policy.condition, input);
+  const vote = !condition.result
+    ? VoteResult.ABSTAIN
+    : policy.effect === 'DENY'
+      ? VoteResult.DENIED
+      : VoteResult.GRANTED;
+
+  return { matches: condition.result, vote, condition };
+}
+
+/**
+ * Combine the votes of the policies applying to a check: any matching DENY
+ * policy denies, otherwise any matching GRANT policy grants
+ */
+export function combinePolicyVotes(votes: VoteResult[]): VoteResult {
+  if (votes.includes(VoteResult.DENIED)) return VoteResult.DENIED;
+  if (votes.includes(VoteResult.GRANTED)) return VoteResult.GRANTED;
+  return VoteResult.ABSTAIN;
+}
+
+/**
+ * Sample check to test a policy with
+ */
+export const policyTestCaseSchema = z.object({
+  name: z.string().optional(),
+  permission: z.string().min(1),
+  /** User attributes, including `roles` and `organizationIds` */
+  user: z.record(z.string(), z.unknown()).default({}),
+  subject: z.record(z.string(), z.unknown()).nullable().default(null),
+  context: z
+    .object({
+      organizationId: z.string().nullable().optional(),
+      ip: z.string().optional(),
+      time: z.coerce.date().optional(),
+    })
+    .default({}),
+  expect: z.enum(VoteResult),
+});
+
+export type PolicyTestCase = z.input<typeof policyTestCaseSchema>;
+
+export interface PolicyTestResult {
+  name: string;
+  permission: string;
+  /** Whether the policy applies to the permission */
+  applies: boolean;
+  vote: VoteResult;
+  expected: VoteResult;
+  passed: boolean;
+  /** null when the policy does not apply */
+  condition: ConditionTrace | null;
+}
+
+/**
+ * Run a policy against sample checks and compare its votes with the
+ * expected ones. A policy that does not apply to a permission abstains.
+ *
+ * @example
+ * ```typescript
+ * const { passed, results } = runPolicyTests(policy, [
+ *   {
+ *     permission: 'document.edit',
+ *     user: { id: 'user-1' },
+ *     subject: { createdById: 'user-1' },
+ *     expect: VoteResult.GRANTED,
+ *   },
+ * ]);
+ * ```
+ */
+export function runPolicyTests(
+  policy: Pick<AccessPolicyDefinition, 'effect' | 'permissions' | 'condition'>,
+  cases: PolicyTestCase[]
+): { passed: boolean; results: PolicyTestResult[] } {
+  const results = cases.map((testCase, index): PolicyTestResult => {
+    const { name, permission, user, subject, context, expect } =
+      policyTestCaseSchema.parse(testCase);
+    const applies = policyAppliesTo(policy, permission);
+    const evaluation = applies
+      ? evaluatePolicy(policy, {
+          user,
+          subject,
+          context: buildContextAttributes(context),
+        })
+      : null;
+    const vote = evaluation?.vote ?? VoteResult.ABSTAIN;
+
+    return {
+      name: name ?? `Case ${index + 1}`,
+      permission,
+      applies,
+      vote,
+      expected: expect,
+      passed: vote === expect,
+      condition: evaluation?.condition ?? null,
+    };
+  });
+
+  return { passed: results.every((r) => r.passed), results };
+}
@@ -5,7 +5,9 @@
  * This module has no dependencies on voters, so voters can safely import from here.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { prisma } from '@/lib/db';
+import type { Permission } from './permissions';
 
 /**
  * User type with roles included
@@ -14,6 +16,9 @@ export interface UserWithRoles {
   id: string;
   userRoles?: Array<{
     organizationId: string | null;
+    /** Time-bound assignments only count from startsAt until expiresAt */
+    startsAt?: Date | null;
+    expiresAt?: Date | null;
     role: {
       id: string;
       name: string;
@@ -22,9 +27,28 @@ export interface UserWithRoles {
   }>;
 }
 
+/**
+ * A hasRole() check recorded while tracing an access decision
+ */
+export interface RoleCheck {
+  role: string;
+  organizationId: string | null;
+  /** Roles assigned to the user in this context */
+  assignedRoles: string[];
+  /** Assigned roles plus every role they inherit from */
+  resolvedRoles: string[];
+  granted: boolean;
+}
+
+// Collects the hasRole() checks made inside recordRoleChecks()
+const roleCheckRecorder = new AsyncLocalStorage<RoleCheck[]>();
+
 // Cache for role hierarchy (invalidate on role changes)
 let roleHierarchyCache: Map<string, Set<string>> | null = null;
 
+// Cache for permission grants: permission -> names of roles granted it
+let permissionGrantsCache: Map<string, string[]> | null = null;
+
 /**
  * Cache performance metrics
  */
@@ -67,14 +91,68 @@ export async function hasRole(
   if (!user) return false;
 
   const userRoleNames = getUserRoleNames(user, organizationId);
-  if (userRoleNames.length === 0) return false;
+  const allRoles =
+    userRoleNames.length > 0
+      ? await resolveHierarchy(userRoleNames)
+      : new Set<string>();
+  const granted = allRoles.has(roleName);
+
+  roleCheckRecorder.getStore()?.push({
+    role: roleName,
+    organizationId,
+    assignedRoles: userRoleNames,
+    resolvedRoles: [...allRoles],
+    granted,
+  });
 
-  const allRoles = await resolveHierarchy(userRoleNames);
-  return allRoles.has(roleName);
+  return granted;
 }
 
 /**
- * Get user's directly assigned role names, filtered by organization context
+ * Get every role a user has in an organization context: assigned roles plus
+ * the roles they inherit from
+ *
+ * @param organizationId - Organization context, as for hasRole()
+ */
+export async function getResolvedRoles(
+  user: UserWithRoles,
+  organizationId: string | null = null
+): Promise<string[]> {
+  const userRoleNames = getUserRoleNames(user, organizationId);
+  if (userRoleNames.length === 0) return [];
+
+  return [...(await resolveHierarchy(userRoleNames))];
+}
+
+/**
+ * Run a function and record every hasRole() check it makes, including
+ * checks made by the voters it calls
+ */
+export async function recordRoleChecks<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; roleChecks: RoleCheck[] }> {
+  const roleChecks: RoleCheck[] = [];
+  const result = await roleCheckRecorder.run(roleChecks, fn);
+  return { result, roleChecks };
+}
+
+/**
+ * Check if a role assignment is in effect: started and not yet expired
+ *
+ * Expired assignments are deleted by revokeExpiredRoleAssignments() on a
+ * schedule; until then they are ignored here.
+ */
+export function isRoleAssignmentActive(
+  assignment: { startsAt?: Date | null; expiresAt?: Date | null },
+  now: Date = new Date()
+): boolean {
+  if (assignment.startsAt && assignment.startsAt > now) return false;
+  return !assignment.expiresAt || assignment.expiresAt > now;
+}
+
+/**
+ * Get user's directly assigned role names that are in effect, filtered by
+ * organization context
  *
  * @param organizationId - Filter by org context:
  *   - null: Return only platform-wide roles (organizationId = null)
@@ -88,8 +166,14 @@ function getUserRoleNames(
     return [];
   }
 
-  // Filter by organization context
+  // Filter by time window and organization context
+  const now = new Date();
   const filteredRoles = user.userRoles.filter((ur) => {
+    // Time-bound assignments outside their window don't count
+    if (!isRoleAssignmentActive(ur, now)) {
+      return false;
+    }
+
     // Platform-wide roles (null) work everywhere
     if (ur.organizationId === null) {
       return true;
@@ -199,10 +283,39 @@ async function getRoleHierarchy(): Promise<Map<string, Set<string>>> {
 }
 
 /**
- * Clear role hierarchy cache (call when roles are modified)
+ * Get the names of the roles granted a permission (cached)
+ *
+ * Only direct grants are returned; combine with hasRole() so roles that
+ * inherit from a granted role get the permission too. The role_permissions
+ * table is the only source: a permission without grants is granted to no role.
+ */
+export async function getRolesGrantingPermission(
+  permission: Permission
+): Promise<readonly string[]> {
+  if (!permissionGrantsCache) {
+    const grants = await prisma.rolePermission.findMany({
+      select: { permission: true, role: { select: { name: true } } },
+    });
+
+    const grantMap = new Map<string, string[]>();
+    for (const grant of grants) {
+      const roleNames = grantMap.get(grant.permission) ?? [];
+      roleNames.push(grant.role.name);
+      grantMap.set(grant.permission, roleNames);
+    }
+    permissionGrantsCache = grantMap;
+  }
+
+  return permissionGrantsCache.get(permission) ?? [];
+}
+
+/**
+ * Clear role hierarchy and permission grant caches (call when roles or
+ * their permissions are modified)
  */
 export function clearRoleHierarchyCache(): void {
   roleHierarchyCache = null;
+  permissionGrantsCache = null;
   cacheMetrics.size = 0;
 }
 
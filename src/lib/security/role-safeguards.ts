@@ -13,10 +13,24 @@ export interface SafeguardResult {
   reason?: string;
 }
 
+/**
+ * Only permanent assignments in effect keep an administrator around: a
+ * time-bound or just-in-time one is deleted once it expires.
+ */
+function isPermanentAssignment(
+  assignment: { startsAt?: Date | null; expiresAt?: Date | null },
+  now: Date
+): boolean {
+  return (
+    !assignment.expiresAt &&
+    (!assignment.startsAt || assignment.startsAt <= now)
+  );
+}
+
 /**
  * Check if removing ROLE_ADMIN from a user would leave no platform admins.
  *
- * Platform admins have ROLE_ADMIN with organizationId: null.
+ * Platform admins have a permanent ROLE_ADMIN with organizationId: null.
  * Uses a single query to get all platform admins and check if target is one.
  */
 export async function checkLastPlatformAdmin(
@@ -24,13 +38,17 @@ export async function checkLastPlatformAdmin(
   actorUserId: string
 ): Promise<SafeguardResult> {
   // Single query: get all platform admin user IDs
-  const platformAdmins = await prisma.userRole.findMany({
+  const assignments = await prisma.userRole.findMany({
     where: {
       role: { name: ROLES.ADMIN },
       organizationId: null,
     },
-    select: { userId: true },
+    select: { userId: true, startsAt: true, expiresAt: true },
   });
+  const now = new Date();
+  const platformAdmins = assignments.filter((assignment) =>
+    isPermanentAssignment(assignment, now)
+  );
 
   const platformAdminCount = platformAdmins.length;
   const targetIsPlatformAdmin = platformAdmins.some(
@@ -63,7 +81,8 @@ export async function checkLastPlatformAdmin(
 /**
  * Check if removing an admin role from a user would leave no admins in an organization.
  *
- * Considers both ROLE_ADMIN and ROLE_OWNER as admin-level roles for an org.
+ * Considers permanent ROLE_ADMIN and ROLE_OWNER assignments as admin-level
+ * roles for an org.
  * Uses a single query to get admin roles and check if target has the specific role.
  */
 export async function checkLastOrgAdmin(
@@ -78,7 +97,7 @@ export async function checkLastOrgAdmin(
   }
 
   // Single query: get all admin-level role assignments in this org
-  const orgAdminRoles = await prisma.userRole.findMany({
+  const assignments = await prisma.userRole.findMany({
     where: {
       organizationId,
       role: {
@@ -87,9 +106,15 @@ export async function checkLastOrgAdmin(
     },
     select: {
       userId: true,
+      startsAt: true,
+      expiresAt: true,
       role: { select: { name: true } },
     },
   });
+  const now = new Date();
+  const orgAdminRoles = assignments.filter((assignment) =>
+    isPermanentAssignment(assignment, now)
+  );
 
   const orgAdminCount = orgAdminRoles.length;
   const targetHasRole = orgAdminRoles.some(
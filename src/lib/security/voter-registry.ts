@@ -0,0 +1,72 @@
+/**
+ * Voter Registry - the voters consulted by isGranted()
+ *
+ * Starts with the built-in voters, including the PolicyVoter for the access
+ * policies admins define (see policy.ts). Apps built on SocleStack register
+ * their own at startup instead of editing voters/index.ts:
+ *
+ * ```typescript
+ * import { registerVoter } from '@/lib/security';
+ *
+ * registerVoter(new DocumentVoter(), { name: 'DocumentVoter' });
+ * ```
+ */
+
+import type { Voter } from './voter';
+import { organizationVoter, policyVoter, userVoter } from './voters';
+
+/**
+ * A voter together with the name used in logs and decision traces
+ */
+export interface RegisteredVoter {
+  name: string;
+  voter: Voter;
+}
+
+const registry: RegisteredVoter[] = [
+  { name: 'OrganizationVoter', voter: organizationVoter },
+  { name: 'UserVoter', voter: userVoter },
+  { name: 'PolicyVoter', voter: policyVoter },
+];
+
+/**
+ * Register a voter. A voter registered under an existing name replaces it.
+ *
+ * @param options.name - Name for logs and traces (defaults to the class name)
+ * @returns Function that unregisters the voter
+ */
+export function registerVoter(
+  voter: Voter,
+  options: { name?: string } = {}
+): () => void {
+  const name = options.name ?? voter.constructor.name;
+  const existing = registry.findIndex((entry) => entry.name === name);
+
+  if (existing === -1) {
+    registry.push({ name, voter });
+  } else {
+    registry[existing] = { name, voter };
+  }
+
+  return () => unregisterVoter(name);
+}
+
+/**
+ * Remove a voter by name
+ *
+ * @returns true if a voter was removed
+ */
+export function unregisterVoter(name: string): boolean {
+  const index = registry.findIndex((entry) => entry.name === name);
+  if (index === -1) return false;
+
+  registry.splice(index, 1);
+  return true;
+}
+
+/**
+ * Registered voters in registration order (read-only snapshot)
+ */
+export function getRegisteredVoters(): readonly RegisteredVoter[] {
+  return [...registry];
+}
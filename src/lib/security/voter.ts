@@ -5,9 +5,14 @@
  * Each voter handles specific permission types and can GRANT, DENY, or ABSTAIN.
  *
  * The voting strategy (affirmative by default) determines how votes combine:
- * - AFFIRMATIVE: First GRANTED wins
+ * - AFFIRMATIVE: Any GRANTED wins
  * - CONSENSUS: Majority wins
- * - UNANIMOUS: All must GRANT
+ * - UNANIMOUS: No voter may DENY
+ *
+ * A voter with `vetoes` set denies access under every strategy when it votes
+ * DENIED.
+ *
+ * See decision-manager.ts for configuring strategies.
  */
 
 import type { UserWithRoles } from './index';
@@ -16,14 +21,26 @@ import type { UserWithRoles } from './index';
  * Result of a voter's decision
  */
 export enum VoteResult {
-  /** Permission granted - stops voting in affirmative strategy */
+  /** Permission granted */
   GRANTED = 'granted',
-  /** Permission denied - counted in consensus/unanimous strategies */
+  /** Permission denied */
   DENIED = 'denied',
   /** Voter doesn't handle this attribute/subject - skipped */
   ABSTAIN = 'abstain',
 }
 
+/**
+ * Request context passed to voters by isGranted()
+ */
+export interface VoteContext {
+  /** Organization context of the check */
+  organizationId?: string | null;
+  /** Client IP address */
+  ip?: string;
+  /** Time of the request (defaults to now) */
+  time?: Date;
+}
+
 /**
  * Voter interface - implement to add custom permission checks
  *
@@ -45,6 +62,12 @@ export enum VoteResult {
  * ```
  */
 export interface Voter {
+  /**
+   * When true, a DENIED vote from this voter denies access whatever the
+   * strategy and the other votes (used by the PolicyVoter for DENY policies)
+   */
+  readonly vetoes?: boolean;
+
   /**
    * Check if this voter can handle the given attribute and subject.
    *
@@ -64,12 +87,14 @@ export interface Voter {
    * @param user - The user requesting permission (includes roles)
    * @param attribute - Permission being checked
    * @param subject - Optional context object
+   * @param context - Request context (organization, IP address, time)
    * @returns GRANTED, DENIED, or ABSTAIN
    */
   vote(
     user: UserWithRoles,
     attribute: string,
-    subject?: unknown
+    subject?: unknown,
+    context?: VoteContext
   ): Promise<VoteResult>;
 }
 
@@ -77,10 +102,10 @@ export interface Voter {
  * Voting strategy determines how multiple voter results combine
  */
 export enum VotingStrategy {
-  /** First GRANTED wins (default, most permissive) */
+  /** Any GRANTED wins (default, most permissive) */
   AFFIRMATIVE = 'affirmative',
   /** More GRANTEDs than DENIEDs wins */
   CONSENSUS = 'consensus',
-  /** All voters must GRANT (most restrictive) */
+  /** At least one GRANTED and no DENIED (most restrictive) */
   UNANIMOUS = 'unanimous',
 }
@@ -8,11 +8,18 @@ import { userVoter } from './user-voter';
 
 export { OrganizationVoter, organizationVoter } from './organization-voter';
 export { UserVoter, userVoter } from './user-voter';
+export {
+  PolicyVoter,
+  policyVoter,
+  buildPolicyInput,
+  clearAccessPolicyCache,
+} from './policy-voter';
 
 /**
- * Registry of all security voters
+ * Built-in role-based security voters
  *
- * Voters are checked in order. The first voter that supports the attribute
- * will vote on the permission. With affirmative strategy, first GRANTED wins.
+ * isGranted() consults the voter registry (see voter-registry.ts), which
+ * starts with these and the PolicyVoter. Register additional voters there
+ * with registerVoter().
  */
 export const voters: Voter[] = [organizationVoter, userVoter];
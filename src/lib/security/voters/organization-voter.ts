@@ -2,31 +2,15 @@
  * OrganizationVoter - handles authorization for organization-related actions
  *
  * Checks user's organization membership and role to determine access.
+ * Which roles grant each permission comes from the role_permissions table.
  */
 
 import type { Voter } from '../voter';
 import { VoteResult } from '../voter';
 import type { UserWithRoles } from '../role-checker';
-import { hasRole } from '../role-checker';
+import { hasRole, getRolesGrantingPermission } from '../role-checker';
 import { ROLE_NAMES as ROLES } from '@/lib/constants/roles';
-import {
-  PERMISSIONS,
-  isOrganizationPermission,
-  type OrganizationPermission,
-} from '../permissions';
-
-/**
- * Minimum role required for each permission
- */
-const REQUIRED_ROLES: Record<OrganizationPermission, string> = {
-  [PERMISSIONS.ORGANIZATION.VIEW]: ROLES.USER,
-  [PERMISSIONS.ORGANIZATION.EDIT]: ROLES.ADMIN,
-  [PERMISSIONS.ORGANIZATION.MANAGE]: ROLES.ADMIN,
-  [PERMISSIONS.ORGANIZATION.DELETE]: ROLES.OWNER,
-  [PERMISSIONS.ORGANIZATION.MEMBERS.VIEW]: ROLES.USER,
-  [PERMISSIONS.ORGANIZATION.MEMBERS.MANAGE]: ROLES.ADMIN,
-  [PERMISSIONS.ORGANIZATION.INVITES.MANAGE]: ROLES.ADMIN,
-};
+import { isOrganizationPermission } from '../permissions';
 
 /**
  * Minimal organization shape for type checking
@@ -65,11 +49,15 @@ export class OrganizationVoter implements Voter {
       return VoteResult.ABSTAIN;
     }
 
-    const requiredRole = REQUIRED_ROLES[attribute];
+    // Check if user has a granted role (or one inheriting from it) in this
+    // specific organization
+    for (const roleName of await getRolesGrantingPermission(attribute)) {
+      if (await hasRole(user, roleName, org.id)) {
+        return VoteResult.GRANTED;
+      }
+    }
 
-    // Check if user has the required role in this specific organization
-    const hasRequiredRole = await hasRole(user, requiredRole, org.id);
-    return hasRequiredRole ? VoteResult.GRANTED : VoteResult.DENIED;
+    return VoteResult.DENIED;
   }
 
   /**
@@ -0,0 +1,147 @@
+/**
+ * PolicyVoter - votes with the access policies stored in the database
+ *
+ * Supports every permission an enabled policy applies to. A matching DENY
+ * policy denies, otherwise a matching GRANT policy grants; when no policy
+ * matches the voter abstains and the other voters decide.
+ *
+ * The voter vetoes: a matching DENY policy denies access under every voting
+ * strategy, even when other voters grant.
+ */
+
+import { prisma } from '@/lib/db';
+import { log } from '@/lib/logger';
+import type { Voter, VoteContext } from '../voter';
+import { VoteResult } from '../voter';
+import { getResolvedRoles, type UserWithRoles } from '../role-checker';
+import {
+  buildContextAttributes,
+  combinePolicyVotes,
+  evaluatePolicy,
+  policyAppliesTo,
+  policyConditionSchema,
+  type AccessPolicyDefinition,
+  type PolicyInput,
+} from '../policy';
+
+// User fields never exposed to policy conditions
+const HIDDEN_USER_FIELDS = /password|secret|token|hash/i;
+
+// Cache of enabled policies (invalidate on policy changes)
+let policyCache: AccessPolicyDefinition[] | null = null;
+
+/**
+ * Get the enabled policies from the database (cached)
+ *
+ * Policies are validated when saved; one that no longer validates is
+ * skipped with a warning rather than failing every check.
+ */
+async function getEnabledPolicies(): Promise<AccessPolicyDefinition[]> {
+  if (policyCache) return policyCache;
+
+  const rows = await prisma.accessPolicy.findMany({
+    where: { enabled: true },
+    select: { name: true, effect: true, permissions: true, condition: true },
+    orderBy: { name: 'asc' },
+  });
+
+  const policies: AccessPolicyDefinition[] = [];
+  for (const row of rows) {
+    const condition = policyConditionSchema.safeParse(row.condition);
+    if (!condition.success) {
+      log.warn('skipping invalid access policy', { policy: row.name });
+      continue;
+    }
+    policies.push({ ...row, condition: condition.data });
+  }
+
+  policyCache = policies;
+  return policies;
+}
+
+/**
+ * Clear the access policy cache (call when policies are modified)
+ */
+export function clearAccessPolicyCache(): void {
+  policyCache = null;
+}
+
+/**
+ * Build the attributes policy conditions read for a check
+ */
+export async function buildPolicyInput(
+  user: UserWithRoles,
+  subject?: unknown,
+  context: VoteContext = {}
+): Promise<PolicyInput> {
+  const userFields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(user)) {
+    const isScalar =
+      value === null || value instanceof Date || typeof value !== 'object';
+    if (isScalar && !HIDDEN_USER_FIELDS.test(key)) {
+      userFields[key] = value;
+    }
+  }
+
+  const organizationIds = new Set<string>();
+  for (const userRole of user.userRoles ?? []) {
+    if (userRole.organizationId) organizationIds.add(userRole.organizationId);
+  }
+
+  return {
+    user: {
+      ...userFields,
+      roles: await getResolvedRoles(user, context.organizationId ?? null),
+      organizationIds: [...organizationIds],
+    },
+    subject:
+      typeof subject === 'object' && subject !== null
+        ? (subject as Record<string, unknown>)
+        : null,
+    context: buildContextAttributes(context),
+  };
+}
+
+export class PolicyVoter implements Voter {
+  readonly vetoes = true;
+
+  /**
+   * Check if an enabled policy applies to the attribute
+   */
+  async supports(attribute: string): Promise<boolean> {
+    const policies = await getEnabledPolicies();
+    return policies.some((policy) => policyAppliesTo(policy, attribute));
+  }
+
+  /**
+   * Vote with the policies that apply to the attribute
+   */
+  async vote(
+    user: UserWithRoles,
+    attribute: string,
+    subject?: unknown,
+    context?: VoteContext
+  ): Promise<VoteResult> {
+    const policies = (await getEnabledPolicies()).filter((policy) =>
+      policyAppliesTo(policy, attribute)
+    );
+    const input = await buildPolicyInput(user, subject, context);
+
+    const votes = policies.map((policy) => {
+      const { vote } = evaluatePolicy(policy, input);
+      if (vote !== VoteResult.ABSTAIN) {
+        log.debug('access policy matched', {
+          policy: policy.name,
+          attribute,
+          vote,
+          userId: user.id,
+        });
+      }
+      return vote;
+    });
+
+    return combinePolicyVotes(votes);
+  }
+}
+
+export const policyVoter = new PolicyVoter();
@@ -2,6 +2,7 @@
  * UserVoter - handles authorization for user management actions
  *
  * Supports self-access for view/edit, and role-based access for admin operations.
+ * Which roles grant each permission comes from the role_permissions table.
  *
  * @note This voter uses a loose type guard (any object with `id`) intentionally.
  * The voter registry routes requests to the correct voter based on attribute prefix,
@@ -11,8 +12,7 @@
 import type { Voter } from '../voter';
 import { VoteResult } from '../voter';
 import type { UserWithRoles } from '../role-checker';
-import { hasRole } from '../role-checker';
-import { ROLE_NAMES as ROLES } from '@/lib/constants/roles';
+import { hasRole, getRolesGrantingPermission } from '../role-checker';
 import { PERMISSIONS, isUserPermission } from '../permissions';
 
 /**
@@ -53,17 +53,15 @@ export class UserVoter implements Voter {
       return VoteResult.DENIED;
     }
 
-    // ADMIN can perform all actions on other users
-    if (await hasRole(user, ROLES.ADMIN)) {
-      return VoteResult.GRANTED;
+    // Use type guard to narrow attribute type (supports() already validated this)
+    if (!isUserPermission(attribute)) {
+      return VoteResult.ABSTAIN;
     }
 
-    // MODERATOR can view/edit other users but not delete or manage roles
-    if (await hasRole(user, ROLES.MODERATOR)) {
-      if (
-        attribute === PERMISSIONS.USER.VIEW ||
-        attribute === PERMISSIONS.USER.EDIT
-      ) {
+    // Other users need a platform-wide role granted the permission
+    // (by default MODERATOR views/edits, ADMIN also deletes and manages roles)
+    for (const roleName of await getRolesGrantingPermission(attribute)) {
+      if (await hasRole(user, roleName)) {
         return VoteResult.GRANTED;
       }
     }
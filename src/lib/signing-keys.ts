@@ -0,0 +1,378 @@
+import {
+  generateKeyPair,
+  exportJWK,
+  exportPKCS8,
+  importJWK,
+  importPKCS8,
+  calculateJwkThumbprint,
+  type CryptoKey,
+  type JWK,
+  type JWTHeaderParameters,
+} from 'jose';
+import type { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { env } from './env';
+import { SECURITY_CONFIG } from './config/security';
+
+/**
+ * Asymmetric token signing keys.
+ *
+ * Keys are generated and stored in the database so every instance signs with
+ * the same key, and services can verify our tokens offline against the public
+ * keys published at /.well-known/jwks.json.
+ *
+ * Lifecycle of a key:
+ * 1. Created ahead of its `activatesAt` and published right away
+ * 2. Signs new tokens from `activatesAt` until a newer key activates
+ * 3. Keeps verifying until `retiresAt` (the overlap window), then disappears
+ *    from the JWKS and is rejected
+ *
+ * Rotation is scheduled lazily: whenever the key set is (re)loaded, a successor
+ * is created once the current key is due to rotate.
+ */
+
+export const SIGNING_ALGORITHMS = ['RS256', 'EdDSA'] as const;
+export type SigningAlgorithm = (typeof SIGNING_ALGORITHMS)[number];
+
+export type SigningKeyStatus = 'pending' | 'active' | 'retiring' | 'retired';
+
+export interface SigningKeySummary {
+  id: string;
+  kid: string;
+  algorithm: string;
+  status: SigningKeyStatus;
+  activatesAt: Date;
+  retiresAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ActiveSigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  privateKey: CryptoKey;
+}
+
+interface StoredSigningKey {
+  id: string;
+  kid: string;
+  algorithm: SigningAlgorithm;
+  publicJwk: JWK;
+  privateKeyPem: string;
+  activatesAt: Date;
+  retiresAt: Date | null;
+  createdAt: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Throttles reloads triggered by tokens with an unknown kid
+const UNKNOWN_KID_RELOAD_MS = 30 * 1000;
+
+let keyCache: { keys: StoredSigningKey[]; loadedAt: number } | null = null;
+let keyLoad: Promise<StoredSigningKey[]> | null = null;
+const importedKeys = new Map<string, Promise<CryptoKey>>();
+
+function getConfiguredAlgorithm(): SigningAlgorithm {
+  return env.JWT_SIGNING_ALGORITHM ?? 'RS256';
+}
+
+function isSigningAlgorithm(value: string): value is SigningAlgorithm {
+  return (SIGNING_ALGORITHMS as readonly string[]).includes(value);
+}
+
+function isRetired(key: { retiresAt: Date | null }, now: Date): boolean {
+  return key.retiresAt !== null && key.retiresAt <= now;
+}
+
+/**
+ * The key that signs new tokens: the newest active key that has not been
+ * replaced, or else the newest active key (its successor is still pending).
+ * Expects keys ordered by `activatesAt` descending.
+ */
+function selectSigningKey<
+  T extends { activatesAt: Date; retiresAt: Date | null },
+>(keys: T[], now: Date): T | undefined {
+  const usable = keys.filter(
+    (key) => key.activatesAt <= now && !isRetired(key, now)
+  );
+  return usable.find((key) => key.retiresAt === null) ?? usable[0];
+}
+
+/**
+ * When the successor of the current key should activate, or null if it is
+ * not time to create one yet.
+ */
+function getScheduledActivation(
+  keys: StoredSigningKey[],
+  now: Date
+): Date | null {
+  const { rotationIntervalDays, publishAheadHours } =
+    SECURITY_CONFIG.signingKeys;
+  const earliest = new Date(now.getTime() + publishAheadHours * HOUR_MS);
+
+  // Keys that have been replaced carry a retiresAt
+  const current = keys.find((key) => key.retiresAt === null);
+  if (!current || current.algorithm !== getConfiguredAlgorithm()) {
+    return earliest;
+  }
+
+  // Publish the successor publishAheadHours before the current key is due
+  const dueAt = new Date(
+    current.activatesAt.getTime() + rotationIntervalDays * DAY_MS
+  );
+  return earliest >= dueAt ? earliest : null;
+}
+
+async function loadKeys(): Promise<StoredSigningKey[]> {
+  const rows = await prisma.signingKey.findMany({
+    where: { OR: [{ retiresAt: null }, { retiresAt: { gt: new Date() } }] },
+    orderBy: { activatesAt: 'desc' },
+  });
+
+  return rows.flatMap((row) => {
+    if (!isSigningAlgorithm(row.algorithm)) return [];
+    return {
+      id: row.id,
+      kid: row.kid,
+      algorithm: row.algorithm,
+      publicJwk: row.publicKey as JWK,
+      privateKeyPem: row.privateKey,
+      activatesAt: row.activatesAt,
+      retiresAt: row.retiresAt,
+      createdAt: row.createdAt,
+    };
+  });
+}
+
+async function refreshKeys(): Promise<StoredSigningKey[]> {
+  let keys = await loadKeys();
+  const now = new Date();
+
+  if (!selectSigningKey(keys, now)) {
+    await createSigningKey(now);
+    keys = await loadKeys();
+  } else {
+    const activatesAt = getScheduledActivation(keys, now);
+    if (activatesAt) {
+      await createSigningKey(activatesAt);
+      keys = await loadKeys();
+    }
+  }
+
+  keyCache = { keys, loadedAt: Date.now() };
+  return keys;
+}
+
+async function getKeys(
+  options: { reload?: boolean } = {}
+): Promise<StoredSigningKey[]> {
+  const ttlMs = SECURITY_CONFIG.signingKeys.cacheTtlSeconds * 1000;
+  if (!options.reload && keyCache && Date.now() - keyCache.loadedAt < ttlMs) {
+    return keyCache.keys;
+  }
+
+  if (!keyLoad) {
+    keyLoad = refreshKeys().finally(() => {
+      keyLoad = null;
+    });
+  }
+  return keyLoad;
+}
+
+/**
+ * Create a key that starts signing at `activatesAt`. Every key it replaces
+ * keeps verifying for the overlap window after that, then retires.
+ */
+async function createSigningKey(activatesAt: Date) {
+  const algorithm = getConfiguredAlgorithm();
+  const { publicKey, privateKey } = await generateKeyPair(algorithm, {
+    extractable: true,
+  });
+
+  const jwk = await exportJWK(publicKey);
+  const kid = await calculateJwkThumbprint(jwk);
+  const publicJwk: JWK = { ...jwk, kid, alg: algorithm, use: 'sig' };
+
+  const retiresAt = new Date(
+    activatesAt.getTime() + SECURITY_CONFIG.signingKeys.overlapHours * HOUR_MS
+  );
+
+  return prisma.$transaction(async (tx) => {
+    await tx.signingKey.updateMany({
+      where: { retiresAt: null },
+      data: { retiresAt },
+    });
+
+    return tx.signingKey.create({
+      data: {
+        kid,
+        algorithm,
+        publicKey: publicJwk as Prisma.InputJsonObject,
+        privateKey: await exportPKCS8(privateKey),
+        activatesAt,
+      },
+    });
+  });
+}
+
+function importKey(
+  key: StoredSigningKey,
+  type: 'private' | 'public'
+): Promise<CryptoKey> {
+  const cacheKey = `${type}:${key.kid}`;
+  let imported = importedKeys.get(cacheKey);
+  if (!imported) {
+    imported =
+      type === 'private'
+        ? importPKCS8(key.privateKeyPem, key.algorithm)
+        : (importJWK(key.publicJwk, key.algorithm) as Promise<CryptoKey>);
+    importedKeys.set(cacheKey, imported);
+  }
+  return imported;
+}
+
+function getStatus(
+  key: { id: string; activatesAt: Date; retiresAt: Date | null },
+  signingKeyId: string | undefined,
+  now: Date
+): SigningKeyStatus {
+  if (isRetired(key, now)) return 'retired';
+  if (key.activatesAt > now) return 'pending';
+  return key.id === signingKeyId ? 'active' : 'retiring';
+}
+
+/**
+ * The key to sign new tokens with. Creates the first key, or a scheduled
+ * successor, when needed.
+ */
+export async function getSigningKey(): Promise<ActiveSigningKey> {
+  let key = selectSigningKey(await getKeys(), new Date());
+  if (!key) {
+    // The cached signing key retired since the last load
+    key = selectSigningKey(await getKeys({ reload: true }), new Date());
+  }
+  if (!key) {
+    throw new Error('No signing key available');
+  }
+
+  return {
+    kid: key.kid,
+    algorithm: key.algorithm,
+    privateKey: await importKey(key, 'private'),
+  };
+}
+
+/**
+ * Key resolver for jose's jwtVerify: accepts any key that has not retired,
+ * matched on the token's kid and algorithm.
+ */
+export async function getVerificationKey(
+  header: JWTHeaderParameters
+): Promise<CryptoKey> {
+  const now = new Date();
+  const find = (keys: StoredSigningKey[]) =>
+    keys.find((key) => key.kid === header.kid && !isRetired(key, now));
+
+  let key = find(await getKeys());
+  if (
+    !key &&
+    keyCache &&
+    Date.now() - keyCache.loadedAt > UNKNOWN_KID_RELOAD_MS
+  ) {
+    // Another instance may have rotated
+    key = find(await getKeys({ reload: true }));
+  }
+
+  if (!key || key.algorithm !== header.alg) {
+    throw new Error('Unknown signing key');
+  }
+
+  return importKey(key, 'public');
+}
+
+/**
+ * Public keys of every key that has not retired, in JWKS format.
+ */
+export async function getPublicJwks(): Promise<{ keys: JWK[] }> {
+  const now = new Date();
+  const keys = await getKeys();
+  return {
+    keys: keys
+      .filter((key) => !isRetired(key, now))
+      .map((key) => key.publicJwk),
+  };
+}
+
+/**
+ * All keys, newest first, including retired ones.
+ */
+export async function listSigningKeys(): Promise<SigningKeySummary[]> {
+  const rows = await prisma.signingKey.findMany({
+    select: {
+      id: true,
+      kid: true,
+      algorithm: true,
+      activatesAt: true,
+      retiresAt: true,
+      createdAt: true,
+    },
+    orderBy: { activatesAt: 'desc' },
+  });
+
+  const now = new Date();
+  const signingKeyId = selectSigningKey(rows, now)?.id;
+
+  return rows.map((row) => ({
+    ...row,
+    status: getStatus(row, signingKeyId, now),
+  }));
+}
+
+/**
+ * Replace the signing key immediately, outside the schedule. Verifiers that
+ * cache the JWKS pick up the new key when they see its kid.
+ */
+export async function rotateSigningKey(): Promise<SigningKeySummary> {
+  const key = await createSigningKey(new Date());
+  clearSigningKeyCache();
+
+  return {
+    id: key.id,
+    kid: key.kid,
+    algorithm: key.algorithm,
+    status: 'active',
+    activatesAt: key.activatesAt,
+    retiresAt: key.retiresAt,
+    createdAt: key.createdAt,
+  };
+}
+
+/**
+ * Retire a key now (e.g. if it leaked). Tokens signed with it stop
+ * verifying; if it was signing, a new key replaces it.
+ *
+ * Other instances keep accepting the key until their cache expires.
+ *
+ * @returns false if the key does not exist or already retired
+ */
+export async function retireSigningKey(id: string): Promise<boolean> {
+  const now = new Date();
+  const { count } = await prisma.signingKey.updateMany({
+    where: {
+      id,
+      OR: [{ retiresAt: null }, { retiresAt: { gt: now } }],
+    },
+    data: { retiresAt: now },
+  });
+
+  clearSigningKeyCache();
+  return count > 0;
+}
+
+/**
+ * Drop cached keys so the next call reloads them from the database.
+ */
+export function clearSigningKeyCache(): void {
+  keyCache = null;
+}
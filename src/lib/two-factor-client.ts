@@ -0,0 +1,56 @@
+/**
+ * Browser-side helpers for completing a pending 2FA login.
+ * Use from client components only.
+ */
+
+import type { TwoFactorFactor } from '@/types/auth';
+
+export interface PendingTwoFactor {
+  factors: TwoFactorFactor[];
+  /** Set when risk scoring already emailed a code */
+  challenge?: 'email_code';
+}
+
+/**
+ * Fetch the factors the user can complete the pending login with.
+ * @param pendingToken - Pending 2FA token from the first login step
+ * @throws Error with a user-facing message if the token is invalid
+ */
+export async function fetchTwoFactorFactors(
+  pendingToken: string
+): Promise<PendingTwoFactor> {
+  const res = await fetch('/api/auth/2fa/pending/factors', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ pendingToken }),
+  });
+  const data = await res.json();
+
+  if (!res.ok) {
+    throw new Error(
+      data.error?.message || 'Session expired, please login again'
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Ask the server to email a sign-in code for the pending login.
+ * @param pendingToken - Pending 2FA token from the first login step
+ * @throws Error with a user-facing message if the code cannot be sent
+ */
+export async function requestTwoFactorEmailCode(
+  pendingToken: string
+): Promise<void> {
+  const res = await fetch('/api/auth/2fa/pending/email-code', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ pendingToken }),
+  });
+
+  if (!res.ok) {
+    const data = await res.json();
+    throw new Error(data.error?.message || 'Failed to send code');
+  }
+}
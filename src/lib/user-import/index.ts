@@ -0,0 +1,420 @@
+/**
+ * Bulk user import.
+ *
+ * Admins upload a CSV or JSON file of users. A dry run validates every row
+ * and reports what an import would do. An import creates the valid rows in
+ * batches of `SECURITY_CONFIG.userImport.batchSize`, so the caller can show
+ * progress and no single request runs long. Every user created from one file
+ * is audited with the same import batch ID.
+ */
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import log from '@/lib/logger';
+import { logAuditEvent } from '@/lib/audit';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { ROLES } from '@/lib/security/index';
+import { generateResetToken, hashResetToken } from '@/lib/security';
+import { isSupportedPasswordHash } from '@/lib/auth/password-hashing';
+import { sendAccountInviteEmail, sendVerificationEmail } from '@/lib/email';
+import { userImportRowSchema, userImportSchema } from '@/lib/validations';
+import { ValidationError } from '@/services/auth.errors';
+import { parseCsv } from './csv';
+
+export type UserImportRow = z.infer<typeof userImportRowSchema>;
+
+export type UserImportOptions = Pick<
+  z.infer<typeof userImportSchema>,
+  'organization' | 'role' | 'welcomeEmail' | 'emailVerified'
+>;
+
+export type UserImportRowStatus = 'valid' | 'created' | 'invalid' | 'failed';
+
+export interface UserImportRowResult {
+  /** 1-based position of the user in the file */
+  row: number;
+  email: string | null;
+  status: UserImportRowStatus;
+  errors: string[];
+  userId?: string;
+}
+
+export interface UserImportContext {
+  batchId: string;
+  importedBy: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface ValidatedRow {
+  result: UserImportRowResult;
+  data?: UserImportRow & { roleId?: string; organizationId?: string };
+}
+
+const COLUMNS = Object.keys(userImportRowSchema.shape);
+
+/**
+ * Parse an import file into one record per user. CSV files need a header
+ * row naming the columns; unknown columns are ignored.
+ *
+ * @throws ValidationError when the file is malformed or too large
+ */
+export function parseUserImportFile(
+  content: string,
+  format: 'csv' | 'json'
+): Record<string, unknown>[] {
+  let records: unknown;
+  try {
+    records = format === 'csv' ? csvToRecords(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(`The file is not valid ${format.toUpperCase()}`, {
+      details: {
+        content: [error instanceof Error ? error.message : String(error)],
+      },
+    });
+  }
+
+  if (
+    !Array.isArray(records) ||
+    !records.every((record) => typeof record === 'object' && record !== null)
+  ) {
+    throw new ValidationError('The file must contain a list of users', {
+      details: { content: ['Expected a JSON array of objects'] },
+    });
+  }
+  if (records.length === 0) {
+    throw new ValidationError('The file contains no users');
+  }
+  if (records.length > SECURITY_CONFIG.userImport.maxRows) {
+    throw new ValidationError(
+      `At most ${SECURITY_CONFIG.userImport.maxRows} users can be imported at once`
+    );
+  }
+  return records as Record<string, unknown>[];
+}
+
+function csvToRecords(content: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim());
+  if (!columns.includes('email')) {
+    throw new Error('The header row must include an "email" column');
+  }
+
+  return rows.map((cells) =>
+    Object.fromEntries(
+      columns
+        .map((column, i) => [column, cells[i] ?? ''] as const)
+        .filter(([column]) => COLUMNS.includes(column))
+    )
+  );
+}
+
+// Spreadsheets leave empty cells for missing values
+function normalizeRecord(record: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(record)
+      .map(([key, value]) => [
+        key,
+        typeof value === 'string' ? value.trim() : value,
+      ])
+      .filter(([, value]) => value !== '' && value !== null)
+  );
+}
+
+function getEmail(record: Record<string, unknown>): string | null {
+  return typeof record.email === 'string' ? record.email.trim() : null;
+}
+
+// Map each lowercased value to the first row it appears on
+function firstOccurrences(
+  records: Record<string, unknown>[],
+  field: 'email' | 'username'
+): Map<string, number> {
+  const rows = new Map<string, number>();
+  records.forEach((record, index) => {
+    const value = record[field];
+    if (typeof value === 'string' && value.trim()) {
+      const key = value.trim().toLowerCase();
+      if (!rows.has(key)) rows.set(key, index);
+    }
+  });
+  return rows;
+}
+
+/**
+ * Validate the records in [start, end) against the row schema, the other
+ * rows of the file and the existing users, organizations and roles.
+ */
+async function validateRows(
+  records: Record<string, unknown>[],
+  options: UserImportOptions,
+  start: number,
+  end: number
+): Promise<ValidatedRow[]> {
+  const emailRows = firstOccurrences(records, 'email');
+  const usernameRows = firstOccurrences(records, 'username');
+
+  const parsed = records.slice(start, end).map((record, i) => {
+    const index = start + i;
+    const result = userImportRowSchema.safeParse({
+      organization: options.organization,
+      role: options.role,
+      ...normalizeRecord(record),
+    });
+    const errors = result.success
+      ? []
+      : result.error.issues.map(
+          (issue) => `${issue.path.join('.') || 'row'}: ${issue.message}`
+        );
+
+    if (result.success) {
+      const { email, username, passwordHash } = result.data;
+      const firstEmailRow = emailRows.get(email.toLowerCase());
+      if (firstEmailRow !== undefined && firstEmailRow < index) {
+        errors.push(`email: Duplicate of row ${firstEmailRow + 1}`);
+      }
+      const firstUsernameRow =
+        username && usernameRows.get(username.toLowerCase());
+      if (typeof firstUsernameRow === 'number' && firstUsernameRow < index) {
+        errors.push(`username: Duplicate of row ${firstUsernameRow + 1}`);
+      }
+      if (passwordHash && !isSupportedPasswordHash(passwordHash)) {
+        errors.push('passwordHash: Unsupported password hash format');
+      }
+    }
+
+    return {
+      index,
+      email: getEmail(record),
+      data: result.success ? result.data : undefined,
+      errors,
+    };
+  });
+
+  const rows = parsed.flatMap((row) => (row.data ? [row.data] : []));
+  const emails = rows.map((row) => row.email);
+  const usernames = rows.flatMap((row) => (row.username ? [row.username] : []));
+  const slugs = [...new Set(rows.flatMap((row) => row.organization ?? []))];
+  const roleNames = [
+    ...new Set(
+      rows.flatMap((row) =>
+        row.role ? [row.role] : row.organization ? [ROLES.USER] : []
+      )
+    ),
+  ];
+
+  const [existingUsers, organizations, roles] = await Promise.all([
+    prisma.user.findMany({
+      where: {
+        OR: [
+          { email: { in: emails, mode: 'insensitive' } },
+          { username: { in: usernames, mode: 'insensitive' } },
+        ],
+      },
+      select: { email: true, username: true },
+    }),
+    slugs.length > 0
+      ? prisma.organization.findMany({
+          where: { slug: { in: slugs } },
+          select: { id: true, slug: true },
+        })
+      : [],
+    roleNames.length > 0
+      ? prisma.role.findMany({
+          where: { name: { in: roleNames } },
+          select: { id: true, name: true },
+        })
+      : [],
+  ]);
+
+  const takenEmails = new Set(
+    existingUsers.map((user) => user.email.toLowerCase())
+  );
+  const takenUsernames = new Set(
+    existingUsers.flatMap((user) =>
+      user.username ? [user.username.toLowerCase()] : []
+    )
+  );
+  const organizationIds = new Map(
+    organizations.map((organization) => [organization.slug, organization.id])
+  );
+  const roleIds = new Map(roles.map((role) => [role.name, role.id]));
+
+  return parsed.map(({ index, email, data, errors }) => {
+    let resolved: ValidatedRow['data'];
+
+    if (data) {
+      if (takenEmails.has(data.email.toLowerCase())) {
+        errors.push('email: A user with this email already exists');
+      }
+      if (data.username && takenUsernames.has(data.username.toLowerCase())) {
+        errors.push('username: A user with this username already exists');
+      }
+
+      const organizationId = data.organization
+        ? organizationIds.get(data.organization)
+        : undefined;
+      if (data.organization && !organizationId) {
+        errors.push(`organization: No organization "${data.organization}"`);
+      }
+
+      // Organization members get the base role unless the row names one
+      const roleName = data.role ?? (data.organization ? ROLES.USER : null);
+      const roleId = roleName ? roleIds.get(roleName) : undefined;
+      if (roleName && !roleId) {
+        errors.push(`role: No role "${roleName}"`);
+      }
+
+      resolved = { ...data, organizationId, roleId };
+    }
+
+    const valid = errors.length === 0;
+    return {
+      result: {
+        row: index + 1,
+        email,
+        status: valid ? 'valid' : 'invalid',
+        errors,
+      },
+      data: valid ? resolved : undefined,
+    };
+  });
+}
+
+/**
+ * Dry run: report for every record whether it can be imported.
+ */
+export async function validateUserImport(
+  records: Record<string, unknown>[],
+  options: UserImportOptions
+): Promise<UserImportRowResult[]> {
+  const rows = await validateRows(records, options, 0, records.length);
+  return rows.map((row) => row.result);
+}
+
+/**
+ * Import the batch of records starting at `offset`. Invalid rows are
+ * reported and skipped; valid rows are created, welcomed by email and
+ * audited with the batch ID.
+ *
+ * @returns One result per record of the batch
+ */
+export async function importUserBatch(
+  records: Record<string, unknown>[],
+  offset: number,
+  options: UserImportOptions,
+  context: UserImportContext
+): Promise<UserImportRowResult[]> {
+  const end = Math.min(
+    offset + SECURITY_CONFIG.userImport.batchSize,
+    records.length
+  );
+  const rows = await validateRows(records, options, offset, end);
+
+  const results: UserImportRowResult[] = [];
+  for (const { result, data } of rows) {
+    if (!data) {
+      results.push(result);
+      continue;
+    }
+
+    try {
+      const userId = await createImportedUser(data, options, context);
+      results.push({ ...result, status: 'created', userId });
+    } catch (error) {
+      log.error('User import row failed', {
+        row: result.row,
+        error: String(error),
+      });
+      results.push({
+        ...result,
+        status: 'failed',
+        errors: ['The user could not be created'],
+      });
+    }
+  }
+  return results;
+}
+
+async function createImportedUser(
+  data: NonNullable<ValidatedRow['data']>,
+  options: UserImportOptions,
+  context: UserImportContext
+): Promise<string> {
+  const now = new Date();
+  const token =
+    options.welcomeEmail === 'none' ? null : await generateResetToken();
+  const hashedToken = token ? await hashResetToken(token) : null;
+  const inviteExpiresAt = new Date(
+    now.getTime() +
+      SECURITY_CONFIG.userImport.inviteExpiryDays * 24 * 60 * 60 * 1000
+  );
+
+  // Invited users activate their account by setting a password
+  const invited = options.welcomeEmail === 'invite' && !data.passwordHash;
+
+  const user = await prisma.user.create({
+    data: {
+      email: data.email,
+      username: data.username,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      password: data.passwordHash ?? null,
+      passwordChangedAt: data.passwordHash ? now : null,
+      emailVerified: options.emailVerified,
+      emailVerifiedAt: options.emailVerified ? now : null,
+      ...(invited && { status: 'INVITED', isActive: false }),
+      ...(options.welcomeEmail === 'invite' && {
+        passwordResetToken: hashedToken,
+        passwordResetExpires: inviteExpiresAt,
+      }),
+      ...(options.welcomeEmail === 'verification' && {
+        emailVerificationToken: hashedToken,
+        emailVerificationExpires: new Date(now.getTime() + 24 * 60 * 60 * 1000), // 24 hours
+      }),
+      ...(data.roleId && {
+        userRoles: {
+          create: {
+            roleId: data.roleId,
+            organizationId: data.organizationId ?? null,
+          },
+        },
+      }),
+    },
+    select: { id: true },
+  });
+
+  // Welcome emails are fire-and-forget, like registration
+  if (token && options.welcomeEmail === 'invite') {
+    sendAccountInviteEmail(
+      data.email,
+      token,
+      inviteExpiresAt,
+      data.firstName,
+      user.id
+    ).catch((err) => log.email.failed('invite', data.email, err));
+  } else if (token && options.welcomeEmail === 'verification') {
+    sendVerificationEmail(data.email, token, data.firstName, user.id).catch(
+      (err) => log.email.failed('verification', data.email, err)
+    );
+  }
+
+  await logAuditEvent({
+    action: 'ADMIN_USER_IMPORTED',
+    category: 'admin',
+    userId: user.id,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: {
+      importedBy: context.importedBy,
+      importBatchId: context.batchId,
+      targetEmail: data.email,
+      organizationId: data.organizationId ?? null,
+      role: data.roleId ? (data.role ?? ROLES.USER) : null,
+      passwordImported: Boolean(data.passwordHash),
+    },
+  });
+
+  return user.id;
+}
@@ -0,0 +1,102 @@
+import { isIPv4, isIPv6 } from 'net';
+
+/**
+ * IP address and network parsing shared by the login risk IP database and
+ * access policies.
+ */
+
+function parseIPv4(address: string): bigint {
+  return address
+    .split('.')
+    .reduce(
+      (acc, octet) => (acc << BigInt(8)) + BigInt(Number(octet)),
+      BigInt(0)
+    );
+}
+
+function parseIPv6(address: string): bigint {
+  let value = address;
+
+  // Embedded IPv4 tail (e.g. ::ffff:192.0.2.1)
+  const lastColon = value.lastIndexOf(':');
+  const tail = value.slice(lastColon + 1);
+  if (isIPv4(tail)) {
+    const v4 = parseIPv4(tail);
+    value = `${value.slice(0, lastColon + 1)}${(v4 >> BigInt(16)).toString(16)}:${(v4 & BigInt(0xffff)).toString(16)}`;
+  }
+
+  const [head, rest] = value.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const restGroups = rest ? rest.split(':') : [];
+  const groups =
+    rest === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...Array(8 - headGroups.length - restGroups.length).fill('0'),
+          ...restGroups,
+        ];
+
+  return groups.reduce(
+    (acc, group) => (acc << BigInt(16)) + BigInt(parseInt(group, 16)),
+    BigInt(0)
+  );
+}
+
+/**
+ * Parse an IP address into its numeric value. IPv4-mapped IPv6 addresses
+ * are treated as IPv4.
+ */
+export function parseAddress(
+  address: string
+): { v6: boolean; value: bigint } | null {
+  if (isIPv4(address)) {
+    return { v6: false, value: parseIPv4(address) };
+  }
+  if (isIPv6(address)) {
+    const value = parseIPv6(address);
+    if (value >> BigInt(32) === BigInt(0xffff)) {
+      return { v6: false, value: value & BigInt(0xffffffff) };
+    }
+    return { v6: true, value };
+  }
+  return null;
+}
+
+/**
+ * Parse a network in CIDR notation (or a single address) into the range of
+ * numeric values it covers.
+ */
+export function parseNetwork(
+  network: string
+): { v6: boolean; start: bigint; end: bigint } | null {
+  const [address, prefix] = network.split('/');
+  const parsed = parseAddress(address);
+  if (!parsed) return null;
+
+  const bits = parsed.v6 ? 128 : 32;
+  const prefixLength = prefix === undefined ? bits : Number(prefix);
+  if (
+    !Number.isInteger(prefixLength) ||
+    prefixLength < 0 ||
+    prefixLength > bits
+  ) {
+    return null;
+  }
+
+  const hostBits = BigInt(bits - prefixLength);
+  const start = (parsed.value >> hostBits) << hostBits;
+  const end = start + (BigInt(1) << hostBits) - BigInt(1);
+  return { v6: parsed.v6, start, end };
+}
+
+/**
+ * Check whether an address is inside a network (CIDR notation or a single
+ * address). Malformed input never matches.
+ */
+export function isAddressInNetwork(address: string, network: string): boolean {
+  const parsed = parseAddress(address);
+  const range = parseNetwork(network);
+  if (!parsed || !range || parsed.v6 !== range.v6) return false;
+  return parsed.value >= range.start && parsed.value <= range.end;
+}
@@ -1,3 +1,12 @@
+import {
+  checkPasswordRules,
+  DEFAULT_PASSWORD_POLICY,
+  getPasswordRequirements,
+  isCommonPassword,
+  type PasswordPolicy,
+  type PasswordViolationCode,
+} from '@/lib/auth/password-policy/rules';
+
 export interface PasswordStrength {
   score: 0 | 1 | 2 | 3 | 4; // 0 = very weak, 4 = very strong
   label: 'Very Weak' | 'Weak' | 'Fair' | 'Strong' | 'Very Strong';
@@ -11,48 +20,24 @@ export interface PasswordRequirement {
   met: boolean;
 }
 
-const COMMON_PASSWORDS = [
-  'password',
-  '123456',
-  '12345678',
-  'qwerty',
-  'abc123',
-  'monkey',
-  'letmein',
-  'dragon',
-  '111111',
-  'baseball',
-  'iloveyou',
-  'trustno1',
-  'sunshine',
-  'master',
-  'welcome',
-  'shadow',
-  'ashley',
-  'football',
-  'jesus',
-  'michael',
-  'ninja',
-  'password1',
-  'password123',
-  'admin',
-  'admin123',
-  'root',
-  'toor',
-  'pass',
-];
-
-export function calculatePasswordStrength(password: string): PasswordStrength {
-  const requirements: PasswordRequirement[] = [
-    { label: 'At least 8 characters', met: password.length >= 8 },
-    { label: 'Contains uppercase letter', met: /[A-Z]/.test(password) },
-    { label: 'Contains lowercase letter', met: /[a-z]/.test(password) },
-    { label: 'Contains number', met: /[0-9]/.test(password) },
-    {
-      label: 'Contains special character',
-      met: /[!@#$%^&*(),.?":{}|<>]/.test(password),
-    },
-  ];
+const RULE_SUGGESTIONS: Partial<
+  Record<PasswordViolationCode, (policy: PasswordPolicy) => string>
+> = {
+  too_short: (policy) => `Make it at least ${policy.minLength} characters`,
+  missing_uppercase: () => 'Add an uppercase letter',
+  missing_lowercase: () => 'Add a lowercase letter',
+  missing_number: () => 'Add a number',
+  missing_symbol: () => 'Add a special character (!@#$%^&*)',
+};
+
+export function calculatePasswordStrength(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): PasswordStrength {
+  const requirements: PasswordRequirement[] = getPasswordRequirements(
+    password,
+    policy
+  );
 
   const suggestions: string[] = [];
   let score: 0 | 1 | 2 | 3 | 4 = 0;
@@ -69,7 +54,7 @@ export function calculatePasswordStrength(password: string): PasswordStrength {
   }
 
   // Check for common passwords
-  if (COMMON_PASSWORDS.includes(password.toLowerCase())) {
+  if (isCommonPassword(password)) {
     return {
       score: 0,
       label: 'Very Weak',
@@ -117,12 +102,10 @@ export function calculatePasswordStrength(password: string): PasswordStrength {
   score = Math.max(0, Math.min(4, rawScore)) as 0 | 1 | 2 | 3 | 4;
 
   // Add suggestions based on unmet requirements
-  if (!requirements[0].met) suggestions.push('Make it at least 8 characters');
-  if (!requirements[1].met) suggestions.push('Add an uppercase letter');
-  if (!requirements[2].met) suggestions.push('Add a lowercase letter');
-  if (!requirements[3].met) suggestions.push('Add a number');
-  if (!requirements[4].met)
-    suggestions.push('Add a special character (!@#$%^&*)');
+  for (const violation of checkPasswordRules(password, policy)) {
+    const suggestion = RULE_SUGGESTIONS[violation.code];
+    if (suggestion) suggestions.push(suggestion(policy));
+  }
 
   if (password.length < 12 && score < 4) {
     suggestions.push('Consider making it longer (12+ characters)');
@@ -1,9 +1,47 @@
 import { z } from 'zod';
 import { ApiKeyPermission } from '@prisma/client';
+import {
+  checkPasswordRules,
+  DEFAULT_PASSWORD_POLICY,
+} from '@/lib/auth/password-policy/rules';
+import { SECURITY_CONFIG } from '@/lib/config/security';
 
 // Legacy role values (stored in roles table as ROLE_USER, ROLE_MODERATOR, ROLE_ADMIN)
 const LEGACY_ROLES = ['USER', 'MODERATOR', 'ADMIN'] as const;
 
+// Platform password rules. Services check the full policy (organization
+// overrides, personal information, reuse, breaches) with assertPasswordAllowed.
+const newPasswordSchema = z.string().superRefine((password, ctx) => {
+  for (const violation of checkPasswordRules(
+    password,
+    DEFAULT_PASSWORD_POLICY
+  )) {
+    ctx.addIssue({ code: 'custom', message: violation.message });
+  }
+});
+
+// User field schemas shared by registration, profile and import
+const emailSchema = z.string().email('Please enter a valid email address');
+
+const usernameSchema = z
+  .string()
+  .min(3, 'Username must be at least 3 characters')
+  .max(20, 'Username must be at most 20 characters')
+  .regex(
+    /^[a-zA-Z0-9_]+$/,
+    'Username can only contain letters, numbers, and underscores'
+  );
+
+const firstNameSchema = z
+  .string()
+  .min(1, 'First name is required')
+  .max(50, 'First name must be at most 50 characters');
+
+const lastNameSchema = z
+  .string()
+  .min(1, 'Last name is required')
+  .max(50, 'Last name must be at most 50 characters');
+
 // Auth validation schemas
 export const loginSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
@@ -13,34 +51,12 @@ export const loginSchema = z.object({
 
 export const registerSchema = z
   .object({
-    email: z.string().email('Please enter a valid email address'),
-    username: z
-      .string()
-      .min(3, 'Username must be at least 3 characters')
-      .max(20, 'Username must be at most 20 characters')
-      .regex(
-        /^[a-zA-Z0-9_]+$/,
-        'Username can only contain letters, numbers, and underscores'
-      )
-      .optional(),
-    password: z
-      .string()
-      .min(8, 'Password must be at least 8 characters')
-      .regex(
-        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-        'Password must contain uppercase, lowercase, number, and special character'
-      ),
+    email: emailSchema,
+    username: usernameSchema.optional(),
+    password: newPasswordSchema,
     confirmPassword: z.string(),
-    firstName: z
-      .string()
-      .min(1, 'First name is required')
-      .max(50, 'First name must be at most 50 characters')
-      .optional(),
-    lastName: z
-      .string()
-      .min(1, 'Last name is required')
-      .max(50, 'Last name must be at most 50 characters')
-      .optional(),
+    firstName: firstNameSchema.optional(),
+    lastName: lastNameSchema.optional(),
     // Organization: either create new org or join via invite
     organizationName: z
       .string()
@@ -69,38 +85,16 @@ export const registerSchema = z
 
 // User profile validation schemas
 export const updateProfileSchema = z.object({
-  username: z
-    .string()
-    .min(3, 'Username must be at least 3 characters')
-    .max(20, 'Username must be at most 20 characters')
-    .regex(
-      /^[a-zA-Z0-9_]+$/,
-      'Username can only contain letters, numbers, and underscores'
-    )
-    .optional(),
-  firstName: z
-    .string()
-    .min(1, 'First name is required')
-    .max(50, 'First name must be at most 50 characters')
-    .optional(),
-  lastName: z
-    .string()
-    .min(1, 'Last name is required')
-    .max(50, 'Last name must be at most 50 characters')
-    .optional(),
-  email: z.string().email('Please enter a valid email address').optional(),
+  username: usernameSchema.optional(),
+  firstName: firstNameSchema.optional(),
+  lastName: lastNameSchema.optional(),
+  email: emailSchema.optional(),
 });
 
 export const changePasswordSchema = z
   .object({
     currentPassword: z.string().min(1, 'Current password is required'),
-    newPassword: z
-      .string()
-      .min(8, 'Password must be at least 8 characters')
-      .regex(
-        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-        'Password must contain uppercase, lowercase, number, and special character'
-      ),
+    newPassword: newPasswordSchema,
     confirmPassword: z.string(),
   })
   .refine((data) => data.newPassword === data.confirmPassword, {
@@ -129,6 +123,105 @@ export const updateUserStatusSchema = z.object({
   isActive: z.boolean(),
 });
 
+// Admins suspend and reactivate users; invitations and deletions set the
+// other statuses
+export const changeUserStatusSchema = z
+  .object({
+    status: z.enum(['ACTIVE', 'SUSPENDED']),
+    reason: z.string().trim().max(500).optional(),
+    // End of the suspension; omitted for indefinite suspensions
+    until: z.coerce
+      .date()
+      .refine((date) => date > new Date(), 'Must be in the future')
+      .optional(),
+  })
+  .refine((data) => data.status === 'SUSPENDED' || !data.until, {
+    message: 'Only suspensions can expire',
+    path: ['until'],
+  });
+
+// Bulk user import validation schemas
+export const userImportRowSchema = z.object({
+  email: emailSchema,
+  username: usernameSchema.optional(),
+  firstName: firstNameSchema.optional(),
+  lastName: lastNameSchema.optional(),
+  // Hash from a legacy system; see isSupportedPasswordHash
+  passwordHash: z.string().optional(),
+  // Organization slug and role name to assign
+  organization: z.string().optional(),
+  role: z
+    .string()
+    .regex(/^ROLE_[A-Z][A-Z0-9_]+$/, 'Role must be a name like ROLE_USER')
+    .optional(),
+});
+
+export const userImportSchema = z
+  .object({
+    format: z.enum(['csv', 'json']),
+    content: z.string().min(1, 'The file is empty'),
+    dryRun: z.boolean().default(true),
+    // Identifies the import across its batches; assigned by the first batch
+    batchId: z.string().uuid().optional(),
+    offset: z.number().int().min(0).default(0),
+    // Defaults for rows without an organization or role
+    organization: z.string().optional(),
+    role: userImportRowSchema.shape.role,
+    welcomeEmail: z.enum(['invite', 'verification', 'none']).default('invite'),
+    emailVerified: z.boolean().default(false),
+  })
+  .refine(
+    (data) => !(data.emailVerified && data.welcomeEmail === 'verification'),
+    {
+      message: 'Verification emails are not sent to verified addresses',
+      path: ['welcomeEmail'],
+    }
+  );
+
+// Authorization trace (admin): explain an isGranted() check for a user
+export const accessTraceSchema = z.object({
+  // User ID or email
+  user: z.string().trim().min(1, 'User is required'),
+  attribute: z.string().trim().min(1, 'Attribute is required').max(100),
+  // Organization ID or slug, user ID or email
+  subject: z
+    .object({
+      type: z.enum(['organization', 'user']),
+      id: z.string().trim().min(1, 'Subject is required'),
+    })
+    .optional(),
+});
+
+// Just-in-time role request: a role for a limited time, with a reason
+const { minDurationMinutes, maxDurationHours } = SECURITY_CONFIG.roleRequests;
+
+export const createRoleRequestSchema = z.object({
+  role: z
+    .string()
+    .regex(/^ROLE_[A-Z][A-Z0-9_]+$/, 'Role must be a name like ROLE_USER')
+    .refine(
+      (role) => SECURITY_CONFIG.roleRequests.requestableRoles.includes(role),
+      'This role cannot be requested'
+    ),
+  // Omit for a platform-wide role
+  organizationId: z.string().min(1).nullable().optional(),
+  durationMinutes: z
+    .number()
+    .int()
+    .min(minDurationMinutes, `Request at least ${minDurationMinutes} minutes`)
+    .max(maxDurationHours * 60, `Request at most ${maxDurationHours} hours`),
+  justification: z
+    .string()
+    .trim()
+    .min(10, 'Explain why you need this role')
+    .max(1000),
+});
+
+export const reviewRoleRequestSchema = z.object({
+  decision: z.enum(['approve', 'deny']),
+  note: z.string().trim().max(500).optional(),
+});
+
 // Password reset validation schemas
 export const requestPasswordResetSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
@@ -137,13 +230,7 @@ export const requestPasswordResetSchema = z.object({
 export const resetPasswordSchema = z
   .object({
     token: z.string().min(1, 'Reset token is required'),
-    password: z
-      .string()
-      .min(8, 'Password must be at least 8 characters')
-      .regex(
-        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-        'Password must contain uppercase, lowercase, number, and special character'
-      ),
+    password: newPasswordSchema,
     confirmPassword: z.string(),
   })
   .refine((data) => data.password === data.confirmPassword, {
@@ -151,6 +238,15 @@ export const resetPasswordSchema = z
     path: ['confirmPassword'],
   });
 
+// Magic link sign-in validation schemas
+export const requestMagicLinkSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+export const verifyMagicLinkSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
 // API Key validation schemas
 export const createApiKeySchema = z
   .object({
@@ -197,6 +293,40 @@ export const updateApiKeySchema = z
     }
   );
 
+// WebAuthn credential responses are verified cryptographically by the
+// server library; this only checks the envelope shape.
+const webauthnCredentialSchema = z.looseObject({
+  id: z.string().min(1),
+  rawId: z.string().min(1),
+  type: z.literal('public-key'),
+  response: z.looseObject({ clientDataJSON: z.string() }),
+  clientExtensionResults: z.record(z.string(), z.unknown()).default({}),
+});
+
+export const passkeyRegistrationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  response: webauthnCredentialSchema,
+});
+
+export const passkeyAuthenticationSchema = z.object({
+  response: webauthnCredentialSchema,
+});
+
+export const reauthenticateSchema = z.discriminatedUnion('method', [
+  z.object({
+    method: z.literal('password'),
+    password: z.string().min(1, 'Password is required'),
+  }),
+  z.object({
+    method: z.literal('totp'),
+    code: z.string().length(6).regex(/^\d+$/, 'Code must be 6 digits'),
+  }),
+  z.object({
+    method: z.literal('passkey'),
+    response: webauthnCredentialSchema,
+  }),
+]);
+
 // Type inference
 export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
 export type UpdateApiKeyInput = z.infer<typeof updateApiKeySchema>;
@@ -207,7 +337,12 @@ export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 export type UserListParams = z.infer<typeof userListParamsSchema>;
 export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
 export type UpdateUserStatusInput = z.infer<typeof updateUserStatusSchema>;
+export type ChangeUserStatusInput = z.infer<typeof changeUserStatusSchema>;
+export type AccessTraceInput = z.infer<typeof accessTraceSchema>;
+export type CreateRoleRequestInput = z.infer<typeof createRoleRequestSchema>;
+export type ReviewRoleRequestInput = z.infer<typeof reviewRoleRequestSchema>;
 export type RequestPasswordResetInput = z.infer<
   typeof requestPasswordResetSchema
 >;
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type RequestMagicLinkInput = z.infer<typeof requestMagicLinkSchema>;
@@ -0,0 +1,40 @@
+/**
+ * Browser-side passkey helpers.
+ * Use from client components only.
+ */
+
+import {
+  startAuthentication,
+  type AuthenticationResponseJSON,
+} from '@simplewebauthn/browser';
+
+/**
+ * Fetch assertion options and prompt the user for a passkey.
+ * @param pendingToken - Pending 2FA token when the passkey is the second factor
+ * @returns The signed assertion to send back to the server
+ * @throws Error with a user-facing message if options fail or the prompt is cancelled
+ */
+export async function requestPasskeyAssertion(
+  pendingToken?: string
+): Promise<AuthenticationResponseJSON> {
+  const res = await fetch('/api/auth/webauthn/authenticate/options', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(pendingToken ? { pendingToken } : {}),
+  });
+  const optionsJSON = await res.json();
+
+  if (!res.ok) {
+    throw new Error(optionsJSON.error?.message || 'Passkey sign in failed');
+  }
+
+  try {
+    return await startAuthentication({ optionsJSON });
+  } catch (err) {
+    // The browser throws NotAllowedError when the user cancels the prompt
+    if (err instanceof Error && err.name === 'NotAllowedError') {
+      throw new Error('Passkey sign in was cancelled');
+    }
+    throw err;
+  }
+}
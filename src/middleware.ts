@@ -13,6 +13,11 @@ import {
   createCsrfRateLimitResponse,
 } from '@/lib/csrf';
 import { isGranted, ROLES, type RoleName } from '@/lib/security/index';
+import {
+  isTwoFactorEnrollmentRequired,
+  TWO_FACTOR_SETUP_PATH,
+} from '@/lib/auth/two-factor-policy';
+import { PASSWORD_CHANGE_PATH } from '@/lib/auth/password-expiry';
 import {
   isOriginAllowed,
   addCorsHeaders,
@@ -49,6 +54,8 @@ const authRoutes = [
   '/register',
   '/forgot-password',
   '/reset-password',
+  '/magic-link',
+  '/sso',
 ];
 
 // Define OAuth routes that are public (part of auth flow)
@@ -151,6 +158,7 @@ export async function middleware(request: NextRequest) {
     pathname.startsWith('/_next') ||
     pathname.startsWith('/api/auth') ||
     pathname.startsWith('/invite/') || // Public invite pages
+    pathname.startsWith('/scim/') || // SCIM uses its own bearer tokens
     publicApiRoutes.some((route) => pathname.startsWith(route)) ||
     oauthRoutes.includes(pathname) || // OAuth flow pages
     pathname.includes('.') ||
@@ -164,6 +172,49 @@ export async function middleware(request: NextRequest) {
     const session = await getSessionFromRequest(request);
     const isAuthenticated = session.isLoggedIn && session.userId;
 
+    // Users past their 2FA grace period can only enroll (the /api/auth
+    // setup endpoints are outside this middleware)
+    if (
+      isAuthenticated &&
+      isTwoFactorEnrollmentRequired(session) &&
+      pathname !== TWO_FACTOR_SETUP_PATH
+    ) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json(
+          {
+            error: {
+              type: 'TWO_FACTOR_ENROLLMENT_REQUIRED',
+              message:
+                'Two-factor authentication must be set up before continuing',
+            },
+          },
+          { status: 403 }
+        );
+      }
+      return NextResponse.redirect(new URL(TWO_FACTOR_SETUP_PATH, request.url));
+    }
+
+    // Users with an expired or admin-reset password can only change it (the
+    // /api/auth/change-password endpoint is outside this middleware)
+    if (
+      isAuthenticated &&
+      session.passwordChangeRequired &&
+      pathname !== PASSWORD_CHANGE_PATH
+    ) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json(
+          {
+            error: {
+              type: 'PASSWORD_CHANGE_REQUIRED',
+              message: 'Your password must be changed before continuing',
+            },
+          },
+          { status: 403 }
+        );
+      }
+      return NextResponse.redirect(new URL(PASSWORD_CHANGE_PATH, request.url));
+    }
+
     // Handle auth routes (redirect if already logged in)
     if (authRoutes.includes(pathname)) {
       if (isAuthenticated) {
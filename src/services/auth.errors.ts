@@ -90,6 +90,75 @@ export class AccountLockedError extends ServiceError {
   }
 }
 
+/**
+ * SSO required error - the user's organization enforces single sign-on (403)
+ */
+export class SsoRequiredError extends ServiceError {
+  constructor(
+    public readonly organizationSlug: string,
+    public readonly ssoUrl: string
+  ) {
+    super(
+      'SSO_REQUIRED',
+      'Your organization requires you to sign in with single sign-on',
+      403,
+      { organizationSlug, ssoUrl }
+    );
+    this.name = 'SsoRequiredError';
+  }
+}
+
+/**
+ * Account unavailable - the user is suspended, invited or being deleted (403)
+ */
+export class AccountUnavailableError extends ServiceError {
+  constructor(
+    message: string,
+    public readonly status: string,
+    public readonly reason: string | null,
+    public readonly until: Date | null
+  ) {
+    super('ACCOUNT_UNAVAILABLE', message, 403, {
+      accountStatus: status,
+      reason,
+      until: until?.toISOString() ?? null,
+    });
+    this.name = 'AccountUnavailableError';
+  }
+}
+
+/**
+ * Login blocked - risk scoring refused the sign-in (403)
+ */
+export class LoginBlockedError extends ServiceError {
+  constructor() {
+    super(
+      'LOGIN_BLOCKED',
+      'This sign-in looks unusual and was blocked for your security. Please try again later or contact support.',
+      403
+    );
+    this.name = 'LoginBlockedError';
+  }
+}
+
+/**
+ * Re-authentication required - the operation needs a recent sign-in (403)
+ */
+export class ReauthenticationRequiredError extends ServiceError {
+  constructor(
+    public readonly operation: string,
+    public readonly maxAgeMinutes: number
+  ) {
+    super(
+      'REAUTHENTICATION_REQUIRED',
+      'Please confirm your identity to continue',
+      403,
+      { operation, maxAgeMinutes }
+    );
+    this.name = 'ReauthenticationRequiredError';
+  }
+}
+
 /**
  * Rate limit error - too many requests (429)
  */
@@ -10,8 +10,15 @@ import {
   registerSchema,
   requestPasswordResetSchema,
   resetPasswordSchema,
+  requestMagicLinkSchema,
+  verifyMagicLinkSchema,
+  changePasswordSchema,
 } from '@/lib/validations';
-import { ROLES } from '@/lib/security/index';
+import {
+  ROLES,
+  getHighestRole,
+  userWithRolesInclude,
+} from '@/lib/security/index';
 import { authenticateUser, createUserSession } from '@/lib/auth';
 import type { SessionData } from '@/types/auth';
 import type { IronSession } from 'iron-session';
@@ -21,12 +28,31 @@ import {
   recordFailedAttempt,
   resetFailedAttempts,
 } from '@/lib/auth/lockout';
-import { createRememberMeToken } from '@/lib/auth/remember-me';
+import {
+  createRememberMeToken,
+  revokeAllUserTokens,
+} from '@/lib/auth/remember-me';
 import {
   createPending2FAToken,
   verifyPending2FAToken,
+  type LoginChallenge,
 } from '@/lib/auth/pending-2fa';
+import { issueEmailOtp, verifyEmailOtp } from '@/lib/auth/email-otp';
+import { assessLoginRisk, type RiskAssessment } from '@/lib/auth/risk';
 import { ImpersonationBlockedError } from '@/lib/auth/impersonation';
+import { assertSsoNotRequired } from '@/lib/auth/sso';
+import { isTwoFactorRequired } from '@/lib/auth/two-factor-policy';
+import {
+  assertAccountAvailable,
+  changeUserStatus,
+  refreshUserStatus,
+} from '@/lib/auth/user-status';
+import {
+  assertPasswordAllowed,
+  getPasswordPolicy,
+  getPasswordPolicyForOrganizations,
+} from '@/lib/auth/password-policy';
+import { revokeAllUserRefreshTokens } from '@/lib/auth/refresh-tokens';
 import { verifyTOTPCode, generateTOTPSecret } from '@/lib/auth/totp';
 import {
   verifyBackupCode,
@@ -34,6 +60,23 @@ import {
   generateBackupCodes,
   deleteAllBackupCodes,
 } from '@/lib/auth/backup-codes';
+import {
+  storeWebAuthnChallenge,
+  consumeWebAuthnChallenge,
+  generatePasskeyRegistrationOptions,
+  verifyPasskeyRegistration,
+  generatePasskeyAuthenticationOptions,
+  verifyPasskeyAuthentication,
+  getPasskeyCount,
+  deletePasskey,
+  type PasskeyData,
+} from '@/lib/auth/webauthn';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
 import { logAuditEvent } from '@/lib/audit';
 import { SECURITY_CONFIG } from '@/lib/config/security';
 import { prisma } from '@/lib/db';
@@ -45,12 +88,15 @@ import {
   sendPasswordChangedNotification,
   sendVerificationEmail,
   sendPasswordResetEmail,
+  sendMagicLinkEmail,
+  sendLoginCodeEmail,
 } from '@/lib/email';
 import { parseUserAgent } from '@/lib/utils/user-agent';
 import { generateCsrfToken } from '@/lib/csrf';
 import { RequestContext } from '@/lib/api-utils';
 import {
   hashPassword,
+  verifyPassword,
   generateResetToken,
   hashResetToken,
 } from '@/lib/security';
@@ -66,9 +112,16 @@ import {
   TokenExpiredError,
   TokenInvalidError,
   NotFoundError,
+  SsoRequiredError,
+  AccountUnavailableError,
+  LoginBlockedError,
 } from './auth.errors';
 import log from '@/lib/logger';
-import type { PlatformRole } from '@/types/auth';
+import type {
+  PlatformRole,
+  TwoFactorFactor,
+  TwoFactorMethod,
+} from '@/types/auth';
 
 // Helper to get role from user (resolves from userRoles relation)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -86,6 +139,13 @@ function getUserRole(user: any): PlatformRole {
   return ROLES.USER;
 }
 
+// Code-based factor the user enrolled in (rows predating email 2FA are TOTP)
+function getTwoFactorMethod(user: {
+  twoFactorMethod?: string | null;
+}): TwoFactorMethod {
+  return user.twoFactorMethod === 'email' ? 'email' : 'totp';
+}
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -125,6 +185,8 @@ export interface LoginResult {
 export interface TwoFactorRequired {
   requiresTwoFactor: true;
   pendingToken: string;
+  /** Set when risk scoring demands a second factor from a user without 2FA */
+  challenge?: LoginChallenge;
 }
 
 // ============================================================================
@@ -139,6 +201,8 @@ export interface TwoFactorRequired {
  * @throws {AccountLockedError} Account is locked
  * @throws {AuthenticationError} Invalid credentials
  * @throws {EmailNotVerifiedError} Email not verified
+ * @throws {SsoRequiredError} Organization enforces SSO
+ * @throws {AccountUnavailableError} Account is invited, suspended or closed
  */
 export async function login(
   input: LoginInput,
@@ -198,8 +262,36 @@ export async function login(
     }
   }
 
-  // Authenticate user
-  const authenticatedUser = await authenticateUser(email, password);
+  // Authenticate user (throws SsoRequiredError for SSO-enforced members and
+  // AccountUnavailableError for accounts that are not active)
+  let authenticatedUser: Awaited<ReturnType<typeof authenticateUser>>;
+  try {
+    authenticatedUser = await authenticateUser(email, password);
+  } catch (error) {
+    if (error instanceof SsoRequiredError) {
+      await logAuditEvent({
+        action: 'AUTH_LOGIN_FAILURE',
+        category: 'authentication',
+        userId: user?.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: {
+          reason: 'sso_required',
+          organizationSlug: error.organizationSlug,
+        },
+      });
+    } else if (error instanceof AccountUnavailableError) {
+      await logAuditEvent({
+        action: 'AUTH_LOGIN_FAILURE',
+        category: 'authentication',
+        userId: user?.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { reason: `account_${error.status.toLowerCase()}` },
+      });
+    }
+    throw error;
+  }
   if (!authenticatedUser) {
     // Record failed attempt if user exists
     if (user) {
@@ -246,10 +338,35 @@ export async function login(
     throw new EmailNotVerifiedError();
   }
 
+  // Check if this is a new device and score the login BEFORE logging it
+  const knownDevice = await isKnownDevice(
+    authenticatedUser.id,
+    clientIP,
+    userAgent
+  );
+  const risk = await assessLoginRisk({
+    userId: authenticatedUser.id,
+    ipAddress: clientIP,
+    userAgent,
+    knownDevice,
+  });
+
+  if (risk.decision === 'block') {
+    await logAuditEvent({
+      action: 'AUTH_LOGIN_BLOCKED',
+      category: 'security',
+      userId: authenticatedUser.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { risk },
+    });
+    throw new LoginBlockedError();
+  }
+
   // Reset failed attempts on successful login
   await resetFailedAttempts(authenticatedUser.id);
 
-  // Check if 2FA is enabled
+  // Check if 2FA is enabled (satisfies a risk challenge too)
   if (authenticatedUser.twoFactorEnabled) {
     const pendingToken = await createPending2FAToken(authenticatedUser.id);
 
@@ -259,7 +376,7 @@ export async function login(
       userId: authenticatedUser.id,
       ipAddress: clientIP,
       userAgent,
-      metadata: { requires2FA: true },
+      metadata: { requires2FA: true, risk },
     });
 
     return {
@@ -268,12 +385,9 @@ export async function login(
     };
   }
 
-  // Check if this is a new device BEFORE logging the successful login
-  const knownDevice = await isKnownDevice(
-    authenticatedUser.id,
-    clientIP,
-    userAgent
-  );
+  if (risk.decision === 'challenge') {
+    return startEmailCodeChallenge(authenticatedUser, context, risk);
+  }
 
   // Create session (no 2FA)
   const tokens = await createUserSession(
@@ -290,6 +404,7 @@ export async function login(
     userId: authenticatedUser.id,
     ipAddress: clientIP,
     userAgent,
+    metadata: { risk },
   });
 
   // Send new device alert if this is an unknown device (fire-and-forget)
@@ -346,60 +461,115 @@ export async function login(
   };
 }
 
+/**
+ * Hold a risky login until the user enters a code sent to their email.
+ * The login is only recorded as successful once the code is verified in
+ * validate2FA, so a held attempt does not make the device look known.
+ *
+ * @throws {RateLimitError} Too many codes sent
+ */
+async function startEmailCodeChallenge(
+  user: { id: string; email: string; firstName: string | null },
+  context: RequestContext,
+  risk: RiskAssessment
+): Promise<TwoFactorRequired> {
+  const { clientIP, userAgent } = context;
+
+  await sendEmailOtp(user, 'sign_in');
+
+  const pendingToken = await createPending2FAToken(user.id, 'email_code');
+
+  await logAuditEvent({
+    action: 'AUTH_LOGIN_CHALLENGED',
+    category: 'security',
+    userId: user.id,
+    ipAddress: clientIP,
+    userAgent,
+    metadata: { challenge: 'email_code', risk },
+  });
+
+  return {
+    requiresTwoFactor: true,
+    pendingToken,
+    challenge: 'email_code',
+  };
+}
+
+/**
+ * Email the user a fresh one-time code, replacing any previous one.
+ * Rate limited per user so the endpoint cannot be used to flood an inbox.
+ *
+ * @throws {RateLimitError} Too many codes sent
+ */
+async function sendEmailOtp(
+  user: { id: string; email: string; firstName: string | null },
+  purpose: 'sign_in' | 'two_factor_settings'
+): Promise<void> {
+  const { limit, windowMs } = SECURITY_CONFIG.rateLimits.emailOtpSend;
+  const rateLimiter = await getRateLimiter();
+  const rateLimitResult = await rateLimiter.check(
+    `email-otp:${user.id}`,
+    limit,
+    windowMs
+  );
+  if (rateLimitResult.limited) {
+    throw new RateLimitError(
+      'Too many codes requested. Please try again later.',
+      {
+        limit: rateLimitResult.headers['X-RateLimit-Limit'],
+        remaining: rateLimitResult.headers['X-RateLimit-Remaining'],
+        reset: rateLimitResult.headers['X-RateLimit-Reset'],
+      }
+    );
+  }
+
+  const { code } = await issueEmailOtp(user.id);
+  sendLoginCodeEmail(
+    user.email,
+    code,
+    user.firstName ?? undefined,
+    user.id,
+    purpose
+  ).catch((err) => log.email.failed('login_code', user.email, err));
+}
+
 // ============================================================================
-// Registration
+// Magic Link
 // ============================================================================
 
-export interface RegisterInput {
+export interface RequestMagicLinkInput {
   email: string;
-  password: string;
-  username?: string;
-  firstName?: string;
-  lastName?: string;
-  organizationName?: string;
-  inviteToken?: string;
-}
-
-export interface OrganizationDTO {
-  id: string;
-  name: string;
-  slug: string;
-  role: string;
 }
 
-export interface RegisterResult {
-  user: UserDTO;
-  message: string;
+export interface MagicLinkLoginInput {
+  token: string;
 }
 
 /**
- * Register a new user account.
+ * Email a single-use sign-in link.
+ * Always returns the same message to prevent email enumeration.
  *
- * @throws {RateLimitError} Too many registration attempts
- * @throws {ValidationError} Invalid input data
- * @throws {ConflictError} Email or username already exists
- * @throws {TokenInvalidError} Invalid invite token
- * @throws {TokenExpiredError} Expired invite token
+ * @throws {RateLimitError} Too many requests
+ * @throws {ValidationError} Invalid input
  */
-export async function register(
-  input: RegisterInput,
+export async function requestMagicLink(
+  input: RequestMagicLinkInput,
   context: RequestContext
-): Promise<RegisterResult> {
-  const { clientIP } = context;
+): Promise<{ message: string }> {
+  const { clientIP, userAgent } = context;
 
   // Rate limiting
-  const rateLimitKey = `register:${clientIP}`;
-  const { limit: registerLimit, windowMs: registerWindowMs } =
-    SECURITY_CONFIG.rateLimits.register;
+  const rateLimitKey = `magic-link:${clientIP}`;
+  const { limit, windowMs } = SECURITY_CONFIG.rateLimits.magicLink;
   const rateLimiter = await getRateLimiter();
   const rateLimitResult = await rateLimiter.check(
     rateLimitKey,
-    registerLimit,
-    registerWindowMs
+    limit,
+    windowMs
   );
   if (rateLimitResult.limited) {
     throw new RateLimitError(
-      'Too many registration attempts. Please try again later.',
+      'Too many sign-in link requests. Please try again later.',
       {
         limit: rateLimitResult.headers['X-RateLimit-Limit'],
         remaining: rateLimitResult.headers['X-RateLimit-Remaining'],
@@ -408,78 +578,375 @@ export async function register(
     );
   }
 
-  // Validate input
-  const validationResult = registerSchema.safeParse(input);
+  const validationResult = requestMagicLinkSchema.safeParse(input);
   if (!validationResult.success) {
-    throw new ValidationError('Invalid input data', {
+    throw new ValidationError('Invalid input', {
       details: validationResult.error.flatten().fieldErrors,
     });
   }
 
-  const {
-    email,
-    username,
-    password,
-    firstName,
-    lastName,
-    organizationName,
-    inviteToken,
-  } = validationResult.data;
+  const { email } = validationResult.data;
 
-  // Check if user already exists
-  const existingUser = await prisma.user.findFirst({
-    where: {
-      OR: [{ email }, ...(username ? [{ username }] : [])],
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  // Always return same message to prevent email enumeration
+  const message =
+    'If an account with that email exists, a sign-in link has been sent.';
+
+  if (!user || !user.isActive) {
+    return { message };
+  }
+
+  // Generate token (a new request replaces any outstanding link)
+  const token = await generateResetToken();
+  const hashedToken = await hashResetToken(token);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      magicLinkToken: hashedToken,
+      magicLinkExpires: new Date(
+        Date.now() + SECURITY_CONFIG.magicLink.expiryMinutes * 60 * 1000
+      ),
     },
   });
 
-  if (existingUser) {
-    const conflictField = existingUser.email === email ? 'email' : 'username';
-    throw new ConflictError(`A user with this ${conflictField} already exists`);
+  await logAuditEvent({
+    action: 'AUTH_MAGIC_LINK_REQUESTED',
+    category: 'authentication',
+    userId: user.id,
+    ipAddress: clientIP,
+    userAgent,
+  });
+
+  // Send sign-in link (fire-and-forget)
+  sendMagicLinkEmail(email, token, user.firstName ?? undefined, user.id).catch(
+    (err) => log.email.failed('magic_link', email, err)
+  );
+
+  return { message };
+}
+
+/**
+ * Sign in with a magic link token.
+ * Applies the same lockout, email verification and 2FA checks as login().
+ *
+ * @throws {RateLimitError} Too many login attempts
+ * @throws {ValidationError} Invalid input
+ * @throws {TokenInvalidError} Unknown or already used link
+ * @throws {TokenExpiredError} Link has expired
+ * @throws {AccountLockedError} Account is locked
+ * @throws {AuthenticationError} Account inactive
+ * @throws {EmailNotVerifiedError} Email not verified
+ * @throws {SsoRequiredError} Organization enforces SSO
+ */
+export async function loginWithMagicLink(
+  input: MagicLinkLoginInput,
+  context: RequestContext,
+  session: IronSession<SessionData>
+): Promise<LoginResult | TwoFactorRequired> {
+  const { clientIP, userAgent } = context;
+
+  // Rate limiting (shares the login budget)
+  const rateLimitKey = `login:${clientIP}`;
+  const { limit: loginLimit, windowMs: loginWindowMs } =
+    SECURITY_CONFIG.rateLimits.login;
+  const rateLimiter = await getRateLimiter();
+  const rateLimitResult = await rateLimiter.check(
+    rateLimitKey,
+    loginLimit,
+    loginWindowMs
+  );
+  if (rateLimitResult.limited) {
+    throw new RateLimitError(
+      'Too many login attempts. Please try again later.',
+      {
+        limit: rateLimitResult.headers['X-RateLimit-Limit'],
+        remaining: rateLimitResult.headers['X-RateLimit-Remaining'],
+        reset: rateLimitResult.headers['X-RateLimit-Reset'],
+      }
+    );
   }
 
-  // Handle invite token if provided
-  let invite = null;
-  if (inviteToken) {
-    invite = await prisma.organizationInvite.findUnique({
-      where: { token: inviteToken },
-      include: { organization: true },
+  const validationResult = verifyMagicLinkSchema.safeParse(input);
+  if (!validationResult.success) {
+    throw new ValidationError('Invalid input', {
+      details: validationResult.error.flatten().fieldErrors,
     });
+  }
 
-    if (!invite) {
-      throw new TokenInvalidError('Invalid or expired invite token');
-    }
+  const hashedToken = await hashResetToken(validationResult.data.token);
 
-    if (invite.expiresAt < new Date()) {
-      throw new TokenExpiredError('This invite has expired');
-    }
+  const user = await prisma.user.findFirst({
+    where: { magicLinkToken: hashedToken },
+    include: userWithRolesInclude,
+  });
 
-    // Verify email matches the invite
-    if (invite.email.toLowerCase() !== email.toLowerCase()) {
-      throw new ValidationError('Email does not match the invite', {
-        details: {
-          email: [
-            'You must register with the email address the invite was sent to',
-          ],
-        },
-      });
-    }
+  if (!user) {
+    await logAuditEvent({
+      action: 'AUTH_LOGIN_FAILURE',
+      category: 'authentication',
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { reason: 'invalid_magic_link' },
+    });
+    throw new TokenInvalidError('Invalid or already used sign-in link');
   }
 
-  // Hash password
-  const hashedPassword = await hashPassword(password);
+  // Burn the token before anything else so it can never be replayed.
+  // The conditional update guards against two concurrent redemptions.
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, magicLinkToken: hashedToken },
+    data: { magicLinkToken: null, magicLinkExpires: null },
+  });
+  if (count === 0) {
+    throw new TokenInvalidError('Invalid or already used sign-in link');
+  }
 
-  // Generate email verification token (hash for storage, plain for email)
-  const plainVerificationToken = await generateResetToken();
-  const hashedVerificationToken = await hashResetToken(plainVerificationToken);
+  if (!user.magicLinkExpires || user.magicLinkExpires < new Date()) {
+    throw new TokenExpiredError('Sign-in link has expired');
+  }
 
-  // Create user with organization (transaction to ensure consistency)
-  const user = await prisma.$transaction(async (tx) => {
-    // Create the user first
-    const newUser = await tx.user.create({
-      data: {
-        email,
-        username,
+  // Check if account is locked
+  const lockoutStatus = await checkAccountLocked(user.id);
+  if (lockoutStatus.isLocked) {
+    const retryAfterSeconds = lockoutStatus.lockedUntil
+      ? Math.ceil((lockoutStatus.lockedUntil.getTime() - Date.now()) / 1000)
+      : SECURITY_CONFIG.lockout.durationMinutes * 60;
+
+    throw new AccountLockedError(lockoutStatus.lockedUntil, retryAfterSeconds);
+  }
+
+  assertAccountAvailable(await refreshUserStatus(user));
+
+  // Check if email is verified
+  if (!user.emailVerified) {
+    throw new EmailNotVerifiedError();
+  }
+
+  await assertSsoNotRequired(user.id);
+
+  // Reset failed attempts on successful login
+  await resetFailedAttempts(user.id);
+
+  const lastLoginAt = new Date();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt },
+  });
+
+  // Check if 2FA is enabled
+  if (user.twoFactorEnabled) {
+    const pendingToken = await createPending2FAToken(user.id);
+
+    await logAuditEvent({
+      action: 'AUTH_LOGIN_SUCCESS',
+      category: 'authentication',
+      userId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { method: 'magic_link', requires2FA: true },
+    });
+
+    return {
+      requiresTwoFactor: true,
+      pendingToken,
+    };
+  }
+
+  // Check if this is a new device BEFORE logging the successful login
+  const knownDevice = await isKnownDevice(user.id, clientIP, userAgent);
+
+  const tokens = await createUserSession(user, clientIP, userAgent, session);
+
+  await logAuditEvent({
+    action: 'AUTH_LOGIN_SUCCESS',
+    category: 'authentication',
+    userId: user.id,
+    ipAddress: clientIP,
+    userAgent,
+    metadata: { method: 'magic_link' },
+  });
+
+  // Send new device alert if this is an unknown device (fire-and-forget)
+  if (!knownDevice && clientIP && userAgent) {
+    const deviceInfo = parseUserAgent(userAgent);
+    sendNewDeviceAlert(
+      user.email,
+      deviceInfo,
+      clientIP,
+      new Date(),
+      user.id
+    ).catch((err) => log.email.failed('new_device_alert', user.email, err));
+  }
+
+  const csrfToken = generateCsrfToken();
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: getHighestRole(user),
+      isActive: user.isActive,
+      emailVerified: user.emailVerified,
+      lastLoginAt,
+      createdAt: user.createdAt,
+    },
+    tokens: {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+    },
+    csrfToken,
+  };
+}
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+export interface RegisterInput {
+  email: string;
+  password: string;
+  username?: string;
+  firstName?: string;
+  lastName?: string;
+  organizationName?: string;
+  inviteToken?: string;
+}
+
+export interface OrganizationDTO {
+  id: string;
+  name: string;
+  slug: string;
+  role: string;
+}
+
+export interface RegisterResult {
+  user: UserDTO;
+  message: string;
+}
+
+/**
+ * Register a new user account.
+ *
+ * @throws {RateLimitError} Too many registration attempts
+ * @throws {ValidationError} Invalid input data
+ * @throws {ConflictError} Email or username already exists
+ * @throws {TokenInvalidError} Invalid invite token
+ * @throws {TokenExpiredError} Expired invite token
+ */
+export async function register(
+  input: RegisterInput,
+  context: RequestContext
+): Promise<RegisterResult> {
+  const { clientIP } = context;
+
+  // Rate limiting
+  const rateLimitKey = `register:${clientIP}`;
+  const { limit: registerLimit, windowMs: registerWindowMs } =
+    SECURITY_CONFIG.rateLimits.register;
+  const rateLimiter = await getRateLimiter();
+  const rateLimitResult = await rateLimiter.check(
+    rateLimitKey,
+    registerLimit,
+    registerWindowMs
+  );
+  if (rateLimitResult.limited) {
+    throw new RateLimitError(
+      'Too many registration attempts. Please try again later.',
+      {
+        limit: rateLimitResult.headers['X-RateLimit-Limit'],
+        remaining: rateLimitResult.headers['X-RateLimit-Remaining'],
+        reset: rateLimitResult.headers['X-RateLimit-Reset'],
+      }
+    );
+  }
+
+  // Validate input
+  const validationResult = registerSchema.safeParse(input);
+  if (!validationResult.success) {
+    throw new ValidationError('Invalid input data', {
+      details: validationResult.error.flatten().fieldErrors,
+    });
+  }
+
+  const {
+    email,
+    username,
+    password,
+    firstName,
+    lastName,
+    organizationName,
+    inviteToken,
+  } = validationResult.data;
+
+  // Check if user already exists
+  const existingUser = await prisma.user.findFirst({
+    where: {
+      OR: [{ email }, ...(username ? [{ username }] : [])],
+    },
+  });
+
+  if (existingUser) {
+    const conflictField = existingUser.email === email ? 'email' : 'username';
+    throw new ConflictError(`A user with this ${conflictField} already exists`);
+  }
+
+  // Handle invite token if provided
+  let invite = null;
+  if (inviteToken) {
+    invite = await prisma.organizationInvite.findUnique({
+      where: { token: inviteToken },
+      include: { organization: true },
+    });
+
+    if (!invite) {
+      throw new TokenInvalidError('Invalid or expired invite token');
+    }
+
+    if (invite.expiresAt < new Date()) {
+      throw new TokenExpiredError('This invite has expired');
+    }
+
+    // Verify email matches the invite
+    if (invite.email.toLowerCase() !== email.toLowerCase()) {
+      throw new ValidationError('Email does not match the invite', {
+        details: {
+          email: [
+            'You must register with the email address the invite was sent to',
+          ],
+        },
+      });
+    }
+  }
+
+  // Check the password against the policy of the organization being joined
+  await assertPasswordAllowed(password, {
+    policy: await getPasswordPolicyForOrganizations(
+      invite ? [invite.organizationId] : []
+    ),
+    personalInfo: { email, username, firstName, lastName },
+  });
+
+  // Hash password
+  const hashedPassword = await hashPassword(password);
+
+  // Generate email verification token (hash for storage, plain for email)
+  const plainVerificationToken = await generateResetToken();
+  const hashedVerificationToken = await hashResetToken(plainVerificationToken);
+
+  // Create user with organization (transaction to ensure consistency)
+  const user = await prisma.$transaction(async (tx) => {
+    // Create the user first
+    const newUser = await tx.user.create({
+      data: {
+        email,
+        username,
         password: hashedPassword,
         passwordChangedAt: new Date(),
         firstName,
@@ -575,8 +1042,9 @@ export async function register(
 
 export interface Validate2FAInput {
   pendingToken: string;
-  code: string;
+  code?: string;
   isBackupCode?: boolean;
+  webauthnResponse?: AuthenticationResponseJSON;
 }
 
 export interface Validate2FAResult {
@@ -593,7 +1061,8 @@ export interface Validate2FAResult {
 }
 
 /**
- * Validate 2FA code during login flow.
+ * Validate 2FA code during login flow. A code is checked against the user's
+ * 2FA method (authenticator app or emailed code) unless it is a backup code.
  *
  * @throws {ValidationError} Invalid input
  * @throws {AuthenticationError} Invalid pending token or code
@@ -604,7 +1073,12 @@ export async function validate2FA(
   session: IronSession<SessionData>
 ): Promise<Validate2FAResult> {
   const { clientIP, userAgent } = context;
-  const { pendingToken, code, isBackupCode = false } = input;
+  const {
+    pendingToken,
+    code = '',
+    isBackupCode = false,
+    webauthnResponse,
+  } = input;
 
   // Rate limiting for 2FA validation to prevent brute force attacks
   const { limit, windowMs } = SECURITY_CONFIG.rateLimits.twoFactorValidate;
@@ -637,17 +1111,45 @@ export async function validate2FA(
     where: { id: pending.userId },
   });
 
-  if (!user || !user.twoFactorSecret || !user.twoFactorEnabled) {
+  // A risk challenge only accepts the emailed code, with or without 2FA
+  const emailChallenge = pending.challenge === 'email_code';
+
+  if (!user || (!emailChallenge && !user.twoFactorEnabled)) {
     throw new AuthenticationError('Invalid session');
   }
 
+  if (emailChallenge) {
+    return completeEmailCodeChallenge(user, code, context, session);
+  }
+
   let isValid = false;
   let usedBackupCode = false;
-
-  if (isBackupCode) {
+  const method: TwoFactorFactor = webauthnResponse
+    ? 'passkey'
+    : isBackupCode
+      ? 'backup_code'
+      : getTwoFactorMethod(user);
+
+  if (webauthnResponse) {
+    // A passkey bound to this user satisfies the second factor
+    const challenge = consumeWebAuthnChallenge(
+      session,
+      'authentication',
+      user.id
+    );
+    isValid =
+      !!challenge &&
+      !!(await verifyPasskeyAuthentication(
+        webauthnResponse,
+        challenge,
+        user.id
+      ));
+  } else if (isBackupCode) {
     isValid = await verifyBackupCode(user.id, code);
     usedBackupCode = isValid;
-  } else {
+  } else if (method === 'email') {
+    isValid = await verifyEmailOtp(user.id, code);
+  } else if (user.twoFactorSecret) {
     isValid = verifyTOTPCode(user.twoFactorSecret, code);
   }
 
@@ -658,10 +1160,12 @@ export async function validate2FA(
       userId: user.id,
       ipAddress: clientIP,
       userAgent,
-      metadata: { isBackupCode },
+      metadata: { isBackupCode, method },
     });
 
-    throw new AuthenticationError('Invalid code');
+    throw new AuthenticationError(
+      webauthnResponse ? 'Passkey verification failed' : 'Invalid code'
+    );
   }
 
   // Create full session
@@ -685,6 +1189,7 @@ export async function validate2FA(
       userId: user.id,
       ipAddress: clientIP,
       userAgent,
+      metadata: { method },
     });
   }
 
@@ -712,175 +1217,936 @@ export async function validate2FA(
       refreshToken: tokens.refreshToken,
     },
     csrfToken,
-    warnings:
-      remainingBackupCodes <= 3
-        ? {
-            lowBackupCodes: true,
-            remainingBackupCodes,
-          }
-        : undefined,
+    warnings:
+      remainingBackupCodes <= 3
+        ? {
+            lowBackupCodes: true,
+            remainingBackupCodes,
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Finish a login held by risk scoring (see startEmailCodeChallenge).
+ * Wrong codes count as failed logins, so they feed the lockout and the
+ * failed-attempt risk signal.
+ */
+async function completeEmailCodeChallenge(
+  user: NonNullable<Awaited<ReturnType<typeof prisma.user.findUnique>>>,
+  code: string,
+  context: RequestContext,
+  session: IronSession<SessionData>
+): Promise<Validate2FAResult> {
+  const { clientIP, userAgent } = context;
+
+  if (!(await verifyEmailOtp(user.id, code))) {
+    await logAuditEvent({
+      action: 'AUTH_LOGIN_FAILURE',
+      category: 'authentication',
+      userId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { reason: 'invalid_email_code' },
+    });
+
+    const lockoutStatus = await recordFailedAttempt(
+      user.id,
+      clientIP,
+      userAgent
+    );
+    if (lockoutStatus.isLocked) {
+      const retryAfterSeconds = lockoutStatus.lockedUntil
+        ? Math.ceil((lockoutStatus.lockedUntil.getTime() - Date.now()) / 1000)
+        : SECURITY_CONFIG.lockout.durationMinutes * 60;
+      throw new AccountLockedError(
+        lockoutStatus.lockedUntil,
+        retryAfterSeconds
+      );
+    }
+
+    throw new AuthenticationError('Invalid code');
+  }
+
+  await resetFailedAttempts(user.id);
+
+  const tokens = await createUserSession(user, clientIP, userAgent, session);
+
+  await logAuditEvent({
+    action: 'AUTH_LOGIN_SUCCESS',
+    category: 'authentication',
+    userId: user.id,
+    ipAddress: clientIP,
+    userAgent,
+    metadata: { challenge: 'email_code' },
+  });
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: getUserRole(user),
+      isActive: user.isActive,
+      emailVerified: user.emailVerified,
+      lastLoginAt: user.lastLoginAt,
+      createdAt: user.createdAt,
+    },
+    tokens: {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+    },
+    csrfToken: generateCsrfToken(),
+  };
+}
+
+export interface Pending2FAFactors {
+  factors: TwoFactorFactor[];
+  challenge?: LoginChallenge;
+}
+
+/**
+ * Factors that can complete a pending 2FA login, so the user can pick one.
+ * A risk challenge only accepts the emailed code it already sent.
+ *
+ * @throws {AuthenticationError} Invalid or expired pending token
+ */
+export async function getPending2FAFactors(
+  pendingToken: string
+): Promise<Pending2FAFactors> {
+  const pending = await verifyPending2FAToken(pendingToken);
+  if (!pending) {
+    throw new AuthenticationError('Session expired, please login again');
+  }
+
+  if (pending.challenge === 'email_code') {
+    return { factors: ['email'], challenge: pending.challenge };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: pending.userId },
+    select: { twoFactorEnabled: true, twoFactorMethod: true },
+  });
+  if (!user?.twoFactorEnabled) {
+    throw new AuthenticationError('Invalid session');
+  }
+
+  const factors: TwoFactorFactor[] = [getTwoFactorMethod(user)];
+  if ((await getRemainingBackupCodeCount(pending.userId)) > 0) {
+    factors.push('backup_code');
+  }
+  if ((await getPasskeyCount(pending.userId)) > 0) {
+    factors.push('passkey');
+  }
+  return { factors };
+}
+
+/**
+ * Email a code for a pending 2FA login, to users who chose email as their
+ * second factor or whose login is held by a risk challenge.
+ *
+ * @throws {AuthenticationError} Invalid or expired pending token
+ * @throws {ValidationError} Email codes are not enabled for the user
+ * @throws {RateLimitError} Too many codes sent
+ */
+export async function sendPending2FAEmailCode(
+  pendingToken: string
+): Promise<void> {
+  const pending = await verifyPending2FAToken(pendingToken);
+  if (!pending) {
+    throw new AuthenticationError('Session expired, please login again');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: pending.userId },
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      twoFactorEnabled: true,
+      twoFactorMethod: true,
+    },
+  });
+  if (!user) {
+    throw new AuthenticationError('Invalid session');
+  }
+
+  if (
+    pending.challenge !== 'email_code' &&
+    !(user.twoFactorEnabled && getTwoFactorMethod(user) === 'email')
+  ) {
+    throw new ValidationError('Email codes are not enabled for this account');
+  }
+
+  await sendEmailOtp(user, 'sign_in');
+}
+
+export interface Setup2FAResult {
+  qrCodeDataUrl: string;
+  manualEntryKey: string;
+  backupCodes: string[];
+}
+
+/**
+ * Start 2FA setup - generate secret, QR code, and backup codes.
+ *
+ * @throws {ImpersonationBlockedError} Cannot setup 2FA while impersonating
+ * @throws {ConflictError} 2FA already enabled
+ * @throws {NotFoundError} User not found
+ */
+export async function setup2FA(
+  userId: string,
+  context: RequestContext
+): Promise<Setup2FAResult> {
+  await checkTwoFactorSetupRateLimit(context);
+
+  // Block 2FA setup while impersonating
+  if (context.isImpersonating) {
+    throw new ImpersonationBlockedError();
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, twoFactorEnabled: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new ConflictError('2FA is already enabled');
+  }
+
+  // Generate TOTP secret and QR code
+  const totpResult = await generateTOTPSecret(user.email);
+
+  // Generate backup codes
+  const backupCodes = await generateBackupCodes(userId);
+
+  // Store secret (not enabled yet, needs verification)
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: totpResult.secret,
+      twoFactorEnabled: false,
+      twoFactorVerified: false,
+      twoFactorMethod: 'totp',
+    },
+  });
+
+  return {
+    qrCodeDataUrl: totpResult.qrCodeDataUrl,
+    manualEntryKey: totpResult.manualEntryKey,
+    backupCodes,
+  };
+}
+
+export interface SetupEmail2FAResult {
+  backupCodes: string[];
+}
+
+/**
+ * Start email 2FA setup - for users without an authenticator app. Generates
+ * backup codes and emails a code that verify2FASetup accepts to enable it.
+ *
+ * @throws {RateLimitError} Too many requests
+ * @throws {ImpersonationBlockedError} Cannot setup 2FA while impersonating
+ * @throws {ConflictError} 2FA already enabled
+ * @throws {NotFoundError} User not found
+ */
+export async function setupEmail2FA(
+  userId: string,
+  context: RequestContext
+): Promise<SetupEmail2FAResult> {
+  await checkTwoFactorSetupRateLimit(context);
+
+  // Block 2FA setup while impersonating
+  if (context.isImpersonating) {
+    throw new ImpersonationBlockedError();
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      twoFactorEnabled: true,
+    },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new ConflictError('2FA is already enabled');
+  }
+
+  const backupCodes = await generateBackupCodes(userId);
+
+  // Not enabled yet, needs verification with the emailed code
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: null,
+      twoFactorEnabled: false,
+      twoFactorVerified: false,
+      twoFactorMethod: 'email',
+    },
+  });
+
+  await sendEmailOtp(user, 'two_factor_settings');
+
+  return { backupCodes };
+}
+
+/**
+ * Email a code to a signed-in user with email 2FA, to finish setup or to
+ * confirm disabling it.
+ *
+ * @throws {ImpersonationBlockedError} Cannot manage 2FA while impersonating
+ * @throws {ValidationError} Email 2FA not set up
+ * @throws {RateLimitError} Too many codes sent
+ */
+export async function sendTwoFactorSettingsCode(
+  userId: string,
+  context: RequestContext
+): Promise<void> {
+  if (context.isImpersonating) {
+    throw new ImpersonationBlockedError();
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, firstName: true, twoFactorMethod: true },
+  });
+
+  if (!user || getTwoFactorMethod(user) !== 'email') {
+    throw new ValidationError('Email 2FA is not set up');
+  }
+
+  await sendEmailOtp(user, 'two_factor_settings');
+}
+
+/**
+ * @throws {RateLimitError} Too many setup attempts
+ */
+async function checkTwoFactorSetupRateLimit(
+  context: RequestContext
+): Promise<void> {
+  // Skip rate limiting in test environment
+  const isTestEnv =
+    process.env.NODE_ENV === 'test' || process.env.E2E_TEST === 'true';
+  if (isTestEnv) return;
+
+  const { limit, windowMs } = SECURITY_CONFIG.rateLimits.twoFactorSetup;
+  const rateLimitKey = `2fa-setup:${context.clientIP}`;
+  const rateLimiter = await getRateLimiter();
+  const rateLimitResult = await rateLimiter.check(
+    rateLimitKey,
+    limit,
+    windowMs
+  );
+
+  if (rateLimitResult.limited) {
+    throw new RateLimitError('Too many requests. Please try again later.', {
+      limit: rateLimitResult.headers['X-RateLimit-Limit'],
+      remaining: rateLimitResult.headers['X-RateLimit-Remaining'],
+      reset: rateLimitResult.headers['X-RateLimit-Reset'],
+    });
+  }
+}
+
+/**
+ * Verify 2FA setup with initial code and enable 2FA. The code comes from the
+ * authenticator app or, for email 2FA, from the email sent during setup.
+ *
+ * @throws {ImpersonationBlockedError} Cannot verify 2FA while impersonating
+ * @throws {ValidationError} 2FA not set up or already enabled
+ * @throws {AuthenticationError} Invalid code
+ */
+export async function verify2FASetup(
+  userId: string,
+  code: string,
+  context: RequestContext
+): Promise<void> {
+  // Block 2FA verification while impersonating
+  if (context.isImpersonating) {
+    throw new ImpersonationBlockedError();
+  }
+
+  const { clientIP, userAgent } = context;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twoFactorSecret: true,
+      twoFactorEnabled: true,
+      twoFactorMethod: true,
+      email: true,
+    },
+  });
+
+  const method = user ? getTwoFactorMethod(user) : 'totp';
+  if (!user || (method === 'totp' && !user.twoFactorSecret)) {
+    throw new ValidationError('2FA setup not started');
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new ConflictError('2FA is already enabled');
+  }
+
+  const isValid =
+    method === 'email'
+      ? await verifyEmailOtp(userId, code)
+      : verifyTOTPCode(user.twoFactorSecret as string, code);
+  if (!isValid) {
+    throw new AuthenticationError('Invalid code');
+  }
+
+  // Enable 2FA
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabled: true,
+      twoFactorVerified: true,
+      twoFactorGraceUntil: null,
+    },
+  });
+
+  await logAuditEvent({
+    action: 'AUTH_2FA_ENABLED',
+    category: 'security',
+    userId,
+    ipAddress: clientIP,
+    userAgent,
+    metadata: { method },
+  });
+
+  // Send notification (fire-and-forget)
+  sendTwoFactorEnabledNotification(user.email, userId, method).catch((err) =>
+    log.email.failed('2fa_enabled', user.email, err)
+  );
+}
+
+/**
+ * Disable 2FA, confirmed with a current code from the enrolled method
+ * (for email 2FA, request one with sendTwoFactorSettingsCode).
+ *
+ * @throws {ImpersonationBlockedError} Cannot disable 2FA while impersonating
+ * @throws {NotFoundError} User not found
+ * @throws {ValidationError} 2FA not enabled
+ * @throws {AuthenticationError} Invalid code
+ * @throws {AuthorizationError} Admins, and users a 2FA policy covers, cannot
+ *   disable 2FA
+ */
+export async function disable2FA(
+  userId: string,
+  code: string,
+  context: RequestContext
+): Promise<void> {
+  // Rate limiting
+  const { limit, windowMs } = SECURITY_CONFIG.rateLimits.twoFactorDisable;
+  const rateLimitKey = `2fa-disable:${context.clientIP}`;
+  const rateLimiter = await getRateLimiter();
+  const rateLimitResult = await rateLimiter.check(
+    rateLimitKey,
+    limit,
+    windowMs
+  );
+  if (rateLimitResult.limited) {
+    throw new RateLimitError('Too many requests. Please try again later.', {
+      limit: rateLimitResult.headers['X-RateLimit-Limit'],
+      remaining: rateLimitResult.headers['X-RateLimit-Remaining'],
+      reset: rateLimitResult.headers['X-RateLimit-Reset'],
+    });
+  }
+
+  // Block 2FA disable while impersonating
+  if (context.isImpersonating) {
+    throw new ImpersonationBlockedError();
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twoFactorSecret: true,
+      twoFactorEnabled: true,
+      twoFactorMethod: true,
+      email: true,
+      userRoles: {
+        include: { role: { select: { name: true } } },
+      },
+    },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  // Admins cannot disable their own 2FA
+  if (getUserRole(user) === ROLES.ADMIN) {
+    throw new AuthorizationError('Admins cannot disable 2FA');
+  }
+
+  if (await isTwoFactorRequired(userId)) {
+    throw new AuthorizationError(
+      'Two-factor authentication is required for your account'
+    );
+  }
+
+  const method = getTwoFactorMethod(user);
+  if (!user.twoFactorEnabled || (method === 'totp' && !user.twoFactorSecret)) {
+    throw new ValidationError('2FA is not enabled');
+  }
+
+  const isValid =
+    method === 'email'
+      ? await verifyEmailOtp(userId, code)
+      : verifyTOTPCode(user.twoFactorSecret as string, code);
+  if (!isValid) {
+    throw new AuthenticationError('Invalid code');
+  }
+
+  // Disable 2FA
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: null,
+      twoFactorEnabled: false,
+      twoFactorVerified: false,
+      twoFactorMethod: 'totp',
+    },
+  });
+
+  // Delete backup codes
+  await deleteAllBackupCodes(userId);
+
+  await logAuditEvent({
+    action: 'AUTH_2FA_DISABLED',
+    category: 'security',
+    userId,
+    ipAddress: context.clientIP,
+    userAgent: context.userAgent,
+    metadata: { method },
+  });
+
+  // Send notification (fire-and-forget)
+  sendTwoFactorDisabledNotification(user.email, userId).catch((err) =>
+    log.email.failed('2fa_disabled', user.email, err)
+  );
+}
+
+// ============================================================================
+// Passkeys (WebAuthn)
+// ============================================================================
+
+export interface FinishPasskeyRegistrationInput {
+  name: string;
+  response: RegistrationResponseJSON;
+}
+
+export interface StartPasskeyAuthenticationInput {
+  pendingToken?: string;
+}
+
+export interface PasskeyLoginInput {
+  response: AuthenticationResponseJSON;
+}
+
+/**
+ * Start passkey registration - generate creation options and store the challenge.
+ *
+ * @throws {ImpersonationBlockedError} Cannot register passkeys while impersonating
+ * @throws {NotFoundError} User not found
+ * @throws {ValidationError} Passkey limit reached
+ */
+export async function startPasskeyRegistration(
+  userId: string,
+  context: RequestContext,
+  session: IronSession<SessionData>
+): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  if (context.isImpersonating) {
+    throw new ImpersonationBlockedError();
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, firstName: true, lastName: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const count = await getPasskeyCount(userId);
+  if (count >= SECURITY_CONFIG.webauthn.maxCredentialsPerUser) {
+    throw new ValidationError(
+      `You can register up to ${SECURITY_CONFIG.webauthn.maxCredentialsPerUser} passkeys`
+    );
+  }
+
+  const options = await generatePasskeyRegistrationOptions(user);
+
+  storeWebAuthnChallenge(session, {
+    challenge: options.challenge,
+    purpose: 'registration',
+    userId,
+  });
+  await session.save();
+
+  return options;
+}
+
+/**
+ * Finish passkey registration - verify the attestation and store the credential.
+ *
+ * @throws {ImpersonationBlockedError} Cannot register passkeys while impersonating
+ * @throws {ValidationError} Registration not started or expired
+ * @throws {AuthenticationError} Attestation could not be verified
+ */
+export async function finishPasskeyRegistration(
+  userId: string,
+  input: FinishPasskeyRegistrationInput,
+  context: RequestContext,
+  session: IronSession<SessionData>
+): Promise<PasskeyData> {
+  if (context.isImpersonating) {
+    throw new ImpersonationBlockedError();
+  }
+
+  const challenge = consumeWebAuthnChallenge(session, 'registration', userId);
+  await session.save();
+
+  if (!challenge) {
+    throw new ValidationError('Passkey registration expired, please try again');
+  }
+
+  const passkey = await verifyPasskeyRegistration(
+    userId,
+    input.response,
+    challenge,
+    input.name
+  );
+
+  if (!passkey) {
+    throw new AuthenticationError('Passkey registration could not be verified');
+  }
+
+  await logAuditEvent({
+    action: 'AUTH_WEBAUTHN_REGISTERED',
+    category: 'security',
+    userId,
+    ipAddress: context.clientIP,
+    userAgent: context.userAgent,
+    metadata: { passkeyId: passkey.id, name: passkey.name },
+  });
+
+  return passkey;
+}
+
+/**
+ * Remove one of the user's passkeys.
+ *
+ * @throws {ImpersonationBlockedError} Cannot remove passkeys while impersonating
+ * @throws {NotFoundError} Passkey not found
+ */
+export async function removePasskey(
+  userId: string,
+  passkeyId: string,
+  context: RequestContext
+): Promise<void> {
+  if (context.isImpersonating) {
+    throw new ImpersonationBlockedError();
+  }
+
+  const deleted = await deletePasskey(userId, passkeyId);
+  if (!deleted) {
+    throw new NotFoundError('Passkey not found');
+  }
+
+  await logAuditEvent({
+    action: 'AUTH_WEBAUTHN_REMOVED',
+    category: 'security',
+    userId,
+    ipAddress: context.clientIP,
+    userAgent: context.userAgent,
+    metadata: { passkeyId },
+  });
+}
+
+/**
+ * Start passkey authentication.
+ * With a pending 2FA token the challenge is bound to that user (second factor);
+ * without one any discoverable credential may answer (passwordless login).
+ *
+ * @throws {AuthenticationError} Pending token invalid
+ * @throws {ValidationError} User has no passkeys
+ */
+export async function startPasskeyAuthentication(
+  input: StartPasskeyAuthenticationInput,
+  session: IronSession<SessionData>
+): Promise<PublicKeyCredentialRequestOptionsJSON> {
+  let userId: string | undefined;
+
+  if (input.pendingToken) {
+    const pending = await verifyPending2FAToken(input.pendingToken);
+    if (!pending) {
+      throw new AuthenticationError('Session expired, please login again');
+    }
+
+    if ((await getPasskeyCount(pending.userId)) === 0) {
+      throw new ValidationError('No passkeys registered for this account');
+    }
+
+    userId = pending.userId;
+  }
+
+  const options = await generatePasskeyAuthenticationOptions(userId);
+
+  storeWebAuthnChallenge(session, {
+    challenge: options.challenge,
+    purpose: 'authentication',
+    userId,
+  });
+  await session.save();
+
+  return options;
+}
+
+/**
+ * Passwordless login with a passkey.
+ * The passkey proves possession and user verification (PIN or biometric),
+ * so no second factor is asked.
+ *
+ * @throws {RateLimitError} Too many attempts
+ * @throws {AuthenticationError} Assertion invalid or account inactive
+ * @throws {AccountLockedError} Account is locked
+ * @throws {EmailNotVerifiedError} Email not verified
+ * @throws {SsoRequiredError} Organization enforces SSO
+ */
+export async function loginWithPasskey(
+  input: PasskeyLoginInput,
+  context: RequestContext,
+  session: IronSession<SessionData>
+): Promise<LoginResult> {
+  const { clientIP, userAgent } = context;
+
+  // Rate limiting
+  const { limit, windowMs } = SECURITY_CONFIG.rateLimits.webauthnAuthenticate;
+  const rateLimitKey = `webauthn-login:${clientIP}`;
+  const rateLimiter = await getRateLimiter();
+  const rateLimitResult = await rateLimiter.check(
+    rateLimitKey,
+    limit,
+    windowMs
+  );
+  if (rateLimitResult.limited) {
+    throw new RateLimitError('Too many attempts. Please try again later.', {
+      limit: rateLimitResult.headers['X-RateLimit-Limit'],
+      remaining: rateLimitResult.headers['X-RateLimit-Remaining'],
+      reset: rateLimitResult.headers['X-RateLimit-Reset'],
+    });
+  }
+
+  const challenge = consumeWebAuthnChallenge(session, 'authentication');
+  const verified = challenge
+    ? await verifyPasskeyAuthentication(input.response, challenge)
+    : null;
+
+  if (!verified) {
+    await session.save();
+    await logAuditEvent({
+      action: 'AUTH_WEBAUTHN_LOGIN_FAILURE',
+      category: 'authentication',
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { reason: challenge ? 'invalid_assertion' : 'no_challenge' },
+    });
+
+    throw new AuthenticationError('Passkey verification failed');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: verified.userId },
+    include: userWithRolesInclude,
+  });
+
+  if (!user) {
+    throw new AuthenticationError('Passkey verification failed');
+  }
+  assertAccountAvailable(await refreshUserStatus(user));
+
+  const lockoutStatus = await checkAccountLocked(user.id);
+  if (lockoutStatus.isLocked) {
+    const retryAfterSeconds = lockoutStatus.lockedUntil
+      ? Math.ceil((lockoutStatus.lockedUntil.getTime() - Date.now()) / 1000)
+      : SECURITY_CONFIG.lockout.durationMinutes * 60;
+
+    throw new AccountLockedError(lockoutStatus.lockedUntil, retryAfterSeconds);
+  }
+
+  if (!user.emailVerified) {
+    throw new EmailNotVerifiedError();
+  }
+
+  await assertSsoNotRequired(user.id);
+
+  await resetFailedAttempts(user.id);
+
+  const lastLoginAt = new Date();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt },
+  });
+
+  const knownDevice = await isKnownDevice(user.id, clientIP, userAgent);
+
+  const tokens = await createUserSession(user, clientIP, userAgent, session);
+
+  await logAuditEvent({
+    action: 'AUTH_WEBAUTHN_LOGIN_SUCCESS',
+    category: 'authentication',
+    userId: user.id,
+    ipAddress: clientIP,
+    userAgent,
+    metadata: { passkeyId: verified.credentialId },
+  });
+
+  // Send new device alert if this is an unknown device (fire-and-forget)
+  if (!knownDevice && clientIP && userAgent) {
+    const deviceInfo = parseUserAgent(userAgent);
+    sendNewDeviceAlert(
+      user.email,
+      deviceInfo,
+      clientIP,
+      new Date(),
+      user.id
+    ).catch((err) => log.email.failed('new_device_alert', user.email, err));
+  }
+
+  const csrfToken = generateCsrfToken();
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: getHighestRole(user),
+      isActive: user.isActive,
+      emailVerified: user.emailVerified,
+      lastLoginAt,
+      createdAt: user.createdAt,
+    },
+    tokens: {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+    },
+    csrfToken,
   };
 }
 
-export interface Setup2FAResult {
-  qrCodeDataUrl: string;
-  manualEntryKey: string;
-  backupCodes: string[];
-}
+// ============================================================================
+// Re-authentication (step-up)
+// ============================================================================
+
+export type ReauthMethod = 'password' | 'totp' | 'passkey';
+
+export type ReauthenticateInput =
+  | { method: 'password'; password: string }
+  | { method: 'totp'; code: string }
+  | { method: 'passkey'; response: AuthenticationResponseJSON };
 
 /**
- * Start 2FA setup - generate secret, QR code, and backup codes.
+ * Methods the user can re-authenticate with: password unless the account is
+ * OAuth/SSO-only, TOTP when authenticator 2FA is enabled, passkey when one
+ * is registered.
  *
- * @throws {ImpersonationBlockedError} Cannot setup 2FA while impersonating
- * @throws {ConflictError} 2FA already enabled
  * @throws {NotFoundError} User not found
  */
-export async function setup2FA(
-  userId: string,
-  context: RequestContext
-): Promise<Setup2FAResult> {
-  // Skip rate limiting in test environment
-  const isTestEnv =
-    process.env.NODE_ENV === 'test' || process.env.E2E_TEST === 'true';
-
-  if (!isTestEnv) {
-    // Rate limiting
-    const { limit, windowMs } = SECURITY_CONFIG.rateLimits.twoFactorSetup;
-    const rateLimitKey = `2fa-setup:${context.clientIP}`;
-    const rateLimiter = await getRateLimiter();
-    const rateLimitResult = await rateLimiter.check(
-      rateLimitKey,
-      limit,
-      windowMs
-    );
-
-    if (rateLimitResult.limited) {
-      throw new RateLimitError('Too many requests. Please try again later.', {
-        limit: rateLimitResult.headers['X-RateLimit-Limit'],
-        remaining: rateLimitResult.headers['X-RateLimit-Remaining'],
-        reset: rateLimitResult.headers['X-RateLimit-Reset'],
-      });
-    }
-  }
-
-  // Block 2FA setup while impersonating
-  if (context.isImpersonating) {
-    throw new ImpersonationBlockedError();
-  }
-
+export async function getReauthMethods(
+  userId: string
+): Promise<ReauthMethod[]> {
   const user = await prisma.user.findUnique({
     where: { id: userId },
-    select: { email: true, twoFactorEnabled: true },
+    select: { password: true, twoFactorEnabled: true, twoFactorMethod: true },
   });
 
   if (!user) {
     throw new NotFoundError('User not found');
   }
 
-  if (user.twoFactorEnabled) {
-    throw new ConflictError('2FA is already enabled');
+  const methods: ReauthMethod[] = [];
+  if (user.password) methods.push('password');
+  if (user.twoFactorEnabled && getTwoFactorMethod(user) === 'totp') {
+    methods.push('totp');
   }
-
-  // Generate TOTP secret and QR code
-  const totpResult = await generateTOTPSecret(user.email);
-
-  // Generate backup codes
-  const backupCodes = await generateBackupCodes(userId);
-
-  // Store secret (not enabled yet, needs verification)
-  await prisma.user.update({
-    where: { id: userId },
-    data: {
-      twoFactorSecret: totpResult.secret,
-      twoFactorEnabled: false,
-      twoFactorVerified: false,
-    },
-  });
-
-  return {
-    qrCodeDataUrl: totpResult.qrCodeDataUrl,
-    manualEntryKey: totpResult.manualEntryKey,
-    backupCodes,
-  };
+  if ((await getPasskeyCount(userId)) > 0) methods.push('passkey');
+  return methods;
 }
 
 /**
- * Verify 2FA setup with initial code and enable 2FA.
+ * Start passkey re-authentication - the challenge is bound to the signed-in user.
  *
- * @throws {ImpersonationBlockedError} Cannot verify 2FA while impersonating
- * @throws {ValidationError} 2FA not set up or already enabled
- * @throws {AuthenticationError} Invalid code
+ * @throws {ImpersonationBlockedError} Cannot re-authenticate while impersonating
+ * @throws {ValidationError} User has no passkeys
  */
-export async function verify2FASetup(
+export async function startPasskeyReauthentication(
   userId: string,
-  code: string,
-  context: RequestContext
-): Promise<void> {
-  // Block 2FA verification while impersonating
+  context: RequestContext,
+  session: IronSession<SessionData>
+): Promise<PublicKeyCredentialRequestOptionsJSON> {
   if (context.isImpersonating) {
     throw new ImpersonationBlockedError();
   }
 
-  const { clientIP, userAgent } = context;
-
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { twoFactorSecret: true, twoFactorEnabled: true, email: true },
-  });
-
-  if (!user || !user.twoFactorSecret) {
-    throw new ValidationError('2FA setup not started');
-  }
-
-  if (user.twoFactorEnabled) {
-    throw new ConflictError('2FA is already enabled');
-  }
-
-  const isValid = verifyTOTPCode(user.twoFactorSecret, code);
-  if (!isValid) {
-    throw new AuthenticationError('Invalid code');
+  if ((await getPasskeyCount(userId)) === 0) {
+    throw new ValidationError('No passkeys registered for this account');
   }
 
-  // Enable 2FA
-  await prisma.user.update({
-    where: { id: userId },
-    data: {
-      twoFactorEnabled: true,
-      twoFactorVerified: true,
-    },
-  });
+  const options = await generatePasskeyAuthenticationOptions(userId);
 
-  await logAuditEvent({
-    action: 'AUTH_2FA_ENABLED',
-    category: 'security',
+  storeWebAuthnChallenge(session, {
+    challenge: options.challenge,
+    purpose: 'reauthentication',
     userId,
-    ipAddress: clientIP,
-    userAgent,
   });
+  await session.save();
 
-  // Send notification (fire-and-forget)
-  sendTwoFactorEnabledNotification(user.email, userId).catch((err) =>
-    log.email.failed('2fa_enabled', user.email, err)
-  );
+  return options;
 }
 
 /**
- * Disable 2FA.
+ * Re-verify the signed-in user with their password, a TOTP code or a passkey,
+ * and mark the session as recently authenticated for step-up guards.
  *
- * @throws {ImpersonationBlockedError} Cannot disable 2FA while impersonating
+ * @throws {ImpersonationBlockedError} Cannot re-authenticate while impersonating
+ * @throws {RateLimitError} Too many attempts
+ * @throws {AuthenticationError} Credential invalid
  * @throws {NotFoundError} User not found
- * @throws {ValidationError} 2FA not enabled
- * @throws {AuthenticationError} Invalid code
- * @throws {AuthorizationError} Admins cannot disable 2FA
  */
-export async function disable2FA(
+export async function reauthenticate(
   userId: string,
-  code: string,
-  context: RequestContext
-): Promise<void> {
-  // Rate limiting
-  const { limit, windowMs } = SECURITY_CONFIG.rateLimits.twoFactorDisable;
-  const rateLimitKey = `2fa-disable:${context.clientIP}`;
+  input: ReauthenticateInput,
+  context: RequestContext,
+  session: IronSession<SessionData>
+): Promise<{ authenticatedAt: number }> {
+  const { clientIP, userAgent } = context;
+
+  // The admin cannot prove the impersonated user's identity
+  if (context.isImpersonating) {
+    throw new ImpersonationBlockedError();
+  }
+
+  // Rate limit per user: a stolen session must not brute-force the password
+  const { limit, windowMs } = SECURITY_CONFIG.rateLimits.reauthenticate;
+  const rateLimitKey = `reauth:${userId}`;
   const rateLimiter = await getRateLimiter();
   const rateLimitResult = await rateLimiter.check(
     rateLimitKey,
@@ -888,27 +2154,20 @@ export async function disable2FA(
     windowMs
   );
   if (rateLimitResult.limited) {
-    throw new RateLimitError('Too many requests. Please try again later.', {
+    throw new RateLimitError('Too many attempts. Please try again later.', {
       limit: rateLimitResult.headers['X-RateLimit-Limit'],
       remaining: rateLimitResult.headers['X-RateLimit-Remaining'],
       reset: rateLimitResult.headers['X-RateLimit-Reset'],
     });
   }
 
-  // Block 2FA disable while impersonating
-  if (context.isImpersonating) {
-    throw new ImpersonationBlockedError();
-  }
-
   const user = await prisma.user.findUnique({
     where: { id: userId },
     select: {
-      twoFactorSecret: true,
+      password: true,
       twoFactorEnabled: true,
-      email: true,
-      userRoles: {
-        include: { role: { select: { name: true } } },
-      },
+      twoFactorSecret: true,
+      twoFactorMethod: true,
     },
   });
 
@@ -916,45 +2175,64 @@ export async function disable2FA(
     throw new NotFoundError('User not found');
   }
 
-  // Admins cannot disable their own 2FA
-  if (getUserRole(user) === ROLES.ADMIN) {
-    throw new AuthorizationError('Admins cannot disable 2FA');
-  }
-
-  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
-    throw new ValidationError('2FA is not enabled');
+  let isValid = false;
+  if (input.method === 'password') {
+    isValid =
+      !!user.password && (await verifyPassword(input.password, user.password));
+  } else if (input.method === 'totp') {
+    isValid =
+      user.twoFactorEnabled &&
+      getTwoFactorMethod(user) === 'totp' &&
+      !!user.twoFactorSecret &&
+      verifyTOTPCode(user.twoFactorSecret, input.code);
+  } else {
+    const challenge = consumeWebAuthnChallenge(
+      session,
+      'reauthentication',
+      userId
+    );
+    isValid =
+      !!challenge &&
+      !!(await verifyPasskeyAuthentication(input.response, challenge, userId));
   }
 
-  const isValid = verifyTOTPCode(user.twoFactorSecret, code);
   if (!isValid) {
-    throw new AuthenticationError('Invalid code');
-  }
+    if (input.method === 'passkey') {
+      // Persist the consumed challenge
+      await session.save();
+    }
+    await logAuditEvent({
+      action: 'AUTH_REAUTH_FAILURE',
+      category: 'security',
+      userId,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { method: input.method },
+    });
 
-  // Disable 2FA
-  await prisma.user.update({
-    where: { id: userId },
-    data: {
-      twoFactorSecret: null,
-      twoFactorEnabled: false,
-      twoFactorVerified: false,
-    },
-  });
+    throw new AuthenticationError(
+      input.method === 'passkey'
+        ? 'Passkey verification failed'
+        : input.method === 'totp'
+          ? 'Invalid code'
+          : 'Invalid password'
+    );
+  }
 
-  // Delete backup codes
-  await deleteAllBackupCodes(userId);
+  const authenticatedAt = Date.now();
+  session.authenticatedAt = authenticatedAt;
+  await session.save();
 
   await logAuditEvent({
-    action: 'AUTH_2FA_DISABLED',
+    action: 'AUTH_REAUTH_SUCCESS',
     category: 'security',
     userId,
-    ipAddress: context.clientIP,
-    userAgent: context.userAgent,
+    ipAddress: clientIP,
+    userAgent,
+    metadata: { method: input.method },
   });
 
-  // Send notification (fire-and-forget)
-  sendTwoFactorDisabledNotification(user.email, userId).catch((err) =>
-    log.email.failed('2fa_disabled', user.email, err)
-  );
+  return { authenticatedAt };
 }
 
 // ============================================================================
@@ -1088,6 +2366,14 @@ export async function resetPassword(
     throw new TokenExpiredError('Reset token has expired');
   }
 
+  // Check the new password against the user's policy and password history
+  await assertPasswordAllowed(password, {
+    policy: await getPasswordPolicy(user.id),
+    personalInfo: user,
+    userId: user.id,
+    currentPasswordHash: user.password,
+  });
+
   // Hash new password
   const hashedPassword = await hashPassword(password);
 
@@ -1101,14 +2387,20 @@ export async function resetPassword(
     });
   }
 
-  // Update user's password and clear reset token
+  // Update user's password and clear reset token. Using the emailed link
+  // proves the address, which activates imported accounts.
   await prisma.user.update({
     where: { id: user.id },
     data: {
       password: hashedPassword,
       passwordChangedAt: new Date(),
+      passwordChangeRequired: false,
       passwordResetToken: null,
       passwordResetExpires: null,
+      ...(!user.emailVerified && {
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      }),
     },
   });
 
@@ -1117,6 +2409,13 @@ export async function resetPassword(
     where: { userId: user.id },
   });
 
+  // Setting the first password accepts the invitation
+  if (user.status === 'INVITED') {
+    await changeUserStatus(user.id, 'ACTIVE', {
+      reason: 'Invitation accepted',
+    });
+  }
+
   // Log the password change
   await logAuditEvent({
     action: 'SECURITY_PASSWORD_CHANGED',
@@ -1133,6 +2432,127 @@ export async function resetPassword(
   );
 }
 
+// ============================================================================
+// Required Password Change
+// ============================================================================
+
+export interface ChangeRequiredPasswordInput {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+/**
+ * Change the password of a session limited to changing it (expired or
+ * admin-reset password) and lift the limit. The user's other sessions,
+ * refresh tokens and remember-me tokens are revoked.
+ *
+ * @throws {AuthenticationError} Not signed in or wrong current password
+ * @throws {AuthorizationError} The session does not need a password change
+ * @throws {RateLimitError} Too many attempts
+ * @throws {ValidationError} Invalid input or the new password breaks the policy
+ */
+export async function changeRequiredPassword(
+  input: ChangeRequiredPasswordInput,
+  context: RequestContext,
+  session: IronSession<SessionData>
+): Promise<void> {
+  const { clientIP, userAgent } = context;
+
+  if (!session.isLoggedIn || !session.userId) {
+    throw new AuthenticationError('Not authenticated');
+  }
+  if (!session.passwordChangeRequired) {
+    throw new AuthorizationError('No password change is required');
+  }
+
+  const { limit, windowMs } = SECURITY_CONFIG.rateLimits.passwordChange;
+  const rateLimiter = await getRateLimiter();
+  const rateLimitResult = await rateLimiter.check(
+    `password-change:${clientIP}`,
+    limit,
+    windowMs
+  );
+  if (rateLimitResult.limited) {
+    throw new RateLimitError(
+      'Too many password change attempts. Please try again later.'
+    );
+  }
+
+  const validationResult = changePasswordSchema.safeParse(input);
+  if (!validationResult.success) {
+    throw new ValidationError('Invalid input data', {
+      details: validationResult.error.flatten().fieldErrors,
+    });
+  }
+  const { currentPassword, newPassword } = validationResult.data;
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.userId },
+  });
+  if (
+    !user?.password ||
+    !(await verifyPassword(currentPassword, user.password))
+  ) {
+    throw new AuthenticationError('Current password is incorrect');
+  }
+
+  await assertPasswordAllowed(
+    newPassword,
+    {
+      policy: await getPasswordPolicy(user.id),
+      personalInfo: user,
+      userId: user.id,
+      currentPasswordHash: user.password,
+    },
+    'newPassword'
+  );
+
+  const hashedPassword = await hashPassword(newPassword);
+
+  await prisma.passwordHistory.create({
+    data: {
+      userId: user.id,
+      password: user.password,
+    },
+  });
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      password: hashedPassword,
+      passwordChangedAt: new Date(),
+      passwordChangeRequired: false,
+    },
+  });
+
+  // Sign out everywhere else; this session continues without the limit
+  await prisma.userSession.deleteMany({
+    where: { userId: user.id },
+  });
+  await revokeAllUserRefreshTokens(user.id);
+  await revokeAllUserTokens(user.id);
+
+  await logAuditEvent({
+    action: 'SECURITY_PASSWORD_CHANGED',
+    category: 'security',
+    userId: user.id,
+    ipAddress: clientIP,
+    userAgent,
+    metadata: {
+      method: 'required_change',
+      reason: session.passwordChangeRequired,
+    },
+  });
+
+  delete session.passwordChangeRequired;
+  await session.save();
+
+  sendPasswordChangedNotification(user.email, new Date(), user.id).catch(
+    (err) => log.email.failed('password_changed', user.email, err)
+  );
+}
+
 // ============================================================================
 // Email Verification
 // ============================================================================
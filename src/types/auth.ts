@@ -46,6 +46,15 @@ export interface RefreshTokenPayload {
   exp: number;
 }
 
+export interface OAuthAccessTokenPayload {
+  sub: string; // user id, or the client id for client credentials
+  client_id: string;
+  scope: string; // Space-separated
+  jti: string;
+  iat: number;
+  exp: number;
+}
+
 export interface AuthState {
   user: User | null;
   isLoading: boolean;
@@ -60,13 +69,31 @@ export interface AuthError {
     | 'NOT_FOUND'
     | 'SERVER_ERROR'
     | 'ACCOUNT_LOCKED'
+    | 'ACCOUNT_UNAVAILABLE'
+    | 'SSO_REQUIRED'
+    | 'TWO_FACTOR_ENROLLMENT_REQUIRED'
+    | 'LOGIN_BLOCKED'
+    | 'PASSWORD_CHANGE_REQUIRED'
     | 'RATE_LIMIT_ERROR';
   message: string;
   details?: Record<string, string[]>;
   lockedUntil?: string;
   retryAfterSeconds?: number;
+  ssoUrl?: string;
+  accountStatus?: string;
+  reason?: string | null;
+  until?: string | null;
 }
 
+/** Code-based second factor a user enrolls in: authenticator app or emailed code */
+export type TwoFactorMethod = 'totp' | 'email';
+
+/** Ways to complete a pending 2FA login */
+export type TwoFactorFactor = TwoFactorMethod | 'backup_code' | 'passkey';
+
+/** Why a session is limited to changing the password */
+export type PasswordChangeReason = 'expired' | 'admin_required';
+
 export interface ImpersonationData {
   originalUserId: string;
   originalEmail: string;
@@ -74,13 +101,24 @@ export interface ImpersonationData {
   startedAt: number; // Unix timestamp
 }
 
+export interface WebAuthnChallengeData {
+  challenge: string;
+  purpose: 'registration' | 'authentication' | 'reauthentication';
+  userId?: string; // Set for registration, second-factor and re-authentication assertions
+  expiresAt: number; // Unix timestamp (ms)
+}
+
 export interface SessionData {
   userId: string;
   email: string;
   role: PlatformRole;
   isLoggedIn: boolean;
   sessionCreatedAt?: number; // Unix timestamp for session expiry tracking
+  authenticatedAt?: number; // Unix timestamp (ms) of the last sign-in or re-authentication
   impersonating?: ImpersonationData;
+  webauthnChallenge?: WebAuthnChallengeData; // Pending WebAuthn ceremony (single use)
+  twoFactorGraceUntil?: number; // Unix timestamp (ms) after which a 2FA policy limits the session to enrollment
+  passwordChangeRequired?: PasswordChangeReason; // Limits the session to changing the password
   userRoles?: Array<{
     role: {
       id: string;
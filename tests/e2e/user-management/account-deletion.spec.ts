@@ -151,9 +151,9 @@ test.describe('Account Deletion', () => {
       // Admin users should see the blocked message
     });
 
-    test.skip('should block deletion for organization owners', async ({ page }) => {
-      // This test requires logging in as an org owner
-      // Org owners should see message about transferring ownership
+    test.skip('should block deletion for the last organization administrator', async ({ page }) => {
+      // This test requires logging in as the only admin of an organization with other members
+      // They should see a message asking to make another member an administrator
     });
 
     test.skip('should block deletion for OAuth-only accounts', async ({ page }) => {
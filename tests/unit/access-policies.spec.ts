@@ -0,0 +1,474 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockLogAuditEvent } = vi.hoisted(() => ({
+  mockPrisma: {
+    role: { findMany: vi.fn() },
+    rolePermission: { findMany: vi.fn() },
+    accessPolicy: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+  mockLogAuditEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+vi.mock('@/lib/audit', () => ({ logAuditEvent: mockLogAuditEvent }));
+
+import {
+  evaluateCondition,
+  policyAppliesTo,
+  policyConditionSchema,
+  runPolicyTests,
+  type PolicyCondition,
+} from '@/lib/security/policy';
+import {
+  buildPolicyInput,
+  clearAccessPolicyCache,
+  clearRoleHierarchyCache,
+  formatIsGrantedTrace,
+  isGranted,
+  ROLES,
+  traceIsGranted,
+  VoteResult,
+  type UserWithRoles,
+} from '@/lib/security/index';
+import {
+  createAccessPolicy,
+  testAccessPolicy,
+  updateAccessPolicy,
+} from '@/lib/access-policies';
+import { DEFAULT_PERMISSION_GRANTS } from '@/lib/security/permissions';
+import { ConflictError, ValidationError } from '@/services/auth.errors';
+
+// The grants the role_permissions migration seeds
+const seededGrants = Object.entries(DEFAULT_PERMISSION_GRANTS).flatMap(
+  ([permission, roleNames]) =>
+    roleNames.map((name) => ({ permission, role: { name } }))
+);
+
+const roles = [
+  { id: 'role-user', name: ROLES.USER, parentId: null },
+  { id: 'role-mod', name: ROLES.MODERATOR, parentId: 'role-user' },
+  { id: 'role-contractor', name: 'ROLE_CONTRACTOR', parentId: 'role-user' },
+];
+
+function userWithRole(
+  id: string,
+  roleName: string,
+  organizationId: string | null = null
+): UserWithRoles {
+  const role = roles.find((r) => r.name === roleName)!;
+  return { id, userRoles: [{ organizationId, role }] };
+}
+
+const ownDocuments: PolicyCondition = {
+  attribute: 'subject.createdById',
+  operator: 'eq',
+  value: { ref: 'user.id' },
+};
+
+const moderatorsInOwnOrganizations: PolicyCondition = {
+  all: [
+    { attribute: 'user.roles', operator: 'contains', value: ROLES.MODERATOR },
+    {
+      attribute: 'subject.organizationIds',
+      operator: 'intersects',
+      value: { ref: 'user.organizationIds' },
+    },
+  ],
+};
+
+const contractorsAtNight: PolicyCondition = {
+  all: [
+    { attribute: 'user.roles', operator: 'contains', value: 'ROLE_CONTRACTOR' },
+    { attribute: 'context.hour', operator: 'between', value: [0, 6] },
+  ],
+};
+
+describe('Access policies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearRoleHierarchyCache();
+    clearAccessPolicyCache();
+    mockPrisma.role.findMany.mockResolvedValue(roles);
+    mockPrisma.rolePermission.findMany.mockResolvedValue(seededGrants);
+    mockPrisma.accessPolicy.findMany.mockResolvedValue([]);
+  });
+
+  describe('policyConditionSchema', () => {
+    it('accepts nested conditions', () => {
+      for (const condition of [
+        ownDocuments,
+        moderatorsInOwnOrganizations,
+        { not: contractorsAtNight },
+        { attribute: 'context.ip', operator: 'inNetwork', value: '10.0.0.0/8' },
+        { attribute: 'subject.archivedAt', operator: 'exists' },
+      ]) {
+        expect(policyConditionSchema.safeParse(condition).success).toBe(true);
+      }
+    });
+
+    it('reports where a nested condition is invalid', () => {
+      const result = policyConditionSchema.safeParse({
+        any: [
+          ownDocuments,
+          { attribute: 'context.hour', operator: 'between', value: 3 },
+        ],
+      });
+
+      expect(result.error?.issues).toEqual([
+        expect.objectContaining({
+          path: ['any', 1, 'value'],
+          message: 'between needs two numbers: [from, to]',
+        }),
+      ]);
+      expect(
+        policyConditionSchema.safeParse({
+          attribute: 'request.ip',
+          operator: 'eq',
+          value: 'x',
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    const input = (
+      user: Record<string, unknown>,
+      subject: Record<string, unknown> | null,
+      context: Record<string, unknown> = {}
+    ) => ({ user, subject, context });
+
+    it('compares attributes with other attributes', () => {
+      expect(
+        evaluateCondition(
+          ownDocuments,
+          input({ id: 'user-1' }, { createdById: 'user-1' })
+        ).result
+      ).toBe(true);
+      expect(
+        evaluateCondition(
+          ownDocuments,
+          input({ id: 'user-2' }, { createdById: 'user-1' })
+        )
+      ).toEqual({
+        description: 'subject.createdById eq user.id',
+        result: false,
+        actual: 'user-1',
+      });
+    });
+
+    it('matches list attributes', () => {
+      const moderator = {
+        roles: [ROLES.MODERATOR, ROLES.USER],
+        organizationIds: ['org-1'],
+      };
+
+      expect(
+        evaluateCondition(
+          moderatorsInOwnOrganizations,
+          input(moderator, { organizationIds: ['org-1', 'org-2'] })
+        ).result
+      ).toBe(true);
+      expect(
+        evaluateCondition(
+          moderatorsInOwnOrganizations,
+          input(moderator, { organizationIds: ['org-3'] })
+        ).result
+      ).toBe(false);
+    });
+
+    it('compares hours with ranges that wrap around midnight', () => {
+      const night: PolicyCondition = {
+        attribute: 'context.hour',
+        operator: 'between',
+        value: [22, 6],
+      };
+
+      expect(
+        evaluateCondition(night, input({}, null, { hour: 23 })).result
+      ).toBe(true);
+      expect(
+        evaluateCondition(night, input({}, null, { hour: 5 })).result
+      ).toBe(true);
+      expect(
+        evaluateCondition(night, input({}, null, { hour: 6 })).result
+      ).toBe(false);
+    });
+
+    it('matches IP addresses against networks', () => {
+      const office: PolicyCondition = {
+        attribute: 'context.ip',
+        operator: 'inNetwork',
+        value: ['10.0.0.0/8', '2001:db8::/32'],
+      };
+
+      expect(
+        evaluateCondition(office, input({}, null, { ip: '10.1.2.3' })).result
+      ).toBe(true);
+      expect(
+        evaluateCondition(office, input({}, null, { ip: '2001:db8::1' })).result
+      ).toBe(true);
+      expect(
+        evaluateCondition(office, input({}, null, { ip: '192.0.2.1' })).result
+      ).toBe(false);
+      expect(evaluateCondition(office, input({}, null)).result).toBe(false);
+    });
+  });
+
+  describe('policyAppliesTo', () => {
+    it('matches exact permissions, prefixes and the wildcard', () => {
+      const policy = { permissions: ['document.edit', 'organization.*'] };
+
+      expect(policyAppliesTo(policy, 'document.edit')).toBe(true);
+      expect(policyAppliesTo(policy, 'organization.members.manage')).toBe(true);
+      expect(policyAppliesTo(policy, 'document.view')).toBe(false);
+      expect(policyAppliesTo(policy, 'organizations.view')).toBe(false);
+      expect(policyAppliesTo({ permissions: ['*'] }, 'user.view')).toBe(true);
+    });
+  });
+
+  describe('runPolicyTests', () => {
+    it('compares the votes with the expected ones', () => {
+      const { passed, results } = runPolicyTests(
+        {
+          effect: 'GRANT',
+          permissions: ['document.edit'],
+          condition: ownDocuments,
+        },
+        [
+          {
+            permission: 'document.edit',
+            user: { id: 'user-1' },
+            subject: { createdById: 'user-1' },
+            expect: VoteResult.GRANTED,
+          },
+          {
+            name: 'Other permission',
+            permission: 'document.delete',
+            user: { id: 'user-1' },
+            subject: { createdById: 'user-1' },
+            expect: VoteResult.GRANTED,
+          },
+        ]
+      );
+
+      expect(passed).toBe(false);
+      expect(results.map((r) => [r.name, r.applies, r.vote, r.passed])).toEqual(
+        [
+          ['Case 1', true, VoteResult.GRANTED, true],
+          ['Other permission', false, VoteResult.ABSTAIN, false],
+        ]
+      );
+    });
+
+    it('evaluates time conditions at the given time', () => {
+      const { results } = runPolicyTests(
+        { effect: 'DENY', permissions: ['*'], condition: contractorsAtNight },
+        [
+          {
+            permission: 'user.view',
+            user: { roles: ['ROLE_CONTRACTOR'] },
+            context: { time: '2026-03-02T03:00:00Z' },
+            expect: VoteResult.DENIED,
+          },
+          {
+            permission: 'user.view',
+            user: { roles: ['ROLE_CONTRACTOR'] },
+            context: { time: '2026-03-02T09:00:00Z' },
+            expect: VoteResult.ABSTAIN,
+          },
+        ]
+      );
+
+      expect(results.every((r) => r.passed)).toBe(true);
+    });
+  });
+
+  describe('PolicyVoter', () => {
+    const org = { id: 'org-1', slug: 'acme' };
+
+    it('builds user attributes without secrets', async () => {
+      const user = {
+        ...userWithRole('user-1', ROLES.MODERATOR, 'org-1'),
+        email: 'mod@example.com',
+        password: 'hash',
+        twoFactorSecret: 'secret',
+      };
+
+      const input = await buildPolicyInput(user, null, {
+        organizationId: 'org-1',
+        ip: '10.0.0.1',
+        time: new Date('2026-03-01T04:30:00Z'),
+      });
+
+      expect(input.user).toEqual({
+        id: 'user-1',
+        email: 'mod@example.com',
+        roles: [ROLES.MODERATOR, ROLES.USER],
+        organizationIds: ['org-1'],
+      });
+      expect(input.context).toMatchObject({
+        ip: '10.0.0.1',
+        hour: 4,
+        weekday: 0,
+        organizationId: 'org-1',
+      });
+    });
+
+    it('lets a matching DENY policy veto a grant with the default strategy', async () => {
+      mockPrisma.accessPolicy.findMany.mockResolvedValue([
+        {
+          name: 'contractors-daytime-only',
+          effect: 'DENY',
+          permissions: ['organization.*'],
+          condition: contractorsAtNight,
+        },
+      ]);
+
+      const contractor = userWithRole('user-1', 'ROLE_CONTRACTOR', org.id);
+      const check = (time: string) =>
+        isGranted(contractor, 'organization.view', {
+          organizationId: org.id,
+          subject: org,
+          time: new Date(time),
+        });
+
+      expect(await check('2026-03-02T14:00:00Z')).toBe(true);
+      expect(await check('2026-03-02T02:00:00Z')).toBe(false);
+    });
+
+    it('reports the veto in decision traces', async () => {
+      mockPrisma.accessPolicy.findMany.mockResolvedValue([
+        {
+          name: 'contractors-daytime-only',
+          effect: 'DENY',
+          permissions: ['organization.*'],
+          condition: contractorsAtNight,
+        },
+      ]);
+      const trace = await traceIsGranted(
+        userWithRole('user-1', 'ROLE_CONTRACTOR', org.id),
+        'organization.view',
+        {
+          organizationId: org.id,
+          subject: org,
+          time: new Date('2026-03-02T02:00:00Z'),
+        }
+      );
+
+      expect(trace.granted).toBe(false);
+      expect(trace.decision?.vetoedBy).toBe('PolicyVoter');
+      expect(trace.decision?.votes).toContainEqual({
+        voter: 'OrganizationVoter',
+        result: VoteResult.GRANTED,
+      });
+      expect(formatIsGrantedTrace(trace)).toContain(
+        'PolicyVoter: denied (veto)'
+      );
+    });
+
+    it('grants permissions no other voter supports', async () => {
+      mockPrisma.accessPolicy.findMany.mockResolvedValue([
+        {
+          name: 'edit-own-documents',
+          effect: 'GRANT',
+          permissions: ['document.edit'],
+          condition: ownDocuments,
+        },
+      ]);
+      const user = userWithRole('user-1', ROLES.USER);
+      const attribute = 'document.edit' as 'user.view';
+
+      expect(
+        await isGranted(user, attribute, { subject: { createdById: 'user-1' } })
+      ).toBe(true);
+      expect(
+        await isGranted(user, attribute, { subject: { createdById: 'user-2' } })
+      ).toBe(false);
+      expect(mockPrisma.accessPolicy.findMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('admin service', () => {
+    const policy = {
+      name: 'edit-own-documents',
+      effect: 'GRANT',
+      permissions: ['document.edit'],
+      condition: ownDocuments,
+    };
+
+    it('creates a policy, clears the cache and audits it', async () => {
+      mockPrisma.accessPolicy.findUnique.mockResolvedValue(null);
+      mockPrisma.accessPolicy.create.mockResolvedValue({
+        id: 'policy-1',
+        ...policy,
+      });
+      await isGranted(userWithRole('user-1', ROLES.USER), 'user.view', {
+        subject: { id: 'user-2' },
+      });
+
+      await createAccessPolicy(policy, 'admin-1');
+      await isGranted(userWithRole('user-1', ROLES.USER), 'user.view', {
+        subject: { id: 'user-2' },
+      });
+
+      expect(mockPrisma.accessPolicy.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ ...policy, enabled: true }),
+      });
+      expect(mockPrisma.accessPolicy.findMany).toHaveBeenCalledTimes(2);
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'ADMIN_POLICY_CREATED',
+          userId: 'admin-1',
+        })
+      );
+    });
+
+    it('rejects invalid conditions with the path of each issue', async () => {
+      const error = await createAccessPolicy(
+        { ...policy, condition: { all: [{ attribute: 'user.id' }] } },
+        'admin-1'
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.details.issues).toEqual([
+        expect.objectContaining({ path: 'condition.all.0.operator' }),
+      ]);
+      expect(mockPrisma.accessPolicy.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a name taken by another policy', async () => {
+      mockPrisma.accessPolicy.findUnique
+        .mockResolvedValueOnce({ id: 'policy-1', name: 'old-name' })
+        .mockResolvedValueOnce({ id: 'policy-2' });
+
+      await expect(
+        updateAccessPolicy('policy-1', { name: 'taken' }, 'admin-1')
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('tests a policy without saving it', () => {
+      const { passed } = testAccessPolicy({
+        policy,
+        cases: [
+          {
+            permission: 'document.edit',
+            user: { id: 'user-1' },
+            subject: { createdById: 'user-1' },
+            expect: 'granted',
+          },
+        ],
+      });
+
+      expect(passed).toBe(true);
+      expect(() => testAccessPolicy({ policy, cases: [] })).toThrow(
+        ValidationError
+      );
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@/lib/auth', () => ({
+  getCurrentUser: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    role: { findMany: vi.fn() },
+    rolePermission: { findMany: vi.fn() },
+    user: { findFirst: vi.fn() },
+    organization: { findFirst: vi.fn() },
+    accessPolicy: { findMany: vi.fn() },
+  },
+}));
+
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import {
+  clearRoleHierarchyCache,
+  formatIsGrantedTrace,
+  traceIsGranted,
+  ROLES,
+  VoteResult,
+  VotingStrategy,
+  type UserWithRoles,
+} from '@/lib/security/index';
+import { DEFAULT_PERMISSION_GRANTS } from '@/lib/security/permissions';
+import { POST } from '@/app/api/admin/access-trace/route';
+import { expectDenied, expectGranted } from '../utils/authz-assertions';
+
+const roles = [
+  { id: 'role-user', name: ROLES.USER, parentId: null },
+  { id: 'role-mod', name: ROLES.MODERATOR, parentId: 'role-user' },
+  { id: 'role-admin', name: ROLES.ADMIN, parentId: 'role-mod' },
+  { id: 'role-owner', name: ROLES.OWNER, parentId: 'role-admin' },
+];
+
+function userWithRole(
+  id: string,
+  roleName: string,
+  organizationId: string | null = null
+): UserWithRoles {
+  const role = roles.find((r) => r.name === roleName)!;
+  return { id, userRoles: [{ organizationId, role }] };
+}
+
+const org = { id: 'org-1', slug: 'acme' };
+
+// The grants the role_permissions migration seeds
+const seededGrants = Object.entries(DEFAULT_PERMISSION_GRANTS).flatMap(
+  ([permission, roleNames]) =>
+    roleNames.map((name) => ({ permission, role: { name } }))
+);
+
+describe('Access trace', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearRoleHierarchyCache();
+    vi.mocked(prisma.role.findMany).mockResolvedValue(roles as never);
+    vi.mocked(prisma.rolePermission.findMany).mockResolvedValue(
+      seededGrants as never
+    );
+    vi.mocked(prisma.accessPolicy.findMany).mockResolvedValue([]);
+  });
+
+  describe('traceIsGranted', () => {
+    it('records the roles a ROLE_* check resolved', async () => {
+      const trace = await traceIsGranted(
+        userWithRole('user-1', ROLES.ADMIN),
+        ROLES.USER
+      );
+
+      expect(trace.granted).toBe(true);
+      expect(trace.decision).toBeNull();
+      expect(trace.roleChecks).toEqual([
+        {
+          role: ROLES.USER,
+          organizationId: null,
+          assignedRoles: [ROLES.ADMIN],
+          resolvedRoles: [ROLES.ADMIN, ROLES.MODERATOR, ROLES.USER],
+          granted: true,
+        },
+      ]);
+    });
+
+    it('reports every voter with its support, vote and role checks', async () => {
+      const member = userWithRole('user-1', ROLES.USER, org.id);
+
+      const trace = await traceIsGranted(member, 'organization.edit', {
+        organizationId: org.id,
+        subject: org,
+      });
+
+      expect(trace.granted).toBe(false);
+      expect(trace.decision).toMatchObject({
+        strategy: VotingStrategy.AFFIRMATIVE,
+        allowIfAllAbstain: false,
+        votes: [{ voter: 'OrganizationVoter', result: VoteResult.DENIED }],
+      });
+
+      const [organizationVoter, userVoter] = trace.decision!.voters;
+      expect(userVoter).toEqual({
+        voter: 'UserVoter',
+        supports: false,
+        vote: null,
+        roleChecks: [],
+      });
+      expect(organizationVoter.supports).toBe(true);
+      expect(organizationVoter.vote).toBe(VoteResult.DENIED);
+      // Platform admin bypass, then the roles granted organization.edit
+      expect(
+        organizationVoter.roleChecks.map((check) => [
+          check.role,
+          check.organizationId,
+          check.granted,
+        ])
+      ).toEqual([
+        [ROLES.ADMIN, null, false],
+        [ROLES.ADMIN, org.id, false],
+      ]);
+      expect(organizationVoter.roleChecks[1].resolvedRoles).toEqual([
+        ROLES.USER,
+      ]);
+    });
+
+    it('describes the trace in plain text', async () => {
+      const trace = await traceIsGranted(
+        userWithRole('user-1', ROLES.USER, org.id),
+        'organization.edit',
+        { subject: org }
+      );
+
+      expect(formatIsGrantedTrace(trace)).toBe(
+        [
+          'organization.edit for user-1: DENIED',
+          '  strategy: affirmative (allowIfAllAbstain: false)',
+          '  OrganizationVoter: denied',
+          '    hasRole(ROLE_ADMIN, platform): false [resolved: none]',
+          '    hasRole(ROLE_ADMIN, org-1): false [resolved: ROLE_USER]',
+          '  UserVoter: does not support',
+          '  PolicyVoter: does not support',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('assertion helpers', () => {
+    it('pass with the matching outcome', async () => {
+      const owner = userWithRole('user-1', ROLES.OWNER, org.id);
+
+      await expectGranted(owner, 'organization.delete', { subject: org });
+      await expectDenied(
+        userWithRole('user-2', ROLES.ADMIN, org.id),
+        'organization.delete',
+        { subject: org }
+      );
+    });
+
+    it('fail with the trace in the message', async () => {
+      await expect(
+        expectGranted(
+          userWithRole('user-1', ROLES.USER, org.id),
+          'organization.edit',
+          { subject: org }
+        )
+      ).rejects.toThrow('OrganizationVoter: denied');
+    });
+  });
+
+  describe('POST /api/admin/access-trace', () => {
+    const admin = { ...userWithRole('admin-1', ROLES.ADMIN), email: 'a@x.io' };
+
+    const createRequest = (body: unknown) =>
+      new NextRequest('http://localhost/api/admin/access-trace', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+
+    it('requires an admin', async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue({
+        ...userWithRole('user-1', ROLES.USER),
+      } as never);
+
+      const response = await POST(
+        createRequest({ user: 'user-1', attribute: 'organization.view' })
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it('traces the check for the user and subject', async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue(admin as never);
+      vi.mocked(prisma.user.findFirst).mockResolvedValue({
+        ...userWithRole('user-1', ROLES.USER, org.id),
+        email: 'member@example.com',
+      } as never);
+      vi.mocked(prisma.organization.findFirst).mockResolvedValue({
+        ...org,
+        name: 'Acme',
+      } as never);
+
+      const response = await POST(
+        createRequest({
+          user: 'Member@Example.com',
+          attribute: 'organization.view',
+          subject: { type: 'organization', id: 'acme' },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(prisma.user.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [{ id: 'Member@Example.com' }, { email: 'member@example.com' }],
+          },
+        })
+      );
+      expect(data.subject).toEqual({
+        type: 'organization',
+        id: 'org-1',
+        label: 'Acme',
+      });
+      expect(data.trace.granted).toBe(true);
+      expect(data.trace.decision.voters[0]).toMatchObject({
+        voter: 'OrganizationVoter',
+        vote: VoteResult.GRANTED,
+      });
+    });
+
+    it('returns 404 for an unknown subject', async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue(admin as never);
+      vi.mocked(prisma.user.findFirst).mockResolvedValue({
+        ...userWithRole('user-1', ROLES.USER),
+        email: 'member@example.com',
+      } as never);
+      vi.mocked(prisma.organization.findFirst).mockResolvedValue(null);
+
+      const response = await POST(
+        createRequest({
+          user: 'user-1',
+          attribute: 'organization.view',
+          subject: { type: 'organization', id: 'missing' },
+        })
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const {
+  mockPrisma,
+  mockEnv,
+  mockChangeUserStatus,
+  mockCheckLastOrgAdmin,
+  mockLogAuditEvent,
+  mockSendEmail,
+} = vi.hoisted(() => {
+  const mockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    userRole: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+    },
+    organization: { delete: vi.fn() },
+    organizationInvite: { deleteMany: vi.fn() },
+    auditLog: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    emailLog: { updateMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  return {
+    mockPrisma,
+    mockEnv: {} as { ACCOUNT_DELETION_GRACE_DAYS?: number },
+    mockChangeUserStatus: vi.fn(),
+    mockCheckLastOrgAdmin: vi.fn(),
+    mockLogAuditEvent: vi.fn(),
+    mockSendEmail: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+vi.mock('@/lib/env', () => ({ env: mockEnv }));
+vi.mock('@/lib/audit', () => ({ logAuditEvent: mockLogAuditEvent }));
+vi.mock('@/lib/email', () => ({
+  sendAccountDeletionScheduledEmail: mockSendEmail,
+}));
+vi.mock('@/lib/auth/user-status', () => ({
+  changeUserStatus: mockChangeUserStatus,
+}));
+vi.mock('@/lib/security/role-safeguards', () => ({
+  checkLastOrgAdmin: mockCheckLastOrgAdmin,
+}));
+
+import {
+  cancelAccountDeletion,
+  purgeAccount,
+  purgeDueAccountDeletions,
+  scheduleAccountDeletion,
+} from '@/lib/account-deletion';
+import { hashResetToken } from '@/lib/security';
+import { AuthorizationError, TokenInvalidError } from '@/services/auth.errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const user = { id: 'user-1', email: 'ada@example.com', firstName: 'Ada' };
+
+function membership(organizationId: string, roleName: string) {
+  return {
+    organizationId,
+    role: { id: `role-${roleName}`, name: roleName },
+    organization: { name: `Org ${organizationId}` },
+  };
+}
+
+describe('Account deletion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete mockEnv.ACCOUNT_DELETION_GRACE_DAYS;
+    mockPrisma.$transaction.mockImplementation(
+      async (fn: (tx: typeof mockPrisma) => unknown) => fn(mockPrisma)
+    );
+    mockPrisma.userRole.findMany.mockResolvedValue([]);
+    mockPrisma.userRole.count.mockResolvedValue(1);
+    mockPrisma.auditLog.findMany.mockResolvedValue([]);
+    mockCheckLastOrgAdmin.mockResolvedValue({ allowed: true });
+    mockSendEmail.mockResolvedValue(true);
+  });
+
+  describe('scheduleAccountDeletion', () => {
+    it('locks the account until the grace period ends and emails a cancellation link', async () => {
+      const deletesAt = await scheduleAccountDeletion(user, {
+        ipAddress: '203.0.113.1',
+      });
+
+      expect(deletesAt!.getTime()).toBeGreaterThan(Date.now() + 29 * DAY_MS);
+      expect(mockChangeUserStatus).toHaveBeenCalledWith(
+        'user-1',
+        'PENDING_DELETION',
+        { reason: 'Deletion requested by the user', expiresAt: deletesAt }
+      );
+
+      const [to, token] = mockSendEmail.mock.calls[0];
+      expect(to).toBe('ada@example.com');
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { deletionCancelToken: await hashResetToken(token) },
+      });
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'ACCOUNT_DELETION_SCHEDULED' })
+      );
+      expect(mockPrisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it('refuses the last administrator of an organization with other members', async () => {
+      mockPrisma.userRole.findMany.mockResolvedValue([
+        membership('org-1', 'ROLE_OWNER'),
+      ]);
+      mockCheckLastOrgAdmin.mockResolvedValue({ allowed: false });
+
+      await expect(scheduleAccountDeletion(user, {})).rejects.toThrow(
+        AuthorizationError
+      );
+      expect(mockChangeUserStatus).not.toHaveBeenCalled();
+    });
+
+    it('deletes right away without a grace period', async () => {
+      mockEnv.ACCOUNT_DELETION_GRACE_DAYS = 0;
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+
+      expect(await scheduleAccountDeletion(user, {})).toBeNull();
+      expect(mockPrisma.user.delete).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+      });
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelAccountDeletion', () => {
+    it('reactivates the account', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        status: 'PENDING_DELETION',
+      });
+
+      await cancelAccountDeletion('token', {});
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { deletionCancelToken: await hashResetToken('token') },
+        })
+      );
+      expect(mockChangeUserStatus).toHaveBeenCalledWith('user-1', 'ACTIVE', {
+        reason: 'Deletion cancelled by the user',
+      });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { deletionCancelToken: null },
+      });
+    });
+
+    it('rejects links for accounts no longer pending deletion', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        status: 'ACTIVE',
+      });
+
+      await expect(cancelAccountDeletion('token', {})).rejects.toThrow(
+        TokenInvalidError
+      );
+      expect(mockChangeUserStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeAccount', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+    });
+
+    it('anonymizes logs instead of orphaning them', async () => {
+      mockPrisma.auditLog.findMany.mockResolvedValue([
+        {
+          id: 'log-9',
+          metadata: '{"targetEmail":"ada@example.com","changedBy":"admin-1"}',
+        },
+      ]);
+
+      expect(await purgeAccount('user-1')).toBe(true);
+
+      const auditUpdate = mockPrisma.auditLog.updateMany.mock.calls[0][0];
+      expect(auditUpdate.where).toEqual({ userId: 'user-1' });
+      expect(auditUpdate.data).toMatchObject({
+        userId: null,
+        ipAddress: null,
+        userAgent: null,
+      });
+      const { anonymizedUserId } = JSON.parse(auditUpdate.data.metadata);
+      expect(anonymizedUserId).toMatch(/^deleted-user-/);
+
+      expect(mockPrisma.auditLog.update).toHaveBeenCalledWith({
+        where: { id: 'log-9' },
+        data: {
+          metadata: `{"targetEmail":"${anonymizedUserId}@deleted.invalid","changedBy":"admin-1"}`,
+        },
+      });
+      expect(mockPrisma.emailLog.updateMany).toHaveBeenCalledWith({
+        where: { OR: [{ userId: 'user-1' }, { to: 'ada@example.com' }] },
+        data: expect.objectContaining({
+          userId: null,
+          to: `${anonymizedUserId}@deleted.invalid`,
+          htmlBody: '[PURGED]',
+        }),
+      });
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'ACCOUNT_DELETED',
+          metadata: expect.objectContaining({ anonymizedUserId }),
+        })
+      );
+    });
+
+    it('hands owned organizations to an admin and deletes empty ones', async () => {
+      mockPrisma.userRole.findMany.mockResolvedValue([
+        membership('org-1', 'ROLE_OWNER'),
+        membership('org-2', 'ROLE_OWNER'),
+      ]);
+      mockPrisma.userRole.count.mockImplementation(
+        async ({ where }: { where: { organizationId: string } }) =>
+          where.organizationId === 'org-1' ? 3 : 0
+      );
+      mockPrisma.userRole.findFirst.mockResolvedValue({
+        id: 'membership-7',
+        userId: 'user-7',
+      });
+
+      await purgeAccount('user-1');
+
+      expect(mockPrisma.userRole.update).toHaveBeenCalledWith({
+        where: { id: 'membership-7' },
+        data: { roleId: 'role-ROLE_OWNER' },
+      });
+      expect(mockPrisma.organization.delete).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.organization.delete).toHaveBeenCalledWith({
+        where: { id: 'org-2' },
+      });
+      expect(mockPrisma.user.delete).toHaveBeenCalled();
+    });
+
+    it('keeps the account when only a temporary admin could take over', async () => {
+      mockPrisma.userRole.findMany.mockResolvedValue([
+        membership('org-1', 'ROLE_OWNER'),
+      ]);
+      mockPrisma.userRole.findFirst.mockResolvedValue(null);
+
+      expect(await purgeAccount('user-1')).toBe(false);
+      expect(mockPrisma.userRole.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            organizationId: 'org-1',
+            role: { name: 'ROLE_ADMIN' },
+            expiresAt: null,
+            OR: [{ startsAt: null }, { startsAt: { lte: expect.any(Date) } }],
+          }),
+        })
+      );
+      expect(mockPrisma.userRole.update).not.toHaveBeenCalled();
+      expect(mockPrisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it('keeps the account when it became the last administrator', async () => {
+      mockPrisma.userRole.findMany.mockResolvedValue([
+        membership('org-1', 'ROLE_ADMIN'),
+      ]);
+      mockCheckLastOrgAdmin.mockResolvedValue({ allowed: false });
+
+      expect(await purgeAccount('user-1')).toBe(false);
+      expect(mockPrisma.user.delete).not.toHaveBeenCalled();
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'ACCOUNT_DELETION_BLOCKED' })
+      );
+    });
+  });
+
+  describe('purgeDueAccountDeletions', () => {
+    it('purges accounts whose grace period ended and counts the blocked ones', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'user-1' },
+        { id: 'user-2' },
+      ]);
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+      mockPrisma.userRole.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([membership('org-1', 'ROLE_ADMIN')]);
+      mockCheckLastOrgAdmin.mockResolvedValue({ allowed: false });
+
+      expect(await purgeDueAccountDeletions()).toEqual({
+        purged: 1,
+        blocked: 1,
+      });
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: {
+          status: 'PENDING_DELETION',
+          statusExpiresAt: { lte: expect.any(Date) },
+        },
+        select: { id: true },
+      });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    organization: { findUnique: vi.fn() },
+    role: { findMany: vi.fn() },
+    rolePermission: { findMany: vi.fn() },
+    accessPolicy: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+vi.mock('@/lib/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  getCurrentUser: vi.fn(),
+  isRateLimited: vi.fn().mockReturnValue(false),
+}));
+vi.mock('@/lib/audit', () => ({ logAuditEvent: vi.fn() }));
+
+import { PATCH } from '@/app/api/admin/organizations/[id]/route';
+import { getCurrentUser } from '@/lib/auth';
+import {
+  clearAccessPolicyCache,
+  clearRoleHierarchyCache,
+  ROLES,
+} from '@/lib/security/index';
+
+describe('Admin Organization API', () => {
+  const adminRole = { id: 'role-admin', name: ROLES.ADMIN, parentId: null };
+  const orgAdmin = {
+    id: 'admin-1',
+    email: 'admin@acme.com',
+    userRoles: [{ organizationId: 'org-1', role: adminRole }],
+  };
+
+  const transferRequest = (ip: string) =>
+    new NextRequest('http://localhost/api/admin/organizations/org-1', {
+      method: 'PATCH',
+      headers: { 'x-forwarded-for': ip },
+      body: JSON.stringify({}),
+    });
+  const params = { params: Promise.resolve({ id: 'org-1' }) };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearRoleHierarchyCache();
+    clearAccessPolicyCache();
+    vi.mocked(getCurrentUser).mockResolvedValue(orgAdmin as never);
+    mockPrisma.organization.findUnique.mockResolvedValue({
+      id: 'org-1',
+      slug: 'acme',
+      name: 'Acme',
+      userRoles: [],
+    });
+    mockPrisma.role.findMany.mockResolvedValue([adminRole]);
+    mockPrisma.rolePermission.findMany.mockResolvedValue([
+      { permission: 'organization.manage', role: { name: ROLES.ADMIN } },
+    ]);
+    mockPrisma.accessPolicy.findMany.mockResolvedValue([
+      {
+        name: 'manage-from-office-network',
+        effect: 'DENY',
+        permissions: ['organization.manage'],
+        condition: {
+          not: {
+            attribute: 'context.ip',
+            operator: 'inNetwork',
+            value: ['10.0.0.0/8'],
+          },
+        },
+      },
+    ]);
+  });
+
+  describe('PATCH /api/admin/organizations/[id]', () => {
+    it('passes the client IP to access policies', async () => {
+      const outside = await PATCH(transferRequest('203.0.113.7'), params);
+      expect(outside.status).toBe(403);
+
+      // Authorized from the office network; fails later on the missing owner
+      const inside = await PATCH(transferRequest('10.1.2.3'), params);
+      expect(inside.status).toBe(400);
+      expect((await inside.json()).error.message).toBe(
+        'New owner ID is required'
+      );
+    });
+  });
+});
@@ -55,6 +55,7 @@ describe('Admin Roles API', () => {
       createdAt: new Date('2024-01-01'),
       updatedAt: new Date('2024-01-01'),
       parent: { id: 'role-2', name: 'ROLE_MODERATOR' },
+      permissions: [{ permission: 'user.delete' }],
       _count: { userRoles: 2 },
     },
     {
@@ -66,6 +67,7 @@ describe('Admin Roles API', () => {
       createdAt: new Date('2024-01-01'),
       updatedAt: new Date('2024-01-01'),
       parent: { id: 'role-3', name: 'ROLE_USER' },
+      permissions: [{ permission: 'user.view' }],
       _count: { userRoles: 5 },
     },
     {
@@ -77,6 +79,7 @@ describe('Admin Roles API', () => {
       createdAt: new Date('2024-01-01'),
       updatedAt: new Date('2024-01-01'),
       parent: null,
+      permissions: [],
       _count: { userRoles: 100 },
     },
   ];
@@ -130,6 +133,7 @@ describe('Admin Roles API', () => {
         parentId: 'role-2',
         parentName: 'ROLE_MODERATOR',
         isSystem: true,
+        permissions: ['user.delete'],
         userCount: 2,
         createdAt: expect.any(String),
         updatedAt: expect.any(String),
@@ -308,6 +312,42 @@ describe('Admin Roles API', () => {
       });
     });
 
+    it('should create role with granted permissions', async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue(mockAdminUser as never);
+      vi.mocked(isGranted).mockResolvedValue(true);
+      vi.mocked(prisma.role.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.role.create).mockResolvedValue({
+        id: 'new-role',
+        name: 'ROLE_SUPPORT',
+        description: null,
+        parentId: null,
+        isSystem: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        parent: null,
+      } as never);
+
+      const response = await POST(
+        createRequest({
+          name: 'ROLE_SUPPORT',
+          permissions: ['user.view', 'user.edit', 'user.view'],
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.role.permissions).toEqual(['user.view', 'user.edit']);
+      expect(prisma.role.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            permissions: {
+              create: [{ permission: 'user.view' }, { permission: 'user.edit' }],
+            },
+          }),
+        })
+      );
+    });
+
     it('should create role without parent', async () => {
       vi.mocked(getCurrentUser).mockResolvedValue(mockAdminUser as never);
       vi.mocked(isGranted).mockResolvedValue(true);
@@ -15,6 +15,11 @@ vi.mock('@/lib/db', () => ({
       update: vi.fn(),
       delete: vi.fn(),
     },
+    rolePermission: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
   },
 }));
 
@@ -54,6 +59,7 @@ describe('Admin Roles [id] API', () => {
     updatedAt: new Date('2024-01-01'),
     parent: { id: 'role-user', name: 'ROLE_USER' },
     children: [],
+    permissions: [{ permission: 'user.view' }],
     userRoles: [
       {
         user: {
@@ -77,6 +83,7 @@ describe('Admin Roles [id] API', () => {
     updatedAt: new Date('2024-01-01'),
     parent: { id: 'role-mod', name: 'ROLE_MODERATOR' },
     children: [],
+    permissions: [{ permission: 'user.delete' }],
     userRoles: [],
     _count: { userRoles: 2, children: 0 },
   };
@@ -143,6 +150,7 @@ describe('Admin Roles [id] API', () => {
       expect(data.role.users).toHaveLength(1);
       expect(data.role.users[0].email).toBe('support@example.com');
       expect(data.role.childRoles).toHaveLength(0);
+      expect(data.role.permissions).toEqual(['user.view']);
       expect(data.role.totalUsers).toBe(1);
       expect(data.role.hasMoreUsers).toBe(false);
     });
@@ -411,6 +419,85 @@ describe('Admin Roles [id] API', () => {
       expect(data.role.parentId).toBeNull();
     });
 
+    it('should replace granted permissions and clear cache', async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue(mockAdminUser as never);
+      vi.mocked(isGranted).mockResolvedValue(true);
+      vi.mocked(prisma.role.findUnique).mockResolvedValue(mockRole as never);
+      vi.mocked(prisma.role.update).mockResolvedValue({
+        ...mockRole,
+        permissions: [
+          { permission: 'user.edit' },
+          { permission: 'organization.view' },
+        ],
+        _count: { userRoles: 1 },
+      } as never);
+
+      const response = await PATCH(
+        createRequest({ permissions: ['user.edit', 'organization.view'] }),
+        createParams('role-support')
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.role.permissions).toEqual(['user.edit', 'organization.view']);
+      expect(prisma.rolePermission.deleteMany).toHaveBeenCalledWith({
+        where: { roleId: 'role-support', permission: { in: ['user.view'] } },
+      });
+      expect(prisma.rolePermission.createMany).toHaveBeenCalledWith({
+        data: [
+          { roleId: 'role-support', permission: 'user.edit' },
+          { roleId: 'role-support', permission: 'organization.view' },
+        ],
+      });
+      expect(prisma.$transaction).toHaveBeenCalled();
+      expect(clearRoleHierarchyCache).toHaveBeenCalled();
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'ADMIN_ROLE_UPDATED',
+          metadata: expect.objectContaining({
+            changes: {
+              permissions: {
+                added: ['user.edit', 'organization.view'],
+                removed: ['user.view'],
+              },
+            },
+          }),
+        })
+      );
+    });
+
+    it('should reject unknown permissions', async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue(mockAdminUser as never);
+      vi.mocked(isGranted).mockResolvedValue(true);
+      vi.mocked(prisma.role.findUnique).mockResolvedValue(mockRole as never);
+
+      const response = await PATCH(
+        createRequest({ permissions: ['user.impersonate'] }),
+        createParams('role-support')
+      );
+
+      expect(response.status).toBe(400);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not touch grants when permissions are unchanged', async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue(mockAdminUser as never);
+      vi.mocked(isGranted).mockResolvedValue(true);
+      vi.mocked(prisma.role.findUnique).mockResolvedValue(mockRole as never);
+      vi.mocked(prisma.role.update).mockResolvedValue({
+        ...mockRole,
+        _count: { userRoles: 1 },
+      } as never);
+
+      await PATCH(
+        createRequest({ permissions: ['user.view'] }),
+        createParams('role-support')
+      );
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(clearRoleHierarchyCache).not.toHaveBeenCalled();
+    });
+
     it('should log audit event on update', async () => {
       vi.mocked(getCurrentUser).mockResolvedValue(mockAdminUser as never);
       vi.mocked(isGranted).mockResolvedValue(true);
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   ValidationError,
   AuthenticationError,
+  AuthorizationError,
   EmailNotVerifiedError,
   AccountLockedError,
   RateLimitError,
@@ -9,6 +10,8 @@ import {
   TokenInvalidError,
   NotFoundError,
   ConflictError,
+  SsoRequiredError,
+  LoginBlockedError,
 } from '@/services/auth.errors';
 
 // Mock dependencies
@@ -18,6 +21,7 @@ vi.mock('@/lib/db', () => ({
       findUnique: vi.fn(),
       findFirst: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
       create: vi.fn(),
     },
     organization: {
@@ -82,6 +86,50 @@ vi.mock('@/lib/auth/pending-2fa', () => ({
   verifyPending2FAToken: vi.fn(),
 }));
 
+vi.mock('@/lib/auth/risk', () => ({
+  assessLoginRisk: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/email-otp', () => ({
+  issueEmailOtp: vi.fn().mockResolvedValue({ code: '123456' }),
+  verifyEmailOtp: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/webauthn', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth/webauthn')>()),
+  getPasskeyCount: vi.fn().mockResolvedValue(0),
+}));
+
+vi.mock('@/lib/auth/sso', () => ({
+  assertSsoNotRequired: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('@/lib/auth/two-factor-policy', () => ({
+  isTwoFactorRequired: vi.fn().mockResolvedValue(false),
+}));
+
+vi.mock('@/lib/auth/password-policy', async () => {
+  const { DEFAULT_PASSWORD_POLICY } = await import(
+    '@/lib/auth/password-policy/rules'
+  );
+  return {
+    assertPasswordAllowed: vi.fn().mockResolvedValue(undefined),
+    getPasswordPolicy: vi.fn().mockResolvedValue(DEFAULT_PASSWORD_POLICY),
+    getPasswordPolicyForOrganizations: vi
+      .fn()
+      .mockResolvedValue(DEFAULT_PASSWORD_POLICY),
+  };
+});
+
+vi.mock('@/lib/auth/refresh-tokens', () => ({
+  revokeAllUserRefreshTokens: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('@/lib/auth/remember-me', () => ({
+  createRememberMeToken: vi.fn(),
+  revokeAllUserTokens: vi.fn().mockResolvedValue(undefined),
+}));
+
 vi.mock('@/lib/audit', () => ({
   logAuditEvent: vi.fn().mockResolvedValue(undefined),
 }));
@@ -94,10 +142,13 @@ vi.mock('@/lib/email', () => ({
   sendPasswordChangedNotification: vi.fn().mockResolvedValue(undefined),
   sendVerificationEmail: vi.fn().mockResolvedValue(undefined),
   sendPasswordResetEmail: vi.fn().mockResolvedValue(undefined),
+  sendMagicLinkEmail: vi.fn().mockResolvedValue(undefined),
+  sendLoginCodeEmail: vi.fn().mockResolvedValue(undefined),
 }));
 
 vi.mock('@/lib/security', () => ({
   hashPassword: vi.fn().mockResolvedValue('hashed_password'),
+  verifyPassword: vi.fn(),
   generateResetToken: vi.fn().mockResolvedValue('reset_token'),
   hashResetToken: vi.fn().mockResolvedValue('hashed_reset_token'),
 }));
@@ -112,18 +163,48 @@ vi.mock('@/lib/organization', () => ({
 
 // Import after mocks
 import { prisma } from '@/lib/db';
-import { authenticateUser } from '@/lib/auth';
+import { authenticateUser, createUserSession } from '@/lib/auth';
+import {
+  createPending2FAToken,
+  verifyPending2FAToken,
+} from '@/lib/auth/pending-2fa';
+import { assessLoginRisk } from '@/lib/auth/risk';
+import { issueEmailOtp, verifyEmailOtp } from '@/lib/auth/email-otp';
+import { assertSsoNotRequired } from '@/lib/auth/sso';
+import { isTwoFactorRequired } from '@/lib/auth/two-factor-policy';
+import { assertPasswordAllowed } from '@/lib/auth/password-policy';
+import { revokeAllUserRefreshTokens } from '@/lib/auth/refresh-tokens';
+import { revokeAllUserTokens } from '@/lib/auth/remember-me';
+import { verifyPassword } from '@/lib/security';
+import { logAuditEvent } from '@/lib/audit';
+import { sendMagicLinkEmail, sendLoginCodeEmail } from '@/lib/email';
 import { __mockRateLimiter as mockRateLimiter } from '@/lib/rate-limiter';
-import { checkAccountLocked, recordFailedAttempt } from '@/lib/auth/lockout';
+import {
+  checkAccountLocked,
+  recordFailedAttempt,
+  resetFailedAttempts,
+} from '@/lib/auth/lockout';
 import { verifyTOTPCode, generateTOTPSecret } from '@/lib/auth/totp';
-import { generateBackupCodes, deleteAllBackupCodes } from '@/lib/auth/backup-codes';
+import {
+  generateBackupCodes,
+  deleteAllBackupCodes,
+  getRemainingBackupCodeCount,
+} from '@/lib/auth/backup-codes';
+import { getPasskeyCount } from '@/lib/auth/webauthn';
 import {
   login,
+  validate2FA,
   setup2FA,
+  setupEmail2FA,
   verify2FASetup,
   disable2FA,
+  getPending2FAFactors,
+  sendPending2FAEmailCode,
   requestPasswordReset,
   resetPassword,
+  changeRequiredPassword,
+  requestMagicLink,
+  loginWithMagicLink,
   verifyEmail,
   resendVerificationEmail,
 } from '@/services/auth.service';
@@ -133,6 +214,11 @@ describe('Auth Service Functions', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(assessLoginRisk).mockResolvedValue({
+      score: 0,
+      decision: 'allow',
+      signals: [],
+    });
   });
 
   describe('login', () => {
@@ -230,6 +316,502 @@ describe('Auth Service Functions', () => {
         login({ email: 'test@example.com', password: 'password' }, mockContext)
       ).rejects.toThrow(EmailNotVerifiedError);
     });
+
+    it('should reject password login when the organization enforces SSO', async () => {
+      mockRateLimiter.check.mockResolvedValue({
+        limited: false,
+        headers: {
+          'X-RateLimit-Limit': 10,
+          'X-RateLimit-Remaining': 9,
+          'X-RateLimit-Reset': Math.floor(Date.now() / 1000) + 900,
+        },
+      });
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: '1',
+        email: 'test@acme.com',
+      } as any);
+      vi.mocked(checkAccountLocked).mockResolvedValue({ isLocked: false });
+      vi.mocked(authenticateUser).mockRejectedValue(
+        new SsoRequiredError('acme', '/api/auth/saml/acme/login')
+      );
+
+      await expect(
+        login({ email: 'test@acme.com', password: 'password' }, mockContext)
+      ).rejects.toMatchObject({
+        type: 'SSO_REQUIRED',
+        details: { ssoUrl: '/api/auth/saml/acme/login' },
+      });
+      expect(recordFailedAttempt).not.toHaveBeenCalled();
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'AUTH_LOGIN_FAILURE',
+          metadata: { reason: 'sso_required', organizationSlug: 'acme' },
+        })
+      );
+    });
+
+    describe('risk-based decisions', () => {
+      const mockSession = {} as any;
+      const verifiedUser = {
+        id: '1',
+        email: 'test@example.com',
+        firstName: 'Test',
+        emailVerified: true,
+        twoFactorEnabled: false,
+      };
+      const risk = {
+        score: 45,
+        decision: 'challenge' as const,
+        signals: [
+          { name: 'new_device', score: 20 },
+          { name: 'new_network', score: 25, detail: { asn: 64500 } },
+        ],
+      };
+
+      beforeEach(() => {
+        mockRateLimiter.check.mockResolvedValue({ limited: false, headers: {} });
+        vi.mocked(prisma.user.findUnique).mockResolvedValue(verifiedUser as any);
+        vi.mocked(checkAccountLocked).mockResolvedValue({ isLocked: false } as any);
+        vi.mocked(authenticateUser).mockResolvedValue(verifiedUser as any);
+        vi.mocked(createPending2FAToken).mockResolvedValue('pending_token');
+        vi.mocked(createUserSession).mockResolvedValue({
+          accessToken: 'access',
+          refreshToken: 'refresh',
+          sessionToken: 'session',
+        });
+      });
+
+      it('should record the risk assessment on a successful login', async () => {
+        vi.mocked(assessLoginRisk).mockResolvedValue({
+          score: 10,
+          decision: 'allow',
+          signals: [{ name: 'unusual_hour', score: 10 }],
+        });
+
+        await login(
+          { email: 'test@example.com', password: 'password' },
+          mockContext,
+          mockSession
+        );
+
+        expect(assessLoginRisk).toHaveBeenCalledWith({
+          userId: '1',
+          ipAddress: '127.0.0.1',
+          userAgent: 'test-agent',
+          knownDevice: false,
+        });
+        expect(createUserSession).toHaveBeenCalled();
+        expect(logAuditEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            action: 'AUTH_LOGIN_SUCCESS',
+            metadata: {
+              risk: {
+                score: 10,
+                decision: 'allow',
+                signals: [{ name: 'unusual_hour', score: 10 }],
+              },
+            },
+          })
+        );
+      });
+
+      it('should block the login without creating a session', async () => {
+        const blocked = { ...risk, score: 95, decision: 'block' as const };
+        vi.mocked(assessLoginRisk).mockResolvedValue(blocked);
+
+        await expect(
+          login(
+            { email: 'test@example.com', password: 'password' },
+            mockContext,
+            mockSession
+          )
+        ).rejects.toThrow(LoginBlockedError);
+
+        expect(createUserSession).not.toHaveBeenCalled();
+        expect(resetFailedAttempts).not.toHaveBeenCalled();
+        expect(logAuditEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            action: 'AUTH_LOGIN_BLOCKED',
+            category: 'security',
+            metadata: { risk: blocked },
+          })
+        );
+      });
+
+      it('should email a code when challenged without 2FA', async () => {
+        vi.mocked(assessLoginRisk).mockResolvedValue(risk);
+
+        const result = await login(
+          { email: 'test@example.com', password: 'password' },
+          mockContext,
+          mockSession
+        );
+
+        expect(result).toEqual({
+          requiresTwoFactor: true,
+          pendingToken: 'pending_token',
+          challenge: 'email_code',
+        });
+        expect(createPending2FAToken).toHaveBeenCalledWith('1', 'email_code');
+        expect(issueEmailOtp).toHaveBeenCalledWith('1');
+        expect(sendLoginCodeEmail).toHaveBeenCalledWith(
+          'test@example.com',
+          '123456',
+          'Test',
+          '1',
+          'sign_in'
+        );
+        expect(createUserSession).not.toHaveBeenCalled();
+        expect(logAuditEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            action: 'AUTH_LOGIN_CHALLENGED',
+            metadata: { challenge: 'email_code', risk },
+          })
+        );
+        expect(logAuditEvent).not.toHaveBeenCalledWith(
+          expect.objectContaining({ action: 'AUTH_LOGIN_SUCCESS' })
+        );
+      });
+
+      it('should rate limit emailed codes per user', async () => {
+        vi.mocked(assessLoginRisk).mockResolvedValue(risk);
+        mockRateLimiter.check.mockImplementation(async (key: string) => ({
+          limited: key === 'email-otp:1',
+          headers: {},
+        }));
+
+        await expect(
+          login(
+            { email: 'test@example.com', password: 'password' },
+            mockContext,
+            mockSession
+          )
+        ).rejects.toThrow(RateLimitError);
+
+        expect(issueEmailOtp).not.toHaveBeenCalled();
+      });
+
+      it('should use 2FA to satisfy a challenge when enabled', async () => {
+        vi.mocked(assessLoginRisk).mockResolvedValue(risk);
+        vi.mocked(authenticateUser).mockResolvedValue({
+          ...verifiedUser,
+          twoFactorEnabled: true,
+        } as any);
+
+        const result = await login(
+          { email: 'test@example.com', password: 'password' },
+          mockContext,
+          mockSession
+        );
+
+        expect(result).toEqual({
+          requiresTwoFactor: true,
+          pendingToken: 'pending_token',
+        });
+        expect(createPending2FAToken).toHaveBeenCalledWith('1');
+        expect(issueEmailOtp).not.toHaveBeenCalled();
+        expect(logAuditEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            action: 'AUTH_LOGIN_SUCCESS',
+            metadata: { requires2FA: true, risk },
+          })
+        );
+      });
+    });
+  });
+
+  describe('validate2FA with an emailed code', () => {
+    const mockSession = {} as any;
+    const user = {
+      id: '1',
+      email: 'test@example.com',
+      emailVerified: true,
+      twoFactorEnabled: false,
+    };
+
+    beforeEach(() => {
+      mockRateLimiter.check.mockResolvedValue({ limited: false, headers: {} });
+      vi.mocked(verifyPending2FAToken).mockResolvedValue({
+        userId: '1',
+        challenge: 'email_code',
+      });
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(user as any);
+      vi.mocked(createUserSession).mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        sessionToken: 'session',
+      });
+    });
+
+    it('should complete the login with a valid code', async () => {
+      vi.mocked(verifyEmailOtp).mockResolvedValue(true);
+
+      const result = await validate2FA(
+        { pendingToken: 'pending_token', code: '123456' },
+        mockContext,
+        mockSession
+      );
+
+      expect(verifyEmailOtp).toHaveBeenCalledWith('1', '123456');
+      expect(result.tokens).toEqual({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      });
+      expect(result.warnings).toBeUndefined();
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'AUTH_LOGIN_SUCCESS',
+          metadata: { challenge: 'email_code' },
+        })
+      );
+    });
+
+    it('should count a wrong code as a failed login', async () => {
+      vi.mocked(verifyEmailOtp).mockResolvedValue(false);
+      vi.mocked(recordFailedAttempt).mockResolvedValue({
+        isLocked: false,
+      } as any);
+
+      await expect(
+        validate2FA(
+          { pendingToken: 'pending_token', code: '000000' },
+          mockContext,
+          mockSession
+        )
+      ).rejects.toThrow(AuthenticationError);
+
+      expect(recordFailedAttempt).toHaveBeenCalledWith(
+        '1',
+        '127.0.0.1',
+        'test-agent'
+      );
+      expect(createUserSession).not.toHaveBeenCalled();
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'AUTH_LOGIN_FAILURE',
+          metadata: { reason: 'invalid_email_code' },
+        })
+      );
+    });
+
+    it('should not accept authenticator codes for an email challenge', async () => {
+      vi.mocked(verifyEmailOtp).mockResolvedValue(false);
+
+      await expect(
+        validate2FA(
+          { pendingToken: 'pending_token', code: '123456' },
+          mockContext,
+          mockSession
+        )
+      ).rejects.toThrow(AuthenticationError);
+
+      expect(verifyTOTPCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('email as the second factor', () => {
+    const mockSession = {} as any;
+    const emailUser = {
+      id: '1',
+      email: 'test@example.com',
+      firstName: 'Test',
+      emailVerified: true,
+      twoFactorEnabled: true,
+      twoFactorMethod: 'email',
+      twoFactorSecret: null,
+    };
+
+    beforeEach(() => {
+      mockRateLimiter.check.mockResolvedValue({ limited: false, headers: {} });
+      vi.mocked(verifyPending2FAToken).mockResolvedValue({ userId: '1' });
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(emailUser as any);
+      vi.mocked(getRemainingBackupCodeCount).mockResolvedValue(10);
+    });
+
+    it('should validate a login code against the emailed code', async () => {
+      vi.mocked(verifyEmailOtp).mockResolvedValue(true);
+      vi.mocked(createUserSession).mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        sessionToken: 'session',
+      });
+
+      await validate2FA(
+        { pendingToken: 'pending_token', code: '123456' },
+        mockContext,
+        mockSession
+      );
+
+      expect(verifyEmailOtp).toHaveBeenCalledWith('1', '123456');
+      expect(verifyTOTPCode).not.toHaveBeenCalled();
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'AUTH_2FA_SUCCESS',
+          metadata: { method: 'email' },
+        })
+      );
+    });
+
+    it('should reject a wrong emailed code', async () => {
+      vi.mocked(verifyEmailOtp).mockResolvedValue(false);
+
+      await expect(
+        validate2FA(
+          { pendingToken: 'pending_token', code: '000000' },
+          mockContext,
+          mockSession
+        )
+      ).rejects.toThrow(AuthenticationError);
+
+      expect(createUserSession).not.toHaveBeenCalled();
+    });
+
+    it('should list the enrolled factors for a pending login', async () => {
+      vi.mocked(getPasskeyCount).mockResolvedValueOnce(1);
+
+      await expect(getPending2FAFactors('pending_token')).resolves.toEqual({
+        factors: ['email', 'backup_code', 'passkey'],
+      });
+    });
+
+    it('should leave out backup codes once they are used up', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorEnabled: true,
+        twoFactorMethod: 'totp',
+      } as any);
+      vi.mocked(getRemainingBackupCodeCount).mockResolvedValue(0);
+
+      await expect(getPending2FAFactors('pending_token')).resolves.toEqual({
+        factors: ['totp'],
+      });
+    });
+
+    it('should only offer the emailed code for a risk challenge', async () => {
+      vi.mocked(verifyPending2FAToken).mockResolvedValue({
+        userId: '1',
+        challenge: 'email_code',
+      });
+
+      await expect(getPending2FAFactors('pending_token')).resolves.toEqual({
+        factors: ['email'],
+        challenge: 'email_code',
+      });
+    });
+
+    it('should email a sign-in code for a pending login', async () => {
+      await sendPending2FAEmailCode('pending_token');
+
+      expect(mockRateLimiter.check).toHaveBeenCalledWith(
+        'email-otp:1',
+        expect.any(Number),
+        expect.any(Number)
+      );
+      expect(issueEmailOtp).toHaveBeenCalledWith('1');
+      expect(sendLoginCodeEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        '123456',
+        'Test',
+        '1',
+        'sign_in'
+      );
+    });
+
+    it('should not email codes to authenticator app users', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        ...emailUser,
+        twoFactorMethod: 'totp',
+      } as any);
+
+      await expect(sendPending2FAEmailCode('pending_token')).rejects.toThrow(
+        ValidationError
+      );
+      expect(issueEmailOtp).not.toHaveBeenCalled();
+    });
+
+    it('should rate limit emailed codes', async () => {
+      mockRateLimiter.check.mockResolvedValue({
+        limited: true,
+        headers: {
+          'X-RateLimit-Limit': 5,
+          'X-RateLimit-Remaining': 0,
+          'X-RateLimit-Reset': Math.floor(Date.now() / 1000) + 3600,
+        },
+      });
+
+      await expect(sendPending2FAEmailCode('pending_token')).rejects.toThrow(
+        RateLimitError
+      );
+      expect(issueEmailOtp).not.toHaveBeenCalled();
+    });
+
+    it('should start email setup with backup codes and an emailed code', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        ...emailUser,
+        twoFactorEnabled: false,
+      } as any);
+      vi.mocked(generateBackupCodes).mockResolvedValue(['code1', 'code2']);
+
+      const result = await setupEmail2FA('1', mockContext);
+
+      expect(result).toEqual({ backupCodes: ['code1', 'code2'] });
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            twoFactorEnabled: false,
+            twoFactorMethod: 'email',
+          }),
+        })
+      );
+      expect(sendLoginCodeEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        '123456',
+        'Test',
+        '1',
+        'two_factor_settings'
+      );
+    });
+
+    it('should not start email setup when 2FA is already enabled', async () => {
+      await expect(setupEmail2FA('1', mockContext)).rejects.toThrow(
+        ConflictError
+      );
+    });
+
+    it('should enable email 2FA with the emailed code', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        ...emailUser,
+        twoFactorEnabled: false,
+      } as any);
+      vi.mocked(verifyEmailOtp).mockResolvedValue(true);
+
+      await verify2FASetup('1', '123456', mockContext);
+
+      expect(verifyEmailOtp).toHaveBeenCalledWith('1', '123456');
+      expect(verifyTOTPCode).not.toHaveBeenCalled();
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'AUTH_2FA_ENABLED',
+          metadata: { method: 'email' },
+        })
+      );
+    });
+
+    it('should disable email 2FA with the emailed code', async () => {
+      vi.mocked(verifyEmailOtp).mockResolvedValue(true);
+
+      await disable2FA('1', '123456', mockContext);
+
+      expect(verifyEmailOtp).toHaveBeenCalledWith('1', '123456');
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            twoFactorEnabled: false,
+            twoFactorMethod: 'totp',
+          }),
+        })
+      );
+      expect(deleteAllBackupCodes).toHaveBeenCalledWith('1');
+    });
   });
 
   describe('setup2FA', () => {
@@ -385,6 +967,7 @@ describe('Auth Service Functions', () => {
           data: expect.objectContaining({
             twoFactorEnabled: true,
             twoFactorVerified: true,
+            twoFactorGraceUntil: null,
           }),
         })
       );
@@ -460,6 +1043,30 @@ describe('Auth Service Functions', () => {
       );
     });
 
+    it('should throw AuthorizationError when a 2FA policy covers the user', async () => {
+      mockRateLimiter.check.mockResolvedValue({
+        limited: false,
+        headers: {
+          'X-RateLimit-Limit': 10,
+          'X-RateLimit-Remaining': 9,
+          'X-RateLimit-Reset': Math.floor(Date.now() / 1000) + 900,
+        },
+      });
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: '1',
+        userRoles: [{ role: { name: 'ROLE_USER' } }],
+        twoFactorEnabled: true,
+        twoFactorSecret: 'secret',
+      } as any);
+      vi.mocked(isTwoFactorRequired).mockResolvedValueOnce(true);
+
+      await expect(disable2FA('user-id', '123456', mockContext)).rejects.toThrow(
+        'Two-factor authentication is required for your account'
+      );
+      expect(isTwoFactorRequired).toHaveBeenCalledWith('user-id');
+      expect(verifyTOTPCode).not.toHaveBeenCalled();
+    });
+
     it('should throw ValidationError when 2FA not enabled', async () => {
       mockRateLimiter.check.mockResolvedValue({
         limited: false,
@@ -604,6 +1211,301 @@ describe('Auth Service Functions', () => {
 
       expect(prisma.userSession.deleteMany).toHaveBeenCalled();
     });
+
+    it('should reject a new password the policy does not allow', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue({
+        id: '1',
+        email: 'test@example.com',
+        password: 'old_hash',
+        passwordResetToken: 'hashed_reset_token',
+        passwordResetExpires: new Date('2099-01-01'),
+      } as any);
+      vi.mocked(assertPasswordAllowed).mockRejectedValueOnce(
+        new ValidationError('Cannot reuse your current password')
+      );
+
+      await expect(
+        resetPassword({ token: 'valid-token', password: 'NewPassword123!', confirmPassword: 'NewPassword123!' }, mockContext)
+      ).rejects.toThrow(ValidationError);
+
+      expect(assertPasswordAllowed).toHaveBeenCalledWith(
+        'NewPassword123!',
+        expect.objectContaining({ userId: '1', currentPasswordHash: 'old_hash' })
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeRequiredPassword', () => {
+    const input = {
+      currentPassword: 'OldPassword123!',
+      newPassword: 'NewPassword123!',
+      confirmPassword: 'NewPassword123!',
+    };
+
+    const createRestrictedSession = () =>
+      ({
+        userId: '1',
+        isLoggedIn: true,
+        passwordChangeRequired: 'expired',
+        save: vi.fn(),
+      }) as any;
+
+    beforeEach(() => {
+      mockRateLimiter.check.mockResolvedValue({ limited: false, headers: {} });
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: '1',
+        email: 'test@example.com',
+        password: 'old_hash',
+      } as any);
+      vi.mocked(verifyPassword).mockResolvedValue(true);
+    });
+
+    it('should refuse sessions that need no password change', async () => {
+      await expect(
+        changeRequiredPassword(
+          input,
+          mockContext,
+          { userId: '1', isLoggedIn: true } as any
+        )
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should throw AuthenticationError for a wrong current password', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(false);
+
+      await expect(
+        changeRequiredPassword(input, mockContext, createRestrictedSession())
+      ).rejects.toThrow(AuthenticationError);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should change the password and lift the session limit', async () => {
+      const session = createRestrictedSession();
+
+      await changeRequiredPassword(input, mockContext, session);
+
+      expect(assertPasswordAllowed).toHaveBeenCalledWith(
+        'NewPassword123!',
+        expect.objectContaining({ userId: '1', currentPasswordHash: 'old_hash' }),
+        'newPassword'
+      );
+      expect(prisma.passwordHistory.create).toHaveBeenCalledWith({
+        data: { userId: '1', password: 'old_hash' },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: expect.objectContaining({
+          password: 'hashed_password',
+          passwordChangeRequired: false,
+        }),
+      });
+      expect(prisma.userSession.deleteMany).toHaveBeenCalledWith({
+        where: { userId: '1' },
+      });
+      expect(revokeAllUserRefreshTokens).toHaveBeenCalledWith('1');
+      expect(revokeAllUserTokens).toHaveBeenCalledWith('1');
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'SECURITY_PASSWORD_CHANGED',
+          metadata: { method: 'required_change', reason: 'expired' },
+        })
+      );
+      expect(session.passwordChangeRequired).toBeUndefined();
+      expect(session.save).toHaveBeenCalled();
+    });
+  });
+
+  describe('requestMagicLink', () => {
+    beforeEach(() => {
+      mockRateLimiter.check.mockResolvedValue({
+        limited: false,
+        headers: {
+          'X-RateLimit-Limit': 5,
+          'X-RateLimit-Remaining': 4,
+          'X-RateLimit-Reset': Math.floor(Date.now() / 1000) + 3600,
+        },
+      });
+    });
+
+    it('should throw ValidationError for invalid email', async () => {
+      await expect(
+        requestMagicLink({ email: 'invalid' }, mockContext)
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should return success message without sending if user not found', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+
+      const result = await requestMagicLink({ email: 'notfound@example.com' }, mockContext);
+
+      expect(result.message).toContain('If an account with that email exists');
+      expect(sendMagicLinkEmail).not.toHaveBeenCalled();
+    });
+
+    it('should not send a link to inactive users', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: '1',
+        email: 'test@example.com',
+        isActive: false,
+      } as any);
+
+      await requestMagicLink({ email: 'test@example.com' }, mockContext);
+
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(sendMagicLinkEmail).not.toHaveBeenCalled();
+    });
+
+    it('should store hashed token and send link when user found', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: '1',
+        email: 'test@example.com',
+        firstName: 'Test',
+        isActive: true,
+      } as any);
+      vi.mocked(prisma.user.update).mockResolvedValue({} as any);
+
+      await requestMagicLink({ email: 'test@example.com' }, mockContext);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: {
+          magicLinkToken: 'hashed_reset_token',
+          magicLinkExpires: expect.any(Date),
+        },
+      });
+      expect(sendMagicLinkEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        'reset_token',
+        'Test',
+        '1'
+      );
+    });
+  });
+
+  describe('loginWithMagicLink', () => {
+    const mockSession = {} as any;
+    const magicLinkUser = {
+      id: '1',
+      email: 'test@example.com',
+      isActive: true,
+      emailVerified: true,
+      twoFactorEnabled: false,
+      magicLinkToken: 'hashed_reset_token',
+      magicLinkExpires: new Date('2099-01-01'),
+      userRoles: [],
+    };
+
+    beforeEach(() => {
+      mockRateLimiter.check.mockResolvedValue({
+        limited: false,
+        headers: {
+          'X-RateLimit-Limit': 10,
+          'X-RateLimit-Remaining': 9,
+          'X-RateLimit-Reset': Math.floor(Date.now() / 1000) + 900,
+        },
+      });
+      vi.mocked(prisma.user.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(checkAccountLocked).mockResolvedValue({ isLocked: false });
+    });
+
+    it('should throw TokenInvalidError for unknown token', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue(null);
+
+      await expect(
+        loginWithMagicLink({ token: 'unknown' }, mockContext, mockSession)
+      ).rejects.toThrow(TokenInvalidError);
+    });
+
+    it('should throw TokenInvalidError when the link was already redeemed', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue(magicLinkUser as any);
+      vi.mocked(prisma.user.updateMany).mockResolvedValue({ count: 0 });
+
+      await expect(
+        loginWithMagicLink({ token: 'token' }, mockContext, mockSession)
+      ).rejects.toThrow(TokenInvalidError);
+    });
+
+    it('should burn and reject an expired token', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue({
+        ...magicLinkUser,
+        magicLinkExpires: new Date('2020-01-01'),
+      } as any);
+
+      await expect(
+        loginWithMagicLink({ token: 'token' }, mockContext, mockSession)
+      ).rejects.toThrow(TokenExpiredError);
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: '1', magicLinkToken: 'hashed_reset_token' },
+        data: { magicLinkToken: null, magicLinkExpires: null },
+      });
+    });
+
+    it('should throw AccountLockedError when account is locked', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue(magicLinkUser as any);
+      vi.mocked(checkAccountLocked).mockResolvedValue({
+        isLocked: true,
+        lockedUntil: new Date('2099-01-01'),
+      });
+
+      await expect(
+        loginWithMagicLink({ token: 'token' }, mockContext, mockSession)
+      ).rejects.toThrow(AccountLockedError);
+    });
+
+    it('should throw EmailNotVerifiedError when email not verified', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue({
+        ...magicLinkUser,
+        emailVerified: false,
+      } as any);
+
+      await expect(
+        loginWithMagicLink({ token: 'token' }, mockContext, mockSession)
+      ).rejects.toThrow(EmailNotVerifiedError);
+    });
+
+    it('should throw SsoRequiredError when the organization enforces SSO', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue(magicLinkUser as any);
+      vi.mocked(assertSsoNotRequired).mockRejectedValueOnce(
+        new SsoRequiredError('acme', '/api/auth/saml/acme/login')
+      );
+
+      await expect(
+        loginWithMagicLink({ token: 'token' }, mockContext, mockSession)
+      ).rejects.toThrow(SsoRequiredError);
+      expect(createUserSession).not.toHaveBeenCalled();
+    });
+
+    it('should require 2FA when enabled', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue({
+        ...magicLinkUser,
+        twoFactorEnabled: true,
+      } as any);
+      vi.mocked(createPending2FAToken).mockResolvedValue('pending_token');
+
+      const result = await loginWithMagicLink({ token: 'token' }, mockContext, mockSession);
+
+      expect(result).toEqual({ requiresTwoFactor: true, pendingToken: 'pending_token' });
+      expect(createUserSession).not.toHaveBeenCalled();
+    });
+
+    it('should create a session on valid token', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue(magicLinkUser as any);
+      vi.mocked(createUserSession).mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        sessionToken: 'session',
+      });
+
+      const result = await loginWithMagicLink({ token: 'token' }, mockContext, mockSession);
+
+      expect(createUserSession).toHaveBeenCalled();
+      expect(result).toMatchObject({
+        user: { id: '1', email: 'test@example.com' },
+        tokens: { accessToken: 'access', refreshToken: 'refresh' },
+        csrfToken: 'csrf_token',
+      });
+    });
   });
 
   describe('verifyEmail', () => {
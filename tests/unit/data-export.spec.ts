@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { inflateRawSync } from 'zlib';
+
+const { mockPrisma, mockLogAuditEvent, mockSendEmail } = vi.hoisted(() => {
+  const findMany = () => vi.fn().mockResolvedValue([]);
+  const mockPrisma = {
+    dataExport: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    user: { findUniqueOrThrow: vi.fn() },
+    userRole: { findMany: findMany() },
+    userSession: { findMany: findMany() },
+    rememberMeToken: { findMany: findMany() },
+    webAuthnCredential: { findMany: findMany() },
+    oAuthAccount: { findMany: findMany() },
+    apiKey: { findMany: findMany() },
+    auditLog: { findMany: findMany() },
+    emailLog: { findMany: findMany() },
+  };
+  return {
+    mockPrisma,
+    mockLogAuditEvent: vi.fn(),
+    mockSendEmail: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+vi.mock('@/lib/audit', () => ({ logAuditEvent: mockLogAuditEvent }));
+vi.mock('@/lib/email', () => ({ sendDataExportReadyEmail: mockSendEmail }));
+
+import {
+  failStaleDataExports,
+  getDataExportArchive,
+  processDataExport,
+  requestDataExport,
+} from '@/lib/data-export';
+import { formatCsv } from '@/lib/data-export/csv';
+import { createZip } from '@/lib/data-export/zip';
+import { NotFoundError, RateLimitError } from '@/services/auth.errors';
+
+/** Read the entries of an archive made by createZip */
+function readZip(archive: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString(
+      'utf8',
+      offset + 30,
+      offset + 30 + nameLength
+    );
+    const start = offset + 30 + nameLength;
+    entries[name] = inflateRawSync(
+      archive.subarray(start, start + compressedSize)
+    ).toString('utf8');
+    offset = start + compressedSize;
+  }
+  return entries;
+}
+
+describe('Data export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSendEmail.mockResolvedValue(true);
+  });
+
+  describe('formatCsv', () => {
+    it('quotes fields that need it and writes dates and objects', () => {
+      const csv = formatCsv([
+        { name: 'Ada, "the first"', at: new Date('2026-01-01T00:00:00Z') },
+        { name: 'Grace', meta: { ip: '203.0.113.1' } },
+      ]);
+
+      expect(csv).toBe(
+        'name,at,meta\r\n' +
+          '"Ada, ""the first""",2026-01-01T00:00:00.000Z,\r\n' +
+          'Grace,,"{""ip"":""203.0.113.1""}"\r\n'
+      );
+    });
+  });
+
+  describe('createZip', () => {
+    it('writes entries that standard tools can inflate', async () => {
+      const archive = await createZip([
+        { name: 'data.json', content: '{"a":1}' },
+        { name: 'notes.csv', content: 'é,ü\r\n' },
+      ]);
+
+      expect(readZip(archive)).toEqual({
+        'data.json': '{"a":1}',
+        'notes.csv': 'é,ü\r\n',
+      });
+      // End of central directory record lists both entries
+      expect(archive.readUInt32LE(archive.length - 22)).toBe(0x06054b50);
+      expect(archive.readUInt16LE(archive.length - 12)).toBe(2);
+    });
+  });
+
+  describe('requestDataExport', () => {
+    it('creates a pending export and audits the request', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue(null);
+      mockPrisma.dataExport.count.mockResolvedValue(0);
+      mockPrisma.dataExport.create.mockResolvedValue({
+        id: 'export-1',
+        status: 'PENDING',
+      });
+
+      const dataExport = await requestDataExport('user-1', {});
+
+      expect(dataExport.id).toBe('export-1');
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'DATA_EXPORT_REQUESTED',
+          metadata: { exportId: 'export-1' },
+        })
+      );
+    });
+
+    it('returns the export already in progress', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue({
+        id: 'export-1',
+        status: 'PROCESSING',
+      });
+
+      expect((await requestDataExport('user-1', {})).id).toBe('export-1');
+      expect(mockPrisma.dataExport.create).not.toHaveBeenCalled();
+    });
+
+    it('ignores exports interrupted while building', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue(null);
+      mockPrisma.dataExport.count.mockResolvedValue(0);
+      mockPrisma.dataExport.create.mockResolvedValue({
+        id: 'export-2',
+        status: 'PENDING',
+      });
+
+      await requestDataExport('user-1', {});
+
+      const { where } = mockPrisma.dataExport.findFirst.mock.calls[0][0];
+      expect(where.OR).toEqual([
+        { status: 'PENDING' },
+        { status: 'PROCESSING', startedAt: { gt: expect.any(Date) } },
+      ]);
+      // Only exports started within the last 30 minutes count as in progress
+      const cutoff = where.OR[1].startedAt.gt.getTime();
+      expect(Date.now() - cutoff).toBeGreaterThanOrEqual(30 * 60 * 1000);
+      expect(Date.now() - cutoff).toBeLessThan(31 * 60 * 1000);
+      expect(mockPrisma.dataExport.create).toHaveBeenCalled();
+    });
+
+    it('limits exports per day', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue(null);
+      mockPrisma.dataExport.count.mockResolvedValue(3);
+
+      await expect(requestDataExport('user-1', {})).rejects.toThrow(
+        RateLimitError
+      );
+    });
+  });
+
+  describe('processDataExport', () => {
+    beforeEach(() => {
+      mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.dataExport.findUniqueOrThrow.mockResolvedValue({
+        userId: 'user-1',
+      });
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue({
+        id: 'user-1',
+        email: 'ada@example.com',
+        firstName: 'Ada',
+      });
+    });
+
+    it('builds the archive and emails a download link', async () => {
+      mockPrisma.auditLog.findMany.mockResolvedValue([
+        {
+          action: 'AUTH_LOGIN_SUCCESS',
+          metadata: '{"method":"password"}',
+          createdAt: new Date(),
+        },
+      ]);
+
+      await processDataExport('export-1');
+
+      expect(mockPrisma.dataExport.updateMany).toHaveBeenCalledWith({
+        where: { id: 'export-1', status: 'PENDING' },
+        data: { status: 'PROCESSING', startedAt: expect.any(Date) },
+      });
+      const { data } = mockPrisma.dataExport.update.mock.calls[0][0];
+      expect(data.status).toBe('READY');
+      expect(data.size).toBe(data.archive.length);
+
+      const files = readZip(Buffer.from(data.archive));
+      expect(Object.keys(files)).toContain('audit-log.csv');
+      const exported = JSON.parse(files['data.json']);
+      expect(exported.profile.email).toBe('ada@example.com');
+      expect(exported.auditLogs[0].metadata).toEqual({ method: 'password' });
+
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        'ada@example.com',
+        'export-1',
+        data.expiresAt,
+        'Ada',
+        'user-1'
+      );
+    });
+
+    it('skips exports another worker picked up', async () => {
+      mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 0 });
+
+      await processDataExport('export-1');
+
+      expect(mockPrisma.user.findUniqueOrThrow).not.toHaveBeenCalled();
+    });
+
+    it('marks the export failed when collecting data fails', async () => {
+      mockPrisma.user.findUniqueOrThrow.mockRejectedValue(new Error('boom'));
+
+      await processDataExport('export-1');
+
+      expect(mockPrisma.dataExport.update).toHaveBeenCalledWith({
+        where: { id: 'export-1' },
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('failStaleDataExports', () => {
+    it('fails exports building for longer than the timeout', async () => {
+      mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 2 });
+
+      expect(await failStaleDataExports()).toBe(2);
+
+      const { where, data } = mockPrisma.dataExport.updateMany.mock.calls[0][0];
+      expect(where.status).toBe('PROCESSING');
+      expect(Date.now() - where.startedAt.lte.getTime()).toBeGreaterThanOrEqual(
+        30 * 60 * 1000
+      );
+      expect(data).toEqual(
+        expect.objectContaining({ status: 'FAILED', error: expect.any(String) })
+      );
+    });
+  });
+
+  describe('getDataExportArchive', () => {
+    it('only returns ready exports of the user', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue(null);
+
+      await expect(
+        getDataExportArchive('export-1', 'user-2', {})
+      ).rejects.toThrow(NotFoundError);
+      expect(mockPrisma.dataExport.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: 'export-1',
+            userId: 'user-2',
+            status: 'READY',
+          }),
+        })
+      );
+      expect(mockLogAuditEvent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('@/lib/db', () => ({
+  prisma: { accessPolicy: { findMany: vi.fn().mockResolvedValue([]) } },
+}));
+
+import {
+  combineVotes,
+  configureAccessDecisions,
+  decideAccess,
+  getStrategyFor,
+  resetAccessDecisionConfig,
+} from '@/lib/security/decision-manager';
+import {
+  getRegisteredVoters,
+  registerVoter,
+  unregisterVoter,
+} from '@/lib/security/voter-registry';
+import { isGranted } from '@/lib/security/index';
+import { VoteResult, VotingStrategy, type Voter } from '@/lib/security/voter';
+
+const { GRANTED, DENIED, ABSTAIN } = VoteResult;
+
+/** Voter that supports document.* attributes and always votes `result` */
+function documentVoter(result: VoteResult): Voter {
+  return {
+    supports: (attribute) => attribute.startsWith('document.'),
+    vote: vi.fn(async () => result),
+  };
+}
+
+const user = { id: 'user-1', userRoles: [] };
+const policy = { allowIfAllAbstain: false, allowIfEqualGrantedDenied: false };
+
+describe('Access decision manager', () => {
+  const unregister: Array<() => void> = [];
+
+  afterEach(() => {
+    unregister.splice(0).forEach((fn) => fn());
+    resetAccessDecisionConfig();
+  });
+
+  describe('combineVotes', () => {
+    it('grants on any grant with the affirmative strategy', () => {
+      const strategy = VotingStrategy.AFFIRMATIVE;
+      expect(combineVotes([DENIED, GRANTED], strategy, policy)).toBe(true);
+      expect(combineVotes([DENIED, ABSTAIN], strategy, policy)).toBe(false);
+    });
+
+    it('follows the majority with the consensus strategy', () => {
+      const strategy = VotingStrategy.CONSENSUS;
+      expect(combineVotes([GRANTED, GRANTED, DENIED], strategy, policy)).toBe(
+        true
+      );
+      expect(combineVotes([GRANTED, DENIED, DENIED], strategy, policy)).toBe(
+        false
+      );
+      expect(combineVotes([GRANTED, DENIED], strategy, policy)).toBe(false);
+      expect(
+        combineVotes([GRANTED, DENIED], strategy, {
+          ...policy,
+          allowIfEqualGrantedDenied: true,
+        })
+      ).toBe(true);
+    });
+
+    it('denies on any denial with the unanimous strategy', () => {
+      const strategy = VotingStrategy.UNANIMOUS;
+      expect(combineVotes([GRANTED, ABSTAIN], strategy, policy)).toBe(true);
+      expect(combineVotes([GRANTED, DENIED], strategy, policy)).toBe(false);
+    });
+
+    it('applies the all-abstain policy when nobody votes', () => {
+      for (const strategy of Object.values(VotingStrategy)) {
+        expect(combineVotes([ABSTAIN], strategy, policy)).toBe(false);
+        expect(
+          combineVotes([], strategy, { ...policy, allowIfAllAbstain: true })
+        ).toBe(true);
+      }
+    });
+  });
+
+  describe('getStrategyFor', () => {
+    it('uses the longest matching permission prefix', () => {
+      configureAccessDecisions({
+        strategies: {
+          organization: VotingStrategy.CONSENSUS,
+          'organization.members': VotingStrategy.UNANIMOUS,
+        },
+      });
+
+      expect(getStrategyFor('organization.members.manage')).toBe(
+        VotingStrategy.UNANIMOUS
+      );
+      expect(getStrategyFor('organization.edit')).toBe(
+        VotingStrategy.CONSENSUS
+      );
+      expect(getStrategyFor('organizations.edit')).toBe(
+        VotingStrategy.AFFIRMATIVE
+      );
+    });
+  });
+
+  describe('decideAccess', () => {
+    it('collects the votes of every supporting voter', async () => {
+      const granting = documentVoter(GRANTED);
+      const denying = documentVoter(DENIED);
+      unregister.push(
+        registerVoter(granting, { name: 'GrantingVoter' }),
+        registerVoter(denying, { name: 'DenyingVoter' })
+      );
+
+      const decision = await decideAccess(user, 'document.edit', {});
+
+      expect(decision).toEqual({
+        granted: true,
+        strategy: VotingStrategy.AFFIRMATIVE,
+        votes: [
+          { voter: 'GrantingVoter', result: GRANTED },
+          { voter: 'DenyingVoter', result: DENIED },
+        ],
+        vetoedBy: null,
+      });
+      expect(denying.vote).toHaveBeenCalled();
+    });
+
+    it('lets a vetoing voter deny under every strategy', async () => {
+      unregister.push(
+        registerVoter(documentVoter(GRANTED), { name: 'GrantingVoter' }),
+        registerVoter(
+          { ...documentVoter(DENIED), vetoes: true },
+          { name: 'VetoingVoter' }
+        )
+      );
+
+      for (const strategy of Object.values(VotingStrategy)) {
+        configureAccessDecisions({ strategy });
+        const decision = await decideAccess(user, 'document.edit');
+        expect(decision.granted).toBe(false);
+        expect(decision.vetoedBy).toBe('VetoingVoter');
+      }
+    });
+
+    it('applies the strategy configured for the attribute', async () => {
+      unregister.push(
+        registerVoter(documentVoter(GRANTED), { name: 'GrantingVoter' }),
+        registerVoter(documentVoter(DENIED), { name: 'DenyingVoter' })
+      );
+      configureAccessDecisions({
+        strategies: { 'document.delete': VotingStrategy.UNANIMOUS },
+      });
+
+      expect((await decideAccess(user, 'document.edit')).granted).toBe(true);
+      expect((await decideAccess(user, 'document.delete')).granted).toBe(false);
+    });
+  });
+
+  describe('voter registry', () => {
+    it('starts with the built-in voters', () => {
+      expect(getRegisteredVoters().map((v) => v.name)).toEqual([
+        'OrganizationVoter',
+        'UserVoter',
+        'PolicyVoter',
+      ]);
+    });
+
+    it('replaces a voter registered under the same name', () => {
+      unregister.push(
+        registerVoter(documentVoter(GRANTED), { name: 'DocumentVoter' })
+      );
+      const replacement = documentVoter(DENIED);
+      registerVoter(replacement, { name: 'DocumentVoter' });
+
+      const documentVoters = getRegisteredVoters().filter(
+        (v) => v.name === 'DocumentVoter'
+      );
+      expect(documentVoters).toHaveLength(1);
+      expect(documentVoters[0].voter).toBe(replacement);
+    });
+
+    it('lets isGranted use registered voters', async () => {
+      unregister.push(
+        registerVoter(documentVoter(GRANTED), { name: 'DocumentVoter' })
+      );
+      const attribute = 'document.view' as 'user.view';
+
+      expect(await isGranted(user, attribute, { subject: {} })).toBe(true);
+      expect(unregisterVoter('DocumentVoter')).toBe(true);
+      expect(await isGranted(user, attribute, { subject: {} })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+
+vi.mock('@/lib/env', () => ({
+  env: { JWT_SECRET: 'test-secret-that-is-at-least-32-characters' },
+}));
+
+import { issueEmailOtp, verifyEmailOtp } from '@/lib/auth/email-otp';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('Email one-time codes', () => {
+  let stored: {
+    emailOtpHash: string | null;
+    emailOtpExpires: Date | null;
+    emailOtpAttempts: number;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stored = { emailOtpHash: null, emailOtpExpires: null, emailOtpAttempts: 0 };
+    mockPrisma.user.update.mockImplementation(async ({ data }) => {
+      if (data.emailOtpHash !== undefined) {
+        stored = { ...stored, ...data };
+      }
+      return {};
+    });
+    mockPrisma.user.findUnique.mockImplementation(async () => stored);
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('stores a hash of a 6-digit code, never the code itself', async () => {
+    const { code, expiresAt } = await issueEmailOtp('user-1');
+
+    expect(code).toMatch(/^\d{6}$/);
+    expect(stored.emailOtpHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(stored.emailOtpHash).not.toContain(code);
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 9 * MINUTE_MS);
+  });
+
+  it('accepts the issued code once', async () => {
+    const { code } = await issueEmailOtp('user-1');
+
+    expect(await verifyEmailOtp('user-1', code)).toBe(true);
+    expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', emailOtpHash: stored.emailOtpHash },
+      data: { emailOtpHash: null, emailOtpExpires: null, emailOtpAttempts: 0 },
+    });
+  });
+
+  it('rejects a code issued to another user', async () => {
+    const { code } = await issueEmailOtp('user-1');
+
+    expect(await verifyEmailOtp('user-2', code)).toBe(false);
+  });
+
+  it('counts wrong guesses', async () => {
+    await issueEmailOtp('user-1');
+
+    expect(await verifyEmailOtp('user-1', 'nope')).toBe(false);
+    expect(mockPrisma.user.update).toHaveBeenLastCalledWith({
+      where: { id: 'user-1' },
+      data: { emailOtpAttempts: { increment: 1 } },
+    });
+  });
+
+  it('discards the code after too many wrong guesses', async () => {
+    await issueEmailOtp('user-1');
+    stored.emailOtpAttempts = 4;
+
+    expect(await verifyEmailOtp('user-1', 'nope')).toBe(false);
+    expect(stored.emailOtpHash).toBeNull();
+  });
+
+  it('rejects and discards expired codes', async () => {
+    const { code } = await issueEmailOtp('user-1');
+    stored.emailOtpExpires = new Date(Date.now() - MINUTE_MS);
+
+    expect(await verifyEmailOtp('user-1', code)).toBe(false);
+    expect(stored.emailOtpHash).toBeNull();
+  });
+
+  it('rejects codes when none was issued', async () => {
+    expect(await verifyEmailOtp('user-1', '123456')).toBe(false);
+  });
+});
@@ -131,10 +131,15 @@ describe('Email Service', () => {
       expect(EMAIL_TYPES).toContain('2fa_enabled');
       expect(EMAIL_TYPES).toContain('2fa_disabled');
       expect(EMAIL_TYPES).toContain('account_unlock');
+      expect(EMAIL_TYPES).toContain('magic_link');
+      expect(EMAIL_TYPES).toContain('login_code');
+      expect(EMAIL_TYPES).toContain('account_deletion');
+      expect(EMAIL_TYPES).toContain('data_export');
+      expect(EMAIL_TYPES).toContain('role_request');
     });
 
-    it('should have exactly 10 email types', () => {
-      expect(EMAIL_TYPES).toHaveLength(10);
+    it('should have exactly 15 email types', () => {
+      expect(EMAIL_TYPES).toHaveLength(15);
     });
   });
 
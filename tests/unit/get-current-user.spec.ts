@@ -65,7 +65,7 @@ describe('getCurrentUser', () => {
     // Verify the Prisma query includes the correct relations
     // Note: userWithRolesInclude includes additional fields for full UserRole data
     expect(prisma.user.findUnique).toHaveBeenCalledWith({
-      where: { id: 'user-123', isActive: true },
+      where: { id: 'user-123' },
       include: {
         userRoles: {
           select: {
@@ -74,6 +74,8 @@ describe('getCurrentUser', () => {
             userId: true,
             roleId: true,
             organizationId: true,
+            startsAt: true,
+            expiresAt: true,
             role: {
               select: {
                 id: true,
@@ -140,6 +142,29 @@ describe('getCurrentUser', () => {
     expect(prisma.user.findUnique).toHaveBeenCalled();
   });
 
+  it('should return null if the user is suspended', async () => {
+    const mockSession = {
+      userId: 'user-123',
+      email: 'test@example.com',
+      isLoggedIn: true,
+    };
+
+    vi.mocked(getIronSession).mockResolvedValue(mockSession as any);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({
+      id: 'user-123',
+      email: 'test@example.com',
+      isActive: false,
+      status: 'SUSPENDED',
+      statusReason: null,
+      statusExpiresAt: null,
+      userRoles: [],
+    } as any);
+
+    const user = await getCurrentUser();
+
+    expect(user).toBeNull();
+  });
+
   it('should include organizationId in userRoles when present', async () => {
     const mockSession = {
       userId: 'user-123',
@@ -6,6 +6,9 @@ vi.mock('@/lib/db', () => ({
     userSession: {
       deleteMany: vi.fn(),
     },
+    refreshToken: {
+      updateMany: vi.fn(),
+    },
   },
 }));
 
@@ -29,6 +32,17 @@ describe('invalidateUserSessions', () => {
     expect(result).toBe(3);
   });
 
+  it('should revoke all refresh tokens for the user', async () => {
+    vi.mocked(prisma.userSession.deleteMany).mockResolvedValue({ count: 1 });
+
+    await invalidateUserSessions('user-123');
+
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-123', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
   it('should return 0 when user has no sessions', async () => {
     vi.mocked(prisma.userSession.deleteMany).mockResolvedValue({ count: 0 });
 
@@ -38,8 +52,12 @@ describe('invalidateUserSessions', () => {
   });
 
   it('should return 0 and log error when database fails', async () => {
-    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-    vi.mocked(prisma.userSession.deleteMany).mockRejectedValue(new Error('DB error'));
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    vi.mocked(prisma.userSession.deleteMany).mockRejectedValue(
+      new Error('DB error')
+    );
 
     const result = await invalidateUserSessions('user-123');
 
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseIpDatabase, findIpInfo } from '@/lib/auth/risk/ip-database';
+
+const CSV = [
+  'network,asn,organization,country,latitude,longitude',
+  '203.0.113.0/24,64500,Example ISP,FR,48.8566,2.3522',
+  '198.51.100.0/25,64501,Other ISP,JP,35.6762,139.6503',
+  '2001:db8::/32,64502,IPv6 ISP,DE,52.52,13.405',
+  '192.0.2.0/24,64503,,,,',
+  'not-a-network,1,Broken,,,',
+  '',
+].join('\n');
+
+describe('IP database', () => {
+  const database = parseIpDatabase(CSV);
+
+  it('finds the network containing an IPv4 address', () => {
+    expect(findIpInfo(database, '203.0.113.200')).toEqual({
+      asn: 64500,
+      organization: 'Example ISP',
+      country: 'FR',
+      latitude: 48.8566,
+      longitude: 2.3522,
+    });
+  });
+
+  it('respects network boundaries', () => {
+    expect(findIpInfo(database, '198.51.100.127')?.asn).toBe(64501);
+    expect(findIpInfo(database, '198.51.100.128')).toBeNull();
+    expect(findIpInfo(database, '203.0.112.255')).toBeNull();
+  });
+
+  it('finds IPv6 addresses, including compressed forms', () => {
+    expect(findIpInfo(database, '2001:db8:1234::1')?.asn).toBe(64502);
+    expect(findIpInfo(database, '2001:db9::1')).toBeNull();
+  });
+
+  it('treats IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(findIpInfo(database, '::ffff:203.0.113.5')?.country).toBe('FR');
+  });
+
+  it('allows empty columns and skips malformed lines', () => {
+    expect(findIpInfo(database, '192.0.2.1')).toEqual({
+      asn: 64503,
+      organization: null,
+      country: null,
+      latitude: null,
+      longitude: null,
+    });
+    expect(database.v4).toHaveLength(3);
+  });
+
+  it('ignores values that are not IP addresses', () => {
+    expect(findIpInfo(database, 'unknown')).toBeNull();
+  });
+});
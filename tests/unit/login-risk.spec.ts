@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { IpInfo } from '@/lib/auth/risk/ip-database';
+
+const { mockPrisma, mockLookupIp } = vi.hoisted(() => ({
+  mockPrisma: {
+    auditLog: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+    },
+  },
+  mockLookupIp: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+
+vi.mock('@/lib/auth/risk/ip-database', () => ({ lookupIp: mockLookupIp }));
+
+import {
+  assessLoginRisk,
+  getRiskDecision,
+  newNetworkSignal,
+  impossibleTravelSignal,
+  failedAttemptsSignal,
+  unusualHourSignal,
+  type PreviousLogin,
+  type RiskContext,
+  type RiskSignal,
+} from '@/lib/auth/risk';
+import { distanceKm } from '@/lib/auth/risk/signals';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date('2026-03-10T14:00:00Z');
+
+const PARIS: IpInfo = {
+  asn: 64500,
+  organization: 'Paris ISP',
+  country: 'FR',
+  latitude: 48.8566,
+  longitude: 2.3522,
+};
+const TOKYO: IpInfo = {
+  asn: 64501,
+  organization: 'Tokyo ISP',
+  country: 'JP',
+  latitude: 35.6762,
+  longitude: 139.6503,
+};
+
+function login(hoursAgo: number, ipAddress = '198.51.100.1'): PreviousLogin {
+  return {
+    createdAt: new Date(NOW.getTime() - hoursAgo * HOUR_MS),
+    ipAddress,
+    userAgent: 'test-agent',
+  };
+}
+
+function createContext(overrides: Partial<RiskContext> = {}): RiskContext {
+  return {
+    userId: 'user-1',
+    ipAddress: '203.0.113.7',
+    userAgent: 'test-agent',
+    now: NOW,
+    knownDevice: true,
+    history: [],
+    ipInfo: null,
+    ...overrides,
+  };
+}
+
+describe('Login risk', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.auditLog.findMany.mockResolvedValue([]);
+    mockPrisma.auditLog.count.mockResolvedValue(0);
+    mockLookupIp.mockReturnValue(null);
+  });
+
+  describe('getRiskDecision', () => {
+    it('maps scores to decisions using the configured thresholds', () => {
+      expect(getRiskDecision(0)).toBe('allow');
+      expect(getRiskDecision(39)).toBe('allow');
+      expect(getRiskDecision(40)).toBe('challenge');
+      expect(getRiskDecision(89)).toBe('challenge');
+      expect(getRiskDecision(90)).toBe('block');
+    });
+  });
+
+  describe('assessLoginRisk', () => {
+    it('allows a known device with no other signals', async () => {
+      const result = await assessLoginRisk({
+        userId: 'user-1',
+        ipAddress: '198.51.100.1',
+        userAgent: 'test-agent',
+        knownDevice: true,
+      });
+
+      expect(result).toEqual({ score: 0, decision: 'allow', signals: [] });
+    });
+
+    it('compares against previous successful logins only', async () => {
+      await assessLoginRisk({ userId: 'user-1', knownDevice: true });
+
+      expect(mockPrisma.auditLog.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            userId: 'user-1',
+            action: 'AUTH_LOGIN_SUCCESS',
+          }),
+          orderBy: { createdAt: 'desc' },
+        })
+      );
+    });
+
+    it('sums the signals that fire and records them', async () => {
+      const signals: RiskSignal[] = [
+        { name: 'first', evaluate: () => ({ score: 30, detail: { a: 1 } }) },
+        { name: 'quiet', evaluate: () => null },
+        { name: 'second', evaluate: async () => ({ score: 15 }) },
+      ];
+
+      const result = await assessLoginRisk(
+        { userId: 'user-1', knownDevice: true },
+        signals
+      );
+
+      expect(result).toEqual({
+        score: 45,
+        decision: 'challenge',
+        signals: [
+          { name: 'first', score: 30, detail: { a: 1 } },
+          { name: 'second', score: 15 },
+        ],
+      });
+    });
+
+    it('caps the score at 100', async () => {
+      const signals: RiskSignal[] = [
+        { name: 'a', evaluate: () => ({ score: 80 }) },
+        { name: 'b', evaluate: () => ({ score: 80 }) },
+      ];
+
+      const result = await assessLoginRisk(
+        { userId: 'user-1', knownDevice: true },
+        signals
+      );
+
+      expect(result.score).toBe(100);
+      expect(result.decision).toBe('block');
+    });
+
+    it('skips a signal that throws instead of failing the login', async () => {
+      const signals: RiskSignal[] = [
+        {
+          name: 'broken',
+          evaluate: () => {
+            throw new Error('lookup failed');
+          },
+        },
+        { name: 'working', evaluate: () => ({ score: 20 }) },
+      ];
+
+      const result = await assessLoginRisk(
+        { userId: 'user-1', knownDevice: true },
+        signals
+      );
+
+      expect(result.signals).toEqual([{ name: 'working', score: 20 }]);
+    });
+
+    it('scores a new device by default', async () => {
+      const result = await assessLoginRisk({
+        userId: 'user-1',
+        knownDevice: false,
+      });
+
+      expect(result.signals).toEqual([{ name: 'new_device', score: 20 }]);
+    });
+  });
+
+  describe('new network signal', () => {
+    it('ignores addresses the user has signed in from before', () => {
+      const context = createContext({
+        ipAddress: '198.51.100.1',
+        history: [login(24)],
+      });
+
+      expect(newNetworkSignal.evaluate(context)).toBeNull();
+    });
+
+    it('ignores the first login', () => {
+      expect(newNetworkSignal.evaluate(createContext())).toBeNull();
+    });
+
+    it('scores a new address on a known network lower than a new network', () => {
+      mockLookupIp.mockReturnValue(PARIS);
+
+      const sameAsn = newNetworkSignal.evaluate(
+        createContext({ ipInfo: PARIS, history: [login(24)] })
+      );
+      const newAsn = newNetworkSignal.evaluate(
+        createContext({ ipInfo: TOKYO, history: [login(24)] })
+      );
+
+      expect(sameAsn).toEqual({ score: 10, detail: { asn: 64500 } });
+      expect(newAsn).toEqual({
+        score: 25,
+        detail: { asn: 64501, organization: 'Tokyo ISP' },
+      });
+    });
+  });
+
+  describe('impossible travel signal', () => {
+    it('fires when the distance could not be covered since the last login', () => {
+      mockLookupIp.mockReturnValue(PARIS);
+
+      const result = impossibleTravelSignal.evaluate(
+        createContext({ ipInfo: TOKYO, history: [login(2)] })
+      );
+
+      expect(result).toMatchObject({
+        score: 60,
+        detail: { from: 'FR', to: 'JP', hoursSincePrevious: 2 },
+      });
+    });
+
+    it('allows the same trip with enough time in between', () => {
+      mockLookupIp.mockReturnValue(PARIS);
+
+      const result = impossibleTravelSignal.evaluate(
+        createContext({ ipInfo: TOKYO, history: [login(20)] })
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('needs locations for both logins', () => {
+      const result = impossibleTravelSignal.evaluate(
+        createContext({ ipInfo: TOKYO, history: [login(1)] })
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('computes great-circle distances', () => {
+      const distance = distanceKm(
+        { latitude: PARIS.latitude!, longitude: PARIS.longitude! },
+        { latitude: TOKYO.latitude!, longitude: TOKYO.longitude! }
+      );
+
+      expect(distance).toBeGreaterThan(9600);
+      expect(distance).toBeLessThan(9800);
+    });
+  });
+
+  describe('failed attempts signal', () => {
+    it('ignores a few mistyped passwords', async () => {
+      mockPrisma.auditLog.count.mockResolvedValue(2);
+
+      expect(await failedAttemptsSignal.evaluate(createContext())).toBeNull();
+    });
+
+    it('scores recent failures up to a maximum', async () => {
+      mockPrisma.auditLog.count.mockResolvedValueOnce(3);
+      expect(await failedAttemptsSignal.evaluate(createContext())).toEqual({
+        score: 30,
+        detail: { attempts: 3, windowMinutes: 60 },
+      });
+
+      mockPrisma.auditLog.count.mockResolvedValueOnce(20);
+      expect(
+        await failedAttemptsSignal.evaluate(createContext())
+      ).toMatchObject({ score: 40 });
+    });
+  });
+
+  describe('unusual hour signal', () => {
+    const daytimeHistory = Array.from({ length: 10 }, (_, day) =>
+      login(day * 24)
+    );
+
+    it('fires for an hour the user never signs in at', () => {
+      const night = new Date('2026-03-10T03:00:00Z');
+
+      const result = unusualHourSignal.evaluate(
+        createContext({ now: night, history: daytimeHistory })
+      );
+
+      expect(result).toEqual({ score: 10, detail: { hourUtc: 3 } });
+    });
+
+    it('tolerates logins close to the usual hours', () => {
+      const later = new Date('2026-03-10T16:00:00Z');
+
+      expect(
+        unusualHourSignal.evaluate(
+          createContext({ now: later, history: daytimeHistory })
+        )
+      ).toBeNull();
+    });
+
+    it('needs enough history to know the usual hours', () => {
+      const night = new Date('2026-03-10T03:00:00Z');
+
+      expect(
+        unusualHourSignal.evaluate(
+          createContext({ now: night, history: daytimeHistory.slice(0, 5) })
+        )
+      ).toBeNull();
+    });
+  });
+});
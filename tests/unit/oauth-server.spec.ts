@@ -0,0 +1,614 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createLocalJWKSet, jwtVerify } from 'jose';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    oAuthClient: { findFirst: vi.fn() },
+    oAuthConsent: { findUnique: vi.fn(), upsert: vi.fn() },
+    oAuthAuthorizationCode: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    oAuthRefreshToken: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    user: { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/db', async () => {
+  const { createSigningKeyStore } =
+    await import('../utils/signing-key-helpers');
+  return { prisma: { ...mockPrisma, ...createSigningKeyStore() } };
+});
+
+vi.mock('@/lib/audit', () => ({
+  logAuditEvent: vi.fn(),
+}));
+
+import { logAuditEvent } from '@/lib/audit';
+import {
+  generateOAuthAccessToken,
+  verifyOAuthAccessToken,
+  generateIdToken,
+  getOAuthIssuer,
+} from '@/lib/security';
+import { getPublicJwks } from '@/lib/signing-keys';
+import { deriveCodeChallenge } from '@/lib/auth/oauth';
+import { PERMISSIONS } from '@/lib/security/permissions';
+import {
+  authenticateClient,
+  validateAuthorizationRequest,
+  createAuthorizationCode,
+  hasConsent,
+  handleTokenRequest,
+  getUserInfo,
+  hashClientSecret,
+  isValidRedirectUri,
+  parseScopeParam,
+  isPermissionInScope,
+  getClientConfigError,
+  OAuthServerError,
+  OAuthRedirectError,
+  type OAuthClientRecord,
+} from '@/lib/oauth-server';
+
+const SECRET = 'ocs_test-secret';
+const REDIRECT_URI = 'https://app.example.com/callback';
+const CODE_VERIFIER = 'a'.repeat(43);
+const context = { ipAddress: '127.0.0.1' };
+
+function clientRecord(
+  overrides: Partial<OAuthClientRecord> = {}
+): OAuthClientRecord {
+  return {
+    id: 'client-row-1',
+    clientId: 'client-1',
+    clientSecretHash: hashClientSecret(SECRET),
+    name: 'Internal App',
+    redirectUris: [REDIRECT_URI],
+    scopes: [
+      'openid',
+      'profile',
+      'email',
+      'offline_access',
+      PERMISSIONS.ORGANIZATION.VIEW,
+    ],
+    grantTypes: ['authorization_code', 'refresh_token', 'client_credentials'],
+    skipConsent: false,
+    ...overrides,
+  };
+}
+
+const user = {
+  id: 'user-1',
+  email: 'jane@acme.com',
+  emailVerified: true,
+  username: 'jane',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  isActive: true,
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+function authorizeParams(overrides: Record<string, string | null> = {}) {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: 'client-1',
+    redirect_uri: REDIRECT_URI,
+    scope: 'openid email',
+    state: 'xyz',
+    nonce: 'n-1',
+    code_challenge: deriveCodeChallenge(CODE_VERIFIER),
+    code_challenge_method: 'S256',
+  });
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === null) params.delete(key);
+    else params.set(key, value);
+  }
+  return params;
+}
+
+async function expectOAuthError(
+  promise: Promise<unknown>,
+  expected: { code: string; status?: number },
+  errorClass: typeof OAuthServerError = OAuthServerError
+) {
+  const error = await promise.catch((e) => e);
+  expect(error).toBeInstanceOf(errorClass);
+  expect(error).toMatchObject(expected);
+  return error;
+}
+
+describe('OAuth authorization server', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.oAuthClient.findFirst.mockResolvedValue(clientRecord());
+    mockPrisma.user.findFirst.mockResolvedValue(user);
+    mockPrisma.oAuthAuthorizationCode.updateMany.mockResolvedValue({
+      count: 1,
+    });
+    mockPrisma.oAuthRefreshToken.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('tokens', () => {
+    it('round-trips access tokens and publishes the signing key', async () => {
+      const token = await generateOAuthAccessToken({
+        subject: 'user-1',
+        clientId: 'client-1',
+        scopes: ['openid', PERMISSIONS.ORGANIZATION.VIEW],
+      });
+
+      expect(await verifyOAuthAccessToken(token)).toMatchObject({
+        sub: 'user-1',
+        client_id: 'client-1',
+        scope: 'openid organization.view',
+      });
+
+      const jwks = await getPublicJwks();
+      expect(jwks.keys[0]).toMatchObject({ kty: 'RSA', alg: 'RS256' });
+      expect(jwks.keys[0]).not.toHaveProperty('d');
+
+      const { payload } = await jwtVerify(token, createLocalJWKSet(jwks));
+      expect(payload.iss).toBe(getOAuthIssuer());
+    });
+
+    it('does not accept ID tokens as access tokens', async () => {
+      const idToken = await generateIdToken({
+        userId: 'user-1',
+        clientId: 'client-1',
+        authTime: new Date(),
+      });
+
+      await expect(verifyOAuthAccessToken(idToken)).rejects.toThrow(
+        'Invalid access token'
+      );
+    });
+  });
+
+  describe('scopes and clients', () => {
+    it('maps permission scopes to the PERMISSIONS registry', () => {
+      expect(parseScopeParam('openid organization.view openid')).toEqual([
+        'openid',
+        'organization.view',
+      ]);
+      expect(() => parseScopeParam('openid admin')).toThrow(OAuthServerError);
+      expect(
+        isPermissionInScope(
+          'openid organization.view',
+          PERMISSIONS.ORGANIZATION.VIEW
+        )
+      ).toBe(true);
+      expect(isPermissionInScope('openid', PERMISSIONS.ORGANIZATION.VIEW)).toBe(
+        false
+      );
+    });
+
+    it('only accepts HTTPS or loopback redirect URIs', () => {
+      expect(isValidRedirectUri(REDIRECT_URI)).toBe(true);
+      expect(isValidRedirectUri('http://localhost:4000/cb')).toBe(true);
+      expect(isValidRedirectUri('http://app.example.com/cb')).toBe(false);
+      expect(isValidRedirectUri('https://app.example.com/cb#x')).toBe(false);
+      expect(isValidRedirectUri('not a url')).toBe(false);
+    });
+
+    it('rejects inconsistent client settings', () => {
+      expect(
+        getClientConfigError({
+          isPublic: true,
+          redirectUris: [REDIRECT_URI],
+          grantTypes: ['client_credentials'],
+        })
+      ).toMatch(/Public clients/);
+      expect(
+        getClientConfigError({
+          isPublic: false,
+          redirectUris: [],
+          grantTypes: ['authorization_code'],
+        })
+      ).toMatch(/redirect URI/);
+    });
+
+    it('authenticates confidential clients with Basic or body credentials', async () => {
+      const basic = `Basic ${Buffer.from(`client-1:${SECRET}`).toString('base64')}`;
+
+      await expect(
+        authenticateClient(new URLSearchParams(), basic)
+      ).resolves.toMatchObject({ clientId: 'client-1' });
+      await expect(
+        authenticateClient(
+          new URLSearchParams({ client_id: 'client-1', client_secret: SECRET }),
+          null
+        )
+      ).resolves.toMatchObject({ clientId: 'client-1' });
+      await expectOAuthError(
+        authenticateClient(
+          new URLSearchParams({ client_id: 'client-1', client_secret: 'bad' }),
+          null
+        ),
+        { code: 'invalid_client', status: 401 }
+      );
+      await expectOAuthError(
+        authenticateClient(
+          new URLSearchParams({ client_id: 'client-1' }),
+          null
+        ),
+        { code: 'invalid_client', status: 401 }
+      );
+    });
+
+    it('authenticates public clients by client_id alone', async () => {
+      mockPrisma.oAuthClient.findFirst.mockResolvedValue(
+        clientRecord({ clientSecretHash: null })
+      );
+
+      await expect(
+        authenticateClient(new URLSearchParams({ client_id: 'client-1' }), null)
+      ).resolves.toMatchObject({ clientSecretHash: null });
+    });
+  });
+
+  describe('validateAuthorizationRequest', () => {
+    it('accepts a valid request', async () => {
+      const request = await validateAuthorizationRequest(authorizeParams());
+
+      expect(request).toMatchObject({
+        redirectUri: REDIRECT_URI,
+        scopes: ['openid', 'email'],
+        state: 'xyz',
+        nonce: 'n-1',
+      });
+    });
+
+    it('does not redirect to unverified redirect URIs', async () => {
+      await expectOAuthError(
+        validateAuthorizationRequest(
+          authorizeParams({ redirect_uri: 'https://evil.example.com/cb' })
+        ),
+        { code: 'invalid_request' }
+      ).then((error) => expect(error).not.toBeInstanceOf(OAuthRedirectError));
+
+      mockPrisma.oAuthClient.findFirst.mockResolvedValue(null);
+      await expectOAuthError(validateAuthorizationRequest(authorizeParams()), {
+        code: 'invalid_client',
+      });
+    });
+
+    it('requires PKCE with S256', async () => {
+      await expectOAuthError(
+        validateAuthorizationRequest(authorizeParams({ code_challenge: null })),
+        { code: 'invalid_request', redirectUri: REDIRECT_URI, state: 'xyz' },
+        OAuthRedirectError
+      );
+      await expectOAuthError(
+        validateAuthorizationRequest(
+          authorizeParams({ code_challenge_method: 'plain' })
+        ),
+        { code: 'invalid_request' },
+        OAuthRedirectError
+      );
+    });
+
+    it('limits scopes to those registered for the client', async () => {
+      await expectOAuthError(
+        validateAuthorizationRequest(
+          authorizeParams({ scope: `openid ${PERMISSIONS.USER.DELETE}` })
+        ),
+        { code: 'invalid_scope' },
+        OAuthRedirectError
+      );
+    });
+
+    it('drops offline_access for clients without the refresh token grant', async () => {
+      mockPrisma.oAuthClient.findFirst.mockResolvedValue(
+        clientRecord({ grantTypes: ['authorization_code'] })
+      );
+
+      const request = await validateAuthorizationRequest(
+        authorizeParams({ scope: 'openid offline_access' })
+      );
+
+      expect(request.scopes).toEqual(['openid']);
+    });
+  });
+
+  describe('hasConsent', () => {
+    it('requires every requested scope to have been approved', async () => {
+      mockPrisma.oAuthConsent.findUnique.mockResolvedValue({
+        scopes: ['openid', 'email'],
+      });
+
+      expect(await hasConsent('user-1', clientRecord(), ['openid'])).toBe(true);
+      expect(
+        await hasConsent('user-1', clientRecord(), ['openid', 'profile'])
+      ).toBe(false);
+      expect(
+        await hasConsent('user-1', clientRecord({ skipConsent: true }), [
+          'profile',
+        ])
+      ).toBe(true);
+    });
+  });
+
+  describe('authorization_code grant', () => {
+    async function issueCode(scope = 'openid email offline_access') {
+      const request = await validateAuthorizationRequest(
+        authorizeParams({ scope })
+      );
+      const code = await createAuthorizationCode(
+        request,
+        'user-1',
+        new Date('2026-01-01T00:00:00Z')
+      );
+      const { data } =
+        mockPrisma.oAuthAuthorizationCode.create.mock.calls[0][0];
+      mockPrisma.oAuthAuthorizationCode.findUnique.mockResolvedValue({
+        id: 'code-1',
+        ...data,
+        usedAt: null,
+        createdAt: new Date(),
+      });
+      return code;
+    }
+
+    function tokenParams(code: string, verifier = CODE_VERIFIER) {
+      return new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: REDIRECT_URI,
+        code_verifier: verifier,
+      });
+    }
+
+    it('exchanges a code for access, ID and refresh tokens', async () => {
+      const code = await issueCode();
+
+      const tokens = await handleTokenRequest(
+        tokenParams(code),
+        clientRecord(),
+        context
+      );
+
+      expect(tokens).toMatchObject({
+        token_type: 'Bearer',
+        scope: 'openid email offline_access',
+      });
+      expect(tokens.refresh_token).toBeDefined();
+
+      const { payload } = await jwtVerify(
+        tokens.id_token!,
+        createLocalJWKSet(await getPublicJwks()),
+        { issuer: getOAuthIssuer(), audience: 'client-1' }
+      );
+      expect(payload).toMatchObject({
+        sub: 'user-1',
+        nonce: 'n-1',
+        email: 'jane@acme.com',
+        email_verified: true,
+      });
+      expect(payload).not.toHaveProperty('given_name');
+    });
+
+    it('rejects a wrong code verifier', async () => {
+      const code = await issueCode();
+
+      await expectOAuthError(
+        handleTokenRequest(
+          tokenParams(code, 'b'.repeat(43)),
+          clientRecord(),
+          context
+        ),
+        { code: 'invalid_grant' }
+      );
+    });
+
+    it('revokes issued tokens when a code is replayed', async () => {
+      const code = await issueCode();
+      mockPrisma.oAuthAuthorizationCode.findUnique.mockResolvedValue({
+        ...(await mockPrisma.oAuthAuthorizationCode.findUnique()),
+        usedAt: new Date(),
+      });
+
+      await expectOAuthError(
+        handleTokenRequest(tokenParams(code), clientRecord(), context),
+        { code: 'invalid_grant' }
+      );
+      expect(mockPrisma.oAuthRefreshToken.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            userId: 'user-1',
+            oauthClientId: 'client-row-1',
+          }),
+        })
+      );
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'OAUTH_SERVER_CODE_REUSE' })
+      );
+    });
+
+    it('rejects codes issued to another client', async () => {
+      const code = await issueCode();
+
+      await expectOAuthError(
+        handleTokenRequest(
+          tokenParams(code),
+          clientRecord({ id: 'client-row-2' }),
+          context
+        ),
+        { code: 'invalid_grant' }
+      );
+    });
+  });
+
+  describe('refresh_token grant', () => {
+    const refreshToken = {
+      id: 'rt-1',
+      familyId: 'family-1',
+      oauthClientId: 'client-row-1',
+      userId: 'user-1',
+      scopes: ['openid', 'offline_access'],
+      authTime: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+      revokedAt: null,
+    };
+
+    const params = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: 'token',
+    });
+
+    it('rotates the refresh token within its family', async () => {
+      mockPrisma.oAuthRefreshToken.findUnique.mockResolvedValue(refreshToken);
+
+      const tokens = await handleTokenRequest(params, clientRecord(), context);
+
+      expect(tokens.refresh_token).toBeDefined();
+      expect(mockPrisma.oAuthRefreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'rt-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.oAuthRefreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ familyId: 'family-1' }),
+      });
+    });
+
+    it('revokes the family when a rotated token is replayed', async () => {
+      mockPrisma.oAuthRefreshToken.findUnique.mockResolvedValue({
+        ...refreshToken,
+        revokedAt: new Date(),
+      });
+
+      await expectOAuthError(
+        handleTokenRequest(params, clientRecord(), context),
+        { code: 'invalid_grant' }
+      );
+      expect(mockPrisma.oAuthRefreshToken.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'family-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'OAUTH_SERVER_REFRESH_TOKEN_REUSE',
+          userId: 'user-1',
+        })
+      );
+    });
+
+    it('does not widen the original scopes', async () => {
+      mockPrisma.oAuthRefreshToken.findUnique.mockResolvedValue(refreshToken);
+
+      await expectOAuthError(
+        handleTokenRequest(
+          new URLSearchParams({
+            grant_type: 'refresh_token',
+            refresh_token: 'token',
+            scope: 'openid email',
+          }),
+          clientRecord(),
+          context
+        ),
+        { code: 'invalid_scope' }
+      );
+    });
+  });
+
+  describe('client_credentials grant', () => {
+    it('issues a token for the client with permission scopes', async () => {
+      const tokens = await handleTokenRequest(
+        new URLSearchParams({ grant_type: 'client_credentials' }),
+        clientRecord(),
+        context
+      );
+
+      expect(tokens.scope).toBe(PERMISSIONS.ORGANIZATION.VIEW);
+      expect(tokens).not.toHaveProperty('id_token');
+      expect(await verifyOAuthAccessToken(tokens.access_token)).toMatchObject({
+        sub: 'client-1',
+      });
+    });
+
+    it('rejects OpenID scopes and public clients', async () => {
+      await expectOAuthError(
+        handleTokenRequest(
+          new URLSearchParams({
+            grant_type: 'client_credentials',
+            scope: 'openid',
+          }),
+          clientRecord(),
+          context
+        ),
+        { code: 'invalid_scope' }
+      );
+      await expectOAuthError(
+        handleTokenRequest(
+          new URLSearchParams({ grant_type: 'client_credentials' }),
+          clientRecord({ clientSecretHash: null }),
+          context
+        ),
+        { code: 'unauthorized_client' }
+      );
+    });
+
+    it('rejects grants the client is not registered for', async () => {
+      await expectOAuthError(
+        handleTokenRequest(
+          new URLSearchParams({ grant_type: 'client_credentials' }),
+          clientRecord({ grantTypes: ['authorization_code'] }),
+          context
+        ),
+        { code: 'unauthorized_client' }
+      );
+      await expectOAuthError(
+        handleTokenRequest(
+          new URLSearchParams({ grant_type: 'password' }),
+          clientRecord(),
+          context
+        ),
+        { code: 'unsupported_grant_type' }
+      );
+    });
+  });
+
+  describe('getUserInfo', () => {
+    it('returns claims for the granted scopes', async () => {
+      const token = await generateOAuthAccessToken({
+        subject: 'user-1',
+        clientId: 'client-1',
+        scopes: ['openid', 'profile'],
+      });
+
+      expect(await getUserInfo(`Bearer ${token}`)).toEqual({
+        sub: 'user-1',
+        name: 'Jane Doe',
+        given_name: 'Jane',
+        family_name: 'Doe',
+        preferred_username: 'jane',
+        updated_at: 1767225600,
+      });
+    });
+
+    it('requires the openid scope and a valid token', async () => {
+      const token = await generateOAuthAccessToken({
+        subject: 'client-1',
+        clientId: 'client-1',
+        scopes: [PERMISSIONS.ORGANIZATION.VIEW],
+      });
+
+      await expectOAuthError(getUserInfo(`Bearer ${token}`), {
+        code: 'insufficient_scope',
+        status: 403,
+      });
+      await expectOAuthError(getUserInfo('Bearer not-a-jwt'), {
+        code: 'invalid_token',
+        status: 401,
+      });
+      await expectOAuthError(getUserInfo(null), {
+        code: 'invalid_token',
+        status: 401,
+      });
+    });
+  });
+});
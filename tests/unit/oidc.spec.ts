@@ -0,0 +1,439 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  beforeEach,
+  afterEach,
+} from 'vitest';
+import {
+  SignJWT,
+  exportJWK,
+  generateKeyPair,
+  type CryptoKey,
+  type JWK,
+} from 'jose';
+
+vi.mock('@/lib/env', () => ({
+  env: {
+    JWT_SECRET: 'test-jwt-secret-that-is-at-least-32-characters',
+    NEXT_PUBLIC_APP_URL: 'http://localhost:3000',
+    OIDC_PROVIDERS: [
+      {
+        id: 'keycloak',
+        name: 'Keycloak',
+        issuer: 'https://idp.example.com/realms/main',
+        clientId: 'soclestack',
+        clientSecret: 'secret',
+      },
+    ],
+  },
+}));
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    oidcProvider: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/db';
+import {
+  discoverOidcConfiguration,
+  clearOidcDiscoveryCache,
+  verifyIdToken,
+  deriveCodeVerifier,
+  deriveCodeChallenge,
+} from '@/lib/auth/oauth/oidc';
+import {
+  getProviderConfig,
+  getEnabledProviders,
+  isValidProvider,
+} from '@/lib/auth/oauth/providers';
+import {
+  buildAuthorizationUrl,
+  exchangeCodeForTokens,
+  fetchUserProfile,
+} from '@/lib/auth/oauth/client';
+
+/**
+ * Generic OpenID Connect provider tests.
+ *
+ * These tests verify discovery, ID token validation against a JWKS,
+ * PKCE derivation and the env/database provider registry.
+ */
+
+const issuer = 'https://idp.example.com/realms/main';
+
+const discovery = {
+  issuer,
+  authorization_endpoint: `${issuer}/protocol/openid-connect/auth`,
+  token_endpoint: `${issuer}/protocol/openid-connect/token`,
+  userinfo_endpoint: `${issuer}/protocol/openid-connect/userinfo`,
+  jwks_uri: `${issuer}/protocol/openid-connect/certs`,
+};
+
+let privateKey: CryptoKey;
+let publicJwk: JWK;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function signIdToken(
+  claims: Record<string, unknown>,
+  key: CryptoKey = privateKey
+): Promise<string> {
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+    .setIssuer(issuer)
+    .setAudience('soclestack')
+    .setSubject('idp-user-1')
+    .setIssuedAt()
+    .setExpirationTime('5m')
+    .sign(key);
+}
+
+const mockFetch = vi.fn();
+
+/** Route mocked fetch calls by URL */
+function mockIdp(routes: Record<string, () => Response>) {
+  mockFetch.mockImplementation(async (input: string | URL) => {
+    const handler = routes[String(input)];
+    if (!handler) throw new Error(`Unexpected fetch: ${input}`);
+    return handler();
+  });
+}
+
+describe('OIDC', () => {
+  beforeAll(async () => {
+    const keys = await generateKeyPair('RS256');
+    privateKey = keys.privateKey;
+    publicJwk = {
+      ...(await exportJWK(keys.publicKey)),
+      kid: 'test-key',
+      alg: 'RS256',
+    };
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearOidcDiscoveryCache();
+    vi.stubGlobal('fetch', mockFetch);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('discoverOidcConfiguration', () => {
+    it('should fetch and cache the discovery document', async () => {
+      mockIdp({
+        [`${issuer}/.well-known/openid-configuration`]: () =>
+          jsonResponse(discovery),
+      });
+
+      expect(await discoverOidcConfiguration(issuer)).toEqual(discovery);
+      expect(await discoverOidcConfiguration(issuer)).toEqual(discovery);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a document published for another issuer', async () => {
+      mockIdp({
+        [`${issuer}/.well-known/openid-configuration`]: () =>
+          jsonResponse({ ...discovery, issuer: 'https://evil.example.com' }),
+      });
+
+      expect(await discoverOidcConfiguration(issuer)).toBeNull();
+    });
+
+    it('should return null when the issuer is unreachable', async () => {
+      mockIdp({
+        [`${issuer}/.well-known/openid-configuration`]: () =>
+          jsonResponse({}, 503),
+      });
+
+      expect(await discoverOidcConfiguration(issuer)).toBeNull();
+    });
+  });
+
+  describe('verifyIdToken', () => {
+    const expected = {
+      issuer,
+      clientId: 'soclestack',
+      jwksUri: discovery.jwks_uri,
+      nonce: 'state-nonce',
+    };
+
+    beforeEach(() => {
+      mockIdp({
+        [discovery.jwks_uri]: () => jsonResponse({ keys: [publicJwk] }),
+      });
+    });
+
+    it('should return the claims of a valid token', async () => {
+      const idToken = await signIdToken({
+        nonce: 'state-nonce',
+        email: 'user@example.com',
+      });
+
+      const claims = await verifyIdToken(idToken, expected);
+
+      expect(claims?.sub).toBe('idp-user-1');
+      expect(claims?.email).toBe('user@example.com');
+    });
+
+    it('should reject a token with the wrong nonce', async () => {
+      const idToken = await signIdToken({ nonce: 'other-nonce' });
+
+      expect(await verifyIdToken(idToken, expected)).toBeNull();
+    });
+
+    it('should reject a token issued for another client', async () => {
+      const idToken = await signIdToken({ nonce: 'state-nonce' });
+
+      expect(
+        await verifyIdToken(idToken, { ...expected, clientId: 'other-app' })
+      ).toBeNull();
+    });
+
+    it('should reject a token signed with an unknown key', async () => {
+      const { privateKey: otherKey } = await generateKeyPair('RS256');
+      const idToken = await signIdToken({ nonce: 'state-nonce' }, otherKey);
+
+      expect(await verifyIdToken(idToken, expected)).toBeNull();
+    });
+  });
+
+  describe('PKCE', () => {
+    it('should derive a stable verifier per nonce', () => {
+      const verifier = deriveCodeVerifier('nonce-1');
+
+      expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(deriveCodeVerifier('nonce-1')).toBe(verifier);
+      expect(deriveCodeVerifier('nonce-2')).not.toBe(verifier);
+    });
+
+    it('should compute the S256 challenge', async () => {
+      const verifier = deriveCodeVerifier('nonce-1');
+      const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(verifier)
+      );
+
+      expect(deriveCodeChallenge(verifier)).toBe(
+        Buffer.from(digest).toString('base64url')
+      );
+    });
+  });
+
+  describe('provider registry', () => {
+    it('should accept slugs but not reserved route names', () => {
+      expect(isValidProvider('google')).toBe(true);
+      expect(isValidProvider('keycloak')).toBe(true);
+      expect(isValidProvider('azure-ad')).toBe(true);
+      expect(isValidProvider('accounts')).toBe(false);
+      expect(isValidProvider('Bad_Name')).toBe(false);
+    });
+
+    it('should build an env provider config from discovery', async () => {
+      mockIdp({
+        [`${issuer}/.well-known/openid-configuration`]: () =>
+          jsonResponse(discovery),
+      });
+
+      const config = await getProviderConfig('keycloak');
+
+      expect(config).toEqual(
+        expect.objectContaining({
+          type: 'oidc',
+          name: 'Keycloak',
+          authUrl: discovery.authorization_endpoint,
+          tokenUrl: discovery.token_endpoint,
+          jwksUri: discovery.jwks_uri,
+          scopes: ['openid', 'email', 'profile'],
+        })
+      );
+      expect(prisma.oidcProvider.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should ignore disabled database providers', async () => {
+      vi.mocked(prisma.oidcProvider.findUnique).mockResolvedValue({
+        slug: 'okta',
+        isEnabled: false,
+      } as never);
+
+      expect(await getProviderConfig('okta')).toBeNull();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should list env providers before database providers', async () => {
+      vi.mocked(prisma.oidcProvider.findMany).mockResolvedValue([
+        {
+          slug: 'keycloak',
+          name: 'Shadowed',
+          issuer,
+          clientId: 'x',
+          clientSecret: 'y',
+          scopes: 'openid',
+        },
+        {
+          slug: 'okta',
+          name: 'Okta',
+          issuer: 'https://okta.example.com',
+          clientId: 'x',
+          clientSecret: 'y',
+          scopes: 'openid email',
+        },
+      ] as never);
+
+      expect(await getEnabledProviders()).toEqual([
+        { id: 'keycloak', name: 'Keycloak', type: 'oidc' },
+        { id: 'okta', name: 'Okta', type: 'oidc' },
+      ]);
+    });
+  });
+
+  describe('authorization code flow', () => {
+    const redirectUri =
+      'http://localhost:3000/api/auth/oauth/keycloak/callback';
+
+    it('should send the nonce and PKCE challenge', async () => {
+      mockIdp({
+        [`${issuer}/.well-known/openid-configuration`]: () =>
+          jsonResponse(discovery),
+      });
+
+      const url = new URL(
+        (await buildAuthorizationUrl(
+          'keycloak',
+          'state-token',
+          redirectUri,
+          'state-nonce'
+        ))!
+      );
+
+      expect(url.origin + url.pathname).toBe(discovery.authorization_endpoint);
+      expect(url.searchParams.get('nonce')).toBe('state-nonce');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('code_challenge')).toBe(
+        deriveCodeChallenge(deriveCodeVerifier('state-nonce'))
+      );
+    });
+
+    it('should send the verifier and validate the ID token', async () => {
+      const idToken = await signIdToken({ nonce: 'state-nonce' });
+      let tokenRequest: URLSearchParams | undefined;
+
+      mockFetch.mockImplementation(
+        async (input: string | URL, init?: RequestInit) => {
+          switch (String(input)) {
+            case `${issuer}/.well-known/openid-configuration`:
+              return jsonResponse(discovery);
+            case discovery.jwks_uri:
+              return jsonResponse({ keys: [publicJwk] });
+            case discovery.token_endpoint:
+              tokenRequest = new URLSearchParams(String(init?.body));
+              return jsonResponse({
+                access_token: 'access',
+                token_type: 'Bearer',
+                id_token: idToken,
+              });
+            default:
+              throw new Error(`Unexpected fetch: ${input}`);
+          }
+        }
+      );
+
+      const tokens = await exchangeCodeForTokens(
+        'keycloak',
+        'code',
+        redirectUri,
+        'state-nonce'
+      );
+
+      expect(tokenRequest?.get('code_verifier')).toBe(
+        deriveCodeVerifier('state-nonce')
+      );
+      expect(tokens?.idTokenClaims?.sub).toBe('idp-user-1');
+    });
+
+    it('should reject an ID token replayed from another login', async () => {
+      const idToken = await signIdToken({ nonce: 'old-nonce' });
+
+      mockIdp({
+        [`${issuer}/.well-known/openid-configuration`]: () =>
+          jsonResponse(discovery),
+        [discovery.jwks_uri]: () => jsonResponse({ keys: [publicJwk] }),
+        [discovery.token_endpoint]: () =>
+          jsonResponse({
+            access_token: 'access',
+            token_type: 'Bearer',
+            id_token: idToken,
+          }),
+      });
+
+      expect(
+        await exchangeCodeForTokens(
+          'keycloak',
+          'code',
+          redirectUri,
+          'state-nonce'
+        )
+      ).toBeNull();
+    });
+
+    it('should merge userinfo claims into the profile', async () => {
+      mockIdp({
+        [`${issuer}/.well-known/openid-configuration`]: () =>
+          jsonResponse(discovery),
+        [discovery.userinfo_endpoint]: () =>
+          jsonResponse({
+            sub: 'idp-user-1',
+            email: 'user@example.com',
+            email_verified: 'true',
+            name: 'Ada Lovelace',
+          }),
+      });
+
+      const profile = await fetchUserProfile('keycloak', {
+        access_token: 'access',
+        token_type: 'Bearer',
+        idTokenClaims: { sub: 'idp-user-1' },
+      });
+
+      expect(profile).toEqual({
+        id: 'idp-user-1',
+        email: 'user@example.com',
+        emailVerified: true,
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        avatarUrl: null,
+      });
+    });
+
+    it('should reject userinfo for a different subject', async () => {
+      mockIdp({
+        [`${issuer}/.well-known/openid-configuration`]: () =>
+          jsonResponse(discovery),
+        [discovery.userinfo_endpoint]: () =>
+          jsonResponse({ sub: 'someone-else', email: 'other@example.com' }),
+      });
+
+      const profile = await fetchUserProfile('keycloak', {
+        access_token: 'access',
+        token_type: 'Bearer',
+        idTokenClaims: { sub: 'idp-user-1', email: 'user@example.com' },
+      });
+
+      expect(profile).toBeNull();
+    });
+  });
+});
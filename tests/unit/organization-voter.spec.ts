@@ -1,14 +1,21 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { OrganizationVoter } from '@/lib/security/voters/organization-voter';
 import { VoteResult } from '@/lib/security/voter';
+import * as roleChecker from '@/lib/security/role-checker';
 import { createMockUserWithRoles } from '../utils/voter-mock-helpers';
 
 // Mock hasRole from role-checker (where OrganizationVoter imports it)
 vi.mock('@/lib/security/role-checker', async () => {
   const actual = await vi.importActual('@/lib/security/role-checker');
+  const { DEFAULT_PERMISSION_GRANTS } =
+    await import('@/lib/security/permissions');
   return {
     ...actual,
     hasRole: vi.fn(),
+    getRolesGrantingPermission: vi.fn(
+      async (permission: keyof typeof DEFAULT_PERMISSION_GRANTS) =>
+        DEFAULT_PERMISSION_GRANTS[permission]
+    ),
   };
 });
 
@@ -238,5 +245,34 @@ describe('OrganizationVoter', () => {
         expect(result).toBe(VoteResult.DENIED);
       });
     });
+
+    describe('database-backed grants', () => {
+      it('should grant permissions given to a custom role', async () => {
+        const user = createUser(org.id, null);
+        vi.mocked(roleChecker.hasRole).mockImplementation(
+          async (_user, roleName, checkOrgId) =>
+            roleName === 'ROLE_EDITOR' && checkOrgId === org.id
+        );
+        vi.mocked(roleChecker.getRolesGrantingPermission).mockResolvedValueOnce(
+          ['ROLE_ADMIN', 'ROLE_EDITOR']
+        );
+
+        const result = await voter.vote(user, 'organization.edit', org);
+        expect(result).toBe(VoteResult.GRANTED);
+        expect(roleChecker.getRolesGrantingPermission).toHaveBeenCalledWith(
+          'organization.edit'
+        );
+      });
+
+      it('should deny permissions no role is granted', async () => {
+        const user = createUser(org.id, 'OWNER');
+        vi.mocked(roleChecker.getRolesGrantingPermission).mockResolvedValueOnce(
+          []
+        );
+
+        const result = await voter.vote(user, 'organization.delete', org);
+        expect(result).toBe(VoteResult.DENIED);
+      });
+    });
   });
 });
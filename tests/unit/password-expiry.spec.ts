@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockGetPasswordPolicy } = vi.hoisted(() => ({
+  mockPrisma: {
+    user: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+  mockGetPasswordPolicy: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+
+vi.mock('@/lib/auth/password-policy', () => ({
+  getPasswordPolicy: mockGetPasswordPolicy,
+}));
+
+import {
+  getPasswordChangeReason,
+  requirePasswordChange,
+} from '@/lib/auth/password-expiry';
+import { DEFAULT_PASSWORD_POLICY } from '@/lib/auth/password-policy/rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Password expiry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetPasswordPolicy.mockResolvedValue(DEFAULT_PASSWORD_POLICY);
+  });
+
+  describe('getPasswordChangeReason', () => {
+    const expiredChangeDate = new Date(
+      Date.now() - (DEFAULT_PASSWORD_POLICY.maxAgeDays + 1) * DAY_MS
+    );
+
+    it('requires a change an admin asked for', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        password: 'hash',
+        passwordChangedAt: new Date(),
+        passwordChangeRequired: true,
+      });
+
+      expect(await getPasswordChangeReason('user-1')).toBe('admin_required');
+    });
+
+    it('only enforces the maximum age when the policy says so', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        password: 'hash',
+        passwordChangedAt: expiredChangeDate,
+        passwordChangeRequired: false,
+      });
+
+      expect(await getPasswordChangeReason('user-1')).toBeNull();
+
+      mockGetPasswordPolicy.mockResolvedValue({
+        ...DEFAULT_PASSWORD_POLICY,
+        enforceMaxAge: true,
+      });
+
+      expect(await getPasswordChangeReason('user-1')).toBe('expired');
+    });
+
+    it('never forces users without a password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        password: null,
+        passwordChangedAt: null,
+        passwordChangeRequired: true,
+      });
+
+      expect(await getPasswordChangeReason('user-1')).toBeNull();
+      expect(mockGetPasswordPolicy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requirePasswordChange', () => {
+    it('flags only users with a password', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'user-1' }]);
+
+      expect(await requirePasswordChange(['user-1', 'oauth-user'])).toEqual([
+        'user-1',
+      ]);
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['user-1', 'oauth-user'] },
+          password: { not: null },
+        },
+        select: { id: true },
+      });
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['user-1'] } },
+        data: { passwordChangeRequired: true },
+      });
+    });
+
+    it('skips the update when nobody can be flagged', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      expect(await requirePasswordChange(['oauth-user'])).toEqual([]);
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash, pbkdf2Sync } from 'crypto';
+import bcrypt from 'bcryptjs';
+
+const { mockEnv } = vi.hoisted(() => ({
+  mockEnv: {
+    PASSWORD_HASH_ALGORITHM: undefined as string | undefined,
+  },
+}));
+
+vi.mock('@/lib/env', () => ({ env: mockEnv }));
+
+import {
+  hashPassword,
+  isSupportedPasswordHash,
+  needsPasswordRehash,
+  verifyPassword,
+} from '@/lib/auth/password-hashing';
+import { createArgon2idHasher } from '@/lib/auth/password-hashing/argon2';
+import { createBcryptHasher } from '@/lib/auth/password-hashing/bcrypt';
+import { createScryptHasher } from '@/lib/auth/password-hashing/scrypt';
+
+const PASSWORD = 'Velvet-Harbor-42';
+
+describe('Password hashing', () => {
+  beforeEach(() => {
+    mockEnv.PASSWORD_HASH_ALGORITHM = undefined;
+  });
+
+  describe('argon2id', () => {
+    const hasher = createArgon2idHasher({
+      memoryCost: 1024,
+      timeCost: 2,
+      parallelism: 1,
+    });
+
+    it('records its parameters and verifies', async () => {
+      const hash = await hasher.hash!(PASSWORD);
+
+      expect(hash).toMatch(/^\$argon2id\$v=19\$m=1024,t=2,p=1\$/);
+      expect(await hasher.verify(PASSWORD, hash)).toBe(true);
+      expect(await hasher.verify('Other-Harbor-42', hash)).toBe(false);
+      expect(hasher.needsRehash(hash)).toBe(false);
+    });
+
+    it('needs a rehash when the parameters were raised', async () => {
+      const hash = await hasher.hash!(PASSWORD);
+      const stronger = createArgon2idHasher({
+        memoryCost: 2048,
+        timeCost: 2,
+        parallelism: 1,
+      });
+
+      expect(stronger.needsRehash(hash)).toBe(true);
+      expect(
+        stronger.needsRehash(hash.replace('$argon2id$', '$argon2i$'))
+      ).toBe(true);
+    });
+  });
+
+  describe('scrypt', () => {
+    const hasher = createScryptHasher({
+      cost: 1024,
+      blockSize: 8,
+      parallelization: 1,
+    });
+
+    it('records its parameters and verifies', async () => {
+      const hash = await hasher.hash!(PASSWORD);
+
+      expect(hash).toMatch(/^\$scrypt\$ln=10,r=8,p=1\$/);
+      expect(await hasher.verify(PASSWORD, hash)).toBe(true);
+      expect(await hasher.verify('Other-Harbor-42', hash)).toBe(false);
+      expect(hasher.needsRehash(hash)).toBe(false);
+    });
+
+    it('needs a rehash when the cost was raised', async () => {
+      const hash = await hasher.hash!(PASSWORD);
+      const stronger = createScryptHasher({
+        cost: 2048,
+        blockSize: 8,
+        parallelization: 1,
+      });
+
+      expect(stronger.needsRehash(hash)).toBe(true);
+    });
+  });
+
+  describe('bcrypt', () => {
+    it('needs a rehash below the configured cost', async () => {
+      const hash = await bcrypt.hash(PASSWORD, 4);
+
+      expect(await createBcryptHasher({ cost: 4 }).verify(PASSWORD, hash)).toBe(
+        true
+      );
+      expect(createBcryptHasher({ cost: 4 }).needsRehash(hash)).toBe(false);
+      expect(createBcryptHasher({ cost: 5 }).needsRehash(hash)).toBe(true);
+    });
+  });
+
+  describe('legacy hashes', () => {
+    it('verifies Django PBKDF2 hashes', async () => {
+      const key = pbkdf2Sync(PASSWORD, 'seasalt', 1000, 32, 'sha256');
+      const hash = `pbkdf2_sha256$1000$seasalt$${key.toString('base64')}`;
+
+      expect(isSupportedPasswordHash(hash)).toBe(true);
+      expect(await verifyPassword(PASSWORD, hash)).toBe(true);
+      expect(await verifyPassword('Other-Harbor-42', hash)).toBe(false);
+      expect(needsPasswordRehash(hash)).toBe(true);
+    });
+
+    it('verifies LDAP salted SHA hashes', async () => {
+      const salt = Buffer.from('pepper');
+      const digest = createHash('sha256')
+        .update(PASSWORD)
+        .update(salt)
+        .digest();
+      const hash = `{SSHA256}${Buffer.concat([digest, salt]).toString('base64')}`;
+
+      expect(await verifyPassword(PASSWORD, hash)).toBe(true);
+      expect(await verifyPassword('Other-Harbor-42', hash)).toBe(false);
+      expect(needsPasswordRehash(hash)).toBe(true);
+    });
+  });
+
+  describe('registry', () => {
+    it('hashes new passwords with the configured algorithm', async () => {
+      mockEnv.PASSWORD_HASH_ALGORITHM = 'bcrypt';
+      const hash = await hashPassword(PASSWORD);
+
+      expect(hash).toMatch(/^\$2[ab]\$12\$/);
+      expect(needsPasswordRehash(hash)).toBe(false);
+
+      mockEnv.PASSWORD_HASH_ALGORITHM = undefined;
+      expect(needsPasswordRehash(hash)).toBe(true);
+      expect(await verifyPassword(PASSWORD, hash)).toBe(true);
+    });
+
+    it('rejects unknown hash formats', async () => {
+      expect(isSupportedPasswordHash('5f4dcc3b5aa765d61d8327deb882cf99')).toBe(
+        false
+      );
+      expect(
+        await verifyPassword(PASSWORD, '5f4dcc3b5aa765d61d8327deb882cf99')
+      ).toBe(false);
+      expect(needsPasswordRehash('5f4dcc3b5aa765d61d8327deb882cf99')).toBe(
+        false
+      );
+    });
+  });
+});
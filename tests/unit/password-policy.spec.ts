@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const { mockPrisma, mockEnv, mockVerifyPassword } = vi.hoisted(() => ({
+  mockPrisma: {
+    organization: {
+      findMany: vi.fn(),
+    },
+    userRole: {
+      findMany: vi.fn(),
+    },
+    passwordHistory: {
+      findMany: vi.fn(),
+    },
+  },
+  mockEnv: { PASSWORD_BREACH_DATA_PATH: undefined as string | undefined },
+  mockVerifyPassword: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+
+vi.mock('@/lib/env', () => ({ env: mockEnv }));
+
+vi.mock('@/lib/security', () => ({ verifyPassword: mockVerifyPassword }));
+
+import {
+  assertPasswordAllowed,
+  checkPassword,
+  checkPasswordRules,
+  containsPersonalInfo,
+  DEFAULT_PASSWORD_POLICY,
+  getPasswordPolicy,
+  isCommonPassword,
+  isPasswordBreached,
+  mergePasswordPolicies,
+  parsePasswordPolicyOverrides,
+} from '@/lib/auth/password-policy';
+import {
+  getBreachRangeKey,
+  rangeContainsSuffix,
+} from '@/lib/auth/password-policy/breach';
+import { ValidationError } from '@/services/auth.errors';
+
+const STRONG_PASSWORD = 'Velvet-Harbor-42';
+
+describe('Password policy', () => {
+  const breachDir = mkdtempSync(join(tmpdir(), 'breach-'));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnv.PASSWORD_BREACH_DATA_PATH = undefined;
+    mockVerifyPassword.mockResolvedValue(false);
+    mockPrisma.passwordHistory.findMany.mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    rmSync(breachDir, { recursive: true, force: true });
+  });
+
+  describe('mergePasswordPolicies', () => {
+    it('only lets overrides make the policy stricter', () => {
+      const policy = mergePasswordPolicies(DEFAULT_PASSWORD_POLICY, [
+        { minLength: 4, historyDepth: 1, maxAgeDays: 365 },
+      ]);
+
+      expect(policy.minLength).toBe(DEFAULT_PASSWORD_POLICY.minLength);
+      expect(policy.historyDepth).toBe(DEFAULT_PASSWORD_POLICY.historyDepth);
+      expect(policy.maxAgeDays).toBe(DEFAULT_PASSWORD_POLICY.maxAgeDays);
+    });
+
+    it('takes the strictest value across organizations', () => {
+      const policy = mergePasswordPolicies(DEFAULT_PASSWORD_POLICY, [
+        { minLength: 12, maxAgeDays: 60 },
+        { minLength: 14, historyDepth: 10, enforceMaxAge: true },
+      ]);
+
+      expect(policy).toMatchObject({
+        minLength: 14,
+        historyDepth: 10,
+        maxAgeDays: 60,
+        enforceMaxAge: true,
+      });
+    });
+  });
+
+  describe('parsePasswordPolicyOverrides', () => {
+    it('ignores invalid stored overrides', () => {
+      expect(parsePasswordPolicyOverrides(null)).toEqual({});
+      expect(parsePasswordPolicyOverrides({ minLength: 'long' })).toEqual({});
+      expect(parsePasswordPolicyOverrides({ minLength: 12 })).toEqual({
+        minLength: 12,
+      });
+    });
+  });
+
+  describe('checkPasswordRules', () => {
+    it('accepts a password that meets every rule', () => {
+      expect(
+        checkPasswordRules(STRONG_PASSWORD, DEFAULT_PASSWORD_POLICY)
+      ).toEqual([]);
+    });
+
+    it('reports each broken rule', () => {
+      const codes = checkPasswordRules('abc', DEFAULT_PASSWORD_POLICY).map(
+        (violation) => violation.code
+      );
+
+      expect(codes).toEqual([
+        'too_short',
+        'missing_uppercase',
+        'missing_number',
+        'missing_symbol',
+      ]);
+    });
+
+    it('rejects passwords containing personal information', () => {
+      const codes = checkPasswordRules(
+        'Jane.Doe-2026!',
+        DEFAULT_PASSWORD_POLICY,
+        {
+          email: 'jane.doe@example.com',
+        }
+      ).map((violation) => violation.code);
+
+      expect(codes).toContain('personal_info');
+    });
+  });
+
+  describe('isCommonPassword', () => {
+    it('detects decorated variants of common passwords', () => {
+      expect(isCommonPassword('password')).toBe(true);
+      expect(isCommonPassword('P@ssw0rd2024!')).toBe(true);
+      expect(isCommonPassword(STRONG_PASSWORD)).toBe(false);
+    });
+  });
+
+  describe('containsPersonalInfo', () => {
+    it('ignores very short names', () => {
+      expect(containsPersonalInfo('Al-Harbor-42!', { firstName: 'Al' })).toBe(
+        false
+      );
+      expect(containsPersonalInfo('xXsmithXx-1', { lastName: 'Smith' })).toBe(
+        true
+      );
+    });
+  });
+
+  describe('isPasswordBreached', () => {
+    it('reads the range file for the hash prefix', async () => {
+      const { prefix, suffix } = getBreachRangeKey(STRONG_PASSWORD);
+      writeFileSync(
+        join(breachDir, `${prefix}.txt`),
+        `0000000000000000000000000000000000A:3\r\n${suffix}:12\r\n`
+      );
+      mockEnv.PASSWORD_BREACH_DATA_PATH = breachDir;
+
+      expect(await isPasswordBreached(STRONG_PASSWORD)).toBe(true);
+      expect(await isPasswordBreached('Another-Harbor-42')).toBe(false);
+    });
+
+    it('is disabled without a dataset', async () => {
+      expect(await isPasswordBreached(STRONG_PASSWORD)).toBe(false);
+    });
+
+    it('ignores padding entries', () => {
+      expect(rangeContainsSuffix('ABC:0\nDEF:4', 'ABC')).toBe(false);
+      expect(rangeContainsSuffix('ABC:0\nDEF:4', 'DEF')).toBe(true);
+    });
+  });
+
+  describe('getPasswordPolicy', () => {
+    it('applies the overrides of every organization of the user', async () => {
+      mockPrisma.userRole.findMany.mockResolvedValue([
+        { organizationId: 'org-1' },
+        { organizationId: 'org-2' },
+      ]);
+      mockPrisma.organization.findMany.mockResolvedValue([
+        { passwordPolicy: { minLength: 12 } },
+        { passwordPolicy: { minLength: 16 } },
+      ]);
+
+      const policy = await getPasswordPolicy('user-1');
+
+      expect(policy.minLength).toBe(16);
+      expect(mockPrisma.organization.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['org-1', 'org-2'] } },
+        select: { passwordPolicy: true },
+      });
+    });
+  });
+
+  describe('checkPassword', () => {
+    it('rejects the current and recent passwords', async () => {
+      mockPrisma.passwordHistory.findMany.mockResolvedValue([
+        { password: 'hash-1' },
+      ]);
+      mockVerifyPassword.mockImplementation(
+        async (_password: string, hash: string) => hash === 'hash-1'
+      );
+
+      const violations = await checkPassword(STRONG_PASSWORD, {
+        policy: DEFAULT_PASSWORD_POLICY,
+        userId: 'user-1',
+        currentPasswordHash: 'current-hash',
+      });
+
+      expect(violations.map((violation) => violation.code)).toEqual(['reused']);
+      expect(mockPrisma.passwordHistory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1' },
+          take: DEFAULT_PASSWORD_POLICY.historyDepth,
+        })
+      );
+    });
+
+    it('skips lookups when the simple rules fail', async () => {
+      await checkPassword('short', {
+        policy: DEFAULT_PASSWORD_POLICY,
+        userId: 'user-1',
+      });
+
+      expect(mockPrisma.passwordHistory.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertPasswordAllowed', () => {
+    it('reports violations under the given field', async () => {
+      const error = await assertPasswordAllowed(
+        'short',
+        { policy: DEFAULT_PASSWORD_POLICY },
+        'newPassword'
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.details.details.newPassword).toContain(
+        'Password must be at least 8 characters'
+      );
+      expect(error.details.violations).toContain('too_short');
+    });
+  });
+});
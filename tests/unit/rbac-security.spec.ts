@@ -12,6 +12,12 @@ vi.mock('@/lib/db', () => ({
     role: {
       findMany: vi.fn(),
     },
+    rolePermission: {
+      findMany: vi.fn(),
+    },
+    accessPolicy: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
   },
 }));
 
@@ -225,6 +231,49 @@ describe('RBAC Security Service', () => {
     });
   });
 
+  describe('getRolesGrantingPermission', () => {
+    let getRolesGrantingPermission: typeof import('@/lib/security/role-checker').getRolesGrantingPermission;
+
+    beforeEach(async () => {
+      const module = await import('@/lib/security/role-checker');
+      getRolesGrantingPermission = module.getRolesGrantingPermission;
+      module.clearRoleHierarchyCache();
+    });
+
+    it('should return the roles granted a permission', async () => {
+      vi.mocked(prisma.rolePermission.findMany).mockResolvedValue([
+        { permission: 'organization.edit', role: { name: ROLES.ADMIN } },
+        { permission: 'organization.edit', role: { name: 'ROLE_EDITOR' } },
+        { permission: 'user.view', role: { name: ROLES.MODERATOR } },
+      ] as never);
+
+      expect(await getRolesGrantingPermission('organization.edit')).toEqual([
+        ROLES.ADMIN,
+        'ROLE_EDITOR',
+      ]);
+      expect(await getRolesGrantingPermission('user.delete')).toEqual([]);
+      expect(prisma.rolePermission.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should grant nothing once every grant is revoked', async () => {
+      vi.mocked(prisma.rolePermission.findMany).mockResolvedValue([]);
+
+      expect(await getRolesGrantingPermission('organization.delete')).toEqual(
+        []
+      );
+    });
+
+    it('should reload grants after clearRoleHierarchyCache', async () => {
+      vi.mocked(prisma.rolePermission.findMany).mockResolvedValue([]);
+
+      await getRolesGrantingPermission('user.view');
+      clearRoleHierarchyCache();
+      await getRolesGrantingPermission('user.view');
+
+      expect(prisma.rolePermission.findMany).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('cycle detection', () => {
     let hasRole: typeof import('@/lib/security/index').hasRole;
 
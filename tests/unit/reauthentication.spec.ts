@@ -0,0 +1,353 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { IronSession } from 'iron-session';
+import type { SessionData } from '@/types/auth';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  RateLimitError,
+  ReauthenticationRequiredError,
+} from '@/services/auth.errors';
+import { ImpersonationBlockedError } from '@/lib/auth/impersonation';
+
+const { mockPrisma, mockRateLimiter } = vi.hoisted(() => ({
+  mockPrisma: {
+    user: { findUnique: vi.fn() },
+  },
+  mockRateLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+
+vi.mock('@/lib/rate-limiter', () => ({
+  getRateLimiter: vi.fn().mockResolvedValue(mockRateLimiter),
+}));
+
+vi.mock('@/lib/audit', () => ({
+  logAuditEvent: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('@/lib/email', () => ({}));
+
+vi.mock('@/lib/security', () => ({
+  verifyPassword: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/totp', () => ({
+  verifyTOTPCode: vi.fn(),
+  generateTOTPSecret: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/webauthn', () => ({
+  storeWebAuthnChallenge: vi.fn(),
+  consumeWebAuthnChallenge: vi.fn(),
+  generatePasskeyAuthenticationOptions: vi.fn(),
+  verifyPasskeyAuthentication: vi.fn(),
+  getPasskeyCount: vi.fn(),
+}));
+
+import { assertRecentAuth } from '@/lib/auth';
+import {
+  getReauthMethods,
+  reauthenticate,
+  startPasskeyReauthentication,
+} from '@/services/auth.service';
+import { logAuditEvent } from '@/lib/audit';
+import { verifyPassword } from '@/lib/security';
+import { verifyTOTPCode } from '@/lib/auth/totp';
+import {
+  storeWebAuthnChallenge,
+  consumeWebAuthnChallenge,
+  generatePasskeyAuthenticationOptions,
+  verifyPasskeyAuthentication,
+  getPasskeyCount,
+} from '@/lib/auth/webauthn';
+
+const MINUTE_MS = 60 * 1000;
+const NOW = new Date('2026-01-01T12:00:00Z').getTime();
+const context = { clientIP: '1.2.3.4', userAgent: 'test-agent' };
+
+function createSession(
+  overrides: Partial<SessionData> = {}
+): IronSession<SessionData> {
+  return {
+    userId: 'user-1',
+    email: 'user@example.com',
+    role: 'ROLE_USER',
+    isLoggedIn: true,
+    save: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  } as unknown as IronSession<SessionData>;
+}
+
+describe('Step-up authentication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    mockRateLimiter.check.mockResolvedValue({ limited: false, headers: {} });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('assertRecentAuth', () => {
+    it('allows a session authenticated within the window', () => {
+      const session = createSession({ authenticatedAt: NOW - 4 * MINUTE_MS });
+
+      expect(() => assertRecentAuth(session, 'deleteAccount')).not.toThrow();
+    });
+
+    it('requires re-authentication once the window has passed', () => {
+      const session = createSession({ authenticatedAt: NOW - 6 * MINUTE_MS });
+
+      expect(() => assertRecentAuth(session, 'deleteAccount')).toThrow(
+        ReauthenticationRequiredError
+      );
+    });
+
+    it('uses the window configured for the operation', () => {
+      const session = createSession({ authenticatedAt: NOW - 10 * MINUTE_MS });
+
+      expect(() => assertRecentAuth(session, 'changeEmail')).not.toThrow();
+      expect(() => assertRecentAuth(session, 'disable2FA')).toThrow(
+        ReauthenticationRequiredError
+      );
+    });
+
+    it('tells the client which operation needs a sign-in', () => {
+      const session = createSession();
+
+      try {
+        assertRecentAuth(session, 'impersonate');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ReauthenticationRequiredError);
+        expect((error as ReauthenticationRequiredError).details).toEqual({
+          operation: 'impersonate',
+          maxAgeMinutes: 15,
+        });
+      }
+    });
+
+    it('refuses requests without a session', () => {
+      expect(() => assertRecentAuth(null, 'createReadWriteApiKey')).toThrow(
+        AuthorizationError
+      );
+    });
+
+    it('refuses impersonation sessions', () => {
+      const session = createSession({
+        authenticatedAt: NOW,
+        impersonating: {
+          originalUserId: 'admin-1',
+          originalEmail: 'admin@example.com',
+          originalRole: 'ROLE_ADMIN',
+          startedAt: NOW,
+        },
+      });
+
+      expect(() => assertRecentAuth(session, 'changeEmail')).toThrow(
+        ImpersonationBlockedError
+      );
+    });
+  });
+
+  describe('getReauthMethods', () => {
+    it('lists the methods the user has set up', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        password: 'hash',
+        twoFactorEnabled: true,
+      });
+      vi.mocked(getPasskeyCount).mockResolvedValue(1);
+
+      expect(await getReauthMethods('user-1')).toEqual([
+        'password',
+        'totp',
+        'passkey',
+      ]);
+    });
+
+    it('omits password for accounts without one', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        password: null,
+        twoFactorEnabled: false,
+      });
+      vi.mocked(getPasskeyCount).mockResolvedValue(1);
+
+      expect(await getReauthMethods('user-1')).toEqual(['passkey']);
+    });
+  });
+
+  describe('reauthenticate', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        password: 'hash',
+        twoFactorEnabled: true,
+        twoFactorSecret: 'secret',
+      });
+    });
+
+    it('marks the session as recently authenticated with a valid password', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(true);
+      const session = createSession({ authenticatedAt: NOW - 60 * MINUTE_MS });
+
+      const result = await reauthenticate(
+        'user-1',
+        { method: 'password', password: 'correct' },
+        context,
+        session
+      );
+
+      expect(result).toEqual({ authenticatedAt: NOW });
+      expect(session.authenticatedAt).toBe(NOW);
+      expect(session.save).toHaveBeenCalled();
+      expect(() => assertRecentAuth(session, 'deleteAccount')).not.toThrow();
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'AUTH_REAUTH_SUCCESS',
+          userId: 'user-1',
+          metadata: { method: 'password' },
+        })
+      );
+    });
+
+    it('rejects a wrong password and logs the failure', async () => {
+      vi.mocked(verifyPassword).mockResolvedValue(false);
+      const session = createSession();
+
+      await expect(
+        reauthenticate(
+          'user-1',
+          { method: 'password', password: 'wrong' },
+          context,
+          session
+        )
+      ).rejects.toThrow(AuthenticationError);
+
+      expect(session.authenticatedAt).toBeUndefined();
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'AUTH_REAUTH_FAILURE',
+          metadata: { method: 'password' },
+        })
+      );
+    });
+
+    it('accepts a valid TOTP code', async () => {
+      vi.mocked(verifyTOTPCode).mockReturnValue(true);
+      const session = createSession();
+
+      await reauthenticate(
+        'user-1',
+        { method: 'totp', code: '123456' },
+        context,
+        session
+      );
+
+      expect(verifyTOTPCode).toHaveBeenCalledWith('secret', '123456');
+      expect(session.authenticatedAt).toBe(NOW);
+    });
+
+    it('rejects TOTP when 2FA is not enabled', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        password: 'hash',
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+      });
+
+      await expect(
+        reauthenticate(
+          'user-1',
+          { method: 'totp', code: '123456' },
+          context,
+          createSession()
+        )
+      ).rejects.toThrow(AuthenticationError);
+    });
+
+    it('verifies passkeys against a challenge bound to the user', async () => {
+      vi.mocked(consumeWebAuthnChallenge).mockReturnValue('challenge');
+      vi.mocked(verifyPasskeyAuthentication).mockResolvedValue({
+        userId: 'user-1',
+        credentialId: 'cred-1',
+      });
+      const session = createSession();
+      const response = { id: 'cred-1' } as never;
+
+      await reauthenticate(
+        'user-1',
+        { method: 'passkey', response },
+        context,
+        session
+      );
+
+      expect(consumeWebAuthnChallenge).toHaveBeenCalledWith(
+        session,
+        'reauthentication',
+        'user-1'
+      );
+      expect(verifyPasskeyAuthentication).toHaveBeenCalledWith(
+        response,
+        'challenge',
+        'user-1'
+      );
+      expect(session.authenticatedAt).toBe(NOW);
+    });
+
+    it('blocks re-authentication while impersonating', async () => {
+      await expect(
+        reauthenticate(
+          'user-1',
+          { method: 'password', password: 'correct' },
+          { ...context, isImpersonating: true },
+          createSession()
+        )
+      ).rejects.toThrow(ImpersonationBlockedError);
+
+      expect(verifyPassword).not.toHaveBeenCalled();
+    });
+
+    it('rate limits attempts per user', async () => {
+      mockRateLimiter.check.mockResolvedValue({ limited: true, headers: {} });
+
+      await expect(
+        reauthenticate(
+          'user-1',
+          { method: 'password', password: 'guess' },
+          context,
+          createSession()
+        )
+      ).rejects.toThrow(RateLimitError);
+
+      expect(mockRateLimiter.check).toHaveBeenCalledWith(
+        'reauth:user-1',
+        expect.any(Number),
+        expect.any(Number)
+      );
+      expect(verifyPassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startPasskeyReauthentication', () => {
+    it('stores a re-authentication challenge for the user', async () => {
+      vi.mocked(getPasskeyCount).mockResolvedValue(1);
+      vi.mocked(generatePasskeyAuthenticationOptions).mockResolvedValue({
+        challenge: 'challenge',
+      } as never);
+      const session = createSession();
+
+      await startPasskeyReauthentication('user-1', context, session);
+
+      expect(generatePasskeyAuthenticationOptions).toHaveBeenCalledWith(
+        'user-1'
+      );
+      expect(storeWebAuthnChallenge).toHaveBeenCalledWith(session, {
+        challenge: 'challenge',
+        purpose: 'reauthentication',
+        userId: 'user-1',
+      });
+      expect(session.save).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockPrisma, mockLogAuditEvent } = vi.hoisted(() => ({
+  mockPrisma: {
+    refreshToken: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+  mockLogAuditEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+
+vi.mock('@/lib/audit', () => ({ logAuditEvent: mockLogAuditEvent }));
+
+vi.mock('@/lib/security', () => {
+  let issued = 0;
+  return {
+    generateRefreshToken: vi.fn(async () => `token-${++issued}`),
+    verifyRefreshToken: vi.fn(async (token: string) => {
+      if (token === 'not-a-jwt') throw new Error('Invalid refresh token');
+      return { userId: 'user-1' };
+    }),
+    hashSessionToken: vi.fn(async (token: string) => `hash:${token}`),
+  };
+});
+
+import {
+  issueRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+} from '@/lib/auth/refresh-tokens';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function storedToken(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'rt-1',
+    userId: 'user-1',
+    familyId: 'family-1',
+    familyExpiresAt: new Date(Date.now() + 20 * DAY_MS),
+    tokenHash: 'hash:old-token',
+    expiresAt: new Date(Date.now() + DAY_MS),
+    rotatedAt: null,
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+describe('Refresh tokens', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('issueRefreshToken', () => {
+    it('stores a hash of the token in a new family', async () => {
+      const token = await issueRefreshToken('user-1', {
+        ipAddress: '1.2.3.4',
+        userAgent: 'test-agent',
+      });
+
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          familyId: expect.any(String),
+          tokenHash: `hash:${token}`,
+          ipAddress: '1.2.3.4',
+          userAgent: 'test-agent',
+        }),
+      });
+    });
+
+    it('starts a different family for each login', async () => {
+      await issueRefreshToken('user-1');
+      await issueRefreshToken('user-1');
+
+      const [first, second] = mockPrisma.refreshToken.create.mock.calls.map(
+        ([args]) => args.data.familyId
+      );
+      expect(first).not.toBe(second);
+    });
+
+    it('ends a new family after the absolute lifetime', async () => {
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+
+      await issueRefreshToken('user-1');
+
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          familyExpiresAt: new Date('2026-01-31T00:00:00Z'),
+          expiresAt: new Date('2026-01-08T00:00:00Z'),
+        }),
+      });
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('issues a successor in the same family', async () => {
+      const stored = storedToken();
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(stored);
+
+      const result = await rotateRefreshToken('old-token');
+
+      expect(result).toEqual({
+        valid: true,
+        userId: 'user-1',
+        refreshToken: expect.any(String),
+      });
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'rt-1', rotatedAt: null, revokedAt: null },
+        data: { rotatedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          familyId: 'family-1',
+          familyExpiresAt: stored.familyExpiresAt,
+          tokenHash: `hash:${result.refreshToken}`,
+        }),
+      });
+    });
+
+    it('stops rotating once the family reaches its absolute lifetime', async () => {
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const familyExpiresAt = new Date('2026-01-31T00:00:00Z');
+
+      // Each rotation stores a successor that the next refresh presents
+      let current: ReturnType<typeof storedToken> | null = null;
+      mockPrisma.refreshToken.create.mockImplementation(async ({ data }) => {
+        current = storedToken({ ...data, rotatedAt: null, revokedAt: null });
+      });
+      mockPrisma.refreshToken.findUnique.mockImplementation(
+        async () => current
+      );
+
+      let token = await issueRefreshToken('user-1');
+      for (let day = 6; day <= 30; day += 6) {
+        vi.setSystemTime(new Date(Date.UTC(2026, 0, 1 + day)));
+        const result = await rotateRefreshToken(token);
+        expect(result.valid).toBe(true);
+        token = result.refreshToken!;
+      }
+
+      // Rotated on day 30: the successor expires with the family, not 7 days on
+      expect(current!.expiresAt).toEqual(familyExpiresAt);
+      expect(current!.familyExpiresAt).toEqual(familyExpiresAt);
+
+      vi.setSystemTime(new Date('2026-01-31T00:00:01Z'));
+      expect(await rotateRefreshToken(token)).toEqual({ valid: false });
+    });
+
+    it('revokes the family when a rotated token is reused', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(
+        storedToken({ rotatedAt: new Date() })
+      );
+
+      const result = await rotateRefreshToken('old-token', {
+        ipAddress: '1.2.3.4',
+      });
+
+      expect(result).toEqual({ valid: false, reuseDetected: true });
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'family-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'AUTH_REFRESH_TOKEN_REUSE',
+          category: 'security',
+          userId: 'user-1',
+          ipAddress: '1.2.3.4',
+          metadata: { familyId: 'family-1' },
+        })
+      );
+      expect(mockPrisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('treats losing a concurrent claim as reuse', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(storedToken());
+      mockPrisma.refreshToken.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await rotateRefreshToken('old-token');
+
+      expect(result).toEqual({ valid: false, reuseDetected: true });
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'AUTH_REFRESH_TOKEN_REUSE' })
+      );
+      expect(mockPrisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects revoked tokens', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(
+        storedToken({ revokedAt: new Date() })
+      );
+
+      expect(await rotateRefreshToken('old-token')).toEqual({ valid: false });
+      expect(mockLogAuditEvent).not.toHaveBeenCalled();
+    });
+
+    it('rejects expired tokens', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(
+        storedToken({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      expect(await rotateRefreshToken('old-token')).toEqual({ valid: false });
+    });
+
+    it('rejects tokens that were never issued', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(null);
+
+      expect(await rotateRefreshToken('old-token')).toEqual({ valid: false });
+    });
+
+    it('rejects tokens with an invalid signature', async () => {
+      expect(await rotateRefreshToken('not-a-jwt')).toEqual({ valid: false });
+      expect(mockPrisma.refreshToken.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeRefreshToken', () => {
+    it('revokes the family of the token', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue({
+        familyId: 'family-1',
+      });
+
+      await revokeRefreshToken('old-token');
+
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'family-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('ignores unknown tokens', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(null);
+
+      await revokeRefreshToken('unknown');
+
+      expect(mockPrisma.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
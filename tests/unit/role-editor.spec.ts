@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import {
   validateRoleName,
   isDescendantOf,
+  getAncestorRoles,
 } from '@/components/admin/role-editor';
 
 describe('validateRoleName', () => {
@@ -177,3 +178,54 @@ describe('isDescendantOf', () => {
     expect(isDescendantOf('5', '1', orphanedRoles)).toBe(false);
   });
 });
+
+describe('getAncestorRoles', () => {
+  const roles = [
+    {
+      id: '1',
+      name: 'ROLE_USER',
+      description: null,
+      parentId: null,
+      parentName: null,
+      isSystem: true,
+      permissions: ['organization.view'],
+    },
+    {
+      id: '2',
+      name: 'ROLE_MODERATOR',
+      description: null,
+      parentId: '1',
+      parentName: 'ROLE_USER',
+      isSystem: true,
+      permissions: ['user.view'],
+    },
+    {
+      id: '3',
+      name: 'ROLE_ADMIN',
+      description: null,
+      parentId: '2',
+      parentName: 'ROLE_MODERATOR',
+      isSystem: true,
+    },
+  ];
+
+  it('returns the parent chain, nearest first', () => {
+    expect(getAncestorRoles('3', roles).map((r) => r.name)).toEqual([
+      'ROLE_ADMIN',
+      'ROLE_MODERATOR',
+      'ROLE_USER',
+    ]);
+  });
+
+  it('returns no ancestors for a root role', () => {
+    expect(getAncestorRoles(null, roles)).toEqual([]);
+  });
+
+  it('stops at cycles', () => {
+    const cyclic = [
+      { ...roles[0], parentId: '2' },
+      { ...roles[1], parentId: '1' },
+    ];
+    expect(getAncestorRoles('1', cyclic)).toHaveLength(2);
+  });
+});
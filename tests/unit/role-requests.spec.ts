@@ -0,0 +1,405 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockPrisma, mockLogAuditEvent, mockSendEmail, mockInvalidate } =
+  vi.hoisted(() => {
+    const mockPrisma = {
+      role: { findMany: vi.fn(), findUnique: vi.fn() },
+      user: { findUniqueOrThrow: vi.fn(), findMany: vi.fn() },
+      userRole: {
+        findMany: vi.fn(),
+        findFirst: vi.fn(),
+        create: vi.fn(),
+        update: vi.fn(),
+        deleteMany: vi.fn(),
+      },
+      roleRequest: {
+        findFirst: vi.fn(),
+        findUnique: vi.fn(),
+        findUniqueOrThrow: vi.fn(),
+        create: vi.fn(),
+        update: vi.fn(),
+        updateMany: vi.fn(),
+      },
+      $transaction: vi.fn(),
+    };
+    return {
+      mockPrisma,
+      mockLogAuditEvent: vi.fn(),
+      mockSendEmail: vi.fn(),
+      mockInvalidate: vi.fn(),
+    };
+  });
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+vi.mock('@/lib/audit', () => ({ logAuditEvent: mockLogAuditEvent }));
+vi.mock('@/lib/email', () => ({ sendRoleRequestEmail: mockSendEmail }));
+vi.mock('@/lib/auth', () => ({ invalidateUserSessions: mockInvalidate }));
+
+import {
+  clearRoleHierarchyCache,
+  hasRole,
+  isRoleAssignmentActive,
+  ROLES,
+} from '@/lib/security/index';
+import {
+  requestRole,
+  reviewRoleRequest,
+  revokeExpiredRoleAssignments,
+} from '@/lib/role-requests';
+import { createRoleRequestSchema } from '@/lib/validations';
+import { AuthorizationError, ConflictError } from '@/services/auth.errors';
+
+const NOW = new Date('2026-01-30T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const roles = [
+  { id: 'role-user', name: ROLES.USER, parentId: null },
+  { id: 'role-mod', name: ROLES.MODERATOR, parentId: 'role-user' },
+  { id: 'role-admin', name: ROLES.ADMIN, parentId: 'role-mod' },
+];
+
+const context = { ipAddress: '127.0.0.1', userAgent: 'vitest' };
+
+function adminAssignment(window: { startsAt?: Date; expiresAt?: Date }) {
+  return {
+    organizationId: null,
+    role: roles[2],
+    startsAt: window.startsAt ?? null,
+    expiresAt: window.expiresAt ?? null,
+  };
+}
+
+describe('Role requests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    clearRoleHierarchyCache();
+    mockPrisma.role.findMany.mockResolvedValue(roles);
+    mockPrisma.$transaction.mockImplementation((fn) => fn(mockPrisma));
+    mockSendEmail.mockResolvedValue(true);
+    mockInvalidate.mockResolvedValue(2);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('time-bound assignments', () => {
+    it('should honor the assignment window', () => {
+      const past = new Date(NOW.getTime() - HOUR_MS);
+      const future = new Date(NOW.getTime() + HOUR_MS);
+
+      expect(isRoleAssignmentActive({})).toBe(true);
+      expect(isRoleAssignmentActive({ expiresAt: future })).toBe(true);
+      expect(isRoleAssignmentActive({ expiresAt: past })).toBe(false);
+      expect(isRoleAssignmentActive({ startsAt: future })).toBe(false);
+      expect(
+        isRoleAssignmentActive({ startsAt: past, expiresAt: future })
+      ).toBe(true);
+    });
+
+    it('should ignore expired and not yet started roles in hasRole', async () => {
+      const past = new Date(NOW.getTime() - HOUR_MS);
+      const future = new Date(NOW.getTime() + HOUR_MS);
+
+      const expired = {
+        id: 'u1',
+        userRoles: [adminAssignment({ expiresAt: past })],
+      };
+      const scheduled = {
+        id: 'u2',
+        userRoles: [adminAssignment({ startsAt: future })],
+      };
+      const current = {
+        id: 'u3',
+        userRoles: [adminAssignment({ expiresAt: future })],
+      };
+
+      expect(await hasRole(expired, ROLES.USER)).toBe(false);
+      expect(await hasRole(scheduled, ROLES.ADMIN)).toBe(false);
+      expect(await hasRole(current, ROLES.MODERATOR)).toBe(true);
+    });
+  });
+
+  describe('requestRole', () => {
+    const requester = {
+      id: 'user-1',
+      email: 'dev@example.com',
+      firstName: 'Dana',
+      lastName: 'Dev',
+      userRoles: [{ organizationId: null, role: roles[0] }],
+    };
+    const input = {
+      role: ROLES.ADMIN,
+      durationMinutes: 120,
+      justification: 'Investigating incident INC-42',
+    };
+
+    beforeEach(() => {
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue(requester);
+      mockPrisma.role.findUnique.mockResolvedValue(roles[2]);
+      mockPrisma.roleRequest.findFirst.mockResolvedValue(null);
+      mockPrisma.roleRequest.create.mockResolvedValue({
+        id: 'req-1',
+        durationMinutes: 120,
+        justification: input.justification,
+        organization: null,
+      });
+    });
+
+    it('should create the request and email every approver', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'admin-1', email: 'a1@example.com', firstName: 'Ana' },
+        { id: 'admin-2', email: 'a2@example.com', firstName: null },
+      ]);
+
+      await requestRole('user-1', input, context);
+
+      expect(mockPrisma.roleRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            userId: 'user-1',
+            roleId: 'role-admin',
+            organizationId: null,
+            durationMinutes: 120,
+          }),
+        })
+      );
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'ROLE_REQUEST_CREATED',
+          userId: 'user-1',
+        })
+      );
+      expect(mockSendEmail).toHaveBeenCalledTimes(2);
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        'a1@example.com',
+        expect.objectContaining({
+          requesterName: 'Dana Dev',
+          roleName: ROLES.ADMIN,
+          durationMinutes: 120,
+        }),
+        'Ana',
+        'admin-1'
+      );
+    });
+
+    it('should reject a role the user already has', async () => {
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue({
+        ...requester,
+        userRoles: [{ organizationId: null, role: roles[1] }],
+      });
+      mockPrisma.role.findUnique.mockResolvedValue(roles[1]);
+
+      await expect(
+        requestRole('user-1', { ...input, role: ROLES.MODERATOR }, context)
+      ).rejects.toThrow(ConflictError);
+      expect(mockPrisma.roleRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject roles that cannot be requested', async () => {
+      mockPrisma.role.findUnique.mockResolvedValue({
+        id: 'role-owner',
+        name: ROLES.OWNER,
+        parentId: null,
+      });
+
+      await expect(
+        requestRole('user-1', { ...input, role: ROLES.OWNER }, context)
+      ).rejects.toThrow(AuthorizationError);
+      expect(
+        createRoleRequestSchema.safeParse({ ...input, role: ROLES.OWNER })
+          .success
+      ).toBe(false);
+      expect(createRoleRequestSchema.safeParse(input).success).toBe(true);
+    });
+
+    it('should reject a second pending request for the same role', async () => {
+      mockPrisma.roleRequest.findFirst.mockResolvedValue({ id: 'req-0' });
+
+      await expect(requestRole('user-1', input, context)).rejects.toThrow(
+        ConflictError
+      );
+    });
+
+    it('should reject organizations the user does not belong to', async () => {
+      await expect(
+        requestRole('user-1', { ...input, organizationId: 'org-9' }, context)
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('reviewRoleRequest', () => {
+    beforeEach(() => {
+      mockPrisma.roleRequest.findUnique.mockResolvedValue({
+        userId: 'user-1',
+        roleId: 'role-admin',
+        organizationId: null,
+        durationMinutes: 120,
+        role: { name: ROLES.ADMIN },
+      });
+      mockPrisma.roleRequest.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.userRole.findFirst.mockResolvedValue(null);
+      mockPrisma.roleRequest.findUniqueOrThrow.mockResolvedValue({
+        id: 'req-1',
+      });
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue({
+        id: 'admin-1',
+        userRoles: [adminAssignment({})],
+      });
+    });
+
+    it('should assign the role until the requested time is up', async () => {
+      await reviewRoleRequest(
+        'req-1',
+        'admin-1',
+        { decision: 'approve' },
+        context
+      );
+
+      const expiresAt = new Date(NOW.getTime() + 2 * HOUR_MS);
+      expect(mockPrisma.userRole.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          roleId: 'role-admin',
+          organizationId: null,
+          expiresAt,
+        },
+      });
+      expect(mockPrisma.roleRequest.update).toHaveBeenCalledWith({
+        where: { id: 'req-1' },
+        data: { expiresAt },
+      });
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'ROLE_REQUEST_APPROVED',
+          userId: 'admin-1',
+          metadata: expect.objectContaining({
+            targetUserId: 'user-1',
+            expiresAt: expiresAt.toISOString(),
+          }),
+        })
+      );
+    });
+
+    it('should not assign anything when denied', async () => {
+      await reviewRoleRequest(
+        'req-1',
+        'admin-1',
+        { decision: 'deny', note: 'Use the read-only role' },
+        context
+      );
+
+      expect(mockPrisma.userRole.create).not.toHaveBeenCalled();
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'ROLE_REQUEST_DENIED' })
+      );
+    });
+
+    it('should not let reviewers grant roles they do not hold', async () => {
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue({
+        id: 'mod-1',
+        userRoles: [{ organizationId: null, role: roles[1] }],
+      });
+
+      await expect(
+        reviewRoleRequest('req-1', 'mod-1', { decision: 'approve' }, context)
+      ).rejects.toThrow(AuthorizationError);
+      expect(mockPrisma.roleRequest.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should check the reviewer in the requested organization', async () => {
+      mockPrisma.roleRequest.findUnique.mockResolvedValue({
+        userId: 'user-1',
+        roleId: 'role-admin',
+        organizationId: 'org-1',
+        durationMinutes: 60,
+        role: { name: ROLES.ADMIN },
+      });
+      const orgAdmin = (organizationId: string) => ({
+        id: 'admin-2',
+        userRoles: [{ organizationId, role: roles[2] }],
+      });
+
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue(orgAdmin('org-2'));
+      await expect(
+        reviewRoleRequest('req-1', 'admin-2', { decision: 'approve' }, context)
+      ).rejects.toThrow(AuthorizationError);
+
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue(orgAdmin('org-1'));
+      await reviewRoleRequest(
+        'req-1',
+        'admin-2',
+        { decision: 'approve' },
+        context
+      );
+      expect(mockPrisma.userRole.create).toHaveBeenCalled();
+    });
+
+    it('should not let users review their own requests', async () => {
+      await expect(
+        reviewRoleRequest('req-1', 'user-1', { decision: 'approve' }, context)
+      ).rejects.toThrow(AuthorizationError);
+      expect(mockPrisma.roleRequest.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a request that was already reviewed', async () => {
+      mockPrisma.roleRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        reviewRoleRequest('req-1', 'admin-1', { decision: 'approve' }, context)
+      ).rejects.toThrow(ConflictError);
+      expect(mockPrisma.userRole.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeExpiredRoleAssignments', () => {
+    it('should delete expired assignments, audit them and sign users out', async () => {
+      const expiresAt = new Date(NOW.getTime() - 1000);
+      mockPrisma.userRole.findMany.mockResolvedValue([
+        {
+          id: 'ur-1',
+          userId: 'user-1',
+          organizationId: null,
+          expiresAt,
+          role: { name: ROLES.ADMIN },
+        },
+        {
+          id: 'ur-2',
+          userId: 'user-2',
+          organizationId: null,
+          expiresAt,
+          role: { name: ROLES.MODERATOR },
+        },
+      ]);
+      // ur-2 was extended after it was read
+      mockPrisma.userRole.deleteMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+      mockPrisma.roleRequest.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await revokeExpiredRoleAssignments();
+
+      expect(result).toEqual({ revoked: 1 });
+      expect(mockInvalidate).toHaveBeenCalledTimes(1);
+      expect(mockInvalidate).toHaveBeenCalledWith('user-1');
+      expect(mockLogAuditEvent).toHaveBeenCalledTimes(1);
+      expect(mockLogAuditEvent).toHaveBeenCalledWith({
+        action: 'ROLE_ASSIGNMENT_EXPIRED',
+        category: 'security',
+        userId: 'user-1',
+        metadata: {
+          roleName: ROLES.ADMIN,
+          organizationId: null,
+          expiresAt: expiresAt.toISOString(),
+          sessionsInvalidated: 2,
+        },
+      });
+      expect(mockPrisma.roleRequest.updateMany).toHaveBeenCalledWith({
+        where: { status: 'APPROVED', expiresAt: { lte: NOW } },
+        data: { status: 'EXPIRED' },
+      });
+    });
+  });
+});
@@ -66,6 +66,26 @@ describe('Role Safeguards', () => {
       );
     });
 
+    it('should not count temporary platform admins', async () => {
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue([
+        { userId: 'user-1', startsAt: null, expiresAt: null },
+        {
+          userId: 'user-2',
+          startsAt: null,
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        },
+        {
+          userId: 'user-3',
+          startsAt: new Date(Date.now() + 60 * 60 * 1000),
+          expiresAt: null,
+        },
+      ] as never);
+
+      const result = await checkLastPlatformAdmin('user-1', 'actor-1');
+
+      expect(result.allowed).toBe(false);
+    });
+
     it('should allow removal when target is not a platform admin', async () => {
       // One admin exists, but it's not the target user
       vi.mocked(prisma.userRole.findMany).mockResolvedValue([
@@ -120,6 +140,39 @@ describe('Role Safeguards', () => {
       );
     });
 
+    it('should block removal when the only other admin expires', async () => {
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue([
+        {
+          userId: 'user-1',
+          startsAt: null,
+          expiresAt: null,
+          role: { name: ROLES.ADMIN },
+        },
+        {
+          userId: 'user-2',
+          startsAt: null,
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+          role: { name: ROLES.ADMIN },
+        },
+      ] as never);
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
+        id: 'org-1',
+        name: 'Test Org',
+        slug: 'test-org',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const result = await checkLastOrgAdmin('user-1', 'org-1', ROLES.ADMIN, 'actor-1');
+
+      expect(result.allowed).toBe(false);
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({ adminCount: 1 }),
+        })
+      );
+    });
+
     it('should allow removal of non-admin roles without checking', async () => {
       const result = await checkLastOrgAdmin('user-1', 'org-1', ROLES.USER, 'actor-1');
 
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const { mockPrisma, mockCookies } = vi.hoisted(() => ({
+  mockPrisma: {
+    oAuthAccount: { findUnique: vi.fn(), create: vi.fn() },
+    user: { findUnique: vi.fn(), update: vi.fn() },
+  },
+  mockCookies: { get: vi.fn(), delete: vi.fn() },
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+vi.mock('next/headers', () => ({ cookies: async () => mockCookies }));
+vi.mock('@/lib/auth', () => ({
+  getSession: vi.fn().mockResolvedValue({}),
+  createUserSession: vi.fn(),
+  getClientIP: vi.fn().mockReturnValue('127.0.0.1'),
+}));
+vi.mock('@/lib/audit', () => ({ logAuditEvent: vi.fn() }));
+vi.mock('@/lib/auth/lockout', () => ({
+  checkAccountLocked: vi.fn().mockResolvedValue({ isLocked: false }),
+}));
+vi.mock('@/lib/auth/sso', () => ({ isEmailOnVerifiedDomain: vi.fn() }));
+vi.mock('@/lib/auth/saml', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth/saml')>()),
+  verifySamlState: vi.fn(),
+  getSamlConnection: vi.fn(),
+  validateSamlResponse: vi.fn(),
+  mapSamlProfile: vi.fn(),
+  provisionSamlUser: vi.fn(),
+  ensureSamlMembership: vi.fn(),
+}));
+
+import { POST } from '@/app/api/auth/saml/[slug]/acs/route';
+import { createUserSession } from '@/lib/auth';
+import { checkAccountLocked } from '@/lib/auth/lockout';
+import { isEmailOnVerifiedDomain } from '@/lib/auth/sso';
+import {
+  getSamlConnection,
+  mapSamlProfile,
+  provisionSamlUser,
+  validateSamlResponse,
+  verifySamlState,
+} from '@/lib/auth/saml';
+
+/**
+ * SAML Assertion Consumer Service tests.
+ *
+ * The IdP is only trusted for addresses on the organization's verified
+ * domains, and the account must be usable to sign in.
+ */
+
+const params = { params: Promise.resolve({ slug: 'acme' }) };
+
+function acsRequest() {
+  const form = new FormData();
+  form.set('SAMLResponse', 'response');
+  form.set('RelayState', '_request-1');
+  return new NextRequest('http://localhost/api/auth/saml/acme/acs', {
+    method: 'POST',
+    body: form,
+  });
+}
+
+const activeUser = {
+  id: 'user-1',
+  isActive: true,
+  status: 'ACTIVE',
+  statusReason: null,
+  statusExpiresAt: null,
+  twoFactorEnabled: false,
+};
+
+describe('SAML ACS route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCookies.get.mockReturnValue({ value: 'state' });
+    vi.mocked(verifySamlState).mockResolvedValue({
+      organizationSlug: 'acme',
+      requestId: '_request-1',
+      returnTo: '/dashboard',
+    } as never);
+    vi.mocked(getSamlConnection).mockResolvedValue({
+      organizationId: 'org-1',
+      connection: { organizationId: 'org-1', defaultRoleId: 'role-user' },
+    } as never);
+    vi.mocked(validateSamlResponse).mockResolvedValue({} as never);
+    vi.mocked(mapSamlProfile).mockReturnValue({
+      id: 'name-id-1',
+      email: 'jane@gmail.com',
+      emailVerified: false,
+      firstName: 'Jane',
+      lastName: null,
+      avatarUrl: null,
+    });
+    mockPrisma.oAuthAccount.findUnique.mockResolvedValue(null);
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+    mockPrisma.user.update.mockResolvedValue({ id: 'user-1', userRoles: [] });
+  });
+
+  it('refuses to provision addresses outside the verified domains', async () => {
+    vi.mocked(isEmailOnVerifiedDomain).mockResolvedValue(false);
+
+    const response = await POST(acsRequest(), params);
+
+    expect(response.headers.get('location')).toBe(
+      'http://localhost:3000/login?error=sso_domain_not_verified'
+    );
+    expect(isEmailOnVerifiedDomain).toHaveBeenCalledWith(
+      'jane@gmail.com',
+      'org-1'
+    );
+    expect(provisionSamlUser).not.toHaveBeenCalled();
+  });
+
+  it('provisions addresses on a verified domain as verified', async () => {
+    vi.mocked(isEmailOnVerifiedDomain).mockResolvedValue(true);
+    vi.mocked(provisionSamlUser).mockResolvedValue('user-1');
+    mockPrisma.user.findUnique.mockResolvedValueOnce(null);
+    mockPrisma.user.findUnique.mockResolvedValueOnce(activeUser);
+
+    const response = await POST(acsRequest(), params);
+
+    expect(provisionSamlUser).toHaveBeenCalledWith(
+      expect.objectContaining({ emailVerified: true }),
+      'acme',
+      expect.anything()
+    );
+    expect(response.headers.get('location')).toBe(
+      'http://localhost:3000/dashboard'
+    );
+    expect(createUserSession).toHaveBeenCalled();
+  });
+
+  it('refuses suspended accounts', async () => {
+    mockPrisma.oAuthAccount.findUnique.mockResolvedValue({ userId: 'user-1' });
+    mockPrisma.user.findUnique.mockResolvedValue({
+      ...activeUser,
+      isActive: false,
+      status: 'SUSPENDED',
+    });
+
+    const response = await POST(acsRequest(), params);
+
+    expect(response.headers.get('location')).toBe(
+      'http://localhost:3000/login?error=account_inactive'
+    );
+    expect(createUserSession).not.toHaveBeenCalled();
+  });
+
+  it('refuses locked accounts', async () => {
+    mockPrisma.oAuthAccount.findUnique.mockResolvedValue({ userId: 'user-1' });
+    mockPrisma.user.findUnique.mockResolvedValue(activeUser);
+    vi.mocked(checkAccountLocked).mockResolvedValueOnce({
+      isLocked: true,
+      lockedUntil: new Date(Date.now() + 60_000),
+      remainingAttempts: 0,
+    });
+
+    const response = await POST(acsRequest(), params);
+
+    expect(response.headers.get('location')).toBe(
+      'http://localhost:3000/login?error=account_locked'
+    );
+    expect(createUserSession).not.toHaveBeenCalled();
+  });
+});
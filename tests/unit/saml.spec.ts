@@ -0,0 +1,434 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { SignedXml } from 'xml-crypto';
+
+vi.mock('@/lib/env', () => ({
+  env: {
+    JWT_SECRET: 'test-jwt-secret-that-is-at-least-32-characters',
+    NEXT_PUBLIC_APP_URL: 'http://localhost:3000',
+  },
+}));
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    organization: { findUnique: vi.fn() },
+    userRole: { findFirst: vi.fn(), create: vi.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/db';
+import {
+  getSamlProviderId,
+  getServiceProviderUrls,
+  generateSpMetadata,
+  parseIdpMetadata,
+  createSamlLoginRequest,
+  verifySamlState,
+  validateSamlResponse,
+  mapSamlProfile,
+  getSamlConnection,
+  ensureSamlMembership,
+  type SamlConnectionConfig,
+} from '@/lib/auth/saml';
+
+const ORG_SLUG = 'acme';
+const IDP_ENTITY_ID = 'https://idp.example.com/saml';
+const SP_ENTITY_ID = 'http://localhost:3000/api/auth/saml/acme/metadata';
+const ACS_URL = 'http://localhost:3000/api/auth/saml/acme/acs';
+
+// Locally generated IdP keypair; node-saml accepts a public key PEM as idpCert
+function generateIdpKeys() {
+  return generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+}
+
+const idpKeys = generateIdpKeys();
+const otherKeys = generateIdpKeys();
+
+const connection: SamlConnectionConfig = {
+  idpEntityId: IDP_ENTITY_ID,
+  idpSsoUrl: 'https://idp.example.com/saml/sso',
+  idpCertificate: idpKeys.publicKey,
+  emailAttribute: null,
+  firstNameAttribute: null,
+  lastNameAttribute: null,
+};
+
+interface ResponseOptions {
+  inResponseTo?: string;
+  audience?: string;
+  issuer?: string;
+  nameId?: string;
+  attributes?: Record<string, string>;
+  notOnOrAfter?: Date;
+  signingKey?: string;
+}
+
+function buildSamlResponse(options: ResponseOptions = {}): string {
+  const {
+    inResponseTo = '_request-1',
+    audience = SP_ENTITY_ID,
+    issuer = IDP_ENTITY_ID,
+    nameId = 'user-123',
+    attributes = { email: 'Jane@Example.com' },
+    notOnOrAfter = new Date(Date.now() + 5 * 60 * 1000),
+    signingKey = idpKeys.privateKey,
+  } = options;
+
+  const now = new Date().toISOString();
+  const notBefore = new Date(Date.now() - 60 * 1000).toISOString();
+  const expires = notOnOrAfter.toISOString();
+
+  const attributeXml = Object.entries(attributes)
+    .map(
+      ([name, value]) =>
+        `<saml:Attribute Name="${name}"><saml:AttributeValue>${value}</saml:AttributeValue></saml:Attribute>`
+    )
+    .join('');
+
+  const assertion =
+    `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_assertion-1" Version="2.0" IssueInstant="${now}">` +
+    `<saml:Issuer>${issuer}</saml:Issuer>` +
+    `<saml:Subject>` +
+    `<saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified">${nameId}</saml:NameID>` +
+    `<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">` +
+    `<saml:SubjectConfirmationData InResponseTo="${inResponseTo}" NotOnOrAfter="${expires}" Recipient="${ACS_URL}"/>` +
+    `</saml:SubjectConfirmation>` +
+    `</saml:Subject>` +
+    `<saml:Conditions NotBefore="${notBefore}" NotOnOrAfter="${expires}">` +
+    `<saml:AudienceRestriction><saml:Audience>${audience}</saml:Audience></saml:AudienceRestriction>` +
+    `</saml:Conditions>` +
+    `<saml:AuthnStatement AuthnInstant="${now}" SessionIndex="_session-1">` +
+    `<saml:AuthnContext><saml:AuthnContextClassRef>urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport</saml:AuthnContextClassRef></saml:AuthnContext>` +
+    `</saml:AuthnStatement>` +
+    `<saml:AttributeStatement>${attributeXml}</saml:AttributeStatement>` +
+    `</saml:Assertion>`;
+
+  const signer = new SignedXml({
+    privateKey: signingKey,
+    signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+    canonicalizationAlgorithm: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+  });
+  signer.addReference({
+    xpath: "//*[local-name(.)='Assertion']",
+    transforms: [
+      'http://www.w3.org/2000/09/xmldsig#enveloped-signature',
+      'http://www.w3.org/2001/10/xml-exc-c14n#',
+    ],
+    digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256',
+  });
+  signer.computeSignature(assertion, {
+    location: {
+      reference: "//*[local-name(.)='Issuer']",
+      action: 'after',
+    },
+  });
+
+  const response =
+    `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ID="_response-1" Version="2.0" IssueInstant="${now}" Destination="${ACS_URL}" InResponseTo="${inResponseTo}">` +
+    `<saml:Issuer xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion">${issuer}</saml:Issuer>` +
+    `<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>` +
+    signer.getSignedXml() +
+    `</samlp:Response>`;
+
+  return Buffer.from(response).toString('base64');
+}
+
+describe('SAML service provider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('service provider identity', () => {
+    it('namespaces linked accounts by organization', () => {
+      expect(getSamlProviderId(ORG_SLUG)).toBe('saml:acme');
+    });
+
+    it('derives entity ID and ACS URL from the organization slug', () => {
+      expect(getServiceProviderUrls(ORG_SLUG)).toEqual({
+        entityId: SP_ENTITY_ID,
+        acsUrl: ACS_URL,
+      });
+    });
+
+    it('publishes SP metadata requiring signed assertions', () => {
+      const metadata = generateSpMetadata(ORG_SLUG);
+
+      expect(metadata).toContain(`entityID="${SP_ENTITY_ID}"`);
+      expect(metadata).toContain(`Location="${ACS_URL}"`);
+      expect(metadata).toContain('WantAssertionsSigned="true"');
+    });
+  });
+
+  describe('parseIdpMetadata', () => {
+    const metadata = (ssoBinding: string, keyUse = 'signing') => `
+      <md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="${IDP_ENTITY_ID}">
+        <md:IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+          <md:KeyDescriptor use="${keyUse}">
+            <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+              <ds:X509Data>
+                <ds:X509Certificate>
+                  MIIBszCCAV2gAwIBAgIU
+                  AAAA
+                </ds:X509Certificate>
+              </ds:X509Data>
+            </ds:KeyInfo>
+          </md:KeyDescriptor>
+          <md:SingleSignOnService Binding="${ssoBinding}" Location="https://idp.example.com/saml/sso"/>
+        </md:IDPSSODescriptor>
+      </md:EntityDescriptor>`;
+
+    it('extracts entity ID, redirect SSO URL and signing certificate', () => {
+      expect(
+        parseIdpMetadata(
+          metadata('urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect')
+        )
+      ).toEqual({
+        entityId: IDP_ENTITY_ID,
+        ssoUrl: 'https://idp.example.com/saml/sso',
+        certificate: 'MIIBszCCAV2gAwIBAgIUAAAA',
+      });
+    });
+
+    it('rejects metadata without an HTTP-Redirect endpoint', () => {
+      expect(
+        parseIdpMetadata(
+          metadata('urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST')
+        )
+      ).toBeNull();
+    });
+
+    it('ignores encryption-only keys', () => {
+      expect(
+        parseIdpMetadata(
+          metadata(
+            'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect',
+            'encryption'
+          )
+        )
+      ).toBeNull();
+    });
+
+    it('rejects malformed XML', () => {
+      expect(parseIdpMetadata('<md:EntityDescriptor')).toBeNull();
+    });
+  });
+
+  describe('createSamlLoginRequest', () => {
+    it('redirects to the IdP with the request ID as RelayState', async () => {
+      const { url, state } = await createSamlLoginRequest(
+        connection,
+        ORG_SLUG,
+        '/settings'
+      );
+
+      const redirect = new URL(url);
+      expect(redirect.origin + redirect.pathname).toBe(connection.idpSsoUrl);
+      expect(redirect.searchParams.get('SAMLRequest')).toBeTruthy();
+
+      const payload = await verifySamlState(state);
+      expect(payload).toMatchObject({
+        organizationSlug: ORG_SLUG,
+        returnTo: '/settings',
+      });
+      expect(redirect.searchParams.get('RelayState')).toBe(payload?.requestId);
+    });
+
+    it('rejects a tampered state token', async () => {
+      const { state } = await createSamlLoginRequest(connection, ORG_SLUG);
+
+      expect(await verifySamlState(`${state}x`)).toBeNull();
+    });
+  });
+
+  describe('validateSamlResponse', () => {
+    it('accepts an assertion signed by the IdP key', async () => {
+      const profile = await validateSamlResponse(
+        connection,
+        ORG_SLUG,
+        buildSamlResponse(),
+        '_request-1'
+      );
+
+      expect(profile?.nameID).toBe('user-123');
+      expect(profile?.issuer).toBe(IDP_ENTITY_ID);
+    });
+
+    it('rejects an assertion signed by another key', async () => {
+      const profile = await validateSamlResponse(
+        connection,
+        ORG_SLUG,
+        buildSamlResponse({ signingKey: otherKeys.privateKey }),
+        '_request-1'
+      );
+
+      expect(profile).toBeNull();
+    });
+
+    it('rejects a response to a different request', async () => {
+      const profile = await validateSamlResponse(
+        connection,
+        ORG_SLUG,
+        buildSamlResponse({ inResponseTo: '_request-2' }),
+        '_request-1'
+      );
+
+      expect(profile).toBeNull();
+    });
+
+    it('rejects an assertion for another audience', async () => {
+      const profile = await validateSamlResponse(
+        connection,
+        ORG_SLUG,
+        buildSamlResponse({
+          audience: 'http://localhost:3000/api/auth/saml/other/metadata',
+        }),
+        '_request-1'
+      );
+
+      expect(profile).toBeNull();
+    });
+
+    it('rejects an assertion from another issuer', async () => {
+      const profile = await validateSamlResponse(
+        connection,
+        ORG_SLUG,
+        buildSamlResponse({ issuer: 'https://evil.example.com' }),
+        '_request-1'
+      );
+
+      expect(profile).toBeNull();
+    });
+
+    it('rejects an expired assertion', async () => {
+      const profile = await validateSamlResponse(
+        connection,
+        ORG_SLUG,
+        buildSamlResponse({
+          notOnOrAfter: new Date(Date.now() - 10 * 60 * 1000),
+        }),
+        '_request-1'
+      );
+
+      expect(profile).toBeNull();
+    });
+  });
+
+  describe('mapSamlProfile', () => {
+    const profileFor = async (options: ResponseOptions) =>
+      (await validateSamlResponse(
+        connection,
+        ORG_SLUG,
+        buildSamlResponse(options),
+        '_request-1'
+      ))!;
+
+    it('maps common attribute names by default', async () => {
+      const profile = await profileFor({
+        attributes: {
+          mail: 'Jane@Example.com',
+          givenName: 'Jane',
+          sn: 'Doe',
+        },
+      });
+
+      expect(mapSamlProfile(profile, connection)).toEqual({
+        id: 'user-123',
+        email: 'jane@example.com',
+        emailVerified: false,
+        firstName: 'Jane',
+        lastName: 'Doe',
+        avatarUrl: null,
+      });
+    });
+
+    it('uses the connection attribute mapping when set', async () => {
+      const profile = await profileFor({
+        attributes: {
+          email: 'ignored@example.com',
+          workEmail: 'jane@acme.com',
+          first: 'Jane',
+        },
+      });
+
+      const mapped = mapSamlProfile(profile, {
+        ...connection,
+        emailAttribute: 'workEmail',
+        firstNameAttribute: 'first',
+      });
+
+      expect(mapped?.email).toBe('jane@acme.com');
+      expect(mapped?.firstName).toBe('Jane');
+      expect(mapped?.lastName).toBeNull();
+    });
+
+    it('falls back to an email-shaped NameID', async () => {
+      const profile = await profileFor({
+        nameId: 'jane@acme.com',
+        attributes: {},
+      });
+
+      expect(mapSamlProfile(profile, connection)?.email).toBe('jane@acme.com');
+    });
+
+    it('returns null without any email', async () => {
+      const profile = await profileFor({ attributes: { givenName: 'Jane' } });
+
+      expect(mapSamlProfile(profile, connection)).toBeNull();
+    });
+  });
+
+  describe('getSamlConnection', () => {
+    it('returns the enabled connection for the organization', async () => {
+      const row = { ...connection, isEnabled: true };
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
+        id: 'org-1',
+        samlConnection: row,
+      } as never);
+
+      expect(await getSamlConnection(ORG_SLUG)).toEqual({
+        organizationId: 'org-1',
+        connection: row,
+      });
+    });
+
+    it('returns null for a disabled connection', async () => {
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
+        id: 'org-1',
+        samlConnection: { ...connection, isEnabled: false },
+      } as never);
+
+      expect(await getSamlConnection(ORG_SLUG)).toBeNull();
+    });
+  });
+
+  describe('ensureSamlMembership', () => {
+    const sso = { organizationId: 'org-1', defaultRoleId: 'role-user' };
+
+    it('assigns the default role to non-members', async () => {
+      vi.mocked(prisma.userRole.findFirst).mockResolvedValue(null);
+
+      expect(await ensureSamlMembership('user-1', sso)).toBe(true);
+      expect(prisma.userRole.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          roleId: 'role-user',
+          organizationId: 'org-1',
+        },
+      });
+    });
+
+    it('keeps an existing organization role', async () => {
+      vi.mocked(prisma.userRole.findFirst).mockResolvedValue({
+        id: 'ur-1',
+      } as never);
+
+      expect(await ensureSamlMembership('user-1', sso)).toBe(false);
+      expect(prisma.userRole.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseScimFilter,
+  compileScimFilter,
+  stringAttribute,
+  booleanAttribute,
+  dateAttribute,
+} from '@/lib/scim/filter';
+import { ScimError } from '@/lib/scim/errors';
+
+const attributes = {
+  username: stringAttribute('email'),
+  id: stringAttribute('id', true),
+  'name.givenname': stringAttribute('firstName'),
+  active: booleanAttribute('isActive'),
+  'meta.lastmodified': dateAttribute('updatedAt'),
+};
+
+function compile(filter: string) {
+  return compileScimFilter(parseScimFilter(filter), attributes);
+}
+
+function expectInvalidFilter(fn: () => unknown) {
+  try {
+    fn();
+    expect.unreachable('Expected an invalidFilter error');
+  } catch (error) {
+    expect(error).toBeInstanceOf(ScimError);
+    expect(error).toMatchObject({ status: 400, scimType: 'invalidFilter' });
+  }
+}
+
+describe('SCIM filters', () => {
+  describe('parseScimFilter', () => {
+    it('parses an attribute comparison', () => {
+      expect(parseScimFilter('userName eq "jane@acme.com"')).toEqual({
+        op: 'eq',
+        attribute: 'username',
+        value: 'jane@acme.com',
+      });
+    });
+
+    it('is case-insensitive for operators and strips the core schema URN', () => {
+      expect(
+        parseScimFilter(
+          'urn:ietf:params:scim:schemas:core:2.0:User:name.givenName SW "J"'
+        )
+      ).toEqual({ op: 'sw', attribute: 'name.givenname', value: 'J' });
+    });
+
+    it('parses literals and presence', () => {
+      expect(parseScimFilter('active eq false')).toMatchObject({
+        value: false,
+      });
+      expect(parseScimFilter('title pr')).toEqual({
+        op: 'pr',
+        attribute: 'title',
+      });
+    });
+
+    it('gives "and" precedence over "or"', () => {
+      expect(
+        parseScimFilter('id eq "1" or id eq "2" and active eq true')
+      ).toEqual({
+        op: 'or',
+        left: { op: 'eq', attribute: 'id', value: '1' },
+        right: {
+          op: 'and',
+          left: { op: 'eq', attribute: 'id', value: '2' },
+          right: { op: 'eq', attribute: 'active', value: true },
+        },
+      });
+    });
+
+    it('parses grouping and "not"', () => {
+      expect(
+        parseScimFilter('not (id eq "1" or id eq "2") and active eq true')
+      ).toMatchObject({
+        op: 'and',
+        left: { op: 'not', filter: { op: 'or' } },
+      });
+    });
+
+    it('unescapes quoted strings', () => {
+      expect(parseScimFilter('userName eq "a\\"b"')).toMatchObject({
+        value: 'a"b',
+      });
+    });
+
+    it.each([
+      '',
+      'userName',
+      'userName eq',
+      'userName like "x"',
+      'userName eq "open',
+      '(userName eq "x"',
+      'userName eq "x" extra',
+      'emails[type eq "work"]',
+      'userName eq jane',
+    ])('rejects %j', (filter) => {
+      expectInvalidFilter(() => parseScimFilter(filter));
+    });
+  });
+
+  describe('compileScimFilter', () => {
+    it('compares strings case-insensitively unless case-exact', () => {
+      expect(compile('userName eq "Jane@Acme.com"')).toEqual({
+        email: { equals: 'Jane@Acme.com', mode: 'insensitive' },
+      });
+      expect(compile('id eq "abc"')).toEqual({ id: { equals: 'abc' } });
+    });
+
+    it('maps substring and range operators', () => {
+      expect(compile('userName co "acme"')).toEqual({
+        email: { contains: 'acme', mode: 'insensitive' },
+      });
+      expect(compile('name.givenName ew "ne"')).toEqual({
+        firstName: { endsWith: 'ne', mode: 'insensitive' },
+      });
+      expect(compile('id ge "m"')).toEqual({ id: { gte: 'm' } });
+    });
+
+    it('negates "ne" comparisons', () => {
+      expect(compile('userName ne "x"')).toEqual({
+        NOT: { email: { equals: 'x', mode: 'insensitive' } },
+      });
+    });
+
+    it('maps presence to non-null', () => {
+      expect(compile('name.givenName pr')).toEqual({
+        firstName: { not: null },
+      });
+    });
+
+    it('compiles logical operators', () => {
+      expect(compile('active eq true and not (userName sw "test")')).toEqual({
+        AND: [
+          { isActive: true },
+          {
+            NOT: { email: { startsWith: 'test', mode: 'insensitive' } },
+          },
+        ],
+      });
+    });
+
+    it('compares dates', () => {
+      expect(compile('meta.lastModified gt "2026-01-01T00:00:00Z"')).toEqual({
+        updatedAt: { gt: new Date('2026-01-01T00:00:00Z') },
+      });
+    });
+
+    it('rejects unknown attributes and mismatched value types', () => {
+      expectInvalidFilter(() => compile('title eq "CEO"'));
+      expectInvalidFilter(() => compile('active eq "yes"'));
+      expectInvalidFilter(() => compile('active gt true'));
+      expectInvalidFilter(() => compile('userName eq 5'));
+      expectInvalidFilter(() => compile('meta.lastModified gt "soon"'));
+    });
+  });
+});
@@ -0,0 +1,571 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma = {
+    scimToken: { findFirst: vi.fn(), update: vi.fn() },
+    scimIdentity: { findFirst: vi.fn(), deleteMany: vi.fn() },
+    user: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    userRole: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    role: { findFirst: vi.fn(), findUnique: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+
+vi.mock('@/lib/auth', () => ({
+  getClientIP: vi.fn().mockReturnValue('127.0.0.1'),
+  invalidateUserSessions: vi.fn().mockResolvedValue(2),
+}));
+
+vi.mock('@/lib/auth/sso', () => ({
+  isEmailOnVerifiedDomain: vi.fn().mockResolvedValue(false),
+}));
+
+vi.mock('@/lib/auth/user-status', () => ({
+  changeUserStatus: vi.fn(),
+}));
+
+vi.mock('@/lib/audit', () => ({
+  logAuditEvent: vi.fn(),
+}));
+
+import { invalidateUserSessions } from '@/lib/auth';
+import { isEmailOnVerifiedDomain } from '@/lib/auth/sso';
+import { changeUserStatus } from '@/lib/auth/user-status';
+import { logAuditEvent } from '@/lib/audit';
+import {
+  authenticateScimRequest,
+  generateScimToken,
+  hashScimToken,
+  parseListParams,
+  scimErrorResponse,
+  ScimError,
+  createScimUser,
+  patchScimUser,
+  deleteScimUser,
+  listScimUsers,
+  patchScimGroup,
+  type ScimContext,
+} from '@/lib/scim';
+
+const context: ScimContext = {
+  organizationId: 'org-1',
+  tokenId: 'token-1',
+  ipAddress: '127.0.0.1',
+};
+
+const created = new Date('2026-01-01T00:00:00Z');
+
+function userRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'user-1',
+    email: 'jane@acme.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    isActive: true,
+    createdAt: created,
+    updatedAt: created,
+    userRoles: [{ role: { id: 'role-user', name: 'ROLE_USER' } }],
+    scimIdentities: [],
+    ...overrides,
+  };
+}
+
+function groupRecord(memberIds: string[]) {
+  return {
+    id: 'role-mod',
+    name: 'ROLE_MODERATOR',
+    createdAt: created,
+    updatedAt: created,
+    userRoles: memberIds.map((id) => ({
+      user: { id, email: `${id}@acme.com` },
+    })),
+  };
+}
+
+function patch(...operations: Record<string, unknown>[]) {
+  return {
+    schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+    Operations: operations,
+  };
+}
+
+async function expectScimError(
+  promise: Promise<unknown>,
+  expected: Partial<Pick<ScimError, 'status' | 'scimType'>>
+) {
+  const error = await promise.catch((e) => e);
+  expect(error).toBeInstanceOf(ScimError);
+  expect(error).toMatchObject(expected);
+}
+
+describe('SCIM provisioning', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockPrisma.$transaction.mockImplementation(async (arg: unknown) =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg as [])
+    );
+    mockPrisma.scimToken.update.mockResolvedValue({});
+    mockPrisma.role.findUnique.mockResolvedValue({ id: 'role-user' });
+    mockPrisma.userRole.findFirst.mockResolvedValue(null);
+  });
+
+  describe('authenticateScimRequest', () => {
+    function request(authorization?: string) {
+      return new NextRequest('http://localhost/scim/v2/Users', {
+        headers: authorization ? { authorization } : {},
+      });
+    }
+
+    it('resolves the organization from a valid token', async () => {
+      const { token, tokenHash } = generateScimToken();
+      mockPrisma.scimToken.findFirst.mockResolvedValue({
+        id: 'token-1',
+        organizationId: 'org-1',
+      });
+
+      const result = await authenticateScimRequest(request(`Bearer ${token}`));
+
+      expect(result).toMatchObject({
+        organizationId: 'org-1',
+        tokenId: 'token-1',
+      });
+      expect(mockPrisma.scimToken.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash, revokedAt: null } })
+      );
+    });
+
+    it('rejects missing, malformed and unknown tokens', async () => {
+      mockPrisma.scimToken.findFirst.mockResolvedValue(null);
+
+      await expectScimError(authenticateScimRequest(request()), {
+        status: 401,
+      });
+      await expectScimError(
+        authenticateScimRequest(request('Bearer lsk_not-a-scim-token')),
+        { status: 401 }
+      );
+      await expectScimError(
+        authenticateScimRequest(request(`Bearer ${generateScimToken().token}`)),
+        { status: 401 }
+      );
+    });
+
+    it('stores only the token hash', () => {
+      const { token, tokenHash, tokenPrefix } = generateScimToken();
+
+      expect(token).toMatch(/^scim_/);
+      expect(tokenHash).toBe(hashScimToken(token));
+      expect(tokenHash).not.toContain(token);
+      expect(token.startsWith(tokenPrefix)).toBe(true);
+    });
+  });
+
+  describe('responses', () => {
+    it('clamps pagination parameters', () => {
+      expect(
+        parseListParams(new URLSearchParams('startIndex=0&count=1000'))
+      ).toEqual({ filter: undefined, startIndex: 1, count: 200 });
+      expect(parseListParams(new URLSearchParams('count=-5'))).toMatchObject({
+        count: 0,
+      });
+    });
+
+    it('renders SCIM error messages', async () => {
+      const response = scimErrorResponse(
+        new ScimError(409, 'userName is already in use', 'uniqueness')
+      );
+
+      expect(response.status).toBe(409);
+      expect(response.headers.get('content-type')).toContain(
+        'application/scim+json'
+      );
+      expect(await response.json()).toEqual({
+        schemas: ['urn:ietf:params:scim:api:messages:2.0:Error'],
+        status: '409',
+        scimType: 'uniqueness',
+        detail: 'userName is already in use',
+      });
+    });
+
+    it('hides unexpected errors', async () => {
+      const response = scimErrorResponse(new Error('database down'));
+
+      expect(response.status).toBe(500);
+      expect((await response.json()).detail).not.toContain('database');
+    });
+  });
+
+  describe('Users', () => {
+    it('lists organization members with filter and pagination', async () => {
+      mockPrisma.user.count.mockResolvedValue(3);
+      mockPrisma.user.findMany.mockResolvedValue([userRecord()]);
+
+      const result = await listScimUsers(context, {
+        filter: 'userName eq "jane@acme.com"',
+        startIndex: 3,
+        count: 1,
+      });
+
+      expect(result.totalResults).toBe(3);
+      expect(result.resources[0]).toMatchObject({
+        id: 'user-1',
+        userName: 'jane@acme.com',
+        name: { givenName: 'Jane', familyName: 'Doe' },
+        active: true,
+        groups: [{ value: 'role-user', display: 'ROLE_USER' }],
+      });
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              { userRoles: { some: { organizationId: 'org-1' } } },
+              { email: { equals: 'jane@acme.com', mode: 'insensitive' } },
+            ],
+          },
+          skip: 2,
+          take: 1,
+        })
+      );
+    });
+
+    it('provisions a new user as a verified member', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+      mockPrisma.scimIdentity.findFirst.mockResolvedValue(null);
+      mockPrisma.user.create.mockResolvedValue(
+        userRecord({ scimIdentities: [{ externalId: 'okta-1' }] })
+      );
+
+      const user = await createScimUser(context, {
+        schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+        userName: 'jane@acme.com',
+        externalId: 'okta-1',
+        name: { givenName: 'Jane', familyName: 'Doe' },
+      });
+
+      expect(user).toMatchObject({ id: 'user-1', externalId: 'okta-1' });
+      expect(mockPrisma.user.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            email: 'jane@acme.com',
+            emailVerified: true,
+            isActive: true,
+            userRoles: {
+              create: { roleId: 'role-user', organizationId: 'org-1' },
+            },
+            scimIdentities: {
+              create: { organizationId: 'org-1', externalId: 'okta-1' },
+            },
+          }),
+        })
+      );
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'SCIM_USER_PROVISIONED',
+          userId: 'user-1',
+        })
+      );
+    });
+
+    it('rejects userNames that are not emails', async () => {
+      await expectScimError(createScimUser(context, { userName: 'jane' }), {
+        status: 400,
+        scimType: 'invalidValue',
+      });
+    });
+
+    it('rejects existing members', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(userRecord());
+
+      await expectScimError(
+        createScimUser(context, { userName: 'jane@acme.com' }),
+        { status: 409, scimType: 'uniqueness' }
+      );
+    });
+
+    it('only adopts existing accounts on a verified domain', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(
+        userRecord({ userRoles: [] })
+      );
+
+      await expectScimError(
+        createScimUser(context, { userName: 'jane@acme.com' }),
+        { status: 409, scimType: 'uniqueness' }
+      );
+
+      vi.mocked(isEmailOnVerifiedDomain).mockResolvedValueOnce(true);
+      mockPrisma.user.update.mockResolvedValue(userRecord());
+
+      await createScimUser(context, { userName: 'jane@acme.com' });
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            userRoles: {
+              create: { roleId: 'role-user', organizationId: 'org-1' },
+            },
+            scimIdentities: {
+              create: { organizationId: 'org-1', externalId: undefined },
+            },
+          },
+        })
+      );
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('deactivates a user and invalidates their sessions', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(userRecord());
+      mockPrisma.user.update.mockResolvedValue(userRecord({ isActive: false }));
+
+      const user = await patchScimUser(
+        context,
+        'user-1',
+        // Azure AD sends booleans as strings
+        patch({ op: 'Replace', path: 'active', value: 'False' })
+      );
+
+      expect(user.active).toBe(false);
+      expect(changeUserStatus).toHaveBeenCalledWith(
+        'user-1',
+        'SUSPENDED',
+        { reason: 'Deactivated by your organization directory' },
+        mockPrisma
+      );
+      expect(invalidateUserSessions).toHaveBeenCalledWith('user-1');
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'SCIM_USER_DEACTIVATED',
+          category: 'admin',
+          userId: 'user-1',
+          metadata: expect.objectContaining({
+            organizationId: 'org-1',
+            scimTokenId: 'token-1',
+          }),
+        })
+      );
+    });
+
+    it('applies pathless operations and ignores unsupported attributes', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(userRecord());
+      mockPrisma.user.update.mockResolvedValue(
+        userRecord({ firstName: 'Janet' })
+      );
+
+      await patchScimUser(
+        context,
+        'user-1',
+        patch({
+          op: 'replace',
+          value: { 'name.givenName': 'Janet', title: 'CTO', active: true },
+        })
+      );
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { firstName: 'Janet' } })
+      );
+      expect(invalidateUserSessions).not.toHaveBeenCalled();
+    });
+
+    it('does not write when nothing changed', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(userRecord());
+
+      await patchScimUser(
+        context,
+        'user-1',
+        patch({ op: 'replace', path: 'active', value: true })
+      );
+
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+      expect(logAuditEvent).not.toHaveBeenCalled();
+    });
+
+    it('only changes userName for accounts the organization provisioned', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(userRecord());
+
+      await expectScimError(
+        patchScimUser(
+          context,
+          'user-1',
+          patch({ op: 'replace', path: 'userName', value: 'new@acme.com' })
+        ),
+        { status: 400, scimType: 'mutability' }
+      );
+    });
+
+    it('refuses to manage organization owners', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(
+        userRecord({
+          userRoles: [{ role: { id: 'role-owner', name: 'ROLE_OWNER' } }],
+        })
+      );
+
+      await expectScimError(
+        patchScimUser(
+          context,
+          'user-1',
+          patch({ op: 'replace', path: 'active', value: false })
+        ),
+        { status: 403 }
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for users outside the organization', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+
+      await expectScimError(deleteScimUser(context, 'user-2'), {
+        status: 404,
+      });
+    });
+
+    it('rejects malformed PatchOp requests', async () => {
+      await expectScimError(
+        patchScimUser(context, 'user-1', { Operations: [{ op: 'move' }] }),
+        { status: 400, scimType: 'invalidSyntax' }
+      );
+    });
+
+    it('deprovisions a user and deactivates accounts it created', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(
+        userRecord({ scimIdentities: [{ externalId: null }] })
+      );
+      mockPrisma.userRole.count.mockResolvedValue(0);
+
+      await deleteScimUser(context, 'user-1');
+
+      expect(mockPrisma.userRole.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', organizationId: 'org-1' },
+      });
+      expect(changeUserStatus).toHaveBeenCalledWith(
+        'user-1',
+        'SUSPENDED',
+        { reason: 'Deactivated by your organization directory' },
+        mockPrisma
+      );
+      expect(invalidateUserSessions).toHaveBeenCalledWith('user-1');
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'SCIM_USER_DEPROVISIONED',
+          metadata: expect.objectContaining({ deactivated: true }),
+        })
+      );
+    });
+
+    it('keeps accounts it did not create active', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(userRecord());
+      mockPrisma.userRole.count.mockResolvedValue(0);
+
+      await deleteScimUser(context, 'user-1');
+
+      expect(changeUserStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Groups', () => {
+    it('adds organization members to the role', async () => {
+      mockPrisma.role.findFirst
+        .mockResolvedValueOnce(groupRecord([]))
+        .mockResolvedValueOnce(groupRecord(['user-1']));
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'user-1' }]);
+      mockPrisma.userRole.findMany.mockResolvedValue([]);
+
+      const group = await patchScimGroup(
+        context,
+        'role-mod',
+        patch({ op: 'add', path: 'members', value: [{ value: 'user-1' }] })
+      );
+
+      expect(group.members).toEqual([
+        expect.objectContaining({ value: 'user-1' }),
+      ]);
+      expect(mockPrisma.userRole.createMany).toHaveBeenCalledWith({
+        data: [
+          { userId: 'user-1', roleId: 'role-mod', organizationId: 'org-1' },
+        ],
+        skipDuplicates: true,
+      });
+      expect(invalidateUserSessions).toHaveBeenCalledWith('user-1');
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'SCIM_GROUP_MEMBERS_UPDATED',
+          metadata: expect.objectContaining({
+            groupId: 'role-mod',
+            added: ['user-1'],
+            removed: [],
+          }),
+        })
+      );
+    });
+
+    it('rejects users outside the organization', async () => {
+      mockPrisma.role.findFirst.mockResolvedValue(groupRecord([]));
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      await expectScimError(
+        patchScimGroup(
+          context,
+          'role-mod',
+          patch({ op: 'add', path: 'members', value: [{ value: 'user-9' }] })
+        ),
+        { status: 400, scimType: 'invalidValue' }
+      );
+    });
+
+    it('falls back to ROLE_USER when a member loses their last role', async () => {
+      mockPrisma.role.findFirst
+        .mockResolvedValueOnce(groupRecord(['user-1', 'user-2']))
+        .mockResolvedValueOnce(groupRecord(['user-2']));
+      // user-1 holds no other role in the organization
+      mockPrisma.userRole.findMany.mockResolvedValue([]);
+
+      await patchScimGroup(
+        context,
+        'role-mod',
+        patch({ op: 'remove', path: 'members[value eq "user-1"]' })
+      );
+
+      expect(mockPrisma.userRole.deleteMany).toHaveBeenCalledWith({
+        where: {
+          organizationId: 'org-1',
+          roleId: 'role-mod',
+          userId: { in: ['user-1'] },
+        },
+      });
+      expect(mockPrisma.userRole.createMany).toHaveBeenLastCalledWith({
+        data: [
+          { userId: 'user-1', roleId: 'role-user', organizationId: 'org-1' },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('cannot rename groups', async () => {
+      mockPrisma.role.findFirst.mockResolvedValue(groupRecord([]));
+
+      await expectScimError(
+        patchScimGroup(
+          context,
+          'role-mod',
+          patch({ op: 'replace', path: 'displayName', value: 'Engineers' })
+        ),
+        { status: 400, scimType: 'mutability' }
+      );
+    });
+  });
+});
@@ -1,4 +1,12 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { SignJWT, decodeProtectedHeader } from 'jose';
+
+vi.mock('@/lib/db', async () => {
+  const { createSigningKeyStore } =
+    await import('../utils/signing-key-helpers');
+  return { prisma: createSigningKeyStore() };
+});
+
 import {
   hashPassword,
   verifyPassword,
@@ -43,12 +51,12 @@ describe('Password Hashing', () => {
       expect(hash1).not.toBe(hash2);
     });
 
-    it('should produce bcrypt format hash', async () => {
+    it('should produce argon2id format hash', async () => {
       const password = 'SecurePassword123!';
       const hash = await hashPassword(password);
 
-      // bcrypt hashes start with $2a$ or $2b$
-      expect(hash).toMatch(/^\$2[ab]\$/);
+      // PHC string recording the algorithm and its parameters
+      expect(hash).toMatch(/^\$argon2id\$v=19\$m=19456,t=2,p=1\$/);
     });
   });
 
@@ -174,6 +182,33 @@ describe('JWT Token Generation and Verification', () => {
         'Invalid access token'
       );
     });
+
+    it('should sign with an asymmetric key identified by kid', async () => {
+      const token = await generateAccessToken(testPayload);
+      const header = decodeProtectedHeader(token);
+
+      expect(header.alg).toBe('RS256');
+      expect(header.kid).toEqual(expect.any(String));
+    });
+
+    it('should reject tokens signed with the shared secret', async () => {
+      const token = await new SignJWT({
+        sub: testPayload.userId,
+        email: testPayload.email,
+        role: testPayload.role,
+        jti: 'jti-1',
+      })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setIssuedAt()
+        .setExpirationTime('15m')
+        .setIssuer('soclestack')
+        .setAudience('soclestack-users')
+        .sign(new TextEncoder().encode(process.env.JWT_SECRET));
+
+      await expect(verifyAccessToken(token)).rejects.toThrow(
+        'Invalid access token'
+      );
+    });
   });
 
   describe('generateRefreshToken', () => {
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SignJWT, jwtVerify, decodeProtectedHeader } from 'jose';
+
+const { store, mockEnv } = vi.hoisted(() => ({
+  store: {} as ReturnType<
+    typeof import('../utils/signing-key-helpers').createSigningKeyStore
+  >,
+  mockEnv: { NODE_ENV: 'test' } as { JWT_SIGNING_ALGORITHM?: string },
+}));
+
+vi.mock('@/lib/db', async () => {
+  const { createSigningKeyStore } =
+    await import('../utils/signing-key-helpers');
+  // Modules re-imported after vi.resetModules() share the same store
+  if (!store.signingKey) Object.assign(store, createSigningKeyStore());
+  return { prisma: store };
+});
+
+vi.mock('@/lib/env', () => ({ env: mockEnv }));
+
+import {
+  getSigningKey,
+  getVerificationKey,
+  getPublicJwks,
+  listSigningKeys,
+  rotateSigningKey,
+  retireSigningKey,
+  clearSigningKeyCache,
+} from '@/lib/signing-keys';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = new Date('2026-01-01T00:00:00Z');
+
+async function sign(): Promise<string> {
+  const key = await getSigningKey();
+  return new SignJWT({ sub: 'user-1' })
+    .setProtectedHeader({ alg: key.algorithm, kid: key.kid })
+    .sign(key.privateKey);
+}
+
+function verify(token: string) {
+  return jwtVerify(token, getVerificationKey);
+}
+
+/** Advance the clock and let the key cache expire. */
+function advance(ms: number) {
+  vi.setSystemTime(new Date(Date.now() + ms));
+  clearSigningKeyCache();
+}
+
+describe('Signing keys', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+    store.rows.length = 0;
+    delete mockEnv.JWT_SIGNING_ALGORITHM;
+    clearSigningKeyCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates the first RS256 key on first use', async () => {
+    const token = await sign();
+
+    expect(store.rows).toHaveLength(1);
+    expect(decodeProtectedHeader(token)).toEqual({
+      alg: 'RS256',
+      kid: store.rows[0].kid,
+    });
+    await expect(verify(token)).resolves.toBeDefined();
+  });
+
+  it('publishes public keys only', async () => {
+    await getSigningKey();
+
+    const { keys } = await getPublicJwks();
+
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatchObject({
+      kty: 'RSA',
+      alg: 'RS256',
+      use: 'sig',
+      kid: store.rows[0].kid,
+    });
+    expect(keys[0]).not.toHaveProperty('d');
+  });
+
+  it('generates EdDSA keys when configured', async () => {
+    mockEnv.JWT_SIGNING_ALGORITHM = 'EdDSA';
+
+    const token = await sign();
+
+    expect(decodeProtectedHeader(token).alg).toBe('EdDSA');
+    expect((await getPublicJwks()).keys[0]).toMatchObject({
+      kty: 'OKP',
+      crv: 'Ed25519',
+    });
+    await expect(verify(token)).resolves.toBeDefined();
+  });
+
+  it('caches keys between calls', async () => {
+    await getSigningKey();
+    const loads = store.signingKey.findMany.mock.calls.length;
+
+    await getSigningKey();
+    await getPublicJwks();
+
+    expect(store.signingKey.findMany).toHaveBeenCalledTimes(loads);
+  });
+
+  describe('scheduled rotation', () => {
+    it('publishes the successor before it starts signing', async () => {
+      const oldToken = await sign();
+      const oldKid = store.rows[0].kid;
+
+      // Due in 90 days; the successor is published 24 hours ahead
+      advance(89 * DAY_MS);
+      await getSigningKey();
+
+      expect(store.rows).toHaveLength(2);
+      expect((await getPublicJwks()).keys).toHaveLength(2);
+      expect((await getSigningKey()).kid).toBe(oldKid);
+
+      advance(DAY_MS);
+      const newToken = await sign();
+
+      expect(decodeProtectedHeader(newToken).kid).not.toBe(oldKid);
+      await expect(verify(newToken)).resolves.toBeDefined();
+      await expect(verify(oldToken)).resolves.toBeDefined();
+    });
+
+    it('retires the replaced key after the overlap window', async () => {
+      const oldToken = await sign();
+      advance(89 * DAY_MS);
+      await getSigningKey();
+
+      // Successor activates after 24 hours, old key retires 24 hours later
+      advance(2 * DAY_MS - 1000);
+      await expect(verify(oldToken)).resolves.toBeDefined();
+
+      advance(1000);
+      await expect(verify(oldToken)).rejects.toThrow('Unknown signing key');
+      expect((await getPublicJwks()).keys).toHaveLength(1);
+    });
+
+    it('does not rotate before the key is due', async () => {
+      await getSigningKey();
+      advance(88 * DAY_MS);
+      await getSigningKey();
+
+      expect(store.rows).toHaveLength(1);
+    });
+
+    it('rotates when the configured algorithm changes', async () => {
+      await getSigningKey();
+
+      mockEnv.JWT_SIGNING_ALGORITHM = 'EdDSA';
+      advance(HOUR_MS);
+      await getSigningKey();
+
+      expect(store.rows.map((row) => row.algorithm)).toEqual([
+        'RS256',
+        'EdDSA',
+      ]);
+      expect(store.rows[1].activatesAt).toEqual(new Date(Date.now() + DAY_MS));
+    });
+  });
+
+  describe('rotateSigningKey', () => {
+    it('switches signing keys immediately and keeps the old one verifying', async () => {
+      const oldToken = await sign();
+      advance(HOUR_MS);
+
+      const key = await rotateSigningKey();
+
+      expect(key.status).toBe('active');
+      expect((await getSigningKey()).kid).toBe(key.kid);
+      await expect(verify(oldToken)).resolves.toBeDefined();
+
+      const statuses = (await listSigningKeys()).map((k) => k.status);
+      expect(statuses).toEqual(['active', 'retiring']);
+    });
+  });
+
+  describe('retireSigningKey', () => {
+    it('rejects tokens from a retired key and replaces it', async () => {
+      const token = await sign();
+      const { id, kid } = store.rows[0];
+
+      expect(await retireSigningKey(id)).toBe(true);
+
+      await expect(verify(token)).rejects.toThrow('Unknown signing key');
+      expect((await getSigningKey()).kid).not.toBe(kid);
+      expect((await getPublicJwks()).keys.map((k) => k.kid)).not.toContain(kid);
+    });
+
+    it('returns false for unknown or retired keys', async () => {
+      await getSigningKey();
+      const { id } = store.rows[0];
+
+      expect(await retireSigningKey('missing')).toBe(false);
+      expect(await retireSigningKey(id)).toBe(true);
+      expect(await retireSigningKey(id)).toBe(false);
+    });
+  });
+
+  describe('getVerificationKey', () => {
+    it('rejects a kid it does not know', async () => {
+      const token = await sign();
+      store.rows.length = 0;
+      advance(60 * 1000);
+
+      await expect(verify(token)).rejects.toThrow('Unknown signing key');
+    });
+
+    it('rejects a token whose algorithm does not match the key', async () => {
+      const { kid } = await getSigningKey();
+
+      await expect(getVerificationKey({ alg: 'EdDSA', kid })).rejects.toThrow(
+        'Unknown signing key'
+      );
+    });
+
+    it('reloads keys to find a kid rotated by another instance', async () => {
+      await getSigningKey();
+
+      vi.resetModules();
+      const otherInstance = await import('@/lib/signing-keys');
+      await otherInstance.rotateSigningKey();
+      const key = await otherInstance.getSigningKey();
+      const token = await new SignJWT({ sub: 'user-1' })
+        .setProtectedHeader({ alg: key.algorithm, kid: key.kid })
+        .sign(key.privateKey);
+
+      // Reloads are throttled, then pick up the new key
+      await expect(verify(token)).rejects.toThrow('Unknown signing key');
+      vi.setSystemTime(new Date(Date.now() + 31 * 1000));
+      await expect(verify(token)).resolves.toBeDefined();
+    });
+  });
+});
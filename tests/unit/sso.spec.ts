@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    organization: {
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    organizationDomain: { findFirst: vi.fn() },
+    userRole: { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('dns/promises', () => ({
+  resolveTxt: vi.fn(),
+}));
+
+import { resolveTxt } from 'dns/promises';
+import { prisma } from '@/lib/db';
+import { SsoRequiredError } from '@/services/auth.errors';
+import {
+  normalizeDomain,
+  getEmailDomain,
+  getSsoLoginUrl,
+  findSsoForEmail,
+  getEnforcedSsoOrganization,
+  assertSsoNotRequired,
+  getDomainVerificationToken,
+  getDomainVerificationRecord,
+  verifyDomainOwnership,
+} from '@/lib/auth/sso';
+
+describe('Organization SSO policy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('normalizeDomain', () => {
+    it('lowercases and strips a trailing dot', () => {
+      expect(normalizeDomain(' Acme.COM. ')).toBe('acme.com');
+    });
+
+    it('accepts subdomains', () => {
+      expect(normalizeDomain('eu.mail.acme.co.uk')).toBe('eu.mail.acme.co.uk');
+    });
+
+    it.each(['acme', 'acme..com', '-acme.com', 'https://acme.com', 'a b.com'])(
+      'rejects %s',
+      (input) => {
+        expect(normalizeDomain(input)).toBeNull();
+      }
+    );
+  });
+
+  describe('getEmailDomain', () => {
+    it('returns the normalized domain of an address', () => {
+      expect(getEmailDomain('Jane@Acme.com')).toBe('acme.com');
+    });
+
+    it('returns null for a string without a domain', () => {
+      expect(getEmailDomain('jane')).toBeNull();
+    });
+  });
+
+  describe('getSsoLoginUrl', () => {
+    it('points at the organization SAML login', () => {
+      expect(getSsoLoginUrl('acme')).toBe('/api/auth/saml/acme/login');
+    });
+
+    it('carries the return path', () => {
+      expect(getSsoLoginUrl('acme', '/settings?tab=1')).toBe(
+        '/api/auth/saml/acme/login?returnTo=%2Fsettings%3Ftab%3D1'
+      );
+    });
+  });
+
+  describe('findSsoForEmail', () => {
+    it('routes addresses on a verified domain to the organization IdP', async () => {
+      vi.mocked(prisma.organizationDomain.findFirst).mockResolvedValue({
+        organization: { slug: 'acme', name: 'Acme' },
+      } as never);
+
+      expect(await findSsoForEmail('jane@ACME.com', '/dashboard')).toEqual({
+        organizationSlug: 'acme',
+        organizationName: 'Acme',
+        ssoUrl: '/api/auth/saml/acme/login?returnTo=%2Fdashboard',
+      });
+      expect(prisma.organizationDomain.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            domain: 'acme.com',
+            verifiedAt: { not: null },
+            organization: { samlConnection: { is: { isEnabled: true } } },
+          },
+        })
+      );
+    });
+
+    it('returns null for unclaimed domains', async () => {
+      vi.mocked(prisma.organizationDomain.findFirst).mockResolvedValue(null);
+
+      expect(await findSsoForEmail('jane@example.com')).toBeNull();
+    });
+
+    it('does not query for malformed addresses', async () => {
+      expect(await findSsoForEmail('jane')).toBeNull();
+      expect(prisma.organizationDomain.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enforcement', () => {
+    it('finds memberships in organizations that enforce SSO, except owners', async () => {
+      vi.mocked(prisma.userRole.findFirst).mockResolvedValue({
+        organization: { slug: 'acme' },
+      } as never);
+
+      expect(await getEnforcedSsoOrganization('user-1')).toEqual({
+        slug: 'acme',
+      });
+      expect(prisma.userRole.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-1',
+            role: { name: { not: 'ROLE_OWNER' } },
+            organization: {
+              ssoEnforced: true,
+              samlConnection: { is: { isEnabled: true } },
+            },
+          },
+        })
+      );
+    });
+
+    it('throws SsoRequiredError with the IdP login URL', async () => {
+      vi.mocked(prisma.userRole.findFirst).mockResolvedValue({
+        organization: { slug: 'acme' },
+      } as never);
+
+      const error = await assertSsoNotRequired('user-1').catch((e) => e);
+
+      expect(error).toBeInstanceOf(SsoRequiredError);
+      expect(error).toMatchObject({
+        type: 'SSO_REQUIRED',
+        statusCode: 403,
+        details: {
+          organizationSlug: 'acme',
+          ssoUrl: '/api/auth/saml/acme/login',
+        },
+      });
+    });
+
+    it('allows users outside enforcing organizations', async () => {
+      vi.mocked(prisma.userRole.findFirst).mockResolvedValue(null);
+
+      await expect(assertSsoNotRequired('user-1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('domain verification', () => {
+    it('reuses the organization token', async () => {
+      vi.mocked(prisma.organization.findUniqueOrThrow).mockResolvedValue({
+        domainVerificationToken: 'existing',
+      } as never);
+
+      expect(await getDomainVerificationToken('org-1')).toBe('existing');
+      expect(prisma.organization.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('creates a token on first use', async () => {
+      vi.mocked(prisma.organization.findUniqueOrThrow)
+        .mockResolvedValueOnce({ domainVerificationToken: null } as never)
+        .mockResolvedValueOnce({ domainVerificationToken: 'stored' } as never);
+
+      expect(await getDomainVerificationToken('org-1')).toBe('stored');
+      expect(prisma.organization.updateMany).toHaveBeenCalledWith({
+        where: { id: 'org-1', domainVerificationToken: null },
+        data: {
+          domainVerificationToken: expect.stringMatching(/^[0-9a-f]{32}$/),
+        },
+      });
+    });
+
+    it('describes the TXT record to publish', () => {
+      expect(getDomainVerificationRecord('acme.com', 'abc')).toEqual({
+        name: '_soclestack-challenge.acme.com',
+        value: 'soclestack-domain-verification=abc',
+      });
+    });
+
+    it('accepts a matching TXT record, including chunked ones', async () => {
+      vi.mocked(resolveTxt).mockResolvedValue([
+        ['v=spf1 -all'],
+        ['soclestack-domain-', 'verification=abc'],
+      ]);
+
+      expect(await verifyDomainOwnership('acme.com', 'abc')).toBe(true);
+      expect(resolveTxt).toHaveBeenCalledWith('_soclestack-challenge.acme.com');
+    });
+
+    it('rejects a different token', async () => {
+      vi.mocked(resolveTxt).mockResolvedValue([
+        ['soclestack-domain-verification=other'],
+      ]);
+
+      expect(await verifyDomainOwnership('acme.com', 'abc')).toBe(false);
+    });
+
+    it('treats lookup failures as unverified', async () => {
+      vi.mocked(resolveTxt).mockRejectedValue(
+        Object.assign(new Error('queryTxt ENOTFOUND'), { code: 'ENOTFOUND' })
+      );
+
+      expect(await verifyDomainOwnership('acme.com', 'abc')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockEnv } = vi.hoisted(() => ({
+  mockPrisma: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    userRole: {
+      findFirst: vi.fn(),
+      count: vi.fn(),
+    },
+  },
+  mockEnv: { TWO_FACTOR_REQUIRED_ROLES: undefined as string | undefined },
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+
+vi.mock('@/lib/env', () => ({ env: mockEnv }));
+
+import {
+  getTwoFactorCompliance,
+  getTwoFactorEnforcement,
+  getTwoFactorRequiredRoles,
+  isTwoFactorEnrollmentRequired,
+  isTwoFactorRequired,
+} from '@/lib/auth/two-factor-policy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+describe('Two-factor policy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnv.TWO_FACTOR_REQUIRED_ROLES = undefined;
+    mockPrisma.userRole.findFirst.mockResolvedValue(null);
+    mockPrisma.user.update.mockResolvedValue({});
+  });
+
+  describe('getTwoFactorRequiredRoles', () => {
+    it('parses a comma-separated list', () => {
+      mockEnv.TWO_FACTOR_REQUIRED_ROLES = ' ROLE_ADMIN, ROLE_MODERATOR ,';
+
+      expect(getTwoFactorRequiredRoles()).toEqual([
+        'ROLE_ADMIN',
+        'ROLE_MODERATOR',
+      ]);
+    });
+
+    it('requires no roles by default', () => {
+      expect(getTwoFactorRequiredRoles()).toEqual([]);
+    });
+  });
+
+  describe('isTwoFactorRequired', () => {
+    it('checks only organization policies when no roles are configured', async () => {
+      expect(await isTwoFactorRequired('user-1')).toBe(false);
+
+      expect(mockPrisma.userRole.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          OR: [{ organization: { require2FA: true } }],
+        },
+        select: { id: true },
+      });
+    });
+
+    it('checks platform roles named in the environment', async () => {
+      mockEnv.TWO_FACTOR_REQUIRED_ROLES = 'ROLE_ADMIN';
+      mockPrisma.userRole.findFirst.mockResolvedValue({ id: 'ur-1' });
+
+      expect(await isTwoFactorRequired('user-1')).toBe(true);
+
+      expect(mockPrisma.userRole.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          OR: [
+            { organization: { require2FA: true } },
+            { organizationId: null, role: { name: { in: ['ROLE_ADMIN'] } } },
+          ],
+        },
+        select: { id: true },
+      });
+    });
+  });
+
+  describe('getTwoFactorEnforcement', () => {
+    it('does not restrict enrolled users', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        twoFactorEnabled: true,
+        twoFactorGraceUntil: null,
+      });
+
+      expect(await getTwoFactorEnforcement('user-1', NOW)).toEqual({
+        status: 'enrolled',
+        graceUntil: null,
+      });
+      expect(mockPrisma.userRole.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('starts the grace period at the first covered sign-in', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        twoFactorEnabled: false,
+        twoFactorGraceUntil: null,
+      });
+      mockPrisma.userRole.findFirst.mockResolvedValue({ id: 'ur-1' });
+
+      const result = await getTwoFactorEnforcement('user-1', NOW);
+
+      const graceUntil = new Date(NOW.getTime() + 7 * DAY_MS);
+      expect(result).toEqual({ status: 'grace', graceUntil });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { twoFactorGraceUntil: graceUntil },
+      });
+    });
+
+    it('keeps an existing deadline', async () => {
+      const graceUntil = new Date(NOW.getTime() + DAY_MS);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        twoFactorEnabled: false,
+        twoFactorGraceUntil: graceUntil,
+      });
+      mockPrisma.userRole.findFirst.mockResolvedValue({ id: 'ur-1' });
+
+      expect(await getTwoFactorEnforcement('user-1', NOW)).toEqual({
+        status: 'grace',
+        graceUntil,
+      });
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('requires enrollment once the deadline has passed', async () => {
+      const graceUntil = new Date(NOW.getTime() - DAY_MS);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        twoFactorEnabled: false,
+        twoFactorGraceUntil: graceUntil,
+      });
+      mockPrisma.userRole.findFirst.mockResolvedValue({ id: 'ur-1' });
+
+      expect(await getTwoFactorEnforcement('user-1', NOW)).toEqual({
+        status: 'enrollment_required',
+        graceUntil,
+      });
+    });
+
+    it('clears the deadline of users no longer covered', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        twoFactorEnabled: false,
+        twoFactorGraceUntil: new Date(NOW.getTime() - DAY_MS),
+      });
+
+      expect(await getTwoFactorEnforcement('user-1', NOW)).toEqual({
+        status: 'not_required',
+        graceUntil: null,
+      });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { twoFactorGraceUntil: null },
+      });
+    });
+  });
+
+  describe('isTwoFactorEnrollmentRequired', () => {
+    it('limits sessions past their deadline', () => {
+      const deadline = NOW.getTime();
+
+      expect(
+        isTwoFactorEnrollmentRequired(
+          { twoFactorGraceUntil: deadline },
+          deadline - 1
+        )
+      ).toBe(false);
+      expect(
+        isTwoFactorEnrollmentRequired(
+          { twoFactorGraceUntil: deadline },
+          deadline
+        )
+      ).toBe(true);
+      expect(isTwoFactorEnrollmentRequired({}, deadline)).toBe(false);
+    });
+  });
+
+  describe('getTwoFactorCompliance', () => {
+    it('counts members and enrolled members', async () => {
+      mockPrisma.userRole.count
+        .mockResolvedValueOnce(12)
+        .mockResolvedValueOnce(9);
+
+      expect(await getTwoFactorCompliance('org-1')).toEqual({
+        members: 12,
+        enrolled: 9,
+      });
+      expect(mockPrisma.userRole.count).toHaveBeenCalledWith({
+        where: { organizationId: 'org-1', user: { twoFactorEnabled: true } },
+      });
+    });
+  });
+});
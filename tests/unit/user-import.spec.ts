@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockLogAuditEvent, mockSendAccountInviteEmail } =
+  vi.hoisted(() => ({
+    mockPrisma: {
+      user: {
+        findMany: vi.fn(),
+        create: vi.fn(),
+      },
+      organization: {
+        findMany: vi.fn(),
+      },
+      role: {
+        findMany: vi.fn(),
+      },
+    },
+    mockLogAuditEvent: vi.fn(),
+    mockSendAccountInviteEmail: vi.fn(),
+  }));
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+
+vi.mock('@/lib/audit', () => ({ logAuditEvent: mockLogAuditEvent }));
+
+vi.mock('@/lib/email', () => ({
+  sendAccountInviteEmail: mockSendAccountInviteEmail,
+  sendVerificationEmail: vi.fn().mockResolvedValue(true),
+}));
+
+import {
+  importUserBatch,
+  parseUserImportFile,
+  validateUserImport,
+  type UserImportOptions,
+} from '@/lib/user-import';
+import { parseCsv } from '@/lib/user-import/csv';
+import { SECURITY_CONFIG } from '@/lib/config/security';
+import { ValidationError } from '@/services/auth.errors';
+
+const OPTIONS: UserImportOptions = {
+  welcomeEmail: 'invite',
+  emailVerified: false,
+};
+
+describe('User import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.user.findMany.mockResolvedValue([]);
+    mockPrisma.organization.findMany.mockResolvedValue([
+      { id: 'org-1', slug: 'acme' },
+    ]);
+    mockPrisma.role.findMany.mockResolvedValue([
+      { id: 'role-user', name: 'ROLE_USER' },
+    ]);
+    mockPrisma.user.create.mockImplementation(
+      async ({ data }: { data: { email: string } }) => ({
+        id: `id-${data.email}`,
+      })
+    );
+    mockSendAccountInviteEmail.mockResolvedValue(true);
+  });
+
+  describe('parseCsv', () => {
+    it('handles quoted fields and CRLF line endings', () => {
+      expect(
+        parseCsv('email,lastName\r\na@x.com,"Smith, ""Jr"""\r\n\r\n')
+      ).toEqual([
+        ['email', 'lastName'],
+        ['a@x.com', 'Smith, "Jr"'],
+      ]);
+    });
+  });
+
+  describe('parseUserImportFile', () => {
+    it('maps CSV columns by header and ignores unknown ones', () => {
+      expect(
+        parseUserImportFile('email,notes,firstName\na@x.com,hi,Ann', 'csv')
+      ).toEqual([{ email: 'a@x.com', firstName: 'Ann' }]);
+    });
+
+    it('rejects malformed and oversized files', () => {
+      expect(() => parseUserImportFile('{"email":1}', 'json')).toThrow(
+        ValidationError
+      );
+      expect(() => parseUserImportFile('name\nAnn', 'csv')).toThrow(
+        ValidationError
+      );
+
+      const rows = Array.from(
+        { length: SECURITY_CONFIG.userImport.maxRows + 1 },
+        (_, i) => ({ email: `u${i}@x.com` })
+      );
+      expect(() => parseUserImportFile(JSON.stringify(rows), 'json')).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('validateUserImport', () => {
+    it('reports each problem row', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { email: 'TAKEN@x.com', username: null },
+      ]);
+
+      const rows = await validateUserImport(
+        [
+          { email: 'ok@x.com', organization: 'acme' },
+          { email: 'not-an-email' },
+          { email: 'OK@x.com' },
+          { email: 'taken@x.com' },
+          { email: 'hash@x.com', passwordHash: 'md5:abc' },
+          { email: 'org@x.com', organization: 'missing' },
+        ],
+        OPTIONS
+      );
+
+      expect(rows.map((row) => row.status)).toEqual([
+        'valid',
+        'invalid',
+        'invalid',
+        'invalid',
+        'invalid',
+        'invalid',
+      ]);
+      expect(rows[2].errors).toEqual(['email: Duplicate of row 1']);
+      expect(rows[3].errors).toEqual([
+        'email: A user with this email already exists',
+      ]);
+      expect(rows[4].errors).toEqual([
+        'passwordHash: Unsupported password hash format',
+      ]);
+      expect(rows[5].errors).toEqual([
+        'organization: No organization "missing"',
+      ]);
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('applies the default organization to rows without one', async () => {
+      const [row] = await validateUserImport([{ email: 'a@x.com' }], {
+        ...OPTIONS,
+        organization: 'missing',
+      });
+
+      expect(row.errors).toEqual(['organization: No organization "missing"']);
+    });
+  });
+
+  describe('importUserBatch', () => {
+    const context = {
+      batchId: 'batch-1',
+      importedBy: 'admin-1',
+      ipAddress: '127.0.0.1',
+    };
+
+    it('creates valid rows with their membership and audits the batch', async () => {
+      const rows = await importUserBatch(
+        [{ email: 'a@x.com', organization: 'acme' }, { email: 'invalid' }],
+        0,
+        OPTIONS,
+        context
+      );
+
+      expect(rows.map((row) => row.status)).toEqual(['created', 'invalid']);
+      expect(mockPrisma.user.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.user.create.mock.calls[0][0].data).toMatchObject({
+        email: 'a@x.com',
+        password: null,
+        passwordResetToken: expect.any(String),
+        userRoles: {
+          create: { roleId: 'role-user', organizationId: 'org-1' },
+        },
+      });
+      expect(mockSendAccountInviteEmail).toHaveBeenCalledWith(
+        'a@x.com',
+        expect.any(String),
+        expect.any(Date),
+        undefined,
+        'id-a@x.com'
+      );
+      expect(mockLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'ADMIN_USER_IMPORTED',
+          userId: 'id-a@x.com',
+          metadata: expect.objectContaining({
+            importBatchId: 'batch-1',
+            importedBy: 'admin-1',
+          }),
+        })
+      );
+    });
+
+    it('processes one batch from the offset', async () => {
+      const batchSize = SECURITY_CONFIG.userImport.batchSize;
+      const records = Array.from({ length: batchSize + 5 }, (_, i) => ({
+        email: `u${i}@x.com`,
+      }));
+
+      const rows = await importUserBatch(records, batchSize, OPTIONS, context);
+
+      expect(rows).toHaveLength(5);
+      expect(rows[0].row).toBe(batchSize + 1);
+    });
+
+    it('stores imported password hashes as they are', async () => {
+      const hash =
+        '$2a$12$abcdefghijklmnopqrstuuJ5tq1MUnKCzGIgp6Jxr0ZHTzNOfYq8e';
+
+      await importUserBatch(
+        [{ email: 'a@x.com', passwordHash: hash }],
+        0,
+        { welcomeEmail: 'none', emailVerified: true },
+        context
+      );
+
+      expect(mockPrisma.user.create.mock.calls[0][0].data).toMatchObject({
+        password: hash,
+        emailVerified: true,
+      });
+      expect(mockSendAccountInviteEmail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma = {
+    user: {
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    userStatusTransition: { create: vi.fn() },
+    userSession: { deleteMany: vi.fn() },
+    refreshToken: { updateMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }));
+
+import {
+  assertAccountAvailable,
+  changeUserStatus,
+  changeUsersStatus,
+  refreshUserStatus,
+} from '@/lib/auth/user-status';
+import {
+  AccountUnavailableError,
+  ValidationError,
+} from '@/services/auth.errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('User status', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(
+      async (fn: (tx: typeof mockPrisma) => unknown) => fn(mockPrisma)
+    );
+    mockPrisma.user.findUniqueOrThrow.mockResolvedValue({ status: 'ACTIVE' });
+    mockPrisma.user.update.mockImplementation(async ({ data }) => ({
+      id: 'user-1',
+      ...data,
+    }));
+  });
+
+  describe('changeUserStatus', () => {
+    it('suspends a user, records the transition and ends their sessions', async () => {
+      const until = new Date(Date.now() + DAY_MS);
+
+      await changeUserStatus('user-1', 'SUSPENDED', {
+        reason: ' Chargeback ',
+        expiresAt: until,
+        changedById: 'admin-1',
+      });
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'user-1' },
+          data: {
+            status: 'SUSPENDED',
+            isActive: false,
+            statusReason: 'Chargeback',
+            statusExpiresAt: until,
+          },
+        })
+      );
+      expect(mockPrisma.userStatusTransition.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          fromStatus: 'ACTIVE',
+          toStatus: 'SUSPENDED',
+          reason: 'Chargeback',
+          expiresAt: until,
+          changedById: 'admin-1',
+        },
+      });
+      expect(mockPrisma.userSession.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+      });
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalled();
+    });
+
+    it('keeps sessions and clears the reason when reactivating', async () => {
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue({
+        status: 'SUSPENDED',
+      });
+
+      await changeUserStatus('user-1', 'ACTIVE', { reason: 'Resolved' });
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            status: 'ACTIVE',
+            isActive: true,
+            statusReason: null,
+            statusExpiresAt: null,
+          },
+        })
+      );
+      expect(mockPrisma.userSession.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses transitions out of a deleted account', async () => {
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue({
+        status: 'DELETED',
+      });
+
+      await expect(changeUserStatus('user-1', 'ACTIVE')).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeUsersStatus', () => {
+    it('skips users already in the status or unable to change', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'user-1', status: 'ACTIVE' },
+        { id: 'user-2', status: 'SUSPENDED' },
+        { id: 'user-3', status: 'DELETED' },
+      ]);
+
+      const changed = await changeUsersStatus(
+        ['user-1', 'user-2', 'user-3'],
+        'SUSPENDED'
+      );
+
+      expect(changed).toEqual(['user-1']);
+      expect(mockPrisma.user.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('refreshUserStatus', () => {
+    it('reactivates users whose suspension expired', async () => {
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue({
+        status: 'SUSPENDED',
+      });
+
+      const user = await refreshUserStatus({
+        id: 'user-1',
+        isActive: false,
+        status: 'SUSPENDED',
+        statusReason: 'Cooling off',
+        statusExpiresAt: new Date(Date.now() - 1000),
+      });
+
+      expect(user).toMatchObject({ isActive: true, status: 'ACTIVE' });
+      expect(mockPrisma.userStatusTransition.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromStatus: 'SUSPENDED',
+          toStatus: 'ACTIVE',
+          reason: 'Suspension expired',
+          changedById: null,
+        }),
+      });
+    });
+
+    it('leaves running suspensions alone', async () => {
+      const user = {
+        id: 'user-1',
+        isActive: false,
+        status: 'SUSPENDED' as const,
+        statusExpiresAt: new Date(Date.now() + DAY_MS),
+      };
+
+      expect(await refreshUserStatus(user)).toBe(user);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertAccountAvailable', () => {
+    it('explains a suspension with its reason and end', () => {
+      const until = new Date(Date.now() + DAY_MS);
+
+      try {
+        assertAccountAvailable({
+          id: 'user-1',
+          isActive: false,
+          status: 'SUSPENDED',
+          statusReason: 'Unpaid invoice',
+          statusExpiresAt: until,
+        });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(AccountUnavailableError);
+        const unavailable = error as AccountUnavailableError;
+        expect(unavailable.message).toContain('Unpaid invoice');
+        expect(unavailable.details).toEqual({
+          accountStatus: 'SUSPENDED',
+          reason: 'Unpaid invoice',
+          until: until.toISOString(),
+        });
+      }
+    });
+
+    it('tells invited users to accept their invitation', () => {
+      expect(() =>
+        assertAccountAvailable({
+          id: 'user-1',
+          isActive: false,
+          status: 'INVITED',
+        })
+      ).toThrow(/invitation/);
+    });
+
+    it('lets active users through', () => {
+      expect(() =>
+        assertAccountAvailable({ id: 'user-1', isActive: true })
+      ).not.toThrow();
+    });
+  });
+});
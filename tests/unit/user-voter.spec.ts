@@ -6,9 +6,16 @@ import * as roleChecker from '@/lib/security/role-checker';
 // Mock the hasRole function from role-checker (where UserVoter imports it)
 vi.mock('@/lib/security/role-checker', async () => {
   const actual = await vi.importActual('@/lib/security/role-checker');
+  const { DEFAULT_PERMISSION_GRANTS } = await import(
+    '@/lib/security/permissions'
+  );
   return {
     ...actual,
     hasRole: vi.fn(),
+    getRolesGrantingPermission: vi.fn(
+      async (permission: keyof typeof DEFAULT_PERMISSION_GRANTS) =>
+        DEFAULT_PERMISSION_GRANTS[permission]
+    ),
   };
 });
 
@@ -205,5 +212,25 @@ describe('UserVoter', () => {
         expect(result).toBe(VoteResult.DENIED);
       });
     });
+
+    describe('database-backed grants', () => {
+      it('should grant other users access through a granted role', async () => {
+        const user = createUser('user-123', 'USER');
+        vi.mocked(roleChecker.getRolesGrantingPermission).mockResolvedValueOnce([
+          'ROLE_MODERATOR',
+          'ROLE_USER',
+        ]);
+
+        const result = await voter.vote(user, 'user.view', targetUser);
+        expect(result).toBe(VoteResult.GRANTED);
+      });
+
+      it('should keep self-access rules regardless of grants', async () => {
+        const user = createUser('user-123', 'ADMIN');
+        const result = await voter.vote(user, 'user.delete', { id: 'user-123' });
+        expect(result).toBe(VoteResult.DENIED);
+        expect(roleChecker.getRolesGrantingPermission).not.toHaveBeenCalled();
+      });
+    });
   });
 });
@@ -3,12 +3,24 @@ import { isGranted, clearVoterCache } from '@/lib/security/index';
 import { voters } from '@/lib/security/voters';
 import { createMockUserWithRoles } from '../utils/voter-mock-helpers';
 
+// No access policies: only the role-based voters decide
+vi.mock('@/lib/db', () => ({
+  prisma: { accessPolicy: { findMany: vi.fn().mockResolvedValue([]) } },
+}));
+
 // Mock hasRole to work with our test user structure
 vi.mock('@/lib/security/role-checker', async () => {
   const actual = await vi.importActual('@/lib/security/role-checker');
+  const { DEFAULT_PERMISSION_GRANTS } = await import(
+    '@/lib/security/permissions'
+  );
   return {
     ...actual,
     hasRole: vi.fn(),
+    getRolesGrantingPermission: vi.fn(
+      async (permission: keyof typeof DEFAULT_PERMISSION_GRANTS) =>
+        DEFAULT_PERMISSION_GRANTS[permission]
+    ),
   };
 });
 
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { IronSession } from 'iron-session';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+import type { SessionData } from '@/types/auth';
+
+const { mockVerifyAuthenticationResponse } = vi.hoisted(() => ({
+  mockVerifyAuthenticationResponse: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    webAuthnCredential: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@simplewebauthn/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@simplewebauthn/server')>()),
+  verifyAuthenticationResponse: mockVerifyAuthenticationResponse,
+}));
+
+import { prisma } from '@/lib/db';
+import {
+  getRelyingParty,
+  storeWebAuthnChallenge,
+  consumeWebAuthnChallenge,
+  generatePasskeyAuthenticationOptions,
+  verifyPasskeyAuthentication,
+  deletePasskey,
+} from '@/lib/auth/webauthn';
+
+/**
+ * WebAuthn / passkey tests.
+ *
+ * These tests verify challenge handling, assertion option generation
+ * and the credential ownership checks around assertion verification.
+ */
+
+function createSession(): IronSession<SessionData> {
+  return { isLoggedIn: false } as IronSession<SessionData>;
+}
+
+const assertion = {
+  id: 'cred-1',
+  rawId: 'cred-1',
+  type: 'public-key',
+  response: {
+    clientDataJSON: '',
+    authenticatorData: '',
+    signature: '',
+  },
+  clientExtensionResults: {},
+} as AuthenticationResponseJSON;
+
+const storedCredential = {
+  id: 'passkey-1',
+  userId: 'user-1',
+  credentialId: 'cred-1',
+  publicKey: Buffer.from('public-key').toString('base64url'),
+  counter: 5,
+  transports: 'internal,hybrid',
+};
+
+describe('WebAuthn', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getRelyingParty', () => {
+    it('should derive rpID and origin from the app URL', () => {
+      const { rpID, origin } = getRelyingParty();
+
+      expect(rpID).toBe('localhost');
+      expect(origin).toBe('http://localhost:3000');
+    });
+  });
+
+  describe('challenge storage', () => {
+    it('should return the stored challenge once', () => {
+      const session = createSession();
+      storeWebAuthnChallenge(session, {
+        challenge: 'abc',
+        purpose: 'registration',
+        userId: 'user-1',
+      });
+
+      expect(consumeWebAuthnChallenge(session, 'registration', 'user-1')).toBe(
+        'abc'
+      );
+      expect(
+        consumeWebAuthnChallenge(session, 'registration', 'user-1')
+      ).toBeNull();
+    });
+
+    it('should reject a challenge issued for another purpose', () => {
+      const session = createSession();
+      storeWebAuthnChallenge(session, {
+        challenge: 'abc',
+        purpose: 'registration',
+        userId: 'user-1',
+      });
+
+      expect(
+        consumeWebAuthnChallenge(session, 'authentication', 'user-1')
+      ).toBeNull();
+      expect(session.webauthnChallenge).toBeUndefined();
+    });
+
+    it('should reject a challenge bound to another user', () => {
+      const session = createSession();
+      storeWebAuthnChallenge(session, {
+        challenge: 'abc',
+        purpose: 'authentication',
+        userId: 'user-1',
+      });
+
+      expect(consumeWebAuthnChallenge(session, 'authentication')).toBeNull();
+    });
+
+    it('should reject an expired challenge', () => {
+      const session = createSession();
+      session.webauthnChallenge = {
+        challenge: 'abc',
+        purpose: 'authentication',
+        expiresAt: Date.now() - 1000,
+      };
+
+      expect(consumeWebAuthnChallenge(session, 'authentication')).toBeNull();
+    });
+  });
+
+  describe('generatePasskeyAuthenticationOptions', () => {
+    it('should allow any discoverable credential without a user', async () => {
+      const options = await generatePasskeyAuthenticationOptions();
+
+      expect(options.challenge).toBeDefined();
+      expect(options.rpId).toBe('localhost');
+      expect(options.allowCredentials).toBeUndefined();
+      expect(options.userVerification).toBe('required');
+      expect(prisma.webAuthnCredential.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should list the user's credentials for a second factor", async () => {
+      vi.mocked(prisma.webAuthnCredential.findMany).mockResolvedValue([
+        { credentialId: 'cred-1', transports: 'internal,hybrid' },
+      ] as never);
+
+      const options = await generatePasskeyAuthenticationOptions('user-1');
+
+      expect(options.allowCredentials).toEqual([
+        {
+          id: 'cred-1',
+          type: 'public-key',
+          transports: ['internal', 'hybrid'],
+        },
+      ]);
+      expect(options.userVerification).toBe('preferred');
+    });
+  });
+
+  describe('verifyPasskeyAuthentication', () => {
+    it('should return null for an unknown credential', async () => {
+      vi.mocked(prisma.webAuthnCredential.findUnique).mockResolvedValue(null);
+
+      const result = await verifyPasskeyAuthentication(assertion, 'challenge');
+
+      expect(result).toBeNull();
+      expect(mockVerifyAuthenticationResponse).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the credential belongs to another user', async () => {
+      vi.mocked(prisma.webAuthnCredential.findUnique).mockResolvedValue(
+        storedCredential as never
+      );
+
+      const result = await verifyPasskeyAuthentication(
+        assertion,
+        'challenge',
+        'user-2'
+      );
+
+      expect(result).toBeNull();
+      expect(mockVerifyAuthenticationResponse).not.toHaveBeenCalled();
+    });
+
+    it('should return null when verification throws', async () => {
+      vi.mocked(prisma.webAuthnCredential.findUnique).mockResolvedValue(
+        storedCredential as never
+      );
+      mockVerifyAuthenticationResponse.mockRejectedValue(
+        new Error('Unexpected authentication response challenge')
+      );
+
+      const result = await verifyPasskeyAuthentication(assertion, 'challenge');
+
+      expect(result).toBeNull();
+      expect(prisma.webAuthnCredential.update).not.toHaveBeenCalled();
+    });
+
+    it('should update the counter and return the owner on success', async () => {
+      vi.mocked(prisma.webAuthnCredential.findUnique).mockResolvedValue(
+        storedCredential as never
+      );
+      mockVerifyAuthenticationResponse.mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 6, credentialBackedUp: true },
+      });
+
+      const result = await verifyPasskeyAuthentication(
+        assertion,
+        'challenge',
+        'user-1'
+      );
+
+      expect(result).toEqual({ userId: 'user-1', credentialId: 'passkey-1' });
+      expect(mockVerifyAuthenticationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          expectedChallenge: 'challenge',
+          expectedOrigin: 'http://localhost:3000',
+          expectedRPID: 'localhost',
+          credential: expect.objectContaining({ id: 'cred-1', counter: 5 }),
+          requireUserVerification: false,
+        })
+      );
+      expect(prisma.webAuthnCredential.update).toHaveBeenCalledWith({
+        where: { id: 'passkey-1' },
+        data: expect.objectContaining({ counter: 6, backedUp: true }),
+      });
+    });
+
+    it('should require user verification for passwordless sign-in', async () => {
+      vi.mocked(prisma.webAuthnCredential.findUnique).mockResolvedValue(
+        storedCredential as never
+      );
+      mockVerifyAuthenticationResponse.mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 6, credentialBackedUp: true },
+      });
+
+      await verifyPasskeyAuthentication(assertion, 'challenge');
+
+      expect(mockVerifyAuthenticationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ requireUserVerification: true })
+      );
+    });
+  });
+
+  describe('deletePasskey', () => {
+    it('should only delete passkeys owned by the user', async () => {
+      vi.mocked(prisma.webAuthnCredential.deleteMany).mockResolvedValue({
+        count: 0,
+      });
+
+      const deleted = await deletePasskey('user-1', 'passkey-2');
+
+      expect(deleted).toBe(false);
+      expect(prisma.webAuthnCredential.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'passkey-2', userId: 'user-1' },
+      });
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { expect } from 'vitest';
+import {
+  formatIsGrantedTrace,
+  traceIsGranted,
+  type IsGrantedTrace,
+  type UserWithRoles,
+} from '@/lib/security/index';
+
+type GrantContext = Parameters<typeof traceIsGranted>[2];
+
+/**
+ * Assertion helpers for authorization checks.
+ * Run isGranted() in trace mode so a failing assertion shows every voter,
+ * its vote and the roles resolved through the hierarchy.
+ *
+ * @example
+ * ```typescript
+ * await expectGranted(user, 'organization.edit', { subject: org });
+ * ```
+ */
+export async function expectGranted(
+  user: UserWithRoles | null,
+  attribute: string,
+  context?: GrantContext
+): Promise<IsGrantedTrace> {
+  const trace = await traceIsGranted(user, attribute, context);
+  expect(trace.granted, formatIsGrantedTrace(trace)).toBe(true);
+  return trace;
+}
+
+export async function expectDenied(
+  user: UserWithRoles | null,
+  attribute: string,
+  context?: GrantContext
+): Promise<IsGrantedTrace> {
+  const trace = await traceIsGranted(user, attribute, context);
+  expect(trace.granted, formatIsGrantedTrace(trace)).toBe(false);
+  return trace;
+}
@@ -0,0 +1,105 @@
+import { vi } from 'vitest';
+
+/**
+ * In-memory stand-in for prisma.signingKey, so token tests can sign and
+ * verify with real keys without a database.
+ *
+ * Supports the queries made by src/lib/signing-keys.ts: equality, null,
+ * `gt` and `OR` filters, and ordering by a single field.
+ */
+
+interface SigningKeyRow {
+  id: string;
+  kid: string;
+  algorithm: string;
+  publicKey: unknown;
+  privateKey: string;
+  activatesAt: Date;
+  retiresAt: Date | null;
+  createdAt: Date;
+}
+
+type Where = Record<string, unknown> & { OR?: Where[] };
+
+function matches(row: SigningKeyRow, where: Where = {}): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === 'OR') {
+      return (condition as Where[]).some((w) => matches(row, w));
+    }
+    const value = row[field as keyof SigningKeyRow];
+    if (condition === null || typeof condition !== 'object') {
+      return value === condition;
+    }
+    if (condition instanceof Date) {
+      return value instanceof Date && value.getTime() === condition.getTime();
+    }
+    const { gt } = condition as { gt?: Date };
+    return value instanceof Date && gt !== undefined && value > gt;
+  });
+}
+
+export function createSigningKeyStore() {
+  const rows: SigningKeyRow[] = [];
+  let nextId = 1;
+
+  const signingKey = {
+    findMany: vi.fn(
+      async (
+        args: {
+          where?: Where;
+          orderBy?: Record<string, 'asc' | 'desc'>;
+        } = {}
+      ) => {
+        const found = rows.filter((row) => matches(row, args.where));
+        const [field, direction] = Object.entries(args.orderBy ?? {})[0] ?? [];
+        if (field) {
+          const key = field as keyof SigningKeyRow;
+          found.sort((a, b) => {
+            const diff =
+              (a[key] as Date).getTime() - (b[key] as Date).getTime();
+            return direction === 'desc' ? -diff : diff;
+          });
+        }
+        return found.map((row) => ({ ...row }));
+      }
+    ),
+    create: vi.fn(
+      async ({
+        data,
+      }: {
+        data: Omit<SigningKeyRow, 'id' | 'createdAt' | 'retiresAt'>;
+      }) => {
+        const row: SigningKeyRow = {
+          id: `key-${nextId++}`,
+          retiresAt: null,
+          createdAt: new Date(),
+          ...data,
+        };
+        rows.push(row);
+        return { ...row };
+      }
+    ),
+    updateMany: vi.fn(
+      async ({
+        where,
+        data,
+      }: {
+        where: Where;
+        data: Partial<SigningKeyRow>;
+      }) => {
+        const found = rows.filter((row) => matches(row, where));
+        found.forEach((row) => Object.assign(row, data));
+        return { count: found.length };
+      }
+    ),
+  };
+
+  const client = {
+    signingKey,
+    $transaction: vi.fn(async <T>(fn: (tx: typeof client) => Promise<T>) =>
+      fn(client)
+    ),
+  };
+
+  return { ...client, rows };
+}